@@ -18,6 +18,12 @@ import GlobalAchievementListener from './components/GlobalAchievementListener';
 import GlobalChallengeListener from './components/GlobalChallengeListener';
 import { warmupQuickCriteriaService } from './services/quickCriteriaService';
 import { initializeUnratedMealNotificationChannels } from './services/unratedMealNotificationService';
+import { startOutboxSync } from './services/mealOutboxService';
+import { startNotificationDelivery } from './services/notificationDeliveryService';
+import inAppNotificationService from './services/inAppNotificationService';
+import { scheduleStreakReminder } from './services/streakService';
+import { parseFilterPresetLink, FilterPresetState } from './services/filterPresetService';
+import { parseStoryCardLink } from './utils/storyCard';
 // Import theme
 import { colors, typography, spacing, shadows } from './themes';
 
@@ -37,6 +43,10 @@ import OnboardingScreen from './screens/OnboardingScreen';
 import FoodPassportWrapper from './screens/FoodPassportWrapper';
 import NotificationsScreen from './screens/NotificationsScreen';
 import MealTipsScreen from './screens/MealTipsScreen';
+import WeeklyRecapScreen from './screens/WeeklyRecapScreen';
+import WrappedScreen from './screens/WrappedScreen';
+import PassportExportScreen from './screens/PassportExportScreen';
+import DataExportScreen from './screens/DataExportScreen';
 import FullMapScreen from './screens/FullMapScreen';
 import type { FullMapParams } from './screens/FullMapScreen';
 
@@ -45,7 +55,7 @@ export type RootStackParamList = {
   Login: undefined;
   Onboarding: undefined;
   MainTabs: { screen?: string; params?: any }; // Added params for deep linking to tabs
-  Home: { tabIndex?: number; initialTab?: string; centerOnLocation?: { latitude: number; longitude: number; mealId?: string } } | undefined;
+  Home: { tabIndex?: number; initialTab?: string; centerOnLocation?: { latitude: number; longitude: number; mealId?: string }; filterPreset?: FilterPresetState } | undefined;
   Camera: undefined; // Kept for potential direct stack navigation
   Crop: {
     photo: {
@@ -103,6 +113,7 @@ export type RootStackParamList = {
     likedComment?: string;
     dislikedComment?: string;
     _uniqueKey?: string; // Ensure Rating screen reloads with new data
+    evidencePhotoUri?: string; // gallery original with EXIF, for iconic claims
   };
   Result: {
     photo: {
@@ -165,11 +176,19 @@ export type RootStackParamList = {
     dishName?: string;
     showPixelArtPicker?: boolean;
   };
+  WeeklyRecap: {
+    weekKey?: string;
+  } | undefined;
+  Wrapped: {
+    year?: number;
+  } | undefined;
+  PassportExport: undefined;
+  DataExport: undefined;
 };
 
 // Define separate types for tab navigation (screens directly in Tab.Navigator)
 export type TabParamList = {
-  Home: { tabIndex?: number; initialTab?: string; centerOnLocation?: { latitude: number; longitude: number; mealId?: string } } | undefined;
+  Home: RootStackParamList['Home'];
   Camera: undefined; // This is a tab that navigates to CameraScreen
   FoodPassport: RootStackParamList['FoodPassport']; // This is a tab that navigates to FoodPassportWrapper
   
@@ -547,6 +566,7 @@ const App: React.FC = () => {
   const [initializing, setInitializing] = useState(true);
   const [user, setUser] = useState<any>(null);
   const [pendingChallengeId, setPendingChallengeId] = useState<string | null>(null);
+  const [pendingFilterPreset, setPendingFilterPreset] = useState<FilterPresetState | null>(null);
   const [onboardingCompleted, setOnboardingCompleted] = useState<boolean | null>(null);
 
   // Track previous and current state to identify screen changes
@@ -580,6 +600,33 @@ const App: React.FC = () => {
           if (type === EventType.PRESS) {
             const notificationData = detail.notification?.data;
 
+            if (notificationData?.type === 'weekly-recap') {
+              if (!navigationRef.current?.isReady()) return;
+              const weekKey = typeof notificationData?.weekKey === 'string' ? notificationData.weekKey : undefined;
+              navigationRef.current.navigate('WeeklyRecap' as never, { weekKey } as never);
+              return;
+            }
+
+            // Grouped social pushes open the meal; the digest opens the list
+            if (notificationData?.type === 'social-activity' || notificationData?.type === 'notification-digest') {
+              // The push stood in for these in-app notifications, so opening it reads them
+              const notificationIds = notificationData?.notificationIds;
+              if (typeof notificationIds === 'string' && notificationIds.length > 0) {
+                inAppNotificationService.markManyAsRead(notificationIds.split(','));
+              }
+              if (!navigationRef.current?.isReady()) return;
+              const mealId = notificationData?.mealId;
+              if (typeof mealId === 'string' && mealId.length > 0) {
+                navigationRef.current.navigate('MealDetail' as never, {
+                  mealId,
+                  previousScreen: 'Notifications',
+                } as never);
+              } else {
+                navigationRef.current.navigate('Notifications' as never);
+              }
+              return;
+            }
+
             // Handle taps on statement or pixel art notifications - navigate to MealTipsScreen
             if (notificationData?.type === 'unrated-meal-statement' || notificationData?.type === 'unrated-meal-pixel-art') {
               const isPixelArt = notificationData?.type === 'unrated-meal-pixel-art';
@@ -884,6 +931,30 @@ const App: React.FC = () => {
     if (!url) return;
     
     console.log('Deep link received:', url);
+
+    // Shared filter preset: https://forkful.app/filters?p=... or forkful://filters?p=...
+    const sharedFilters = parseFilterPresetLink(url);
+    if (sharedFilters) {
+      console.log('Filter preset link:', sharedFilters.name);
+      setPendingFilterPreset(sharedFilters);
+      return;
+    }
+
+    // Story card links: https://forkful.app/meal/<id>, .../passport/<uid>
+    const storyLink = parseStoryCardLink(url);
+    if (storyLink) {
+      if (!user) {
+        Alert.alert('Sign In Required', 'Please sign in to see this on Forkful!', [{ text: 'OK' }]);
+        return;
+      }
+      if (!navigationRef.current?.isReady()) return;
+      if (storyLink.kind === 'meal') {
+        navigationRef.current.navigate('MealDetail' as never, { mealId: storyLink.id } as never);
+      } else {
+        navigationRef.current.navigate('FoodPassport' as never, { userId: storyLink.id, tabIndex: 0 } as never);
+      }
+      return;
+    }
     
     // Parse challenge ID from URL
     // Expected format: https://forkful.app/challenge/[challengeId] or forkful://challenge/[challengeId]
@@ -946,6 +1017,33 @@ const App: React.FC = () => {
     }
   }, [user, pendingChallengeId, handleAcceptChallenge]);
   
+  // Open Home with a shared filter preset once the user is signed in
+  useEffect(() => {
+    if (user && pendingFilterPreset) {
+      navigationRef.current?.navigate('MainTabs', {
+        screen: 'Home',
+        params: { filterPreset: pendingFilterPreset },
+      });
+      setPendingFilterPreset(null);
+    }
+  }, [user, pendingFilterPreset]);
+
+  // Replay offline meal writes queued by the camera / rating / edit flows
+  useEffect(() => {
+    const stopOutboxSync = startOutboxSync();
+    return stopOutboxSync;
+  }, []);
+
+  // Push grouped social notifications (the weekly recap arrives as one) and
+  // keep the daily digest scheduled
+  const userId = user?.uid;
+  useEffect(() => {
+    if (!userId) return;
+    const stopNotificationDelivery = startNotificationDelivery(userId);
+    scheduleStreakReminder(userId);
+    return stopNotificationDelivery;
+  }, [userId]);
+
   // Schedule periodic temp file cleanup
   useEffect(() => {
     const cleanupInterval = setInterval(() => {
@@ -1067,6 +1165,22 @@ const App: React.FC = () => {
               name="MealTips"
               component={MealTipsScreen}
             />
+            <Stack.Screen
+              name="WeeklyRecap"
+              component={WeeklyRecapScreen}
+            />
+            <Stack.Screen
+              name="Wrapped"
+              component={WrappedScreen}
+            />
+            <Stack.Screen
+              name="PassportExport"
+              component={PassportExportScreen}
+            />
+            <Stack.Screen
+              name="DataExport"
+              component={DataExportScreen}
+            />
           </Stack.Navigator>
         </NavigationContainer>
       </View>
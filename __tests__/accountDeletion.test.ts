@@ -0,0 +1,64 @@
+/**
+ * @format
+ * @jest-environment node
+ */
+
+import { ACCOUNT_DELETION_STEPS, runSteps } from '../functions/accountDeletion';
+
+type StepError = { step: string; message: string };
+
+// Fake cascade: each step records that it ran, and the named ones throw
+const cascade = (failing: string[] = []) => {
+  const ran: string[] = [];
+  const steps = ACCOUNT_DELETION_STEPS.map(name => ({
+    name,
+    run: async () => {
+      if (failing.includes(name)) throw new Error(`${name} is down`);
+      ran.push(name);
+    },
+  }));
+  return { ran, steps };
+};
+
+describe('account deletion cascade', () => {
+  it('flushes queued writes before the meals, and deletes the user doc and then the Auth user last', () => {
+    expect(ACCOUNT_DELETION_STEPS.indexOf('writes')).toBeLessThan(ACCOUNT_DELETION_STEPS.indexOf('meals'));
+    expect(ACCOUNT_DELETION_STEPS.slice(-2)).toEqual(['user', 'auth']);
+  });
+
+  it('runs every step when nothing fails', async () => {
+    const { ran, steps } = cascade();
+    const errors: StepError[] = [];
+    await expect(runSteps(steps, errors, 'u1')).resolves.toBe('complete');
+    expect(ran).toEqual(ACCOUNT_DELETION_STEPS);
+    expect(errors).toEqual([]);
+  });
+
+  it('stops at the first failing step and keeps the user doc', async () => {
+    const { ran, steps } = cascade(['follows']);
+    const errors: StepError[] = [];
+    await expect(runSteps(steps, errors, 'u1')).resolves.toBe('failed');
+    expect(errors).toEqual([{ step: 'follows', message: 'follows is down' }]);
+    expect(ran).toEqual(['comments', 'reactions', 'cheers', 'counters']);
+    expect(ran).not.toContain('user');
+    expect(ran).not.toContain('auth');
+  });
+
+  it('fails the run when a queued write failed, even though the step itself returned', async () => {
+    const errors: StepError[] = [];
+    const ran: string[] = [];
+    const steps = [
+      { name: 'writes', run: async () => void errors.push({ step: 'cheers', message: 'permission denied' }) },
+      { name: 'user', run: async () => void ran.push('user') },
+    ];
+    await expect(runSteps(steps, errors, 'u1')).resolves.toBe('failed');
+    expect(ran).toEqual([]);
+  });
+
+  it('completes on retry once the failing step recovers', async () => {
+    await runSteps(cascade(['storage']).steps, [], 'u1');
+    const retry = cascade();
+    await expect(runSteps(retry.steps, [], 'u1')).resolves.toBe('complete');
+    expect(retry.ran).toContain('user');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @format
+ */
+
+import {
+  buildAchievementAudit,
+  hasBackfillChanges,
+  HeldAchievement,
+  planAchievementBackfill,
+  recordsToRemove,
+} from '../utils/achievementBackfill';
+import type { AchievementMeal } from '../utils/achievementRules';
+import type { AchievementDefinition } from '../types/achievements';
+import bundled from '../constants/achievementDefinitions.json';
+
+const DEFINITIONS = bundled as AchievementDefinition[];
+
+let nextId = 0;
+const meal = (date: Date, overrides: Partial<AchievementMeal> = {}): AchievementMeal => {
+  nextId += 1;
+  return {
+    id: `m${nextId}`,
+    meal: `Dish ${nextId}`,
+    restaurant: `Place ${nextId}`,
+    rating: 4,
+    location: null,
+    photoUrl: null,
+    createdAt: date,
+    ...overrides,
+  };
+};
+
+const held = (id: string, achievementId: string, mealEntryId: string | null, extra: Partial<HeldAchievement> = {}) =>
+  ({ id, achievementId, mealEntryId, earnedAt: new Date(2025, 0, 1), ...extra }) as HeldAchievement;
+
+describe('planAchievementBackfill', () => {
+  const first = meal(new Date(2025, 0, 6), { meal: 'Grilled salmon' });
+  // Every other day, so no streak stamps get in the way
+  const sushi = [8, 10, 12, 14, 16].map(day => meal(new Date(2025, 0, day), { meal: 'Tuna maki' }));
+  const meals = [...sushi, first];
+
+  it('awards missing stamps against the meal and date that earned them', () => {
+    const plan = planAchievementBackfill(DEFINITIONS, meals, []);
+    expect(plan.award).toEqual([
+      { achievementId: 'first_bite', mealId: first.id, earnedAt: new Date(2025, 0, 6) },
+      { achievementId: 'catch_of_the_day', mealId: first.id, earnedAt: new Date(2025, 0, 6) },
+      { achievementId: 'dreaming_of_sushi', mealId: sushi[4].id, earnedAt: new Date(2025, 0, 16) },
+    ]);
+    expect(plan.mealsReplayed).toBe(6);
+  });
+
+  it('re-attributes held stamps credited to the wrong meal', () => {
+    const plan = planAchievementBackfill(DEFINITIONS, meals, [
+      held('r1', 'first_bite', first.id),
+      held('r2', 'catch_of_the_day', first.id),
+      held('r3', 'dreaming_of_sushi', 'unknown'),
+    ]);
+    expect(plan.award).toEqual([]);
+    expect(plan.reattribute.map(r => [r.record.id, r.award.mealId])).toEqual([['r3', sushi[4].id]]);
+  });
+
+  it('flags duplicates, unearned and unknown stamps', () => {
+    const plan = planAchievementBackfill(DEFINITIONS, meals, [
+      held('r1', 'first_bite', first.id, { earnedAt: new Date(2025, 0, 6) }),
+      held('r2', 'first_bite', first.id, { earnedAt: new Date(2025, 0, 8) }),
+      held('r3', 'taco_tuesday', first.id),
+      held('r4', 'moon_landing', null),
+    ]);
+    expect(plan.awardedInError.map(e => [e.record.id, e.reason])).toEqual([
+      ['r2', 'duplicate'],
+      ['r3', 'not_earned'],
+      ['r4', 'unknown_achievement'],
+    ]);
+    expect(recordsToRemove(plan, false).map(r => r.id)).toEqual(['r2']);
+    expect(recordsToRemove(plan, true).map(r => r.id)).toEqual(['r2', 'r3', 'r4']);
+  });
+
+  it('only removes duplicates when the history is incomplete, even when revoking', () => {
+    const records = [
+      held('r1', 'first_bite', first.id, { earnedAt: new Date(2025, 0, 6) }),
+      held('r2', 'first_bite', first.id, { earnedAt: new Date(2025, 0, 8) }),
+      held('r3', 'taco_tuesday', first.id),
+      held('r4', 'moon_landing', null),
+    ];
+    const undated = meal(new Date(2025, 0, 20), { createdAt: null, meal: 'Tacos' });
+    const withUndated = planAchievementBackfill(DEFINITIONS, [...meals, undated], records);
+    expect(withUndated.incomplete).toEqual(['1 meal without a date']);
+    expect(recordsToRemove(withUndated, true).map(r => r.id)).toEqual(['r2']);
+
+    const fallback = planAchievementBackfill(DEFINITIONS, meals, records, { bundledDefinitions: true });
+    expect(fallback.incomplete).toEqual(['definitions are the bundled fallback']);
+    expect(recordsToRemove(fallback, true).map(r => r.id)).toEqual(['r2']);
+  });
+
+  it('leaves retired stamps and legacy records alone', () => {
+    const retired = { ...DEFINITIONS.find(d => d.id === 'taco_tuesday')!, active: false };
+    const definitions = DEFINITIONS.map(d => (d.id === retired.id ? retired : d));
+    const plan = planAchievementBackfill(definitions, meals, [
+      held('r1', 'taco_tuesday', first.id),
+      held('legacy1', 'first_bite', 'unknown', { legacy: true }),
+      held('legacy2', 'urban_explorer', null, { legacy: true }),
+    ]);
+    expect(plan.award.map(a => a.achievementId)).toEqual(['catch_of_the_day', 'dreaming_of_sushi']);
+    expect(plan.reattribute).toEqual([]);
+    expect(plan.awardedInError).toEqual([]);
+  });
+
+  it('prefers the subcollection record over a legacy copy', () => {
+    const plan = planAchievementBackfill(DEFINITIONS, meals, [
+      held('legacy1', 'first_bite', first.id, { legacy: true, earnedAt: new Date(2024, 0, 1) }),
+      held('r1', 'first_bite', 'unknown'),
+    ]);
+    expect(plan.reattribute.map(r => r.record.id)).toEqual(['r1']);
+    expect(plan.awardedInError).toEqual([]);
+  });
+
+  it('finds nothing to do once applied', () => {
+    const plan = planAchievementBackfill(DEFINITIONS, meals, []);
+    const afterwards = plan.award.map((a, i) =>
+      held(`r${i}`, a.achievementId, a.mealId, { earnedAt: a.earnedAt }),
+    );
+    expect(hasBackfillChanges(planAchievementBackfill(DEFINITIONS, meals, afterwards))).toBe(false);
+  });
+});
+
+describe('buildAchievementAudit', () => {
+  it('records what was planned and what was removed', () => {
+    const only = meal(new Date(2025, 2, 1));
+    const plan = planAchievementBackfill(DEFINITIONS, [only], [
+      held('r9', 'first_bite', only.id),
+      held('r8', 'x', null),
+    ]);
+    expect(
+      buildAchievementAudit(plan, {
+        userId: 'u1',
+        source: 'script',
+        applied: true,
+        revoke: true,
+        definitions: DEFINITIONS.length,
+        removed: ['r8'],
+      }),
+    ).toEqual({
+      userId: 'u1',
+      source: 'script',
+      applied: true,
+      revoke: true,
+      definitions: DEFINITIONS.length,
+      mealsReplayed: 1,
+      awarded: [],
+      reattributed: [],
+      awardedInError: [{ recordId: 'r8', achievementId: 'x', mealEntryId: null, reason: 'unknown_achievement' }],
+      incomplete: [],
+      removed: ['r8'],
+      errors: [],
+    });
+  });
+});
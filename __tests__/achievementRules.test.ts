@@ -0,0 +1,251 @@
+/**
+ * @format
+ */
+
+import {
+  AchievementMeal,
+  evaluateAchievements,
+  evaluateCriteria,
+  buildRuleContext,
+  replayAchievements,
+  validateAchievementCriteria,
+  validateAchievementDefinition,
+} from '../utils/achievementRules';
+import type { AchievementCriteria, AchievementDefinition } from '../types/achievements';
+import bundled from '../constants/achievementDefinitions.json';
+
+const DEFINITIONS = bundled as AchievementDefinition[];
+
+let nextId = 0;
+const meal = (overrides: Partial<AchievementMeal> & { date: Date }): AchievementMeal => {
+  const { date, ...rest } = overrides;
+  nextId += 1;
+  return {
+    id: `m${nextId}`,
+    meal: `Dish ${nextId}`,
+    restaurant: `Place ${nextId}`,
+    rating: 4,
+    location: null,
+    photoUrl: null,
+    createdAt: date,
+    ...rest,
+  };
+};
+
+const portland = { latitude: 45.52, longitude: -122.68 };
+const brooklyn = { latitude: 40.68, longitude: -73.94 };
+
+/** achievementId → id of the meal that earned it */
+const replay = (meals: AchievementMeal[], definitions = DEFINITIONS) =>
+  Object.fromEntries(replayAchievements(definitions, meals).map(a => [a.achievementId, a.mealId]));
+
+const rule = (id: string, criteria: AchievementCriteria, extra: Partial<AchievementDefinition> = {}) =>
+  ({ id, name: id, description: '', image: '', criteria, ...extra }) as AchievementDefinition;
+
+describe('replayAchievements with the bundled stamps', () => {
+  // Mon 6 Jan 2025 onwards
+  const veganPortland = meal({
+    date: new Date(2025, 0, 6, 12),
+    meal: 'Jackfruit bowl',
+    location: portland,
+    metadata_enriched: { dietary_info: ['vegan'], cuisine_type: 'Thai' },
+  });
+  const tacosInNyc = meal({
+    date: new Date(2025, 0, 7, 19),
+    meal: 'Fish tacos',
+    location: brooklyn,
+    aiMetadata: { foodType: ['Tacos'], cuisineType: 'Mexican' },
+  });
+  const beer = meal({
+    date: new Date(2025, 0, 8, 18),
+    meal: 'Burger and IPA',
+    location: portland,
+    aiMetadata: { beverageType: 'Beer', cuisineType: 'American' },
+  });
+  const sushi = [9, 10, 11, 12, 13].map(day =>
+    meal({ date: new Date(2025, 0, day, 20), meal: 'Salmon nigiri', aiMetadata: { cuisineType: 'Japanese' } }),
+  );
+  const takeout = [14, 15, 16, 17, 18].map(day =>
+    meal({ date: new Date(2025, 0, day, 21), meal: 'Pad see ew', aiMetadata: { setting: 'Takeout' } }),
+  );
+  const history = [veganPortland, tacosInNyc, beer, ...sushi, ...takeout];
+
+  it('reports each stamp against the meal that earned it', () => {
+    expect(replay(history)).toEqual({
+      first_bite: veganPortland.id,
+      stumptown_starter: veganPortland.id,
+      plant_curious: veganPortland.id,
+      plantlandia: veganPortland.id,
+      big_apple_bite: tacosInNyc.id,
+      catch_of_the_day: tacosInNyc.id,
+      taco_tuesday: tacosInNyc.id,
+      brew_and_chew: beer.id,
+      dreaming_of_sushi: sushi[4].id,
+      takeout_tour: takeout[4].id,
+      // Jan 6–10: five days in a row
+      on_a_roll: sushi[1].id,
+    });
+  });
+
+  it('replays in date order regardless of input order', () => {
+    expect(replay([...history].reverse())).toEqual(replay(history));
+  });
+
+  it('dates meals by when the photo was taken', () => {
+    const late = meal({ date: new Date(2025, 1, 1), photoTakenAt: new Date(2025, 0, 1), location: portland });
+    expect(replay([...history, late]).first_bite).toBe(late.id);
+  });
+
+  it('counts distinct cities and cuisines across the history', () => {
+    const cities = Array.from({ length: 10 }, (_, i) =>
+      meal({ date: new Date(2025, 2, i + 1), city: `City ${i % 9}`, aiMetadata: { cuisineType: `Cuisine ${i}` } }),
+    );
+    const earned = replay(cities);
+    expect(earned.flavor_nomad).toBe(cities[4].id);
+    expect(earned.world_on_a_plate).toBe(cities[9].id);
+    // Only nine different cities so far
+    expect(earned.urban_explorer).toBeUndefined();
+
+    const tenth = meal({ date: new Date(2025, 2, 20), cities: ['Lisbon', 'City 0'] });
+    expect(replay([...cities, tenth]).urban_explorer).toBe(tenth.id);
+  });
+
+  it('does not award Taco Tuesday on other days', () => {
+    const wednesday = meal({ date: new Date(2025, 0, 8), meal: 'Tacos al pastor' });
+    expect(replay([wednesday]).taco_tuesday).toBeUndefined();
+  });
+});
+
+describe('evaluateCriteria', () => {
+  const at = (date: Date, overrides: Partial<AchievementMeal> = {}) => meal({ date, ...overrides });
+  const evaluate = (criteria: AchievementCriteria, target: AchievementMeal, history: AchievementMeal[] = []) =>
+    evaluateCriteria(criteria, buildRuleContext(target, [...history, target])!);
+
+  it('matches tags exactly or by substring, on metadata_enriched or a meal path', () => {
+    const ramen = at(new Date(2025, 0, 1), {
+      meal: 'Tonkotsu Ramen',
+      metadata_enriched: { key_ingredients: ['Pork belly', 'Egg'] },
+    });
+    expect(evaluate({ type: 'tag_match', tags: [{ field: 'key_ingredients', values: ['egg'] }] }, ramen)).toBe(true);
+    expect(evaluate({ type: 'tag_match', tags: [{ field: 'key_ingredients', values: ['pork'] }] }, ramen)).toBe(false);
+    expect(
+      evaluate({ type: 'tag_match', tags: [{ field: 'key_ingredients', values: ['pork'], match: 'contains' }] }, ramen),
+    ).toBe(true);
+    const inName: AchievementCriteria = {
+      type: 'tag_match',
+      tags: [{ field: 'meal', values: ['ramen'], match: 'contains' }],
+    };
+    expect(evaluate(inName, ramen)).toBe(true);
+  });
+
+  it('combines criteria with all, any and not', () => {
+    const brunch = at(new Date(2025, 5, 1, 10), { meal: 'Waffles' });
+    const morning: AchievementCriteria = { type: 'time_window', window: { hours: [6, 11] } };
+    const sunday: AchievementCriteria = { type: 'day_of_week', daysOfWeek: [0] };
+    const waffles: AchievementCriteria = { type: 'food_type', foodType: { type: 'waffle' } };
+    expect(evaluate({ type: 'all', criteria: [morning, sunday, waffles] }, brunch)).toBe(true);
+    expect(evaluate({ type: 'all', criteria: [morning, { type: 'not', criteria: [sunday] }] }, brunch)).toBe(false);
+    expect(evaluate({ type: 'any', criteria: [{ type: 'not', criteria: [morning] }, waffles] }, brunch)).toBe(true);
+  });
+
+  it('handles time windows across midnight, by month and by date range', () => {
+    const lateNight = at(new Date(2025, 11, 31, 1, 30));
+    expect(evaluate({ type: 'time_window', window: { hours: [22, 4] } }, lateNight)).toBe(true);
+    expect(evaluate({ type: 'time_window', window: { hours: [4, 22] } }, lateNight)).toBe(false);
+    expect(evaluate({ type: 'time_window', window: { months: [12] } }, lateNight)).toBe(true);
+    expect(evaluate({ type: 'time_window', window: { from: '2025-12-24', to: '2025-12-31' } }, lateNight)).toBe(true);
+    expect(evaluate({ type: 'time_window', window: { to: '2025-12-30' } }, lateNight)).toBe(false);
+  });
+
+  it('counts day and week streaks ending on the meal', () => {
+    const days = [1, 2, 3, 5, 6].map(d => at(new Date(2025, 0, d, 12)));
+    const threeDays: AchievementCriteria = { type: 'streak', streak: { unit: 'day', length: 3 } };
+    expect(evaluate(threeDays, days[2], days.slice(0, 2))).toBe(true);
+    // The 4th was skipped, so the run ending on the 6th is two days long
+    expect(evaluate(threeDays, days[4], days.slice(0, 4))).toBe(false);
+
+    // Three consecutive ISO weeks: Sun 12th belongs to the week of Mon 6th
+    const weeks = [new Date(2025, 0, 1), new Date(2025, 0, 12), new Date(2025, 0, 13)].map(d => at(d));
+    const threeWeeks: AchievementCriteria = { type: 'streak', streak: { unit: 'week', length: 3 } };
+    expect(evaluate(threeWeeks, weeks[2], weeks.slice(0, 2))).toBe(true);
+    expect(evaluate(threeWeeks, weeks[1], weeks.slice(0, 1))).toBe(false);
+  });
+
+  it('filters counting types with where', () => {
+    const pizza = (day: number) => at(new Date(2025, 0, day), { meal: 'Pizza', restaurant: `Pizzeria ${day}` });
+    const history = [pizza(1), at(new Date(2025, 0, 2), { meal: 'Salad', restaurant: 'Greens' }), pizza(3)];
+    const target = pizza(4);
+    const pizzerias = (count: number): AchievementCriteria => ({
+      type: 'distinct_count',
+      distinct: { of: 'restaurant', count },
+      where: { type: 'tag_match', tags: [{ field: 'meal', values: ['pizza'] }] },
+    });
+    expect(evaluate(pizzerias(3), target, history)).toBe(true);
+    expect(evaluate(pizzerias(4), target, history)).toBe(false);
+    expect(evaluate({ type: 'meal_count', mealCount: { count: 2, timeFrame: 'day' } }, target, history)).toBe(false);
+    expect(evaluate({ type: 'meal_count', mealCount: { count: 4, timeFrame: 'month' } }, target, history)).toBe(true);
+  });
+
+  it('compares ratings on the meal or across the history', () => {
+    const history = [5, 5, 3].map((rating, i) => at(new Date(2025, 0, i + 1), { rating }));
+    const target = at(new Date(2025, 0, 9), { rating: 5 });
+    expect(evaluate({ type: 'rating_based', rating: { value: 4, comparison: 'greater_than' } }, target)).toBe(true);
+    const threeFives: AchievementCriteria = {
+      type: 'rating_based',
+      rating: { value: 5, comparison: 'equal', count: 3 },
+    };
+    expect(evaluate(threeFives, target, history)).toBe(true);
+    expect(evaluate(threeFives, target, history.slice(1))).toBe(false);
+  });
+
+  it('falls back to the city name when the meal has no coordinates', () => {
+    const nyc: AchievementCriteria = {
+      type: 'location_based',
+      location: { city: 'New York', coordinates: { latitude: 40.7128, longitude: -74.006, radius: 30 } },
+    };
+    expect(evaluate(nyc, at(new Date(2025, 0, 1), { city: 'new york' }))).toBe(true);
+    expect(evaluate(nyc, at(new Date(2025, 0, 1), { city: 'New York', location: portland }))).toBe(false);
+  });
+});
+
+describe('evaluateAchievements', () => {
+  it('skips stamps already earned and inactive definitions', () => {
+    const first = meal({ date: new Date(2025, 0, 1), location: portland });
+    const definitions = [...DEFINITIONS, rule('retired', { type: 'first_post' }, { active: false })];
+    const ids = (earned: AchievementDefinition[]) => earned.map(def => def.id);
+    expect(ids(evaluateAchievements(definitions, first, [first]))).toEqual(['first_bite', 'stumptown_starter']);
+    expect(ids(evaluateAchievements(definitions, first, [first], ['first_bite']))).toEqual(['stumptown_starter']);
+  });
+
+  it('ignores meals dated after the one being judged', () => {
+    const target = meal({ date: new Date(2025, 0, 5) });
+    const later = meal({ date: new Date(2025, 0, 9) });
+    expect(evaluateAchievements(DEFINITIONS, target, [later, target]).map(def => def.id)).toEqual(['first_bite']);
+  });
+});
+
+describe('validation', () => {
+  it('accepts every bundled definition', () => {
+    DEFINITIONS.forEach(def => expect(validateAchievementDefinition(def)).toEqual([]));
+  });
+
+  it('reports problems with their path', () => {
+    expect(validateAchievementDefinition({ id: 'x', criteria: { type: 'meal_count' } })).toEqual([
+      'name is required',
+      'criteria: mealCount.count must be positive',
+    ]);
+    expect(
+      validateAchievementCriteria({
+        type: 'all',
+        criteria: [{ type: 'streak', streak: { unit: 'month', length: 2 } }, { type: 'first_post', where: {} }],
+      }),
+    ).toEqual([
+      'criteria.criteria[0]: streak.unit must be day or week',
+      'criteria.criteria[1]: where only applies to counting types',
+    ]);
+    expect(validateAchievementCriteria({ type: 'time_window', window: { from: '1 Jan' } })).toEqual([
+      'criteria: window.from/to must be YYYY-MM-DD',
+    ]);
+    expect(validateAchievementCriteria({ type: 'mystery' })).toEqual(['criteria: unknown type "mystery"']);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * @format
+ * @jest-environment node
+ */
+
+import { commentCounterDelta, countReactions } from '../functions/comments';
+
+describe('countReactions (functions)', () => {
+  it('counts each reactor once per known reaction', () => {
+    expect(
+      countReactions({
+        alex: ['heart', 'fire'],
+        bea: ['heart', 'heart', 'sparkle'],
+        cy: [],
+        dee: 'heart',
+      })
+    ).toEqual({ heart: 2, fire: 1 });
+    expect(countReactions(undefined)).toEqual({});
+  });
+});
+
+describe('commentCounterDelta', () => {
+  it('counts a new comment and the reactions it arrives with', () => {
+    expect(commentCounterDelta(undefined, { reactions: {} })).toEqual({ commentCount: 1, commentReactionCount: 0 });
+  });
+
+  it('takes a deleted comment and all of its reactions off the meal', () => {
+    const before = { reactions: { alex: ['heart'], bea: ['heart', 'yum'] } };
+    expect(commentCounterDelta(before, undefined)).toEqual({ commentCount: -1, commentReactionCount: -3 });
+  });
+
+  it('moves by one when a reactor toggles under their own key', () => {
+    const before = { reactions: { alex: ['heart'] } };
+    const added = { reactions: { alex: ['heart'], bea: ['fire'] } };
+    expect(commentCounterDelta(before, added)).toEqual({ commentCount: 0, commentReactionCount: 1 });
+    expect(commentCounterDelta(added, before)).toEqual({ commentCount: 0, commentReactionCount: -1 });
+  });
+
+  it('drops every reaction of a reactor whose key is removed', () => {
+    const before = { reactions: { alex: ['heart', 'clap'], bea: ['heart'] } };
+    const after = { reactions: { bea: ['heart'] } };
+    expect(commentCounterDelta(before, after).commentReactionCount).toBe(-2);
+  });
+
+  it('ignores client-written reactionCounts', () => {
+    const before = { reactions: { alex: ['heart'] }, reactionCounts: { heart: 1 } };
+    const tampered = { reactions: { alex: ['heart'] }, reactionCounts: { heart: 50 } };
+    expect(commentCounterDelta(before, tampered)).toEqual({ commentCount: 0, commentReactionCount: 0 });
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * @format
+ */
+
+import { countReactions, hasReacted, totalReactions } from '../utils/commentReactions';
+
+describe('countReactions', () => {
+  it('counts each reactor once per reaction', () => {
+    expect(
+      countReactions({
+        alex: ['heart', 'fire'],
+        bea: ['heart', 'heart'],
+        cy: [],
+      })
+    ).toEqual({ heart: 2, fire: 1 });
+  });
+
+  it('ignores reaction keys the app no longer offers', () => {
+    expect(countReactions({ alex: ['heart', 'sparkle' as any] })).toEqual({ heart: 1 });
+    expect(totalReactions(undefined)).toBe(0);
+  });
+
+  it('only looks at the given reactor for hasReacted', () => {
+    const reactions = { alex: ['heart' as const] };
+    expect(hasReacted(reactions, 'alex', 'heart')).toBe(true);
+    expect(hasReacted(reactions, 'bea', 'heart')).toBe(false);
+    expect(hasReacted(reactions, 'alex', 'yum')).toBe(false);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * @format
+ */
+
+import {
+  archiveDoc,
+  archiveFileUrls,
+  DataArchive,
+  DATA_ARCHIVE_FORMAT,
+  DATA_ARCHIVE_VERSION,
+  fromArchiveValue,
+  mealsToCsv,
+  parseDataArchive,
+  remapArchive,
+  restoredFilePath,
+  restoredMealId,
+  toArchiveValue,
+} from '../utils/dataArchive';
+
+// Stand-in for a Firestore Timestamp: anything with toDate()
+const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+
+const archive = (overrides: Partial<DataArchive> = {}): DataArchive => ({
+  format: DATA_ARCHIVE_FORMAT,
+  version: DATA_ARCHIVE_VERSION,
+  exportedAt: '2025-06-01T12:00:00.000Z',
+  account: { userId: 'old-user', displayName: 'Sam', email: null, photoURL: null },
+  meals: [],
+  achievements: [],
+  challenges: [],
+  following: [],
+  followers: [],
+  savedMeals: [],
+  iconicClaims: [],
+  restaurantSections: { sections: [], unsectionedOrder: [] },
+  pixelArtLayout: null,
+  calendarNotes: {},
+  tasteProfile: null,
+  files: {},
+  ...overrides,
+});
+
+describe('archive values', () => {
+  it('round-trips Timestamps and Dates through JSON', () => {
+    const stored = {
+      createdAt: timestamp('2025-01-02T03:04:05.000Z'),
+      photos: [{ url: 'a.jpg', uploadedAt: new Date('2025-01-03T00:00:00.000Z') }],
+      skipped: undefined,
+      rating: 5,
+    };
+    const json = JSON.parse(JSON.stringify(toArchiveValue(stored)));
+    expect(json).toEqual({
+      createdAt: { __timestamp: '2025-01-02T03:04:05.000Z' },
+      photos: [{ url: 'a.jpg', uploadedAt: { __timestamp: '2025-01-03T00:00:00.000Z' } }],
+      rating: 5,
+    });
+    expect(fromArchiveValue(json)).toEqual({
+      createdAt: new Date('2025-01-02T03:04:05.000Z'),
+      photos: [{ url: 'a.jpg', uploadedAt: new Date('2025-01-03T00:00:00.000Z') }],
+      rating: 5,
+    });
+  });
+
+  it('collects each photo and pixel-art URL once', () => {
+    const urls = archiveFileUrls(
+      archive({
+        meals: [
+          archiveDoc('m1', {
+            photoUrl: 'https://x/p1.jpg',
+            photos: [{ url: 'https://x/p1.jpg' }, { url: 'https://x/p2.jpg' }],
+            pixel_art_url: 'https://x/e1.png',
+          }),
+          archiveDoc('m2', { photoUrl: 'file:///local.jpg', pixel_art_url: null }),
+        ],
+      }),
+    );
+    expect(urls).toEqual(['https://x/p1.jpg', 'https://x/p2.jpg', 'https://x/e1.png']);
+  });
+});
+
+describe('parseDataArchive', () => {
+  it('accepts a valid archive and fills missing sections', () => {
+    const partial: Partial<DataArchive> = archive({ meals: [archiveDoc('m1', { meal: 'Ramen' })] });
+    delete partial.calendarNotes;
+    delete partial.savedMeals;
+    delete partial.iconicClaims;
+    const parsed = parseDataArchive(JSON.stringify(partial));
+    expect(parsed.meals).toEqual([{ id: 'm1', data: { meal: 'Ramen' } }]);
+    expect(parsed.calendarNotes).toEqual({});
+    expect(parsed.savedMeals).toEqual([]);
+    expect(parsed.iconicClaims).toEqual([]);
+  });
+
+  it('rejects other JSON, newer versions and broken files', () => {
+    expect(() => parseDataArchive('{"hello":1}')).toThrow('Not a Forkful data archive');
+    expect(() => parseDataArchive(JSON.stringify(archive({ version: DATA_ARCHIVE_VERSION + 1 })))).toThrow(
+      'newer than this app supports',
+    );
+    expect(() => parseDataArchive('{oops')).toThrow('not valid JSON');
+  });
+});
+
+describe('mealsToCsv', () => {
+  it('flattens meals with escaping, cities and local photo files', () => {
+    const csv = mealsToCsv(
+      [
+        archiveDoc('m1', {
+          meal: 'Khao soi, extra "crispy"',
+          restaurant: 'Pok Pok, 3226 SE Division St',
+          rating: 6,
+          cities: ['Portland', 'Chiang Mai'],
+          location: { latitude: 45.5, longitude: -122.6 },
+          createdAt: timestamp('2025-01-05T00:00:00.000Z'),
+          photoTakenAt: timestamp('2025-01-04T00:00:00.000Z'),
+          metadata_enriched: { cuisine_type: 'thai', dish_specific: 'khao soi' },
+          comments: { thoughts: 'Line 1\nLine 2' },
+          photos: [
+            { url: 'https://x/a.jpg', isFlagship: false },
+            { url: 'https://x/b.jpg', isFlagship: true },
+          ],
+        }),
+        archiveDoc('m2', { meal: 'Toast', restaurant: 'Home', rating: 0, city: 'Tokyo' }),
+      ],
+      { 'https://x/b.jpg': 'media/0002.jpg' },
+    );
+    const lines = csv.split('\r\n');
+    expect(lines[0]).toBe(
+      'id,date,meal,restaurant,rating,meal_type,cities,latitude,longitude,cuisine,dish,thoughts,' +
+        'photo_url,photo_count,pixel_art_url,photo_file',
+    );
+    expect(lines[1]).toBe(
+      'm1,2025-01-04T00:00:00.000Z,"Khao soi, extra ""crispy""","Pok Pok, 3226 SE Division St",6,,' +
+        'Portland; Chiang Mai,45.5,-122.6,thai,khao soi,"Line 1\nLine 2",https://x/b.jpg,2,,media/0002.jpg',
+    );
+    expect(lines[2]).toBe('m2,,Toast,Home,0,,Tokyo,,,,,,,0,,');
+    expect(lines[3]).toBe('');
+  });
+});
+
+describe('remapArchive', () => {
+  const source = archive({
+    meals: [
+      archiveDoc('meal-a', {
+        userId: 'old-user',
+        userName: 'Old Name',
+        meal: 'Ramen',
+        photoUrl: 'https://old/a.jpg',
+        photos: [{ url: 'https://old/a.jpg', isFlagship: true }],
+        pixel_art_url: 'https://old/a.png',
+        createdAt: timestamp('2025-02-01T00:00:00.000Z'),
+        cheersCount: 4,
+        commentCount: 2,
+        commentReactionCount: 3,
+        lastCommentAt: timestamp('2025-02-03T00:00:00.000Z'),
+      }),
+    ],
+    achievements: [archiveDoc('ach-1', { userId: 'old-user', achievementId: 'first_bite', mealEntryId: 'meal-a' })],
+    challenges: [archiveDoc('ch-1', { status: 'completed', completedWithMealId: 'meal-a' })],
+    following: [
+      archiveDoc('friend', { followerId: 'old-user', followingId: 'friend', followingName: 'Pat' }),
+      archiveDoc('new-user', { followerId: 'old-user', followingId: 'new-user' }),
+    ],
+    savedMeals: [
+      archiveDoc('meal-a', { mealId: 'meal-a', userId: 'old-user' }),
+      archiveDoc('their-meal', { mealId: 'their-meal', userId: 'friend' }),
+    ],
+    restaurantSections: { sections: [{ id: 's1', name: 'Ramen', restaurants: ['Afuri'] }], unsectionedOrder: [] },
+    pixelArtLayout: { order: ['https://old/a.png'], tableSizes: [1], tableConfigs: null },
+    calendarNotes: { '2025-02-01': 'Birthday' },
+    tasteProfile: {
+      meal_count: 1,
+      updated_at: { __timestamp: '2025-02-02T00:00:00.000Z' },
+      userId: 'old-user',
+      top_meal_ids: ['meal-a', 'their-meal'],
+    },
+  });
+  const target = { userId: 'new-user', userName: 'New Name', userPhoto: null };
+  const plan = remapArchive(source, target, {
+    meals: { 'meal-a': 'meal-z' },
+    urls: { 'https://old/a.jpg': 'https://new/a.jpg' },
+  });
+
+  it('gives meals new ids, the new owner and re-uploaded photos, without stale counters', () => {
+    expect(plan.meals).toEqual([
+      {
+        id: 'meal-z',
+        data: {
+          userId: 'new-user',
+          userName: 'New Name',
+          userPhoto: null,
+          meal: 'Ramen',
+          photoUrl: 'https://new/a.jpg',
+          photos: [{ url: 'https://new/a.jpg', isFlagship: true }],
+          pixel_art_url: 'https://old/a.png',
+          createdAt: new Date('2025-02-01T00:00:00.000Z'),
+        },
+      },
+    ]);
+  });
+
+  it('points stamps, challenges and own saved meals at the new meal ids', () => {
+    expect(plan.achievements[0].data).toEqual({ userId: 'new-user', achievementId: 'first_bite', mealEntryId: 'meal-z' });
+    expect(plan.challenges[0].data.completedWithMealId).toBe('meal-z');
+    expect(plan.savedMeals.map(doc => [doc.id, doc.data.mealId, doc.data.userId])).toEqual([
+      ['meal-z', 'meal-z', 'new-user'],
+      ['their-meal', 'their-meal', 'friend'],
+    ]);
+  });
+
+  it('drops a follow of the new account itself and keeps profile fields', () => {
+    expect(plan.following.map(doc => doc.id)).toEqual(['friend']);
+    expect(plan.userFields).toEqual({
+      restaurant_sections: [{ id: 's1', name: 'Ramen', restaurants: ['Afuri'] }],
+      restaurant_unsectioned_order: [],
+      calendar_notes: { '2025-02-01': 'Birthday' },
+      pixel_art_emoji_order: ['https://old/a.png'],
+      pixel_art_table_sizes: [1],
+    });
+  });
+
+  it('remaps the user and meal ids inside the taste profile', () => {
+    expect(plan.tasteProfile).toEqual({
+      meal_count: 1,
+      updated_at: new Date('2025-02-02T00:00:00.000Z'),
+      userId: 'new-user',
+      top_meal_ids: ['meal-z', 'their-meal'],
+    });
+  });
+});
+
+describe('restore ids', () => {
+  const source = archive({
+    meals: [archiveDoc('meal-a', { userId: 'old-user' }), archiveDoc('meal-b', { userId: 'old-user' })],
+    achievements: [archiveDoc('ach-1', { mealEntryId: 'meal-b' })],
+  });
+  const target = { userId: 'new-user', userName: 'New Name', userPhoto: null };
+  const idsFor = (userId: string) => ({
+    meals: Object.fromEntries(source.meals.map(meal => [meal.id, restoredMealId(meal.id, userId)])),
+    urls: {},
+  });
+
+  it('plans the same writes when a restore is run again', () => {
+    const first = remapArchive(source, target, idsFor('new-user'));
+    const retry = remapArchive(source, target, idsFor('new-user'));
+    expect(retry).toEqual(first);
+    expect(first.meals.map(doc => doc.id)).toEqual(['restored_new-user_meal-a', 'restored_new-user_meal-b']);
+    expect(first.achievements[0].data.mealEntryId).toBe('restored_new-user_meal-b');
+  });
+
+  it('keeps restores into different accounts apart', () => {
+    expect(restoredMealId('meal-a', 'new-user')).not.toBe(restoredMealId('meal-a', 'other-user'));
+    expect(restoredFilePath('media/0001.jpg', 'new-user')).toBe('meal_photos/new-user/restored_0001.jpg');
+    expect(restoredFilePath('media/0001.jpg', 'new-user')).toBe(restoredFilePath('media/0001.jpg', 'new-user'));
+  });
+});
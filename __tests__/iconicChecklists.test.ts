@@ -0,0 +1,119 @@
+/**
+ * @format
+ * @jest-environment node
+ */
+
+import {
+  buildIconicChecklists,
+  checklistAchievementDefinition,
+  checklistAchievementId,
+  checklistProgress,
+  checklistsForEat,
+  remainingChecklistItems,
+} from '../utils/iconicChecklists';
+import { evaluateAchievements, validateAchievementDefinition } from '../utils/achievementRules';
+import * as server from '../functions/iconicChecklists';
+
+const eat = (id: string, city: string | null, category: string | null, latitude = 45.5, longitude = -122.6) => ({
+  id,
+  dish_name: `Dish ${id}`,
+  restaurant_name: `Place ${id}`,
+  category,
+  city,
+  active: true,
+  latitude,
+  longitude,
+  emoji_url: `https://example.com/${id}.png`,
+});
+
+const EATS = [
+  eat('p1', 'portland', 'Classic', 45.52, -122.68),
+  eat('p2', 'Portland', 'Classic', 45.6, -122.6),
+  eat('p3', 'portland ', 'Classic', 45.51, -122.67),
+  eat('p4', 'portland', 'Hidden Gem'),
+  eat('s1', 'seattle', 'Classic'),
+  eat('x1', null, 'Classic'),
+  { ...eat('p5', 'portland', null), active: false },
+];
+
+describe('buildIconicChecklists', () => {
+  const checklists = buildIconicChecklists(EATS);
+
+  it('groups active eats by city, case-insensitively', () => {
+    expect(checklists.map(c => [c.id, c.items.map(i => i.id)])).toEqual([
+      ['portland', ['p1', 'p2', 'p3', 'p4']],
+      ['portland--classic', ['p1', 'p2', 'p3']],
+      ['seattle', ['s1']],
+    ]);
+  });
+
+  it('titles checklists by city and category', () => {
+    expect(checklists.map(c => c.title)).toEqual([
+      "Portland's iconic eats",
+      'Portland · Classic',
+      "Seattle's iconic eats",
+    ]);
+  });
+
+  it('lists the checklists an eat is on, whole city first', () => {
+    expect(checklistsForEat(checklists, 'p2').map(c => c.id)).toEqual(['portland', 'portland--classic']);
+    expect(checklistsForEat(checklists, 'p4').map(c => c.id)).toEqual(['portland']);
+  });
+});
+
+describe('checklist progress', () => {
+  const [portland] = buildIconicChecklists(EATS);
+
+  it('counts only unlocks on the checklist', () => {
+    expect(checklistProgress(portland, ['p2', 's1', 'p4'])).toEqual({
+      checklistId: 'portland',
+      total: 4,
+      unlocked: 2,
+      unlockedEatIds: ['p2', 'p4'],
+      complete: false,
+    });
+    expect(checklistProgress(portland, ['p1', 'p2', 'p3', 'p4']).complete).toBe(true);
+  });
+
+  it('is counted the same by the unlock trigger', () => {
+    // The trigger reads the synced doc, which stores item ids as eatIds
+    const synced = { id: portland.id, eatIds: portland.items.map(i => i.id) };
+    [[], ['p2', 's1', 'p4'], ['p1', 'p2', 'p3', 'p4']].forEach(unlocked => {
+      expect(server.checklistProgress(synced, unlocked)).toEqual(checklistProgress(portland, unlocked));
+    });
+    expect(server.checklistAchievementId(portland.id)).toBe(checklistAchievementId(portland.id));
+  });
+
+  it('sorts what is left nearest first', () => {
+    const remaining = remainingChecklistItems(portland, ['p4'], { latitude: 45.505, longitude: -122.665 });
+    expect(remaining.map(i => i.id)).toEqual(['p3', 'p1', 'p2']);
+    expect(remaining[0].distance).toBeLessThan(1);
+    expect(remainingChecklistItems(portland, ['p4'], null).map(i => i.id)).toEqual(['p1', 'p2', 'p3']);
+  });
+});
+
+describe('checklist completion stamp', () => {
+  const [, classics] = buildIconicChecklists(EATS);
+  const definition = checklistAchievementDefinition(classics, 1001);
+  const meal = (id: string, day: number, iconicEatId: string | null) => ({
+    id,
+    meal: 'Dish',
+    restaurant: 'Place',
+    rating: 4,
+    location: null,
+    photoUrl: null,
+    createdAt: new Date(2025, 0, day),
+    iconic_eat_id: iconicEatId,
+  });
+
+  it('is a valid definition', () => {
+    expect(definition.id).toBe('iconic_portland--classic');
+    expect(validateAchievementDefinition(definition)).toEqual([]);
+  });
+
+  it('lands on the meal that finishes the checklist', () => {
+    const meals = [meal('m1', 1, 'p1'), meal('m2', 3, 'p2'), meal('m3', 5, null), meal('m4', 8, 'p3')];
+    expect(evaluateAchievements([definition], meals[2], meals)).toEqual([]);
+    expect(evaluateAchievements([definition], meals[3], meals).map(d => d.id)).toEqual([definition.id]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @format
+ * @jest-environment node
+ */
+
+import {
+  CLAIM_CANDIDATE_MIN_SCORE,
+  CLAIM_PHOTO_MAX_AGE_HOURS,
+  claimIneligibility,
+  rankClaimCandidates,
+  scoreIconicClaim,
+} from '../utils/iconicClaims';
+import * as server from '../functions/iconicClaims';
+
+const EAT = {
+  id: 'pok-pok-wings',
+  dish_name: "Ike's Vietnamese Fish Sauce Wings",
+  restaurant_name: 'Pok Pok',
+  place_id: 'place-pokpok',
+  city: 'Portland',
+  latitude: 45.5046,
+  longitude: -122.6318,
+};
+
+// ~0.5 km from the eat
+const NEARBY = { latitude: 45.5091, longitude: -122.6318, city: 'portland' };
+
+const SAME_PLACE_MEAL = { meal: 'Fish sauce wings', restaurant: 'Pok Pok', place_id: 'place-pokpok', location: NEARBY };
+
+// What the server reads itself: EXIF GPS at the eat, photo taken an hour
+// before the meal was logged
+const EVIDENCE = {
+  photoLocation: { latitude: 45.5047, longitude: -122.6319 },
+  photoTakenAt: new Date('2026-05-01T19:00:00Z'),
+  mealCreatedAt: new Date('2026-05-01T20:00:00Z'),
+};
+
+describe('scoreIconicClaim', () => {
+  it('auto-approves a meal at the same place with the same dish when the photo backs it up', () => {
+    const result = scoreIconicClaim(SAME_PLACE_MEAL, EAT, EVIDENCE);
+    expect(result.signals.placeIdMatch).toBe(true);
+    expect(result.signals.placeScore).toBe(1);
+    expect(result.signals.verified).toBe(true);
+    expect(result.signals.photoAgeHours).toBe(1);
+    expect(result.autoApprove).toBe(true);
+  });
+
+  it(`never auto-approves on the meal's own fields alone`, () => {
+    const result = scoreIconicClaim(SAME_PLACE_MEAL, EAT);
+    expect(result.score).toBeGreaterThanOrEqual(0.8);
+    expect(result.signals).toMatchObject({ photoDistanceKm: null, photoAgeHours: null, verified: false });
+    expect(result.autoApprove).toBe(false);
+  });
+
+  it('sends a claim to review when the photo was taken elsewhere or long before logging', () => {
+    const elsewhere = { ...EVIDENCE, photoLocation: { latitude: 40.7, longitude: -74 } };
+    expect(scoreIconicClaim(SAME_PLACE_MEAL, EAT, elsewhere).autoApprove).toBe(false);
+
+    const hours = CLAIM_PHOTO_MAX_AGE_HOURS + 1;
+    const old = { ...EVIDENCE, photoTakenAt: new Date(EVIDENCE.mealCreatedAt.getTime() - hours * 3600000) };
+    expect(scoreIconicClaim(SAME_PLACE_MEAL, EAT, old).signals.photoAgeHours).toBe(hours);
+    expect(scoreIconicClaim(SAME_PLACE_MEAL, EAT, old).autoApprove).toBe(false);
+
+    expect(scoreIconicClaim(SAME_PLACE_MEAL, EAT, { ...EVIDENCE, photoTakenAt: null }).autoApprove).toBe(false);
+  });
+
+  it('sends a renamed dish with drifted GPS to review instead of approving it', () => {
+    const result = scoreIconicClaim({ meal: 'Chicken wings', restaurant: 'Pok Pok Division', location: NEARBY }, EAT);
+    expect(result.signals.placeIdMatch).toBe(false);
+    expect(result.signals.distanceKm).toBeGreaterThan(0.25);
+    expect(result.score).toBeGreaterThanOrEqual(CLAIM_CANDIDATE_MIN_SCORE);
+    expect(result.autoApprove).toBe(false);
+  });
+
+  it('scores an unrelated meal elsewhere below the candidate floor', () => {
+    const result = scoreIconicClaim(
+      { meal: 'Margherita pizza', restaurant: 'Tony’s', location: { latitude: 40.7, longitude: -74 } },
+      EAT,
+    );
+    expect(result.score).toBeLessThan(CLAIM_CANDIDATE_MIN_SCORE);
+  });
+
+  it('falls back to the same-city floor when the meal has no coordinates', () => {
+    const result = scoreIconicClaim({ meal: 'Wings', restaurant: 'Somewhere', city: 'PORTLAND' }, EAT);
+    expect(result.signals.distanceKm).toBeNull();
+    expect(result.signals.sameCity).toBe(true);
+    expect(result.signals.placeScore).toBe(0.2);
+  });
+});
+
+describe('server scoring', () => {
+  const claims = {
+    'a same-place meal with evidence': [SAME_PLACE_MEAL, EVIDENCE],
+    'a same-place meal without evidence': [SAME_PLACE_MEAL, undefined],
+    'a photo taken elsewhere': [SAME_PLACE_MEAL, { ...EVIDENCE, photoLocation: { latitude: 40.7, longitude: -74 } }],
+    'a photo taken long before logging': [SAME_PLACE_MEAL, { ...EVIDENCE, photoTakenAt: new Date('2026-04-20T19:00:00Z') }],
+    'a photo without a capture time': [SAME_PLACE_MEAL, { ...EVIDENCE, photoTakenAt: null }],
+    'a renamed dish': [{ meal: 'Chicken wings', restaurant: 'Pok Pok Division', location: NEARBY }, EVIDENCE],
+    'a meal with only a city': [{ meal: 'Wings', restaurant: 'Somewhere', city: 'PORTLAND' }, undefined],
+  } as const;
+
+  it.each(Object.entries(claims))('scores %s like the app', (_, [meal, evidence]) => {
+    expect(server.scoreIconicClaim(meal, EAT, evidence)).toEqual(scoreIconicClaim(meal, EAT, evidence));
+  });
+
+  it('verifies evidence like the app', () => {
+    Object.values(claims).forEach(([meal, evidence]) => {
+      const { photoDistanceKm, photoAgeHours, verified } = scoreIconicClaim(meal, EAT, evidence).signals;
+      expect(server.verifyEvidence(evidence, EAT)).toEqual({ photoDistanceKm, photoAgeHours, verified });
+    });
+    expect(server.verifyEvidence(EVIDENCE, EAT).verified).toBe(true);
+  });
+
+  it('only reads photos from the claimant\'s own meal_photos folder', () => {
+    const url = (path: string) =>
+      `https://firebasestorage.googleapis.com/v0/b/app.appspot.com/o/${encodeURIComponent(path)}?alt=media`;
+    expect(server.mealPhotoPath(url('meal_photos/u1/a.jpg'), 'u1')).toBe('meal_photos/u1/a.jpg');
+    expect(server.mealPhotoPath(url('meal_photos/u2/a.jpg'), 'u1')).toBeNull();
+    expect(server.mealPhotoPath('file:///tmp/a.jpg', 'u1')).toBeNull();
+    expect(server.mealPhotoPath(null, 'u1')).toBeNull();
+  });
+});
+
+describe('claimIneligibility', () => {
+  it('rejects meals already linked to a different iconic eat', () => {
+    expect(claimIneligibility({ iconic_eat_id: 'other-eat' }, EAT.id)).toBe('linked_elsewhere');
+    expect(claimIneligibility({ iconic_eat_id: EAT.id }, EAT.id)).toBeNull();
+    expect(claimIneligibility({}, EAT.id)).toBeNull();
+  });
+});
+
+describe('rankClaimCandidates', () => {
+  const meals = [
+    { id: 'pizza', meal: 'Margherita pizza', restaurant: 'Tony’s', location: { latitude: 40.7, longitude: -74 } },
+    { id: 'renamed', meal: 'Chicken wings', restaurant: 'Pok Pok Division', location: NEARBY },
+    { id: 'exact', meal: 'Fish sauce wings', restaurant: 'Pok Pok', place_id: 'place-pokpok', location: NEARBY },
+    { id: 'linked', meal: 'Fish sauce wings', restaurant: 'Pok Pok', place_id: 'place-pokpok', iconic_eat_id: 'x' },
+  ];
+
+  it('orders by score, drops ineligible and unlikely meals and respects the limit', () => {
+    expect(rankClaimCandidates(meals, EAT, 10).map(c => c.meal.id)).toEqual(['exact', 'renamed']);
+    expect(rankClaimCandidates(meals, EAT, 1).map(c => c.meal.id)).toEqual(['exact']);
+  });
+});
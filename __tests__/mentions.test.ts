@@ -0,0 +1,66 @@
+/**
+ * @format
+ */
+
+import { findMentionQuery, insertMention, resolveMentions, splitMentions } from '../utils/mentions';
+
+const ana = { userId: 'u-ana', name: 'Ana' };
+const anaMaria = { userId: 'u-anamaria', name: 'Ana Maria' };
+const manu = { userId: 'u-manu', name: 'Manu Lakkur' };
+
+describe('findMentionQuery', () => {
+  it('returns the query typed after an @ at a word boundary', () => {
+    expect(findMentionQuery('so good @Manu La')).toEqual({ query: 'Manu La', start: 8 });
+    expect(findMentionQuery('(@an')).toEqual({ query: 'an', start: 1 });
+  });
+
+  it('reads up to the cursor, not the end of the text', () => {
+    expect(findMentionQuery('hey @Ana and more', 8)).toEqual({ query: 'Ana', start: 4 });
+  });
+
+  it('ignores emails, newlines and queries that ran too long', () => {
+    expect(findMentionQuery('mail me at ana@example')).toBeNull();
+    expect(findMentionQuery('@Ana\nthanks')).toBeNull();
+    expect(findMentionQuery(`@${'a'.repeat(31)}`)).toBeNull();
+  });
+
+  it('is what insertMention replaces', () => {
+    const text = 'thanks @Ma';
+    const query = findMentionQuery(text)!;
+    expect(insertMention(text, query, text.length, manu)).toEqual({ text: 'thanks @Manu Lakkur ', cursor: 20 });
+  });
+});
+
+describe('resolveMentions', () => {
+  it('matches the longest name first so a shorter one is not read inside it', () => {
+    expect(resolveMentions('thanks @Ana Maria!', [], [ana, anaMaria])).toEqual([anaMaria]);
+    expect(resolveMentions('@Ana Maria and @ana', [], [ana, anaMaria])).toEqual([anaMaria, ana]);
+  });
+
+  it('drops picks whose name was edited out of the text', () => {
+    expect(resolveMentions('never mind', [manu])).toEqual([]);
+  });
+
+  it('keeps one mention per user, preferring the pick', () => {
+    const renamed = { userId: 'u-manu', name: 'Manu Lakkur' };
+    const result = resolveMentions('@Manu Lakkur @Manu Lakkur', [manu], [renamed]);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toBe(manu);
+  });
+
+  it('needs a word boundary on both sides', () => {
+    expect(resolveMentions('email@Ana', [], [ana])).toEqual([]);
+    expect(resolveMentions('@Anabel', [], [ana])).toEqual([]);
+    expect(resolveMentions('(@Ana)', [], [ana])).toEqual([ana]);
+  });
+});
+
+describe('splitMentions', () => {
+  it('splits mentions out of the text for highlighting', () => {
+    expect(splitMentions('hi @Ana Maria!', [anaMaria])).toEqual([
+      { text: 'hi ' },
+      { text: '@Ana Maria', mention: anaMaria },
+      { text: '!' },
+    ]);
+  });
+});
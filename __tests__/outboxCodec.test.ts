@@ -0,0 +1,72 @@
+/**
+ * @format
+ */
+
+import { createOutboxCodec } from '../utils/outboxCodec';
+
+// Stand-ins for the @react-native-firebase/firestore classes
+class FakeFieldValue {
+  constructor(private readonly kind: string) {}
+  static serverTimestamp() {
+    return new FakeFieldValue('serverTimestamp');
+  }
+  static delete() {
+    return new FakeFieldValue('delete');
+  }
+  static increment() {
+    return new FakeFieldValue('increment');
+  }
+  isEqual(other: any) {
+    return other instanceof FakeFieldValue && other.kind === this.kind;
+  }
+}
+
+class FakeTimestamp {
+  constructor(readonly seconds: number, readonly nanoseconds: number) {}
+}
+
+class FakeGeoPoint {
+  constructor(readonly latitude: number, readonly longitude: number) {}
+}
+
+const { encodeData, decodeValue } = createOutboxCodec({
+  FieldValue: FakeFieldValue,
+  Timestamp: FakeTimestamp,
+  GeoPoint: FakeGeoPoint,
+});
+
+// What AsyncStorage does to a queued entry
+const roundTrip = (data: Record<string, unknown>) => decodeValue(JSON.parse(JSON.stringify(encodeData(data))));
+
+describe('outbox codec', () => {
+  it('round-trips a Timestamp inside an array', () => {
+    const uploadedAt = new FakeTimestamp(1714590000, 123000000);
+    const decoded = roundTrip({ photos: [{ url: 'https://x/1.jpg', uploadedAt }] }) as any;
+    expect(decoded.photos[0].uploadedAt).toBeInstanceOf(FakeTimestamp);
+    expect(decoded.photos[0].uploadedAt).toEqual(uploadedAt);
+  });
+
+  it('round-trips GeoPoints, Dates and nested maps', () => {
+    const decoded = roundTrip({
+      geo: new FakeGeoPoint(45.5, -122.6),
+      updatedAt: new Date('2026-05-01T20:00:00.000Z'),
+      location: { latitude: 45.5, longitude: -122.6, source: 'exif' },
+    }) as any;
+    expect(decoded.geo).toBeInstanceOf(FakeGeoPoint);
+    expect(decoded.geo).toEqual(new FakeGeoPoint(45.5, -122.6));
+    expect(decoded.updatedAt).toEqual(new Date('2026-05-01T20:00:00.000Z'));
+    expect(decoded.location).toEqual({ latitude: 45.5, longitude: -122.6, source: 'exif' });
+  });
+
+  it('keeps idempotent FieldValues, drops undefined and refuses increments', () => {
+    const decoded = roundTrip({
+      createdAt: FakeFieldValue.serverTimestamp(),
+      note: FakeFieldValue.delete(),
+      x: undefined,
+    }) as any;
+    expect(decoded.createdAt.isEqual(FakeFieldValue.serverTimestamp())).toBe(true);
+    expect(decoded.note.isEqual(FakeFieldValue.delete())).toBe(true);
+    expect('x' in decoded).toBe(false);
+    expect(() => encodeData({ count: FakeFieldValue.increment() })).toThrow('non-idempotent');
+  });
+});
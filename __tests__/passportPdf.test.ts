@@ -0,0 +1,225 @@
+/**
+ * @format
+ */
+
+import {
+  buildPassportPdfLayout,
+  PassportPdfInput,
+  PassportPdfMeal,
+  PassportPdfPage,
+  PDF_CONTENT_HEIGHT,
+  PDF_CONTENT_TOP,
+} from '../utils/passportPdfLayout';
+import { base64ToBinary, binaryToBase64, buildImagePdf } from '../utils/pdfWriter';
+
+const large = { columns: 6, maxRows: 3, furniture: 'wooden_table' as const };
+const small = { columns: 3, maxRows: 3, furniture: 'wooden_table' as const };
+
+let nextId = 0;
+const meal = (overrides: Partial<PassportPdfMeal> = {}): PassportPdfMeal => {
+  nextId += 1;
+  return {
+    id: `m${nextId}`,
+    meal: `Dish ${nextId}`,
+    restaurant: 'Pok Pok, 3226 SE Division St',
+    rating: 5,
+    location: null,
+    createdAt: new Date(2025, 0, nextId),
+    ...overrides,
+  };
+};
+
+const input = (overrides: Partial<PassportPdfInput> = {}): PassportPdfInput => ({
+  userName: 'Sam',
+  userPhoto: null,
+  meals: [],
+  tables: [],
+  sections: [],
+  unsectionedOrder: [],
+  monuments: {},
+  generatedAt: new Date(2025, 5, 1),
+  ...overrides,
+});
+
+const pagesOf = <K extends PassportPdfPage['kind']>(pages: PassportPdfPage[], kind: K) =>
+  pages.filter((p): p is Extract<PassportPdfPage, { kind: K }> => p.kind === kind);
+
+describe('buildPassportPdfLayout', () => {
+  it('orders pages cover, collection, cities, restaurants, stats and numbers them', () => {
+    const pages = buildPassportPdfLayout(
+      input({
+        meals: [meal({ city: 'Portland' })],
+        tables: [{ urls: ['a.png'], config: large }],
+      }),
+    );
+    expect(pages.map(p => p.kind)).toEqual(['cover', 'collection', 'city', 'restaurants', 'stats']);
+    expect(pages.map(p => p.number)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('keeps the saved pixel-art order and table shapes', () => {
+    const urls = Array.from({ length: 8 }, (_, i) => `e${i}.png`);
+    const pages = buildPassportPdfLayout(
+      input({
+        tables: [
+          { urls: urls.slice(0, 5), config: small },
+          { urls: urls.slice(5), config: large },
+        ],
+      }),
+    );
+    const [collection] = pagesOf(pages, 'collection');
+    expect(collection.shelves.map(s => s.rows)).toEqual([
+      [['e0.png', 'e1.png', 'e2.png'], ['e3.png', 'e4.png']],
+      [['e5.png', 'e6.png', 'e7.png']],
+    ]);
+    expect(collection.shelves[0].top).toBe(PDF_CONTENT_TOP);
+    expect(collection.shelves[1].top).toBeGreaterThan(collection.shelves[0].top + collection.shelves[0].height);
+  });
+
+  it('moves shelves that do not fit onto the next page', () => {
+    const full = { urls: Array.from({ length: 18 }, (_, i) => `e${i}.png`), config: large };
+    const pages = buildPassportPdfLayout(input({ tables: Array.from({ length: 6 }, () => full) }));
+    const collection = pagesOf(pages, 'collection');
+    expect(collection.length).toBeGreaterThan(1);
+    collection.forEach(page => {
+      const last = page.shelves[page.shelves.length - 1];
+      expect(last.top + last.height).toBeLessThanOrEqual(PDF_CONTENT_TOP + PDF_CONTENT_HEIGHT);
+    });
+    expect(collection.flatMap(p => p.shelves.map(s => s.table))).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('builds a page per city with its monument, busiest first', () => {
+    const pages = buildPassportPdfLayout(
+      input({
+        meals: [
+          meal({ city: 'portland', pixel_art_url: 'p1.png' }),
+          meal({ cities: ['Tokyo', 'Portland'], restaurant: 'Afuri' }),
+          meal({ location: { latitude: 0, longitude: 0, city: 'Tokyo' }, restaurant: 'Afuri' }),
+          meal({ cities: ['tokyo'], restaurant: 'Fuunji' }),
+        ],
+        monuments: { tokyo: 'tokyo-tower.png' },
+      }),
+    );
+    const cities = pagesOf(pages, 'city');
+    expect(cities.map(c => [c.city, c.mealCount, c.monumentUrl])).toEqual([
+      ['Tokyo', 3, 'tokyo-tower.png'],
+      ['Portland', 2, null],
+    ]);
+    expect(cities[0].restaurants).toEqual([
+      { name: 'Afuri', count: 2 },
+      { name: 'Fuunji', count: 1 },
+    ]);
+    expect(cities[1].emojiUrls).toEqual(['p1.png']);
+  });
+
+  it('lists restaurants unsectioned first, then by section, appending unknown ones', () => {
+    const pages = buildPassportPdfLayout(
+      input({
+        meals: [
+          meal({ restaurant: 'Afuri' }),
+          meal({ restaurant: 'Pok Pok' }),
+          meal({ restaurant: 'Fuunji' }),
+          meal({ restaurant: 'Fuunji' }),
+          meal({ restaurant: 'unknown' }),
+        ],
+        sections: [
+          { id: 's1', name: 'Ramen', restaurants: ['Afuri', 'Closed Place'] },
+          { id: 's2', name: 'Empty', restaurants: [] },
+        ],
+        unsectionedOrder: ['Pok Pok'],
+      }),
+    );
+    const [index] = pagesOf(pages, 'restaurants');
+    expect(index.entries.map(e => [e.type, e.name])).toEqual([
+      ['restaurant', 'Pok Pok'],
+      ['restaurant', 'Fuunji'],
+      ['section', 'Ramen'],
+      ['restaurant', 'Afuri'],
+    ]);
+    expect(index.entries[1].mealCount).toBe(2);
+  });
+
+  it('paginates a long restaurant index without orphaning section headings', () => {
+    // 29 rows leave no room for a heading plus a row; the section starts page 2
+    const names = Array.from({ length: 58 }, (_, i) => `Spot ${i}`);
+    const pages = buildPassportPdfLayout(
+      input({
+        meals: names.map(name => meal({ restaurant: name })),
+        unsectionedOrder: names.slice(0, 29),
+        sections: [{ id: 's', name: 'Later', restaurants: names.slice(29) }],
+      }),
+    );
+    const index = pagesOf(pages, 'restaurants');
+    expect(index.length).toBe(2);
+    expect(index[1].title).toBe('Restaurant Index (cont.)');
+    expect(index[1].entries[0]).toMatchObject({ type: 'section', name: 'Later', top: PDF_CONTENT_TOP });
+    index.forEach(page => {
+      expect(page.entries[page.entries.length - 1].type).toBe('restaurant');
+      page.entries.forEach(e => expect(e.top).toBeLessThan(PDF_CONTENT_TOP + PDF_CONTENT_HEIGHT));
+    });
+    expect(index.flatMap(p => p.entries).filter(e => e.type === 'restaurant')).toHaveLength(58);
+  });
+
+  it('summarises ratings, cuisines and dates on the stats page', () => {
+    const pages = buildPassportPdfLayout(
+      input({
+        meals: [
+          meal({ rating: 6, metadata_enriched: { cuisine_type: 'thai' }, createdAt: new Date(2024, 2, 1) }),
+          meal({ rating: 6, quick_criteria_result: { cuisine_type: 'Thai' } }),
+          meal({ rating: 2, aiMetadata: { cuisineType: 'Japanese' }, photoTakenAt: new Date(2025, 8, 9) }),
+          meal({ rating: 0 }),
+        ],
+      }),
+    );
+    const [stats] = pagesOf(pages, 'stats');
+    expect(stats.ratings).toEqual([0, 1, 0, 0, 0, 2]);
+    expect(stats.topCuisines).toEqual([
+      { name: 'Thai', count: 2 },
+      { name: 'Japanese', count: 1 },
+    ]);
+    expect(stats.totals.find(t => t.label === 'meals rated')?.value).toBe(3);
+    expect(stats.firstMeal).toEqual(new Date(2024, 2, 1));
+    expect(stats.latestMeal).toEqual(new Date(2025, 8, 9));
+  });
+
+  it('still produces a cover and stats page for an empty passport', () => {
+    const pages = buildPassportPdfLayout(input());
+    expect(pages.map(p => p.kind)).toEqual(['cover', 'stats']);
+  });
+});
+
+describe('buildImagePdf', () => {
+  const jpeg = binaryToBase64('\xff\xd8\xff\xe0fakejpeg\xff\xd9');
+
+  it('round-trips base64', () => {
+    const binary = 'any\x00bytes\xff\x80';
+    expect(base64ToBinary(binaryToBase64(binary))).toBe(binary);
+    expect(binaryToBase64('ab')).toBe('YWI=');
+    expect(base64ToBinary('data:image/jpeg;base64,YWI=')).toBe('ab');
+  });
+
+  it('writes one page per image with a valid cross-reference table', () => {
+    const pdf = base64ToBinary(
+      buildImagePdf(
+        [
+          { jpegBase64: jpeg, pixelWidth: 1224, pixelHeight: 1584 },
+          { jpegBase64: jpeg, pixelWidth: 1224, pixelHeight: 1584 },
+        ],
+        { width: 612, height: 792 },
+        'Sam (passport)',
+      ),
+    );
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('/Title (Sam \\(passport\\))');
+    expect(pdf).toContain('/Width 1224 /Height 1584');
+    expect(pdf).toContain('\xff\xd8\xff\xe0fakejpeg\xff\xd9');
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+    expect(offsets).toHaveLength(9); // catalog, pages, info + 3 per page
+    offsets.forEach((offset, i) => {
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @format
+ */
+
+import {
+  advanceStreakState,
+  computeStreaks,
+  dailyStreakAt,
+  endOfWeek,
+  MAX_FREEZES,
+  streakStateFromDates,
+  summarizeStreakState,
+  weeklyStreakAt,
+} from '../utils/streaks';
+
+// January 2025: the 6th, 13th, 20th and 27th are Mondays
+const jan = (day: number, hour = 12) => new Date(2025, 0, day, hour);
+const days = (...list: number[]) => list.map(day => jan(day));
+
+describe('dailyStreakAt', () => {
+  it("doesn't break the streak before today is over", () => {
+    const streak = dailyStreakAt(days(1, 2, 3), jan(4, 9));
+    expect(streak.current).toBe(3);
+    expect(streak.longest).toBe(3);
+  });
+
+  it('resets after a missed day with no freezes', () => {
+    const streak = dailyStreakAt(days(1, 2, 3, 5, 6), jan(6));
+    expect(streak.current).toBe(2);
+    expect(streak.longest).toBe(3);
+    expect(streak.frozenDays).toEqual([]);
+  });
+
+  it('spends an earned freeze on a missed day', () => {
+    const streak = dailyStreakAt(days(1, 2, 3, 4, 5, 6, 7, 9), jan(9));
+    expect(streak.current).toBe(8);
+    expect(streak.freezesAvailable).toBe(0);
+    expect(streak.frozenDays).toEqual([new Date(2025, 0, 8)]);
+  });
+
+  it('breaks when the misses outrun the freezes', () => {
+    const streak = dailyStreakAt(days(1, 2, 3, 4, 5, 6, 7, 10), jan(10));
+    expect(streak.current).toBe(1);
+    expect(streak.longest).toBe(7);
+    // The one freeze went on the 8th; banked freezes aren't refunded
+    expect(streak.freezesAvailable).toBe(0);
+  });
+
+  it(`banks at most ${MAX_FREEZES} freezes`, () => {
+    const threeWeeks = Array.from({ length: 21 }, (_, i) => jan(i + 1));
+    expect(dailyStreakAt(threeWeeks, jan(21)).freezesAvailable).toBe(MAX_FREEZES);
+  });
+
+  it('ignores freezes when asked to', () => {
+    expect(dailyStreakAt(days(1, 2, 3, 4, 5, 6, 7, 9), jan(9), false).current).toBe(1);
+  });
+});
+
+describe('weeklyStreakAt', () => {
+  it('keeps last week’s run alive during the current week', () => {
+    expect(weeklyStreakAt(days(6, 14, 20), jan(28))).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('drops to zero after a week with no meals', () => {
+    expect(weeklyStreakAt(days(6, 14, 20), jan(29 + 6)).current).toBe(0);
+    expect(weeklyStreakAt(days(6, 20, 27), jan(28))).toEqual({ current: 2, longest: 2 });
+  });
+});
+
+describe('computeStreaks', () => {
+  it('flags a weekly streak at risk until something is logged this week', () => {
+    const meals = days(6, 14, 20).map(createdAt => ({ createdAt }));
+    const atRisk = computeStreaks(meals, jan(31, 9));
+    expect(atRisk.weekly).toEqual({
+      current: 3,
+      longest: 3,
+      loggedThisWeek: false,
+      atRisk: true,
+      weekEndsAt: new Date(2025, 1, 2, 23, 59, 59, 999),
+    });
+
+    const safe = computeStreaks([...meals, { createdAt: jan(29) }], jan(31, 9));
+    expect(safe.weekly.current).toBe(4);
+    expect(safe.weekly.atRisk).toBe(false);
+  });
+
+  it('dates meals by photo and ignores ones dated in the future', () => {
+    const streaks = computeStreaks(
+      [
+        { createdAt: jan(3), photoTakenAt: jan(1) },
+        { createdAt: jan(2) },
+        { createdAt: jan(3) },
+        { createdAt: jan(9) },
+      ],
+      jan(3, 20),
+    );
+    expect(streaks.daily.current).toBe(3);
+    expect(streaks.daily.loggedToday).toBe(true);
+  });
+
+  it('is empty with no meals', () => {
+    const streaks = computeStreaks([], jan(3));
+    expect(streaks.daily).toEqual({ current: 0, longest: 0, freezesAvailable: 0, frozenDays: [], loggedToday: false });
+    expect(streaks.weekly.current).toBe(0);
+    expect(streaks.weekly.atRisk).toBe(false);
+  });
+});
+
+describe('streak state', () => {
+  const history = days(1, 2, 3, 4, 5, 6, 7, 9, 10, 14, 20, 27);
+
+  it('advanced one meal at a time matches a rebuild from every meal', () => {
+    let state = null;
+    for (const date of history) {
+      state = advanceStreakState(state, date);
+      expect(state).toEqual(streakStateFromDates(history.filter(d => d <= date)));
+    }
+    // and survives being stored as JSON
+    const stored = JSON.parse(JSON.stringify(state));
+    expect(summarizeStreakState(stored, jan(28, 9))).toEqual(
+      computeStreaks(history.map(createdAt => ({ createdAt })), jan(28, 9)),
+    );
+  });
+
+  it('counts a second meal on the same day once', () => {
+    const state = streakStateFromDates(days(1, 2));
+    expect(advanceStreakState(state, jan(2, 20))).toBe(state);
+  });
+
+  it('asks for a rebuild when a meal is back-dated', () => {
+    expect(advanceStreakState(streakStateFromDates(days(1, 5)), jan(3))).toBeNull();
+  });
+});
+
+describe('endOfWeek', () => {
+  it('steps across a DST change by the calendar', () => {
+    // Clocks change on 9 March (US) and 30 March (EU) 2025
+    const march = (day: number) => new Date(2025, 2, day, 12);
+    expect(endOfWeek(march(5))).toEqual(new Date(2025, 2, 9, 23, 59, 59, 999));
+    expect(endOfWeek(new Date(endOfWeek(march(5)).getTime() + 1))).toEqual(new Date(2025, 2, 16, 23, 59, 59, 999));
+    expect(endOfWeek(march(27))).toEqual(new Date(2025, 2, 30, 23, 59, 59, 999));
+    expect(endOfWeek(new Date(endOfWeek(march(27)).getTime() + 1))).toEqual(new Date(2025, 3, 6, 23, 59, 59, 999));
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @format
+ */
+
+import {
+  deliveredOutOfAppIds,
+  groupNotifications,
+  nextDeliveryTime,
+  pushData,
+} from '../utils/notificationGrouping';
+
+const recapNotification = (weekKey: string, createdAt: Date, extra: object = {}) => ({
+  id: `weekly_recap_u1_${weekKey}`,
+  userId: 'u1',
+  type: 'weekly_recap' as const,
+  fromUser: { id: 'dishitout', name: 'Dish It Out', photo: null },
+  message: 'Your week in food is ready: 4 meals, 2 new restaurants',
+  weekKey,
+  read: false,
+  createdAt,
+  ...extra,
+});
+
+const quietHours = { enabled: true, start: 22 * 60, end: 8 * 60 };
+
+describe('weekly recap notification', () => {
+  it('opens the recap of the week it was written for', () => {
+    const [group] = groupNotifications([recapNotification('2026-W42', new Date(2026, 9, 19, 1))]);
+    expect(pushData(group)).toEqual({ type: 'weekly-recap', weekKey: '2026-W42' });
+    expect(group.message).toBe('Your week in food is ready: 4 meals, 2 new restaurants');
+  });
+
+  it('never merges two weeks into one row', () => {
+    const groups = groupNotifications([
+      recapNotification('2026-W42', new Date(2026, 9, 19, 1)),
+      recapNotification('2026-W41', new Date(2026, 9, 18, 23)),
+    ]);
+    expect(groups.map(g => pushData(g).weekKey)).toEqual(['2026-W42', '2026-W41']);
+  });
+
+  it('waits out quiet hours when the recap lands overnight', () => {
+    // The job runs at 00:30 UTC on Monday, which is the middle of the night
+    // in much of the world
+    const landed = new Date(2026, 9, 19, 1, 30);
+    expect(nextDeliveryTime(landed, quietHours)).toEqual(new Date(2026, 9, 19, 8, 0));
+    expect(nextDeliveryTime(new Date(2026, 9, 19, 9, 0), quietHours)).toEqual(new Date(2026, 9, 19, 9, 0));
+  });
+
+  it('is marked read once pushed when the user keeps it out of the list', () => {
+    const prefs = {
+      channels: { weekly_recap: { inApp: false, push: true, digest: false } },
+      quietHours,
+      digestTime: 19 * 60,
+    } as any;
+    const item = recapNotification('2026-W42', new Date(2026, 9, 19, 1), { inApp: false });
+    expect(deliveredOutOfAppIds([item], prefs, new Date(2026, 9, 19, 12))).toEqual([]);
+    expect(deliveredOutOfAppIds([item], prefs, new Date(2026, 9, 20, 2))).toEqual([item.id]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @format
+ */
+
+import { computeWrappedStats, mealCalendarDate, WrappedMeal } from '../utils/wrappedStats';
+import type { TasteProfile } from '../utils/tasteMatch';
+
+let nextId = 0;
+const meal = (overrides: Partial<WrappedMeal> & { date: Date }): WrappedMeal => {
+  const { date, ...rest } = overrides;
+  nextId += 1;
+  return {
+    id: `m${nextId}`,
+    meal: `Dish ${nextId}`,
+    restaurant: 'Pok Pok, Portland OR',
+    rating: 5,
+    location: null,
+    photoUrl: null,
+    createdAt: date,
+    ...rest,
+  };
+};
+
+const thai = { cuisine_type: 'Thai' };
+const japanese = { cuisine_type: 'japanese' };
+
+describe('computeWrappedStats', () => {
+  const meals: WrappedMeal[] = [
+    meal({ date: new Date(2025, 0, 3), metadata_enriched: thai, city: 'Portland' }),
+    meal({ date: new Date(2025, 0, 3), restaurant: 'Afuri', metadata_enriched: japanese, city: 'Portland' }),
+    meal({ date: new Date(2025, 2, 14), restaurant: 'pok pok', metadata_enriched: thai, cities: ['Seattle', 'Portland'] }),
+    meal({ date: new Date(2025, 6, 1), restaurant: 'Home', mealType: 'Homemade', rating: 3 }),
+    // Unrated capture and last year's meal are ignored
+    meal({ date: new Date(2025, 6, 2), restaurant: 'Afuri', rating: 0 }),
+    meal({ date: new Date(2024, 11, 31), restaurant: 'Afuri', metadata_enriched: japanese }),
+  ];
+
+  it('counts only rated meals from the requested year', () => {
+    const stats = computeWrappedStats(meals, 2025);
+    expect(stats.totalMeals).toBe(4);
+    expect(stats.restaurantCount).toBe(2);
+    expect(stats.cuisineCount).toBe(2);
+    expect(stats.cityCount).toBe(2);
+  });
+
+  it('ranks restaurants and cuisines case-insensitively', () => {
+    const stats = computeWrappedStats(meals, 2025);
+    expect(stats.topRestaurant).toEqual({ name: 'Pok Pok', count: 2 });
+    expect(stats.topCuisines).toEqual([
+      { name: 'Thai', count: 2 },
+      { name: 'japanese', count: 1 },
+    ]);
+  });
+
+  it('builds a per-day heatmap for every month', () => {
+    const stats = computeWrappedStats(meals, 2025);
+    expect(stats.months).toHaveLength(12);
+    expect(stats.months[1].days).toHaveLength(28);
+    expect(stats.months[0].days[2]).toBe(2);
+    expect(stats.months[0].activeDays).toBe(1);
+    expect(stats.busiestMonth).toBe(0);
+    expect(stats.busiestDay).toEqual({ date: new Date(2025, 0, 3), meals: 2 });
+  });
+
+  it('dates meals by photoTakenAt before createdAt', () => {
+    const taken = new Date(2025, 4, 20);
+    expect(mealCalendarDate({ photoTakenAt: taken, createdAt: new Date(2025, 5, 1) })).toBe(taken);
+    expect(mealCalendarDate({ createdAt: { seconds: 0 } })).toEqual(new Date(0));
+    expect(mealCalendarDate({})).toBeNull();
+  });
+
+  it('reuses the taste profile signature dish and archetype history', () => {
+    const profile: TasteProfile = {
+      signature_dish: { mealId: 'm1', mealName: 'Khao soi', photoUrl: '', rating: 6, repeat_count: 3 },
+      taste_story_archetype: 'Spice Seeker',
+      taste_story_archetype_history: [
+        { archetype: 'Comfort Classicist', at: new Date(2024, 5, 1) },
+        { archetype: 'Spice Seeker', at: { toDate: () => new Date(2025, 8, 1) } },
+        { archetype: 'Umami Hunter', at: new Date(2025, 2, 1) },
+      ],
+    };
+    const stats = computeWrappedStats(meals, 2025, profile);
+    expect(stats.signatureDish?.mealName).toBe('Khao soi');
+    expect(stats.archetypes.map(a => a.archetype)).toEqual(['Umami Hunter', 'Spice Seeker']);
+  });
+
+  it('falls back to the current archetype without history', () => {
+    const stats = computeWrappedStats(meals, 2025, { taste_story_archetype: 'Noodle Nomad' });
+    expect(stats.archetypes).toEqual([{ archetype: 'Noodle Nomad', at: null }]);
+  });
+
+  it('keeps the best-rated meal per iconic eat', () => {
+    const iconic = [
+      meal({ date: new Date(2025, 3, 1), iconic_eat_id: 'eat-a', rating: 4 }),
+      meal({ date: new Date(2025, 3, 9), iconic_eat_id: 'eat-a', rating: 6 }),
+      meal({ date: new Date(2025, 4, 1), iconic_eat_id: 'eat-b', rating: 6 }),
+      meal({ date: new Date(2025, 5, 1), iconic_eat_id: 'eat-c', rating: 5 }),
+    ];
+    const stats = computeWrappedStats(iconic, 2025);
+    expect(stats.topIconicEats.map(e => [e.eatId, e.rating])).toEqual([
+      ['eat-a', 6],
+      ['eat-b', 6],
+      ['eat-c', 5],
+    ]);
+  });
+
+  it('handles a year with no meals', () => {
+    const stats = computeWrappedStats([], 2025);
+    expect(stats.totalMeals).toBe(0);
+    expect(stats.topRestaurant).toBeNull();
+    expect(stats.busiestMonth).toBeNull();
+    expect(stats.busiestDay).toBeNull();
+  });
+});
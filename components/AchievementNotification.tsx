@@ -104,6 +104,11 @@ const AchievementNotification: React.FC<AchievementNotificationProps> = ({
         console.log("Found matching stamp image for:", achievement.id);
         return images[achievement.id];
       }
+
+      // Stamps added after this build ship their artwork by URL
+      if (achievement.imageUrl) {
+        return { uri: achievement.imageUrl };
+      }
       
       // Otherwise fall back to a default image
       console.log("No matching stamp image found, using default");
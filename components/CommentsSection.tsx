@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -16,9 +16,20 @@ import auth from '@react-native-firebase/auth';
 import {
   addComment,
   deleteComment,
+  editComment,
+  getCommentEditHistory,
+  searchMentionableUsers,
   subscribeToComments,
+  toggleCommentReaction,
+  buildCommentThreads,
   Comment,
+  CommentMention,
+  CommentReactionKey,
+  CommentThread,
+  COMMENT_REACTIONS,
 } from '../services/commentService';
+import { findMentionQuery, insertMention, splitMentions } from '../utils/mentions';
+import { countReactions, hasReacted } from '../utils/commentReactions';
 // Import theme
 import { colors, typography, spacing, shadows } from '../themes';
 
@@ -28,6 +39,10 @@ interface CommentsSectionProps {
   scrollViewRef?: React.RefObject<ScrollView>;
 }
 
+// Replies shown under a comment before "View N more replies".
+const COLLAPSED_REPLY_COUNT = 2;
+const MAX_SUGGESTIONS = 5;
+
 const CommentsSection: React.FC<CommentsSectionProps> = ({
   mealId,
   onUserPress,
@@ -38,6 +53,16 @@ const CommentsSection: React.FC<CommentsSectionProps> = ({
   const [loading, setLoading] = useState(true);
   const [posting, setPosting] = useState(false);
   const [currentUser, setCurrentUser] = useState(auth().currentUser);
+  // Composer mode: replying to a comment, or editing one of your own
+  const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [editing, setEditing] = useState<Comment | null>(null);
+  // @mentions picked from the suggestion list, plus the suggestion state
+  const [pickedMentions, setPickedMentions] = useState<CommentMention[]>([]);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [remoteSuggestions, setRemoteSuggestions] = useState<CommentMention[]>([]);
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set());
+  const [reactingTo, setReactingTo] = useState<string | null>(null);
+  const inputRef = useRef<TextInput>(null);
 
   useEffect(() => {
     // Subscribe to comments
@@ -56,6 +81,86 @@ const CommentsSection: React.FC<CommentsSectionProps> = ({
     return () => unsubscribe();
   }, [mealId]);
 
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+
+  // Everyone who has commented here — offered first as mention suggestions
+  // and used to resolve hand-typed @names.
+  const participants = useMemo<CommentMention[]>(() => {
+    const byId = new Map<string, CommentMention>();
+    comments.forEach(c => {
+      if (c.userId !== currentUser?.uid && c.userName) {
+        byId.set(c.userId, { userId: c.userId, name: c.userName });
+      }
+    });
+    return Array.from(byId.values());
+  }, [comments, currentUser]);
+
+  const mentionQuery = findMentionQuery(newComment, selection.start);
+  const mentionText = mentionQuery ? mentionQuery.query : null;
+
+  useEffect(() => {
+    if (!mentionText) {
+      setRemoteSuggestions([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      searchMentionableUsers(mentionText, MAX_SUGGESTIONS).then(setRemoteSuggestions);
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [mentionText]);
+
+  const suggestions = useMemo<CommentMention[]>(() => {
+    if (mentionText === null) return [];
+    const q = mentionText.toLowerCase();
+    const local = participants.filter(p => p.name.toLowerCase().startsWith(q));
+    const seen = new Set(local.map(p => p.userId));
+    const remote = remoteSuggestions.filter(
+      r => !seen.has(r.userId) && r.userId !== currentUser?.uid
+    );
+    return [...local, ...remote].slice(0, MAX_SUGGESTIONS);
+  }, [mentionText, participants, remoteSuggestions, currentUser]);
+
+  const handlePickMention = (user: CommentMention) => {
+    if (!mentionQuery) return;
+    const next = insertMention(newComment, mentionQuery, selection.start, user);
+    setNewComment(next.text);
+    setSelection({ start: next.cursor, end: next.cursor });
+    setPickedMentions(prev => (prev.some(m => m.userId === user.userId) ? prev : [...prev, user]));
+    setRemoteSuggestions([]);
+  };
+
+  const resetComposer = () => {
+    setNewComment('');
+    setReplyingTo(null);
+    setEditing(null);
+    setPickedMentions([]);
+    setRemoteSuggestions([]);
+  };
+
+  const handleReply = (comment: Comment) => {
+    setEditing(null);
+    setReplyingTo(comment);
+    const mention = { userId: comment.userId, name: comment.userName };
+    if (comment.userId !== currentUser?.uid) {
+      const prefix = `@${comment.userName} `;
+      setNewComment(prefix);
+      setSelection({ start: prefix.length, end: prefix.length });
+      setPickedMentions([mention]);
+    } else {
+      setNewComment('');
+      setPickedMentions([]);
+    }
+    inputRef.current?.focus();
+  };
+
+  const handleStartEdit = (comment: Comment) => {
+    setReplyingTo(null);
+    setEditing(comment);
+    setNewComment(comment.text);
+    setPickedMentions(comment.mentions || []);
+    inputRef.current?.focus();
+  };
+
   const handleAddComment = async () => {
     if (!currentUser) {
       Alert.alert('Sign In Required', 'You must be signed in to comment');
@@ -67,10 +172,23 @@ const CommentsSection: React.FC<CommentsSectionProps> = ({
     }
 
     setPosting(true);
-    const result = await addComment(mealId, newComment);
-    
+    const result = editing
+      ? await editComment(mealId, editing.id, newComment, {
+          mentions: pickedMentions,
+          knownUsers: participants,
+        })
+      : await addComment(mealId, newComment, {
+          parentId: replyingTo?.id,
+          mentions: pickedMentions,
+          knownUsers: participants,
+        });
+
     if (result.success) {
-      setNewComment('');
+      if (replyingTo) {
+        const rootId = replyingTo.parentId || replyingTo.id;
+        setExpandedThreads(prev => new Set(prev).add(rootId));
+      }
+      resetComposer();
     } else {
       Alert.alert('Error', result.message);
     }
@@ -78,19 +196,26 @@ const CommentsSection: React.FC<CommentsSectionProps> = ({
     setPosting(false);
   };
 
-  const handleDeleteComment = (commentId: string) => {
+  const handleDeleteComment = (comment: Comment) => {
+    const replyCount = comment.parentId
+      ? 0
+      : comments.filter(c => c.parentId === comment.id).length;
     Alert.alert(
       'Delete Comment',
-      'Are you sure you want to delete this comment?',
+      replyCount > 0
+        ? `This will also delete ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}. Are you sure?`
+        : 'Are you sure you want to delete this comment?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            const result = await deleteComment(mealId, commentId);
+            const result = await deleteComment(mealId, comment.id);
             if (!result.success) {
               Alert.alert('Error', result.message);
+            } else if (editing?.id === comment.id || replyingTo?.id === comment.id) {
+              resetComposer();
             }
           },
         },
@@ -98,6 +223,29 @@ const CommentsSection: React.FC<CommentsSectionProps> = ({
     );
   };
 
+  const handleShowEditHistory = async (comment: Comment) => {
+    const edits = await getCommentEditHistory(mealId, comment.id);
+    if (edits.length === 0) return;
+    Alert.alert(
+      'Edit history',
+      edits
+        .map(edit => `${formatTimeAgo(edit.replacedAt)}: "${edit.text}"`)
+        .join('\n\n')
+    );
+  };
+
+  const handleReaction = async (comment: Comment, reaction: CommentReactionKey) => {
+    if (!currentUser) {
+      Alert.alert('Sign In Required', 'You must be signed in to react');
+      return;
+    }
+    setReactingTo(null);
+    const result = await toggleCommentReaction(mealId, comment.id, reaction);
+    if (!result.success) {
+      Alert.alert('Error', result.message || 'Failed to update reaction');
+    }
+  };
+
   const formatTimeAgo = (timestamp: any): string => {
     if (!timestamp) return 'just now';
     
@@ -115,19 +263,96 @@ const CommentsSection: React.FC<CommentsSectionProps> = ({
     return 'just now';
   };
 
-  const renderComment = ({ item }: { item: Comment }) => {
+  const renderCommentText = (item: Comment) => (
+    <Text style={styles.commentText}>
+      {splitMentions(item.text, item.mentions).map((segment, i) =>
+        segment.mention ? (
+          <Text
+            key={i}
+            style={styles.mentionText}
+            onPress={() => onUserPress?.(segment.mention!.userId, segment.mention!.name, '')}
+          >
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </Text>
+  );
+
+  const renderReactions = (item: Comment) => {
+    // Counted from the reactor lists rather than the server's reactionCounts
+    // so a tap shows up before onCommentWritten catches up
+    const counts = countReactions(item.reactions);
+    const active = (Object.keys(COMMENT_REACTIONS) as CommentReactionKey[]).filter(
+      key => (counts[key] || 0) > 0
+    );
+    return (
+      <>
+        {active.length > 0 && (
+          <View style={styles.reactionRow}>
+            {active.map(key => {
+              const mine = !!currentUser && hasReacted(item.reactions, currentUser.uid, key);
+              return (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.reactionChip, mine && styles.reactionChipMine]}
+                  onPress={() => handleReaction(item, key)}
+                >
+                  <Text style={styles.reactionEmoji}>{COMMENT_REACTIONS[key]}</Text>
+                  <Text style={styles.reactionCount}>{counts[key]}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+        {reactingTo === item.id && (
+          <View style={styles.reactionPicker}>
+            {(Object.keys(COMMENT_REACTIONS) as CommentReactionKey[]).map(key => (
+              <TouchableOpacity key={key} onPress={() => handleReaction(item, key)} style={styles.pickerEmoji}>
+                <Text style={styles.reactionEmojiLarge}>{COMMENT_REACTIONS[key]}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </>
+    );
+  };
+
+  // Anonymized by the account deletion cascade; it only stays so the
+  // replies under it still have a thread
+  const renderDeletedComment = (item: Comment, isReply: boolean) => (
+    <View style={[styles.commentItem, isReply && styles.replyItem]}>
+      <View style={[styles.userAvatar, isReply && styles.replyAvatar, styles.avatarPlaceholder]}>
+        <Icon name="person" size={isReply ? 16 : 20} color="#999" />
+      </View>
+      <View style={styles.commentContent}>
+        <View style={styles.commentHeader}>
+          <Text style={styles.timestamp}>{formatTimeAgo(item.createdAt)}</Text>
+        </View>
+        <Text style={[styles.commentText, styles.deletedText]}>Comment deleted</Text>
+      </View>
+    </View>
+  );
+
+  const renderCommentBody = (item: Comment, isReply: boolean) => {
+    if (item.deleted) return renderDeletedComment(item, isReply);
     const isOwnComment = currentUser?.uid === item.userId;
     
     return (
-      <View style={styles.commentItem}>
+      <View style={[styles.commentItem, isReply && styles.replyItem]}>
         <TouchableOpacity
           onPress={() => onUserPress?.(item.userId, item.userName, item.userPhoto)}
         >
           {item.userPhoto ? (
-            <Image source={{ uri: item.userPhoto }} style={styles.userAvatar} />
+            <Image
+              source={{ uri: item.userPhoto }}
+              style={[styles.userAvatar, isReply && styles.replyAvatar]}
+            />
           ) : (
-            <View style={[styles.userAvatar, styles.avatarPlaceholder]}>
-              <Icon name="person" size={20} color="#999" />
+            <View style={[styles.userAvatar, isReply && styles.replyAvatar, styles.avatarPlaceholder]}>
+              <Icon name="person" size={isReply ? 16 : 20} color="#999" />
             </View>
           )}
         </TouchableOpacity>
@@ -140,23 +365,74 @@ const CommentsSection: React.FC<CommentsSectionProps> = ({
               <Text style={styles.userName}>{item.userName}</Text>
             </TouchableOpacity>
             <Text style={styles.timestamp}>{formatTimeAgo(item.createdAt)}</Text>
+            {!!item.editedAt && (
+              <TouchableOpacity onPress={() => handleShowEditHistory(item)}>
+                <Text style={styles.editedLabel}> · edited</Text>
+              </TouchableOpacity>
+            )}
           </View>
           
-          <Text style={styles.commentText}>{item.text}</Text>
+          {renderCommentText(item)}
+          {renderReactions(item)}
           
-          {isOwnComment && (
-            <TouchableOpacity
-              style={styles.deleteButton}
-              onPress={() => handleDeleteComment(item.id)}
-            >
-              <Text style={styles.deleteButtonText}>Delete</Text>
-            </TouchableOpacity>
-          )}
+          <View style={styles.actionRow}>
+            {currentUser && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => setReactingTo(reactingTo === item.id ? null : item.id)}
+              >
+                <Text style={styles.actionButtonText}>React</Text>
+              </TouchableOpacity>
+            )}
+            {currentUser && (
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleReply(item)}>
+                <Text style={styles.actionButtonText}>Reply</Text>
+              </TouchableOpacity>
+            )}
+            {isOwnComment && (
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleStartEdit(item)}>
+                <Text style={styles.actionButtonText}>Edit</Text>
+              </TouchableOpacity>
+            )}
+            {isOwnComment && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => handleDeleteComment(item)}
+              >
+                <Text style={styles.actionButtonText}>Delete</Text>
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
       </View>
     );
   };
 
+  const renderThread = ({ item }: { item: CommentThread }) => {
+    const expanded = expandedThreads.has(item.comment.id);
+    const visibleReplies = expanded ? item.replies : item.replies.slice(0, COLLAPSED_REPLY_COUNT);
+    const hiddenCount = item.replies.length - visibleReplies.length;
+
+    return (
+      <View>
+        {renderCommentBody(item.comment, false)}
+        {visibleReplies.map(reply => (
+          <React.Fragment key={reply.id}>{renderCommentBody(reply, true)}</React.Fragment>
+        ))}
+        {hiddenCount > 0 && (
+          <TouchableOpacity
+            style={styles.moreReplies}
+            onPress={() => setExpandedThreads(prev => new Set(prev).add(item.comment.id))}
+          >
+            <Text style={styles.moreRepliesText}>
+              View {hiddenCount} more {hiddenCount === 1 ? 'reply' : 'replies'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.container}>
@@ -183,48 +459,76 @@ const CommentsSection: React.FC<CommentsSectionProps> = ({
         </View>
       ) : (
         <FlatList
-          data={comments}
-          keyExtractor={(item) => item.id}
-          renderItem={renderComment}
+          data={threads}
+          keyExtractor={(item) => item.comment.id}
+          renderItem={renderThread}
           style={styles.commentsList}
           scrollEnabled={false}
         />
       )}
 
       {currentUser ? (
-        <View style={styles.inputContainer}>
-          <TextInput
-            style={styles.commentInput}
-            placeholder="Add a comment..."
-            value={newComment}
-            onChangeText={setNewComment}
-            multiline
-            maxLength={500}
-            editable={!posting}
-            onFocus={() => {
-              // Auto-scroll to show the input when focused
-              if (scrollViewRef?.current) {
-                setTimeout(() => {
-                  scrollViewRef.current?.scrollToEnd({ animated: true });
-                }, 300);
-              }
-            }}
-          />
-          <TouchableOpacity
-            style={[
-              styles.postButton,
-              (!newComment.trim() || posting) && styles.postButtonDisabled,
-            ]}
-            onPress={handleAddComment}
-            disabled={!newComment.trim() || posting}
-          >
-            {posting ? (
-              <ActivityIndicator size="small" color="#fff" />
-            ) : (
-              <Text style={styles.arrowText}>↑</Text>
-            )}
-          </TouchableOpacity>
-        </View>
+        <>
+          {(replyingTo || editing) && (
+            <View style={styles.composerBanner}>
+              <Text style={styles.composerBannerText} numberOfLines={1}>
+                {editing ? 'Editing your comment' : `Replying to ${replyingTo!.userName}`}
+              </Text>
+              <TouchableOpacity onPress={resetComposer}>
+                <Icon name="close" size={16} color={colors.textTertiary} />
+              </TouchableOpacity>
+            </View>
+          )}
+          {suggestions.length > 0 && (
+            <View style={styles.suggestions}>
+              {suggestions.map(user => (
+                <TouchableOpacity
+                  key={user.userId}
+                  style={styles.suggestionItem}
+                  onPress={() => handlePickMention(user)}
+                >
+                  <Text style={styles.suggestionText}>@{user.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <View style={styles.inputContainer}>
+            <TextInput
+              ref={inputRef}
+              style={styles.commentInput}
+              placeholder={replyingTo ? 'Write a reply...' : 'Add a comment...'}
+              value={newComment}
+              onChangeText={setNewComment}
+              selection={selection}
+              onSelectionChange={(e) => setSelection(e.nativeEvent.selection)}
+              multiline
+              maxLength={500}
+              editable={!posting}
+              onFocus={() => {
+                // Auto-scroll to show the input when focused
+                if (scrollViewRef?.current) {
+                  setTimeout(() => {
+                    scrollViewRef.current?.scrollToEnd({ animated: true });
+                  }, 300);
+                }
+              }}
+            />
+            <TouchableOpacity
+              style={[
+                styles.postButton,
+                (!newComment.trim() || posting) && styles.postButtonDisabled,
+              ]}
+              onPress={handleAddComment}
+              disabled={!newComment.trim() || posting}
+            >
+              {posting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.arrowText}>{editing ? '✓' : '↑'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </>
       ) : (
         <View style={styles.signInPrompt}>
           <Text style={styles.signInText}>Sign in to comment</Text>
@@ -320,13 +624,116 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     lineHeight: 20,
   },
-  deleteButton: {
+  deletedText: {
+    color: colors.textTertiary,
+    fontStyle: 'italic',
+  },
+  replyItem: {
+    marginLeft: 44,
+    borderBottomWidth: 0,
+    paddingVertical: spacing.xs,
+  },
+  replyAvatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  editedLabel: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+  },
+  mentionText: {
+    color: colors.warmTaupe,
+    fontWeight: '600',
+  },
+  actionRow: {
+    flexDirection: 'row',
     marginTop: spacing.xs,
   },
-  deleteButtonText: {
+  actionButton: {
+    marginRight: spacing.md,
+  },
+  actionButtonText: {
     ...typography.bodySmall,
     color: colors.textTertiary,
   },
+  reactionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: spacing.xs,
+  },
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.mediumGray,
+    borderRadius: 12,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 4,
+    marginBottom: 4,
+  },
+  reactionChipMine: {
+    borderColor: colors.warmTaupe,
+    backgroundColor: colors.lightTan,
+  },
+  reactionEmoji: {
+    fontSize: 12,
+  },
+  reactionEmojiLarge: {
+    fontSize: 20,
+  },
+  reactionCount: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginLeft: 3,
+  },
+  reactionPicker: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+    backgroundColor: colors.white,
+    borderRadius: 20,
+    paddingHorizontal: spacing.xs,
+    marginTop: spacing.xs,
+    ...shadows.light,
+  },
+  pickerEmoji: {
+    padding: 6,
+  },
+  moreReplies: {
+    marginLeft: 44,
+    paddingVertical: spacing.xs,
+  },
+  moreRepliesText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+  composerBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  composerBannerText: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    flex: 1,
+  },
+  suggestions: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.xs,
+  },
+  suggestionItem: {
+    paddingVertical: 6,
+  },
+  suggestionText: {
+    ...typography.bodyMedium,
+    color: colors.warmTaupe,
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
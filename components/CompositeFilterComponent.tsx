@@ -59,6 +59,7 @@ const CompositeFilterComponent: React.FC<CompositeFilterComponentProps> = ({
             onFilterChange={onFilterChange}
             initialFilters={initialFilters}
             onUserSelect={onUserSelect}
+            onRatingFilterChange={onRatingFilterChange}
           />
         </View>
 
@@ -4,20 +4,11 @@ import NearYouCarousel, { NearYouCarouselRef } from './NearYouCarousel';
 import IconicEatsRow, { IconicEatsRowRef } from './IconicEatsRow';
 import { spacing } from '../themes';
 import { IconicEat } from '../services/iconicEatsService';
+import type { IconicChecklist } from '../utils/iconicChecklists';
+import type { MealEntry as StoredMealEntry } from '../types/mealEntry';
 
-interface MealEntry {
-  id: string;
-  photoUrl: string;
-  photos?: { url: string; isFlagship: boolean; order: number }[];
-  meal: string;
-  restaurant: string;
+interface MealEntry extends StoredMealEntry {
   distance?: number;
-  location: {
-    latitude: number;
-    longitude: number;
-    [key: string]: any;
-  } | null;
-  [key: string]: any;
 }
 
 interface DiscoverHeaderProps {
@@ -29,6 +20,9 @@ interface DiscoverHeaderProps {
   onIconicEatFocusChange?: (eatId: string | null) => void;
   carouselRef: React.RefObject<NearYouCarouselRef>;
   iconicRowRef?: React.RefObject<IconicEatsRowRef>;
+  iconicChecklists?: IconicChecklist[];
+  unlockedIconicEats?: Set<string>;
+  onChecklistPress?: (checklist: IconicChecklist) => void;
 }
 
 const DiscoverHeader: React.FC<DiscoverHeaderProps> = ({
@@ -40,6 +34,9 @@ const DiscoverHeader: React.FC<DiscoverHeaderProps> = ({
   onIconicEatFocusChange,
   carouselRef,
   iconicRowRef,
+  iconicChecklists,
+  unlockedIconicEats,
+  onChecklistPress,
 }) => {
   return (
     <View style={styles.container}>
@@ -54,6 +51,9 @@ const DiscoverHeader: React.FC<DiscoverHeaderProps> = ({
         iconicEats={iconicEats}
         onPress={onIconicEatPress}
         onFocusChange={onIconicEatFocusChange}
+        checklists={iconicChecklists}
+        unlocked={unlockedIconicEats}
+        onChecklistPress={onChecklistPress}
       />
     </View>
   );
@@ -51,6 +51,7 @@ interface Props {
   cityFilter?: string;
   onReorder: (sections: RestaurantSection[], unsectionedOrder: string[]) => void;
   onRestaurantPress: (restaurant: Restaurant) => void;
+  onRestaurantShare?: (restaurant: Restaurant) => void; // shows a share icon per row
   onAddSection: () => void;
   onDeleteSection: (sectionId: string) => void;
 }
@@ -63,6 +64,7 @@ const DraggableRestaurantList: React.FC<Props> = ({
   cityFilter,
   onReorder,
   onRestaurantPress,
+  onRestaurantShare,
   onAddSection,
   onDeleteSection,
 }) => {
@@ -339,6 +341,15 @@ const DraggableRestaurantList: React.FC<Props> = ({
                     ))}
                   </View>
                 )}
+                {onRestaurantShare && restaurant && (
+                  <TouchableOpacity
+                    onPress={() => onRestaurantShare(restaurant)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    style={styles.shareButton}
+                  >
+                    <Image source={require('../assets/icons/map/share.png')} style={styles.shareIcon} />
+                  </TouchableOpacity>
+                )}
               </View>
             </TouchableOpacity>
           );
@@ -495,6 +506,15 @@ const styles = StyleSheet.create({
     height: 20,
     marginLeft: 2,
   },
+  shareButton: {
+    marginLeft: 10,
+  },
+  shareIcon: {
+    width: 16,
+    height: 16,
+    tintColor: '#999',
+    resizeMode: 'contain',
+  },
 
   // === Modal styles ===
   modalContainer: {
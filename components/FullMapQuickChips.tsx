@@ -1,7 +1,11 @@
 /**
  * FullMapQuickChips — horizontal chip strip for the Discover Full Map.
  *
- * Three chip groups, left to right:
+ * Saved-filter chips come first when the caller passes `presets`: one chip
+ * per pinned preset (tap applies it, long-press for Share / Unpin /
+ * Delete), plus a "Save filters" chip while any filter is active.
+ *
+ * Then three chip groups, left to right:
  *   1. "Following"   — filter to meals posted by users the current user
  *                      follows. Uses followingService.getFollowing().
  *   2. "Food Critics"— filter to meals by users flagged isCritic on their
@@ -23,11 +27,20 @@
  * atomically.
  */
 import React, { useMemo } from 'react';
-import { ScrollView, TouchableOpacity, Text, StyleSheet, View } from 'react-native';
+import { ScrollView, TouchableOpacity, Text, StyleSheet, View, Alert } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import auth from '@react-native-firebase/auth';
 import { colors, spacing } from '../themes';
 import type { FilterItem } from './SimpleFilterComponent';
 import { buildDynamicChips, type Chip } from '../utils/chipResolver';
 import type { TasteProfile } from '../utils/tasteMatch';
+import {
+  FilterPreset,
+  resolveFilterPreset,
+  shareFilterPreset,
+  setFilterPresetPinned,
+  deleteFilterPreset,
+} from '../services/filterPresetService';
 
 interface Props {
   activeFilters: FilterItem[] | null;
@@ -42,6 +55,12 @@ interface Props {
   // doesn't — it renders the same strip with only the personalized taste
   // chips. Defaults to true so FullMap's existing callsite is unchanged.
   showSocialChips?: boolean;
+  // Pinned saved-filter presets (see useFilterPresets). Omit to hide the
+  // saved-filter chips entirely.
+  presets?: FilterPreset[];
+  activeRatingFilters?: number[] | null;
+  onApplyPreset?: (preset: FilterPreset) => void;
+  onSavePreset?: () => void;
 }
 
 type ChipDef =
@@ -54,6 +73,10 @@ const FullMapQuickChips: React.FC<Props> = ({
   criticCount = 0,
   tasteProfile,
   showSocialChips = true,
+  presets,
+  activeRatingFilters = null,
+  onApplyPreset,
+  onSavePreset,
 }) => {
   const chips: ChipDef[] = useMemo(() => {
     const list: ChipDef[] = [];
@@ -95,6 +118,40 @@ const FullMapQuickChips: React.FC<Props> = ({
   const isActive = (f: FilterItem) =>
     !!activeFilters?.some(x => x.type === f.type && x.value === f.value);
 
+  // A preset is "on" when the current filter state is exactly what it
+  // resolves to (same filters in any order, same ratings).
+  const isPresetActive = (preset: FilterPreset) => {
+    const { filters, ratings } = resolveFilterPreset(preset);
+    const current = activeFilters || [];
+    const wanted = filters || [];
+    const sameFilters =
+      current.length === wanted.length &&
+      wanted.every(f => current.some(x => x.type === f.type && x.value === f.value && !!x.negate === !!f.negate));
+    const sameRatings =
+      [...(ratings || [])].sort().join(',') === [...(activeRatingFilters || [])].sort().join(',');
+    return sameFilters && sameRatings;
+  };
+
+  const hasActiveFilters =
+    (activeFilters?.length || 0) > 0 || (activeRatingFilters?.length || 0) > 0;
+
+  const handlePresetLongPress = (preset: FilterPreset) => {
+    const uid = auth().currentUser?.uid;
+    if (!uid) return;
+    Alert.alert(preset.name, undefined, [
+      { text: 'Share', onPress: () => shareFilterPreset(preset) },
+      { text: 'Unpin', onPress: () => setFilterPresetPinned(uid, preset.id, false).catch(() => {}) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => deleteFilterPreset(uid, preset.id).catch(() => {
+          Alert.alert('Error', 'Failed to delete preset');
+        }),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   return (
     <View style={styles.wrap}>
       <ScrollView
@@ -102,6 +159,39 @@ const FullMapQuickChips: React.FC<Props> = ({
         showsHorizontalScrollIndicator={false}
         contentContainerStyle={styles.row}
       >
+        {presets?.map(preset => {
+          const active = isPresetActive(preset);
+          return (
+            <TouchableOpacity
+              key={`preset::${preset.id}`}
+              style={[styles.chip, styles.presetChip, active && styles.chipActive]}
+              onPress={() => onApplyPreset?.(preset)}
+              onLongPress={() => handlePresetLongPress(preset)}
+              activeOpacity={0.7}
+            >
+              <Icon
+                name="bookmark"
+                size={14}
+                color={active ? colors.white : '#1a2b49'}
+                style={styles.presetIcon}
+              />
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {preset.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        {onSavePreset && hasActiveFilters && (
+          <TouchableOpacity
+            key="preset::save"
+            style={[styles.chip, styles.presetChip, styles.saveChip]}
+            onPress={onSavePreset}
+            activeOpacity={0.7}
+          >
+            <Icon name="bookmark-border" size={14} color="#1a2b49" style={styles.presetIcon} />
+            <Text style={styles.chipText}>Save filters</Text>
+          </TouchableOpacity>
+        )}
         {chips.map(chip => {
           const active = isActive(chip.filter);
           return (
@@ -152,6 +242,16 @@ const styles = StyleSheet.create({
     borderColor: colors.mediumGray,
     marginRight: 8,
   },
+  presetChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  presetIcon: {
+    marginRight: 4,
+  },
+  saveChip: {
+    borderStyle: 'dashed',
+  },
   chipActive: {
     backgroundColor: '#1a2b49',
     borderColor: '#1a2b49',
@@ -19,6 +19,8 @@ import { getFollowing } from '../services/followService';
 import auth from '@react-native-firebase/auth';
 import firestore from '@react-native-firebase/firestore';
 import { mapStyle } from '../config/mapStyle';
+import type { MealEntry as StoredMealEntry } from '../types/mealEntry';
+import type { IconicEat } from '../services/iconicEatsService';
 
 // Map button icons - same as MapScreen
 const MAP_ICONS = {
@@ -34,47 +36,9 @@ const calculateZoomLevel = (region: Region): number => {
   return Math.round(Math.log(360 / longitudeDelta) / Math.LN2);
 };
 
-interface MealEntry {
-  id: string;
-  photoUrl: string;
-  pixel_art_url?: string;
-  pixel_art_data?: string; // base64 fallback for older meals
-  rating: number;
-  restaurant: string;
-  meal: string;
-  userId: string;
-  userName?: string;
-  userPhoto?: string;
-  city?: string;
-  location: {
-    latitude: number;
-    longitude: number;
-    source?: string;
-    city?: string;
-  } | null;
-  createdAt: any;
+// Map meals are stored docs plus the distance injected by the feed.
+interface MealEntry extends StoredMealEntry {
   distance?: number;
-  aiMetadata?: {
-    cuisineType: string;
-    foodType: string[];
-    mealType: string;
-    primaryProtein: string;
-    dietType: string;
-    eatingMethod: string;
-    setting: string;
-    platingStyle: string;
-    beverageType: string;
-  };
-  metadata_enriched?: {
-    cuisine_type?: string;
-    dish_general?: string;
-    dish_specific?: string;
-    key_ingredients?: string[];
-    interesting_ingredient?: string;
-    [key: string]: any;
-  } | null;
-  enhanced_facts?: any;
-  quick_criteria_result?: any;
 }
 
 type Props = {
@@ -94,6 +58,8 @@ type Props = {
     latitude: number;
     longitude: number;
     mealId?: string;
+    latitudeDelta?: number; // defaults to a close zoom on a single meal
+    longitudeDelta?: number;
   };
   // ─── FullMap-specific extensions ─────────────────────────────────────
   // When `dotsOnly` is true, every cluster renders as a dot regardless of
@@ -112,6 +78,10 @@ type Props = {
   // pill is not rendered. FullMap replaces that control with its own
   // quick-chip row, so it passes true; HomeScreen leaves it false.
   hideFilterModeToggle?: boolean;
+  // Iconic eats inside the current viewport (useIconicEats with `region`),
+  // drawn as emoji markers — shadowed until the user unlocks them.
+  iconicEats?: IconicEat[];
+  onIconicEatPress?: (eat: IconicEat) => void;
 };
 
 const HomeMapComponent: React.FC<Props> = ({
@@ -132,6 +102,8 @@ const HomeMapComponent: React.FC<Props> = ({
   focusedMealId = null,
   onRegionChange,
   hideFilterModeToggle = false,
+  iconicEats = [],
+  onIconicEatPress,
 }) => {
   // Map-specific state - isolated from parent component
   const [selectedMarkerIndex, setSelectedMarkerIndex] = useState<{ [key: string]: number }>({});
@@ -147,6 +119,16 @@ const HomeMapComponent: React.FC<Props> = ({
   const [loadingFollowing, setLoadingFollowing] = useState(false);
   const [loadingSaved, setLoadingSaved] = useState(false);
   const [currentZoom, setCurrentZoom] = useState<number>(10); // Track current zoom level
+  // Iconic emoji images that have loaded, so their markers can stop
+  // tracking view changes (same approach as MiniMapStrip).
+  const [loadedIconicIds, setLoadedIconicIds] = useState<Set<string>>(new Set());
+  const markIconicLoaded = (id: string) =>
+    setLoadedIconicIds(prev => {
+      if (prev.has(id)) return prev;
+      const next = new Set(prev);
+      next.add(id);
+      return next;
+    });
 
   const handleLocationPress = (meals: MealEntry[]) => {
     return;
@@ -361,8 +343,8 @@ const HomeMapComponent: React.FC<Props> = ({
           mapRef.current?.animateToRegion({
             latitude: storedCenterLocationRef.current.latitude,
             longitude: storedCenterLocationRef.current.longitude,
-            latitudeDelta: 0.01, // Zoom in closer for specific meal location
-            longitudeDelta: 0.01,
+            latitudeDelta: storedCenterLocationRef.current.latitudeDelta ?? 0.01, // Zoom in closer for specific meal location
+            longitudeDelta: storedCenterLocationRef.current.longitudeDelta ?? 0.01,
           }, 1000);
           // Clear the stored location after using it
           storedCenterLocationRef.current = null;
@@ -614,6 +596,32 @@ const HomeMapComponent: React.FC<Props> = ({
             </Marker>
           );
         })}
+
+        {iconicEats.map(eat => {
+          const uri = eat.unlocked ? eat.emoji_url : eat.shadow_emoji_url;
+          return (
+            <Marker
+              key={`iconic-${eat.id}`}
+              coordinate={{ latitude: eat.latitude, longitude: eat.longitude }}
+              tracksViewChanges={!loadedIconicIds.has(eat.id)}
+              onPress={() => onIconicEatPress?.(eat)}
+              zIndex={5}
+              anchor={{ x: 0.5, y: 0.5 }}
+            >
+              {uri ? (
+                <Image
+                  source={{ uri }}
+                  style={[styles.iconicImage, !eat.unlocked && styles.iconicImageShadow]}
+                  resizeMode="contain"
+                  onLoad={() => markIconicLoaded(eat.id)}
+                  onError={() => markIconicLoaded(eat.id)}
+                />
+              ) : (
+                <View style={[styles.scaledDot, { width: 14, height: 14, borderRadius: 7 }]} />
+              )}
+            </Marker>
+          );
+        })}
       </MapView>
       
       
@@ -930,6 +938,14 @@ const styles = StyleSheet.create({
     width: 30,
     height: 30,
   },
+  iconicImage: {
+    width: 26,
+    height: 26,
+  },
+  iconicImageShadow: {
+    // Same locked-shadow treatment as MiniMapStrip / IconicEatsRow.
+    opacity: 0.55,
+  },
   simplePinMarker: {
     width: 22, // Width to accommodate pin (12) + badge extension (5+5)
     height: 22, // Height to accommodate pin (12) + badge extension (5+5)
@@ -0,0 +1,213 @@
+/**
+ * IconicClaimPanel
+ * "Already had this? Claim it" section of IconicEatModal. Lists the user's
+ * meals most likely to be this eat (utils/iconicClaims scoring), submits a
+ * claim for the one they pick and follows it until the server decides:
+ * unlocked on the spot, or sent for review. Rendered inside the modal's
+ * card rather than as its own modal (iOS can't stack a second one).
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Image, ActivityIndicator, Alert } from 'react-native';
+import { colors } from '../themes';
+import { auth } from '../firebaseConfig';
+import type { IconicEat } from '../services/iconicEatsService';
+import type { MealEntry } from '../types/mealEntry';
+import {
+  IconicClaim,
+  getIconicClaimCandidates,
+  getActiveIconicClaim,
+  submitIconicClaim,
+  subscribeToIconicClaim,
+} from '../services/iconicClaimService';
+import { CLAIM_AUTO_APPROVE_SCORE, IconicClaimScore } from '../utils/iconicClaims';
+
+interface Props {
+  eat: IconicEat;
+}
+
+type Candidate = { meal: MealEntry; claim: IconicClaimScore };
+
+const STATUS_TEXT: Record<IconicClaim['status'], string> = {
+  submitted: 'Checking your claim…',
+  approved: 'Unlocked! That meal now counts for this dish.',
+  pending_review: "Sent for review — we'll unlock it if it checks out.",
+  duplicate: "You've already claimed or unlocked this one.",
+  rejected: "We couldn't match that meal to this dish.",
+};
+
+const IconicClaimPanel: React.FC<Props> = ({ eat }) => {
+  const userId = auth().currentUser?.uid;
+  const [candidates, setCandidates] = useState<Candidate[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [claimId, setClaimId] = useState<string | null>(null);
+  const [claim, setClaim] = useState<IconicClaim | null>(null);
+
+  // Pick up a claim for this eat from an earlier visit
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    getActiveIconicClaim(userId, eat.id).then(active => {
+      if (!cancelled && active) setClaimId(active.id);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, eat.id]);
+
+  useEffect(() => {
+    if (!claimId) return;
+    return subscribeToIconicClaim(claimId, setClaim);
+  }, [claimId]);
+
+  if (!userId) return null;
+
+  const showCandidates = async () => {
+    setLoading(true);
+    setCandidates(await getIconicClaimCandidates(userId, eat));
+    setLoading(false);
+  };
+
+  const claimWith = (meal: MealEntry) => {
+    Alert.alert('Claim this iconic eat?', `Link "${meal.meal || 'this meal'}" to ${eat.dish_name}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Claim',
+        onPress: async () => {
+          try {
+            setLoading(true);
+            setClaimId(await submitIconicClaim(userId, eat, meal));
+          } catch (error) {
+            console.error('IconicClaimPanel: Error submitting claim:', error);
+            Alert.alert('Error', 'Could not submit your claim. Please try again.');
+          } finally {
+            setLoading(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (claimId) {
+    const status = claim?.status || 'submitted';
+    return (
+      <View style={styles.container}>
+        <Text style={[styles.status, status === 'approved' && styles.statusApproved]}>{STATUS_TEXT[status]}</Text>
+      </View>
+    );
+  }
+
+  if (!candidates) {
+    return (
+      <View style={styles.container}>
+        <TouchableOpacity style={styles.claimButton} onPress={showCandidates} disabled={loading} activeOpacity={0.8}>
+          {loading ? (
+            <ActivityIndicator size="small" color={colors.warmTaupe} />
+          ) : (
+            <Text style={styles.claimText}>Already had this? Claim it</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Which meal was it?</Text>
+      {candidates.length === 0 ? (
+        <Text style={styles.status}>None of your meals look like this dish yet.</Text>
+      ) : (
+        candidates.map(({ meal, claim: score }) => (
+          <TouchableOpacity
+            key={meal.id}
+            style={styles.candidate}
+            onPress={() => claimWith(meal)}
+            disabled={loading}
+            activeOpacity={0.7}
+          >
+            {meal.photoUrl ? (
+              <Image source={{ uri: meal.photoUrl }} style={styles.thumb} />
+            ) : (
+              <View style={[styles.thumb, styles.thumbPlaceholder]} />
+            )}
+            <View style={styles.candidateText}>
+              <Text style={styles.candidateMeal} numberOfLines={1}>{meal.meal || 'Untitled meal'}</Text>
+              <Text style={styles.candidateRestaurant} numberOfLines={1}>{meal.restaurant || ''}</Text>
+            </View>
+            {score.score >= CLAIM_AUTO_APPROVE_SCORE && <Text style={styles.likely}>Likely match</Text>}
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  claimButton: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: colors.warmTaupe,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    minWidth: 120,
+    alignItems: 'center',
+  },
+  claimText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.warmTaupe,
+  },
+  heading: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#1a2b49',
+    marginBottom: 4,
+  },
+  status: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  statusApproved: {
+    color: colors.success,
+    fontWeight: '600',
+  },
+  candidate: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  thumb: {
+    width: 36,
+    height: 36,
+    borderRadius: 6,
+  },
+  thumbPlaceholder: {
+    backgroundColor: colors.lightTan,
+  },
+  candidateText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  candidateMeal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  candidateRestaurant: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  likely: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.success,
+    marginLeft: 8,
+  },
+});
+
+export default IconicClaimPanel;
@@ -3,7 +3,12 @@
  * Centered modal displaying an iconic eat's details: category label, dish
  * name, restaurant, why_selected, and photo (Places photo or emoji
  * fallback). Dismisses by tapping the dark overlay. Used from the Discover
- * IconicEatsRow and map markers.
+ * IconicEatsRow and map markers. Callers that pass `onShare` get a "Share
+ * card" button and open the story card themselves (a second modal can't
+ * stack on top of this one on iOS). Callers that pass a `checklist` get its
+ * progress and the dishes still to unlock, nearest first; tapping one calls
+ * `onSelectChecklistItem` so the caller can swap `eat`. Eats the user hasn't
+ * unlocked offer a manual claim (IconicClaimPanel).
  */
 
 import React, { useState, useEffect } from 'react';
@@ -23,6 +28,8 @@ import {
   IconicEat,
   buildPlacesPhotoUrl,
 } from '../services/iconicEatsService';
+import { IconicChecklist, checklistProgress, remainingChecklistItems } from '../utils/iconicChecklists';
+import IconicClaimPanel from './IconicClaimPanel';
 
 interface Props {
   visible: boolean;
@@ -32,9 +39,27 @@ interface Props {
   // longer invoked — the "Show on map" button has been removed. The
   // modal dismisses on overlay tap instead.
   onShowOnMap?: (eat: IconicEat) => void;
+  // Receives the Places photo shown in the modal (null when it failed or
+  // there isn't one) so the story card matches what the user saw.
+  onShare?: (eat: IconicEat, photoUrl: string | null) => void;
+  checklist?: IconicChecklist | null;
+  unlocked?: Set<string>;
+  origin?: { latitude: number; longitude: number } | null;
+  onSelectChecklistItem?: (eatId: string) => void;
 }
 
-const IconicEatModal: React.FC<Props> = ({ visible, eat, onClose }) => {
+const formatKm = (km: number) => (km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`);
+
+const IconicEatModal: React.FC<Props> = ({
+  visible,
+  eat,
+  onClose,
+  onShare,
+  checklist,
+  unlocked,
+  origin,
+  onSelectChecklistItem,
+}) => {
   const [photoFailed, setPhotoFailed] = useState(false);
 
   useEffect(() => {
@@ -75,6 +100,10 @@ const IconicEatModal: React.FC<Props> = ({ visible, eat, onClose }) => {
   const placesPhoto = buildPlacesPhotoUrl(eat.photo_references?.[0], 800);
   const showPlacesPhoto = !!placesPhoto && !photoFailed;
   const emojiFallback = eat.unlocked ? eat.emoji_url : eat.shadow_emoji_url;
+  const progress = checklist ? checklistProgress(checklist, unlocked || []) : null;
+  const remaining = checklist
+    ? remainingChecklistItems(checklist, unlocked || [], origin || null).filter(item => item.id !== eat.id)
+    : [];
 
   return (
     <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
@@ -123,6 +152,59 @@ const IconicEatModal: React.FC<Props> = ({ visible, eat, onClose }) => {
               <View style={styles.divider} />
 
               <Text style={styles.whySelected}>{eat.why_selected}</Text>
+
+              {onShare && (
+                <TouchableOpacity
+                  style={styles.shareButton}
+                  onPress={() => onShare(eat, showPlacesPhoto ? placesPhoto : null)}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.shareText}>Share card</Text>
+                </TouchableOpacity>
+              )}
+
+              {!eat.unlocked && <IconicClaimPanel key={eat.id} eat={eat} />}
+
+              {checklist && progress && (
+                <View style={styles.checklist}>
+                  <View style={styles.divider} />
+                  <View style={styles.checklistHeader}>
+                    <Text style={styles.iconicLabel}>{checklist.title.toUpperCase()}</Text>
+                    <Text style={styles.checklistCount}>
+                      {progress.unlocked}/{progress.total}
+                    </Text>
+                  </View>
+                  <View style={styles.progressTrack}>
+                    <View style={[styles.progressFill, { width: `${(progress.unlocked / progress.total) * 100}%` }]} />
+                  </View>
+                  {progress.complete ? (
+                    <Text style={styles.checklistDone}>Every dish unlocked — checklist complete!</Text>
+                  ) : (
+                    remaining.map(item => (
+                      <TouchableOpacity
+                        key={item.id}
+                        style={styles.checklistItem}
+                        onPress={() => onSelectChecklistItem?.(item.id)}
+                        disabled={!onSelectChecklistItem}
+                        activeOpacity={0.7}
+                      >
+                        {item.emoji_url ? (
+                          <Image source={{ uri: item.emoji_url }} style={styles.checklistEmoji} resizeMode="contain" />
+                        ) : (
+                          <View style={[styles.checklistEmoji, styles.photoPlaceholder]} />
+                        )}
+                        <View style={styles.checklistText}>
+                          <Text style={styles.checklistDish} numberOfLines={1}>{item.dish_name}</Text>
+                          <Text style={styles.checklistRestaurant} numberOfLines={1}>{item.restaurant_name}</Text>
+                        </View>
+                        {item.distance !== undefined && (
+                          <Text style={styles.checklistDistance}>{formatKm(item.distance)}</Text>
+                        )}
+                      </TouchableOpacity>
+                    ))
+                  )}
+                </View>
+              )}
             </View>
           </ScrollView>
         </TouchableOpacity>
@@ -214,6 +296,78 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     lineHeight: 20,
   },
+  shareButton: {
+    marginTop: 16,
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: colors.warmTaupe,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  shareText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.warmTaupe,
+  },
+  checklist: {
+    marginTop: 4,
+  },
+  checklistHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  checklistCount: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#1a2b49',
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.lightTan,
+    marginTop: 4,
+    marginBottom: 8,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: colors.warmTaupe,
+  },
+  checklistDone: {
+    fontSize: 14,
+    color: colors.success,
+    fontWeight: '600',
+  },
+  checklistItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  checklistEmoji: {
+    width: 28,
+    height: 28,
+    borderRadius: 4,
+  },
+  checklistText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  checklistDish: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  checklistRestaurant: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  checklistDistance: {
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginLeft: 8,
+  },
 });
 
 export default IconicEatModal;
@@ -1,6 +1,8 @@
 import React, {
   useCallback,
+  useMemo,
   useRef,
+  useState,
   useImperativeHandle,
   forwardRef,
 } from 'react';
@@ -18,6 +20,7 @@ import {
 import ReactNativeHapticFeedback from 'react-native-haptic-feedback';
 import { colors, spacing } from '../themes';
 import { IconicEat } from '../services/iconicEatsService';
+import { IconicChecklist, checklistProgress, checklistsForEat } from '../utils/iconicChecklists';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -26,6 +29,11 @@ interface Props {
   onPress: (eat: IconicEat) => void;
   onFocusChange?: (eatId: string | null) => void;
   loading?: boolean;
+  // City checklists (useIconicEats) and the user's unlocked set. When given,
+  // the title row shows progress on the centered eat's city.
+  checklists?: IconicChecklist[];
+  unlocked?: Set<string>;
+  onChecklistPress?: (checklist: IconicChecklist) => void;
 }
 
 export interface IconicEatsRowRef {
@@ -51,9 +59,18 @@ const triggerSelectionHaptic = () => {
 };
 
 const IconicEatsRow = forwardRef<IconicEatsRowRef, Props>(
-  ({ iconicEats, onPress, onFocusChange }, ref) => {
+  ({ iconicEats, onPress, onFocusChange, checklists, unlocked, onChecklistPress }, ref) => {
     const flatListRef = useRef<FlatList>(null);
     const lastCenteredIndex = useRef<number>(0);
+    const [centeredIndex, setCenteredIndex] = useState(0);
+
+    // Whole-city checklist for the eat in the middle of the row
+    const centeredEat = iconicEats[Math.min(centeredIndex, iconicEats.length - 1)];
+    const checklist = useMemo(
+      () => (centeredEat && checklists ? checklistsForEat(checklists, centeredEat.id)[0] : undefined),
+      [centeredEat, checklists],
+    );
+    const progress = checklist ? checklistProgress(checklist, unlocked || []) : null;
 
     useImperativeHandle(
       ref,
@@ -78,6 +95,7 @@ const IconicEatsRow = forwardRef<IconicEatsRowRef, Props>(
         const clamped = Math.max(0, Math.min(index, iconicEats.length - 1));
         if (clamped !== lastCenteredIndex.current) {
           lastCenteredIndex.current = clamped;
+          setCenteredIndex(clamped);
           triggerSelectionHaptic();
           if (iconicEats[clamped]) {
             onFocusChange?.(iconicEats[clamped].id);
@@ -146,7 +164,25 @@ const IconicEatsRow = forwardRef<IconicEatsRowRef, Props>(
 
     return (
       <View style={styles.container}>
-        <Text style={styles.sectionTitle}>Iconic Eats</Text>
+        <View style={styles.titleRow}>
+          <Text style={styles.sectionTitle}>Iconic Eats</Text>
+          {checklist && progress && (
+            <TouchableOpacity
+              style={styles.progressChip}
+              onPress={() => onChecklistPress?.(checklist)}
+              disabled={!onChecklistPress}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.progressText} numberOfLines={1}>
+                {progress.complete ? '✓ ' : ''}
+                {progress.unlocked}/{progress.total} · {checklist.title}
+              </Text>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${(progress.unlocked / progress.total) * 100}%` }]} />
+              </View>
+            </TouchableOpacity>
+          )}
+        </View>
         <FlatList
           ref={flatListRef}
           data={iconicEats}
@@ -177,13 +213,39 @@ const styles = StyleSheet.create({
   container: {
     marginTop: spacing.md,
   },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
     color: '#1a2b49',
     fontFamily: 'NunitoSans-VariableFont_YTLC,opsz,wdth,wght',
-    marginHorizontal: spacing.md,
-    marginBottom: spacing.sm,
+  },
+  progressChip: {
+    alignItems: 'flex-end',
+    maxWidth: '55%',
+  },
+  progressText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.warmTaupe,
+  },
+  progressTrack: {
+    width: 80,
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: colors.lightTan,
+    marginTop: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 3,
+    backgroundColor: colors.warmTaupe,
   },
   tile: {
     width: CARD_WIDTH,
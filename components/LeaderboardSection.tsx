@@ -0,0 +1,355 @@
+/**
+ * LeaderboardSection
+ * Food Passport section showing where the profile owner stands on the
+ * global, city and cuisine leaderboards (services/leaderboardService.ts).
+ *
+ * Board chips: "Most cuisines", "Most restaurants", then the owner's top
+ * cities and cuisines. Period tabs switch between this week, this month and
+ * all time. The list pages 10 at a time; the owner's own row is pinned
+ * under the list when they're ranked below it. On your own profile there's
+ * a switch to opt out of leaderboards entirely.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { colors, typography, spacing } from '../themes';
+import {
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  LeaderboardScope,
+  getLeaderboardEntry,
+  getLeaderboardOptOut,
+  getLeaderboardPage,
+  leaderboardId,
+  setLeaderboardOptOut,
+} from '../services/leaderboardService';
+
+interface Props {
+  userId: string | null | undefined;
+  isOwnProfile: boolean;
+  cities?: string[];
+  cuisines?: string[];
+  onUserPress?: (userId: string, userName: string, userPhoto: string | null) => void;
+}
+
+interface BoardOption {
+  scope: LeaderboardScope;
+  key: string;
+  label: string;
+}
+
+const PERIODS: { period: LeaderboardPeriod; label: string }[] = [
+  { period: 'weekly', label: 'This week' },
+  { period: 'monthly', label: 'This month' },
+  { period: 'all', label: 'All time' },
+];
+
+const PAGE_SIZE = 10;
+const MAX_PLACE_CHIPS = 3;
+
+const titleCase = (value: string) => value.replace(/\b\w/g, c => c.toUpperCase());
+
+const LeaderboardSection: React.FC<Props> = ({
+  userId,
+  isOwnProfile,
+  cities = [],
+  cuisines = [],
+  onUserPress,
+}) => {
+  const boards = useMemo<BoardOption[]>(() => [
+    { scope: 'global', key: 'cuisines', label: 'Most cuisines' },
+    { scope: 'global', key: 'restaurants', label: 'Most restaurants' },
+    ...cities.slice(0, MAX_PLACE_CHIPS).map(city => ({
+      scope: 'city' as const,
+      key: city,
+      label: titleCase(city),
+    })),
+    ...cuisines.slice(0, MAX_PLACE_CHIPS).map(cuisine => ({
+      scope: 'cuisine' as const,
+      key: cuisine,
+      label: titleCase(cuisine),
+    })),
+  ], [cities, cuisines]);
+
+  const [boardIndex, setBoardIndex] = useState(0);
+  const [period, setPeriod] = useState<LeaderboardPeriod>('weekly');
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [ownEntry, setOwnEntry] = useState<LeaderboardEntry | null>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [optedOut, setOptedOut] = useState(false);
+
+  const board = boards[Math.min(boardIndex, boards.length - 1)];
+  const boardId = leaderboardId(board.scope, board.key, period);
+
+  useEffect(() => {
+    if (!userId) return;
+    getLeaderboardOptOut(userId).then(setOptedOut);
+  }, [userId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([
+      getLeaderboardPage(boardId, { pageSize: PAGE_SIZE }),
+      userId ? getLeaderboardEntry(boardId, userId) : Promise.resolve(null),
+    ]).then(([page, entry]) => {
+      if (cancelled) return;
+      setEntries(page.entries);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+      setOwnEntry(entry);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, userId]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMore || !hasMore) return;
+    setLoadingMore(true);
+    const page = await getLeaderboardPage(boardId, { pageSize: PAGE_SIZE, cursor });
+    setEntries(prev => [...prev, ...page.entries]);
+    setCursor(page.cursor);
+    setHasMore(page.hasMore);
+    setLoadingMore(false);
+  }, [boardId, cursor, hasMore, loadingMore]);
+
+  const toggleOptOut = useCallback(async (value: boolean) => {
+    if (!userId) return;
+    setOptedOut(value);
+    const ok = await setLeaderboardOptOut(userId, value);
+    if (!ok) {
+      setOptedOut(!value);
+    } else if (value) {
+      setEntries(prev => prev.filter(e => e.userId !== userId));
+      setOwnEntry(null);
+    }
+  }, [userId]);
+
+  // Respect the owner's opt-out when someone else views their passport.
+  if (!userId || (!isOwnProfile && optedOut)) return null;
+
+  const ownRowVisible = ownEntry && entries.some(e => e.userId === ownEntry.userId);
+
+  const renderRow = (entry: LeaderboardEntry, pinned = false) => (
+    <TouchableOpacity
+      key={`${pinned ? 'pinned-' : ''}${entry.userId}`}
+      style={[styles.row, entry.userId === userId && styles.ownRow, pinned && styles.pinnedRow]}
+      onPress={() => onUserPress?.(entry.userId, entry.displayName, entry.photoURL)}
+      disabled={!onUserPress}
+      activeOpacity={0.7}
+    >
+      <Text style={styles.rank}>{entry.rank}</Text>
+      {entry.photoURL ? (
+        <Image source={{ uri: entry.photoURL }} style={styles.avatar} />
+      ) : (
+        <View style={[styles.avatar, styles.avatarPlaceholder]}>
+          <Text style={styles.avatarInitial}>{entry.displayName.charAt(0).toUpperCase()}</Text>
+        </View>
+      )}
+      <Text style={styles.name} numberOfLines={1}>{entry.displayName}</Text>
+      <Text style={styles.score}>{entry.score}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Leaderboards</Text>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {boards.map((option, i) => {
+          const active = option === board;
+          return (
+            <TouchableOpacity
+              key={`${option.scope}:${option.key}`}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => setBoardIndex(i)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.periods}>
+        {PERIODS.map(p => (
+          <TouchableOpacity key={p.period} onPress={() => setPeriod(p.period)} style={styles.periodTab}>
+            <Text style={[styles.periodText, period === p.period && styles.periodTextActive]}>{p.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="small" color={colors.warmTaupe} style={styles.spinner} />
+      ) : entries.length === 0 ? (
+        <Text style={styles.empty}>No one's on this board yet — log a meal to claim the top spot.</Text>
+      ) : (
+        <>
+          {entries.map(entry => renderRow(entry))}
+          {hasMore && (
+            <TouchableOpacity style={styles.moreButton} onPress={loadMore} disabled={loadingMore}>
+              {loadingMore ? (
+                <ActivityIndicator size="small" color={colors.warmTaupe} />
+              ) : (
+                <Text style={styles.moreText}>Show more</Text>
+              )}
+            </TouchableOpacity>
+          )}
+          {ownEntry && !ownRowVisible && renderRow(ownEntry, true)}
+        </>
+      )}
+
+      {isOwnProfile && (
+        <View style={styles.optOutRow}>
+          <Text style={styles.optOutText}>Hide me from leaderboards</Text>
+          <Switch
+            value={optedOut}
+            onValueChange={toggleOptOut}
+            trackColor={{ false: colors.mediumGray, true: colors.warmTaupe }}
+          />
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: spacing.md,
+    marginVertical: spacing.sm,
+  },
+  title: {
+    ...typography.h4,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  chips: {
+    paddingVertical: spacing.xs,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.mediumGray,
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    paddingVertical: 5,
+    paddingHorizontal: 12,
+    marginRight: 6,
+  },
+  chipActive: {
+    backgroundColor: colors.warmTaupe,
+    borderColor: colors.warmTaupe,
+  },
+  chipText: {
+    fontFamily: 'Inter',
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  chipTextActive: {
+    color: colors.white,
+  },
+  periods: {
+    flexDirection: 'row',
+    marginVertical: spacing.xs,
+  },
+  periodTab: {
+    marginRight: spacing.md,
+  },
+  periodText: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+  },
+  periodTextActive: {
+    color: colors.textPrimary,
+    fontWeight: '700',
+  },
+  spinner: {
+    marginVertical: spacing.md,
+  },
+  empty: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    marginVertical: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.mediumGray,
+  },
+  ownRow: {
+    backgroundColor: colors.lightTan,
+  },
+  pinnedRow: {
+    marginTop: spacing.xs,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: colors.mediumGray,
+  },
+  rank: {
+    width: 28,
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.warmTaupe,
+    textAlign: 'center',
+  },
+  avatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    marginHorizontal: spacing.xs,
+  },
+  avatarPlaceholder: {
+    backgroundColor: colors.mediumGray,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarInitial: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  name: {
+    ...typography.bodySmall,
+    flex: 1,
+    color: colors.textPrimary,
+  },
+  score: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginRight: spacing.xs,
+  },
+  moreButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  moreText: {
+    ...typography.bodySmall,
+    color: colors.warmTaupe,
+    fontWeight: '600',
+  },
+  optOutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: spacing.sm,
+  },
+  optOutText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+});
+
+export default LeaderboardSection;
@@ -22,18 +22,18 @@ import {
 import { colors, spacing, shadows } from '../themes';
 import EmojiDisplay from './EmojiDisplay';
 import { firestore } from '../firebaseConfig';
-
-interface MealEntry {
-  id: string;
-  meal: string;
-  restaurant: string;
-  rating: number;
-  photoUrl: string;
-  pixel_art_url?: string;
-  pixel_art_data?: string;
+import type { MealEntry as StoredMealEntry } from '../types/mealEntry';
+import { mealCalendarDate } from '../utils/wrappedStats';
+
+// Dates arrive in every format (Timestamp, Date, millis, {seconds}) depending
+// on the caller, so they stay loosely typed and are normalized below.
+type MealEntry = Pick<
+  StoredMealEntry,
+  'id' | 'meal' | 'restaurant' | 'rating' | 'photoUrl' | 'pixel_art_url' | 'pixel_art_data'
+> & {
   createdAt: any;
   photoTakenAt?: any; // Photo creation date (preferred for calendar)
-}
+};
 
 interface Props {
   meals: MealEntry[];
@@ -129,8 +129,8 @@ const MealCalendar: React.FC<Props> = ({ meals, onMealPress, isOwnProfile = fals
         // Only show meals that have been rated (rating > 0)
         if (!meal.rating || meal.rating <= 0) return;
         // Use photoTakenAt if available, otherwise fall back to createdAt
-        const rawDate = meal.photoTakenAt || meal.createdAt;
-        const date = rawDate?.toDate?.() || new Date(rawDate);
+        const date = mealCalendarDate(meal);
+        if (!date) return;
         const key = getDateKey(date);
         if (!map.has(key)) map.set(key, []);
         map.get(key)!.push(meal);
@@ -13,7 +13,7 @@ import { IconicEat } from '../services/iconicEatsService';
 
 interface MealEntry {
   id: string;
-  pixel_art_url?: string;
+  pixel_art_url?: string | null;
   location: {
     latitude: number;
     longitude: number;
@@ -13,22 +13,12 @@ import {
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import ReactNativeHapticFeedback from 'react-native-haptic-feedback';
 import { colors, spacing, shadows } from '../themes';
+import type { MealEntry as StoredMealEntry } from '../types/mealEntry';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
-interface MealEntry {
-  id: string;
-  photoUrl: string;
-  photos?: { url: string; isFlagship: boolean; order: number }[];
-  meal: string;
-  restaurant: string;
+interface MealEntry extends StoredMealEntry {
   distance?: number;
-  location: {
-    latitude: number;
-    longitude: number;
-    [key: string]: any;
-  } | null;
-  [key: string]: any;
 }
 
 interface NearYouCarouselProps {
@@ -0,0 +1,345 @@
+/**
+ * NotificationPreferencesModal
+ * Per-type delivery (in-app / push / daily digest), quiet hours and digest
+ * time, saved to users/{uid}/settings/notifications.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { colors, spacing } from '../themes';
+import {
+  NOTIFICATION_TYPE_LABELS,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+  getNotificationPreferences,
+  saveNotificationPreferences,
+} from '../services/notificationPreferencesService';
+
+interface Props {
+  visible: boolean;
+  userId: string;
+  onClose: () => void;
+}
+
+const CHANNELS: { channel: NotificationChannel; label: string }[] = [
+  { channel: 'inApp', label: 'In-app' },
+  { channel: 'push', label: 'Push' },
+  { channel: 'digest', label: 'Digest' },
+];
+
+const STEP_MINUTES = 30;
+const MINUTES_PER_DAY = 24 * 60;
+
+const formatMinutes = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  const suffix = h < 12 ? 'AM' : 'PM';
+  return `${h % 12 === 0 ? 12 : h % 12}:${String(m).padStart(2, '0')} ${suffix}`;
+};
+
+const step = (minutes: number, delta: number) =>
+  (minutes + delta + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+const TimeStepper: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  onChange,
+}) => (
+  <View style={styles.timeRow}>
+    <Text style={[styles.rowLabel, styles.typeLabel]}>{label}</Text>
+    <TouchableOpacity style={styles.stepButton} onPress={() => onChange(step(value, -STEP_MINUTES))}>
+      <Text style={styles.stepText}>−</Text>
+    </TouchableOpacity>
+    <Text style={styles.timeValue}>{formatMinutes(value)}</Text>
+    <TouchableOpacity style={styles.stepButton} onPress={() => onChange(step(value, STEP_MINUTES))}>
+      <Text style={styles.stepText}>+</Text>
+    </TouchableOpacity>
+  </View>
+);
+
+const NotificationPreferencesModal: React.FC<Props> = ({ visible, userId, onClose }) => {
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setPrefs(null);
+    getNotificationPreferences(userId).then(setPrefs);
+  }, [visible, userId]);
+
+  const toggleChannel = (type: NotificationType, channel: NotificationChannel) => {
+    setPrefs(prev => prev && {
+      ...prev,
+      channels: {
+        ...prev.channels,
+        [type]: { ...prev.channels[type], [channel]: !prev.channels[type][channel] },
+      },
+    });
+  };
+
+  const handleSave = async () => {
+    if (!prefs) return;
+    setSaving(true);
+    const ok = await saveNotificationPreferences(userId, prefs);
+    setSaving(false);
+    if (ok) {
+      onClose();
+    } else {
+      Alert.alert('Error', 'Could not save your notification settings. Please try again.');
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="none" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} onPress={e => e.stopPropagation()} style={styles.card}>
+          <Text style={styles.title}>Notification settings</Text>
+
+          {!prefs ? (
+            <ActivityIndicator size="small" color={colors.warmTaupe} style={styles.spinner} />
+          ) : (
+            <ScrollView style={styles.scroll}>
+              <View style={styles.headerRow}>
+                <Text style={[styles.rowLabel, styles.typeLabel]} />
+                {CHANNELS.map(c => (
+                  <Text key={c.channel} style={styles.channelHeader}>{c.label}</Text>
+                ))}
+              </View>
+              {(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map(type => (
+                <View key={type} style={styles.typeRow}>
+                  <Text style={[styles.rowLabel, styles.typeLabel]}>{NOTIFICATION_TYPE_LABELS[type]}</Text>
+                  {CHANNELS.map(c => {
+                    const on = prefs.channels[type][c.channel];
+                    return (
+                      <TouchableOpacity
+                        key={c.channel}
+                        style={styles.channelCell}
+                        onPress={() => toggleChannel(type, c.channel)}
+                      >
+                        <View style={[styles.checkbox, on && styles.checkboxOn]}>
+                          {on && <Text style={styles.checkmark}>✓</Text>}
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ))}
+
+              <View style={styles.section}>
+                <View style={styles.switchRow}>
+                  <Text style={styles.rowLabel}>Quiet hours</Text>
+                  <Switch
+                    value={prefs.quietHours.enabled}
+                    onValueChange={enabled => setPrefs({ ...prefs, quietHours: { ...prefs.quietHours, enabled } })}
+                    trackColor={{ false: colors.mediumGray, true: colors.warmTaupe }}
+                  />
+                </View>
+                {prefs.quietHours.enabled && (
+                  <>
+                    <TimeStepper
+                      label="From"
+                      value={prefs.quietHours.start}
+                      onChange={start => setPrefs({ ...prefs, quietHours: { ...prefs.quietHours, start } })}
+                    />
+                    <TimeStepper
+                      label="Until"
+                      value={prefs.quietHours.end}
+                      onChange={end => setPrefs({ ...prefs, quietHours: { ...prefs.quietHours, end } })}
+                    />
+                    <Text style={styles.hint}>Pushes that arrive during quiet hours wait until they end.</Text>
+                  </>
+                )}
+              </View>
+
+              <View style={styles.section}>
+                <TimeStepper
+                  label="Daily digest"
+                  value={prefs.digestTime}
+                  onChange={digestTime => setPrefs({ ...prefs, digestTime })}
+                />
+                <Text style={styles.hint}>One summary of anything still unread, sent once a day.</Text>
+              </View>
+            </ScrollView>
+          )}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={!prefs || saving}>
+              {saving ? (
+                <ActivityIndicator size="small" color={colors.white} />
+              ) : (
+                <Text style={styles.saveText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    padding: 20,
+    width: '90%',
+    maxWidth: 380,
+    maxHeight: '80%',
+  },
+  title: {
+    fontFamily: 'Inter',
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 12,
+  },
+  spinner: {
+    marginVertical: spacing.lg,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  channelHeader: {
+    width: 52,
+    textAlign: 'center',
+    fontFamily: 'Inter',
+    fontSize: 11,
+    color: colors.textTertiary,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.mediumGray,
+  },
+  rowLabel: {
+    fontFamily: 'Inter',
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  typeLabel: {
+    flex: 1,
+  },
+  channelCell: {
+    width: 52,
+    alignItems: 'center',
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1.5,
+    borderColor: colors.mediumGray,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxOn: {
+    backgroundColor: colors.warmTaupe,
+    borderColor: colors.warmTaupe,
+  },
+  checkmark: {
+    color: colors.white,
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  section: {
+    marginTop: spacing.md,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.xs,
+  },
+  stepButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.mediumGray,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepText: {
+    fontSize: 16,
+    color: colors.textPrimary,
+  },
+  timeValue: {
+    width: 76,
+    textAlign: 'center',
+    fontFamily: 'Inter',
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  hint: {
+    fontFamily: 'Inter',
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+    marginTop: 16,
+  },
+  cancelButton: {
+    borderWidth: 2,
+    borderColor: '#999',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  cancelText: {
+    fontFamily: 'Inter',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  saveButton: {
+    backgroundColor: colors.warmTaupe,
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  saveText: {
+    fontFamily: 'Inter',
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.white,
+  },
+});
+
+export default NotificationPreferencesModal;
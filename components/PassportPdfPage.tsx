@@ -0,0 +1,307 @@
+/**
+ * PassportPdfPage
+ * Draws one page of the printable passport from utils/passportPdfLayout.
+ * Positions and sizes come from the layout in PDF points and are multiplied
+ * by `scale`, so the same page renders as an on-screen preview and as the
+ * capture that goes into the PDF.
+ */
+
+import React from 'react';
+import { View, Text, Image, StyleSheet } from 'react-native';
+import { colors } from '../themes';
+import { EMOJI_RATINGS } from './EmojiRating';
+import {
+  PassportPdfPage as Page,
+  PDF_CONTENT_TOP,
+  PDF_CONTENT_WIDTH,
+  PDF_MARGIN,
+  PDF_PAGE_SIZE,
+} from '../utils/passportPdfLayout';
+
+interface Props {
+  page: Page;
+  totalPages: number;
+  scale: number;
+}
+
+const PLANK_COLOR = '#B98B5E';
+const INK = '#2B2118';
+
+const formatDate = (date: Date | null) =>
+  date ? date.toLocaleDateString(undefined, { month: 'long', day: 'numeric', year: 'numeric' }) : '—';
+
+const pageTitle = (page: Page): string | null => {
+  switch (page.kind) {
+    case 'cover':
+      return null;
+    case 'collection':
+    case 'restaurants':
+      return page.title;
+    case 'city':
+      return 'Cities';
+    case 'stats':
+      return 'By the Numbers';
+  }
+};
+
+const PassportPdfPage: React.FC<Props> = ({ page, totalPages, scale }) => {
+  const s = (points: number) => points * scale;
+  const title = pageTitle(page);
+
+  const renderBody = () => {
+    switch (page.kind) {
+      case 'cover':
+        return (
+          <View style={[styles.cover, { top: s(PDF_CONTENT_TOP), left: s(PDF_MARGIN), width: s(PDF_CONTENT_WIDTH) }]}>
+            <Image
+              source={require('../assets/forkful_logos/forkful_logo_cursive2.png')}
+              style={{ width: s(200), height: s(70) }}
+              resizeMode="contain"
+            />
+            {page.photoUrl ? (
+              <Image
+                source={{ uri: page.photoUrl }}
+                style={{ width: s(140), height: s(140), borderRadius: s(70), marginTop: s(40) }}
+              />
+            ) : null}
+            <Text style={[styles.coverTitle, { fontSize: s(32), marginTop: s(28) }]}>{page.title}</Text>
+            <Text style={[styles.muted, { fontSize: s(13), marginTop: s(6) }]}>{page.subtitle}</Text>
+            <View style={[styles.row, { marginTop: s(48) }]}>
+              {page.highlights.map(h => (
+                <View key={h.label} style={[styles.highlight, { width: s(PDF_CONTENT_WIDTH / 4) }]}>
+                  <Text style={[styles.highlightValue, { fontSize: s(28) }]}>{h.value}</Text>
+                  <Text style={[styles.muted, { fontSize: s(11) }]}>{h.label}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        );
+
+      case 'collection':
+        return page.shelves.map(shelf => (
+          <View key={shelf.table} style={[styles.absolute, { top: s(shelf.top), left: s(PDF_MARGIN), width: s(PDF_CONTENT_WIDTH) }]}>
+            <Text style={[styles.muted, { fontSize: s(10), height: s(20) }]}>TABLE {shelf.table}</Text>
+            {shelf.rows.map((row, r) => (
+              <View key={r} style={[styles.row, styles.centerRow]}>
+                {row.map((url, c) => (
+                  <Image
+                    key={`${r}-${c}`}
+                    source={{ uri: url }}
+                    style={{ width: s(shelf.cellSize), height: s(shelf.cellSize) }}
+                    resizeMode="contain"
+                  />
+                ))}
+              </View>
+            ))}
+            <View style={[styles.plank, { height: s(10), borderRadius: s(3) }]} />
+          </View>
+        ));
+
+      case 'city':
+        return (
+          <View style={[styles.absolute, styles.cityBody, { top: s(PDF_CONTENT_TOP), left: s(PDF_MARGIN), width: s(PDF_CONTENT_WIDTH) }]}>
+            {page.monumentUrl ? (
+              <Image source={{ uri: page.monumentUrl }} style={{ width: s(220), height: s(220) }} resizeMode="contain" />
+            ) : (
+              <View style={{ height: s(40) }} />
+            )}
+            <Text style={[styles.coverTitle, { fontSize: s(30), marginTop: s(12) }]}>{page.city}</Text>
+            <Text style={[styles.muted, { fontSize: s(12) }]}>
+              {page.mealCount} {page.mealCount === 1 ? 'meal' : 'meals'}
+            </Text>
+            {page.restaurants.length > 0 && (
+              <View style={{ marginTop: s(20), width: s(300) }}>
+                {page.restaurants.map(r => (
+                  <View key={r.name} style={[styles.row, styles.spaceBetween, { paddingVertical: s(3) }]}>
+                    <Text style={[styles.ink, { fontSize: s(12) }]} numberOfLines={1}>{r.name}</Text>
+                    <Text style={[styles.muted, { fontSize: s(11) }]}>{r.count}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+            <View style={[styles.row, styles.wrap, styles.centerRow, { marginTop: s(20) }]}>
+              {page.emojiUrls.map((url, i) => (
+                <Image key={i} source={{ uri: url }} style={{ width: s(44), height: s(44) }} resizeMode="contain" />
+              ))}
+            </View>
+          </View>
+        );
+
+      case 'restaurants':
+        return page.entries.map((entry, i) =>
+          entry.type === 'section' ? (
+            <Text
+              key={i}
+              style={[styles.absolute, styles.sectionTitle, { top: s(entry.top + 8), left: s(PDF_MARGIN), fontSize: s(14) }]}
+            >
+              {entry.name}
+            </Text>
+          ) : (
+            <View
+              key={i}
+              style={[styles.absolute, styles.row, styles.spaceBetween, {
+                top: s(entry.top),
+                left: s(PDF_MARGIN),
+                width: s(PDF_CONTENT_WIDTH),
+                height: s(20),
+              }]}
+            >
+              <Text style={[styles.ink, { fontSize: s(11), flexShrink: 1 }]} numberOfLines={1}>
+                {entry.name}
+                {entry.city ? <Text style={styles.muted}>{`  ·  ${entry.city}`}</Text> : null}
+              </Text>
+              <Text style={[styles.muted, { fontSize: s(11) }]}>
+                {entry.mealCount} {entry.mealCount === 1 ? 'meal' : 'meals'}
+              </Text>
+            </View>
+          ),
+        );
+
+      case 'stats': {
+        const maxRating = Math.max(1, ...page.ratings);
+        return (
+          <View style={[styles.absolute, { top: s(PDF_CONTENT_TOP), left: s(PDF_MARGIN), width: s(PDF_CONTENT_WIDTH) }]}>
+            <View style={[styles.row, styles.wrap]}>
+              {page.totals.map(t => (
+                <View key={t.label} style={[styles.highlight, { width: s(PDF_CONTENT_WIDTH / 3), marginBottom: s(20) }]}>
+                  <Text style={[styles.highlightValue, { fontSize: s(26) }]}>{t.value}</Text>
+                  <Text style={[styles.muted, { fontSize: s(11) }]}>{t.label}</Text>
+                </View>
+              ))}
+            </View>
+
+            <Text style={[styles.sectionTitle, { fontSize: s(14), marginTop: s(8), marginBottom: s(8) }]}>Ratings</Text>
+            {page.ratings.map((count, i) => (
+              <View key={i} style={[styles.row, { alignItems: 'center', marginBottom: s(6) }]}>
+                <Image source={EMOJI_RATINGS[i].active} style={{ width: s(22), height: s(22) }} resizeMode="contain" />
+                <View
+                  style={[styles.plank, {
+                    width: s(((PDF_CONTENT_WIDTH - 80) * count) / maxRating),
+                    height: s(12),
+                    marginLeft: s(10),
+                    borderRadius: s(3),
+                  }]}
+                />
+                <Text style={[styles.muted, { fontSize: s(11), marginLeft: s(8) }]}>{count}</Text>
+              </View>
+            ))}
+
+            <View style={[styles.row, { marginTop: s(20) }]}>
+              {[
+                { heading: 'Top cuisines', items: page.topCuisines },
+                { heading: 'Top cities', items: page.topCities },
+              ].map(list => (
+                <View key={list.heading} style={{ width: s(PDF_CONTENT_WIDTH / 2) }}>
+                  <Text style={[styles.sectionTitle, { fontSize: s(14), marginBottom: s(6) }]}>{list.heading}</Text>
+                  {list.items.map(item => (
+                    <Text key={item.name} style={[styles.ink, { fontSize: s(12), paddingVertical: s(2) }]}>
+                      {item.name} <Text style={styles.muted}>({item.count})</Text>
+                    </Text>
+                  ))}
+                </View>
+              ))}
+            </View>
+
+            <Text style={[styles.muted, { fontSize: s(11), marginTop: s(24) }]}>
+              First meal {formatDate(page.firstMeal)} · Latest {formatDate(page.latestMeal)}
+            </Text>
+          </View>
+        );
+      }
+    }
+  };
+
+  return (
+    <View style={[styles.page, { width: s(PDF_PAGE_SIZE.width), height: s(PDF_PAGE_SIZE.height) }]}>
+      {title && (
+        <View style={[styles.absolute, styles.header, { top: s(PDF_MARGIN), left: s(PDF_MARGIN), width: s(PDF_CONTENT_WIDTH) }]}>
+          <Text style={[styles.headerTitle, { fontSize: s(20) }]}>{title}</Text>
+          <Text style={[styles.muted, { fontSize: s(10) }]}>FORKFUL FOOD PASSPORT</Text>
+        </View>
+      )}
+      {renderBody()}
+      <Text
+        style={[styles.absolute, styles.muted, styles.pageNumber, {
+          bottom: s(PDF_MARGIN),
+          left: s(PDF_MARGIN),
+          width: s(PDF_CONTENT_WIDTH),
+          fontSize: s(10),
+        }]}
+      >
+        {page.number} / {totalPages}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  page: {
+    backgroundColor: '#FFFDF8',
+    overflow: 'hidden',
+  },
+  absolute: {
+    position: 'absolute',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.mediumGray,
+    paddingBottom: 6,
+  },
+  headerTitle: {
+    fontWeight: '700',
+    color: INK,
+  },
+  cover: {
+    position: 'absolute',
+    alignItems: 'center',
+  },
+  coverTitle: {
+    fontWeight: '800',
+    color: INK,
+    textAlign: 'center',
+  },
+  cityBody: {
+    alignItems: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  wrap: {
+    flexWrap: 'wrap',
+  },
+  centerRow: {
+    justifyContent: 'center',
+  },
+  spaceBetween: {
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  highlight: {
+    alignItems: 'center',
+  },
+  highlightValue: {
+    fontWeight: '800',
+    color: colors.warmTaupe,
+  },
+  plank: {
+    backgroundColor: PLANK_COLOR,
+  },
+  sectionTitle: {
+    fontWeight: '700',
+    color: INK,
+  },
+  ink: {
+    color: INK,
+  },
+  muted: {
+    color: colors.textSecondary,
+  },
+  pageNumber: {
+    textAlign: 'center',
+  },
+});
+
+export default PassportPdfPage;
@@ -0,0 +1,138 @@
+/**
+ * PeopleLikeYouCarousel
+ * "People like you also loved" strip for the Home feed: dishes (then
+ * restaurants) that the viewer's most similar users rated 5+ and the
+ * viewer hasn't logged. Data is precomputed server-side; see
+ * services/recommendationService.ts.
+ *
+ * Tapping a card opens the neighbour meal it was built from. Renders
+ * nothing until there's at least one recommendation.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image } from 'react-native';
+import { colors, typography, spacing } from '../themes';
+import { useRecommendations } from '../utils/useRecommendations';
+
+interface Props {
+  userId: string | null | undefined;
+  onMealPress: (meal: { id: string }) => void;
+  maxItems?: number;
+}
+
+interface CardItem {
+  key: string;
+  title: string;
+  subtitle: string;
+  supporters: number;
+  mealId: string | null;
+  photoUrl: string | null;
+}
+
+const PeopleLikeYouCarousel: React.FC<Props> = ({ userId, onMealPress, maxItems = 10 }) => {
+  const { recommendations, loading } = useRecommendations(userId);
+
+  const items: CardItem[] = [
+    ...recommendations.dishes.map(d => ({
+      key: d.key,
+      title: d.dish,
+      subtitle: d.restaurant,
+      supporters: d.supporters,
+      mealId: d.meal_id,
+      photoUrl: d.photo_url,
+    })),
+    ...recommendations.restaurants.map(r => ({
+      key: r.key,
+      title: r.name,
+      subtitle: r.city || '',
+      supporters: r.supporters,
+      mealId: r.meal_id,
+      photoUrl: r.photo_url,
+    })),
+  ].slice(0, maxItems);
+
+  if (loading || items.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>People like you also loved</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.scrollContent}
+      >
+        {items.map(item => (
+          <TouchableOpacity
+            key={item.key}
+            style={styles.card}
+            onPress={() => item.mealId && onMealPress({ id: item.mealId })}
+            disabled={!item.mealId}
+            activeOpacity={0.8}
+          >
+            {item.photoUrl ? (
+              <Image source={{ uri: item.photoUrl }} style={styles.photo} />
+            ) : (
+              <View style={[styles.photo, styles.photoPlaceholder]} />
+            )}
+            <Text style={styles.cardTitle} numberOfLines={1}>{item.title}</Text>
+            {!!item.subtitle && (
+              <Text style={styles.cardSubtitle} numberOfLines={1}>{item.subtitle}</Text>
+            )}
+            <Text style={styles.supporters}>
+              {item.supporters} {item.supporters === 1 ? 'fan' : 'fans'} like you
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingTop: spacing.sm,
+    paddingBottom: spacing.md,
+  },
+  title: {
+    ...typography.bodySmall,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  scrollContent: {
+    paddingHorizontal: spacing.sm,
+  },
+  card: {
+    width: 120,
+    marginHorizontal: spacing.xs,
+  },
+  photo: {
+    width: 120,
+    height: 90,
+    borderRadius: 10,
+    backgroundColor: colors.lightTan,
+    marginBottom: 4,
+  },
+  photoPlaceholder: {
+    borderWidth: 1,
+    borderColor: colors.warmTaupe,
+  },
+  cardTitle: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  cardSubtitle: {
+    ...typography.bodySmall,
+    fontSize: 11,
+    color: colors.textSecondary,
+  },
+  supporters: {
+    fontSize: 10,
+    color: colors.warmTaupe,
+    marginTop: 2,
+  },
+});
+
+export default PeopleLikeYouCarousel;
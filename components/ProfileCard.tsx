@@ -4,6 +4,7 @@ import { auth } from '../firebaseConfig';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 // Import theme
 import { colors, typography, spacing, shadows } from '../themes';
+import type { StreakSummary } from '../utils/streaks';
 
 interface ProfileCardProps {
   userProfile: {
@@ -17,6 +18,7 @@ interface ProfileCardProps {
     badgeCount?: number;
     followersCount?: number;
     totalCheers?: number;
+    streaks?: StreakSummary | null;
   };
   isOwnProfile: boolean;
   onSignOut?: () => void;
@@ -63,6 +65,25 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
     return rating.toFixed(1);
   };
 
+  // Celebrate a streak, never nag about a missing one: nothing under 2
+  const renderStreak = () => {
+    const streaks = profileStats.streaks;
+    if (!streaks) return null;
+    const { daily, weekly } = streaks;
+    const label = daily.current >= 2 ? `${daily.current}-day streak`
+      : weekly.current >= 2 ? `${weekly.current}-week streak`
+      : null;
+    if (!label) return null;
+    return (
+      <View style={styles.streakRow}>
+        <Text style={styles.streakText}>🔥 {label}</Text>
+        {isOwnProfile && daily.freezesAvailable > 0 && (
+          <Text style={styles.streakFreezeText}>❄️ {daily.freezesAvailable}</Text>
+        )}
+      </View>
+    );
+  };
+
   return (
     <View style={styles.profileCard}>
       <View style={styles.profileRow}>        
@@ -77,6 +98,7 @@ const ProfileCard: React.FC<ProfileCardProps> = ({
             <Text style={styles.statSeparator}>•</Text>
             <Text style={styles.statText}>{profileStats.totalCheers || 0} cheers</Text>
           </View>
+          {renderStreak()}
         </View>
 
         <View style={styles.rightSideContainer}>
@@ -187,6 +209,26 @@ const styles = StyleSheet.create({
     color: colors.mediumGray,
     marginHorizontal: spacing.xs,
   },
+  streakRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 4,
+    paddingHorizontal: spacing.xs,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: colors.lightTan,
+  },
+  streakText: {
+    ...typography.bodySmall,
+    color: colors.warmTaupe,
+    fontWeight: '500',
+  },
+  streakFreezeText: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    marginLeft: spacing.xs,
+  },
   signOutButton: {
     backgroundColor: 'rgba(255, 255, 255, 0.3)',
     borderRadius: 8,
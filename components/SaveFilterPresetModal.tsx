@@ -0,0 +1,151 @@
+/**
+ * SaveFilterPresetModal
+ * Names the current filter combination so it can be saved as a preset.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { colors } from '../themes';
+
+interface Props {
+  visible: boolean;
+  summary: string; // e.g. "Thai · Spicy · 5+"
+  onClose: () => void;
+  onSave: (name: string) => void;
+}
+
+const SaveFilterPresetModal: React.FC<Props> = ({ visible, summary, onClose, onSave }) => {
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      Alert.alert('Enter a name', 'Preset name cannot be empty.');
+      return;
+    }
+    onSave(trimmed);
+    setName('');
+    onClose();
+  };
+
+  const handleClose = () => {
+    setName('');
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="none" onRequestClose={handleClose}>
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={handleClose}
+      >
+        <TouchableOpacity activeOpacity={1} onPress={e => e.stopPropagation()} style={styles.card}>
+          <Text style={styles.title}>Save Filters</Text>
+          {!!summary && <Text style={styles.summary} numberOfLines={2}>{summary}</Text>}
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., Date night, Cheap eats"
+            placeholderTextColor="#999"
+            value={name}
+            onChangeText={setName}
+            autoFocus
+            maxLength={40}
+          />
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={handleClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+              <Text style={styles.saveText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: 12,
+    padding: 20,
+    width: '85%',
+    maxWidth: 340,
+  },
+  title: {
+    fontFamily: 'Inter',
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 6,
+  },
+  summary: {
+    fontFamily: 'Inter',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  input: {
+    fontFamily: 'Inter',
+    fontSize: 15,
+    color: colors.textPrimary,
+    borderWidth: 1,
+    borderColor: colors.mediumGray,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginTop: 10,
+    marginBottom: 20,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+  },
+  cancelButton: {
+    backgroundColor: 'transparent',
+    borderWidth: 2,
+    borderColor: '#999',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  cancelText: {
+    fontFamily: 'Inter',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#999',
+  },
+  saveButton: {
+    backgroundColor: 'transparent',
+    borderWidth: 2,
+    borderColor: '#5B8A72',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  saveText: {
+    fontFamily: 'Inter',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#5B8A72',
+  },
+});
+
+export default SaveFilterPresetModal;
@@ -12,30 +12,45 @@ import {
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { firestore } from '../firebaseConfig';
+import {
+  parsePassportQuery,
+  isStructuredQuery,
+  getQuerySuggestions,
+  describeQueryFilter,
+} from '../utils/passportQuery';
 
 export interface FilterItem {
   type: string;
   value: string;
   userId?: string; // For user search results
   userPhoto?: string; // For user search results
+  negate?: boolean; // Structured query "-field:value" — keep meals that DON'T match
+  anyOf?: FilterItem[]; // type 'or': matches when any alternative does
 }
 
 interface SimpleFilterComponentProps {
   onFilterChange: (filters: FilterItem[] | null) => void;
   initialFilters?: FilterItem[] | null;
   onUserSelect?: (userId: string, userName: string, userPhoto?: string) => void; // For user navigation
+  onRatingFilterChange?: (ratings: number[] | null) => void; // For "rating>=5" in structured queries
 }
 
+// Dropdown rows. Structured-query rows reuse the FilterItem shape:
+// 'query' applies the typed query, 'querySuggestion' carries the completed
+// query text in `value`, 'queryError' is a non-selectable parse error.
+type DropdownOption = FilterItem & { label?: string; detail?: string };
+
 const SimpleFilterComponent: React.FC<SimpleFilterComponentProps> = ({
   onFilterChange,
   initialFilters = null,
-  onUserSelect
+  onUserSelect,
+  onRatingFilterChange
 }) => {
   // States
   const [searchText, setSearchText] = useState('');
   const [showDropdown, setShowDropdown] = useState(false);
   const [filterOptions, setFilterOptions] = useState<FilterItem[]>([]);
-  const [dropdownOptions, setDropdownOptions] = useState<FilterItem[]>([]);
+  const [dropdownOptions, setDropdownOptions] = useState<DropdownOption[]>([]);
   const [loading, setLoading] = useState(false);
   const [activeFilters, setActiveFilters] = useState<FilterItem[]>(initialFilters || []);
 
@@ -424,9 +439,43 @@ const SimpleFilterComponent: React.FC<SimpleFilterComponentProps> = ({
     }
   };
 
+  // Values already extracted from meals, keyed by filter type — feeds
+  // autocomplete for open-vocabulary query fields (cuisine:, city:, ...)
+  const getOpenQueryValues = () => {
+    const byType: Record<string, string[]> = {};
+    filterOptions.forEach(option => {
+      (byType[option.type] = byType[option.type] || []).push(option.value);
+    });
+    return byType;
+  };
+
+  // Dropdown for structured queries: parse errors, completions, then "apply"
+  const getStructuredOptions = (): DropdownOption[] => {
+    const parsed = parsePassportQuery(searchText);
+    const errors: DropdownOption[] = parsed.errors.map(error => ({
+      type: 'queryError',
+      value: error.message,
+    }));
+    const suggestions: DropdownOption[] = getQuerySuggestions(searchText, getOpenQueryValues()).map(s => ({
+      type: 'querySuggestion',
+      value: s.query,
+      label: s.label,
+      detail: s.detail,
+    }));
+    const hasCriteria = parsed.filters.length > 0 || !!parsed.ratingFilters;
+    const apply: DropdownOption[] = hasCriteria
+      ? [{ type: 'query', value: searchText.trim(), label: `Apply "${searchText.trim()}"` }]
+      : [];
+    return [...errors, ...suggestions, ...apply];
+  };
+
   // Filter options based on search text
-  const getFilteredOptions = async () => {
+  const getFilteredOptions = async (): Promise<DropdownOption[]> => {
     if (!searchText) return [];
+
+    if (isStructuredQuery(searchText)) {
+      return getStructuredOptions();
+    }
     
     // Get regular filter options
     const regularOptions = filterOptions.filter(option => 
@@ -448,12 +497,54 @@ const SimpleFilterComponent: React.FC<SimpleFilterComponentProps> = ({
       value: searchText.trim(),
     };
 
+    // Hint at the query syntax when the word being typed starts a field name
+    const fieldHints: DropdownOption[] = searchText.trim().length >= 3
+      ? getQuerySuggestions(searchText).slice(0, 2).map(s => ({
+          type: 'querySuggestion',
+          value: s.query,
+          label: s.label,
+          detail: s.detail,
+        }))
+      : [];
+
     // Combine and return
-    return [textSearchOption, ...userResults, ...regularOptions];
+    return [textSearchOption, ...fieldHints, ...userResults, ...regularOptions];
+  };
+
+  // Apply a structured query: its filters join the active ones, and any
+  // rating constraint replaces the rating filter selection.
+  const applyStructuredQuery = (query: string) => {
+    const parsed = parsePassportQuery(query);
+    const newFilters = [...activeFilters];
+    parsed.filters.forEach(filter => {
+      const exists = newFilters.some(
+        f => f.type === filter.type && f.value === filter.value && !!f.negate === !!filter.negate
+      );
+      if (!exists) newFilters.push(filter);
+    });
+    console.log('Applying structured query:', query, JSON.stringify(parsed));
+    setActiveFilters(newFilters);
+    onFilterChange(newFilters.length > 0 ? newFilters : null);
+    if (parsed.ratingFilters && onRatingFilterChange) {
+      onRatingFilterChange(parsed.ratingFilters);
+    }
+    setSearchText('');
+    setShowDropdown(false);
   };
 
   // Handle option selection - now adds to the list of active filters
-  const handleSelectOption = (option: FilterItem) => {
+  const handleSelectOption = (option: DropdownOption) => {
+    // Structured-query rows
+    if (option.type === 'queryError') return;
+    if (option.type === 'querySuggestion') {
+      setSearchText(option.value);
+      return;
+    }
+    if (option.type === 'query') {
+      applyStructuredQuery(option.value);
+      return;
+    }
+
     // Handle user selection differently
     if (option.type === 'user' && option.userId && onUserSelect) {
       console.log('User selected:', option.value, option.userId, 'Photo:', option.userPhoto);
@@ -484,7 +575,11 @@ const SimpleFilterComponent: React.FC<SimpleFilterComponentProps> = ({
   const handleRemoveFilter = (filterToRemove: FilterItem) => {
     console.log('Removing filter:', filterToRemove);
     const newFilters = activeFilters.filter(
-      filter => !(filter.type === filterToRemove.type && filter.value === filterToRemove.value)
+      filter => !(
+        filter.type === filterToRemove.type &&
+        filter.value === filterToRemove.value &&
+        !!filter.negate === !!filterToRemove.negate
+      )
     );
     
     console.log('Remaining filters after removal:', newFilters);
@@ -516,6 +611,13 @@ const SimpleFilterComponent: React.FC<SimpleFilterComponentProps> = ({
               setShowDropdown(true);
             }
           }}
+          onSubmitEditing={() => {
+            if (isStructuredQuery(searchText)) {
+              applyStructuredQuery(searchText);
+            }
+          }}
+          autoCapitalize="none"
+          autoCorrect={false}
         />
         {searchText ? (
           <TouchableOpacity
@@ -544,6 +646,7 @@ const SimpleFilterComponent: React.FC<SimpleFilterComponentProps> = ({
                     styles.optionItem,
                     item.type === 'user' && styles.userOptionItem
                   ]}
+                  disabled={item.type === 'queryError'}
                   onPress={() => handleSelectOption(item)}
                 >
                   <View style={styles.optionContent}>
@@ -554,8 +657,11 @@ const SimpleFilterComponent: React.FC<SimpleFilterComponentProps> = ({
                         resizeMode="contain"
                       />
                     )}
-                    <Text style={styles.optionText}>
-                      {item.type === 'text' ? `Search for "${item.value}"` : item.value}
+                    <Text
+                      style={[styles.optionText, item.type === 'queryError' && styles.queryErrorText]}
+                      numberOfLines={2}
+                    >
+                      {item.type === 'text' ? `Search for "${item.value}"` : item.label || item.value}
                     </Text>
                   </View>
                   <Text style={styles.optionType}>
@@ -575,7 +681,10 @@ const SimpleFilterComponent: React.FC<SimpleFilterComponentProps> = ({
                      item.type === 'richness' ? 'Richness' :
                      item.type === 'protein' ? 'Protein' :
                      item.type === 'carb' ? 'Carb' :
-                     item.type === 'text' ? 'Search' : item.type}
+                     item.type === 'text' ? 'Search' :
+                     item.type === 'query' ? 'Query' :
+                     item.type === 'querySuggestion' ? item.detail || 'Field' :
+                     item.type === 'queryError' ? 'Error' : item.type}
                   </Text>
                 </TouchableOpacity>
               )}
@@ -602,7 +711,7 @@ const SimpleFilterComponent: React.FC<SimpleFilterComponentProps> = ({
                   <Text style={styles.filterAndText}>and</Text>
                 )}
                 <View style={styles.filterBadge}>
-                  <Text style={styles.filterBadgeText}>{filter.value}</Text>
+                  <Text style={styles.filterBadgeText}>{describeQueryFilter(filter)}</Text>
                   <TouchableOpacity
                     style={styles.filterBadgeCloseButton}
                     onPress={() => handleRemoveFilter(filter)}
@@ -698,6 +807,10 @@ const styles = StyleSheet.create({
     color: '#333',
     fontFamily: 'Inter-Regular',
   },
+  queryErrorText: {
+    color: '#d9534f',
+    fontSize: 13,
+  },
   optionType: {
     fontSize: 12,
     color: '#999',
@@ -0,0 +1,442 @@
+/**
+ * StoryCardModal
+ * Preview + share sheet for story cards (utils/storyCard.ts). The card is
+ * laid out at 9:16 and captured with react-native-view-shot at 1080×1920,
+ * then shared as an image file (utils/shareLocalFile) with the deep link
+ * in the message. Users pick a template and can hide the Forkful
+ * watermark; the link line always stays so the card leads back to the app.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  Dimensions,
+} from 'react-native';
+import ViewShot from 'react-native-view-shot';
+import { colors, typography, spacing, shadows } from '../themes';
+import { EMOJI_RATINGS } from './EmojiRating';
+import {
+  STORY_CARD_TEMPLATES,
+  StoryCardData,
+  StoryCardTemplate,
+  displayLink,
+  storyCardMessage,
+} from '../utils/storyCard';
+import { shareLocalFile } from '../utils/shareLocalFile';
+
+interface Props {
+  visible: boolean;
+  card: StoryCardData | null;
+  onClose: () => void;
+}
+
+const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
+// Leave room for the template picker and share button under the preview
+const CARD_HEIGHT = Math.min(SCREEN_HEIGHT * 0.62, ((SCREEN_WIDTH - 64) * 16) / 9);
+const CARD_WIDTH = (CARD_HEIGHT * 9) / 16;
+const CAPTURE_OPTIONS = { format: 'png' as const, quality: 1, width: 1080, height: 1920 };
+
+const RatingFace: React.FC<{ rating: number; light?: boolean }> = ({ rating, light }) => {
+  const face = EMOJI_RATINGS[Math.min(Math.max(Math.round(rating), 1), EMOJI_RATINGS.length) - 1];
+  return (
+    <View style={styles.ratingRow}>
+      <Image source={face.active} style={styles.ratingFace} resizeMode="contain" />
+      <Text style={[styles.ratingText, light && styles.lightText]}>{face.name === 'thebest' ? 'the best' : face.name}</Text>
+    </View>
+  );
+};
+
+const CardFooter: React.FC<{ card: StoryCardData; watermark: boolean; light?: boolean }> = ({ card, watermark, light }) => (
+  <View style={styles.footer}>
+    {watermark && (
+      <Image
+        source={require('../assets/forkful_logos/forkful_logo_cursive2.png')}
+        style={[styles.watermark, light && styles.watermarkLight]}
+        resizeMode="contain"
+      />
+    )}
+    <Text style={[styles.link, light && styles.lightMuted]} numberOfLines={1}>{displayLink(card.link)}</Text>
+  </View>
+);
+
+const CardText: React.FC<{ card: StoryCardData; light?: boolean }> = ({ card, light }) => (
+  <>
+    <Text style={[styles.label, light && styles.lightMuted]}>{card.label.toUpperCase()}</Text>
+    <Text style={[styles.title, light && styles.lightText]} numberOfLines={3}>{card.title}</Text>
+    {card.subtitle ? (
+      <Text style={[styles.subtitle, light && styles.lightText]} numberOfLines={2}>{card.subtitle}</Text>
+    ) : null}
+    {card.city ? <Text style={[styles.city, light && styles.lightMuted]}>📍 {card.city}</Text> : null}
+    {card.rating ? <RatingFace rating={card.rating} light={light} /> : null}
+  </>
+);
+
+/** The card itself, at preview size. Exported for screens that embed it. */
+export const StoryCard: React.FC<{ card: StoryCardData; template: StoryCardTemplate; watermark: boolean }> = ({
+  card,
+  template,
+  watermark,
+}) => {
+  if (template === 'photo' && card.photoUrl) {
+    return (
+      <View style={[styles.card, styles.photoCard]}>
+        <Image source={{ uri: card.photoUrl }} style={StyleSheet.absoluteFill} resizeMode="cover" />
+        <View style={styles.photoShade} />
+        <View style={styles.photoBody}>
+          {card.pixelArtUrls[0] ? (
+            <Image source={{ uri: card.pixelArtUrls[0] }} style={styles.photoPixel} resizeMode="contain" />
+          ) : null}
+          <CardText card={card} light />
+          <CardFooter card={card} watermark={watermark} light />
+        </View>
+      </View>
+    );
+  }
+
+  if (template === 'pixel' || (template === 'photo' && !card.photoUrl)) {
+    const [hero, ...rest] = card.pixelArtUrls;
+    return (
+      <View style={[styles.card, styles.pixelCard]}>
+        <View style={styles.pixelHero}>
+          {hero ? (
+            <Image source={{ uri: hero }} style={styles.pixelHeroImage} resizeMode="contain" />
+          ) : card.photoUrl ? (
+            <Image source={{ uri: card.photoUrl }} style={styles.pixelHeroPhoto} resizeMode="cover" />
+          ) : null}
+          {rest.length > 0 && (
+            <View style={styles.pixelStrip}>
+              {rest.slice(0, 5).map((url, index) => (
+                <Image key={index} source={{ uri: url }} style={styles.pixelStripImage} resizeMode="contain" />
+              ))}
+            </View>
+          )}
+        </View>
+        <CardText card={card} />
+        <CardFooter card={card} watermark={watermark} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.card, styles.minimalCard]}>
+      <View style={styles.minimalBody}>
+        {card.photoUrl ? (
+          <Image source={{ uri: card.photoUrl }} style={styles.minimalPhoto} resizeMode="cover" />
+        ) : card.pixelArtUrls[0] ? (
+          <Image source={{ uri: card.pixelArtUrls[0] }} style={styles.minimalPixel} resizeMode="contain" />
+        ) : null}
+        <CardText card={card} />
+      </View>
+      <CardFooter card={card} watermark={watermark} />
+    </View>
+  );
+};
+
+const StoryCardModal: React.FC<Props> = ({ visible, card, onClose }) => {
+  const [template, setTemplate] = useState<StoryCardTemplate>('photo');
+  const [watermark, setWatermark] = useState(true);
+  const [sharing, setSharing] = useState(false);
+  const shotRef = useRef<ViewShot>(null);
+
+  // Start each card on the template that suits what it has to show
+  useEffect(() => {
+    if (card) setTemplate(card.photoUrl ? 'photo' : 'pixel');
+  }, [card]);
+
+  if (!card) return null;
+
+  const handleShare = async () => {
+    if (!shotRef.current?.capture) return;
+    try {
+      setSharing(true);
+      const uri = await shotRef.current.capture();
+      await shareLocalFile(uri, 'image/png', { message: storyCardMessage(card) });
+    } catch (error) {
+      console.error('Error sharing story card:', error);
+      Alert.alert('Error', 'Failed to share this card');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Share card</Text>
+          <View style={styles.headerButton} />
+        </View>
+
+        <View style={styles.preview}>
+          <ViewShot ref={shotRef} options={CAPTURE_OPTIONS}>
+            <StoryCard card={card} template={template} watermark={watermark} />
+          </ViewShot>
+        </View>
+
+        <View style={styles.templates}>
+          {STORY_CARD_TEMPLATES.map(t => (
+            <TouchableOpacity
+              key={t.id}
+              style={[styles.templateChip, template === t.id && styles.templateChipActive]}
+              onPress={() => setTemplate(t.id)}
+            >
+              <Text style={[styles.templateText, template === t.id && styles.templateTextActive]}>{t.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.watermarkRow}>
+          <Text style={styles.watermarkLabel}>Forkful watermark</Text>
+          <Switch
+            value={watermark}
+            onValueChange={setWatermark}
+            trackColor={{ false: colors.mediumGray, true: colors.warmTaupe }}
+          />
+        </View>
+
+        <TouchableOpacity style={styles.shareButton} onPress={handleShare} disabled={sharing}>
+          {sharing ? (
+            <ActivityIndicator size="small" color={colors.white} />
+          ) : (
+            <Text style={styles.shareText}>Share</Text>
+          )}
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.lightTan,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerButton: {
+    width: 70,
+  },
+  cancelText: {
+    ...typography.bodyMedium,
+    color: colors.textSecondary,
+  },
+  headerTitle: {
+    ...typography.bodyLarge,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  preview: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+  },
+  // === Card ===
+  card: {
+    width: CARD_WIDTH,
+    height: CARD_HEIGHT,
+    borderRadius: 16,
+    overflow: 'hidden',
+    ...shadows.medium,
+  },
+  photoCard: {
+    backgroundColor: colors.textPrimary,
+    justifyContent: 'flex-end',
+  },
+  photoShade: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: '55%',
+    backgroundColor: 'rgba(0, 0, 0, 0.45)',
+  },
+  photoBody: {
+    padding: spacing.lg,
+  },
+  photoPixel: {
+    width: 56,
+    height: 56,
+    marginBottom: spacing.sm,
+  },
+  pixelCard: {
+    backgroundColor: colors.lightTan,
+    padding: spacing.lg,
+    justifyContent: 'flex-end',
+  },
+  pixelHero: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pixelHeroImage: {
+    width: '70%',
+    aspectRatio: 1,
+  },
+  pixelHeroPhoto: {
+    width: '80%',
+    aspectRatio: 1,
+    borderRadius: 12,
+  },
+  pixelStrip: {
+    flexDirection: 'row',
+    marginTop: spacing.sm,
+  },
+  pixelStripImage: {
+    width: 32,
+    height: 32,
+    marginHorizontal: 2,
+  },
+  minimalCard: {
+    backgroundColor: colors.white,
+    padding: spacing.lg,
+    justifyContent: 'space-between',
+  },
+  minimalBody: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  minimalPhoto: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 8,
+    marginBottom: spacing.md,
+  },
+  minimalPixel: {
+    width: 80,
+    height: 80,
+    marginBottom: spacing.md,
+  },
+  label: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    letterSpacing: 1,
+  },
+  title: {
+    ...typography.h2,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+    marginTop: 4,
+  },
+  subtitle: {
+    ...typography.bodyMedium,
+    color: colors.textPrimary,
+    marginTop: 2,
+  },
+  city: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  lightText: {
+    color: colors.white,
+  },
+  lightMuted: {
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.xs,
+  },
+  ratingFace: {
+    width: 28,
+    height: 28,
+    marginRight: 6,
+  },
+  ratingText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    textTransform: 'capitalize',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: spacing.md,
+  },
+  watermark: {
+    width: 72,
+    height: 24,
+  },
+  watermarkLight: {
+    tintColor: colors.white,
+  },
+  link: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginLeft: 'auto',
+    flexShrink: 1,
+  },
+  // === Controls ===
+  templates: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  templateChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.mediumGray,
+    marginHorizontal: 4,
+    backgroundColor: colors.white,
+  },
+  templateChipActive: {
+    backgroundColor: colors.warmTaupe,
+    borderColor: colors.warmTaupe,
+  },
+  templateText: {
+    ...typography.bodySmall,
+    color: colors.textPrimary,
+  },
+  templateTextActive: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+  watermarkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+  },
+  watermarkLabel: {
+    ...typography.bodyMedium,
+    color: colors.textPrimary,
+  },
+  shareButton: {
+    backgroundColor: colors.warmTaupe,
+    borderRadius: 24,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+  },
+  shareText: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.white,
+  },
+});
+
+export default StoryCardModal;
@@ -0,0 +1,91 @@
+/**
+ * TasteMatchExplanation
+ * "Why you'd like this" copy for a meal, built from explainTasteMatch:
+ * the viewer's favourite tags this meal hits, and any avoid-listed tags it
+ * carries. `compact` renders just the headline line for feed cards;
+ * the full variant (MealDetailScreen) adds the score and the caution line.
+ *
+ * Renders nothing when the profile is locked/missing or there's nothing
+ * positive to say — no negative-only framing.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors, typography, spacing } from '../themes';
+import { TasteMatchExplanation as Explanation, describeTasteMatch } from '../utils/tasteMatch';
+
+interface Props {
+  explanation: Explanation | null;
+  compact?: boolean;
+  style?: any;
+}
+
+const TasteMatchExplanation: React.FC<Props> = ({ explanation, compact = false, style }) => {
+  const { headline, caution } = describeTasteMatch(explanation);
+  if (!explanation || !headline) return null;
+
+  if (compact) {
+    return (
+      <Text style={[styles.compactText, style]} numberOfLines={1}>
+        {headline}
+      </Text>
+    );
+  }
+
+  return (
+    <View style={[styles.card, style]}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Why you'd like this</Text>
+        <Text style={styles.score}>{explanation.score}% match</Text>
+      </View>
+      <Text style={styles.headline}>{headline}</Text>
+      {caution && <Text style={styles.caution}>{caution}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  compactText: {
+    ...typography.bodySmall,
+    fontSize: 11,
+    color: colors.warmTaupe,
+    marginTop: 2,
+  },
+  card: {
+    backgroundColor: colors.lightTan,
+    borderWidth: 1,
+    borderColor: colors.warmTaupe,
+    borderRadius: 10,
+    padding: spacing.sm,
+    marginVertical: spacing.xs,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.warmTaupe,
+    letterSpacing: 0.2,
+  },
+  score: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.warmTaupe,
+  },
+  headline: {
+    ...typography.bodySmall,
+    color: colors.textPrimary,
+  },
+  caution: {
+    ...typography.bodySmall,
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
+
+export default TasteMatchExplanation;
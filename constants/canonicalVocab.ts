@@ -79,6 +79,52 @@ export const DISCOVERY_VALUES = {
   textures: [...CANONICAL_VOCAB.texture],
 } as const;
 
+/**
+ * Everyday words users type → the canonical values they mean. Used by
+ * utils/mealSearch to expand query terms. Keys are lowercase single tokens;
+ * values must appear in CANONICAL_VOCAB.
+ */
+export const VOCAB_SYNONYMS: Record<string, readonly string[]> = {
+  spicy: ['mild', 'medium', 'hot', 'very-hot'],
+  veggie: ['vegetarian'],
+  meatless: ['vegetarian'],
+  'plant-based': ['vegan'],
+  gf: ['gluten-free'],
+  celiac: ['gluten-free'],
+  'lactose-free': ['dairy-free'],
+  booze: ['contains-alcohol'],
+  boozy: ['contains-alcohol'],
+  garlic: ['garlicky'],
+  cheese: ['cheesy'],
+  butter: ['buttery'],
+  smoked: ['smoky'],
+  bbq: ['smoky', 'grilled'],
+  barbecue: ['smoky', 'grilled'],
+  crunch: ['crunchy', 'crispy'],
+  crisp: ['crispy'],
+  seafood: ['fish', 'shellfish'],
+  shrimp: ['shellfish'],
+  prawn: ['shellfish'],
+  crab: ['shellfish'],
+  lobster: ['shellfish'],
+  salmon: ['fish'],
+  tuna: ['fish'],
+  steak: ['beef'],
+  bacon: ['pork'],
+  noodle: ['noodles'],
+  ramen: ['noodles'],
+  pasta: ['noodles'],
+  fries: ['potato', 'fried'],
+  deep: ['fried'],
+  sandwich: ['bread', 'handheld'],
+  burger: ['beef', 'handheld'],
+  taco: ['tortilla', 'handheld'],
+  burrito: ['tortilla', 'handheld'],
+  sushi: ['rice', 'fish', 'raw'],
+  sashimi: ['fish', 'raw'],
+  hearty: ['rich', 'heavy'],
+};
+
 /**
  * Humanize a canonical value for display (lowercased canonical → Title Case).
  * "high-protein" → "High Protein", "very-hot" → "Very Hot"
@@ -0,0 +1,419 @@
+/**
+ * Account deletion — removes everything a user owns, everywhere.
+ *
+ * The client asks for deletion by setting `deletionRequestedAt` on its own
+ * user doc (services/accountDeletionService.ts); onAccountDeletionRequested
+ * runs the cascade below and finally deletes the Auth user. An admin can run
+ * the same cascade with scripts/deleteUserAccount.js, and
+ * scripts/accountDeletionEmulator.js exercises it against the emulator.
+ *
+ * What happens to what:
+ *   mealEntries (own)            deleted with comments / cheers / edits under them
+ *   comments on others' meals    deleted; a top-level comment that other people
+ *                                replied to is anonymized instead so the thread
+ *                                survives. Edit history goes either way.
+ *   reactions on others' comments removed
+ *   cheers on others' meals      deleted
+ *   follow edges                 both directions; the mirror doc on the other
+ *                                user goes too
+ *   notifications                to the user and from the user
+ *   others' savedMeals copies    of the user's meals
+ *   userAchievements (legacy)    deleted
+ *   iconic_claims                deleted, moderation record included
+ *   leaderboards                 entry removed from every board
+ *   users/{uid}                  deleted with every subcollection
+ *   Storage                      meal_photos/, meals/, pixel_art/, users/ and
+ *                                shared_maps/ under the uid
+ *
+ * Counters on docs that stay are decremented in step: cheersCount on meals,
+ * followersCount / followingCount on users. Comment and reaction counters
+ * follow the deletes through onCommentWritten (functions/comments.js).
+ *
+ * Mentions of the user inside other people's comment text are left as
+ * typed, and other users' recommendations drop the user on the next nightly
+ * run. In production the collection-group queries need single-field
+ * exemptions (collection group scope) on comments.userId,
+ * comments.reactorIds, cheers.userId and savedMeals.userId.
+ *
+ * Steps run in ACCOUNT_DELETION_STEPS order and the first error stops the
+ * run (runSteps). The user doc goes last but for the Auth user and only
+ * after every other step succeeded, so a failed run leaves its follow lists
+ * and deletion flag for the retry. Own follow docs are removed with their
+ * mirrors, so a retry never decrements the other side twice. Every step
+ * re-queries what is left, so a failed run is retried by running it again:
+ * when the user asks again (a new deletionRequestedAt) or from
+ * retryAccountDeletions, nightly, up to MAX_ATTEMPTS runs.
+ *
+ * Data model:
+ *   account_deletions/{uid} {
+ *     userId, dryRun, status: 'complete' | 'failed', attempts,
+ *     startedAt, finishedAt,
+ *     deleted: {meals, comments, reactions, cheers, following, followers,
+ *               notifications, savedMeals, legacyAchievements, iconicClaims,
+ *               storageFiles},
+ *     anonymized: {comments},
+ *     decremented: {meals, users},
+ *     userSubcollections[], leaderboards, authUserDeleted, errors[]
+ *   }
+ */
+
+const {onDocumentUpdated} = require('firebase-functions/v2/firestore');
+const {onSchedule} = require('firebase-functions/v2/scheduler');
+const {getFirestore, FieldValue} = require('firebase-admin/firestore');
+const {getStorage} = require('firebase-admin/storage');
+const {getAuth} = require('firebase-admin/auth');
+const {removeUserFromLeaderboards} = require('./leaderboards');
+
+const STORAGE_PREFIXES = ['meal_photos', 'meals', 'pixel_art', 'users', 'shared_maps'];
+const DELETED_AUTHOR = {userId: 'deleted', userName: 'Deleted user', userPhoto: ''};
+const GRPC_NOT_FOUND = 5;
+// Runs (first + retries) before a failed deletion is left for an admin
+const MAX_ATTEMPTS = 5;
+
+// Cascade order. storage and auth are skipped where switched off.
+const ACCOUNT_DELETION_STEPS = [
+  'comments',
+  'reactions',
+  'cheers',
+  'counters',
+  'follows',
+  'notifications',
+  'savedMeals',
+  'legacyAchievements',
+  'iconicClaims',
+  'writes', // flush the queued deletes / updates above
+  'leaderboards',
+  'meals',
+  'storage',
+  'user',
+  'auth',
+];
+
+function emptyReport(userId, dryRun) {
+  return {
+    userId,
+    dryRun,
+    status: null,
+    attempts: 0,
+    startedAt: new Date(),
+    finishedAt: null,
+    deleted: {
+      meals: 0,
+      comments: 0,
+      reactions: 0,
+      cheers: 0,
+      following: 0,
+      followers: 0,
+      notifications: 0,
+      savedMeals: 0,
+      legacyAchievements: 0,
+      iconicClaims: 0,
+      storageFiles: 0,
+    },
+    anonymized: {comments: 0},
+    decremented: {meals: 0, users: 0},
+    userSubcollections: [],
+    leaderboards: false,
+    authUserDeleted: false,
+    errors: [],
+  };
+}
+
+/**
+ * Run `steps` ({name, run}) in order, stopping at the first error. Errors
+ * already in `errors` (from queued writes) fail the step that was running.
+ */
+async function runSteps(steps, errors, userId) {
+  for (const {name, run} of steps) {
+    try {
+      await run();
+    } catch (err) {
+      console.error(`[accountDeletion] ${name} failed for ${userId}:`, err);
+      errors.push({step: name, message: err.message});
+    }
+    if (errors.length > 0) return 'failed';
+  }
+  return 'complete';
+}
+
+// mealEntries/{mealId}/comments/{id} → mealId
+function mealIdOf(ref) {
+  return ref.parent.parent.id;
+}
+
+/**
+ * Run the cascade for one user and return the report. With dryRun nothing
+ * is written; the report counts what would go. `storage` and `auth` can be
+ * switched off where those services aren't available (the Firestore-only
+ * emulator run).
+ */
+async function deleteAccountData(userId, {dryRun = false, storage = true, auth = true} = {}) {
+  if (!userId) throw new Error('userId is required');
+  const db = getFirestore();
+  const report = emptyReport(userId, dryRun);
+  const reportRef = db.collection('account_deletions').doc(userId);
+  const previous = dryRun ? null : await reportRef.get();
+  report.attempts = ((previous && previous.exists && previous.data().attempts) || 0) + 1;
+  const writer = db.bulkWriter();
+  const pending = [];
+
+  // Queue a write; a doc that vanished in the meantime is not an error.
+  const write = (step, op) => {
+    if (dryRun) return;
+    pending.push(op().catch((err) => {
+      if (err.code === GRPC_NOT_FOUND) return;
+      report.errors.push({step, message: err.message});
+    }));
+  };
+  let flushed = false;
+  const flush = async () => {
+    if (flushed) return;
+    flushed = true;
+    await writer.close();
+    await Promise.all(pending);
+  };
+
+  const userRef = db.collection('users').doc(userId);
+  const ownMealsSnap = await db.collection('mealEntries').where('userId', '==', userId).select().get();
+  const ownMealIds = new Set(ownMealsSnap.docs.map((doc) => doc.id));
+
+  // Counter deltas per meal that stays, applied once the cheers are known
+  const mealDeltas = new Map();
+  const bump = (mealId, field, by) => {
+    if (!by) return;
+    const delta = mealDeltas.get(mealId) || {};
+    delta[field] = (delta[field] || 0) + by;
+    mealDeltas.set(mealId, delta);
+  };
+  const deletedComments = new Set();
+
+  const runs = {};
+  const step = (name, run) => {
+    runs[name] = run;
+  };
+
+  step('comments', async () => {
+    const snap = await db.collectionGroup('comments').where('userId', '==', userId).get();
+    const mine = snap.docs.filter((doc) => !ownMealIds.has(mealIdOf(doc.ref)));
+    const minePaths = new Set(mine.map((doc) => doc.ref.path));
+
+    for (const doc of mine) {
+      let othersReplied = false;
+      if (!doc.data().parentId) {
+        const replies = await doc.ref.parent.where('parentId', '==', doc.id).get();
+        othersReplied = replies.docs.some((reply) => !minePaths.has(reply.ref.path));
+      }
+
+      const edits = await doc.ref.collection('edits').listDocuments();
+      edits.forEach((ref) => write('comments', () => writer.delete(ref)));
+
+      if (othersReplied) {
+        write('comments', () => writer.update(doc.ref, {
+          ...DELETED_AUTHOR,
+          text: '',
+          deleted: true,
+          mentions: [],
+          editedAt: FieldValue.delete(),
+          editCount: FieldValue.delete(),
+        }));
+        report.anonymized.comments++;
+      } else {
+        write('comments', () => writer.delete(doc.ref));
+        deletedComments.add(doc.ref.path);
+        report.deleted.comments++;
+      }
+    }
+  });
+
+  step('reactions', async () => {
+    const snap = await db.collectionGroup('comments').where('reactorIds', 'array-contains', userId).select().get();
+    snap.docs
+        .filter((doc) => !ownMealIds.has(mealIdOf(doc.ref)) && !deletedComments.has(doc.ref.path))
+        .forEach((doc) => {
+          write('reactions', () => writer.update(doc.ref, {[`reactions.${userId}`]: FieldValue.delete()}));
+          report.deleted.reactions++;
+        });
+  });
+
+  step('cheers', async () => {
+    const snap = await db.collectionGroup('cheers').where('userId', '==', userId).get();
+    snap.docs
+        .filter((doc) => !ownMealIds.has(mealIdOf(doc.ref)))
+        .forEach((doc) => {
+          write('cheers', () => writer.delete(doc.ref));
+          bump(mealIdOf(doc.ref), 'cheersCount', 1);
+          report.deleted.cheers++;
+        });
+  });
+
+  step('counters', async () => {
+    mealDeltas.forEach((delta, mealId) => {
+      const update = {};
+      Object.keys(delta).forEach((field) => {
+        update[field] = FieldValue.increment(-delta[field]);
+      });
+      write('counters', () => writer.update(db.collection('mealEntries').doc(mealId), update));
+      report.decremented.meals++;
+    });
+  });
+
+  step('follows', async () => {
+    const [following, followers] = await Promise.all([
+      userRef.collection('following').listDocuments(),
+      userRef.collection('followers').listDocuments(),
+    ]);
+    following.forEach((ref) => {
+      const other = db.collection('users').doc(ref.id);
+      write('follows', () => writer.delete(other.collection('followers').doc(userId)));
+      write('follows', () => writer.update(other, {followersCount: FieldValue.increment(-1)}));
+      // Dropped here too so a retry doesn't decrement the other side again
+      write('follows', () => writer.delete(ref));
+    });
+    followers.forEach((ref) => {
+      const other = db.collection('users').doc(ref.id);
+      write('follows', () => writer.delete(other.collection('following').doc(userId)));
+      write('follows', () => writer.update(other, {followingCount: FieldValue.increment(-1)}));
+      write('follows', () => writer.delete(ref));
+    });
+    report.deleted.following = following.length;
+    report.deleted.followers = followers.length;
+    report.decremented.users = new Set([...following, ...followers].map((ref) => ref.id)).size;
+  });
+
+  step('notifications', async () => {
+    const [toUser, fromUser] = await Promise.all([
+      db.collection('notifications').where('userId', '==', userId).select().get(),
+      db.collection('notifications').where('fromUser.id', '==', userId).select().get(),
+    ]);
+    const refs = new Map();
+    [...toUser.docs, ...fromUser.docs].forEach((doc) => refs.set(doc.id, doc.ref));
+    refs.forEach((ref) => write('notifications', () => writer.delete(ref)));
+    report.deleted.notifications = refs.size;
+  });
+
+  step('savedMeals', async () => {
+    const snap = await db.collectionGroup('savedMeals').where('userId', '==', userId).select().get();
+    snap.docs
+        .filter((doc) => doc.ref.parent.parent.id !== userId)
+        .forEach((doc) => {
+          write('savedMeals', () => writer.delete(doc.ref));
+          report.deleted.savedMeals++;
+        });
+  });
+
+  step('legacyAchievements', async () => {
+    const snap = await db.collection('userAchievements').where('userId', '==', userId).select().get();
+    snap.docs.forEach((doc) => write('legacyAchievements', () => writer.delete(doc.ref)));
+    report.deleted.legacyAchievements = snap.size;
+  });
+
+  step('iconicClaims', async () => {
+    const snap = await db.collection('iconic_claims').where('userId', '==', userId).select().get();
+    snap.docs.forEach((doc) => write('iconicClaims', () => writer.delete(doc.ref)));
+    report.deleted.iconicClaims = snap.size;
+  });
+
+  step('writes', flush);
+
+  step('leaderboards', async () => {
+    if (!dryRun) await removeUserFromLeaderboards(userId);
+    report.leaderboards = true;
+  });
+
+  step('meals', async () => {
+    for (const doc of ownMealsSnap.docs) {
+      if (!dryRun) await db.recursiveDelete(doc.ref);
+      report.deleted.meals++;
+    }
+  });
+
+  if (storage) {
+    step('storage', async () => {
+      const bucket = getStorage().bucket();
+      for (const prefix of STORAGE_PREFIXES) {
+        const [files] = await bucket.getFiles({prefix: `${prefix}/${userId}/`});
+        report.deleted.storageFiles += files.length;
+        if (!dryRun && files.length > 0) await bucket.deleteFiles({prefix: `${prefix}/${userId}/`});
+      }
+    });
+  }
+
+  step('user', async () => {
+    report.userSubcollections = (await userRef.listCollections()).map((ref) => ref.id).sort();
+    if (!dryRun) await db.recursiveDelete(userRef);
+  });
+
+  if (auth && !dryRun) {
+    step('auth', async () => {
+      try {
+        await getAuth().deleteUser(userId);
+      } catch (err) {
+        if (err.code !== 'auth/user-not-found') throw err;
+      }
+      report.authUserDeleted = true;
+    });
+  }
+
+  const steps = ACCOUNT_DELETION_STEPS.filter((name) => runs[name]).map((name) => ({name, run: runs[name]}));
+  report.status = await runSteps(steps, report.errors, userId);
+  // A run that stopped early still has to settle the writes it queued
+  await flush();
+  if (report.errors.length > 0) report.status = 'failed';
+
+  report.finishedAt = new Date();
+  if (!dryRun) {
+    await reportRef.set(report);
+  }
+  console.log(
+      `[accountDeletion] ${dryRun ? 'DRY RUN ' : ''}${userId}: ${report.status} (attempt ${report.attempts}) ` +
+      `meals=${report.deleted.meals} ` +
+      `comments=${report.deleted.comments}+${report.anonymized.comments} anonymized ` +
+      `cheers=${report.deleted.cheers} errors=${report.errors.length}`,
+  );
+  return report;
+}
+
+// Fires when deletionRequestedAt is set, and again whenever it changes, so
+// asking a second time re-runs a failed cascade.
+const onAccountDeletionRequested = onDocumentUpdated({
+  document: 'users/{userId}',
+  timeoutSeconds: 540,
+  memory: '1GiB',
+}, async (event) => {
+  const before = event.data.before.data() || {};
+  const after = event.data.after.data() || {};
+  if (!after.deletionRequestedAt) return;
+  if (before.deletionRequestedAt && before.deletionRequestedAt.isEqual(after.deletionRequestedAt)) return;
+  try {
+    await deleteAccountData(event.params.userId);
+  } catch (err) {
+    console.error('[accountDeletion] cascade failed:', err);
+  }
+});
+
+// Nightly retry of failed deletions, one user at a time.
+const retryAccountDeletions = onSchedule({
+  schedule: '0 3 * * *',
+  timeZone: 'UTC',
+  timeoutSeconds: 540,
+  memory: '1GiB',
+}, async () => {
+  const failed = await getFirestore().collection('account_deletions').where('status', '==', 'failed').get();
+  for (const doc of failed.docs) {
+    if ((doc.data().attempts || 0) >= MAX_ATTEMPTS) continue;
+    try {
+      await deleteAccountData(doc.id);
+    } catch (err) {
+      console.error(`[accountDeletion] retry failed for ${doc.id}:`, err);
+    }
+  }
+});
+
+module.exports = {
+  onAccountDeletionRequested,
+  retryAccountDeletions,
+  deleteAccountData,
+  // Exposed for tests
+  ACCOUNT_DELETION_STEPS,
+  runSteps,
+};
@@ -0,0 +1,110 @@
+/**
+ * Comment counters and reply cleanup.
+ *
+ * Commenters may only write their own comment and their own
+ * `reactions.{uid}` key on other people's comments (firestore.rules), so
+ * everything derived from comments is kept here with admin rights:
+ *
+ *   mealEntries/{mealId}.commentCount          top-level comments + replies
+ *   mealEntries/{mealId}.commentReactionCount  reactions across all comments
+ *   mealEntries/{mealId}.lastCommentAt         set when a comment is added
+ *   comments/{id}.reactionCounts               per-reaction counts
+ *   comments/{id}.reactorIds                   who reacted (for the deletion
+ *                                              cascade's array-contains query)
+ *
+ * Deleting a top-level comment deletes its replies; each of those deletes
+ * comes back through this trigger and takes its own counts off the meal.
+ *
+ * Counting mirrors countReactions in utils/commentReactions.ts, which the
+ * client uses for display. Keep in sync.
+ */
+
+const {onDocumentWritten} = require('firebase-functions/v2/firestore');
+const {getFirestore, FieldValue} = require('firebase-admin/firestore');
+
+// Same keys as COMMENT_REACTIONS in utils/commentReactions.ts
+const REACTION_KEYS = ['heart', 'yum', 'fire', 'laugh', 'clap'];
+const GRPC_NOT_FOUND = 5;
+
+function countReactions(reactions) {
+  const counts = {};
+  Object.values(reactions || {}).forEach((keys) => {
+    new Set(Array.isArray(keys) ? keys : []).forEach((key) => {
+      if (!REACTION_KEYS.includes(key)) return;
+      counts[key] = (counts[key] || 0) + 1;
+    });
+  });
+  return counts;
+}
+
+function totalReactions(reactions) {
+  return Object.values(countReactions(reactions)).reduce((sum, n) => sum + n, 0);
+}
+
+function reactorIds(reactions) {
+  return Object.keys(reactions || {})
+      .filter((uid) => Array.isArray(reactions[uid]) && reactions[uid].length > 0)
+      .sort();
+}
+
+function commentCounterDelta(before, after) {
+  return {
+    commentCount: (after ? 1 : 0) - (before ? 1 : 0),
+    commentReactionCount: totalReactions(after && after.reactions) - totalReactions(before && before.reactions),
+  };
+}
+
+function sameCounts(a, b) {
+  return REACTION_KEYS.every((key) => (a[key] || 0) === (b[key] || 0));
+}
+
+const onCommentWritten = onDocumentWritten('mealEntries/{mealId}/comments/{commentId}', async (event) => {
+  const before = event.data.before.exists ? event.data.before.data() : undefined;
+  const after = event.data.after.exists ? event.data.after.data() : undefined;
+  const {mealId, commentId} = event.params;
+  const db = getFirestore();
+  const mealRef = db.collection('mealEntries').doc(mealId);
+
+  try {
+    const delta = commentCounterDelta(before, after);
+    const mealUpdate = {};
+    if (delta.commentCount) mealUpdate.commentCount = FieldValue.increment(delta.commentCount);
+    if (delta.commentReactionCount) {
+      mealUpdate.commentReactionCount = FieldValue.increment(delta.commentReactionCount);
+    }
+    if (!before && after) mealUpdate.lastCommentAt = FieldValue.serverTimestamp();
+    if (Object.keys(mealUpdate).length > 0) {
+      try {
+        await mealRef.update(mealUpdate);
+      } catch (err) {
+        // The meal itself was deleted (its comments go with it)
+        if (err.code !== GRPC_NOT_FOUND) throw err;
+      }
+    }
+
+    if (after) {
+      // Only rewrite when something changed, so this write's own trigger
+      // is a no-op
+      const counts = countReactions(after.reactions);
+      const reactors = reactorIds(after.reactions);
+      if (!sameCounts(counts, after.reactionCounts || {}) ||
+          reactors.join(',') !== (after.reactorIds || []).join(',')) {
+        await event.data.after.ref.update({reactionCounts: counts, reactorIds: reactors});
+      }
+    } else if (!before.parentId) {
+      const replies = await mealRef.collection('comments').where('parentId', '==', commentId).select().get();
+      const writer = db.bulkWriter();
+      replies.forEach((doc) => writer.delete(doc.ref));
+      await writer.close();
+    }
+  } catch (err) {
+    console.error(`[comments] upkeep failed for ${mealId}/${commentId}:`, err);
+  }
+});
+
+module.exports = {
+  onCommentWritten,
+  // Exposed for tests
+  countReactions,
+  commentCounterDelta,
+};
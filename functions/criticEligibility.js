@@ -0,0 +1,324 @@
+/**
+ * Food critic program — eligibility engine.
+ *
+ * FullMapScreen's "Food Critics" chip and applyHomeFilters key on
+ * `users/{uid}.isCritic`; this module is what sets and clears it. A weekly
+ * job scores every user on four signals and awards or revokes critic status:
+ *
+ *   - rated meals       (restaurant meals with rating > 0)
+ *   - cuisine diversity (distinct cuisine tags, via extractTagsFromMeal)
+ *   - followers         (users/{uid}.followersCount — same field
+ *                        getFollowCounts reads on the client)
+ *   - cheers received   (sum of mealEntries.cheersCount — same sum
+ *                        getTotalCheersForUser computes on the client)
+ *
+ * Awarding needs every AWARD threshold. Keeping it is easier (RETAIN
+ * thresholds) so critics near the line don't flap week to week, but a critic
+ * who stops posting (fewer than RETAIN.recentMeals in the last
+ * RECENT_WINDOW_DAYS) is revoked.
+ *
+ * Data model (written on users/{uid}):
+ *   isCritic: boolean
+ *   criticStatus: {
+ *     status: 'active' | 'revoked',
+ *     since, evaluated_at, revoked_at?,
+ *     specialties: {cities: string[], cuisines: string[]},
+ *     stats: {ratedMeals, recentMeals, cuisineCount, followers, cheers},
+ *     reason: string,
+ *   }
+ *
+ * Award / revoke each drop an in-app notification ('critic_awarded' /
+ * 'critic_revoked') into `notifications`.
+ *
+ * Dry run: set `app_config/critic_program.dryRun = true` and the scheduled
+ * job only logs who would change, or run scripts/criticEligibility.js, which
+ * is dry-run by default.
+ */
+
+const {onSchedule} = require('firebase-functions/v2/scheduler');
+const {getFirestore, FieldValue} = require('firebase-admin/firestore');
+const {extractTagsFromMeal, extractCity} = require('./tasteProfile');
+
+const AWARD = {
+  ratedMeals: 50,
+  cuisineCount: 8,
+  followers: 25,
+  cheers: 100,
+};
+
+const RETAIN = {
+  ratedMeals: 40,
+  cuisineCount: 6,
+  followers: 15,
+  cheers: 75,
+  recentMeals: 4,
+};
+
+const RECENT_WINDOW_DAYS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A city / cuisine counts as a specialty with at least this many rated meals.
+const SPECIALTY_MIN_MEALS = 8;
+const MAX_SPECIALTIES = 3;
+
+const SYSTEM_SENDER = {id: 'dishitout', name: 'Dish It Out', photo: null};
+
+// =============================================================================
+// Stats
+// =============================================================================
+
+function toMillis(value) {
+  if (!value) return 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  return 0;
+}
+
+function topKeys(counts, min, limit) {
+  return Object.entries(counts)
+      .filter(([, n]) => n >= min)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([key]) => key);
+}
+
+/**
+ * Pure: summarize one user's meals and profile into the stats the rules
+ * read. `meals` is every mealEntries doc for the user (any rating).
+ */
+function computeCriticStats(meals, userDoc, now = Date.now()) {
+  const cityCounts = {};
+  const cuisineCounts = {};
+  let ratedMeals = 0;
+  let recentMeals = 0;
+  let cheers = 0;
+
+  for (const meal of meals) {
+    cheers += meal.cheersCount || 0;
+    if (meal.mealType === 'Homemade') continue;
+    if (typeof meal.rating !== 'number' || meal.rating <= 0) continue;
+
+    ratedMeals++;
+    if (now - toMillis(meal.createdAt) <= RECENT_WINDOW_DAYS * DAY_MS) recentMeals++;
+
+    const city = extractCity(meal);
+    if (city) cityCounts[city] = (cityCounts[city] || 0) + 1;
+
+    for (const tag of extractTagsFromMeal(meal)) {
+      if (tag.field === 'cuisine') {
+        cuisineCounts[tag.value] = (cuisineCounts[tag.value] || 0) + 1;
+      }
+    }
+  }
+
+  return {
+    stats: {
+      ratedMeals,
+      recentMeals,
+      cuisineCount: Object.keys(cuisineCounts).length,
+      followers: (userDoc && userDoc.followersCount) || 0,
+      cheers,
+    },
+    specialties: {
+      cities: topKeys(cityCounts, SPECIALTY_MIN_MEALS, MAX_SPECIALTIES),
+      cuisines: topKeys(cuisineCounts, SPECIALTY_MIN_MEALS, MAX_SPECIALTIES),
+    },
+  };
+}
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+function missingThresholds(stats, thresholds) {
+  return Object.entries(thresholds)
+      .filter(([key, min]) => (stats[key] || 0) < min)
+      .map(([key, min]) => `${key} ${stats[key] || 0}/${min}`);
+}
+
+/**
+ * Pure: decide what to do with one user.
+ * Returns {action: 'award' | 'retain' | 'revoke' | 'none', reason}.
+ */
+function evaluateCriticEligibility(stats, isCritic) {
+  if (isCritic) {
+    const missing = missingThresholds(stats, RETAIN);
+    return missing.length === 0 ?
+      {action: 'retain', reason: 'meets retain thresholds'} :
+      {action: 'revoke', reason: `below retain thresholds: ${missing.join(', ')}`};
+  }
+  const missing = missingThresholds(stats, AWARD);
+  return missing.length === 0 ?
+    {action: 'award', reason: 'meets award thresholds'} :
+    {action: 'none', reason: `below award thresholds: ${missing.join(', ')}`};
+}
+
+// =============================================================================
+// Writes
+// =============================================================================
+
+function describeSpecialties(specialties) {
+  const parts = [...specialties.cuisines, ...specialties.cities];
+  return parts.length > 0 ? ` Your specialties: ${parts.join(', ')}.` : '';
+}
+
+function applyDecision(db, batch, userId, user, evaluation, decision) {
+  const userRef = db.collection('users').doc(userId);
+  const notificationRef = db.collection('notifications').doc();
+  const previous = user.criticStatus || {};
+
+  if (decision.action === 'award') {
+    batch.set(userRef, {
+      isCritic: true,
+      criticStatus: {
+        status: 'active',
+        since: FieldValue.serverTimestamp(),
+        evaluated_at: FieldValue.serverTimestamp(),
+        specialties: evaluation.specialties,
+        stats: evaluation.stats,
+        reason: decision.reason,
+      },
+    }, {merge: true});
+    batch.set(notificationRef, {
+      userId,
+      type: 'critic_awarded',
+      fromUser: SYSTEM_SENDER,
+      message: 'You\'re now a Dish It Out Food Critic!' + describeSpecialties(evaluation.specialties),
+      read: false,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  } else if (decision.action === 'revoke') {
+    batch.set(userRef, {
+      isCritic: false,
+      criticStatus: {
+        ...previous,
+        status: 'revoked',
+        evaluated_at: FieldValue.serverTimestamp(),
+        revoked_at: FieldValue.serverTimestamp(),
+        stats: evaluation.stats,
+        reason: decision.reason,
+      },
+    }, {merge: true});
+    batch.set(notificationRef, {
+      userId,
+      type: 'critic_revoked',
+      fromUser: SYSTEM_SENDER,
+      message: 'Your Food Critic badge has been paused. Keep rating meals to earn it back.',
+      read: false,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  } else if (decision.action === 'retain') {
+    // Refresh specialties and stats so the profile badge stays current.
+    batch.set(userRef, {
+      criticStatus: {
+        ...previous,
+        evaluated_at: FieldValue.serverTimestamp(),
+        specialties: evaluation.specialties,
+        stats: evaluation.stats,
+      },
+    }, {merge: true});
+  }
+}
+
+// =============================================================================
+// Job
+// =============================================================================
+
+/**
+ * Evaluate every user. With dryRun, nothing is written; the returned report
+ * lists who would be awarded / revoked either way.
+ */
+async function runCriticEligibility({dryRun = false} = {}) {
+  const db = getFirestore();
+  const now = Date.now();
+
+  const [usersSnap, mealsSnap] = await Promise.all([
+    db.collection('users').get(),
+    db.collection('mealEntries').get(),
+  ]);
+
+  const mealsByUser = new Map();
+  mealsSnap.forEach((doc) => {
+    const meal = doc.data();
+    if (!meal.userId) return;
+    if (!mealsByUser.has(meal.userId)) mealsByUser.set(meal.userId, []);
+    mealsByUser.get(meal.userId).push(meal);
+  });
+
+  const report = {dryRun, evaluated: 0, awarded: [], revoked: [], retained: 0};
+  let batch = db.batch();
+  let batchCount = 0;
+
+  for (const userDoc of usersSnap.docs) {
+    const userId = userDoc.id;
+    const user = userDoc.data();
+    const evaluation = computeCriticStats(mealsByUser.get(userId) || [], user, now);
+    const decision = evaluateCriticEligibility(evaluation.stats, user.isCritic === true);
+    report.evaluated++;
+
+    const entry = {
+      userId,
+      displayName: user.displayName || null,
+      reason: decision.reason,
+      specialties: evaluation.specialties,
+      stats: evaluation.stats,
+    };
+    if (decision.action === 'award') report.awarded.push(entry);
+    else if (decision.action === 'revoke') report.revoked.push(entry);
+    else if (decision.action === 'retain') report.retained++;
+    else continue;
+
+    if (dryRun) continue;
+    applyDecision(db, batch, userId, user, evaluation, decision);
+    // Award / revoke are two writes each; stay well under the 500 cap.
+    batchCount += 2;
+    if (batchCount >= 400) {
+      await batch.commit();
+      batch = db.batch();
+      batchCount = 0;
+    }
+  }
+
+  if (!dryRun && batchCount > 0) await batch.commit();
+
+  console.log(
+      `[criticEligibility] ${dryRun ? 'DRY RUN ' : ''}evaluated=${report.evaluated} ` +
+      `awarded=${report.awarded.length} revoked=${report.revoked.length} retained=${report.retained}`,
+  );
+  report.awarded.forEach((e) => console.log(`[criticEligibility]   + ${e.userId} (${e.displayName})`));
+  report.revoked.forEach((e) => console.log(`[criticEligibility]   - ${e.userId}: ${e.reason}`));
+  return report;
+}
+
+// Weekly, Monday 4 AM PST. `app_config/critic_program` can pause the job
+// ({enabled: false}) or flip it to report-only ({dryRun: true}).
+const criticEligibilityJob = onSchedule({
+  schedule: '0 4 * * 1',
+  timeZone: 'America/Los_Angeles',
+  timeoutSeconds: 540,
+  memory: '1GiB',
+}, async () => {
+  try {
+    const configDoc = await getFirestore().collection('app_config').doc('critic_program').get();
+    const config = configDoc.exists ? configDoc.data() : {};
+    if (config.enabled === false) {
+      console.log('[criticEligibility] disabled via app_config/critic_program');
+      return;
+    }
+    await runCriticEligibility({dryRun: config.dryRun === true});
+  } catch (err) {
+    console.error('[criticEligibility] job failed:', err);
+  }
+});
+
+module.exports = {
+  criticEligibilityJob,
+  runCriticEligibility,
+  // Exposed for the dry-run script + unit tests
+  computeCriticStats,
+  evaluateCriticEligibility,
+  AWARD,
+  RETAIN,
+  RECENT_WINDOW_DAYS,
+};
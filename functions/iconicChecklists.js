@@ -0,0 +1,121 @@
+const {FieldValue} = require('firebase-admin/firestore');
+
+// Checklists themselves are built by scripts/syncIconicChecklists.js from
+// utils/iconicChecklists.ts and stored in `iconic_checklists/{id}` with an
+// `eatIds` array, so the trigger only needs one array-contains query.
+// checklistProgress mirrors the client's — keep the two in sync
+// (__tests__/iconicChecklists.test.ts runs both on the same checklist).
+
+const checklistAchievementId = (checklistId) => `iconic_${checklistId}`;
+
+function checklistProgress(checklist, unlocked) {
+  const held = new Set(unlocked);
+  const eatIds = checklist.eatIds || [];
+  const unlockedEatIds = eatIds.filter((id) => held.has(id));
+  return {
+    checklistId: checklist.id,
+    total: eatIds.length,
+    unlocked: unlockedEatIds.length,
+    unlockedEatIds,
+    complete: eatIds.length > 0 && unlockedEatIds.length === eatIds.length,
+  };
+}
+
+const GRPC_ALREADY_EXISTS = 6;
+
+/**
+ * Refresh `users/{uid}/iconic_checklists/{checklistId}` and, on the unlock
+ * that finished the list, set `completedAt` and award the completion stamp.
+ * One transaction per checklist, so two unlocks landing together can't both
+ * see the list as newly complete. The stamp goes to the deterministic doc
+ * `iconic_{checklistId}` with create(), which also fails if another writer
+ * got there first. Written in the same shape as the app's
+ * saveUserAchievement so the stamp book, notifications and
+ * scripts/backfillAchievements.js treat it like any other (the
+ * iconic_checklist criteria lands on the same meal).
+ */
+async function refreshChecklist({db, userId, mealId, checklist}) {
+  const userRef = db.collection('users').doc(userId);
+  const progressRef = userRef.collection('iconic_checklists').doc(checklist.id);
+  const achievementId = checklistAchievementId(checklist.id);
+  const achievementsRef = userRef.collection('achievements');
+
+  return db.runTransaction(async (tx) => {
+    const userDoc = await tx.get(userRef);
+    const existing = await tx.get(progressRef);
+    const stamp = await tx.get(achievementsRef.doc(achievementId));
+    // Stamps the app wrote itself have random ids
+    const held = await tx.get(achievementsRef.where('achievementId', '==', achievementId).limit(1));
+
+    const unlocked = (userDoc.data() && userDoc.data().unlocked_iconic_eats) || [];
+    const progress = checklistProgress(checklist, unlocked);
+    const newlyComplete = progress.complete && !(existing.exists && existing.data().completedAt);
+
+    tx.set(
+        progressRef,
+        {
+          ...progress,
+          city: checklist.city,
+          category: checklist.category || null,
+          title: checklist.title,
+          updatedAt: FieldValue.serverTimestamp(),
+          ...(newlyComplete ? {completedAt: FieldValue.serverTimestamp(), completedByMealId: mealId} : {}),
+        },
+        {merge: true},
+    );
+
+    const awarded = newlyComplete && !stamp.exists && held.empty;
+    if (awarded) {
+      tx.create(achievementsRef.doc(achievementId), {
+        userId,
+        achievementId,
+        earnedAt: FieldValue.serverTimestamp(),
+        mealEntryId: mealId,
+      });
+    }
+    return {newlyComplete, awarded};
+  });
+}
+
+/**
+ * Refresh the progress of every checklist containing `eatId`, after the
+ * unlock has been written. `completedAt` is set once, by the unlock that
+ * finished the list, which also awards the completion stamp. Idempotent:
+ * re-running rewrites the same counts.
+ */
+async function updateIconicChecklistProgress({db, userId, mealId, eatId}) {
+  const checklistsSnap = await db
+      .collection('iconic_checklists')
+      .where('eatIds', 'array-contains', eatId)
+      .get();
+  if (checklistsSnap.empty) return [];
+
+  const completed = [];
+  for (const doc of checklistsSnap.docs) {
+    const checklist = {id: doc.id, ...doc.data()};
+    let result;
+    try {
+      result = await refreshChecklist({db, userId, mealId, checklist});
+    } catch (err) {
+      // The stamp doc appeared between our read and the commit; run again
+      // so the progress write isn't lost with it
+      if (err.code !== GRPC_ALREADY_EXISTS) throw err;
+      result = await refreshChecklist({db, userId, mealId, checklist});
+    }
+
+    if (result.newlyComplete) {
+      completed.push(checklist.id);
+      console.log(
+          `[iconicEats] User ${userId} completed checklist ${checklist.id} via meal ${mealId}` +
+          (result.awarded ? '; stamp awarded' : '; stamp already held'),
+      );
+    }
+  }
+  return completed;
+}
+
+module.exports = {
+  updateIconicChecklistProgress,
+  checklistProgress,
+  checklistAchievementId,
+};
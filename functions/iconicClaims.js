@@ -0,0 +1,285 @@
+const {onDocumentCreated} = require('firebase-functions/v2/firestore');
+const {getFirestore, FieldValue} = require('firebase-admin/firestore');
+const {getStorage} = require('firebase-admin/storage');
+const exifReader = require('exif-reader');
+const sharp = require('sharp');
+const {
+  applyIconicUnlock,
+  haversineKm,
+  namesLooselyMatch,
+  normalizeRestaurantName,
+  trigramSimilarity,
+} = require('./iconicEatsUnlock');
+
+// Mirror of utils/iconicClaims.ts on the client. Keep in sync — changes to
+// weights or thresholds must land in both files together, with a bump of
+// CLAIM_SCORING_VERSION so reviewed claims stay comparable when tuning.
+// __tests__/iconicClaims.test.ts scores the same claims with both.
+const CLAIM_SCORING_VERSION = 2;
+const CLAIM_AUTO_APPROVE_SCORE = 0.8;
+const CLAIM_VERIFIED_MAX_KM = 0.25;
+const CLAIM_PHOTO_MAX_AGE_HOURS = 48;
+const CLAIM_LOOSE_NAME_SCORE = 0.8;
+const WEIGHTS = {place: 0.35, restaurant: 0.25, dish: 0.4};
+const DISTANCE_BANDS = [
+  [0.05, 1],
+  [0.25, 0.75],
+  [1, 0.4],
+  [5, 0.1],
+];
+const SAME_CITY_PLACE_SCORE = 0.2;
+// A user holds at most one claim per eat in these statuses
+const ACTIVE_STATUSES = ['pending_review', 'approved'];
+
+const round = (n, places = 3) => Math.round(n * 10 ** places) / 10 ** places;
+
+function dishScore(a, b) {
+  const na = normalizeRestaurantName(a);
+  const nb = normalizeRestaurantName(b);
+  if (!na || !nb) return 0;
+  if (na.includes(nb) || nb.includes(na)) return 1;
+  return trigramSimilarity(na, nb);
+}
+
+function verifyEvidence(evidence, eat) {
+  const {photoLocation, photoTakenAt, mealCreatedAt} = evidence || {};
+  const photoDistanceKm = photoLocation ?
+    round(haversineKm(photoLocation.latitude, photoLocation.longitude, eat.latitude, eat.longitude)) :
+    null;
+  const photoAgeHours = photoTakenAt && mealCreatedAt ?
+    round(Math.abs(mealCreatedAt.getTime() - photoTakenAt.getTime()) / 3600000, 1) :
+    null;
+  const verified =
+    photoDistanceKm !== null &&
+    photoDistanceKm <= CLAIM_VERIFIED_MAX_KM &&
+    photoAgeHours !== null &&
+    photoAgeHours <= CLAIM_PHOTO_MAX_AGE_HOURS;
+  return {photoDistanceKm, photoAgeHours, verified};
+}
+
+/**
+ * Score a claim. Only `evidence` (read here, never from the meal's own
+ * fields) can turn a high score into an auto-approval.
+ */
+function scoreIconicClaim(meal, eat, evidence) {
+  const placeIdMatch = !!meal.place_id && !!eat.place_id && meal.place_id === eat.place_id;
+  const loc = meal.location || {};
+  const distanceKm =
+    typeof loc.latitude === 'number' && typeof loc.longitude === 'number' ?
+      haversineKm(loc.latitude, loc.longitude, eat.latitude, eat.longitude) :
+      null;
+  const city = String(meal.city || loc.city || '').toLowerCase().trim();
+  const sameCity = !!eat.city && city === String(eat.city).toLowerCase().trim();
+
+  const band = distanceKm === null ? undefined : DISTANCE_BANDS.find(([km]) => distanceKm <= km);
+  const placeScore = placeIdMatch ? 1 : Math.max(band ? band[1] : 0, sameCity ? SAME_CITY_PLACE_SCORE : 0);
+  const looseNameScore = namesLooselyMatch(meal.restaurant, eat.restaurant_name) ? CLAIM_LOOSE_NAME_SCORE : 0;
+  const restaurantScore = placeIdMatch ?
+    1 :
+    Math.max(trigramSimilarity(meal.restaurant || '', eat.restaurant_name), looseNameScore);
+  const dish = dishScore(meal.meal, eat.dish_name);
+
+  const score = round(WEIGHTS.place * placeScore + WEIGHTS.restaurant * restaurantScore + WEIGHTS.dish * dish);
+  const verification = verifyEvidence(evidence, eat);
+  return {
+    score,
+    autoApprove: score >= CLAIM_AUTO_APPROVE_SCORE && verification.verified,
+    signals: {
+      placeIdMatch,
+      distanceKm: distanceKm === null ? null : round(distanceKm),
+      sameCity,
+      placeScore: round(placeScore),
+      restaurantScore: round(restaurantScore),
+      dishScore: round(dish),
+      ...verification,
+    },
+    version: CLAIM_SCORING_VERSION,
+  };
+}
+
+function eatForScoring(id, data) {
+  const geo = data.location || {};
+  return {
+    id,
+    dish_name: data.dish_name,
+    restaurant_name: data.restaurant_name,
+    place_id: data.place_id || null,
+    city: data.city || null,
+    latitude: geo.latitude,
+    longitude: geo.longitude,
+  };
+}
+
+// Storage path of a meal photo from its download URL, only when it sits in
+// the claimant's own meal_photos/ folder
+function mealPhotoPath(photoUrl, userId) {
+  const match = /\/o\/([^?]+)/.exec(photoUrl || '');
+  if (!match) return null;
+  const path = decodeURIComponent(match[1]);
+  return path.startsWith(`meal_photos/${userId}/`) ? path : null;
+}
+
+function gpsDegrees(dms, ref) {
+  if (!Array.isArray(dms) || dms.length !== 3 || !dms.every(Number.isFinite)) return null;
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+/**
+ * GPS and capture time from a photo's EXIF, each null when missing.
+ */
+async function photoEvidence(buffer) {
+  const found = {photoLocation: null, photoTakenAt: null};
+  const {exif} = await sharp(buffer).metadata();
+  if (!exif) return found;
+  const tags = exifReader(exif);
+  const gps = tags.GPSInfo || {};
+  const latitude = gpsDegrees(gps.GPSLatitude, gps.GPSLatitudeRef);
+  const longitude = gpsDegrees(gps.GPSLongitude, gps.GPSLongitudeRef);
+  if (latitude !== null && longitude !== null) found.photoLocation = {latitude, longitude};
+  const taken = tags.Photo && tags.Photo.DateTimeOriginal;
+  if (taken instanceof Date && !isNaN(taken.getTime())) found.photoTakenAt = taken;
+  return found;
+}
+
+/**
+ * The evidence scoreIconicClaim trusts: photoEvidence of the meal's photo
+ * as taken (`evidencePhotoUrl`, else the flagship photo), read from
+ * Storage, and the meal doc's server create time. Photos without EXIF give
+ * none, which sends the claim to review.
+ */
+async function claimEvidence({mealDoc, userId}) {
+  const evidence = {photoLocation: null, photoTakenAt: null, mealCreatedAt: mealDoc.createTime.toDate()};
+  const meal = mealDoc.data();
+  const path = mealPhotoPath(meal.evidencePhotoUrl, userId) || mealPhotoPath(meal.photoUrl, userId);
+  if (!path) return evidence;
+  try {
+    const [buffer] = await getStorage().bucket().file(path).download();
+    return {...evidence, ...await photoEvidence(buffer)};
+  } catch (err) {
+    console.warn(`[iconicClaims] Could not read EXIF from ${path}:`, err.message);
+    return evidence;
+  }
+}
+
+/**
+ * Whether another claim for the same eat by the same user gets it first:
+ * one already waiting on review or approved, or one still being judged
+ * that was created earlier. Each of two claims created together sees the
+ * other, so exactly one goes on.
+ */
+async function claimedElsewhere({db, claim, snap}) {
+  const others = await db
+      .collection('iconic_claims')
+      .where('userId', '==', claim.userId)
+      .where('eatId', '==', claim.eatId)
+      .get();
+  const created = snap.createTime.toMillis();
+  return others.docs.some((doc) => {
+    if (doc.id === snap.id) return false;
+    const status = doc.data().status;
+    if (ACTIVE_STATUSES.includes(status)) return true;
+    if (status !== 'submitted') return false;
+    const otherCreated = doc.createTime.toMillis();
+    return otherCreated < created || (otherCreated === created && doc.id < snap.id);
+  });
+}
+
+/**
+ * Approve a claim: the same idempotent unlock the meal trigger uses, so a
+ * claimed eat is indistinguishable from a matched one (meal stamped with
+ * iconic_eat_id, checklist progress, completion stamps).
+ */
+async function approveIconicClaim({db, claim, eatData}) {
+  return applyIconicUnlock({
+    db,
+    userId: claim.userId,
+    mealId: claim.mealId,
+    eatId: claim.eatId,
+    eatData,
+  });
+}
+
+/**
+ * Firestore trigger: judge a new `iconic_claims/{claimId}` doc. The app only
+ * creates claims with status 'submitted'; the decision and everything it was
+ * based on (score, signals, scoring version, threshold) are written back to
+ * the same doc, which doubles as the moderation record for claims that go
+ * to review (scripts/reviewIconicClaims.js). A second claim for an eat the
+ * user already has a claim waiting on or approved is closed as a duplicate.
+ */
+const onIconicClaimCreate = onDocumentCreated('iconic_claims/{claimId}', async (event) => {
+  const snap = event.data;
+  if (!snap) return null;
+  const claim = snap.data();
+  const claimId = event.params.claimId;
+  if (!claim || claim.status !== 'submitted') return null;
+
+  const db = getFirestore();
+  const decide = (fields) =>
+    snap.ref.update({
+      ...fields,
+      scoringVersion: CLAIM_SCORING_VERSION,
+      autoApproveScore: CLAIM_AUTO_APPROVE_SCORE,
+      decidedAt: FieldValue.serverTimestamp(),
+    });
+
+  try {
+    const [mealDoc, eatDoc, unlockDoc] = await Promise.all([
+      db.collection('mealEntries').doc(claim.mealId).get(),
+      db.collection('best_eats').doc(claim.eatId).get(),
+      db.collection('users').doc(claim.userId).collection('iconic_eat_unlocks').doc(claim.eatId).get(),
+    ]);
+    const meal = mealDoc.exists ? mealDoc.data() : null;
+    const eatData = eatDoc.exists ? eatDoc.data() : null;
+
+    if (!meal || meal.userId !== claim.userId) {
+      return decide({status: 'rejected', decidedBy: 'auto', reason: 'not_owner'});
+    }
+    if (!eatData || eatData.active !== true) {
+      return decide({status: 'rejected', decidedBy: 'auto', reason: 'unknown_eat'});
+    }
+    if (meal.iconic_eat_id && meal.iconic_eat_id !== claim.eatId) {
+      return decide({status: 'rejected', decidedBy: 'auto', reason: 'linked_elsewhere'});
+    }
+    if (unlockDoc.exists) {
+      return decide({status: 'duplicate', decidedBy: 'auto', reason: 'already_unlocked'});
+    }
+    if (await claimedElsewhere({db, claim, snap})) {
+      return decide({status: 'duplicate', decidedBy: 'auto', reason: 'already_claimed'});
+    }
+
+    const evidence = await claimEvidence({mealDoc, userId: claim.userId});
+    const result = scoreIconicClaim(meal, eatForScoring(eatDoc.id, eatData), evidence);
+    const scored = {score: result.score, signals: result.signals};
+    if (!result.autoApprove) {
+      console.log(
+          `[iconicClaims] Claim ${claimId} (score ${result.score}, ` +
+          `${result.signals.verified ? 'verified' : 'unverified'}) queued for review`,
+      );
+      return decide({...scored, status: 'pending_review', decidedBy: null});
+    }
+
+    await approveIconicClaim({db, claim, eatData});
+    console.log(`[iconicClaims] Claim ${claimId} (score ${result.score}) auto-approved`);
+    return decide({...scored, status: 'approved', decidedBy: 'auto'});
+  } catch (err) {
+    console.error(`[iconicClaims] Error judging claim ${claimId}:`, err);
+    // Leave it for a human rather than losing it
+    return decide({status: 'pending_review', decidedBy: null, reason: 'error'}).catch(() => null);
+  }
+});
+
+module.exports = {
+  onIconicClaimCreate,
+  // Exported for the review script
+  scoreIconicClaim,
+  approveIconicClaim,
+  eatForScoring,
+  CLAIM_SCORING_VERSION,
+  CLAIM_AUTO_APPROVE_SCORE,
+  // Exposed for tests / emulator script
+  verifyEvidence,
+  photoEvidence,
+  mealPhotoPath,
+};
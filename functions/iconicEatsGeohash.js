@@ -0,0 +1,94 @@
+const {onDocumentWritten} = require('firebase-functions/v2/firestore');
+
+// Mirror of encodeGeohash in utils/geohash.ts on the client. Keep in sync —
+// the client's prefix queries only find docs hashed the same way.
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const GEOHASH_PRECISION = 9;
+
+function encodeGeohash(lat, lon, precision = GEOHASH_PRECISION) {
+  let latMin = -90;
+  let latMax = 90;
+  let lonMin = -180;
+  let lonMax = 180;
+  let hash = '';
+  let bits = 0;
+  let ch = 0;
+  let evenBit = true; // geohash interleaves bits starting with longitude
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lonMin + lonMax) / 2;
+      if (lon >= mid) {
+        ch = ch * 2 + 1;
+        lonMin = mid;
+      } else {
+        ch = ch * 2;
+        lonMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        ch = ch * 2 + 1;
+        latMin = mid;
+      } else {
+        ch = ch * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += BASE32[ch];
+      bits = 0;
+      ch = 0;
+    }
+  }
+  return hash;
+}
+
+/**
+ * The geohash a best_eats doc should carry, or null if its location is
+ * missing/malformed. `location` is a GeoPoint or a plain {latitude, longitude}.
+ */
+function geohashForIconicEat(data) {
+  const loc = data && data.location;
+  if (!loc) return null;
+  const lat = loc.latitude;
+  const lon = loc.longitude;
+  if (typeof lat !== 'number' || typeof lon !== 'number') return null;
+  return encodeGeohash(lat, lon);
+}
+
+/**
+ * Keep `geohash` in step with `location` on every best_eats write. The
+ * client's viewport query (fetchIconicEatsInCells) only sees docs that have
+ * it. Writes back only when the value differs, so the trigger's own update
+ * doesn't loop.
+ */
+const onBestEatWriteSetGeohash = onDocumentWritten('best_eats/{eatId}', async (event) => {
+  try {
+    const after = event.data && event.data.after;
+    if (!after || !after.exists) return null;
+    const data = after.data();
+    const geohash = geohashForIconicEat(data);
+    if (!geohash) {
+      console.log(`[iconicGeohash] ${event.params.eatId} has no location; skipping`);
+      return null;
+    }
+    if (data.geohash === geohash) return null;
+
+    await after.ref.update({geohash});
+    console.log(`[iconicGeohash] ${event.params.eatId} → ${geohash}`);
+    return null;
+  } catch (err) {
+    console.error('[iconicGeohash] trigger failed:', err);
+    return null;
+  }
+});
+
+module.exports = {
+  onBestEatWriteSetGeohash,
+  // Exported for the backfill script
+  encodeGeohash,
+  geohashForIconicEat,
+  GEOHASH_PRECISION,
+};
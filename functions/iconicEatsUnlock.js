@@ -1,5 +1,6 @@
 const {onDocumentCreated} = require('firebase-functions/v2/firestore');
 const {getFirestore, FieldValue} = require('firebase-admin/firestore');
+const {updateIconicChecklistProgress} = require('./iconicChecklists');
 
 const EARTH_RADIUS_KM = 6371;
 const PROXIMITY_KM = 0.05; // 50 meters
@@ -171,8 +172,9 @@ function findMatchingIconicEat(meal, candidates) {
 
 /**
  * Idempotent unlock: writes unlock subcollection doc, updates user profile
- * arrays, and stamps iconic_eat_id onto the meal. Safe to re-run — all writes
- * use merge / arrayUnion / set-if-missing semantics.
+ * arrays, and stamps iconic_eat_id onto the meal, then refreshes the user's
+ * checklist progress (functions/iconicChecklists.js). Safe to re-run — all
+ * writes use merge / arrayUnion / set-if-missing semantics.
  */
 async function applyIconicUnlock({db, userId, mealId, eatId, eatData}) {
   const unlockRef = db
@@ -219,6 +221,13 @@ async function applyIconicUnlock({db, userId, mealId, eatId, eatData}) {
   console.log(
     `[iconicEats] Unlocked ${eatId} for user ${userId} via meal ${mealId}`,
   );
+
+  // Checklist progress is best-effort: the unlock itself already landed
+  try {
+    await updateIconicChecklistProgress({db, userId, mealId, eatId});
+  } catch (err) {
+    console.error(`[iconicEats] Checklist progress failed for ${userId}/${eatId}:`, err);
+  }
   return {fresh: true};
 }
 
@@ -15,6 +15,18 @@ const {
 const {
   onMealCreateCheckIconicUnlock,
 } = require('./iconicEatsUnlock');
+const {onIconicClaimCreate} = require('./iconicClaims');
+const {onBestEatWriteSetGeohash} = require('./iconicEatsGeohash');
+const {onMealWriteSetGeohash} = require('./mealGeohash');
+const {
+  nightlyRecommendations,
+  refreshRecommendationsForUser,
+} = require('./recommendations');
+const {criticEligibilityJob} = require('./criticEligibility');
+const {nightlyLeaderboards, onUserLeaderboardOptOut} = require('./leaderboards');
+const {weeklyRecapJob} = require('./weeklyRecap');
+const {onAccountDeletionRequested, retryAccountDeletions} = require('./accountDeletion');
+const {onCommentWritten} = require('./comments');
 
 // Initialize Firebase Admin
 initializeApp();
@@ -1838,3 +1850,73 @@ exports.regenerateAllTasteStories = onRequest(
 // Phase M: on new meal creation, check if it matches a curated iconic eat
 // and unlock it for the user (see functions/iconicEatsUnlock.js).
 exports.onMealCreateCheckIconicUnlock = onMealCreateCheckIconicUnlock;
+
+// Manual "claim this iconic eat" from IconicEatModal: score the linked meal,
+// auto-approve confident claims and queue the rest for review (see
+// functions/iconicClaims.js, scripts/reviewIconicClaims.js).
+exports.onIconicClaimCreate = onIconicClaimCreate;
+
+// Keep best_eats.geohash in sync with location so the client can page
+// iconic eats by map viewport (see functions/iconicEatsGeohash.js).
+exports.onBestEatWriteSetGeohash = onBestEatWriteSetGeohash;
+
+// Same for mealEntries — the Discover feed pages meals by geohash cell
+// (see functions/mealGeohash.js).
+exports.onMealWriteSetGeohash = onMealWriteSetGeohash;
+
+// Meal comment counters, per-comment reaction counts and reply cleanup —
+// commenters can't write the meal doc or other people's replies (see
+// functions/comments.js).
+exports.onCommentWritten = onCommentWritten;
+
+// "People like you also loved" — nightly collaborative-filtering precompute
+// into users/{uid}/recommendations/summary (see functions/recommendations.js).
+exports.nightlyRecommendations = nightlyRecommendations;
+
+// On-demand recompute for the calling user, e.g. after a burst of new
+// ratings. Always the caller's own uid — recommendations (and the
+// neighbours behind them) are private. A recompute loads every user, so a
+// summary computed in the last few hours is kept as is.
+exports.refreshRecommendations = onCall({timeoutSeconds: 300, memory: '1GiB'}, async (request) => {
+  if (!request.auth) {
+    throw new Error('User must be authenticated');
+  }
+  const userId = request.auth.uid;
+  try {
+    const result = await refreshRecommendationsForUser(userId);
+    if (!result) {
+      return {success: true, userId, skipped: true};
+    }
+    return {
+      success: true,
+      userId,
+      restaurants: result.restaurants.length,
+      dishes: result.dishes.length,
+    };
+  } catch (err) {
+    console.error('[recommendations] refreshRecommendations error:', err);
+    throw new Error(`Failed to refresh recommendations: ${err.message}`);
+  }
+});
+
+// Food critic program: weekly award / revoke of users.isCritic with an
+// in-app notification (see functions/criticEligibility.js).
+exports.criticEligibilityJob = criticEligibilityJob;
+
+// City / cuisine / global leaderboards rebuilt nightly from mealEntries, and
+// opt-out cleanup (see functions/leaderboards.js).
+exports.nightlyLeaderboards = nightlyLeaderboards;
+exports.onUserLeaderboardOptOut = onUserLeaderboardOptOut;
+
+// Monday recap of the week that just ended into
+// users/{uid}/weekly_recaps/{weekKey} (see functions/weeklyRecap.js).
+exports.weeklyRecapJob = weeklyRecapJob;
+
+// GDPR account deletion: the client sets users/{uid}.deletionRequestedAt and
+// this cascades through meals, comments, cheers, follows, notifications and
+// Storage (see functions/accountDeletion.js).
+exports.onAccountDeletionRequested = onAccountDeletionRequested;
+
+// Nightly re-run of deletions that stopped part-way (see
+// functions/accountDeletion.js).
+exports.retryAccountDeletions = retryAccountDeletions;
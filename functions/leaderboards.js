@@ -0,0 +1,363 @@
+/**
+ * Leaderboards — "most restaurants visited in <city>", "most diverse
+ * cuisines", per period.
+ *
+ * Boards are rebuilt nightly from `mealEntries` alone (the same city /
+ * cuisine / restaurant extraction countRefreshService uses for the
+ * uniqueCities etc. counters, but never reading those counters), so a
+ * board can always be recomputed from scratch. User docs are read only for
+ * display name / photo and the `leaderboardOptOut` privacy flag.
+ *
+ * Boards:
+ *   global   cuisines     distinct cuisines logged
+ *   global   restaurants  distinct restaurants visited
+ *   city     <city>       distinct restaurants visited in that city
+ *   cuisine  <cuisine>    distinct restaurants visited for that cuisine
+ *
+ * Each board exists per period: weekly (ISO week, UTC), monthly (UTC) and
+ * all-time. A nightly run (00:30 UTC, so it agrees with the period keys)
+ * rewrites the *current* week/month and all-time; the first run after a week
+ * or month closes rebuilds it once more so its last day counts, and from then
+ * on it's left as final standings. A board of a recomputed period that no
+ * longer has anyone on it (meals deleted, last participant opted out) is
+ * deleted rather than left with its old standings.
+ *
+ * Ties share a rank (competition ranking: 1, 2, 2, 4). Within a tie, whoever
+ * reached the score first is listed first. `position` is the unique 1-based
+ * list order and is what clients page on.
+ *
+ * Data model:
+ *   leaderboards/{boardId} {
+ *     scope: 'global' | 'city' | 'cuisine', key, label,
+ *     period: 'weekly' | 'monthly' | 'all', periodKey,
+ *     entryCount, participantCount, computed_at
+ *   }
+ *   leaderboards/{boardId}/entries/{userId} {
+ *     userId, displayName, photoURL, score, rank, position, reached_at
+ *   }
+ *
+ * boardId = `${scope}__${key}__${periodKey}` with key slugified; the client
+ * builds the same ids in services/leaderboardService.ts.
+ *
+ * Privacy: users with `leaderboardOptOut: true` are skipped by the rebuild,
+ * and flipping the flag on removes them from every board immediately,
+ * including past weeks/months (onUserLeaderboardOptOut).
+ */
+
+const {onSchedule} = require('firebase-functions/v2/scheduler');
+const {onDocumentUpdated} = require('firebase-functions/v2/firestore');
+const {getFirestore, FieldValue, Timestamp} = require('firebase-admin/firestore');
+const {extractCity} = require('./tasteProfile');
+
+// Entries stored per board; participants beyond this aren't ranked.
+const MAX_ENTRIES = 500;
+const PERIODS = ['weekly', 'monthly', 'all'];
+
+// =============================================================================
+// Keys & periods
+// =============================================================================
+
+function slugify(value) {
+  return String(value || '')
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+}
+
+/** ISO-8601 week key in UTC, e.g. "2026-W42". */
+function isoWeekKey(date) {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day); // Thursday of this week decides the year
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((d - yearStart) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+function periodKey(period, date) {
+  if (period === 'weekly') return isoWeekKey(date);
+  if (period === 'monthly') {
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+  return 'all';
+}
+
+function boardId(scope, key, pKey) {
+  return `${scope}__${slugify(key)}__${pKey}`;
+}
+
+// =============================================================================
+// Extraction (mirrors countRefreshService / index.js helpers)
+// =============================================================================
+
+const JUNK = new Set(['', 'unknown', 'n/a', 'null']);
+
+function citiesForMeal(meal) {
+  if (Array.isArray(meal.cities) && meal.cities.length > 0) {
+    return meal.cities
+        .filter((c) => typeof c === 'string')
+        .map((c) => c.toLowerCase().trim())
+        .filter((c) => !JUNK.has(c));
+  }
+  const city = extractCity(meal);
+  return city && !JUNK.has(city) ? [city] : [];
+}
+
+function cuisineForMeal(meal) {
+  const sources = [
+    meal.metadata_enriched && meal.metadata_enriched.cuisine_type,
+    meal.quick_criteria_result && meal.quick_criteria_result.cuisine_type,
+    meal.aiMetadata && meal.aiMetadata.cuisineType,
+  ];
+  for (const source of sources) {
+    if (typeof source !== 'string') continue;
+    const cuisine = source.toLowerCase().trim();
+    if (!JUNK.has(cuisine)) return cuisine;
+  }
+  return null;
+}
+
+function restaurantForMeal(meal) {
+  if (!meal.restaurant || meal.mealType === 'Homemade') return null;
+  const name = String(meal.restaurant).split(',')[0].toLowerCase().trim();
+  return JUNK.has(name) ? null : name;
+}
+
+function toMillis(value) {
+  if (!value) return 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  return 0;
+}
+
+// =============================================================================
+// Aggregation (pure)
+// =============================================================================
+
+/**
+ * Build every board for the periods containing `now` from raw meal docs.
+ * Returns Map<boardId, {meta, scores: Map<userId, {items: Set, reachedAt}>}>.
+ * Meals must carry `userId` and `createdAt`.
+ */
+function aggregateBoards(meals, now = new Date(), excludedUserIds = new Set()) {
+  const periodKeys = {};
+  PERIODS.forEach((p) => {
+    periodKeys[p] = periodKey(p, now);
+  });
+
+  const boards = new Map();
+  const bump = (scope, key, label, period, userId, item, at) => {
+    const id = boardId(scope, key, periodKeys[period]);
+    let board = boards.get(id);
+    if (!board) {
+      board = {
+        meta: {scope, key: slugify(key), label, period, periodKey: periodKeys[period]},
+        scores: new Map(),
+      };
+      boards.set(id, board);
+    }
+    let score = board.scores.get(userId);
+    if (!score) {
+      score = {items: new Set(), reachedAt: 0};
+      board.scores.set(userId, score);
+    }
+    if (!score.items.has(item)) {
+      score.items.add(item);
+      score.reachedAt = Math.max(score.reachedAt, at);
+    }
+  };
+
+  // Oldest first, so reachedAt is when the user logged the item that took
+  // them to their final score.
+  const sorted = meals
+      .filter((m) => m.userId && !excludedUserIds.has(m.userId))
+      .map((m) => ({meal: m, at: toMillis(m.createdAt)}))
+      .filter((m) => m.at > 0)
+      .sort((a, b) => a.at - b.at);
+
+  for (const {meal, at} of sorted) {
+    const date = new Date(at);
+    const periods = PERIODS.filter((p) => periodKey(p, date) === periodKeys[p]);
+    if (periods.length === 0) continue;
+
+    const restaurant = restaurantForMeal(meal);
+    const cuisine = cuisineForMeal(meal);
+    const cities = citiesForMeal(meal);
+
+    for (const period of periods) {
+      if (cuisine) bump('global', 'cuisines', 'Most cuisines', period, meal.userId, cuisine, at);
+      if (!restaurant) continue;
+      bump('global', 'restaurants', 'Most restaurants', period, meal.userId, restaurant, at);
+      for (const city of cities) {
+        bump('city', city, city, period, meal.userId, `${restaurant}@${city}`, at);
+      }
+      if (cuisine) bump('cuisine', cuisine, cuisine, period, meal.userId, restaurant, at);
+    }
+  }
+
+  return boards;
+}
+
+/**
+ * Pure: turn a board's score map into ordered, ranked entries.
+ * Competition ranking; ties broken for display by reachedAt then userId.
+ */
+function rankEntries(scores, limit = MAX_ENTRIES) {
+  const ordered = Array.from(scores.entries())
+      .map(([userId, s]) => ({userId, score: s.items.size, reachedAt: s.reachedAt}))
+      .sort((a, b) => b.score - a.score || a.reachedAt - b.reachedAt || a.userId.localeCompare(b.userId));
+
+  let rank = 0;
+  return ordered.slice(0, limit).map((entry, i) => {
+    if (i === 0 || entry.score !== ordered[i - 1].score) rank = i + 1;
+    return {...entry, rank, position: i + 1};
+  });
+}
+
+// =============================================================================
+// Firestore
+// =============================================================================
+
+async function writeBoard(db, writer, id, board, ranked, profiles) {
+  const boardRef = db.collection('leaderboards').doc(id);
+
+  const existing = await boardRef.collection('entries').select().get();
+  const keep = new Set(ranked.map((e) => e.userId));
+  existing.forEach((doc) => {
+    if (!keep.has(doc.id)) writer.delete(doc.ref);
+  });
+
+  writer.set(boardRef, {
+    ...board.meta,
+    entryCount: ranked.length,
+    participantCount: board.scores.size,
+    computed_at: FieldValue.serverTimestamp(),
+  });
+  ranked.forEach((entry) => {
+    const profile = profiles.get(entry.userId) || {};
+    writer.set(boardRef.collection('entries').doc(entry.userId), {
+      userId: entry.userId,
+      displayName: profile.displayName || 'Foodie',
+      photoURL: profile.photoURL || null,
+      score: entry.score,
+      rank: entry.rank,
+      position: entry.position,
+      reached_at: Timestamp.fromMillis(entry.reachedAt),
+    });
+  });
+}
+
+/**
+ * Recompute every board for the periods containing `now`. With dryRun,
+ * nothing is written and the summary still lists each board's leader.
+ */
+async function recomputeLeaderboards({now = new Date(), dryRun = false} = {}) {
+  const db = getFirestore();
+  const [usersSnap, mealsSnap] = await Promise.all([
+    db.collection('users').get(),
+    db.collection('mealEntries').get(),
+  ]);
+
+  const profiles = new Map();
+  const optedOut = new Set();
+  usersSnap.forEach((doc) => {
+    const user = doc.data();
+    if (user.leaderboardOptOut === true) optedOut.add(doc.id);
+    profiles.set(doc.id, {displayName: user.displayName, photoURL: user.photoURL});
+  });
+
+  const meals = mealsSnap.docs.map((doc) => doc.data());
+  const boards = aggregateBoards(meals, now, optedOut);
+
+  const summary = {dryRun, boards: boards.size, entries: 0, optedOut: optedOut.size, removed: 0, leaders: []};
+  const writer = dryRun ? null : db.bulkWriter();
+
+  for (const [id, board] of boards) {
+    const ranked = rankEntries(board.scores);
+    summary.entries += ranked.length;
+    if (ranked[0]) summary.leaders.push({boardId: id, userId: ranked[0].userId, score: ranked[0].score});
+    if (writer) await writeBoard(db, writer, id, board, ranked, profiles);
+  }
+
+  // aggregateBoards only returns boards that still have participants; any
+  // other board for these periods is stale.
+  const periodKeys = PERIODS.map((p) => periodKey(p, now));
+  const existingSnap = await db.collection('leaderboards').where('periodKey', 'in', periodKeys).select().get();
+  const stale = existingSnap.docs.filter((doc) => !boards.has(doc.id));
+  summary.removed = stale.length;
+  if (writer) {
+    for (const doc of stale) await db.recursiveDelete(doc.ref, writer);
+    await writer.close();
+  }
+
+  console.log(
+      `[leaderboards] ${dryRun ? 'DRY RUN ' : ''}boards=${summary.boards} entries=${summary.entries} ` +
+      `optedOut=${summary.optedOut} removed=${summary.removed}`,
+  );
+  return summary;
+}
+
+/**
+ * Delete a user's entry from every board, past periods included. Entry ids
+ * are user ids, so this is one delete per board and no query.
+ */
+async function removeUserFromLeaderboards(userId) {
+  const db = getFirestore();
+  const boardsSnap = await db.collection('leaderboards').select().get();
+  const writer = db.bulkWriter();
+  boardsSnap.forEach((doc) => writer.delete(doc.ref.collection('entries').doc(userId)));
+  await writer.close();
+  console.log(`[leaderboards] removed ${userId} from ${boardsSnap.size} boards`);
+}
+
+const onUserLeaderboardOptOut = onDocumentUpdated('users/{userId}', async (event) => {
+  const before = event.data.before.data() || {};
+  const after = event.data.after.data() || {};
+  if (after.leaderboardOptOut !== true || before.leaderboardOptOut === true) return;
+  try {
+    await removeUserFromLeaderboards(event.params.userId);
+  } catch (err) {
+    console.error('[leaderboards] opt-out cleanup failed:', err);
+  }
+});
+
+// Nightly at 00:30 UTC. Periods are UTC, so on the day after a week or
+// month ends, yesterday's period is rebuilt first to finalize it.
+const nightlyLeaderboards = onSchedule({
+  schedule: '30 0 * * *',
+  timeZone: 'UTC',
+  timeoutSeconds: 540,
+  memory: '1GiB',
+}, async () => {
+  try {
+    const now = new Date();
+    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    if (['weekly', 'monthly'].some((p) => periodKey(p, yesterday) !== periodKey(p, now))) {
+      await recomputeLeaderboards({now: yesterday});
+    }
+    await recomputeLeaderboards({now});
+  } catch (err) {
+    console.error('[leaderboards] nightly recompute failed:', err);
+  }
+});
+
+module.exports = {
+  nightlyLeaderboards,
+  onUserLeaderboardOptOut,
+  recomputeLeaderboards,
+  removeUserFromLeaderboards,
+  // Exposed for the recompute script + unit tests
+  aggregateBoards,
+  rankEntries,
+  boardId,
+  periodKey,
+  isoWeekKey,
+  slugify,
+  // Shared with weeklyRecap.js
+  citiesForMeal,
+  cuisineForMeal,
+  restaurantForMeal,
+  toMillis,
+};
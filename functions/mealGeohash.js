@@ -0,0 +1,45 @@
+const {onDocumentWritten} = require('firebase-functions/v2/firestore');
+const {FieldValue} = require('firebase-admin/firestore');
+const {encodeGeohash} = require('./iconicEatsGeohash');
+
+/**
+ * The geohash a mealEntries doc should carry, or null if it has no usable
+ * location.
+ */
+function geohashForMeal(meal) {
+  const loc = meal && meal.location;
+  if (!loc) return null;
+  if (typeof loc.latitude !== 'number' || typeof loc.longitude !== 'number') {
+    return null;
+  }
+  return encodeGeohash(loc.latitude, loc.longitude);
+}
+
+/**
+ * Keep `geohash` in step with `location` on every meal write — the Discover
+ * feed (services/discoverFeedService.ts) pages meals by geohash cell. Writes
+ * back only when the value differs, so the trigger's own update doesn't
+ * loop. A meal whose location is removed loses its geohash too.
+ */
+const onMealWriteSetGeohash = onDocumentWritten('mealEntries/{mealId}', async (event) => {
+  try {
+    const after = event.data && event.data.after;
+    if (!after || !after.exists) return null;
+    const meal = after.data();
+    const geohash = geohashForMeal(meal);
+    if ((meal.geohash || null) === geohash) return null;
+
+    await after.ref.update({geohash: geohash || FieldValue.delete()});
+    console.log(`[mealGeohash] ${event.params.mealId} → ${geohash || '(cleared)'}`);
+    return null;
+  } catch (err) {
+    console.error('[mealGeohash] trigger failed:', err);
+    return null;
+  }
+});
+
+module.exports = {
+  onMealWriteSetGeohash,
+  // Exported for the backfill script
+  geohashForMeal,
+};
@@ -0,0 +1,417 @@
+/**
+ * Recommendations — "people like you also loved" (collaborative filtering)
+ *
+ * For each user we find their nearest neighbours and recommend restaurants
+ * and dishes those neighbours loved that the user hasn't logged yet. The
+ * result is precomputed here and written to
+ * `users/{uid}/recommendations/summary`; the client only reads it
+ * (services/recommendationService.ts, utils/useRecommendations.ts).
+ *
+ * Similarity between two users blends two signals:
+ *   - taste: cosine similarity of their taste_profile tag_scores vectors
+ *     (see tasteProfile.js — "field::value" → weighted score)
+ *   - co-rating: cosine similarity of their centred ratings (rating - 3.5)
+ *     on the restaurants and dishes they've both logged, shrunk toward 0
+ *     when the overlap is small so one shared meal can't dominate
+ *
+ *   similarity = TASTE_WEIGHT * taste + (1 - TASTE_WEIGHT) * coRating
+ *
+ * A candidate item's score is the similarity-weighted sum of its
+ * neighbours' centred ratings, so it only surfaces things neighbours rated
+ * above neutral. Items the user already logged are skipped.
+ *
+ * Users aren't compared with everyone. `buildNeighborIndex` maps each
+ * rated item and each user's top taste tags to the users behind them;
+ * a user's candidates are the people sharing the most items or tags with
+ * them (capped at MAX_CANDIDATES, reading at most MAX_USERS_PER_KEY users
+ * per item or tag), and similarity is only computed for those. Users with
+ * nothing in common would score ~0 anyway.
+ *
+ * Data model:
+ *   users/{uid}/recommendations/summary {
+ *     restaurants: [{key, name, place_id, city, score, supporters, meal_id, photo_url}],
+ *     dishes:      [{key, dish, restaurant, place_id, city, score, supporters, meal_id, photo_url}],
+ *     neighbors:   [{userId, similarity, overlap}],
+ *     computed_at
+ *   }
+ *
+ * Everything but the Firestore reads/writes is pure, so the emulator seed
+ * script (functions/scripts/seedRecommendationsEmulator.js) exercises the
+ * same code path as production.
+ */
+
+const {onSchedule} = require('firebase-functions/v2/scheduler');
+const {getFirestore, FieldValue} = require('firebase-admin/firestore');
+const {normalizeRestaurantName} = require('./iconicEatsUnlock');
+
+const NEUTRAL_RATING = 3.5; // 1–6 scale, same neutral as tasteProfile.js
+const TASTE_WEIGHT = 0.4;
+// Overlap at which co-rating similarity reaches half strength.
+const OVERLAP_SHRINKAGE = 3;
+const MAX_NEIGHBORS = 25;
+const MIN_SIMILARITY = 0.05;
+// Only meals rated at least this highly can be recommended.
+const LOVED_RATING = 5;
+const MAX_RESTAURANTS = 20;
+const MAX_DISHES = 30;
+// Candidate neighbours per user, and how many users one item or tag can
+// contribute (a hugely popular place says little about taste anyway).
+const MAX_CANDIDATES = 300;
+const MAX_USERS_PER_KEY = 200;
+const TOP_TAGS = 15;
+// On-demand refreshes reuse a summary computed this recently instead of
+// loading every user again.
+const REFRESH_MIN_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// =============================================================================
+// Item keys
+// =============================================================================
+
+function extractCity(meal) {
+  const raw = (meal && meal.city) || (meal && meal.location && meal.location.city) || null;
+  return raw ? String(raw).toLowerCase().trim() : null;
+}
+
+/**
+ * Stable key for a meal's restaurant: the Google place_id when we have it,
+ * otherwise the normalized name scoped to the city (so two "Joe's" in
+ * different cities stay distinct). Null for homemade / unnamed meals.
+ */
+function restaurantKey(meal) {
+  if (!meal || meal.mealType === 'Homemade') return null;
+  if (meal.place_id) return `place:${meal.place_id}`;
+  const name = normalizeRestaurantName(meal.restaurant);
+  if (!name) return null;
+  return `name:${name}@${extractCity(meal) || ''}`;
+}
+
+function dishKey(meal) {
+  const r = restaurantKey(meal);
+  const dish = normalizeRestaurantName(meal && meal.meal);
+  if (!r || !dish) return null;
+  return `${r}::${dish}`;
+}
+
+// =============================================================================
+// Similarity
+// =============================================================================
+
+function cosine(a, b) {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (const [k, v] of Object.entries(a)) {
+    na += v * v;
+    if (typeof b[k] === 'number') dot += v * b[k];
+  }
+  for (const v of Object.values(b)) nb += v * v;
+  if (na === 0 || nb === 0) return 0;
+  return dot / Math.sqrt(na * nb);
+}
+
+/**
+ * Per-user rating vector over restaurants and dishes, centred on neutral.
+ * Repeat visits to the same item average out.
+ */
+function buildRatingVector(meals) {
+  const sums = {};
+  const counts = {};
+  const add = (key, value) => {
+    if (!key) return;
+    sums[key] = (sums[key] || 0) + value;
+    counts[key] = (counts[key] || 0) + 1;
+  };
+  for (const meal of meals) {
+    if (typeof meal.rating !== 'number' || meal.rating <= 0) continue;
+    const centred = meal.rating - NEUTRAL_RATING;
+    add(restaurantKey(meal), centred);
+    add(dishKey(meal), centred);
+  }
+  const out = {};
+  for (const key of Object.keys(sums)) out[key] = sums[key] / counts[key];
+  return out;
+}
+
+/**
+ * Blend taste-profile and co-rating similarity for one pair of users.
+ * Returns {similarity, taste, coRating, overlap}.
+ */
+function userSimilarity(a, b) {
+  const taste = cosine(a.tagScores || {}, b.tagScores || {});
+
+  const shared = Object.keys(a.ratings).filter((k) => k in b.ratings);
+  let coRating = 0;
+  if (shared.length > 0) {
+    const va = {};
+    const vb = {};
+    shared.forEach((k) => {
+      va[k] = a.ratings[k];
+      vb[k] = b.ratings[k];
+    });
+    coRating = cosine(va, vb) * (shared.length / (shared.length + OVERLAP_SHRINKAGE));
+  }
+
+  return {
+    similarity: TASTE_WEIGHT * taste + (1 - TASTE_WEIGHT) * coRating,
+    taste,
+    coRating,
+    overlap: shared.length,
+  };
+}
+
+// =============================================================================
+// Candidate neighbours
+// =============================================================================
+
+function topTags(tagScores) {
+  return Object.entries(tagScores)
+      .filter(([, score]) => score > 0)
+      .sort((x, y) => y[1] - x[1])
+      .slice(0, TOP_TAGS)
+      .map(([tag]) => tag);
+}
+
+/**
+ * Prepare every user once (rating vectors) and index them by rated item
+ * and top taste tags. Build it once per dataset and pass it to each
+ * recommendForUser call.
+ */
+function buildNeighborIndex(users) {
+  const prepared = new Map();
+  const byKey = new Map();
+  const add = (key, userId) => {
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key).push(userId);
+  };
+  for (const u of users) {
+    const user = {
+      userId: u.userId,
+      tagScores: u.tagScores || {},
+      meals: u.meals || [],
+      ratings: buildRatingVector(u.meals || []),
+    };
+    prepared.set(u.userId, user);
+    Object.keys(user.ratings).forEach((key) => add(key, u.userId));
+    topTags(user.tagScores).forEach((tag) => add(`tag:${tag}`, u.userId));
+  }
+  return {prepared, byKey};
+}
+
+/** Users sharing the most rated items / top tags with `target`. */
+function candidatesFor(target, index) {
+  const hits = new Map();
+  const count = (key) => {
+    (index.byKey.get(key) || []).slice(0, MAX_USERS_PER_KEY).forEach((userId) => {
+      if (userId !== target.userId) hits.set(userId, (hits.get(userId) || 0) + 1);
+    });
+  };
+  Object.keys(target.ratings).forEach(count);
+  topTags(target.tagScores).forEach((tag) => count(`tag:${tag}`));
+  return Array.from(hits.entries())
+      .sort((x, y) => y[1] - x[1])
+      .slice(0, MAX_CANDIDATES)
+      .map(([userId]) => index.prepared.get(userId));
+}
+
+// =============================================================================
+// Recommendation
+// =============================================================================
+
+/**
+ * Pure core: given every user's {userId, tagScores, meals}, recommend for
+ * `targetId`. `users` may include the target. Pass a prebuilt `index`
+ * (buildNeighborIndex) when recommending for many users from one dataset.
+ */
+function recommendForUser(targetId, users, index = buildNeighborIndex(users)) {
+  const target = index.prepared.get(targetId);
+  if (!target) return {restaurants: [], dishes: [], neighbors: []};
+
+  const neighbors = candidatesFor(target, index)
+      .map((u) => ({user: u, ...userSimilarity(target, u)}))
+      .filter((n) => n.similarity >= MIN_SIMILARITY)
+      .sort((x, y) => y.similarity - x.similarity)
+      .slice(0, MAX_NEIGHBORS);
+
+  const logged = new Set(Object.keys(target.ratings));
+  const restaurants = new Map();
+  const dishes = new Map();
+
+  const accumulate = (map, key, meal, neighbor, build) => {
+    if (!key || logged.has(key)) return;
+    let entry = map.get(key);
+    if (!entry) {
+      entry = {...build(), key, score: 0, supporters: 0, best: null};
+      map.set(key, entry);
+    }
+    entry.score += neighbor.similarity * (meal.rating - NEUTRAL_RATING);
+    entry.supporters += 1;
+    if (!entry.best || meal.rating > entry.best.rating) entry.best = meal;
+  };
+
+  for (const n of neighbors) {
+    for (const meal of n.user.meals) {
+      if (typeof meal.rating !== 'number' || meal.rating < LOVED_RATING) continue;
+      accumulate(restaurants, restaurantKey(meal), meal, n, () => ({
+        name: meal.restaurant || '',
+        place_id: meal.place_id || null,
+        city: extractCity(meal),
+      }));
+      accumulate(dishes, dishKey(meal), meal, n, () => ({
+        dish: meal.meal || '',
+        restaurant: meal.restaurant || '',
+        place_id: meal.place_id || null,
+        city: extractCity(meal),
+      }));
+    }
+  }
+
+  const finish = (map, limit) => Array.from(map.values())
+      .sort((x, y) => y.score - x.score || y.supporters - x.supporters)
+      .slice(0, limit)
+      .map(({best, ...rest}) => ({
+        ...rest,
+        score: Math.round(rest.score * 1000) / 1000,
+        meal_id: best ? best._id : null,
+        photo_url: best ? best.photoUrl || null : null,
+      }));
+
+  return {
+    restaurants: finish(restaurants, MAX_RESTAURANTS),
+    dishes: finish(dishes, MAX_DISHES),
+    neighbors: neighbors.map((n) => ({
+      userId: n.user.userId,
+      similarity: Math.round(n.similarity * 1000) / 1000,
+      overlap: n.overlap,
+    })),
+  };
+}
+
+// =============================================================================
+// Firestore
+// =============================================================================
+
+/**
+ * Load every user's rated meals and taste-profile tag_scores in two reads.
+ * Fine at the current scale (a full scan, like dailyCountRefresh); shard by
+ * city if the collection outgrows a single function run.
+ */
+async function loadAllUsers(db) {
+  const byUser = new Map();
+  const ensure = (userId) => {
+    if (!byUser.has(userId)) byUser.set(userId, {userId, tagScores: {}, meals: []});
+    return byUser.get(userId);
+  };
+
+  const mealsSnap = await db.collection('mealEntries').where('rating', '>', 0).get();
+  mealsSnap.forEach((doc) => {
+    const meal = doc.data();
+    if (!meal.userId) return;
+    ensure(meal.userId).meals.push({_id: doc.id, ...meal});
+  });
+
+  // Collection-group read of every users/{uid}/taste_profile/summary.
+  const profilesSnap = await db.collectionGroup('taste_profile').get();
+  profilesSnap.forEach((doc) => {
+    if (doc.id !== 'summary') return;
+    const userId = doc.ref.parent.parent && doc.ref.parent.parent.id;
+    if (!userId) return;
+    ensure(userId).tagScores = doc.data().tag_scores || {};
+  });
+
+  return Array.from(byUser.values());
+}
+
+async function writeRecommendations(db, userId, result) {
+  await db
+      .collection('users')
+      .doc(userId)
+      .collection('recommendations')
+      .doc('summary')
+      .set({...result, computed_at: FieldValue.serverTimestamp()});
+}
+
+/**
+ * Recompute and store recommendations for one user. Pass `users` and its
+ * `index` to reuse an already-loaded dataset (the nightly batch does).
+ */
+async function computeRecommendationsForUser(userId, users, index) {
+  const db = getFirestore();
+  const dataset = users || await loadAllUsers(db);
+  const result = recommendForUser(userId, dataset, index || buildNeighborIndex(dataset));
+  await writeRecommendations(db, userId, result);
+  console.log(
+      `[recommendations] ${userId}: ${result.neighbors.length} neighbours, ` +
+      `${result.restaurants.length} restaurants, ${result.dishes.length} dishes`,
+  );
+  return result;
+}
+
+/**
+ * On-demand recompute for one user, skipped when their summary was computed
+ * within REFRESH_MIN_INTERVAL_MS. Returns the result, or null when skipped.
+ */
+async function refreshRecommendationsForUser(userId, now = Date.now()) {
+  const db = getFirestore();
+  const summary = await db
+      .collection('users')
+      .doc(userId)
+      .collection('recommendations')
+      .doc('summary')
+      .get();
+  const computedAt = summary.exists && summary.get('computed_at');
+  if (computedAt && now - computedAt.toMillis() < REFRESH_MIN_INTERVAL_MS) {
+    return null;
+  }
+  return computeRecommendationsForUser(userId);
+}
+
+/**
+ * Nightly batch: one dataset load and index, then every user with at least
+ * one rated meal.
+ */
+async function computeAllRecommendations() {
+  const db = getFirestore();
+  const users = await loadAllUsers(db);
+  const index = buildNeighborIndex(users);
+  let processed = 0;
+  for (const user of users) {
+    if (user.meals.length === 0) continue;
+    try {
+      await computeRecommendationsForUser(user.userId, users, index);
+      processed++;
+    } catch (err) {
+      console.error(`[recommendations] failed for ${user.userId}:`, err);
+    }
+  }
+  console.log(`[recommendations] batch complete: ${processed} users`);
+  return processed;
+}
+
+// Nightly at 3 AM PST, after dailyCountRefresh has settled.
+const nightlyRecommendations = onSchedule({
+  schedule: '0 3 * * *',
+  timeZone: 'America/Los_Angeles',
+  timeoutSeconds: 540,
+  memory: '1GiB',
+}, async () => {
+  try {
+    await computeAllRecommendations();
+  } catch (err) {
+    console.error('[recommendations] nightly batch failed:', err);
+  }
+});
+
+module.exports = {
+  nightlyRecommendations,
+  computeRecommendationsForUser,
+  refreshRecommendationsForUser,
+  computeAllRecommendations,
+  // Exposed for tests / emulator seed script
+  recommendForUser,
+  buildNeighborIndex,
+  userSimilarity,
+  buildRatingVector,
+  restaurantKey,
+  dishKey,
+  loadAllUsers,
+};
@@ -0,0 +1,187 @@
+/**
+ * Seed the Firestore emulator with a user who has touched other people's
+ * data, delete them (functions/accountDeletion.js) and check that nothing
+ * of theirs is left and the counters the cascade owns are right. Comment
+ * counters are onCommentWritten's (functions/comments.js) and aren't
+ * checked here. Exits 1 on the first failed check.
+ *
+ * Refuses to run unless FIRESTORE_EMULATOR_HOST is set, so it can never
+ * touch production data.
+ *
+ * Usage (from functions/):
+ *   npm run emulators                     # in another terminal
+ *   FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 node scripts/accountDeletionEmulator.js
+ *
+ * Storage and Auth are skipped; the Firestore emulator has no bucket or
+ * users to delete.
+ */
+
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+  console.error('FIRESTORE_EMULATOR_HOST is not set — refusing to run against a live project.');
+  process.exit(1);
+}
+
+const assert = require('assert');
+const {initializeApp} = require('firebase-admin/app');
+const {getFirestore} = require('firebase-admin/firestore');
+
+initializeApp({projectId: process.env.GCLOUD_PROJECT || 'dishitout-explorer'});
+
+const {deleteAccountData} = require('../accountDeletion');
+
+const db = getFirestore();
+const LEAVER = 'seed_leaver';
+const ALEX = 'seed_alex';
+const BEA = 'seed_bea';
+
+const meal = (id) => db.collection('mealEntries').doc(id);
+const user = (id) => db.collection('users').doc(id);
+const comment = (mealId, id) => meal(mealId).collection('comments').doc(id);
+
+async function reset() {
+  for (const ref of [meal('seed_leaver_meal'), meal('seed_alex_meal'), user(LEAVER), user(ALEX), user(BEA)]) {
+    await db.recursiveDelete(ref);
+  }
+  const stale = await db.collection('notifications').where('seed', '==', true).get();
+  await Promise.all(stale.docs.map((doc) => doc.ref.delete()));
+  await db.collection('userAchievements').doc('seed_legacy').delete();
+  await db.collection('iconic_claims').doc('seed_claim').delete();
+  await db.collection('account_deletions').doc(LEAVER).delete();
+}
+
+async function seed() {
+  const batch = db.batch();
+  batch.set(user(LEAVER), {displayName: 'Leaver', followersCount: 1, followingCount: 1});
+  batch.set(user(ALEX), {displayName: 'Alex', followersCount: 1, followingCount: 0});
+  batch.set(user(BEA), {displayName: 'Bea', followersCount: 0, followingCount: 1});
+
+  // Leaver follows Alex; Bea follows Leaver
+  const edge = (follower, following) => ({followerId: follower, followingId: following});
+  batch.set(user(LEAVER).collection('following').doc(ALEX), edge(LEAVER, ALEX));
+  batch.set(user(ALEX).collection('followers').doc(LEAVER), edge(LEAVER, ALEX));
+  batch.set(user(BEA).collection('following').doc(LEAVER), edge(BEA, LEAVER));
+  batch.set(user(LEAVER).collection('followers').doc(BEA), edge(BEA, LEAVER));
+
+  // Leaver's own meal, with Alex's comment and cheer on it
+  batch.set(meal('seed_leaver_meal'), {userId: LEAVER, meal: 'Ramen', commentCount: 1, cheersCount: 1});
+  batch.set(comment('seed_leaver_meal', 'c0'), {userId: ALEX, text: 'Looks great', parentId: null});
+  batch.set(meal('seed_leaver_meal').collection('cheers').doc(ALEX), {userId: ALEX});
+  batch.set(user(BEA).collection('savedMeals').doc('seed_leaver_meal'), {mealId: 'seed_leaver_meal', userId: LEAVER});
+
+  // Alex's meal:
+  //   c1  Leaver, no replies                      → deleted (1 heart from Alex)
+  //   c2  Leaver, Bea replied (c3)                → anonymized
+  //   c4  Bea, Leaver replied (c5), Leaver ❤️ c4   → c5 deleted, reaction removed
+  batch.set(meal('seed_alex_meal'), {
+    userId: ALEX,
+    meal: 'Tacos',
+    commentCount: 5,
+    commentReactionCount: 2,
+    cheersCount: 2,
+  });
+  batch.set(comment('seed_alex_meal', 'c1'), {
+    userId: LEAVER, text: 'Yum', parentId: null,
+    reactions: {[ALEX]: ['heart']}, reactionCounts: {heart: 1}, reactorIds: [ALEX],
+  });
+  batch.set(comment('seed_alex_meal', 'c1').collection('edits').doc('e1'), {text: 'Yumm'});
+  batch.set(comment('seed_alex_meal', 'c2'), {
+    userId: LEAVER, userName: 'Leaver', text: 'Where is this?', parentId: null,
+  });
+  batch.set(comment('seed_alex_meal', 'c3'), {userId: BEA, text: 'Downtown', parentId: 'c2'});
+  batch.set(comment('seed_alex_meal', 'c4'), {
+    userId: BEA, text: 'Best tacos', parentId: null,
+    reactions: {[LEAVER]: ['heart']}, reactionCounts: {heart: 1}, reactorIds: [LEAVER],
+  });
+  batch.set(comment('seed_alex_meal', 'c5'), {userId: LEAVER, text: 'Agreed', parentId: 'c4'});
+  batch.set(meal('seed_alex_meal').collection('cheers').doc(LEAVER), {userId: LEAVER});
+  batch.set(meal('seed_alex_meal').collection('cheers').doc(BEA), {userId: BEA});
+
+  batch.set(db.collection('notifications').doc('seed_n1'), {seed: true, userId: LEAVER, fromUser: {id: ALEX}});
+  batch.set(db.collection('notifications').doc('seed_n2'), {seed: true, userId: ALEX, fromUser: {id: LEAVER}});
+  batch.set(db.collection('notifications').doc('seed_n3'), {seed: true, userId: ALEX, fromUser: {id: BEA}});
+  batch.set(db.collection('userAchievements').doc('seed_legacy'), {userId: LEAVER, achievementId: 'first_bite'});
+  batch.set(db.collection('iconic_claims').doc('seed_claim'),
+      {userId: LEAVER, eatId: 'seed_eat', mealId: 'seed_leaver_meal', status: 'pending_review'});
+  batch.set(user(LEAVER).collection('achievements').doc('a1'), {userId: LEAVER, achievementId: 'first_bite'});
+  await batch.commit();
+}
+
+async function exists(ref) {
+  return (await ref.get()).exists;
+}
+
+async function check() {
+  assert.strictEqual(await exists(meal('seed_leaver_meal')), false, 'own meal deleted');
+  assert.strictEqual(await exists(comment('seed_leaver_meal', 'c0')), false, 'comments on own meal deleted');
+  assert.strictEqual(await exists(user(LEAVER)), false, 'user doc deleted');
+  assert.strictEqual(await exists(user(LEAVER).collection('achievements').doc('a1')), false, 'subcollections deleted');
+
+  assert.strictEqual(await exists(comment('seed_alex_meal', 'c1')), false, 'unanswered comment deleted');
+  assert.strictEqual(await exists(comment('seed_alex_meal', 'c1').collection('edits').doc('e1')), false,
+      'edit history deleted');
+  const c2 = (await comment('seed_alex_meal', 'c2').get()).data();
+  assert.deepStrictEqual([c2.userId, c2.userName, c2.text, c2.deleted], ['deleted', 'Deleted user', '', true],
+      'answered comment anonymized');
+  assert.strictEqual(await exists(comment('seed_alex_meal', 'c3')), true, 'other people\'s replies kept');
+  assert.strictEqual(await exists(comment('seed_alex_meal', 'c5')), false, 'reply deleted');
+  const c4 = (await comment('seed_alex_meal', 'c4').get()).data();
+  assert.strictEqual(LEAVER in c4.reactions, false, 'reaction removed');
+
+  const alexMeal = (await meal('seed_alex_meal').get()).data();
+  assert.strictEqual(alexMeal.cheersCount, 1, 'cheersCount decremented');
+  assert.strictEqual(await exists(meal('seed_alex_meal').collection('cheers').doc(LEAVER)), false, 'cheer deleted');
+
+  const alex = (await user(ALEX).get()).data();
+  const bea = (await user(BEA).get()).data();
+  assert.strictEqual(alex.followersCount, 0, 'followersCount decremented');
+  assert.strictEqual(bea.followingCount, 0, 'followingCount decremented');
+  assert.strictEqual(await exists(user(ALEX).collection('followers').doc(LEAVER)), false, 'follower edge deleted');
+  assert.strictEqual(await exists(user(BEA).collection('following').doc(LEAVER)), false, 'following edge deleted');
+  assert.strictEqual(await exists(user(BEA).collection('savedMeals').doc('seed_leaver_meal')), false,
+      'saved copy deleted');
+
+  assert.strictEqual(await exists(db.collection('notifications').doc('seed_n1')), false, 'notification to deleted');
+  assert.strictEqual(await exists(db.collection('notifications').doc('seed_n2')), false, 'notification from deleted');
+  assert.strictEqual(await exists(db.collection('notifications').doc('seed_n3')), true, 'unrelated notification kept');
+  assert.strictEqual(await exists(db.collection('userAchievements').doc('seed_legacy')), false,
+      'legacy achievement deleted');
+  assert.strictEqual(await exists(db.collection('iconic_claims').doc('seed_claim')), false, 'iconic claim deleted');
+}
+
+async function main() {
+  await reset();
+  await seed();
+
+  const dry = await deleteAccountData(LEAVER, {dryRun: true, storage: false, auth: false});
+  assert.strictEqual(await exists(comment('seed_alex_meal', 'c1')), true, 'dry run writes nothing');
+  assert.deepStrictEqual(
+      [dry.deleted.meals, dry.deleted.comments, dry.anonymized.comments, dry.deleted.reactions, dry.deleted.cheers],
+      [1, 2, 1, 1, 1],
+      'dry run counts',
+  );
+
+  const report = await deleteAccountData(LEAVER, {storage: false, auth: false});
+  assert.deepStrictEqual(report.errors, [], 'no errors');
+  assert.strictEqual(report.status, 'complete', 'run marked complete');
+  await check();
+  assert.strictEqual(await exists(db.collection('account_deletions').doc(LEAVER)), true, 'report stored');
+
+  // A second run finds nothing left and changes nothing
+  const again = await deleteAccountData(LEAVER, {storage: false, auth: false});
+  assert.deepStrictEqual([again.deleted.comments, again.anonymized.comments, again.deleted.meals], [0, 0, 0]);
+  await check();
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Emulator:    ${process.env.FIRESTORE_EMULATOR_HOST}`);
+  console.log(`Deleted:     ${JSON.stringify(report.deleted)}`);
+  console.log(`Anonymized:  ${report.anonymized.comments} comments`);
+  console.log(`Subcollections: ${report.userSubcollections.join(', ')}`);
+  console.log('All checks passed');
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error('Account deletion check failed:', err);
+      process.exit(1);
+    });
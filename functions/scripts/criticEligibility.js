@@ -0,0 +1,69 @@
+/**
+ * Run the food critic eligibility engine by hand
+ * (see functions/criticEligibility.js). Dry run by default: prints who
+ * would be awarded or revoked and why, without writing anything.
+ *
+ * Usage (from functions/):
+ *   node scripts/criticEligibility.js            # dry run, report only
+ *   node scripts/criticEligibility.js --apply    # award / revoke + notify
+ *   node scripts/criticEligibility.js --json     # dump the full report
+ *
+ * Works against the emulator too: set FIRESTORE_EMULATOR_HOST and the
+ * service account isn't needed.
+ */
+const admin = require('firebase-admin');
+
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  admin.initializeApp({projectId: process.env.GCLOUD_PROJECT || 'dishitout-explorer'});
+} else {
+  const serviceAccount = require('../../firebase-service-account.json');
+  admin.initializeApp({credential: admin.credential.cert(serviceAccount)});
+}
+
+const {runCriticEligibility, AWARD, RETAIN} = require('../criticEligibility');
+
+const apply = process.argv.includes('--apply');
+const asJson = process.argv.includes('--json');
+
+function formatStats(stats) {
+  return `meals ${stats.ratedMeals} (recent ${stats.recentMeals}), cuisines ${stats.cuisineCount}, ` +
+    `followers ${stats.followers}, cheers ${stats.cheers}`;
+}
+
+async function main() {
+  console.log(`Award thresholds:  ${JSON.stringify(AWARD)}`);
+  console.log(`Retain thresholds: ${JSON.stringify(RETAIN)}\n`);
+
+  const report = await runCriticEligibility({dryRun: !apply});
+
+  if (asJson) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`\n${apply ? 'Awarded' : 'Would award'}:`);
+    report.awarded.forEach((e) => {
+      console.log(`  + ${e.displayName || e.userId} — ${formatStats(e.stats)}`);
+      console.log(`      specialties: ${[...e.specialties.cuisines, ...e.specialties.cities].join(', ') || '—'}`);
+    });
+    console.log(`\n${apply ? 'Revoked' : 'Would revoke'}:`);
+    report.revoked.forEach((e) => {
+      console.log(`  - ${e.displayName || e.userId} — ${e.reason}`);
+    });
+  }
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Mode:       ${apply ? 'APPLY' : 'DRY RUN'}`);
+  console.log(`Evaluated:  ${report.evaluated}`);
+  console.log(`Awarded:    ${report.awarded.length}`);
+  console.log(`Revoked:    ${report.revoked.length}`);
+  console.log(`Retained:   ${report.retained}`);
+  if (!apply && (report.awarded.length > 0 || report.revoked.length > 0)) {
+    console.log('\nRe-run with --apply to write these changes.');
+  }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error('Critic eligibility failed:', err);
+      process.exit(1);
+    });
@@ -0,0 +1,82 @@
+/**
+ * Delete a user's account and everything they own (see
+ * functions/accountDeletion.js). Dry run by default: prints what would be
+ * deleted, anonymized and decremented without writing.
+ *
+ * Usage (from functions/):
+ *   node scripts/deleteUserAccount.js <uid>                 # dry run
+ *   node scripts/deleteUserAccount.js <uid> --apply         # delete
+ *   node scripts/deleteUserAccount.js <uid> --apply --keep-auth
+ *
+ * --keep-auth leaves the Firebase Auth user in place (e.g. to re-run a
+ * cascade that failed part-way for someone who asked to keep their login).
+ * Works against the emulator when FIRESTORE_EMULATOR_HOST is set;
+ * scripts/accountDeletionEmulator.js seeds a scenario and checks the result.
+ */
+const admin = require('firebase-admin');
+
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  admin.initializeApp({projectId: process.env.GCLOUD_PROJECT || 'dishitout-explorer'});
+} else {
+  const serviceAccount = require('../../firebase-service-account.json');
+  admin.initializeApp({
+    credential: admin.credential.cert(serviceAccount),
+    storageBucket: 'dishitout-explorer.firebasestorage.app',
+  });
+}
+
+const {deleteAccountData} = require('../accountDeletion');
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const out = {userId: null, apply: false, keepAuth: false};
+  args.forEach((arg) => {
+    if (arg === '--apply') out.apply = true;
+    else if (arg === '--keep-auth') out.keepAuth = true;
+    else if (!arg.startsWith('--')) out.userId = arg;
+  });
+  return out;
+}
+
+async function main() {
+  const args = parseArgs();
+  if (!args.userId) {
+    throw new Error('Usage: node scripts/deleteUserAccount.js <uid> [--apply] [--keep-auth]');
+  }
+
+  // Against the emulator, Storage and Auth are only touched when their
+  // emulators are running too
+  const emulated = !!process.env.FIRESTORE_EMULATOR_HOST;
+  const report = await deleteAccountData(args.userId, {
+    dryRun: !args.apply,
+    storage: !emulated || !!process.env.FIREBASE_STORAGE_EMULATOR_HOST,
+    auth: !args.keepAuth && (!emulated || !!process.env.FIREBASE_AUTH_EMULATOR_HOST),
+  });
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Mode:              ${args.apply ? 'APPLY' : 'DRY RUN'}`);
+  console.log(`User:              ${report.userId}`);
+  console.log(`Status:            ${report.status} (attempt ${report.attempts})`);
+  Object.keys(report.deleted).forEach((key) => {
+    console.log(`Deleted ${key}:`.padEnd(20) + report.deleted[key]);
+  });
+  console.log(`Anonymized comments: ${report.anonymized.comments}`);
+  console.log(`Counters:          ${report.decremented.meals} meals, ${report.decremented.users} users`);
+  console.log(`User subcollections: ${report.userSubcollections.join(', ') || '—'}`);
+  console.log(`Auth user deleted: ${report.authUserDeleted}`);
+  if (report.errors.length > 0) {
+    console.log(`Errors:            ${report.errors.length}`);
+    report.errors.forEach((e) => console.log(`  ${e.step}: ${e.message}`));
+  }
+  if (!args.apply) {
+    console.log('\nRe-run with --apply to delete this account.');
+  }
+  if (report.errors.length > 0) process.exitCode = 1;
+}
+
+main()
+    .then(() => process.exit(process.exitCode || 0))
+    .catch((err) => {
+      console.error('Account deletion failed:', err);
+      process.exit(1);
+    });
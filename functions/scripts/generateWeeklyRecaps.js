@@ -0,0 +1,75 @@
+/**
+ * Generate weekly recaps by hand (see functions/weeklyRecap.js).
+ * Dry run by default: prints each user's headline without writing.
+ *
+ * Usage (from functions/):
+ *   node scripts/generateWeeklyRecaps.js                          # last week, everyone
+ *   node scripts/generateWeeklyRecaps.js --week 2026-W41          # a specific ISO week
+ *   node scripts/generateWeeklyRecaps.js --user <uid> --apply     # one user, write
+ *
+ * Works against the emulator when FIRESTORE_EMULATOR_HOST is set.
+ */
+const admin = require('firebase-admin');
+
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  admin.initializeApp({projectId: process.env.GCLOUD_PROJECT || 'dishitout-explorer'});
+} else {
+  const serviceAccount = require('../../firebase-service-account.json');
+  admin.initializeApp({credential: admin.credential.cert(serviceAccount)});
+}
+
+const {
+  generateAllWeeklyRecaps,
+  generateWeeklyRecap,
+  previousWeekKey,
+  weekBounds,
+} = require('../weeklyRecap');
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const out = {apply: false, week: null, user: null};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--apply') out.apply = true;
+    else if (args[i] === '--week') out.week = args[++i];
+    else if (args[i] === '--user') out.user = args[++i];
+  }
+  return out;
+}
+
+async function main() {
+  const args = parseArgs();
+  const weekKey = args.week || previousWeekKey(new Date());
+  const {start, end} = weekBounds(weekKey); // throws on a bad --week
+  const dryRun = !args.apply;
+
+  let recaps;
+  if (args.user) {
+    const recap = await generateWeeklyRecap(args.user, weekKey, {dryRun});
+    recaps = recap ? [{userId: args.user, recap}] : [];
+  } else {
+    recaps = await generateAllWeeklyRecaps(weekKey, {dryRun});
+  }
+
+  console.log('\nRecaps:');
+  recaps.forEach(({userId, recap}) => {
+    console.log(`  ${userId.padEnd(30)} ${recap.headline}`);
+    if (recap.newTagCount > 0) {
+      console.log(`  ${''.padEnd(30)} new tags: ${Object.values(recap.newTags).flat().join(', ')}`);
+    }
+  });
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Mode:       ${args.apply ? 'APPLY' : 'DRY RUN'}`);
+  console.log(`Week:       ${weekKey} (${start.toISOString().slice(0, 10)} – ${end.toISOString().slice(0, 10)})`);
+  console.log(`Recaps:     ${recaps.length}`);
+  if (!args.apply && recaps.length > 0) {
+    console.log('\nRe-run with --apply to write these recaps.');
+  }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error('Weekly recap generation failed:', err);
+      process.exit(1);
+    });
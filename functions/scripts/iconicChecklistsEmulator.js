@@ -0,0 +1,112 @@
+/**
+ * Seed the Firestore emulator with a user who has unlocked every eat on a
+ * checklist, run the checklist update (functions/iconicChecklists.js) from
+ * several unlocks at once and check that the completion stamp is awarded
+ * exactly once. Exits 1 on the first failed check.
+ *
+ * Refuses to run unless FIRESTORE_EMULATOR_HOST is set, so it can never
+ * touch production data.
+ *
+ * Usage (from functions/):
+ *   npm run emulators                     # in another terminal
+ *   FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 node scripts/iconicChecklistsEmulator.js
+ */
+
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+  console.error('FIRESTORE_EMULATOR_HOST is not set — refusing to run against a live project.');
+  process.exit(1);
+}
+
+const assert = require('assert');
+const {initializeApp} = require('firebase-admin/app');
+const {getFirestore, FieldValue} = require('firebase-admin/firestore');
+
+initializeApp({projectId: process.env.GCLOUD_PROJECT || 'dishitout-explorer'});
+
+const {updateIconicChecklistProgress, checklistAchievementId} = require('../iconicChecklists');
+
+const db = getFirestore();
+const RACER = 'seed_racer';
+const HOLDER = 'seed_holder';
+const CHECKLIST = 'seed_checklist';
+const EAT_IDS = ['seed_eat_a', 'seed_eat_b', 'seed_eat_c'];
+const RACES = 5;
+
+const user = (id) => db.collection('users').doc(id);
+const checklist = () => db.collection('iconic_checklists').doc(CHECKLIST);
+
+async function reset() {
+  for (const ref of [user(RACER), user(HOLDER)]) {
+    await db.recursiveDelete(ref);
+  }
+  await checklist().delete();
+}
+
+async function seed() {
+  const batch = db.batch();
+  batch.set(checklist(), {city: 'Portland', category: null, title: 'Seed checklist', eatIds: EAT_IDS});
+  batch.set(user(RACER), {unlocked_iconic_eats: EAT_IDS});
+  batch.set(user(HOLDER), {unlocked_iconic_eats: EAT_IDS});
+  // The app's own saveUserAchievement writes random ids
+  batch.set(user(HOLDER).collection('achievements').doc(), {
+    userId: HOLDER,
+    achievementId: checklistAchievementId(CHECKLIST),
+    earnedAt: FieldValue.serverTimestamp(),
+    mealEntryId: 'seed_holder_meal',
+  });
+  await batch.commit();
+}
+
+async function stamps(userId) {
+  const snap = await user(userId)
+      .collection('achievements')
+      .where('achievementId', '==', checklistAchievementId(CHECKLIST))
+      .get();
+  return snap.docs;
+}
+
+async function race(userId) {
+  // Each unlock finishes the list as far as its own trigger can tell
+  return Promise.all(
+      Array.from({length: RACES}, (_, i) =>
+        updateIconicChecklistProgress({db, userId, mealId: `seed_meal_${i}`, eatId: EAT_IDS[i % EAT_IDS.length]}),
+      ),
+  );
+}
+
+async function main() {
+  await reset();
+  await seed();
+
+  const results = await race(RACER);
+  const completions = results.reduce((sum, completed) => sum + completed.length, 0);
+  assert.strictEqual(completions, 1, 'completed by exactly one unlock');
+
+  const awarded = await stamps(RACER);
+  assert.strictEqual(awarded.length, 1, 'one stamp awarded');
+  assert.strictEqual(awarded[0].id, checklistAchievementId(CHECKLIST), 'stamp has the deterministic id');
+
+  const progress = (await user(RACER).collection('iconic_checklists').doc(CHECKLIST).get()).data();
+  assert.strictEqual(progress.complete, true, 'progress complete');
+  assert.strictEqual(progress.completedByMealId, awarded[0].data().mealEntryId, 'stamp and progress agree');
+
+  // Running again changes nothing
+  assert.deepStrictEqual(await race(RACER), Array(RACES).fill([]), 'no second completion');
+  assert.strictEqual((await stamps(RACER)).length, 1, 'still one stamp');
+
+  await race(HOLDER);
+  assert.strictEqual((await stamps(HOLDER)).length, 1, 'stamp the app wrote is not doubled');
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Emulator:    ${process.env.FIRESTORE_EMULATOR_HOST}`);
+  console.log(`Races:       ${RACES} concurrent unlocks per user`);
+  console.log(`Stamp:       ${awarded[0].id} via ${awarded[0].data().mealEntryId}`);
+  console.log('All checks passed');
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error('Iconic checklist check failed:', err);
+      process.exit(1);
+    });
@@ -0,0 +1,195 @@
+/**
+ * End-to-end check of iconic claims against the emulators: upload meal
+ * photos with and without GPS / capture-time EXIF to the Storage emulator,
+ * seed the meals and an eat, create `iconic_claims` docs the way the app
+ * does and wait for onIconicClaimCreate (functions/iconicClaims.js) to
+ * decide them. Exits 1 on the first failed check.
+ *
+ * Checks that a claim is auto-approved only when the EXIF read from Storage
+ * puts the photo at the eat, that `evidencePhotoUrl` is used when the
+ * flagship photo was re-encoded without EXIF, and that a photo without
+ * EXIF sends the claim to review.
+ *
+ * Refuses to run unless FIRESTORE_EMULATOR_HOST and
+ * FIREBASE_STORAGE_EMULATOR_HOST are set, so it can never touch production
+ * data. STORAGE_BUCKET must be the functions emulator's default bucket
+ * (`<project>.appspot.com` unless the project config says otherwise).
+ *
+ * Usage (from functions/):
+ *   npm run emulators                     # in another terminal
+ *   npm run test:iconic-claims
+ */
+
+if (!process.env.FIRESTORE_EMULATOR_HOST || !process.env.FIREBASE_STORAGE_EMULATOR_HOST) {
+  console.error(
+      'FIRESTORE_EMULATOR_HOST / FIREBASE_STORAGE_EMULATOR_HOST not set — refusing to run against a live project.',
+  );
+  process.exit(1);
+}
+
+const assert = require('assert');
+const sharp = require('sharp');
+const {initializeApp} = require('firebase-admin/app');
+const {getFirestore, FieldValue} = require('firebase-admin/firestore');
+const {getStorage} = require('firebase-admin/storage');
+
+const PROJECT = process.env.GCLOUD_PROJECT || 'dishitout-explorer';
+const BUCKET = process.env.STORAGE_BUCKET || `${PROJECT}.appspot.com`;
+initializeApp({projectId: PROJECT, storageBucket: BUCKET});
+
+const {mealPhotoPath} = require('../iconicClaims');
+
+const db = getFirestore();
+const bucket = getStorage().bucket();
+const USER = 'seed_claimer';
+const EAT = {
+  id: 'seed_claim_eat',
+  dish_name: 'Fish Sauce Wings',
+  restaurant_name: 'Pok Pok',
+  place_id: 'seed-place-pokpok',
+  city: 'Portland',
+  active: true,
+  location: {latitude: 45.5046, longitude: -122.6318},
+};
+const DECIDE_TIMEOUT_MS = 30000;
+
+// "2026:05:01 19:30:00", which exif-reader reads back as UTC
+const exifDate = (date) => date.toISOString().slice(0, 19).replace('T', ' ').replace(/-/g, ':');
+
+const dms = (degrees) => {
+  const abs = Math.abs(degrees);
+  const d = Math.floor(abs);
+  const m = Math.floor((abs - d) * 60);
+  const s = Math.round((abs - d - m / 60) * 3600 * 100);
+  return `${d}/1 ${m}/1 ${s}/100`;
+};
+
+async function photo({latitude, longitude, takenAt} = {}) {
+  const image = sharp({create: {width: 16, height: 16, channels: 3, background: '#c33'}}).jpeg();
+  if (takenAt === undefined) return image.toBuffer();
+  return image.withExif({
+    IFD0: {Make: 'Seed'},
+    IFD2: {DateTimeOriginal: exifDate(takenAt)},
+    IFD3: {
+      GPSLatitudeRef: latitude < 0 ? 'S' : 'N',
+      GPSLatitude: dms(latitude),
+      GPSLongitudeRef: longitude < 0 ? 'W' : 'E',
+      GPSLongitude: dms(longitude),
+    },
+  }).toBuffer();
+}
+
+// Upload to meal_photos/{uid}/ and return a download URL like the app's
+async function upload(name, buffer) {
+  const path = `meal_photos/${USER}/${name}.jpg`;
+  await bucket.file(path).save(buffer, {contentType: 'image/jpeg'});
+  const url = `https://firebasestorage.googleapis.com/v0/b/${BUCKET}/o/${encodeURIComponent(path)}?alt=media`;
+  assert.strictEqual(mealPhotoPath(url, USER), path, 'URL resolves to the uploaded path');
+  return url;
+}
+
+// Each claim is judged from scratch: no earlier claim or unlock for the eat
+async function clearClaims() {
+  const claims = await db.collection('iconic_claims').where('userId', '==', USER).get();
+  await Promise.all(claims.docs.map((doc) => doc.ref.delete()));
+  await db.recursiveDelete(db.collection('users').doc(USER));
+}
+
+async function reset() {
+  await clearClaims();
+  const meals = await db.collection('mealEntries').where('userId', '==', USER).get();
+  await Promise.all(meals.docs.map((doc) => db.recursiveDelete(doc.ref)));
+  await bucket.deleteFiles({prefix: `meal_photos/${USER}/`});
+}
+
+async function seedMeal(id, fields) {
+  await db.collection('mealEntries').doc(id).set({
+    userId: USER,
+    meal: 'Fish sauce wings',
+    restaurant: 'Pok Pok',
+    place_id: EAT.place_id,
+    city: 'portland',
+    location: {latitude: 45.5091, longitude: -122.6318},
+    createdAt: FieldValue.serverTimestamp(),
+    ...fields,
+  });
+}
+
+// Create a claim as the app does and wait for the trigger's decision
+async function claim(mealId) {
+  const ref = await db.collection('iconic_claims').add({
+    userId: USER,
+    eatId: EAT.id,
+    mealId,
+    status: 'submitted',
+    clientScore: 1,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+  const started = Date.now();
+  while (Date.now() - started < DECIDE_TIMEOUT_MS) {
+    const data = (await ref.get()).data();
+    if (data.status !== 'submitted') return data;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  throw new Error(`claim on ${mealId} not decided — is the functions emulator running?`);
+}
+
+async function main() {
+  await reset();
+  await db.collection('best_eats').doc(EAT.id).set(EAT);
+
+  const now = new Date();
+  const atTheEat = await photo({latitude: 45.5047, longitude: -122.6319, takenAt: new Date(now - 3600000)});
+  const elsewhere = await photo({latitude: 40.7, longitude: -74, takenAt: now});
+  const noExif = await photo();
+
+  // Flagship photo carries the EXIF (camera flow)
+  await seedMeal('seed_claim_camera', {photoUrl: await upload('camera', atTheEat)});
+  const camera = await claim('seed_claim_camera');
+  assert.strictEqual(camera.signals.verified, true, 'camera photo verified from Storage EXIF');
+  assert.ok(camera.signals.photoDistanceKm < 0.05, 'photo GPS read at the eat');
+  assert.ok(camera.signals.photoAgeHours <= 1, 'capture time read from EXIF');
+  assert.strictEqual(camera.status, 'approved', 'camera claim auto-approved');
+  await clearClaims();
+
+  // Cropped flagship without EXIF, the picked original kept as evidence
+  // (gallery flow)
+  await seedMeal('seed_claim_gallery', {
+    photoUrl: await upload('gallery_cropped', noExif),
+    evidencePhotoUrl: await upload('gallery_original', atTheEat),
+  });
+  const gallery = await claim('seed_claim_gallery');
+  assert.strictEqual(gallery.status, 'approved', 'gallery claim approved on the evidence photo');
+  await clearClaims();
+
+  await seedMeal('seed_claim_stripped', {photoUrl: await upload('stripped', noExif)});
+  const stripped = await claim('seed_claim_stripped');
+  assert.strictEqual(stripped.signals.verified, false, 'no EXIF, nothing verified');
+  assert.strictEqual(stripped.status, 'pending_review', 'photo without EXIF goes to review');
+  await clearClaims();
+
+  await seedMeal('seed_claim_elsewhere', {photoUrl: await upload('elsewhere', elsewhere)});
+  const far = await claim('seed_claim_elsewhere');
+  assert.ok(far.signals.photoDistanceKm > 1000, 'photo GPS read far from the eat');
+  assert.strictEqual(far.status, 'pending_review', 'photo taken elsewhere goes to review');
+
+  await reset();
+  await db.collection('best_eats').doc(EAT.id).delete();
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Emulators:   firestore ${process.env.FIRESTORE_EMULATOR_HOST}, ` +
+    `storage ${process.env.FIREBASE_STORAGE_EMULATOR_HOST} (${BUCKET})`);
+  console.log(`Camera:      ${camera.status} ` +
+    `(${camera.signals.photoDistanceKm} km, ${camera.signals.photoAgeHours} h)`);
+  console.log(`Gallery:     ${gallery.status} via evidencePhotoUrl`);
+  console.log(`No EXIF:     ${stripped.status}`);
+  console.log(`Elsewhere:   ${far.status} (${far.signals.photoDistanceKm} km)`);
+  console.log('All checks passed');
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error('Iconic claims check failed:', err);
+      process.exit(1);
+    });
@@ -0,0 +1,65 @@
+/**
+ * Rebuild leaderboards from mealEntries (see functions/leaderboards.js).
+ * Dry run by default: prints each board's leader without writing.
+ *
+ * Usage (from functions/):
+ *   node scripts/recomputeLeaderboards.js                      # dry run, current periods
+ *   node scripts/recomputeLeaderboards.js --apply              # write
+ *   node scripts/recomputeLeaderboards.js --date 2026-09-15    # the week/month containing that day
+ *
+ * --date rebuilds a past week/month (plus all-time) if its final standings
+ * need fixing. Works against the emulator when FIRESTORE_EMULATOR_HOST is set.
+ */
+const admin = require('firebase-admin');
+
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  admin.initializeApp({projectId: process.env.GCLOUD_PROJECT || 'dishitout-explorer'});
+} else {
+  const serviceAccount = require('../../firebase-service-account.json');
+  admin.initializeApp({credential: admin.credential.cert(serviceAccount)});
+}
+
+const {recomputeLeaderboards} = require('../leaderboards');
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const out = {apply: false, date: null};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--apply') out.apply = true;
+    else if (args[i] === '--date') out.date = args[++i];
+  }
+  return out;
+}
+
+async function main() {
+  const args = parseArgs();
+  const now = args.date ? new Date(`${args.date}T12:00:00Z`) : new Date();
+  if (Number.isNaN(now.getTime())) {
+    throw new Error(`Invalid --date: ${args.date}`);
+  }
+
+  const summary = await recomputeLeaderboards({now, dryRun: !args.apply});
+
+  console.log('\nLeaders:');
+  summary.leaders
+      .sort((a, b) => a.boardId.localeCompare(b.boardId))
+      .forEach((l) => console.log(`  ${l.boardId.padEnd(48)} ${l.userId} (${l.score})`));
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Mode:       ${args.apply ? 'APPLY' : 'DRY RUN'}`);
+  console.log(`As of:      ${now.toISOString().slice(0, 10)}`);
+  console.log(`Boards:     ${summary.boards}`);
+  console.log(`Entries:    ${summary.entries}`);
+  console.log(`Opted out:  ${summary.optedOut}`);
+  console.log(`Removed:    ${summary.removed} (boards left with no participants)`);
+  if (!args.apply) {
+    console.log('\nRe-run with --apply to write these boards.');
+  }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error('Leaderboard recompute failed:', err);
+      process.exit(1);
+    });
@@ -0,0 +1,126 @@
+/**
+ * Seed the Firestore emulator with a small co-rating dataset and run the
+ * recommendations precompute against it.
+ *
+ * Refuses to run unless FIRESTORE_EMULATOR_HOST is set, so it can never
+ * touch production data.
+ *
+ * Usage (from functions/):
+ *   npm run emulators                     # in another terminal
+ *   FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 node scripts/seedRecommendationsEmulator.js
+ *   FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 node scripts/seedRecommendationsEmulator.js --no-seed
+ *
+ * --no-seed skips writing the sample data and just recomputes, so you can
+ * hand-edit docs in the emulator UI and re-run.
+ */
+
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+  console.error('FIRESTORE_EMULATOR_HOST is not set — refusing to run against a live project.');
+  process.exit(1);
+}
+
+const {initializeApp} = require('firebase-admin/app');
+const {getFirestore} = require('firebase-admin/firestore');
+
+initializeApp({projectId: process.env.GCLOUD_PROJECT || 'dishitout-explorer'});
+
+const {computeAllRecommendations} = require('../recommendations');
+
+const db = getFirestore();
+const skipSeed = process.argv.includes('--no-seed');
+
+// Three taste clusters: alice/bob/carol love spicy Sichuan + Thai, dave/erin
+// love Italian, and frank overlaps a little with both.
+const PROFILES = {
+  alice: {'flavor::spicy': 3.2, 'cuisine::sichuan': 2.5, 'cuisine::thai': 1.8},
+  bob: {'flavor::spicy': 2.8, 'cuisine::sichuan': 2.9, 'protein::pork': 1.2},
+  carol: {'flavor::spicy': 2.1, 'cuisine::thai': 2.6, 'flavor::sour': 1.4},
+  dave: {'cuisine::italian': 3.0, 'flavor::savory': 1.9, 'protein::beef': 1.1},
+  erin: {'cuisine::italian': 2.4, 'flavor::savory': 2.2, 'flavor::cheesy': 1.7},
+  frank: {'flavor::spicy': 1.0, 'cuisine::italian': 1.2},
+};
+
+const R = {
+  chili: {restaurant: 'Chili House', place_id: 'seed_chili_house', city: 'San Francisco'},
+  zen: {restaurant: 'Zen Sichuan', place_id: 'seed_zen_sichuan', city: 'San Francisco'},
+  thai: {restaurant: 'Kin Khao', place_id: 'seed_kin_khao', city: 'San Francisco'},
+  tony: {restaurant: `Tony's Pizza`, place_id: 'seed_tonys', city: 'San Francisco'},
+  flour: {restaurant: 'Flour + Water', place_id: 'seed_flour_water', city: 'San Francisco'},
+};
+
+// [user, restaurant, dish, rating]
+const MEALS = [
+  ['alice', 'chili', 'Dan Dan Noodles', 6],
+  ['alice', 'zen', 'Mapo Tofu', 5],
+  ['bob', 'chili', 'Dan Dan Noodles', 6],
+  ['bob', 'zen', 'Mapo Tofu', 6],
+  ['bob', 'zen', 'Chongqing Chicken', 6],
+  ['bob', 'thai', 'Khao Soi', 5],
+  ['carol', 'chili', 'Dan Dan Noodles', 5],
+  ['carol', 'thai', 'Khao Soi', 6],
+  ['carol', 'thai', 'Pork Jowl', 5],
+  ['dave', 'tony', 'Margherita', 6],
+  ['dave', 'flour', 'Pappardelle', 6],
+  ['erin', 'tony', 'Margherita', 5],
+  ['erin', 'flour', 'Pappardelle', 6],
+  ['erin', 'flour', 'Agnolotti', 6],
+  ['frank', 'chili', 'Dan Dan Noodles', 2],
+  ['frank', 'tony', 'Margherita', 6],
+];
+
+async function seed() {
+  const batch = db.batch();
+  Object.entries(PROFILES).forEach(([userId, tagScores]) => {
+    batch.set(db.collection('users').doc(userId), {
+      displayName: userId[0].toUpperCase() + userId.slice(1),
+    });
+    batch.set(
+        db.collection('users').doc(userId).collection('taste_profile').doc('summary'),
+        {tier: 'full', meal_count: 5, tag_scores: tagScores},
+    );
+  });
+  MEALS.forEach(([userId, key, dish, rating], i) => {
+    batch.set(db.collection('mealEntries').doc(`seed_meal_${i}`), {
+      userId,
+      meal: dish,
+      rating,
+      mealType: 'Restaurant',
+      ...R[key],
+      createdAt: new Date(Date.now() - i * 86400000),
+    });
+  });
+  await batch.commit();
+  console.log(`Seeded ${Object.keys(PROFILES).length} users and ${MEALS.length} meals`);
+}
+
+async function printResults() {
+  for (const userId of Object.keys(PROFILES)) {
+    const doc = await db.collection('users').doc(userId)
+        .collection('recommendations').doc('summary').get();
+    const data = doc.data() || {};
+    console.log(`\n${userId}`);
+    console.log(`  neighbours:  ${(data.neighbors || [])
+        .map((n) => `${n.userId} ${n.similarity}`).join(', ') || '—'}`);
+    console.log(`  restaurants: ${(data.restaurants || [])
+        .map((r) => `${r.name} (${r.score})`).join(', ') || '—'}`);
+    console.log(`  dishes:      ${(data.dishes || [])
+        .map((d) => `${d.dish} @ ${d.restaurant} (${d.score})`).join(', ') || '—'}`);
+  }
+}
+
+async function main() {
+  if (!skipSeed) await seed();
+  const processed = await computeAllRecommendations();
+  await printResults();
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Emulator:          ${process.env.FIRESTORE_EMULATOR_HOST}`);
+  console.log(`Users recomputed:  ${processed}`);
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error('Seed failed:', err);
+      process.exit(1);
+    });
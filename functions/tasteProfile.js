@@ -461,6 +461,9 @@ async function recomputeTasteProfile(userId) {
     if (oldDoc.taste_story_updated_at) {
       profile.taste_story_updated_at = oldDoc.taste_story_updated_at;
     }
+    if (oldDoc.taste_story_archetype_history) {
+      profile.taste_story_archetype_history = oldDoc.taste_story_archetype_history;
+    }
   }
 
   await summaryRef.set(profile);
@@ -517,4 +520,5 @@ module.exports = {
   topNForFieldWithScores,
   computeAvoidTags,
   pickSignatureDish,
+  extractCity,
 };
@@ -389,15 +389,18 @@ async function generateAndWriteStory(userId, summary, signal) {
     return {fired: false, reason: 'empty-response'};
   }
 
-  await summaryRef.set(
-    {
-      taste_story: story,
-      taste_story_archetype: archetype,
-      taste_story_insights: insights,
-      taste_story_updated_at: FieldValue.serverTimestamp(),
-    },
-    {merge: true}
-  );
+  const update = {
+    taste_story: story,
+    taste_story_archetype: archetype,
+    taste_story_insights: insights,
+    taste_story_updated_at: FieldValue.serverTimestamp(),
+  };
+  // Keep a dated trail of archetype changes for the year-in-review
+  // (utils/wrappedStats.ts). arrayUnion can't take serverTimestamp().
+  if (archetype !== summary.taste_story_archetype) {
+    update.taste_story_archetype_history = FieldValue.arrayUnion({archetype, at: Timestamp.now()});
+  }
+  await summaryRef.set(update, {merge: true});
 
   console.log(
     `[tasteStory] Wrote story for ${userId}: "${story.slice(0, 60)}..." (${archetype}) +${insights.length} insights`
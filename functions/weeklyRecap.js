@@ -0,0 +1,359 @@
+/**
+ * Weekly recap — "4 meals, 2 new restaurants, collection now at 67 pieces"
+ *
+ * Every Monday we summarise the previous ISO week (UTC, same weeks as the
+ * leaderboards) for each user who logged something in it, and write
+ * `users/{uid}/weekly_recaps/{weekKey}`. The job runs just after the UTC
+ * week closes, and only once a recap is written does it drop a
+ * 'weekly_recap' notification into `notifications` — the client pushes it
+ * per the user's notification preferences and a tap opens the recap card
+ * (screens/WeeklyRecapScreen.tsx). Users with no recap get no notification.
+ *
+ * "New" always means first time ever: a restaurant, cuisine or city counts
+ * only if none of the user's meals before the week had it. New canonical
+ * tags are the difference between the taste profile's `discovered` sets
+ * before and after the week — rebuilt from the same rated meals with
+ * tasteProfile.extractTagsFromMeal, so a recap can be regenerated for any
+ * past week without a stored snapshot of the profile.
+ *
+ * Data model:
+ *   users/{uid}/weekly_recaps/{weekKey} {
+ *     weekKey, weekStart, weekEnd,
+ *     mealsLogged, ratedMeals,
+ *     newRestaurants[], newCuisines[], newCities[],
+ *     bestDish: {mealId, mealName, restaurant, rating, photoUrl, pixelArtUrl} | null,
+ *     newTags: {flavors[], cuisines[], ...}, newTagCount,
+ *     collection: {added, total},
+ *     iconicUnlocks: [{eatId, dishName, restaurantName, emojiUrl}],
+ *     headline, computed_at
+ *   }
+ *   notifications/weekly_recap_{uid}_{weekKey} {
+ *     userId, type: 'weekly_recap', fromUser, message, weekKey, read, inApp, createdAt
+ *   }
+ */
+
+const {onSchedule} = require('firebase-functions/v2/scheduler');
+const {getFirestore, FieldValue, Timestamp} = require('firebase-admin/firestore');
+const {extractTagsFromMeal} = require('./tasteProfile');
+const {
+  citiesForMeal,
+  cuisineForMeal,
+  isoWeekKey,
+  restaurantForMeal,
+  toMillis,
+} = require('./leaderboards');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SYSTEM_SENDER = {id: 'dishitout', name: 'Dish It Out', photo: null};
+const GRPC_ALREADY_EXISTS = 6;
+
+// Same field → bucket mapping as the taste profile's `discovered`.
+const DISCOVERED_FIELDS = {
+  flavor: 'flavors',
+  cuisine: 'cuisines',
+  protein: 'proteins',
+  carb: 'carbs',
+  cookingMethod: 'cooking_methods',
+  dietary: 'dietary',
+  texture: 'textures',
+};
+
+// =============================================================================
+// Weeks
+// =============================================================================
+
+/**
+ * [start, end) of an ISO week key ("2026-W42") as UTC Dates.
+ */
+function weekBounds(weekKey) {
+  const match = /^(\d{4})-W(\d{2})$/.exec(weekKey || '');
+  if (!match) throw new Error(`Invalid week key: ${weekKey}`);
+  const year = Number(match[1]);
+  const week = Number(match[2]);
+  // Jan 4th is always in week 1; back up to that week's Monday.
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const week1Monday = jan4.getTime() - ((jan4.getUTCDay() || 7) - 1) * DAY_MS;
+  const start = new Date(week1Monday + (week - 1) * 7 * DAY_MS);
+  return {start, end: new Date(start.getTime() + 7 * DAY_MS)};
+}
+
+/** The week before the one containing `date`. */
+function previousWeekKey(date) {
+  return isoWeekKey(new Date(date.getTime() - 7 * DAY_MS));
+}
+
+// =============================================================================
+// Pure recap
+// =============================================================================
+
+function isRated(meal) {
+  return typeof meal.rating === 'number' && meal.rating > 0;
+}
+
+function hasPixelArt(meal) {
+  return Boolean(meal.pixel_art_url || meal.pixel_art_data);
+}
+
+function restaurantDisplayName(meal) {
+  return String(meal.restaurant).split(',')[0].trim();
+}
+
+function discoveredTags(meals) {
+  const out = {};
+  for (const meal of meals) {
+    if (!isRated(meal)) continue;
+    for (const {field, value} of extractTagsFromMeal(meal)) {
+      const bucket = DISCOVERED_FIELDS[field];
+      if (!bucket) continue;
+      if (!out[bucket]) out[bucket] = new Set();
+      out[bucket].add(value);
+    }
+  }
+  return out;
+}
+
+function plural(count, one, many) {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+/**
+ * "4 meals, 2 new restaurants, collection now at 67 pieces"
+ */
+function recapHeadline(recap) {
+  const parts = [plural(recap.mealsLogged, 'meal', 'meals')];
+  if (recap.newRestaurants.length > 0) {
+    parts.push(plural(recap.newRestaurants.length, 'new restaurant', 'new restaurants'));
+  }
+  if (recap.newCities.length > 0) {
+    parts.push(plural(recap.newCities.length, 'new city', 'new cities'));
+  }
+  if (recap.iconicUnlocks.length > 0) {
+    parts.push(plural(recap.iconicUnlocks.length, 'iconic eat', 'iconic eats'));
+  }
+  if (recap.collection.added > 0) {
+    parts.push(`collection now at ${plural(recap.collection.total, 'piece', 'pieces')}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Pure: build a recap from all of a user's meals and the iconic eats they
+ * unlocked during the week. Returns null when nothing was logged.
+ */
+function buildWeeklyRecap({meals, weekKey, iconicUnlocks = []}) {
+  const {start, end} = weekBounds(weekKey);
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+
+  const dated = meals
+      .map((meal) => ({meal, at: toMillis(meal.createdAt)}))
+      .filter((m) => m.at > 0 && m.at < endMs);
+  const before = dated.filter((m) => m.at < startMs).map((m) => m.meal);
+  const during = dated.filter((m) => m.at >= startMs).sort((a, b) => a.at - b.at).map((m) => m.meal);
+  if (during.length === 0) return null;
+
+  const seenRestaurants = new Set(before.map(restaurantForMeal).filter(Boolean));
+  const seenCuisines = new Set(before.map(cuisineForMeal).filter(Boolean));
+  const seenCities = new Set(before.flatMap(citiesForMeal));
+
+  const newRestaurants = [];
+  const newCuisines = [];
+  const newCities = [];
+  for (const meal of during) {
+    const restaurant = restaurantForMeal(meal);
+    if (restaurant && !seenRestaurants.has(restaurant)) {
+      seenRestaurants.add(restaurant);
+      newRestaurants.push(restaurantDisplayName(meal));
+    }
+    const cuisine = cuisineForMeal(meal);
+    if (cuisine && !seenCuisines.has(cuisine)) {
+      seenCuisines.add(cuisine);
+      newCuisines.push(cuisine);
+    }
+    for (const city of citiesForMeal(meal)) {
+      if (seenCities.has(city)) continue;
+      seenCities.add(city);
+      newCities.push(city);
+    }
+  }
+
+  // Highest rating wins; the latest meal breaks ties.
+  const best = during.filter(isRated).reduce((acc, meal) => (!acc || meal.rating >= acc.rating ? meal : acc), null);
+
+  const tagsBefore = discoveredTags(before);
+  const tagsAfter = discoveredTags([...before, ...during]);
+  const newTags = {};
+  let newTagCount = 0;
+  for (const [bucket, values] of Object.entries(tagsAfter)) {
+    const fresh = [...values].filter((v) => !(tagsBefore[bucket] && tagsBefore[bucket].has(v)));
+    if (fresh.length === 0) continue;
+    newTags[bucket] = fresh.sort();
+    newTagCount += fresh.length;
+  }
+
+  const pieces = (list) => list.filter((m) => isRated(m) && hasPixelArt(m)).length;
+  const collection = {added: pieces(during), total: pieces(before) + pieces(during)};
+
+  const recap = {
+    weekKey,
+    weekStart: start,
+    weekEnd: end,
+    mealsLogged: during.length,
+    ratedMeals: during.filter(isRated).length,
+    newRestaurants,
+    newCuisines,
+    newCities,
+    bestDish: best ? {
+      mealId: best._id || null,
+      mealName: best.meal || 'Untitled meal',
+      restaurant: best.restaurant ? restaurantDisplayName(best) : null,
+      rating: best.rating,
+      photoUrl: best.photoUrl || null,
+      pixelArtUrl: best.pixel_art_url || null,
+    } : null,
+    newTags,
+    newTagCount,
+    collection,
+    iconicUnlocks,
+  };
+  recap.headline = recapHeadline(recap);
+  return recap;
+}
+
+// =============================================================================
+// Firestore
+// =============================================================================
+
+/**
+ * Iconic eats whose unlock timestamp (users/{uid}.unlocked_iconic_eats_at)
+ * falls inside the week, with their display fields from best_eats.
+ */
+async function loadIconicUnlocks(db, userDoc, start, end) {
+  const unlockedAt = (userDoc && userDoc.unlocked_iconic_eats_at) || {};
+  const eatIds = Object.keys(unlockedAt).filter((id) => {
+    const at = toMillis(unlockedAt[id]);
+    return at >= start.getTime() && at < end.getTime();
+  });
+  const unlocks = [];
+  for (const eatId of eatIds) {
+    const eat = await db.collection('best_eats').doc(eatId).get();
+    const data = eat.exists ? eat.data() : {};
+    unlocks.push({
+      eatId,
+      dishName: data.dish_name || null,
+      restaurantName: data.restaurant_name || null,
+      emojiUrl: data.emoji_url || null,
+    });
+  }
+  return unlocks;
+}
+
+/**
+ * The "your recap is ready" notification for a stored recap. The id is per
+ * user and week, so regenerating a recap doesn't notify twice. Channels
+ * follow the recipient's preferences the way the client's
+ * createNotification does (services/notificationPreferencesService.ts).
+ */
+async function notifyWeeklyRecap(db, userId, recap) {
+  const prefsSnap = await db.collection('users').doc(userId).collection('settings').doc('notifications').get();
+  const stored = (prefsSnap.exists && prefsSnap.get('channels.weekly_recap')) || {};
+  const channels = {inApp: true, push: true, digest: false, ...stored};
+  if (!channels.inApp && !channels.push && !channels.digest) return;
+
+  const ref = db.collection('notifications').doc(`weekly_recap_${userId}_${recap.weekKey}`);
+  try {
+    await ref.create({
+      userId,
+      type: 'weekly_recap',
+      fromUser: SYSTEM_SENDER,
+      message: `Your week in food is ready: ${recap.headline}`,
+      weekKey: recap.weekKey,
+      read: false,
+      inApp: channels.inApp,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  } catch (err) {
+    if (err.code !== GRPC_ALREADY_EXISTS) throw err;
+  }
+}
+
+/**
+ * Compute and (unless dryRun) store one user's recap, then notify them.
+ * Returns the recap, or null if they logged nothing that week.
+ */
+async function generateWeeklyRecap(userId, weekKey, {dryRun = false} = {}) {
+  const db = getFirestore();
+  const {start, end} = weekBounds(weekKey);
+
+  const [mealsSnap, userSnap] = await Promise.all([
+    db.collection('mealEntries').where('userId', '==', userId).get(),
+    db.collection('users').doc(userId).get(),
+  ]);
+  const meals = mealsSnap.docs.map((doc) => ({_id: doc.id, ...doc.data()}));
+  const iconicUnlocks = await loadIconicUnlocks(db, userSnap.exists ? userSnap.data() : null, start, end);
+
+  const recap = buildWeeklyRecap({meals, weekKey, iconicUnlocks});
+  if (!recap || dryRun) return recap;
+
+  await db.collection('users').doc(userId).collection('weekly_recaps').doc(weekKey).set({
+    ...recap,
+    weekStart: Timestamp.fromDate(recap.weekStart),
+    weekEnd: Timestamp.fromDate(recap.weekEnd),
+    computed_at: FieldValue.serverTimestamp(),
+  });
+  await notifyWeeklyRecap(db, userId, recap);
+  console.log(`[weeklyRecap] ${userId} ${weekKey}: ${recap.headline}`);
+  return recap;
+}
+
+/**
+ * Recaps for everyone who logged a meal during `weekKey`.
+ */
+async function generateAllWeeklyRecaps(weekKey, {dryRun = false} = {}) {
+  const db = getFirestore();
+  const {start, end} = weekBounds(weekKey);
+  const snapshot = await db
+      .collection('mealEntries')
+      .where('createdAt', '>=', Timestamp.fromDate(start))
+      .where('createdAt', '<', Timestamp.fromDate(end))
+      .select('userId')
+      .get();
+  const userIds = [...new Set(snapshot.docs.map((doc) => doc.get('userId')).filter(Boolean))];
+
+  const recaps = [];
+  for (const userId of userIds) {
+    try {
+      const recap = await generateWeeklyRecap(userId, weekKey, {dryRun});
+      if (recap) recaps.push({userId, recap});
+    } catch (err) {
+      console.error(`[weeklyRecap] failed for ${userId}:`, err);
+    }
+  }
+  console.log(`[weeklyRecap] ${weekKey}: ${recaps.length}/${userIds.length} users${dryRun ? ' (dry run)' : ''}`);
+  return recaps;
+}
+
+// Mondays at 00:30 UTC, as soon as the ISO week (UTC) has ended.
+const weeklyRecapJob = onSchedule({
+  schedule: '30 0 * * 1',
+  timeZone: 'UTC',
+  timeoutSeconds: 540,
+  memory: '1GiB',
+}, async () => {
+  try {
+    await generateAllWeeklyRecaps(previousWeekKey(new Date()));
+  } catch (err) {
+    console.error('[weeklyRecap] weekly batch failed:', err);
+  }
+});
+
+module.exports = {
+  weeklyRecapJob,
+  generateWeeklyRecap,
+  generateAllWeeklyRecaps,
+  // Exposed for the script + unit tests
+  buildWeeklyRecap,
+  recapHeadline,
+  weekBounds,
+  previousWeekKey,
+};
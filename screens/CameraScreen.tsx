@@ -35,7 +35,9 @@ import { firebase, auth, firestore, storage } from '../firebaseConfig';
 import ImageResizer from 'react-native-image-resizer';
 import RNFS from 'react-native-fs';
 import { scheduleUnratedMealNotifications } from '../services/unratedMealNotificationService';
-import { uploadImageToFirebase } from '../services/imageUploadService';
+import { createMeal, newMealId, updateMeal, uploadMealPhoto } from '../services/mealOutboxService';
+import { scheduleStreakReminder } from '../services/streakService';
+import { checkMealAchievements } from '../services/achievementService';
 import { CameraRoll } from '@react-native-camera-roll/camera-roll';
 // Import theme
 import { colors, typography, spacing, shadows } from '../themes';
@@ -218,9 +220,14 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
         appVersion: '1.0.0',
       };
 
-      const docRef = await firestore().collection('mealEntries').add(basicMealData);
-      const mealId = docRef.id;
-      console.log('✅ Firestore document created:', mealId);
+      // Id is generated locally and the write goes through the outbox, so an
+      // offline capture is queued (photo included) instead of being lost.
+      const mealId = newMealId();
+      const createQueued = await createMeal('camera', mealId, basicMealData);
+      console.log(createQueued ? '📥 Meal queued for sync:' : '✅ Firestore document created:', mealId);
+      scheduleStreakReminder(user.uid, { justLogged: basicMealData.photoTakenAt });
+      // Streak milestones count from the capture alone, even if it's never rated
+      checkMealAchievements(mealId);
 
       // Step 1.5: Resize image before upload to reduce file size
       console.log('🔄 Resizing image for upload and API calls...');
@@ -232,7 +239,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
         95, // Quality - high quality for display
         0, // Rotation
         undefined, // Output path (auto-generated)
-        false, // Keep metadata
+        true, // Keep metadata - iconic claims are verified against its GPS and capture time
         {
           mode: 'contain', // Maintain aspect ratio
           onlyScaleDown: true, // Don't upscale if image is smaller
@@ -246,15 +253,16 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
 
       // Step 2: Now upload resized photo to Firebase Storage (document exists, so security rules pass)
       console.log('📤 Uploading resized photo to Firebase Storage...');
-      const photoUrl = await uploadImageToFirebase(resizedImage.uri, user.uid);
-      console.log('✅ Photo uploaded:', photoUrl);
-
-      // Step 3: Update document with photo URL
-      await firestore().collection('mealEntries').doc(mealId).update({
-        photoUrl: photoUrl,
-        imageUrl: photoUrl, // For compatibility
-      });
-      console.log('✅ Document updated with photo URL');
+      // Step 3: uploadMealPhoto also writes photoUrl + imageUrl (compatibility)
+      // onto the doc, or keeps the photo in the outbox until we're back online.
+      // It's also the meal's claim evidence, which outlives a later crop
+      // replacing photoUrl.
+      const photoUrl = await uploadMealPhoto('camera', mealId, user.uid, resizedImage.uri, [
+        'photoUrl',
+        'imageUrl',
+        'evidencePhotoUrl',
+      ]);
+      console.log(photoUrl ? `✅ Photo uploaded: ${photoUrl}` : '📥 Photo queued for upload');
 
       // Step 4: Start background API calls with robust error handling and logging
       console.log('🔄 Starting background API calls...');
@@ -271,7 +279,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
 
           // === STEP 1: Dish Identification (Required) ===
           console.log('🔍 [Background] Step 1/3: Identifying dish...');
-          await firestore().collection('mealEntries').doc(mealId).update({
+          await updateMeal('camera', mealId, {
             api_step_1_started: firestore.FieldValue.serverTimestamp()
           });
 
@@ -279,7 +287,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
 
           if (!dishData || !dishData.dish_name) {
             console.error('❌ [Background] Dish identification failed - no data returned');
-            await firestore().collection('mealEntries').doc(mealId).update({
+            await updateMeal('camera', mealId, {
               api_step_1_failed: true,
               api_step_1_error: 'No dish data returned',
               api_step_1_timestamp: firestore.FieldValue.serverTimestamp()
@@ -288,7 +296,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
           }
 
           console.log('✅ [Background] Dish identified:', dishData.dish_name);
-          await firestore().collection('mealEntries').doc(mealId).update({
+          await updateMeal('camera', mealId, {
             dish_identification_result: dishData,
             meal: dishData.dish_name,
             api_step_1_success: true,
@@ -300,7 +308,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
 
           // === STEP 2 & 3: Parallel API calls (Rating Statements + Pixel Art) ===
           console.log('🚀 [Background] Step 2-3: Running parallel APIs (statements + pixel art)...');
-          await firestore().collection('mealEntries').doc(mealId).update({
+          await updateMeal('camera', mealId, {
             api_step_2_3_started: firestore.FieldValue.serverTimestamp()
           });
 
@@ -317,7 +325,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
             const statementsData = statementsResult.value;
 
             try {
-              await firestore().collection('mealEntries').doc(mealId).update({
+              await updateMeal('camera', mealId, {
                 rating_statements_result: statementsData,
                 api_step_2_success: true,
                 api_step_2_timestamp: firestore.FieldValue.serverTimestamp()
@@ -337,7 +345,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
               console.log('✅ [Background] Notifications scheduled');
             } catch (notifError: any) {
               console.error('❌ [Background] Error with statements/notifications:', notifError);
-              await firestore().collection('mealEntries').doc(mealId).update({
+              await updateMeal('camera', mealId, {
                 api_step_2_notification_error: notifError.message || String(notifError),
                 api_step_2_notification_error_timestamp: firestore.FieldValue.serverTimestamp()
               });
@@ -345,7 +353,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
           } else {
             const error = statementsResult.status === 'rejected' ? statementsResult.reason : 'Returned null';
             console.error('❌ [Background] Rating statements failed:', error);
-            await firestore().collection('mealEntries').doc(mealId).update({
+            await updateMeal('camera', mealId, {
               api_step_2_failed: true,
               api_step_2_error: String(error),
               api_step_2_timestamp: firestore.FieldValue.serverTimestamp()
@@ -393,7 +401,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
                 await updatePixelArtNotificationWithImage(mealId, dishData.dish_name, localPixelArtPath);
               } catch (localSaveError: any) {
                 console.error('⚠️ [Background] Error saving pixel art locally:', localSaveError);
-                await firestore().collection('mealEntries').doc(mealId).update({
+                await updateMeal('camera', mealId, {
                   pixel_art_local_save_error: localSaveError.message || String(localSaveError)
                 });
               }
@@ -410,13 +418,13 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
                 console.log(
                   `🏆 [Background] Meal ${mealId} matched iconic eat ${preWriteData.iconic_eat_id}; skipping pixel art write`,
                 );
-                await firestore().collection('mealEntries').doc(mealId).update({
+                await updateMeal('camera', mealId, {
                   pixel_art_local_path: localPixelArtPath,
                   api_step_3_skipped_iconic: true,
                   api_step_3_timestamp: firestore.FieldValue.serverTimestamp(),
                 });
               } else {
-                await firestore().collection('mealEntries').doc(mealId).update({
+                await updateMeal('camera', mealId, {
                   pixel_art_options: optionUrls,
                   pixel_art_url: optionUrls[0], // Default to first option until user picks
                   pixel_art_local_path: localPixelArtPath,
@@ -429,7 +437,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
               }
             } catch (uploadError: any) {
               console.error('❌ [Background] Error uploading pixel art:', uploadError);
-              await firestore().collection('mealEntries').doc(mealId).update({
+              await updateMeal('camera', mealId, {
                 api_step_3_failed: true,
                 api_step_3_error: uploadError.message || String(uploadError),
                 api_step_3_timestamp: firestore.FieldValue.serverTimestamp()
@@ -438,7 +446,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
           } else {
             const error = pixelArtResult.status === 'rejected' ? pixelArtResult.reason : 'No image data';
             console.error('❌ [Background] Pixel art failed:', error);
-            await firestore().collection('mealEntries').doc(mealId).update({
+            await updateMeal('camera', mealId, {
               api_step_3_failed: true,
               api_step_3_error: String(error),
               api_step_3_timestamp: firestore.FieldValue.serverTimestamp()
@@ -446,7 +454,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
           }
 
           console.log('✅ [Background] All API processing complete for meal:', mealId);
-          await firestore().collection('mealEntries').doc(mealId).update({
+          await updateMeal('camera', mealId, {
             all_apis_complete: true,
             all_apis_complete_timestamp: firestore.FieldValue.serverTimestamp()
           });
@@ -454,7 +462,7 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
         } catch (fatalError: any) {
           console.error('❌ [Background] FATAL ERROR in API cascade:', fatalError);
           console.error('❌ [Background] Error stack:', fatalError.stack);
-          await firestore().collection('mealEntries').doc(mealId).update({
+          await updateMeal('camera', mealId, {
             fatal_background_error: fatalError.message || String(fatalError),
             fatal_background_error_stack: fatalError.stack || 'No stack trace',
             fatal_background_error_timestamp: firestore.FieldValue.serverTimestamp()
@@ -932,6 +940,8 @@ const CameraScreen: React.FC<Props> = ({ navigation }) => {
         device={device}
         isActive={isCameraActive}
         photo={true}
+        // GPS EXIF tags on captures; only once the location permission is in
+        enableLocation={!!location}
         enableZoomGesture={false}
         // Ensure we capture at photo quality
         photoQualityBalance='quality'
@@ -104,6 +104,9 @@ const CropScreen: React.FC<Props> = ({ route, navigation }) => {
   const cropperOpened = useRef(false);
   const hasCompletedCrop = useRef(false); // Prevents re-opening cropper after it's been used
   const suggestionsFetched = useRef(false);
+  // The photo as picked, before the cropper and filters re-encode it
+  // without EXIF; uploaded as the meal's iconic claim evidence
+  const evidencePhotoUri = useRef<string | null>(null);
   
   // Ref for capturing the filtered image
   const filteredImageRef = useRef<ViewShot>(null);
@@ -387,6 +390,7 @@ const CropScreen: React.FC<Props> = ({ route, navigation }) => {
           photo: photoData,
           location: safeLocation,
           exifData: route.params.exifData,
+          evidencePhotoUri: evidencePhotoUri.current || undefined,
           photoSource: 'gallery',
           _uniqueKey: `gallery_${timestamp}`,
           rating: 0,
@@ -865,7 +869,7 @@ const CropScreen: React.FC<Props> = ({ route, navigation }) => {
         95, // Quality - increased from 85% to 95% for better quality
         0, // Rotation
         undefined, // Output path (auto-generated)
-        false, // Keep metadata
+        true, // Keep metadata
         {
           mode: 'contain', // Maintain aspect ratio
           onlyScaleDown: true, // Don't upscale if image is smaller
@@ -925,6 +929,7 @@ const CropScreen: React.FC<Props> = ({ route, navigation }) => {
             const localPath = `${persistDir}/crop_input_${Date.now()}.jpg`;
             await RNFS.copyFile(rawPath, localPath);
             cleanUri = `file://${localPath}`;
+            evidencePhotoUri.current = cleanUri;
             console.log('Gallery photo copied for cropper:', cleanUri);
           } else {
             // File doesn't exist — the temp file was cleaned up
@@ -0,0 +1,351 @@
+/**
+ * DataExportScreen
+ * "Your Data": exports the signed-in user's meals, stamps, challenges,
+ * follows, saved meals, passport layout, calendar notes and taste profile
+ * as a JSON archive plus a meals CSV (services/dataExportService.ts), and
+ * restores a previously exported archive into a fresh account. Account
+ * deletion lives here too, next to the export it should follow.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Image,
+  Alert,
+  Switch,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../App';
+import { colors, typography, spacing, shadows } from '../themes';
+import {
+  DataExportResult,
+  exportUserData,
+  listDataArchives,
+  restoreUserData,
+  SavedDataArchive,
+} from '../services/dataExportService';
+import { requestAccountDeletion } from '../services/accountDeletionService';
+import { shareLocalFile } from '../utils/shareLocalFile';
+
+type DataExportScreenNavigationProp = StackNavigationProp<RootStackParamList, 'DataExport'>;
+
+type Props = {
+  navigation: DataExportScreenNavigationProp;
+};
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'long', day: 'numeric', year: 'numeric' });
+
+const DataExportScreen: React.FC<Props> = ({ navigation }) => {
+  const [includeFiles, setIncludeFiles] = useState(true);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [lastExport, setLastExport] = useState<DataExportResult | null>(null);
+  const [archives, setArchives] = useState<SavedDataArchive[]>([]);
+
+  const refreshArchives = useCallback(() => {
+    listDataArchives().then(setArchives);
+  }, []);
+
+  useEffect(() => {
+    refreshArchives();
+  }, [refreshArchives]);
+
+  const handleExport = async () => {
+    if (progress) return;
+    try {
+      const result = await exportUserData({ includeFiles }, setProgress);
+      setLastExport(result);
+      refreshArchives();
+      setProgress(null);
+      await shareLocalFile(result.jsonPath, 'application/json', { title: 'Forkful data export' });
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      setProgress(null);
+      Alert.alert('Error', 'Failed to export your data');
+    }
+  };
+
+  const shareFile = (path: string, mime: string) => {
+    shareLocalFile(path, mime).catch(error => console.error('Error sharing export:', error));
+  };
+
+  const runRestore = async (archive: SavedDataArchive) => {
+    try {
+      const result = await restoreUserData(archive.jsonPath, setProgress);
+      setProgress(null);
+      Alert.alert(
+        'Restore complete',
+        `${result.meals} meals, ${result.achievements} stamps, ${result.challenges} challenges, ` +
+          `${result.savedMeals} saved meals and ${result.following} follows restored.`,
+      );
+    } catch (error: any) {
+      console.error('Error restoring data:', error);
+      setProgress(null);
+      Alert.alert('Restore failed', error?.message || 'Failed to restore this archive');
+    }
+  };
+
+  const handleRestore = (archive: SavedDataArchive) => {
+    if (progress) return;
+    Alert.alert(
+      'Restore archive?',
+      `Copy everything from the ${formatDay(archive.exportedAt)} export into this account. ` +
+        'This only works on an account with no meals yet.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Restore', onPress: () => runRestore(archive) },
+      ],
+    );
+  };
+
+  const handleDeleteAccount = () => {
+    if (progress) return;
+    Alert.alert(
+      'Delete your account?',
+      'Your meals, photos, passport, stamps, comments, cheers and follows will be permanently deleted. ' +
+        'Export your data first if you want a copy.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setProgress('Deleting your account…');
+              await requestAccountDeletion();
+            } catch (error) {
+              console.error('Error requesting account deletion:', error);
+              setProgress(null);
+              Alert.alert('Error', 'Failed to delete your account');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Image source={require('../assets/icons/back-icon.png')} style={styles.backIcon} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Your Data</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scroll}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Export</Text>
+          <Text style={styles.bodyText}>
+            Every meal, stamp, challenge, follow, saved meal, restaurant section, calendar note and your taste
+            profile, as a JSON archive plus a spreadsheet (CSV) of your meals.
+          </Text>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Include photos and pixel art</Text>
+            <Switch
+              value={includeFiles}
+              onValueChange={setIncludeFiles}
+              trackColor={{ false: colors.lightGray, true: colors.warmTaupe }}
+            />
+          </View>
+          <TouchableOpacity style={styles.primaryButton} onPress={handleExport} disabled={!!progress}>
+            <Text style={styles.primaryButtonText}>Export my data</Text>
+          </TouchableOpacity>
+          {lastExport && (
+            <View style={styles.resultBox}>
+              <Text style={styles.bodyText}>
+                Saved {lastExport.mealCount} meals{includeFiles ? ` and ${lastExport.fileCount} images` : ''} to{' '}
+                {lastExport.folder.split('/').pop()}
+              </Text>
+              <View style={styles.linkRow}>
+                <TouchableOpacity onPress={() => shareFile(lastExport.jsonPath, 'application/json')}>
+                  <Text style={styles.link}>Share archive.json</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => shareFile(lastExport.csvPath, 'text/csv')}>
+                  <Text style={styles.link}>Share meals.csv</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Restore</Text>
+          <Text style={styles.bodyText}>
+            Bring an export from another account into this one. Meals, stamps and challenges get new ids and
+            photos are re-uploaded; followers and iconic-eat claims aren't carried over.
+          </Text>
+          {archives.length === 0 ? (
+            <Text style={styles.emptyText}>No exports on this device yet.</Text>
+          ) : (
+            archives.map(archive => (
+              <View key={archive.folder} style={styles.archiveRow}>
+                <Text style={styles.archiveName}>{formatDay(archive.exportedAt)}</Text>
+                <TouchableOpacity onPress={() => handleRestore(archive)} disabled={!!progress}>
+                  <Text style={styles.link}>Restore</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Delete account</Text>
+          <Text style={styles.bodyText}>
+            Permanently deletes everything you've logged. Comments other people replied to stay, but show as
+            "Deleted user".
+          </Text>
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDeleteAccount} disabled={!!progress}>
+            <Text style={styles.deleteButtonText}>Delete my account</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+
+      {progress && (
+        <View style={styles.footer}>
+          <ActivityIndicator size="small" color={colors.warmTaupe} />
+          <Text style={styles.progressText}>{progress}</Text>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.lightTan,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  backIcon: {
+    width: 24,
+    height: 24,
+    tintColor: colors.textPrimary,
+    resizeMode: 'contain',
+  },
+  headerTitle: {
+    flex: 1,
+    ...typography.h2,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+    marginLeft: spacing.sm,
+  },
+  scroll: {
+    padding: spacing.md,
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...shadows.medium,
+  },
+  cardTitle: {
+    ...typography.bodyLarge,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  bodyText: {
+    ...typography.bodyMedium,
+    color: colors.textSecondary,
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: spacing.md,
+    textAlign: 'center',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: spacing.md,
+  },
+  switchLabel: {
+    ...typography.bodyMedium,
+    color: colors.textPrimary,
+  },
+  primaryButton: {
+    backgroundColor: colors.warmTaupe,
+    borderRadius: 24,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.white,
+  },
+  deleteButton: {
+    borderWidth: 1,
+    borderColor: colors.error,
+    borderRadius: 24,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  deleteButtonText: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  resultBox: {
+    marginTop: spacing.md,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    gap: 24,
+    marginTop: spacing.xs,
+  },
+  link: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.warmTaupe,
+  },
+  archiveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.lightGray,
+  },
+  archiveName: {
+    ...typography.bodyMedium,
+    color: colors.textPrimary,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: spacing.md,
+    backgroundColor: colors.white,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  progressText: {
+    ...typography.bodyMedium,
+    color: colors.textPrimary,
+    marginLeft: spacing.sm,
+  },
+});
+
+export default DataExportScreen;
@@ -36,6 +36,8 @@ import * as ImagePicker from 'react-native-image-picker';
 import ImageResizer from 'react-native-image-resizer';
 import Geolocation from '@react-native-community/geolocation';
 import { getPhotoWithMetadata } from '../services/photoLibraryService';
+import { updateMeal } from '../services/mealOutboxService';
+import { checkMealAchievements } from '../services/achievementService';
 // Import theme
 import { colors, typography, spacing, shadows } from '../themes';
 
@@ -993,18 +995,26 @@ const EditMealScreen: React.FC<Props> = ({ route, navigation }) => {
         console.log("Updating userPhoto");
       }
       
-      // Update the meal data in Firestore
-      await firestore().collection('mealEntries').doc(mealId).update(updateData);
-      
-      // Verify the data was saved by reading it back
-      const verifyDoc = await firestore().collection('mealEntries').doc(mealId).get();
-      const verifyData = verifyDoc.data();
-      console.log('EditMealScreen - Verification after save:', {
-        mealId,
-        hasPhotos: !!verifyData?.photos,
-        photosLength: verifyData?.photos?.length,
-        photosArray: verifyData?.photos
-      });
+      // Update the meal data in Firestore (queued in the outbox when offline)
+      const updateQueued = await updateMeal('edit', mealId, updateData);
+
+      if (updateQueued) {
+        console.log('EditMealScreen - Offline, update queued for sync:', mealId);
+      } else {
+        // Verify the data was saved by reading it back
+        const verifyDoc = await firestore().collection('mealEntries').doc(mealId).get();
+        const verifyData = verifyDoc.data();
+        console.log('EditMealScreen - Verification after save:', {
+          mealId,
+          hasPhotos: !!verifyData?.photos,
+          photosLength: verifyData?.photos?.length,
+          photosArray: verifyData?.photos
+        });
+      }
+
+      // Edits can complete a stamp (restaurant, city, dish), and by now the
+      // cuisine enrichment has usually landed
+      checkMealAchievements(mealId);
 
       // Refresh user counts to update unique restaurants, cuisines, cities
       const { refreshUserCounts } = await import('../services/countRefreshService');
@@ -33,8 +33,10 @@ import Exif from 'react-native-exif';
 import EmojiDisplay from '../components/EmojiDisplay';
 import { PixelArtChest, PixelArtShelfModal, ChestVisualKey } from '../components/PixelArtShelf';
 import SimpleFilterComponent, { FilterItem } from '../components/SimpleFilterComponent';
-import { mealMatchesQuery } from '../utils/mealSearch';
+import { buildMealSearchIndex, highlightSegments, MatchSpan } from '../utils/mealSearch';
+import { mealMatchesFilter } from '../utils/applyHomeFilters';
 import TasteProfileStrip from '../components/TasteProfileStrip';
+import LeaderboardSection from '../components/LeaderboardSection';
 import { useTasteProfile } from '../utils/useTasteProfile';
 import { buildDynamicChips, buildCityChips, DEFAULT_CHIPS } from '../utils/chipResolver';
 // Import components for tab view
@@ -71,8 +73,13 @@ import {
 import IconicBadge from '../components/IconicBadge';
 import IconicPlaceholderCard from '../components/IconicPlaceholderCard';
 import IconicEatModal from '../components/IconicEatModal';
+import StoryCardModal from '../components/StoryCardModal';
+import { StoryCardData, iconicEatStoryCard, passportStoryCard, restaurantStoryCard } from '../utils/storyCard';
 import { useIconicEats } from '../utils/useIconicEats';
+import { computeStreaks, StreakSummary } from '../utils/streaks';
 import { IconicEat } from '../services/iconicEatsService';
+import { subscribeToMealSyncStatus, MealSyncStatus } from '../services/mealOutboxService';
+import type { MealEntry as StoredMealEntry } from '../types/mealEntry';
 
 type FoodPassportScreenNavigationProp = StackNavigationProp<RootStackParamList, 'FoodPassport'>;
 
@@ -84,7 +91,13 @@ type Props = {
   userId?: string;
   userName?: string;
   userPhoto?: string;
-  onStatsUpdate?: (stats: { totalMeals: number; totalCheers: number; badgeCount: number; followersCount: number }) => void;
+  onStatsUpdate?: (stats: {
+    totalMeals: number;
+    totalCheers: number;
+    badgeCount: number;
+    followersCount: number;
+    streaks: StreakSummary;
+  }) => void;
   // Fires after loadAllAccolades derives cuisine/city counts from mealEntries.
   // Wrapper uses these to render "47 meals, 12 cuisines, 8 cities" in the tab bar.
   onAccoladeCountsChange?: (counts: { cuisines: number; cities: number }) => void;
@@ -95,56 +108,9 @@ type Props = {
   onRefreshReady?: (refresh: () => void, isRefreshing: () => boolean) => void;
 };
 
-interface MealEntry {
-  id: string;
-  userId: string; // Add userId field
-  photoUrl: string;
-  rating: number;
-  restaurant: string;
-  meal: string;
-  // Add city as a top-level field
-  city?: string;
-  // Multi-city support (one meal can belong to multiple cities)
-  cities?: string[];
-  location: {
-    latitude: number;
-    longitude: number;
-    source?: string;
-    city?: string;
-  } | null;
-  createdAt: number;
-  // Add any other fields that might be in your database
-  mealType?: string;
-  comments?: {
-    liked: string;
-    disliked: string;
-  };
-  aiMetadata?: {
-    cuisineType: string;
-    foodType: string[];
-    mealType: string;
-    primaryProtein: string;
-    dietType: string;
-    eatingMethod: string;
-    setting: string;
-    platingStyle: string;
-    beverageType: string;
-  };
-  metadata_enriched?: {
-    cuisine_type?: string;
-    dish_general?: string;
-    dish_specific?: string;
-    key_ingredients?: string[];
-    interesting_ingredient?: string;
-    [key: string]: any;
-  } | null;
-  enhanced_facts?: any;
-  quick_criteria_result?: any;
-  isUnrated?: boolean;
-  photoSource?: string;
-  pixel_art_url?: string;
-  pixel_art_data?: string;
-  photoTakenAt?: any;
+// createdAt is converted from the Timestamp when meals are fetched.
+interface MealEntry extends Omit<StoredMealEntry, 'createdAt'> {
+  createdAt: Date | number;
 }
 
 const { width } = Dimensions.get('window');
@@ -152,6 +118,9 @@ const itemWidth = (width - 30) / 2; // 2 items per row with more even spacing (f
 const STAMP_SIZE = (width - 70) / 3.5; // 3.5 per row for challenges/cuisines - smaller cards
 const CITY_SIZE = (width - 50) / 2.5; // ~2.5 items per row for cities (keep original size)
 
+// Filter types only the structured search syntax produces (utils/passportQuery)
+const STRUCTURED_FILTER_TYPES = new Set(['or', 'after', 'before', 'date']);
+
 // Define interfaces for accolades section
 interface City {
   name: string;
@@ -199,6 +168,16 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
     );
     const { iconicEats } = useIconicEats(userLocation, { expanded: iconicEatsFilterActive });
     const [activeIconicEat, setActiveIconicEat] = useState<IconicEat | null>(null);
+    const [storyCard, setStoryCard] = useState<StoryCardData | null>(null);
+
+    // Offline outbox status per meal id — drives the "waiting to sync" badge
+    const [mealSyncStatuses, setMealSyncStatuses] = useState<Record<string, MealSyncStatus>>({});
+    useEffect(() => subscribeToMealSyncStatus(setMealSyncStatuses), []);
+
+    // Text search index over the loaded meals, rebuilt only when they change.
+    // searchMatches holds the spans to highlight on each card for the active query.
+    const mealSearchIndex = useMemo(() => buildMealSearchIndex(meals), [meals]);
+    const [searchMatches, setSearchMatches] = useState<Record<string, MatchSpan[]>>({});
 
     useEffect(() => {
       Geolocation.getCurrentPosition(
@@ -472,7 +451,8 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
                     totalMeals,
                     totalCheers,
                     badgeCount,
-                    followersCount
+                    followersCount,
+                    streaks: computeStreaks(fetchedMeals)
                 });
             }
 
@@ -697,12 +677,13 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
                 // Chronological (most recent first)
                 console.log('FoodPassportScreen: Sorting chronologically (most recent first)');
                 sortedMeals.sort((a, b) => {
-                    const aTime = a.createdAt?.toMillis?.() || 0;
-                    const bTime = b.createdAt?.toMillis?.() || 0;
+                    const aTime = new Date(a.createdAt).getTime() || 0;
+                    const bTime = new Date(b.createdAt).getTime() || 0;
                     return bTime - aTime;
                 });
             }
 
+            setSearchMatches({});
             setFilteredMeals(sortedMeals);
             return;
         }
@@ -712,6 +693,10 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
         // Start with all meals
         let result = [...meals];
         
+        // Relevance scores and highlight spans from any free-text filters
+        const searchScores = new Map<string, number>();
+        const matchesById: Record<string, MatchSpan[]> = {};
+
         // "Iconic Eats" chip is handled as a post-filter below.
         const iconicChipActive = !!activeFilters?.some(f => f.type === 'iconicEats');
 
@@ -724,6 +709,14 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
             }
             const countBefore = result.length;
             console.log(`Applying filter: ${filter.type} = ${filter.value}`);
+
+            // Structured-query filters (negation, OR groups, date ranges) share
+            // applyHomeFilters' predicate instead of the ladders below.
+            if (filter.negate || STRUCTURED_FILTER_TYPES.has(filter.type)) {
+                result = result.filter(meal => mealMatchesFilter(meal, filter));
+                console.log(`After applying filter ${filter.type}=${filter.value}: ${countBefore} meals -> ${result.length} meals remain`);
+                return;
+            }
             
             if (filter.type === 'cuisineType') {
                 const filterValueLower = filter.value.toLowerCase();
@@ -909,9 +902,15 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
                     return false;
                 });
             } else if (filter.type === 'text') {
-                // Free-text search across canonical metadata + meal/restaurant/notes.
-                // Multi-word queries are AND-ed by mealMatchesQuery.
-                result = result.filter(meal => mealMatchesQuery(meal as any, filter.value));
+                // Ranked free-text search across canonical metadata + meal/restaurant/notes.
+                // Multi-word queries are AND-ed; typos and synonyms still match.
+                const hits = new Map(mealSearchIndex.search(filter.value).map(r => [r.meal.id, r]));
+                result = result.filter(meal => hits.has(meal.id));
+                result.forEach(meal => {
+                    const hit = hits.get(meal.id)!;
+                    searchScores.set(meal.id, (searchScores.get(meal.id) || 0) + hit.score);
+                    matchesById[meal.id] = [...(matchesById[meal.id] || []), ...hit.matches];
+                });
             } else if (
                 filter.type === 'dietary' ||
                 filter.type === 'flavor' ||
@@ -974,16 +973,25 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
         if (sortOption === 'rating') {
             console.log('FoodPassportScreen: Sorting by rating (highest first)');
             result.sort((a, b) => b.rating - a.rating);
+        } else if (searchScores.size > 0) {
+            // A text query is active — best match first, newest first on ties
+            console.log('FoodPassportScreen: Sorting by search relevance');
+            result.sort((a, b) => {
+                const diff = (searchScores.get(b.id) || 0) - (searchScores.get(a.id) || 0);
+                if (diff !== 0) return diff;
+                return (new Date(b.createdAt).getTime() || 0) - (new Date(a.createdAt).getTime() || 0);
+            });
         } else {
             // Chronological (most recent first) - sort by createdAt
             console.log('FoodPassportScreen: Sorting chronologically (most recent first)');
             result.sort((a, b) => {
-                const aTime = a.createdAt?.toMillis?.() || 0;
-                const bTime = b.createdAt?.toMillis?.() || 0;
+                const aTime = new Date(a.createdAt).getTime() || 0;
+                const bTime = new Date(b.createdAt).getTime() || 0;
                 return bTime - aTime;
             });
         }
 
+        setSearchMatches(matchesById);
         setFilteredMeals(result);
     };
     
@@ -1662,15 +1670,19 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
     };
 
     // Share passport function
-    const handleSharePassport = async () => {
-        try {
-            await Share.share({
-                message: 'Download Forkful and check out my passport!',
-            });
-        } catch (error) {
-            console.error('Error sharing:', error);
-        }
-    };
+    const handleSharePassport = useCallback(() => {
+        const currentUser = auth().currentUser;
+        if (!currentUser) return;
+        setStoryCard(passportStoryCard(
+            {
+                userId: currentUser.uid,
+                userName: userName || currentUser.displayName,
+                userPhoto: userPhoto || currentUser.photoURL,
+            },
+            { meals: meals.length, cities: cities.length, restaurants: restaurants.length },
+            pixelArtEmojis,
+        ));
+    }, [userName, userPhoto, meals.length, cities.length, restaurants.length, pixelArtEmojis]);
     
     // Render functions for accolades sections
 
@@ -2333,6 +2345,10 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
                             }
                         }}
                         onRestaurantPress={handleRestaurantPress}
+                        onRestaurantShare={(restaurant) => {
+                            const ownerId = userId || auth().currentUser?.uid;
+                            if (ownerId) setStoryCard(restaurantStoryCard(restaurant, ownerId));
+                        }}
                         onAddSection={() => {}}
                         onDeleteSection={async (sectionId) => {
                             const currentUserId = auth().currentUser?.uid;
@@ -2382,6 +2398,22 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
                 />
             )}
 
+            {/* Leaderboards — global plus the owner's top cities / cuisines */}
+            <LeaderboardSection
+                userId={userId || auth().currentUser?.uid}
+                isOwnProfile={isOwnProfile}
+                cities={cities.map(c => c.name)}
+                cuisines={cuisines.map(c => c.name)}
+                onUserPress={(lbUserId, lbUserName, lbUserPhoto) => {
+                    navigation.push('FoodPassport', {
+                        userId: lbUserId,
+                        userName: lbUserName,
+                        userPhoto: lbUserPhoto || '',
+                        tabIndex: 0,
+                    });
+                }}
+            />
+
             {/* Bottom row: chest icon + share button */}
             <View style={styles.shareContainer}>
                 {!emojisLoading && pixelArtEmojis.length > 0 && (
@@ -2408,10 +2440,51 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
                     </TouchableOpacity>
                 )}
             </View>
+
+            {/* Own passport: year in review, printable PDF and data export */}
+            {(!userId || userId === auth().currentUser?.uid) && (
+                <View style={styles.exportRow}>
+                    {filteredMeals.length > 0 && (
+                        <>
+                            <TouchableOpacity
+                                style={styles.shareButton}
+                                onPress={() => navigation.navigate('Wrapped', { year: new Date().getFullYear() })}
+                                activeOpacity={0.8}
+                            >
+                                <Text style={styles.shareButtonText}>{new Date().getFullYear()} Wrapped</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={styles.shareButton}
+                                onPress={() => navigation.navigate('PassportExport')}
+                                activeOpacity={0.8}
+                            >
+                                <Text style={styles.shareButtonText}>Export PDF</Text>
+                            </TouchableOpacity>
+                        </>
+                    )}
+                    <TouchableOpacity
+                        style={styles.shareButton}
+                        onPress={() => navigation.navigate('DataExport')}
+                        activeOpacity={0.8}
+                    >
+                        <Text style={styles.shareButtonText}>Your Data</Text>
+                    </TouchableOpacity>
+                </View>
+            )}
         </View>
-    ), [emojisLoading, pixelArtEmojis, challengesLoading, allChallenges, citiesLoading, cities, cuisinesLoading, cuisines, restaurantsLoading, restaurants, restaurantSections, unsectionedOrder, isOwnProfile, filteredMeals.length, meals, userId, activeFilters, chestVisual, mealsExpanded, citiesExpanded, cuisinesExpanded, restaurantsExpanded, tasteProfile, tasteProfileLoading, tasteProfileError, tasteProfileOwnerUid, onFilterChange]);
+    ), [emojisLoading, pixelArtEmojis, challengesLoading, allChallenges, citiesLoading, cities, cuisinesLoading, cuisines, restaurantsLoading, restaurants, restaurantSections, unsectionedOrder, isOwnProfile, filteredMeals.length, meals, userId, activeFilters, chestVisual, mealsExpanded, citiesExpanded, cuisinesExpanded, restaurantsExpanded, tasteProfile, tasteProfileLoading, tasteProfileError, tasteProfileOwnerUid, onFilterChange, navigation, handleSharePassport]);
 
     // Function to render each meal item — memoized with useCallback
+    // Bold the parts of a card's text that matched the active search query
+    const renderHighlighted = (text: string, spans?: MatchSpan[]) => {
+        if (!spans || spans.length === 0) return text;
+        return highlightSegments(text, spans).map((segment, i) =>
+            segment.highlighted
+                ? <Text key={i} style={styles.searchHighlight}>{segment.text}</Text>
+                : segment.text
+        );
+    };
+
     const renderMealItem = useCallback(({ item }: { item: any }) => {
         // Iconic-eat challenge placeholder (injected when chip is active)
         if (item && item.__type === 'iconic_placeholder') {
@@ -2512,6 +2585,23 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
                         </>
                     )}
 
+                    {/* Sync badge — meal still has writes waiting in the offline outbox */}
+                    {mealSyncStatuses[item.id] && (
+                        <View
+                            style={[
+                                styles.syncBadge,
+                                mealSyncStatuses[item.id] === 'error' && styles.syncBadgeError,
+                            ]}
+                            pointerEvents="none"
+                        >
+                            <Icon
+                                name={mealSyncStatuses[item.id] === 'error' ? 'sync-problem' : 'cloud-upload'}
+                                size={14}
+                                color={colors.white}
+                            />
+                        </View>
+                    )}
+
                     {/* Iconic badge — top-left overlay when this meal completed an iconic eat */}
                     {item.iconic_eat_id ? (
                         <View style={styles.iconicBadgeOverlay} pointerEvents="none">
@@ -2521,9 +2611,13 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
                 </View>
 
                 <View style={styles.mealCardContent}>
-                    <Text style={styles.mealName} numberOfLines={1}>{item.meal || 'Untitled meal'}</Text>
+                    <Text style={styles.mealName} numberOfLines={1}>
+                        {item.meal ? renderHighlighted(item.meal, searchMatches[item.id]) : 'Untitled meal'}
+                    </Text>
                     {item.restaurant && (
-                        <Text style={styles.restaurantName} numberOfLines={1}>{item.restaurant}</Text>
+                        <Text style={styles.restaurantName} numberOfLines={1}>
+                            {renderHighlighted(item.restaurant, searchMatches[item.id])}
+                        </Text>
                     )}
 
                     {/* Rating emoji in bottom right */}
@@ -2535,7 +2629,7 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
                 </View>
             </TouchableOpacity>
         );
-    }, [imageErrors, tabIndex, userId, userName, userPhoto, handleIconicPlaceholderPress]);
+    }, [imageErrors, tabIndex, userId, userName, userPhoto, handleIconicPlaceholderPress, mealSyncStatuses, searchMatches]);
 
     // Grid data — when iconic chip is active, inject shadow placeholder tiles
     // for any un-completed iconic eats so the profile grid feels alive even
@@ -2932,6 +3026,17 @@ const FoodPassportScreen: React.FC<Props> = ({ navigation, activeFilters, active
                 eat={activeIconicEat}
                 onClose={() => setActiveIconicEat(null)}
                 onShowOnMap={() => setActiveIconicEat(null)}
+                onShare={(eat, photoUrl) => {
+                    const currentUserId = auth().currentUser?.uid;
+                    if (!currentUserId) return;
+                    setActiveIconicEat(null);
+                    setStoryCard(iconicEatStoryCard(eat, photoUrl, currentUserId));
+                }}
+            />
+            <StoryCardModal
+                visible={!!storyCard}
+                card={storyCard}
+                onClose={() => setStoryCard(null)}
             />
         </SafeAreaView>
     );
@@ -3124,6 +3229,17 @@ const styles = StyleSheet.create({
         paddingHorizontal: 8,
         ...shadows.medium,
     },
+    syncBadge: {
+        position: 'absolute',
+        bottom: spacing.sm,
+        right: spacing.sm,
+        backgroundColor: colors.overlay,
+        borderRadius: 12,
+        padding: 4,
+    },
+    syncBadgeError: {
+        backgroundColor: colors.error,
+    },
     unratedBadgeText: {
         ...typography.caption,
         fontSize: 10,
@@ -3148,6 +3264,10 @@ const styles = StyleSheet.create({
         color: colors.textSecondary,
         paddingRight: 30,
     },
+    searchHighlight: {
+        fontWeight: '700',
+        color: colors.textPrimary,
+    },
     emptyContainer: {
         alignItems: 'center',
         justifyContent: 'center',
@@ -3255,6 +3375,13 @@ const styles = StyleSheet.create({
         paddingVertical: spacing.lg,
         paddingHorizontal: spacing.lg,
     },
+    exportRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        gap: 16,
+        paddingBottom: spacing.lg,
+    },
     shareButton: {
         flexDirection: 'row',
         alignItems: 'center',
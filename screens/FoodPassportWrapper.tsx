@@ -16,6 +16,7 @@ import ProfileCard from '../components/ProfileCard';
 import { followUser, unfollowUser, isFollowing } from '../services/followService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import inAppNotificationService from '../services/inAppNotificationService';
+import type { StreakSummary } from '../utils/streaks';
 
 const { width, height } = Dimensions.get('window');
 
@@ -95,12 +96,20 @@ const FoodPassportWrapper: React.FC<FoodPassportWrapperProps> = (props) => {
   const [userProfile, setUserProfile] = useState<any>(null);
   const [bgColor, setBgColor] = useState('#FAF9F6'); // default cream
   const [showColorPicker, setShowColorPicker] = useState(false);
-  const [profileStats, setProfileStats] = useState({
+  const [profileStats, setProfileStats] = useState<{
+    totalMeals: number;
+    averageRating?: number;
+    badgeCount: number;
+    followersCount: number;
+    totalCheers: number;
+    streaks?: StreakSummary | null;
+  }>({
     totalMeals: 0,
     averageRating: 0,
     badgeCount: 0,
     followersCount: 0,
-    totalCheers: 0
+    totalCheers: 0,
+    streaks: null
   });
   // Populated asynchronously by FoodPassportScreen.loadAllAccolades once the
   // user's mealEntries have been aggregated into cuisine/city lists.
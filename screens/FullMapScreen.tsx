@@ -7,6 +7,7 @@ import {
   Platform,
   StatusBar,
   Image,
+  Alert,
 } from 'react-native';
 import type { Region } from 'react-native-maps';
 import { RouteProp } from '@react-navigation/native';
@@ -16,41 +17,35 @@ import CompositeFilterComponent from '../components/CompositeFilterComponent';
 import type { FilterItem } from '../components/SimpleFilterComponent';
 import NearYouCarousel from '../components/NearYouCarousel';
 import FullMapQuickChips from '../components/FullMapQuickChips';
+import SaveFilterPresetModal from '../components/SaveFilterPresetModal';
+import IconicEatModal from '../components/IconicEatModal';
+import StoryCardModal from '../components/StoryCardModal';
+import { StoryCardData, iconicEatStoryCard } from '../utils/storyCard';
 import { applyHomeFilters } from '../utils/applyHomeFilters';
 import { getFollowing } from '../services/followService';
+import { fetchDiscoverPage } from '../services/discoverFeedService';
 import { useTasteProfile } from '../utils/useTasteProfile';
+import { useFilterPresets } from '../utils/useFilterPresets';
+import { useIconicEats } from '../utils/useIconicEats';
+import { fetchIconicEatById, IconicEat } from '../services/iconicEatsService';
+import { checklistsForEat } from '../utils/iconicChecklists';
+import { describeQueryFilter } from '../utils/passportQuery';
+import {
+  FilterPreset,
+  saveFilterPreset,
+  filterPresetStateFrom,
+  resolveFilterPreset,
+} from '../services/filterPresetService';
 import auth from '@react-native-firebase/auth';
 import firestore from '@react-native-firebase/firestore';
 import { colors, spacing } from '../themes';
+import type { MealEntry as StoredMealEntry } from '../types/mealEntry';
 
-// Match the MealEntry interface from HomeScreen
-interface MealEntry {
-  id: string;
-  photoUrl: string;
-  photos?: { url: string; isFlagship: boolean; order: number; uploadedAt?: any }[];
-  rating: number;
-  restaurant: string;
-  meal: string;
-  userId: string;
-  userName?: string;
-  userPhoto?: string;
-  city?: string;
-  mealType?: string;
-  location: {
-    latitude: number;
-    longitude: number;
-    source?: string;
-    city?: string;
-  } | null;
-  createdAt: any;
+// Same shape as HomeScreen's feed meals: stored doc + tier-scoring fields.
+interface MealEntry extends StoredMealEntry {
   distance?: number;
   score?: number;
   tier?: string;
-  iconic_eat_id?: string | null;
-  aiMetadata?: any;
-  metadata_enriched?: any;
-  enhanced_facts?: any;
-  quick_criteria_result?: any;
 }
 
 // Params received from HomeScreen (or MealDetail centerOnLocation flow).
@@ -71,6 +66,9 @@ export type FullMapParams = {
     latitude: number;
     longitude: number;
     mealId?: string;
+    // Set when restoring a saved / shared filter preset's viewport
+    latitudeDelta?: number;
+    longitudeDelta?: number;
   };
 };
 
@@ -80,6 +78,8 @@ type Props = {
 };
 
 const MAX_MEALS_TO_DISPLAY = 50;
+const REGION_PAGE_SIZE = 50;
+const REGION_FETCH_DEBOUNCE_MS = 400;
 
 const FullMapScreen: React.FC<Props> = ({ navigation, route }) => {
   const params = route.params || {};
@@ -129,6 +129,7 @@ const FullMapScreen: React.FC<Props> = ({ navigation, route }) => {
   const [followingIds, setFollowingIds] = useState<Set<string>>(() => new Set());
   const [criticIds, setCriticIds] = useState<Set<string>>(() => new Set());
   const { profile: tasteProfile } = useTasteProfile(currentUid);
+  const { pinned: pinnedPresets } = useFilterPresets(currentUid);
 
   useEffect(() => {
     if (!currentUid) return;
@@ -167,15 +168,25 @@ const FullMapScreen: React.FC<Props> = ({ navigation, route }) => {
     };
   }, []);
 
+  // Meals fetched for map regions the user pans to, on top of the feed
+  // meals HomeScreen handed over. Keyed by id so revisiting an area
+  // doesn't duplicate markers.
+  const [regionMeals, setRegionMeals] = useState<Map<string, MealEntry>>(() => new Map());
+  const mapMeals = useMemo(() => {
+    if (regionMeals.size === 0) return nearbyMeals;
+    const known = new Set(nearbyMeals.map(m => m.id));
+    return [...nearbyMeals, ...Array.from(regionMeals.values()).filter(m => !known.has(m.id))];
+  }, [nearbyMeals, regionMeals]);
+
   // Re-apply filters whenever they (or the id sets backing following /
   // critic chips) change.
   const filteredMeals = useMemo(
     () =>
-      applyHomeFilters(nearbyMeals, activeFilters, activeRatingFilters, {
+      applyHomeFilters(mapMeals, activeFilters, activeRatingFilters, {
         followingIds,
         criticIds,
       }),
-    [nearbyMeals, activeFilters, activeRatingFilters, followingIds, criticIds]
+    [mapMeals, activeFilters, activeRatingFilters, followingIds, criticIds]
   );
 
   // Quick-chip toggle: add the FilterItem if missing, remove it if
@@ -261,6 +272,50 @@ const FullMapScreen: React.FC<Props> = ({ navigation, route }) => {
     setCurrentRegion(region);
   }, []);
 
+  // Load the Discover feed's meals for the visible region once panning
+  // settles (services/discoverFeedService, 'region' area).
+  useEffect(() => {
+    if (!currentRegion) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const page = await fetchDiscoverPage(
+          { kind: 'region', region: currentRegion },
+          { userLocation, pageSize: REGION_PAGE_SIZE },
+        );
+        if (cancelled || page.meals.length === 0) return;
+        setRegionMeals(prev => {
+          const next = new Map(prev);
+          page.meals.forEach(m => next.set(m.id, m));
+          return next;
+        });
+      } catch (err) {
+        console.warn('[FullMap] region meals fetch failed', err);
+      }
+    }, REGION_FETCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [currentRegion, userLocation]);
+
+  // Iconic eats follow the viewport: panning only queries the geohash
+  // cells that come into view.
+  const { iconicEats, checklists: iconicChecklists, unlocked: unlockedIconicEats } = useIconicEats(
+    userLocation,
+    { region: currentRegion },
+  );
+  const [activeIconicEat, setActiveIconicEat] = useState<IconicEat | null>(null);
+  const activeChecklist = useMemo(
+    () => (activeIconicEat ? checklistsForEat(iconicChecklists, activeIconicEat.id)[0] || null : null),
+    [activeIconicEat, iconicChecklists],
+  );
+  const handleChecklistItemSelect = useCallback(async (eatId: string) => {
+    const eat = iconicEats.find(e => e.id === eatId) || (await fetchIconicEatById(eatId));
+    if (eat) setActiveIconicEat({ ...eat, unlocked: unlockedIconicEats.has(eat.id) });
+  }, [iconicEats, unlockedIconicEats]);
+  const [iconicStoryCard, setIconicStoryCard] = useState<StoryCardData | null>(null);
+
   // Meals whose coordinates fall inside the visible map bounds. The
   // carousel consumes this directly. When the map pans and a meal
   // leaves the frame, it drops out of the carousel on the next tick.
@@ -290,6 +345,45 @@ const FullMapScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   }, [visibleMeals, focusedMealId]);
 
+  // ── Saved filter presets ────────────────────────────────────────────
+  // Applying a preset replaces the filter state wholesale and, if it was
+  // saved with a viewport, pans the map there. Saving captures the
+  // current region alongside the filters.
+  const [savePresetVisible, setSavePresetVisible] = useState(false);
+  const [presetRegion, setPresetRegion] = useState<FullMapParams['centerOnLocation'] | undefined>(undefined);
+
+  const handleApplyPreset = useCallback((preset: FilterPreset) => {
+    const { filters, ratings } = resolveFilterPreset(preset);
+    setActiveFilters(filters);
+    setActiveRatingFilters(ratings);
+    const synced = filters ? filters.filter(f => !FULLMAP_ONLY_TYPES.has(f.type)) : null;
+    onFiltersSync?.(synced && synced.length > 0 ? synced : null, ratings);
+    if (preset.region) {
+      setPresetRegion({ ...preset.region });
+    }
+  }, [onFiltersSync, FULLMAP_ONLY_TYPES]);
+
+  const handleSavePreset = useCallback(async (name: string) => {
+    if (!currentUid) return;
+    try {
+      await saveFilterPreset(
+        currentUid,
+        filterPresetStateFrom(name, activeFilters, activeRatingFilters, currentRegion),
+      );
+    } catch (err: any) {
+      console.warn('[FullMap] saveFilterPreset failed', err);
+      Alert.alert('Error', err?.message || 'Failed to save filters');
+    }
+  }, [currentUid, activeFilters, activeRatingFilters, currentRegion]);
+
+  const presetSummary = useMemo(() => {
+    const parts = (activeFilters || []).map(describeQueryFilter);
+    if (activeRatingFilters && activeRatingFilters.length > 0) {
+      parts.push(`rating ${[...activeRatingFilters].sort().join('/')}`);
+    }
+    return parts.join(' · ');
+  }, [activeFilters, activeRatingFilters]);
+
   const handleCarouselFocus = useCallback((mealId: string | null) => {
     setFocusedMealId(mealId);
   }, []);
@@ -361,13 +455,15 @@ const FullMapScreen: React.FC<Props> = ({ navigation, route }) => {
           imageErrors={imageErrors}
           onImageError={handleImageError}
           onViewMealDetails={viewMealDetails}
-          centerOnLocation={centerOnLocation}
+          centerOnLocation={presetRegion || centerOnLocation}
           tabIndex={1}
           MAX_MEALS_TO_DISPLAY={MAX_MEALS_TO_DISPLAY}
           dotsOnly
           focusedMealId={focusedMealId}
           onRegionChange={handleRegionChange}
           hideFilterModeToggle
+          iconicEats={iconicEats}
+          onIconicEatPress={setActiveIconicEat}
         />
         {/* Quick-chip row floats OVER the top of the map so the map tiles
             extend edge-to-edge. Sits above the map in z-order (pointerEvents
@@ -381,6 +477,10 @@ const FullMapScreen: React.FC<Props> = ({ navigation, route }) => {
             followingCount={followingIds.size}
             criticCount={criticIds.size}
             tasteProfile={tasteProfile}
+            presets={pinnedPresets}
+            activeRatingFilters={activeRatingFilters}
+            onApplyPreset={handleApplyPreset}
+            onSavePreset={() => setSavePresetVisible(true)}
           />
         </View>
         {visibleMeals.length > 0 && (
@@ -394,6 +494,34 @@ const FullMapScreen: React.FC<Props> = ({ navigation, route }) => {
           </View>
         )}
       </View>
+
+      <SaveFilterPresetModal
+        visible={savePresetVisible}
+        summary={presetSummary}
+        onClose={() => setSavePresetVisible(false)}
+        onSave={handleSavePreset}
+      />
+
+      <IconicEatModal
+        visible={!!activeIconicEat}
+        eat={activeIconicEat}
+        onClose={() => setActiveIconicEat(null)}
+        onShare={(eat, photoUrl) => {
+          const currentUserId = auth().currentUser?.uid;
+          if (!currentUserId) return;
+          setActiveIconicEat(null);
+          setIconicStoryCard(iconicEatStoryCard(eat, photoUrl, currentUserId));
+        }}
+        checklist={activeChecklist}
+        unlocked={unlockedIconicEats}
+        origin={userLocation}
+        onSelectChecklistItem={handleChecklistItemSelect}
+      />
+      <StoryCardModal
+        visible={!!iconicStoryCard}
+        card={iconicStoryCard}
+        onClose={() => setIconicStoryCard(null)}
+      />
     </SafeAreaView>
   );
 };
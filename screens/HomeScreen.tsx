@@ -29,19 +29,27 @@ import SimpleFilterComponent, { FilterItem } from '../components/SimpleFilterCom
 import { applyHomeFilters } from '../utils/applyHomeFilters';
 import CompositeFilterComponent from '../components/CompositeFilterComponent';
 import FullMapQuickChips from '../components/FullMapQuickChips';
+import SaveFilterPresetModal from '../components/SaveFilterPresetModal';
 import NearbyUsersCarousel from '../components/NearbyUsersCarousel';
+import PeopleLikeYouCarousel from '../components/PeopleLikeYouCarousel';
 import MiniMapStrip from '../components/MiniMapStrip';
 import DiscoverHeader from '../components/DiscoverHeader';
 import { NearYouCarouselRef } from '../components/NearYouCarousel';
 import { IconicEatsRowRef } from '../components/IconicEatsRow';
 import IconicEatModal from '../components/IconicEatModal';
+import StoryCardModal from '../components/StoryCardModal';
+import { StoryCardData, iconicEatStoryCard } from '../utils/storyCard';
 import IconicPlaceholderCard from '../components/IconicPlaceholderCard';
 import IconicBadge from '../components/IconicBadge';
 import { useIconicEats } from '../utils/useIconicEats';
-import { IconicEat } from '../services/iconicEatsService';
+import { IconicEat, fetchIconicEatById } from '../services/iconicEatsService';
+import { IconicChecklist, checklistsForEat, remainingChecklistItems } from '../utils/iconicChecklists';
 import auth from '@react-native-firebase/auth';
 import firestore from '@react-native-firebase/firestore';
 import { getFollowing } from '../services/followService';
+import { DiscoverArea, DiscoverCursor, FeedMeal, fetchDiscoverPage } from '../services/discoverFeedService';
+import { FeedRankingAssignment, getFeedRankingAssignment } from '../services/feedRankingConfigService';
+import { formatScoreBreakdown } from '../utils/feedRanking';
 import Geolocation from '@react-native-community/geolocation';
 import { fonts } from '../src/theme/fonts';
 import { RootStackParamList, TabParamList } from '../App';
@@ -49,7 +57,18 @@ import { RootStackParamList, TabParamList } from '../App';
 // Import theme
 import { colors, typography, spacing, shadows } from '../themes';
 import { useTasteProfile } from '../utils/useTasteProfile';
-import { computeTasteMatch, TASTE_MATCH_BADGE_THRESHOLD } from '../utils/tasteMatch';
+import { useFilterPresets } from '../utils/useFilterPresets';
+import { describeQueryFilter } from '../utils/passportQuery';
+import {
+  FilterPreset,
+  FilterPresetRegion,
+  saveFilterPreset,
+  filterPresetStateFrom,
+  resolveFilterPreset,
+} from '../services/filterPresetService';
+import { explainTasteMatch, TASTE_MATCH_BADGE_THRESHOLD } from '../utils/tasteMatch';
+import TasteMatchExplanation from '../components/TasteMatchExplanation';
+import type { MealPhoto } from '../types/mealEntry';
 
 // Map toggle icons
 const MAP_HOME_ICONS = {
@@ -68,60 +87,9 @@ type Props = {
   route: HomeScreenRouteProp;
 };
 
-interface PhotoItem {
-  url: string;
-  isFlagship: boolean;
-  order: number;
-  uploadedAt?: any;
-}
-
-interface MealEntry {
-  id: string;
-  photoUrl: string;
-  photos?: PhotoItem[]; // Array of photos (new format)
-  rating: number;
-  restaurant: string;
-  meal: string;
-  userId: string;
-  userName?: string;
-  userPhoto?: string;
-  city?: string; // Add city field for filtering
-  mealType?: string; // "Restaurant" or "Homemade"
-  location: {
-    latitude: number;
-    longitude: number;
-    source?: string; // 'device', 'exif', etc.
-    city?: string; // City can also be stored in location
-  } | null;
-  createdAt: any;
-  distance?: number; // Distance in meters from user's current location
-  score?: number; // Tiered relevance score
-  tier?: string; // Tier description for debugging
-  aiMetadata?: {
-    cuisineType: string;
-    foodType: string[];  // Changed to array
-    mealType: string;
-    primaryProtein: string;
-    dietType: string;
-    eatingMethod: string;
-    setting: string;
-    platingStyle: string;
-    beverageType: string;
-  };
-  metadata_enriched?: {
-    cuisine_type?: string;
-    dish_general?: string;
-    dish_specific?: string;
-    key_ingredients?: string[];
-    interesting_ingredient?: string;
-    [key: string]: any;
-  } | null;
-  enhanced_facts?: any;
-  quick_criteria_result?: any;
-  pixel_art_url?: string;
-  place_id?: string;
-  iconic_eat_id?: string | null;
-}
+// Feed meals carry tier-scoring fields on top of the stored doc, and
+// createdAt is converted to a Date when the feed page is built.
+type MealEntry = FeedMeal;
 
 // Injected into the feed when "Iconic Eats" filter is active — distinguishes
 // a challenge placeholder from a real user meal via the __type discriminator.
@@ -139,15 +107,13 @@ function isIconicPlaceholder(item: FeedItem): item is IconicPlaceholderItem {
 
 const { width } = Dimensions.get('window');
 
-// Constants
-const MAX_MEALS_TO_DISPLAY = 50; // Limit the number of meals shown on map to prevent performance issues
-
 const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
   // Taste profile for the current user — used to render the "X% match" badge
   // on feed meal cards. Subscribed once at the top level so per-card lookups
   // are cheap.
   const currentUserId = auth().currentUser?.uid || null;
   const { profile: tasteProfile } = useTasteProfile(currentUserId);
+  const { pinned: pinnedPresets } = useFilterPresets(currentUserId);
 
   const [user, setUser] = useState<any>(null);
   const [allNearbyMeals, setAllNearbyMeals] = useState<MealEntry[]>([]);
@@ -164,6 +130,16 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
   
   // Track if we're showing limited results
   const [showingLimitedResults, setShowingLimitedResults] = useState(false);
+
+  // Discover feed pagination — cursor for the next page, reset on refresh.
+  const feedCursorRef = useRef<DiscoverCursor | null>(null);
+  const feedAreaRef = useRef<DiscoverArea | null>(null);
+  // A/B ranker for this user, resolved on the first page and reused for
+  // the rest so one scroll session is ranked consistently.
+  const feedRankingRef = useRef<FeedRankingAssignment | null>(null);
+  const loadingMoreRef = useRef(false);
+  const [feedHasMore, setFeedHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   
   // Cache following list for performance
   const [followingUserIds, setFollowingUserIds] = useState<string[]>([]);
@@ -320,12 +296,13 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   }, []);
 
-  // Fetch nearby meals whenever userLocation changes
+  // Fetch nearby meals whenever userLocation changes, and the global feed
+  // once the location lookup has failed
   useEffect(() => {
-    if (userLocation) {
+    if (userLocation || locationError) {
       fetchNearbyMeals();
     }
-  }, [userLocation]);
+  }, [userLocation, locationError]);
   
   // Apply filter whenever meals or active filters change
   useEffect(() => {
@@ -355,24 +332,6 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
     }, [])
   );
 
-  // Calculate distance between two coordinates in kilometers
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Radius of the earth in km
-    const dLat = deg2rad(lat2 - lat1);
-    const dLon = deg2rad(lon2 - lon1);
-    const a =
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    const distance = R * c; // Distance in km
-    return distance;
-  };
-  
-  const deg2rad = (deg: number): number => {
-    return deg * (Math.PI/180);
-  };
-
   // Get cached following list (refresh every 5 minutes)
   const getCachedFollowingList = async (): Promise<string[]> => {
     const now = Date.now();
@@ -394,209 +353,39 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
     return userIds;
   };
 
+  // Without a location the feed falls back to the top-rated meals everywhere
+  const feedArea = (): DiscoverArea =>
+    userLocation ? { kind: 'nearby', center: userLocation } : { kind: 'global' };
+
+  // First page of the Discover feed: geohash cells around the user, widening
+  // outward, merged with followed users' posts (services/discoverFeedService).
   const fetchNearbyMeals = async () => {
     try {
+      // Inside the try so the finally still clears a pull-to-refresh spinner
       if (!isMountedRef.current) return;
       setLoading(true);
-      
-      // Get the current user's ID
-      const currentUserId = auth().currentUser?.uid;
-      console.log('Current user ID:', currentUserId);
-      
+
       // Get cached following list (performance optimization)
       const followingUserIds = await getCachedFollowingList();
-      
-      // Get meals from all users that have been rated (limited to 75 for faster processing)
-      const querySnapshot = await firestore()
-        .collection('mealEntries')
-        .where('rating', '>', 0) // Only show meals that have been rated
-        .orderBy('rating', 'desc') // Order by rating first for better content
-        .orderBy('createdAt', 'desc') // Then by creation date
-        .limit(75) // Reduced limit for faster processing
-        .get();
-
-      const rawMeals = querySnapshot.docs.map(doc => {
-        const data = { id: doc.id, ...doc.data() };
-        return data;
-      });
-      console.log(`Fetched ${rawMeals.length} raw meals from Firestore`);
-      
-      const now = new Date();
-      const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      
-      // Get unique user IDs for batch fetching user data
-      const uniqueUserIds = [...new Set(rawMeals.map(meal => meal.userId).filter(Boolean))];
-      console.log(`Batch fetching user data for ${uniqueUserIds.length} unique users`);
-      
-      // Batch fetch user data (performance optimization)
-      const userDataMap = new Map<string, any>();
-      
-      // Firebase 'in' queries are limited to 10 items, so we batch them
-      const batchSize = 10;
-      for (let i = 0; i < uniqueUserIds.length; i += batchSize) {
-        const batch = uniqueUserIds.slice(i, i + batchSize);
-        try {
-          const userSnapshot = await firestore()
-            .collection('users')
-            .where(firestore.FieldPath.documentId(), 'in', batch)
-            .get();
-          
-          userSnapshot.docs.forEach(doc => {
-            userDataMap.set(doc.id, doc.data());
-          });
-        } catch (error) {
-          console.log('Error batch fetching user data:', error);
-        }
-      }
-      
-      console.log(`Successfully fetched user data for ${userDataMap.size} users`);
-
-      const meals: MealEntry[] = [];
-      
-      console.log('Processing meals - total rawMeals:', rawMeals.length);
-      
-      // Process meals and calculate tiered scores
-      for (const rawMeal of rawMeals) {
-        // Skip entries without location
-        if (!rawMeal.location) continue;
-        
-        // Calculate distance if user location is available
-        let distance = null;
-        if (userLocation) {
-          distance = calculateDistance(
-            userLocation.latitude,
-            userLocation.longitude,
-            rawMeal.location.latitude,
-            rawMeal.location.longitude
-          );
-        }
-
-        // Determine if this is a new post (within 7 days)
-        const mealDate = rawMeal.createdAt?.toDate?.() || new Date(0);
-        const isNewPost = mealDate > sevenDaysAgo;
-        
-        // Determine if user is following the meal creator
-        const isFromFollowedUser = followingUserIds.includes(rawMeal.userId);
-        
-        // Calculate tiered score
-        let score = 0;
-        let tier = 'Unknown';
-        
-        if (isFromFollowedUser) {
-          // Tier 1: Posts from followed users (regardless of location)
-          score = 1000;
-          if (isNewPost) score += 200; // Bonus for recent posts from followed users
-          tier = 'Tier 1 (Following)';
-        } else if (distance !== null) {
-          if (distance <= 8) { // 5 miles ≈ 8 km
-            if (isNewPost) {
-              // Tier 1: New posts within 5 miles
-              score = 1000 + (100 - distance * 10); // Distance bonus (closer = higher score)
-              tier = 'Tier 1 (New + Close)';
-            } else {
-              // Tier 2: Older posts within 5 miles
-              score = 500 + (100 - distance * 10);
-              tier = 'Tier 2 (Old + Close)';
-            }
-          } else if (distance <= 16) { // 10 miles ≈ 16 km
-            if (isNewPost) {
-              // Tier 2: New posts within 10 miles
-              score = 500 + (50 - distance * 3);
-              tier = 'Tier 2 (New + Medium)';
-            } else {
-              // Tier 3: Older posts within 10 miles
-              score = 100 + (50 - distance * 3);
-              tier = 'Tier 3 (Old + Medium)';
-            }
-          } else {
-            // Tier 4: Meals beyond 10 miles (very low priority but still included)
-            if (isNewPost) {
-              score = 25 + Math.max(0, 50 - distance); // Very low score for distant new posts
-              tier = 'Tier 4 (New + Distant)';
-            } else {
-              score = 10 + Math.max(0, 25 - distance * 0.5); // Extremely low score for distant old posts
-              tier = 'Tier 4 (Old + Distant)';
-            }
-          }
-        } else {
-          // No location data, low priority
-          score = 50;
-          tier = 'Tier 3 (No Location)';
-        }
+      const ranking = await getFeedRankingAssignment(auth().currentUser?.uid);
+      feedRankingRef.current = ranking;
+      const area = feedArea();
+      const page = await fetchDiscoverPage(
+        area,
+        { followingIds: followingUserIds, ranker: ranking.ranker, tasteProfile },
+      );
+      feedAreaRef.current = area;
+      feedCursorRef.current = page.cursor;
 
-        // Get user data from batch-fetched map (performance optimization)
-        const userData = userDataMap.get(rawMeal.userId);
-        const userName = userData?.displayName || rawMeal.userName || '';
-        const userPhoto = userData?.photoURL || rawMeal.userPhoto || '';
-        
-        // Make sure aiMetadata has the expected properties
-        const aiMetadata = rawMeal.aiMetadata || {};
-        
-        meals.push({
-          id: rawMeal.id,
-          photoUrl: rawMeal.photoUrl,
-          photos: rawMeal.photos || undefined, // Include photos array for multi-photo support
-          rating: rawMeal.rating,
-          restaurant: rawMeal.restaurant || '',
-          meal: rawMeal.meal || '',
-          userId: rawMeal.userId,
-          userName,
-          userPhoto,
-          city: rawMeal.city || '', // Include city for filtering
-          mealType: rawMeal.mealType || 'Restaurant', // Include meal type (defaults to Restaurant for older entries)
-          location: rawMeal.location,
-          distance: distance,
-          createdAt: rawMeal.createdAt?.toDate?.() || new Date(),
-          score: score,
-          tier: tier,
-          aiMetadata: {
-            cuisineType: aiMetadata.cuisineType || 'Unknown',
-            foodType: aiMetadata.foodType || ['Unknown'],
-            mealType: aiMetadata.mealType || 'Unknown',
-            primaryProtein: aiMetadata.primaryProtein || 'Unknown',
-            dietType: aiMetadata.dietType || 'Unknown',
-            eatingMethod: aiMetadata.eatingMethod || 'Unknown',
-            setting: aiMetadata.setting || 'Unknown',
-            platingStyle: aiMetadata.platingStyle || 'Unknown',
-            beverageType: aiMetadata.beverageType || 'Unknown'
-          },
-          metadata_enriched: rawMeal.metadata_enriched || null,
-          enhanced_facts: rawMeal.enhanced_facts || null,
-          quick_criteria_result: rawMeal.quick_criteria_result || null,
-          pixel_art_url: rawMeal.pixel_art_url || undefined,
-        });
-      }
-      
-      // Sort by score (highest first) then by creation date for tie-breaking
-      meals.sort((a, b) => {
-        if (b.score !== a.score) {
-          return b.score - a.score;
-        }
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+      console.log(`Top 5 meals by score (${ranking.experiment}/${ranking.variant}):`);
+      page.meals.slice(0, 5).forEach(m => {
+        console.log(`  ${m.meal} — ${m.score?.toFixed(2)} ${m.tier} ${formatScoreBreakdown(m.breakdown)}`);
       });
-      
-      // Limit the number of meals to prevent performance issues
-      const limitedMeals = meals.slice(0, MAX_MEALS_TO_DISPLAY);
-      
-      console.log(`Processed ${meals.length} meals in ${uniqueUserIds.length} batched user queries`);
-      console.log('Top 5 meals by score:', limitedMeals.slice(0, 5).map(m => ({ 
-        meal: m.meal, 
-        score: m.score, 
-        tier: m.tier,
-        isFollowing: followingUserIds.includes(m.userId),
-        distance: m.distance 
-      })));
-      
-      // Show info to user if we're limiting results
-      const isLimited = meals.length > MAX_MEALS_TO_DISPLAY;
-      setShowingLimitedResults(isLimited);
-      
-      if (isLimited) {
-        console.log(`Limiting display to ${MAX_MEALS_TO_DISPLAY} meals for performance`);
-      }
-      
+
       if (!isMountedRef.current) return;
-      setAllNearbyMeals(limitedMeals);
+      setFeedHasMore(page.hasMore);
+      setShowingLimitedResults(page.hasMore);
+      setAllNearbyMeals(page.meals);
       // Filtered meals will be updated via the useEffect
     } catch (error) {
       console.error('Error fetching nearby meals:', error);
@@ -611,6 +400,40 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  // Next page as the feed scrolls. Pages are ranked on their own and
+  // appended, so cards already on screen never reshuffle.
+  const loadMoreNearbyMeals = async () => {
+    const cursor = feedCursorRef.current;
+    const area = feedAreaRef.current;
+    if (!cursor || !area || !feedHasMore || loadingMoreRef.current || loading || refreshing) {
+      return;
+    }
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await fetchDiscoverPage(
+        area,
+        {
+          followingIds: await getCachedFollowingList(),
+          cursor,
+          ranker: feedRankingRef.current?.ranker,
+          tasteProfile,
+        },
+      );
+      if (!isMountedRef.current || feedCursorRef.current !== cursor) return;
+      setFeedHasMore(page.hasMore);
+      setShowingLimitedResults(page.hasMore);
+      if (page.meals.length > 0) {
+        setAllNearbyMeals(prev => [...prev, ...page.meals]);
+      }
+    } catch (error) {
+      console.error('Error loading more meals:', error);
+    } finally {
+      loadingMoreRef.current = false;
+      if (isMountedRef.current) setLoadingMore(false);
+    }
+  };
+
   const handleRefresh = () => {
     setRefreshing(true);
     setImageErrors({}); // Reset image errors on refresh
@@ -652,6 +475,47 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
     [activeFilters]
   );
 
+  // ─── Saved filter presets ────────────────────────────────────────────
+  // Applying replaces filter state wholesale. A preset saved on FullMap
+  // carries a viewport; those open FullMap once the feed has loaded, since
+  // FullMap needs the unfiltered meal set to filter live.
+  const [savePresetVisible, setSavePresetVisible] = useState(false);
+  const [pendingPresetRegion, setPendingPresetRegion] = useState<FilterPresetRegion | null>(null);
+
+  const handleApplyPreset = useCallback((preset: FilterPreset) => {
+    const { filters, ratings } = resolveFilterPreset(preset);
+    setActiveFilters(filters);
+    setActiveRatingFilters(ratings);
+    setPendingPresetRegion(preset.region || null);
+  }, []);
+
+  const handleSavePreset = useCallback(async (name: string) => {
+    if (!currentUserId) return;
+    try {
+      await saveFilterPreset(currentUserId, filterPresetStateFrom(name, activeFilters, activeRatingFilters));
+    } catch (error: any) {
+      console.error('HomeScreen: Error saving filter preset:', error);
+      Alert.alert('Error', error?.message || 'Failed to save filters');
+    }
+  }, [currentUserId, activeFilters, activeRatingFilters]);
+
+  const presetSummary = useMemo(() => {
+    const parts = (activeFilters || []).map(describeQueryFilter);
+    if (activeRatingFilters && activeRatingFilters.length > 0) {
+      parts.push(`rating ${[...activeRatingFilters].sort().join('/')}`);
+    }
+    return parts.join(' · ');
+  }, [activeFilters, activeRatingFilters]);
+
+  // Shared filter link (App.handleDeepLink → Home { filterPreset })
+  useEffect(() => {
+    const shared = route.params?.filterPreset;
+    if (!shared) return;
+    console.log('HomeScreen: Applying shared filter preset:', shared.name);
+    handleApplyPreset({ ...shared, id: 'shared', pinned: false, createdAt: Date.now() });
+    navigation.setParams({ filterPreset: undefined });
+  }, [route.params?.filterPreset, handleApplyPreset, navigation]);
+
   // Handle rating filter changes
   const handleRatingFilterChange = useCallback((ratings: number[] | null) => {
     console.log('HomeScreen: Rating filters changed:', ratings);
@@ -702,7 +566,7 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
   };
 
   // Navigation function for meal details
-  const viewMealDetails = useCallback((meal: MealEntry) => {
+  const viewMealDetails = useCallback((meal: { id: string }) => {
     console.log("Navigating to meal detail with ID:", meal.id);
     navigation.navigate('MealDetail', {
       mealId: meal.id,
@@ -728,6 +592,23 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
     });
   }, [allNearbyMeals, userLocation, activeFilters, activeRatingFilters, navigation]);
 
+  // A preset with a saved viewport opens FullMap on that region.
+  useEffect(() => {
+    if (!pendingPresetRegion || allNearbyMeals.length === 0) return;
+    navigation.navigate('FullMap', {
+      nearbyMeals: allNearbyMeals,
+      userLocation,
+      activeFilters,
+      activeRatingFilters,
+      centerOnLocation: pendingPresetRegion,
+      onFiltersSync: (filters: FilterItem[] | null, ratings: number[] | null) => {
+        setActiveFilters(filters);
+        setActiveRatingFilters(ratings);
+      },
+    });
+    setPendingPresetRegion(null);
+  }, [pendingPresetRegion, allNearbyMeals, userLocation, activeFilters, activeRatingFilters, navigation]);
+
   // ─── Sticky map strip + Near You carousel state ──────────────────────
   const [mapVisible, setMapVisible] = useState(true);
   const [focusedMealId, setFocusedMealId] = useState<string | null>(null);
@@ -794,14 +675,35 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
     () => !!activeFilters?.some(f => f.type === 'iconicEats'),
     [activeFilters],
   );
-  const { iconicEats } = useIconicEats(userLocation, { expanded: iconicEatsFilterActive });
+  const { iconicEats, checklists: iconicChecklists, unlocked: unlockedIconicEats } = useIconicEats(
+    userLocation,
+    { expanded: iconicEatsFilterActive },
+  );
   const [activeIconicEat, setActiveIconicEat] = useState<IconicEat | null>(null);
+  const [activeChecklist, setActiveChecklist] = useState<IconicChecklist | null>(null);
+  const [iconicStoryCard, setIconicStoryCard] = useState<StoryCardData | null>(null);
   const [focusedIconicEatId, setFocusedIconicEatId] = useState<string | null>(null);
 
   // Tap on a tile → open modal (don't auto-focus map; focus happens on scroll).
   const handleIconicEatPress = useCallback((eat: IconicEat) => {
     setActiveIconicEat(eat);
-  }, []);
+    setActiveChecklist(checklistsForEat(iconicChecklists, eat.id)[0] || null);
+  }, [iconicChecklists]);
+
+  // Checklist item tapped in the modal → show that dish, keeping the list.
+  // Items off the row (further away) are fetched on demand.
+  const handleChecklistItemSelect = useCallback(async (eatId: string) => {
+    const eat = iconicEats.find(e => e.id === eatId) || (await fetchIconicEatById(eatId));
+    if (eat) setActiveIconicEat({ ...eat, unlocked: unlockedIconicEats.has(eat.id) });
+  }, [iconicEats, unlockedIconicEats]);
+
+  // Progress chip on the row → open the checklist on its nearest remaining dish
+  const handleChecklistPress = useCallback((checklist: IconicChecklist) => {
+    const next = remainingChecklistItems(checklist, unlockedIconicEats, userLocation)[0] || checklist.items[0];
+    if (!next) return;
+    setActiveChecklist(checklist);
+    handleChecklistItemSelect(next.id);
+  }, [unlockedIconicEats, userLocation, handleChecklistItemSelect]);
 
   // Carousel scroll → update focused iconic eat on the map.
   const handleIconicEatFocusChange = useCallback((id: string | null) => {
@@ -824,8 +726,15 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
 
   const handleIconicEatModalClose = useCallback(() => {
     setActiveIconicEat(null);
+    setActiveChecklist(null);
   }, []);
 
+  const handleIconicEatShare = useCallback((eat: IconicEat, photoUrl: string | null) => {
+    if (!currentUserId) return;
+    setActiveIconicEat(null);
+    setIconicStoryCard(iconicEatStoryCard(eat, photoUrl, currentUserId));
+  }, [currentUserId]);
+
   // Navigation function for user profiles from carousel
   const handleUserPress = (userId: string, userName: string, userPhoto: string) => {
     console.log('Navigating to user profile from carousel:', userName, userId);
@@ -928,7 +837,7 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
   };
 
   // Helper function to process meal photos (similar to MealDetailScreen)
-  const processMealPhotos = (mealData: MealEntry): PhotoItem[] => {
+  const processMealPhotos = (mealData: MealEntry): MealPhoto[] => {
     if (mealData.photos && Array.isArray(mealData.photos)) {
       // New format - meal has photos array
       return mealData.photos.sort((a, b) => a.order - b.order);
@@ -952,9 +861,10 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
     // Compute taste match score against the current user's taste profile.
     // Returns null if the profile is locked or missing, in which case we hide
     // the badge entirely (no negative framing, ever).
-    const tasteMatchScore = React.useMemo(() => {
-      return computeTasteMatch(item as any, tasteProfile);
+    const tasteMatch = React.useMemo(() => {
+      return explainTasteMatch(item, tasteProfile);
     }, [item, tasteProfile]);
+    const tasteMatchScore = tasteMatch?.score ?? null;
     const showTasteBadge =
       tasteMatchScore !== null && tasteMatchScore >= TASTE_MATCH_BADGE_THRESHOLD;
     
@@ -1138,6 +1048,7 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
                     {item.restaurant}
                   </Text>
                 )}
+                {showTasteBadge && <TasteMatchExplanation explanation={tasteMatch} compact />}
               </View>
 
               {/* Right side: distance above, emoji below */}
@@ -1176,11 +1087,17 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
     // Check if this is the carousel item
     if (item && item.type === 'carousel') {
       return (
-        <NearbyUsersCarousel
-          userLocation={userLocation}
-          onUserPress={handleUserPress}
-          onRefresh={carouselRefreshTrigger}
-        />
+        <>
+          <NearbyUsersCarousel
+            userLocation={userLocation}
+            onUserPress={handleUserPress}
+            onRefresh={carouselRefreshTrigger}
+          />
+          <PeopleLikeYouCarousel
+            userId={currentUserId}
+            onMealPress={viewMealDetails}
+          />
+        </>
       );
     }
     // Iconic-eat challenge placeholder (injected when the chip is active)
@@ -1194,7 +1111,7 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
     }
     // Otherwise render the meal card
     return <DoubleTapMealCard item={item as MealEntry} />;
-  }, [userLocation, handleUserPress, carouselRefreshTrigger, handleIconicEatPress]);
+  }, [userLocation, handleUserPress, carouselRefreshTrigger, handleIconicEatPress, currentUserId, viewMealDetails]);
   
 
 
@@ -1244,6 +1161,9 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
       onIconicEatFocusChange={handleIconicEatFocusChange}
       carouselRef={carouselRef}
       iconicRowRef={iconicRowRef}
+      iconicChecklists={iconicChecklists}
+      unlockedIconicEats={unlockedIconicEats}
+      onChecklistPress={handleChecklistPress}
     />
   ), [
     nearYouMeals,
@@ -1252,6 +1172,9 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
     handleIconicEatPress,
     handleFocusChange,
     handleIconicEatFocusChange,
+    iconicChecklists,
+    unlockedIconicEats,
+    handleChecklistPress,
   ]);
 
   const handleFeedScroll = useCallback((event: any) => {
@@ -1320,6 +1243,11 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
           />
         }
         ListEmptyComponent={emptyComponent}
+        onEndReached={loadMoreNearbyMeals}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.feedFooterSpinner} color="#1a2b49" /> : null
+        }
       />
     );
   };
@@ -1385,6 +1313,10 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
           onToggleFilter={handleQuickChipToggle}
           tasteProfile={tasteProfile}
           showSocialChips={false}
+          presets={pinnedPresets}
+          activeRatingFilters={activeRatingFilters}
+          onApplyPreset={handleApplyPreset}
+          onSavePreset={() => setSavePresetVisible(true)}
         />
       </View>
 
@@ -1466,6 +1398,23 @@ const HomeScreen: React.FC<Props> = ({ navigation, route }) => {
         eat={activeIconicEat}
         onClose={handleIconicEatModalClose}
         onShowOnMap={handleIconicEatModalShowOnMap}
+        onShare={handleIconicEatShare}
+        checklist={activeChecklist}
+        unlocked={unlockedIconicEats}
+        origin={userLocation}
+        onSelectChecklistItem={handleChecklistItemSelect}
+      />
+      <StoryCardModal
+        visible={!!iconicStoryCard}
+        card={iconicStoryCard}
+        onClose={() => setIconicStoryCard(null)}
+      />
+
+      <SaveFilterPresetModal
+        visible={savePresetVisible}
+        summary={presetSummary}
+        onClose={() => setSavePresetVisible(false)}
+        onSave={handleSavePreset}
       />
     </SafeAreaView>
   );
@@ -1507,6 +1456,9 @@ const styles = StyleSheet.create({
     height: 50,
     marginLeft: -16,
   },
+  feedFooterSpinner: {
+    paddingVertical: spacing.md,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useIsFocused } from '@react-navigation/native';
-import { View, Text, StyleSheet, Image, TouchableOpacity, ActivityIndicator, ScrollView, Alert, Share, SafeAreaView, Linking, KeyboardAvoidingView, Platform, Modal, TextInput, Animated } from 'react-native';
+import { View, Text, StyleSheet, Image, TouchableOpacity, ActivityIndicator, ScrollView, Alert, SafeAreaView, Linking, KeyboardAvoidingView, Platform, Modal, TextInput, Animated } from 'react-native';
 import ReactNativeHapticFeedback from 'react-native-haptic-feedback';
 import { CompositeNavigationProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
@@ -33,7 +33,12 @@ import { refreshUserCounts } from '../services/countRefreshService';
 import { colors, typography, spacing, shadows } from '../themes';
 import IconicBadge from '../components/IconicBadge';
 import IconicEatModal from '../components/IconicEatModal';
+import StoryCardModal from '../components/StoryCardModal';
+import { StoryCardData, iconicEatStoryCard, mealStoryCard } from '../utils/storyCard';
 import { fetchIconicEatById, IconicEat } from '../services/iconicEatsService';
+import TasteMatchExplanation from '../components/TasteMatchExplanation';
+import { useTasteProfile } from '../utils/useTasteProfile';
+import { explainTasteMatch } from '../utils/tasteMatch';
 
 // Update the navigation prop type to use composite navigation
 type MealDetailScreenNavigationProp = CompositeNavigationProp<
@@ -80,6 +85,13 @@ const MealDetailScreen: React.FC<Props> = ({ route, navigation }) => {
   // Iconic eat detail state — only populated when meal.iconic_eat_id is set
   const [iconicEat, setIconicEat] = useState<IconicEat | null>(null);
   const [iconicModalVisible, setIconicModalVisible] = useState(false);
+  const [storyCard, setStoryCard] = useState<StoryCardData | null>(null);
+  // Viewer's taste profile, for the "why you'd like this" card
+  const { profile: viewerTasteProfile } = useTasteProfile(auth().currentUser?.uid);
+  const tasteMatch = useMemo(
+    () => (meal ? explainTasteMatch(meal, viewerTasteProfile) : null),
+    [meal, viewerTasteProfile],
+  );
 
   useEffect(() => {
     let cancelled = false;
@@ -464,15 +476,8 @@ const MealDetailScreen: React.FC<Props> = ({ route, navigation }) => {
   };
   
   // Share the meal
-  const handleShare = async () => {
-    try {
-      await Share.share({
-        message: `I rated ${meal.meal || 'my meal'} ${meal.rating} stars${meal.restaurant ? ` at ${meal.restaurant}` : ''}!`,
-        url: meal.photoUrl
-      });
-    } catch (error) {
-      console.log('Sharing error:', error);
-    }
+  const handleShare = () => {
+    setStoryCard(mealStoryCard({ ...meal, id: mealId }));
   };
 
   // Show follow user coming soon message
@@ -1181,6 +1186,9 @@ const MealDetailScreen: React.FC<Props> = ({ route, navigation }) => {
             {meal.userName || 'Anonymous User'}
           </Text>
         </TouchableOpacity>
+
+        {/* Why the viewer would like someone else's meal, from their taste profile */}
+        {!isOwnMeal() && <TasteMatchExplanation explanation={tasteMatch} />}
         
         {/* Comments section - handle both new thoughts format and legacy liked/disliked format */}
         {(meal.comments?.thoughts || meal.comments?.liked || meal.comments?.disliked) && (
@@ -1870,6 +1878,17 @@ const MealDetailScreen: React.FC<Props> = ({ route, navigation }) => {
         eat={iconicEat}
         onClose={() => setIconicModalVisible(false)}
         onShowOnMap={() => setIconicModalVisible(false)}
+        onShare={(eat, photoUrl) => {
+          const currentUserId = auth().currentUser?.uid;
+          if (!currentUserId) return;
+          setIconicModalVisible(false);
+          setStoryCard(iconicEatStoryCard(eat, photoUrl, currentUserId));
+        }}
+      />
+      <StoryCardModal
+        visible={!!storyCard}
+        card={storyCard}
+        onClose={() => setStoryCard(null)}
       />
     </SafeAreaView>
   );
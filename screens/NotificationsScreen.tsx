@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -15,6 +15,8 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../App';
 import { auth } from '../firebaseConfig';
 import inAppNotificationService, { InAppNotification } from '../services/inAppNotificationService';
+import { NotificationGroup, groupNotifications } from '../utils/notificationGrouping';
+import NotificationPreferencesModal from '../components/NotificationPreferencesModal';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 // Import theme
 import { colors, typography, spacing, shadows } from '../themes';
@@ -26,6 +28,14 @@ const NotificationsScreen: React.FC = () => {
   const [notifications, setNotifications] = useState<InAppNotification[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const userId = auth().currentUser?.uid;
+
+  // Types the user routes only to push / digest stay out of the list
+  const groups = useMemo(
+    () => groupNotifications(notifications.filter(n => n.inApp !== false)),
+    [notifications],
+  );
 
   useEffect(() => {
     const user = auth().currentUser;
@@ -65,17 +75,22 @@ const NotificationsScreen: React.FC = () => {
     }
   };
 
-  const handleNotificationPress = async (notification: InAppNotification) => {
-    // Mark as read
-    if (!notification.read) {
-      await inAppNotificationService.markAsRead(notification.id);
+  const handleNotificationPress = async (group: NotificationGroup) => {
+    // Mark the whole group as read
+    const unreadIds = group.notifications.filter(n => !n.read).map(n => n.id);
+    if (unreadIds.length === 1) {
+      await inAppNotificationService.markAsRead(unreadIds[0]);
+    } else if (unreadIds.length > 1) {
+      await inAppNotificationService.markManyAsRead(unreadIds);
     }
 
     // Navigate based on notification type
-    if (notification.mealId) {
-      console.log('📱 Navigating to meal detail from notification, mealId:', notification.mealId);
+    if (group.type === 'weekly_recap') {
+      navigation.navigate('WeeklyRecap', { weekKey: group.latest.weekKey });
+    } else if (group.mealId) {
+      console.log('📱 Navigating to meal detail from notification, mealId:', group.mealId);
       navigation.navigate('MealDetail', {
-        mealId: notification.mealId,
+        mealId: group.mealId,
         previousScreen: 'Notifications'
       });
     }
@@ -89,32 +104,37 @@ const NotificationsScreen: React.FC = () => {
   };
 
 
-  const renderNotification = ({ item }: { item: InAppNotification }) => (
+  const renderNotification = ({ item }: { item: NotificationGroup }) => (
     <TouchableOpacity
       style={[styles.notificationItem, !item.read && styles.unreadNotification]}
       onPress={() => handleNotificationPress(item)}
       activeOpacity={0.7}
     >
       <View style={styles.notificationLeft}>
-        {/* User Avatar */}
-        {item.fromUser.photo ? (
-          <Image source={{ uri: item.fromUser.photo }} style={styles.userAvatar} />
+        {/* User Avatar (newest actor) */}
+        {item.actors[0].photo ? (
+          <Image source={{ uri: item.actors[0].photo }} style={styles.userAvatar} />
         ) : (
           <View style={[styles.userAvatar, styles.defaultAvatar]}>
             <Text style={styles.defaultAvatarText}>
-              {item.fromUser.name.charAt(0).toUpperCase()}
+              {item.actors[0].name.charAt(0).toUpperCase()}
             </Text>
           </View>
         )}
+        {item.actors.length > 1 && (
+          <View style={styles.actorCountBadge}>
+            <Text style={styles.actorCountText}>+{item.actors.length - 1}</Text>
+          </View>
+        )}
       </View>
 
       <View style={styles.notificationContent}>
         <Text style={styles.notificationMessage} numberOfLines={2}>
           {item.message}
         </Text>
-        {item.commentText && (
+        {item.latest.commentText && (
           <Text style={styles.commentText} numberOfLines={1}>
-            "{item.commentText}"
+            "{item.latest.commentText}"
           </Text>
         )}
         <Text style={styles.timeAgo}>
@@ -146,11 +166,16 @@ const NotificationsScreen: React.FC = () => {
         />
       </TouchableOpacity>
       <Text style={styles.headerTitle}>Notifications</Text>
-      {notifications.some(n => !n.read) && (
+      {groups.some(g => !g.read) && (
         <TouchableOpacity onPress={markAllAsRead} style={styles.markAllButton}>
           <Text style={styles.markAllText}>Mark all read</Text>
         </TouchableOpacity>
       )}
+      {userId && (
+        <TouchableOpacity onPress={() => setShowPreferences(true)} style={styles.settingsButton}>
+          <Icon name="settings" size={22} color={colors.textPrimary} />
+        </TouchableOpacity>
+      )}
     </View>
   );
 
@@ -169,15 +194,22 @@ const NotificationsScreen: React.FC = () => {
     <SafeAreaView style={styles.container}>
       {renderHeader()}
       <FlatList
-        data={notifications}
+        data={groups}
         renderItem={renderNotification}
-        keyExtractor={(item) => item.id}
-        contentContainerStyle={notifications.length === 0 ? styles.emptyListContainer : styles.listContainer}
+        keyExtractor={(item) => item.key}
+        contentContainerStyle={groups.length === 0 ? styles.emptyListContainer : styles.listContainer}
         ListEmptyComponent={renderEmpty}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} colors={['#1a2b49']} />
         }
       />
+      {userId && (
+        <NotificationPreferencesModal
+          visible={showPreferences}
+          userId={userId}
+          onClose={() => setShowPreferences(false)}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -221,6 +253,10 @@ const styles = StyleSheet.create({
     ...typography.bodyMedium,
     fontWeight: '600',
   },
+  settingsButton: {
+    padding: spacing.xs,
+    marginLeft: spacing.xs,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -263,6 +299,25 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  actorCountBadge: {
+    position: 'absolute',
+    right: -4,
+    bottom: -4,
+    minWidth: 22,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: colors.textPrimary,
+    borderWidth: 1.5,
+    borderColor: colors.white,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actorCountText: {
+    color: colors.white,
+    fontSize: 10,
+    fontWeight: '700',
+  },
   notificationContent: {
     flex: 1,
     marginRight: spacing.xs,
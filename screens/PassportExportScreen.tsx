@@ -0,0 +1,251 @@
+/**
+ * PassportExportScreen
+ * Printable "stamp book" of the signed-in user's Food Passport. Loads the
+ * passport (services/passportExportService.ts), lays it out
+ * (utils/passportPdfLayout.ts) and previews every page. Export captures each
+ * page with react-native-view-shot, stitches the JPEGs into a PDF
+ * (utils/pdfWriter.ts), saves it to the documents folder and shares it
+ * (utils/shareLocalFile.ts).
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Image,
+  Alert,
+  Dimensions,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import ViewShot from 'react-native-view-shot';
+import { RootStackParamList } from '../App';
+import { auth } from '../firebaseConfig';
+import { colors, typography, spacing, shadows } from '../themes';
+import PassportPdfPage from '../components/PassportPdfPage';
+import { loadPassportPdfInput, savePassportPdf } from '../services/passportExportService';
+import { buildPassportPdfLayout, PassportPdfInput, PDF_PAGE_SIZE } from '../utils/passportPdfLayout';
+import { buildImagePdf, PdfImagePage } from '../utils/pdfWriter';
+import { shareLocalFile } from '../utils/shareLocalFile';
+
+type PassportExportScreenNavigationProp = StackNavigationProp<RootStackParamList, 'PassportExport'>;
+
+type Props = {
+  navigation: PassportExportScreenNavigationProp;
+};
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const PREVIEW_SCALE = (SCREEN_WIDTH - spacing.md * 2) / PDF_PAGE_SIZE.width;
+// 2× the page in points: ~144 dpi, sharp enough to print pixel art
+const CAPTURE_WIDTH = PDF_PAGE_SIZE.width * 2;
+const CAPTURE_HEIGHT = PDF_PAGE_SIZE.height * 2;
+
+const remoteUrls = (input: PassportPdfInput): string[] => {
+  const urls = [
+    input.userPhoto,
+    ...input.tables.flatMap(t => t.urls),
+    ...Object.values(input.monuments),
+  ];
+  return [...new Set(urls.filter((u): u is string => !!u && u.startsWith('http')))];
+};
+
+const PassportExportScreen: React.FC<Props> = ({ navigation }) => {
+  const [input, setInput] = useState<PassportPdfInput | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [savedPath, setSavedPath] = useState<string | null>(null);
+  const pageRefs = useRef<(ViewShot | null)[]>([]);
+
+  useEffect(() => {
+    const user = auth().currentUser;
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+    loadPassportPdfInput(user.uid, { userName: user.displayName || '', userPhoto: user.photoURL })
+      .then(async data => {
+        // Images must be loaded before the pages are captured
+        await Promise.all(remoteUrls(data).map(url => Image.prefetch(url).catch(() => false)));
+        setInput(data);
+      })
+      .catch(error => {
+        console.error('Error loading passport for export:', error);
+        Alert.alert('Error', 'Failed to load your passport');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const pages = useMemo(() => (input ? buildPassportPdfLayout(input) : []), [input]);
+
+  const handleExport = async () => {
+    if (!input || progress) return;
+    setSavedPath(null);
+    try {
+      const images: PdfImagePage[] = [];
+      for (let i = 0; i < pages.length; i++) {
+        setProgress(`Rendering page ${i + 1} of ${pages.length}…`);
+        const shot = pageRefs.current[i];
+        if (!shot?.capture) throw new Error(`Page ${i + 1} is not ready`);
+        const jpegBase64 = await shot.capture();
+        images.push({ jpegBase64, pixelWidth: CAPTURE_WIDTH, pixelHeight: CAPTURE_HEIGHT });
+      }
+
+      setProgress('Saving PDF…');
+      const pdf = buildImagePdf(images, PDF_PAGE_SIZE, `${input.userName || 'My'} Food Passport`);
+      const path = await savePassportPdf(pdf, input.generatedAt);
+      setSavedPath(path);
+      setProgress(null);
+      await shareLocalFile(path, 'application/pdf', { title: 'Food Passport' });
+    } catch (error) {
+      console.error('Error exporting passport PDF:', error);
+      setProgress(null);
+      Alert.alert('Error', 'Failed to export your passport');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Image source={require('../assets/icons/back-icon.png')} style={styles.backIcon} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Export Passport</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.warmTaupe} />
+          <Text style={styles.emptyText}>Putting your stamp book together…</Text>
+        </View>
+      ) : !input ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyTitle}>Nothing to export</Text>
+          <Text style={styles.emptyText}>Sign in and log a few meals to build your passport.</Text>
+        </View>
+      ) : (
+        <>
+          <ScrollView contentContainerStyle={styles.scroll}>
+            {pages.map((page, i) => (
+              <ViewShot
+                key={page.number}
+                ref={ref => {
+                  pageRefs.current[i] = ref;
+                }}
+                options={{ format: 'jpg', quality: 0.9, result: 'base64', width: CAPTURE_WIDTH, height: CAPTURE_HEIGHT }}
+                style={styles.pageShadow}
+              >
+                <PassportPdfPage page={page} totalPages={pages.length} scale={PREVIEW_SCALE} />
+              </ViewShot>
+            ))}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            {savedPath && !progress && (
+              <Text style={styles.savedText} numberOfLines={1}>Saved {savedPath.split('/').pop()}</Text>
+            )}
+            <TouchableOpacity style={styles.exportButton} onPress={handleExport} disabled={!!progress}>
+              {progress ? (
+                <View style={styles.progressRow}>
+                  <ActivityIndicator size="small" color={colors.white} />
+                  <Text style={styles.exportText}>{progress}</Text>
+                </View>
+              ) : (
+                <Text style={styles.exportText}>Export {pages.length}-page PDF</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.lightTan,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  backIcon: {
+    width: 24,
+    height: 24,
+    tintColor: colors.textPrimary,
+    resizeMode: 'contain',
+  },
+  headerTitle: {
+    flex: 1,
+    ...typography.h2,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+    marginLeft: spacing.sm,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyTitle: {
+    ...typography.bodyLarge,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  emptyText: {
+    ...typography.bodyMedium,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.xs,
+  },
+  scroll: {
+    padding: spacing.md,
+  },
+  pageShadow: {
+    marginBottom: spacing.md,
+    ...shadows.medium,
+  },
+  footer: {
+    padding: spacing.md,
+    backgroundColor: colors.white,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  savedText: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.xs,
+  },
+  exportButton: {
+    backgroundColor: colors.warmTaupe,
+    borderRadius: 24,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  exportText: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.white,
+    marginLeft: spacing.xs,
+  },
+});
+
+export default PassportExportScreen;
@@ -50,6 +50,10 @@ import Carousel3D, { CarouselItem } from '../components/Carousel3D';
 // getDrinkPairings and getDishHistory removed — redundant with extractDishInsights
 import { generatePixelArtIcon, PixelArtData, createImageDataUri } from '../services/geminiPixelArtService';
 import { findIconicEatMatch } from '../services/iconicEatsService';
+import { createMeal, newMealId, updateMeal, uploadMealPhoto } from '../services/mealOutboxService';
+import { uploadClaimEvidencePhoto } from '../services/iconicClaimService';
+import { scheduleStreakReminder } from '../services/streakService';
+import { checkMealAchievements } from '../services/achievementService';
 // Monument service removed — no longer used
 // Enhanced metadata service removed - now handled by Cloud Functions
 // REMOVED: Facts service no longer used
@@ -935,66 +939,6 @@ const RatingScreen2: React.FC<Props> = ({ route, navigation }) => {
     }
   };
   
-  // Upload image to Firebase Storage
-  const uploadImageToFirebase = async (imageUri: string, userId: string): Promise<string> => {
-    try {
-      console.log('📤 Uploading image to Firebase Storage...');
-      
-      // Check authentication first
-      const currentUser = auth().currentUser;
-      if (!currentUser) {
-        throw new Error('User not authenticated');
-      }
-      
-      // Refresh auth token to ensure we have valid credentials
-      try {
-        await currentUser.reload();
-        await currentUser.getIdToken(true); // Force refresh
-        console.log('✅ Auth token refreshed successfully');
-      } catch (authError) {
-        console.error('❌ Auth token refresh failed:', authError);
-        throw new Error('Authentication failed - please log in again');
-      }
-      
-      const timestamp = new Date().getTime();
-      const filename = `meal_${timestamp}.jpg`;
-      const storagePath = `meals/${userId}/${filename}`;
-      const reference = storage().ref(storagePath);
-      
-      console.log('Uploading to path:', storagePath);
-      
-      // Upload the file with metadata
-      const metadata = {
-        customMetadata: {
-          userId: userId,
-          timestamp: timestamp.toString(),
-          uploadSource: 'RatingScreen2'
-        }
-      };
-      
-      await reference.putFile(imageUri, metadata);
-      // File uploaded successfully
-      
-      // Get download URL
-      const downloadURL = await reference.getDownloadURL();
-      
-      return downloadURL;
-    } catch (error) {
-      console.error('❌ Error uploading image to Firebase:', error);
-      
-      // Provide more specific error messages
-      if (error.code === 'storage/unauthorized') {
-        throw new Error('Not authorized to upload images. Please check your login status.');
-      } else if (error.code === 'storage/canceled') {
-        throw new Error('Upload was cancelled');
-      } else if (error.code === 'storage/unknown') {
-        throw new Error('An unknown error occurred during upload');
-      }
-      
-      throw error;
-    }
-  };
-
   // Function to save rating and navigate to result screen
   const saveRating = async () => {
     try {
@@ -1029,7 +973,7 @@ const RatingScreen2: React.FC<Props> = ({ route, navigation }) => {
         92,   // Quality - increased from 85 to 92 for better quality
         0,    // Rotation
         undefined,  // Output path (let it generate)
-        false,  // Keep metadata
+        true,  // Keep metadata
         {
           mode: 'cover',  // Changed to 'cover' to maintain aspect ratio without letterboxing
           onlyScaleDown: true,
@@ -1131,7 +1075,7 @@ const RatingScreen2: React.FC<Props> = ({ route, navigation }) => {
         // this update overwrites it with the restaurant-selected location
         // (handleRestaurantSelection sets this via setLocation). If location
         // is null (rare), skip the field — never overwrite with null.
-        await firestore().collection('mealEntries').doc(mealId).update({
+        await updateMeal('rating', mealId, {
           meal: mealName || '',
           restaurant: restaurant || '',
           city: (cityInfo || '').toLowerCase().trim(),
@@ -1185,12 +1129,18 @@ const RatingScreen2: React.FC<Props> = ({ route, navigation }) => {
           rating_statements_result: null
         };
 
-        // Save basic meal data and get the document ID
-        const docRef = await firestore().collection('mealEntries').add(basicMealData);
-        mealId = docRef.id;
-        logWithSession(`Basic meal saved: ${mealId}`);
+        // Save basic meal data under a locally generated id. Offline saves
+        // land in the outbox and replay once connectivity returns.
+        mealId = newMealId();
+        const createQueued = await createMeal('rating', mealId, basicMealData);
+        logWithSession(`Basic meal ${createQueued ? 'queued' : 'saved'}: ${mealId}`);
+        scheduleStreakReminder(user.uid, { justLogged: basicMealData.photoTakenAt || new Date() });
       }
 
+      // Stamps (streak milestones included) for the meal just saved; shows
+      // its own notification, so not awaited
+      checkMealAchievements(mealId);
+
       // Challenge completion check disabled for now
       // const checkChallengeCompletion = async () => {
       //   try {
@@ -1258,12 +1208,8 @@ const RatingScreen2: React.FC<Props> = ({ route, navigation }) => {
         // (Result screen needs the image URL in params)
         let imageUrl = null;
         if (freshPhoto?.uri) {
-          imageUrl = await uploadImageToFirebase(freshPhoto.uri, user.uid);
-          await firestore().collection('mealEntries').doc(mealId).update({
-            imageUrl: imageUrl,
-            photoUrl: imageUrl,
-          });
-          logWithSession('Document updated with image URL');
+          imageUrl = await uploadMealPhoto('rating', mealId, user.uid, freshPhoto.uri);
+          logWithSession(imageUrl ? 'Document updated with image URL' : 'Image queued for upload');
         }
         logWithSession('Navigating to ResultScreen (default flow)');
         navigation.navigate('Result', resultParams);
@@ -1299,10 +1245,7 @@ const RatingScreen2: React.FC<Props> = ({ route, navigation }) => {
           // Overwrite pixel art with the curated iconic emoji. Using set(merge)
           // semantics via update() is safe here because the meal doc exists
           // (we just created it above).
-          await firestore()
-            .collection('mealEntries')
-            .doc(mealId)
-            .update({
+          await updateMeal('rating', mealId, {
               iconic_eat_id: match.id,
               pixel_art_url: match.emoji_url,
               pixel_art_options: [match.emoji_url],
@@ -1320,18 +1263,23 @@ const RatingScreen2: React.FC<Props> = ({ route, navigation }) => {
         (async () => {
           try {
             logWithSession('Background image upload starting...');
-            const imageUrl = await uploadImageToFirebase(freshPhoto.uri, user.uid);
-            await firestore().collection('mealEntries').doc(mealId).update({
-              imageUrl: imageUrl,
-              photoUrl: imageUrl,
-            });
-            logWithSession('Background image upload complete');
+            const imageUrl = await uploadMealPhoto('rating', mealId, user.uid, freshPhoto.uri);
+            logWithSession(imageUrl ? 'Background image upload complete' : 'Background image queued for upload');
           } catch (err) {
             console.error('❌ Background image upload failed:', err);
           }
         })();
       }
 
+      // The picked photo's EXIF, which the crop and filters dropped, for
+      // iconic claims (services/iconicClaimService)
+      const evidencePhotoUri = route.params.evidencePhotoUri;
+      if (evidencePhotoUri && !isUnratedMeal) {
+        uploadClaimEvidencePhoto('rating', mealId, user.uid, evidencePhotoUri).catch(err =>
+          console.error('❌ Claim evidence upload failed:', err)
+        );
+      }
+
       // ========================================
       // BACKGROUND API CALLS - Continue after navigation
       // ========================================
@@ -1353,7 +1301,7 @@ const RatingScreen2: React.FC<Props> = ({ route, navigation }) => {
 
           if (criteriaData) {
             console.log('✅ Rating criteria extracted with rating statements context');
-            await firestore().collection('mealEntries').doc(mealId).update({
+            await updateMeal('rating', mealId, {
               dish_rating_criteria: criteriaData
             });
           }
@@ -1380,7 +1328,7 @@ const RatingScreen2: React.FC<Props> = ({ route, navigation }) => {
               has_restaurant_fact: !!insightsData.restaurant_fact,
               has_cultural_insight: !!insightsData.cultural_insight
             });
-            await firestore().collection('mealEntries').doc(mealId).update({
+            await updateMeal('rating', mealId, {
               dish_insights: insightsData
             });
           }
@@ -1411,7 +1359,7 @@ const RatingScreen2: React.FC<Props> = ({ route, navigation }) => {
               criteria_updated_at: firestore.FieldValue.serverTimestamp()
             };
 
-            await firestore().collection('mealEntries').doc(mealId).update(criteriaUpdate);
+            await updateMeal('rating', mealId, criteriaUpdate);
             logWithSession(`Rating criteria saved successfully`);
 
           } catch (firestoreError) {
@@ -1485,19 +1433,13 @@ const RatingScreen2: React.FC<Props> = ({ route, navigation }) => {
                 console.log(
                   `🏆 Gallery pixel art: meal ${mealId} matched iconic eat ${preWriteData.iconic_eat_id}; saving options only (preserving iconic emoji)`,
                 );
-                await firestore()
-                  .collection('mealEntries')
-                  .doc(mealId)
-                  .update({
+                await updateMeal('rating', mealId, {
                     pixel_art_options: optionUrls,
                     pixel_art_prompt: pixelArtResult.prompt_used,
                     pixel_art_updated_at: firestore.FieldValue.serverTimestamp(),
                   });
               } else {
-                await firestore()
-                  .collection('mealEntries')
-                  .doc(mealId)
-                  .update({
+                await updateMeal('rating', mealId, {
                     pixel_art_options: optionUrls,
                     pixel_art_url: optionUrls[0], // Default to first option until user picks
                     pixel_art_prompt: pixelArtResult.prompt_used,
@@ -0,0 +1,379 @@
+/**
+ * WeeklyRecapScreen
+ * Shareable card for one week's recap (services/weeklyRecapService.ts).
+ * Opened from the Monday recap notification with the week's key; without
+ * one it shows the latest recap on file. Share captures the card as an
+ * image with react-native-view-shot.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Image,
+  Alert,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import ViewShot from 'react-native-view-shot';
+import { RootStackParamList } from '../App';
+import { auth } from '../firebaseConfig';
+import { colors, typography, spacing, shadows } from '../themes';
+import { WeeklyRecap, getLatestWeeklyRecap, getWeeklyRecap } from '../services/weeklyRecapService';
+import { shareLocalFile } from '../utils/shareLocalFile';
+
+type WeeklyRecapScreenNavigationProp = StackNavigationProp<RootStackParamList, 'WeeklyRecap'>;
+type WeeklyRecapScreenRouteProp = RouteProp<RootStackParamList, 'WeeklyRecap'>;
+
+type Props = {
+  navigation: WeeklyRecapScreenNavigationProp;
+  route: WeeklyRecapScreenRouteProp;
+};
+
+const titleCase = (value: string) => value.replace(/\b\w/g, c => c.toUpperCase());
+
+const formatWeek = (recap: WeeklyRecap) => {
+  if (!recap.weekStart) return recap.weekKey;
+  // weekStart is midnight UTC on the Monday
+  return `Week of ${recap.weekStart.toLocaleDateString(undefined, { month: 'long', day: 'numeric', timeZone: 'UTC' })}`;
+};
+
+const Stat: React.FC<{ value: number | string; label: string }> = ({ value, label }) => (
+  <View style={styles.stat}>
+    <Text style={styles.statValue}>{value}</Text>
+    <Text style={styles.statLabel}>{label}</Text>
+  </View>
+);
+
+const WeeklyRecapScreen: React.FC<Props> = ({ route, navigation }) => {
+  const weekKey = route.params?.weekKey;
+  const [recap, setRecap] = useState<WeeklyRecap | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sharing, setSharing] = useState(false);
+  const cardRef = useRef<ViewShot>(null);
+
+  useEffect(() => {
+    const userId = auth().currentUser?.uid;
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    (weekKey ? getWeeklyRecap(userId, weekKey) : getLatestWeeklyRecap(userId)).then(result => {
+      setRecap(result);
+      setLoading(false);
+    });
+  }, [weekKey]);
+
+  const handleShare = async () => {
+    if (!recap || !cardRef.current?.capture) return;
+    try {
+      setSharing(true);
+      const uri = await cardRef.current.capture();
+      await shareLocalFile(uri, 'image/png', { message: `My week in food: ${recap.headline}` });
+    } catch (error) {
+      console.error('Error sharing weekly recap:', error);
+      Alert.alert('Error', 'Failed to share your recap');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const renderCard = (r: WeeklyRecap) => {
+    const tags = Object.values(r.newTags).flat();
+    return (
+      <ViewShot ref={cardRef} options={{ format: 'png', quality: 1 }} style={styles.card}>
+        <Text style={styles.week}>{formatWeek(r)}</Text>
+        <Text style={styles.headline}>{r.headline}</Text>
+
+        <View style={styles.stats}>
+          <Stat value={r.mealsLogged} label={r.mealsLogged === 1 ? 'meal' : 'meals'} />
+          <Stat value={r.newRestaurants.length} label="new spots" />
+          <Stat value={r.newCuisines.length} label="new cuisines" />
+          <Stat value={r.collection.total} label={r.collection.added > 0 ? `pieces (+${r.collection.added})` : 'pieces'} />
+        </View>
+
+        {r.bestDish && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Best bite</Text>
+            <View style={styles.bestDish}>
+              {r.bestDish.photoUrl ? (
+                <Image source={{ uri: r.bestDish.photoUrl }} style={styles.bestDishPhoto} />
+              ) : r.bestDish.pixelArtUrl ? (
+                <Image source={{ uri: r.bestDish.pixelArtUrl }} style={styles.bestDishPixel} />
+              ) : null}
+              <View style={styles.bestDishText}>
+                <Text style={styles.bestDishName} numberOfLines={2}>{r.bestDish.mealName}</Text>
+                {r.bestDish.restaurant && (
+                  <Text style={styles.muted} numberOfLines={1}>{r.bestDish.restaurant}</Text>
+                )}
+              </View>
+            </View>
+          </View>
+        )}
+
+        {(r.newRestaurants.length > 0 || r.newCities.length > 0) && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>First visits</Text>
+            {r.newRestaurants.length > 0 && (
+              <Text style={styles.body} numberOfLines={2}>{r.newRestaurants.join(' · ')}</Text>
+            )}
+            {r.newCities.length > 0 && (
+              <Text style={styles.muted} numberOfLines={1}>📍 {r.newCities.map(titleCase).join(', ')}</Text>
+            )}
+          </View>
+        )}
+
+        {tags.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>New on your palate</Text>
+            <View style={styles.tags}>
+              {tags.slice(0, 8).map(tag => (
+                <View key={tag} style={styles.tag}>
+                  <Text style={styles.tagText}>{tag}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {r.iconicUnlocks.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Iconic eats unlocked</Text>
+            {r.iconicUnlocks.map(unlock => (
+              <View key={unlock.eatId} style={styles.iconicRow}>
+                {unlock.emojiUrl && <Image source={{ uri: unlock.emojiUrl }} style={styles.iconicEmoji} />}
+                <Text style={styles.body} numberOfLines={1}>
+                  {unlock.dishName || 'Iconic eat'}
+                  {unlock.restaurantName ? ` · ${unlock.restaurantName}` : ''}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <Text style={styles.brand}>Dish It Out</Text>
+      </ViewShot>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Image source={require('../assets/icons/back-icon.png')} style={styles.backIcon} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Weekly Recap</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.warmTaupe} />
+        </View>
+      ) : !recap ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyTitle}>No recap yet</Text>
+          <Text style={styles.emptyText}>
+            Recaps are put together every Monday for weeks you logged a meal. Check back soon!
+          </Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scroll}>
+          {renderCard(recap)}
+          <TouchableOpacity style={styles.shareButton} onPress={handleShare} disabled={sharing}>
+            {sharing ? (
+              <ActivityIndicator size="small" color={colors.white} />
+            ) : (
+              <Text style={styles.shareText}>Share recap</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.lightTan,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  backIcon: {
+    width: 24,
+    height: 24,
+    tintColor: colors.textPrimary,
+    resizeMode: 'contain',
+  },
+  headerTitle: {
+    flex: 1,
+    ...typography.h2,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+    marginLeft: spacing.sm,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyTitle: {
+    ...typography.bodyLarge,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  emptyText: {
+    ...typography.bodyMedium,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.xs,
+  },
+  scroll: {
+    padding: spacing.md,
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    padding: spacing.lg,
+    ...shadows.medium,
+  },
+  week: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  headline: {
+    ...typography.h3,
+    color: colors.textPrimary,
+    marginTop: spacing.xs,
+  },
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.md,
+    paddingVertical: spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderColor: colors.mediumGray,
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.warmTaupe,
+  },
+  statLabel: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  section: {
+    marginTop: spacing.md,
+  },
+  sectionTitle: {
+    ...typography.bodySmall,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  bestDish: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  bestDishPhoto: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    marginRight: spacing.sm,
+  },
+  bestDishPixel: {
+    width: 48,
+    height: 48,
+    marginRight: spacing.sm,
+  },
+  bestDishText: {
+    flex: 1,
+  },
+  bestDishName: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  body: {
+    ...typography.bodyMedium,
+    color: colors.textPrimary,
+    flexShrink: 1,
+  },
+  muted: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  tag: {
+    backgroundColor: colors.lightTan,
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  tagText: {
+    ...typography.bodySmall,
+    color: colors.textPrimary,
+  },
+  iconicRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  iconicEmoji: {
+    width: 28,
+    height: 28,
+    marginRight: spacing.xs,
+  },
+  brand: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    textAlign: 'right',
+    marginTop: spacing.md,
+  },
+  shareButton: {
+    backgroundColor: colors.warmTaupe,
+    borderRadius: 24,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  shareText: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.white,
+  },
+});
+
+export default WeeklyRecapScreen;
@@ -0,0 +1,561 @@
+/**
+ * WrappedScreen
+ * Year-in-review: a paged set of slides built from utils/wrappedStats.ts.
+ * Each slide is its own ViewShot so it can be shared as a standalone image.
+ * Defaults to the current year; pass `year` to look back.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  FlatList,
+  ActivityIndicator,
+  Image,
+  Alert,
+  Dimensions,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import ViewShot from 'react-native-view-shot';
+import { RootStackParamList } from '../App';
+import { auth } from '../firebaseConfig';
+import { colors, typography, spacing, shadows } from '../themes';
+import { getUserMealEntries } from '../services/mealRepository';
+import { fetchIconicEatById, IconicEat } from '../services/iconicEatsService';
+import { useTasteProfile } from '../utils/useTasteProfile';
+import { computeWrappedStats, WrappedMeal, WrappedStats } from '../utils/wrappedStats';
+import { shareLocalFile } from '../utils/shareLocalFile';
+
+type WrappedScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Wrapped'>;
+type WrappedScreenRouteProp = RouteProp<RootStackParamList, 'Wrapped'>;
+
+type Props = {
+  navigation: WrappedScreenNavigationProp;
+  route: WrappedScreenRouteProp;
+};
+
+type SlideKey = 'intro' | 'places' | 'signature' | 'calendar' | 'archetype' | 'iconic';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const HEAT_COLORS = [colors.lightGray, '#E8D5C4', '#D2B49C', colors.warmTaupe];
+
+const heatColor = (meals: number) => HEAT_COLORS[Math.min(meals, HEAT_COLORS.length - 1)];
+
+const monthName = (month: number) =>
+  new Date(2000, month, 1).toLocaleDateString(undefined, { month: 'long' });
+
+/** Slides with nothing to show are dropped rather than rendered empty. */
+const slidesFor = (stats: WrappedStats): SlideKey[] => {
+  const slides: SlideKey[] = ['intro'];
+  if (stats.topRestaurant || stats.topCuisines.length > 0) slides.push('places');
+  if (stats.signatureDish) slides.push('signature');
+  slides.push('calendar');
+  if (stats.archetypes.length > 0) slides.push('archetype');
+  if (stats.topIconicEats.length > 0) slides.push('iconic');
+  return slides;
+};
+
+const Stat: React.FC<{ value: number | string; label: string }> = ({ value, label }) => (
+  <View style={styles.stat}>
+    <Text style={styles.statValue}>{value}</Text>
+    <Text style={styles.statLabel}>{label}</Text>
+  </View>
+);
+
+const WrappedScreen: React.FC<Props> = ({ route, navigation }) => {
+  const year = route.params?.year ?? new Date().getFullYear();
+  const userId = auth().currentUser?.uid;
+  const { profile, loading: profileLoading } = useTasteProfile(userId);
+  const [meals, setMeals] = useState<WrappedMeal[]>([]);
+  const [mealsLoading, setMealsLoading] = useState(true);
+  const [iconicEats, setIconicEats] = useState<Record<string, IconicEat>>({});
+  const [page, setPage] = useState(0);
+  const [sharing, setSharing] = useState<SlideKey | null>(null);
+  const slideRefs = useRef<Partial<Record<SlideKey, ViewShot | null>>>({});
+
+  useEffect(() => {
+    if (!userId) {
+      setMealsLoading(false);
+      return;
+    }
+    getUserMealEntries(userId)
+      .then(setMeals)
+      .catch(error => console.error('Error loading meals for Wrapped:', error))
+      .finally(() => setMealsLoading(false));
+  }, [userId]);
+
+  const stats = useMemo(() => computeWrappedStats(meals, year, profile), [meals, year, profile]);
+  const slides = useMemo(() => slidesFor(stats), [stats]);
+
+  // Dish names and emoji for the iconic eats slide
+  useEffect(() => {
+    const ids = stats.topIconicEats.map(e => e.eatId);
+    if (ids.length === 0) return;
+    Promise.all(ids.map(fetchIconicEatById)).then(results => {
+      const byId: Record<string, IconicEat> = {};
+      results.forEach(eat => {
+        if (eat) byId[eat.id] = eat;
+      });
+      setIconicEats(byId);
+    });
+  }, [stats.topIconicEats]);
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setPage(Math.round(event.nativeEvent.contentOffset.x / SCREEN_WIDTH));
+  };
+
+  const handleShare = async (slide: SlideKey) => {
+    const shot = slideRefs.current[slide];
+    if (!shot?.capture) return;
+    try {
+      setSharing(slide);
+      const uri = await shot.capture();
+      await shareLocalFile(uri, 'image/png', { message: `My ${year} in food` });
+    } catch (error) {
+      console.error('Error sharing Wrapped slide:', error);
+      Alert.alert('Error', 'Failed to share this slide');
+    } finally {
+      setSharing(null);
+    }
+  };
+
+  const renderIntro = () => (
+    <>
+      <Text style={styles.kicker}>Your {year} in food</Text>
+      <Text style={styles.bigNumber}>{stats.totalMeals}</Text>
+      <Text style={styles.headline}>{stats.totalMeals === 1 ? 'meal rated' : 'meals rated'}</Text>
+      <View style={styles.stats}>
+        <Stat value={stats.restaurantCount} label={stats.restaurantCount === 1 ? 'restaurant' : 'restaurants'} />
+        <Stat value={stats.cuisineCount} label={stats.cuisineCount === 1 ? 'cuisine' : 'cuisines'} />
+        <Stat value={stats.cityCount} label={stats.cityCount === 1 ? 'city' : 'cities'} />
+      </View>
+    </>
+  );
+
+  const renderPlaces = () => (
+    <>
+      <Text style={styles.kicker}>Your regular</Text>
+      {stats.topRestaurant ? (
+        <>
+          <Text style={styles.headline}>{stats.topRestaurant.name}</Text>
+          <Text style={styles.muted}>
+            {stats.topRestaurant.count} {stats.topRestaurant.count === 1 ? 'visit' : 'visits'} this year
+          </Text>
+        </>
+      ) : (
+        <Text style={styles.muted}>No favourite spot yet</Text>
+      )}
+      {stats.topCuisines.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Top cuisines</Text>
+          {stats.topCuisines.map((cuisine, index) => (
+            <View key={cuisine.name} style={styles.rankRow}>
+              <Text style={styles.rank}>{index + 1}</Text>
+              <Text style={styles.body} numberOfLines={1}>{cuisine.name}</Text>
+              <Text style={styles.rankCount}>{cuisine.count}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </>
+  );
+
+  const renderSignature = () => {
+    const dish = stats.signatureDish!;
+    return (
+      <>
+        <Text style={styles.kicker}>Your signature dish</Text>
+        {dish.photoUrl ? <Image source={{ uri: dish.photoUrl }} style={styles.signaturePhoto} /> : null}
+        <Text style={styles.headline}>{dish.mealName}</Text>
+        {dish.repeat_count > 1 && (
+          <Text style={styles.muted}>Ordered {dish.repeat_count} times</Text>
+        )}
+      </>
+    );
+  };
+
+  const renderCalendar = () => (
+    <>
+      <Text style={styles.kicker}>Month by month</Text>
+      <View style={styles.monthGrid}>
+        {stats.months.map(month => (
+          <View key={month.month} style={styles.month}>
+            <Text style={styles.monthLabel}>{MONTHS[month.month]}</Text>
+            <View style={styles.days}>
+              {month.days.map((count, day) => (
+                <View key={day} style={[styles.day, { backgroundColor: heatColor(count) }]} />
+              ))}
+            </View>
+          </View>
+        ))}
+      </View>
+      {stats.busiestMonth !== null && (
+        <Text style={styles.muted}>
+          Busiest month: {monthName(stats.busiestMonth)} ({stats.months[stats.busiestMonth].meals} meals)
+        </Text>
+      )}
+      {stats.busiestDay && stats.busiestDay.meals > 1 && (
+        <Text style={styles.muted}>
+          Biggest day: {stats.busiestDay.date.toLocaleDateString(undefined, { month: 'long', day: 'numeric' })}
+          {' '}({stats.busiestDay.meals} meals)
+        </Text>
+      )}
+    </>
+  );
+
+  const renderArchetype = () => {
+    const latest = stats.archetypes[stats.archetypes.length - 1];
+    return (
+      <>
+        <Text style={styles.kicker}>Your taste this year</Text>
+        <Text style={styles.headline}>{latest.archetype}</Text>
+        {stats.archetypes.length > 1 && (
+          <View style={styles.section}>
+            {stats.archetypes.map((entry, index) => (
+              <View key={`${entry.archetype}-${index}`} style={styles.timelineRow}>
+                <View style={[styles.timelineDot, index === stats.archetypes.length - 1 && styles.timelineDotActive]} />
+                <Text style={styles.body}>{entry.archetype}</Text>
+                {entry.at && (
+                  <Text style={styles.timelineDate}>
+                    {entry.at.toLocaleDateString(undefined, { month: 'short' })}
+                  </Text>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+      </>
+    );
+  };
+
+  const renderIconic = () => (
+    <>
+      <Text style={styles.kicker}>Top iconic eats</Text>
+      {stats.topIconicEats.map(entry => {
+        const eat = iconicEats[entry.eatId];
+        return (
+          <View key={entry.eatId} style={styles.iconicRow}>
+            {eat?.emoji_url ? <Image source={{ uri: eat.emoji_url }} style={styles.iconicEmoji} /> : null}
+            <View style={styles.iconicText}>
+              <Text style={styles.body} numberOfLines={1}>{eat?.dish_name || entry.mealName}</Text>
+              <Text style={styles.muted} numberOfLines={1}>{eat?.restaurant_name || entry.restaurant || ''}</Text>
+            </View>
+            <Text style={styles.rankCount}>{'★'.repeat(Math.min(entry.rating, 6))}</Text>
+          </View>
+        );
+      })}
+    </>
+  );
+
+  const SLIDE_RENDERERS: Record<SlideKey, () => React.ReactNode> = {
+    intro: renderIntro,
+    places: renderPlaces,
+    signature: renderSignature,
+    calendar: renderCalendar,
+    archetype: renderArchetype,
+    iconic: renderIconic,
+  };
+
+  const renderSlide = ({ item }: { item: SlideKey }) => (
+    <View style={styles.page}>
+      <ViewShot
+        ref={ref => {
+          slideRefs.current[item] = ref;
+        }}
+        options={{ format: 'png', quality: 1 }}
+        style={styles.card}
+      >
+        {SLIDE_RENDERERS[item]()}
+        <Text style={styles.brand}>Dish It Out · {year} Wrapped</Text>
+      </ViewShot>
+      <TouchableOpacity style={styles.shareButton} onPress={() => handleShare(item)} disabled={sharing !== null}>
+        {sharing === item ? (
+          <ActivityIndicator size="small" color={colors.white} />
+        ) : (
+          <Text style={styles.shareText}>Share this slide</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const loading = mealsLoading || profileLoading;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Image source={require('../assets/icons/back-icon.png')} style={styles.backIcon} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{year} Wrapped</Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.warmTaupe} />
+        </View>
+      ) : stats.totalMeals === 0 ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyTitle}>Nothing to wrap yet</Text>
+          <Text style={styles.emptyText}>Rate a few meals in {year} and your year in food will show up here.</Text>
+        </View>
+      ) : (
+        <>
+          <FlatList
+            data={slides}
+            keyExtractor={item => item}
+            renderItem={renderSlide}
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            onMomentumScrollEnd={handleScroll}
+          />
+          <View style={styles.dots}>
+            {slides.map((slide, index) => (
+              <View key={slide} style={[styles.dot, index === page && styles.dotActive]} />
+            ))}
+          </View>
+        </>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.lightTan,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  backIcon: {
+    width: 24,
+    height: 24,
+    tintColor: colors.textPrimary,
+    resizeMode: 'contain',
+  },
+  headerTitle: {
+    flex: 1,
+    ...typography.h2,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+    marginLeft: spacing.sm,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyTitle: {
+    ...typography.bodyLarge,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  emptyText: {
+    ...typography.bodyMedium,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.xs,
+  },
+  page: {
+    width: SCREEN_WIDTH,
+    padding: spacing.md,
+    justifyContent: 'center',
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: 16,
+    padding: spacing.lg,
+    ...shadows.medium,
+  },
+  kicker: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: spacing.xs,
+  },
+  bigNumber: {
+    fontSize: 64,
+    fontWeight: '800',
+    color: colors.warmTaupe,
+  },
+  headline: {
+    ...typography.h3,
+    color: colors.textPrimary,
+    marginTop: spacing.xs,
+  },
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.md,
+    paddingVertical: spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderColor: colors.mediumGray,
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.warmTaupe,
+  },
+  statLabel: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  section: {
+    marginTop: spacing.md,
+  },
+  sectionTitle: {
+    ...typography.bodySmall,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  body: {
+    ...typography.bodyMedium,
+    color: colors.textPrimary,
+    flexShrink: 1,
+  },
+  muted: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  rankRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  rank: {
+    width: 24,
+    fontWeight: '700',
+    color: colors.warmTaupe,
+  },
+  rankCount: {
+    marginLeft: 'auto',
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  signaturePhoto: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 12,
+    marginVertical: spacing.sm,
+  },
+  monthGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginBottom: spacing.sm,
+  },
+  month: {
+    width: '31%',
+    marginBottom: spacing.sm,
+  },
+  monthLabel: {
+    ...typography.bodySmall,
+    color: colors.textSecondary,
+    marginBottom: 2,
+  },
+  days: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  day: {
+    width: 8,
+    height: 8,
+    borderRadius: 2,
+    margin: 1,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: colors.mediumGray,
+    marginRight: spacing.sm,
+  },
+  timelineDotActive: {
+    backgroundColor: colors.warmTaupe,
+  },
+  timelineDate: {
+    marginLeft: 'auto',
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+  },
+  iconicRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  iconicEmoji: {
+    width: 36,
+    height: 36,
+    marginRight: spacing.sm,
+  },
+  iconicText: {
+    flex: 1,
+  },
+  brand: {
+    ...typography.bodySmall,
+    color: colors.textTertiary,
+    textAlign: 'right',
+    marginTop: spacing.md,
+  },
+  shareButton: {
+    backgroundColor: colors.warmTaupe,
+    borderRadius: 24,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  shareText: {
+    ...typography.bodyMedium,
+    fontWeight: '600',
+    color: colors.white,
+  },
+  dots: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    paddingBottom: spacing.md,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.mediumGray,
+    marginHorizontal: 4,
+  },
+  dotActive: {
+    backgroundColor: colors.warmTaupe,
+  },
+});
+
+export default WrappedScreen;
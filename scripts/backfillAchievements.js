@@ -0,0 +1,224 @@
+/**
+ * Backfill script — replay every user's mealEntries through the stamp
+ * definitions so existing users get stamps added after they posted, with
+ * the historical meal and date, and find stamps that were awarded in error.
+ *
+ * Usage (from repo root):
+ *   node scripts/backfillAchievements.js                      # dry run, logs only
+ *   node scripts/backfillAchievements.js --apply              # award, re-attribute, drop duplicates
+ *   node scripts/backfillAchievements.js --apply --revoke     # also remove stamps the history doesn't earn
+ *   node scripts/backfillAchievements.js --user UID           # limit to one user
+ *
+ * The plan comes from utils/achievementBackfill.ts (loaded through
+ * @babel/register), the same code the app's backfillUserAchievements runs,
+ * so the two can't disagree about a stamp. Applied runs append an entry to
+ * users/{uid}/achievement_audits for every user with changes. Safe to
+ * re-run: a second pass finds nothing to do. --revoke skips users whose
+ * history is incomplete (undated meals, or no definitions in Firestore).
+ */
+const admin = require('firebase-admin');
+const path = require('path');
+
+require('@babel/register')({
+  extensions: ['.ts'],
+  only: [/[\\/](utils|types)[\\/]/],
+});
+
+const serviceAccount = require(path.join(
+  __dirname,
+  '..',
+  'firebase-service-account.json',
+));
+admin.initializeApp({credential: admin.credential.cert(serviceAccount)});
+
+const db = admin.firestore();
+// Firestore batches cap at 500 writes
+const BATCH_LIMIT = 500;
+
+const {validateAchievementDefinition} = require('../utils/achievementRules');
+const {
+  planAchievementBackfill,
+  recordsToRemove,
+  hasBackfillChanges,
+  buildAchievementAudit,
+} = require('../utils/achievementBackfill');
+const bundledDefinitions = require('../constants/achievementDefinitions.json');
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const out = {apply: false, revoke: false, user: null};
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === '--apply') out.apply = true;
+    else if (a === '--revoke') out.revoke = true;
+    else if (a === '--user') out.user = args[++i];
+  }
+  return out;
+}
+
+// Same fallback as the app: Firestore definitions when there are any valid
+// ones, otherwise the bundled set
+async function loadDefinitions() {
+  const snap = await db.collection('achievements').get();
+  const definitions = [];
+  snap.forEach((doc) => {
+    const definition = {...doc.data(), id: doc.id};
+    const problems = validateAchievementDefinition(definition);
+    if (problems.length > 0) {
+      console.warn(`[backfill] skipping invalid definition ${doc.id}: ${problems.join('; ')}`);
+      return;
+    }
+    definitions.push(definition);
+  });
+  if (definitions.length === 0) {
+    console.log('[backfill] no definitions in Firestore, using constants/achievementDefinitions.json');
+    return bundledDefinitions;
+  }
+  return definitions;
+}
+
+// Every meal, dated or not: no orderBy, so nothing drops out
+async function loadMeals(userId) {
+  const snap = await db.collection('mealEntries').where('userId', '==', userId).get();
+  return snap.docs.map((doc) => ({id: doc.id, ...doc.data()}));
+}
+
+async function loadHeld(userId) {
+  const [current, legacy] = await Promise.all([
+    db.collection('users').doc(userId).collection('achievements').get(),
+    db.collection('userAchievements').where('userId', '==', userId).get(),
+  ]);
+  const toHeld = (doc, isLegacy) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      achievementId: data.achievementId,
+      mealEntryId: data.mealEntryId || null,
+      earnedAt: data.earnedAt && data.earnedAt.toDate ? data.earnedAt.toDate() : null,
+      legacy: isLegacy,
+    };
+  };
+  return [...current.docs.map((doc) => toHeld(doc, false)), ...legacy.docs.map((doc) => toHeld(doc, true))];
+}
+
+async function applyPlan(userId, plan, revoke) {
+  const achievementsRef = db.collection('users').doc(userId).collection('achievements');
+  const writes = [];
+  plan.award.forEach((award) => {
+    writes.push((batch) => batch.set(achievementsRef.doc(), {
+      userId,
+      achievementId: award.achievementId,
+      earnedAt: admin.firestore.Timestamp.fromDate(award.earnedAt),
+      mealEntryId: award.mealId,
+      backfilled: true,
+    }));
+  });
+  plan.reattribute.forEach(({record, award}) => {
+    writes.push((batch) => batch.update(achievementsRef.doc(record.id), {
+      mealEntryId: award.mealId,
+      earnedAt: admin.firestore.Timestamp.fromDate(award.earnedAt),
+    }));
+  });
+  const toRemove = recordsToRemove(plan, revoke);
+  toRemove.forEach((record) => writes.push((batch) => batch.delete(achievementsRef.doc(record.id))));
+
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = db.batch();
+    writes.slice(i, i + BATCH_LIMIT).forEach((write) => write(batch));
+    await batch.commit();
+  }
+  return toRemove.map((record) => record.id);
+}
+
+function logPlan(userId, plan) {
+  plan.award.forEach((a) => {
+    console.log(`[backfill] AWARD   user=${userId} ${a.achievementId} ← meal=${a.mealId} ` +
+      `(${a.earnedAt.toISOString().slice(0, 10)})`);
+  });
+  plan.reattribute.forEach(({record, award}) => {
+    console.log(`[backfill] REATTR  user=${userId} ${record.achievementId} ` +
+      `meal=${record.mealEntryId || '—'} → ${award.mealId}`);
+  });
+  plan.awardedInError.forEach(({record, reason}) => {
+    console.log(`[backfill] ERROR   user=${userId} ${record.achievementId} record=${record.id} (${reason})`);
+  });
+  if (plan.incomplete.length > 0) {
+    console.log(`[backfill] PARTIAL user=${userId} not revoking: ${plan.incomplete.join(', ')}`);
+  }
+}
+
+async function main() {
+  const args = parseArgs();
+  console.log('[backfill] mode:', args.apply ? (args.revoke ? 'APPLY + REVOKE' : 'APPLY') : 'DRY-RUN');
+  if (args.user) console.log('[backfill] user filter:', args.user);
+
+  const definitions = await loadDefinitions();
+  console.log(`[backfill] ${definitions.length} definitions`);
+
+  const userIds = args.user ?
+    [args.user] :
+    (await db.collection('users').select().get()).docs.map((doc) => doc.id);
+
+  const totals = {users: 0, changed: 0, awarded: 0, reattributed: 0, removed: 0, incomplete: 0, failed: 0};
+  const reasons = {duplicate: 0, not_earned: 0, unknown_achievement: 0};
+
+  for (const userId of userIds) {
+    totals.users++;
+    try {
+      const [meals, held] = await Promise.all([loadMeals(userId), loadHeld(userId)]);
+      const plan = planAchievementBackfill(definitions, meals, held, {
+        bundledDefinitions: definitions === bundledDefinitions,
+      });
+      if (!hasBackfillChanges(plan)) continue;
+
+      totals.changed++;
+      totals.awarded += plan.award.length;
+      totals.reattributed += plan.reattribute.length;
+      if (plan.incomplete.length > 0) totals.incomplete++;
+      plan.awardedInError.forEach(({reason}) => reasons[reason]++);
+      logPlan(userId, plan);
+      if (!args.apply) continue;
+
+      const removed = await applyPlan(userId, plan, args.revoke);
+      totals.removed += removed.length;
+      const audit = buildAchievementAudit(plan, {
+        userId,
+        source: 'script',
+        applied: true,
+        revoke: args.revoke,
+        definitions: definitions.length,
+        removed,
+      });
+      await db.collection('users').doc(userId).collection('achievement_audits').add({
+        ...audit,
+        runAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (err) {
+      totals.failed++;
+      console.error(`[backfill] failed for user ${userId}:`, err);
+    }
+  }
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Mode:              ${args.apply ? 'APPLY' : 'DRY RUN'}${args.revoke ? ' (revoke)' : ''}`);
+  console.log(`Users scanned:     ${totals.users}`);
+  console.log(`Users with changes: ${totals.changed}`);
+  console.log(`Stamps awarded:    ${totals.awarded}`);
+  console.log(`Re-attributed:     ${totals.reattributed}`);
+  console.log(`Awarded in error:  ${reasons.duplicate} duplicate, ${reasons.not_earned} not earned, ` +
+    `${reasons.unknown_achievement} unknown`);
+  console.log(`Records removed:   ${totals.removed}`);
+  if (args.revoke && totals.incomplete > 0) console.log(`Not revoked:       ${totals.incomplete} (incomplete history)`);
+  if (totals.failed > 0) console.log(`Failed users:      ${totals.failed}`);
+  if (!args.apply && totals.changed > 0) {
+    console.log('\nRe-run with --apply to write these changes (add --revoke to remove unearned stamps).');
+  }
+  if (totals.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((err) => {
+    console.error('[backfill] fatal:', err);
+    process.exit(1);
+  });
@@ -0,0 +1,116 @@
+/**
+ * Backfill script — write the `geohash` field on existing best_eats docs so
+ * they show up in the client's viewport query (fetchIconicEatsInCells).
+ * New and edited docs get it from the onBestEatWriteSetGeohash trigger.
+ *
+ * Usage (from repo root):
+ *   node scripts/backfillIconicGeohash.js              # dry run, logs only
+ *   node scripts/backfillIconicGeohash.js --apply      # actually write
+ *   node scripts/backfillIconicGeohash.js --city la    # limit to one city
+ *
+ * Safe to re-run: docs whose geohash already matches their location are
+ * skipped.
+ */
+const admin = require('firebase-admin');
+const path = require('path');
+
+const serviceAccount = require(path.join(
+  __dirname,
+  '..',
+  'firebase-service-account.json',
+));
+admin.initializeApp({credential: admin.credential.cert(serviceAccount)});
+
+const db = admin.firestore();
+
+// Same encoder the live trigger uses so backfilled and triggered hashes
+// can't disagree.
+const {geohashForIconicEat} = require('../functions/iconicEatsGeohash');
+
+// Firestore caps a batch at 500 writes.
+const BATCH_SIZE = 400;
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const out = {apply: false, city: null};
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === '--apply') out.apply = true;
+    else if (a === '--city') out.city = (args[++i] || '').toLowerCase().trim();
+  }
+  return out;
+}
+
+async function main() {
+  const args = parseArgs();
+  console.log('[backfill] mode:', args.apply ? 'APPLY' : 'DRY-RUN');
+  if (args.city) console.log('[backfill] city filter:', args.city);
+
+  // Inactive docs too — reactivating one shouldn't leave it invisible.
+  const snap = await db.collection('best_eats').get();
+  console.log(`[backfill] scanning ${snap.size} iconic eats`);
+
+  let scanned = 0;
+  let noLocation = 0;
+  let upToDate = 0;
+  let pending = 0;
+  let written = 0;
+  let batch = db.batch();
+  let batchCount = 0;
+
+  for (const doc of snap.docs) {
+    const data = doc.data();
+    if (args.city && (data.city || '').toLowerCase().trim() !== args.city) continue;
+    scanned++;
+
+    const geohash = geohashForIconicEat(data);
+    if (!geohash) {
+      noLocation++;
+      console.warn(`[backfill] ${doc.id} (${data.dish_name}) has no usable location`);
+      continue;
+    }
+    if (data.geohash === geohash) {
+      upToDate++;
+      continue;
+    }
+
+    pending++;
+    console.log(
+      `[backfill] ${doc.id} ${data.dish_name} @ ${data.restaurant_name}: ` +
+        `${data.geohash || '(none)'} → ${geohash}`,
+    );
+
+    if (args.apply) {
+      batch.update(doc.ref, {geohash});
+      batchCount++;
+      if (batchCount >= BATCH_SIZE) {
+        await batch.commit();
+        written += batchCount;
+        batch = db.batch();
+        batchCount = 0;
+      }
+    }
+  }
+
+  if (args.apply && batchCount > 0) {
+    await batch.commit();
+    written += batchCount;
+  }
+
+  console.log('\n[backfill] summary');
+  console.log(`  scanned:      ${scanned}`);
+  console.log(`  no location:  ${noLocation}`);
+  console.log(`  up to date:   ${upToDate}`);
+  console.log(`  needs hash:   ${pending}`);
+  console.log(`  written:      ${written}`);
+  if (!args.apply && pending > 0) {
+    console.log('\nRe-run with --apply to write these geohashes.');
+  }
+
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('[backfill] fatal:', err);
+  process.exit(1);
+});
@@ -0,0 +1,119 @@
+/**
+ * Backfill script — write the `geohash` field on existing mealEntries so
+ * they show up in the Discover feed's geohash queries
+ * (services/discoverFeedService.ts). New and edited meals get it from the
+ * onMealWriteSetGeohash trigger.
+ *
+ * Usage (from repo root):
+ *   node scripts/backfillMealGeohash.js              # dry run, logs only
+ *   node scripts/backfillMealGeohash.js --apply      # actually write
+ *   node scripts/backfillMealGeohash.js --user UID   # limit to one user
+ *
+ * Safe to re-run: meals whose geohash already matches their location are
+ * skipped.
+ */
+const admin = require('firebase-admin');
+const path = require('path');
+
+const serviceAccount = require(path.join(
+  __dirname,
+  '..',
+  'firebase-service-account.json',
+));
+admin.initializeApp({credential: admin.credential.cert(serviceAccount)});
+
+const db = admin.firestore();
+
+// Same helper the live trigger uses so backfilled and triggered hashes
+// can't disagree.
+const {geohashForMeal} = require('../functions/mealGeohash');
+
+// Firestore caps a batch at 500 writes.
+const BATCH_SIZE = 400;
+// Page through mealEntries rather than loading the whole collection.
+const PAGE_SIZE = 1000;
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const out = {apply: false, user: null};
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === '--apply') out.apply = true;
+    else if (a === '--user') out.user = args[++i];
+  }
+  return out;
+}
+
+async function main() {
+  const args = parseArgs();
+  console.log('[backfill] mode:', args.apply ? 'APPLY' : 'DRY-RUN');
+  if (args.user) console.log('[backfill] user filter:', args.user);
+
+  let base = db.collection('mealEntries');
+  if (args.user) base = base.where('userId', '==', args.user);
+  base = base.orderBy(admin.firestore.FieldPath.documentId()).limit(PAGE_SIZE);
+
+  let scanned = 0;
+  let noLocation = 0;
+  let upToDate = 0;
+  let pending = 0;
+  let written = 0;
+  let batch = db.batch();
+  let batchCount = 0;
+  let lastDoc = null;
+
+  for (;;) {
+    const snap = await (lastDoc ? base.startAfter(lastDoc) : base).get();
+    if (snap.empty) break;
+    lastDoc = snap.docs[snap.docs.length - 1];
+
+    for (const doc of snap.docs) {
+      scanned++;
+      const meal = doc.data();
+      const geohash = geohashForMeal(meal);
+      if (!geohash) {
+        noLocation++;
+        continue;
+      }
+      if (meal.geohash === geohash) {
+        upToDate++;
+        continue;
+      }
+
+      pending++;
+      if (args.apply) {
+        batch.update(doc.ref, {geohash});
+        batchCount++;
+        if (batchCount >= BATCH_SIZE) {
+          await batch.commit();
+          written += batchCount;
+          batch = db.batch();
+          batchCount = 0;
+        }
+      }
+    }
+    console.log(`[backfill] scanned ${scanned} meals so far (${pending} need a geohash)`);
+  }
+
+  if (args.apply && batchCount > 0) {
+    await batch.commit();
+    written += batchCount;
+  }
+
+  console.log('\n[backfill] summary');
+  console.log(`  scanned:      ${scanned}`);
+  console.log(`  no location:  ${noLocation}`);
+  console.log(`  up to date:   ${upToDate}`);
+  console.log(`  needs hash:   ${pending}`);
+  console.log(`  written:      ${written}`);
+  if (!args.apply && pending > 0) {
+    console.log('\nRe-run with --apply to write these geohashes.');
+  }
+
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('[backfill] fatal:', err);
+  process.exit(1);
+});
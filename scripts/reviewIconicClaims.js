@@ -0,0 +1,140 @@
+/**
+ * Review script — work the queue of manual iconic-eat claims that scored
+ * below the auto-approve threshold, and report how scores line up with
+ * decisions so the thresholds in utils/iconicClaims.ts can be tuned.
+ *
+ * Usage (from repo root):
+ *   node scripts/reviewIconicClaims.js                               # list claims awaiting review
+ *   node scripts/reviewIconicClaims.js --approve CLAIM_ID            # unlock + mark approved
+ *   node scripts/reviewIconicClaims.js --reject CLAIM_ID --reason "different dish"
+ *   node scripts/reviewIconicClaims.js --stats                       # decisions by score band
+ *
+ * Add --reviewer NAME to record who decided (defaults to $USER). Approving
+ * uses the same applyIconicUnlock as the live triggers, so it's safe to
+ * re-run on a claim whose eat has since been unlocked another way.
+ */
+const admin = require('firebase-admin');
+const path = require('path');
+
+const serviceAccount = require(path.join(
+  __dirname,
+  '..',
+  'firebase-service-account.json',
+));
+admin.initializeApp({credential: admin.credential.cert(serviceAccount)});
+
+const db = admin.firestore();
+
+const {approveIconicClaim, CLAIM_AUTO_APPROVE_SCORE} = require('../functions/iconicClaims');
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const out = {approve: null, reject: null, reason: null, stats: false, reviewer: process.env.USER || 'admin'};
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === '--approve') out.approve = args[++i];
+    else if (a === '--reject') out.reject = args[++i];
+    else if (a === '--reason') out.reason = args[++i];
+    else if (a === '--stats') out.stats = true;
+    else if (a === '--reviewer') out.reviewer = args[++i];
+  }
+  return out;
+}
+
+const fmt = (n) => (typeof n === 'number' ? n.toFixed(2) : '—');
+
+async function listPending() {
+  const snap = await db.collection('iconic_claims').where('status', '==', 'pending_review').get();
+  const claims = snap.docs.map((doc) => ({id: doc.id, ...doc.data()}));
+  claims.sort((a, b) => (b.score || 0) - (a.score || 0));
+  for (const claim of claims) {
+    const [meal, eat] = await Promise.all([
+      db.collection('mealEntries').doc(claim.mealId).get(),
+      db.collection('best_eats').doc(claim.eatId).get(),
+    ]);
+    const m = meal.data() || {};
+    const e = eat.data() || {};
+    const s = claim.signals || {};
+    console.log(`\n[claims] ${claim.id}  score=${fmt(claim.score)}${claim.reason ? ` (${claim.reason})` : ''}`);
+    console.log(`  meal  "${m.meal || '?'}" at ${m.restaurant || '?'} (${claim.mealId})`);
+    console.log(`  eat   "${e.dish_name || '?'}" at ${e.restaurant_name || '?'} (${claim.eatId})`);
+    console.log(`  place=${fmt(s.placeScore)} restaurant=${fmt(s.restaurantScore)} dish=${fmt(s.dishScore)} ` +
+      `distance=${s.distanceKm === null || s.distanceKm === undefined ? '—' : `${s.distanceKm} km`}` +
+      `${s.placeIdMatch ? ' place_id✓' : ''}`);
+    console.log(`  photo=${s.photoDistanceKm === null || s.photoDistanceKm === undefined ? '—' : `${s.photoDistanceKm} km`} ` +
+      `taken=${s.photoAgeHours === null || s.photoAgeHours === undefined ? '—' : `${s.photoAgeHours} h from logging`}` +
+      `${s.verified ? ' verified✓' : ''}`);
+  }
+  console.log('\n=== SUMMARY ===');
+  console.log(`Awaiting review: ${claims.length}`);
+  if (claims.length > 0) console.log('Decide with --approve CLAIM_ID or --reject CLAIM_ID --reason "..."');
+}
+
+async function decide(claimId, approve, args) {
+  const ref = db.collection('iconic_claims').doc(claimId);
+  const doc = await ref.get();
+  if (!doc.exists) throw new Error(`No claim ${claimId}`);
+  const claim = doc.data();
+  if (claim.status !== 'pending_review') {
+    console.log(`[claims] ${claimId} is already ${claim.status}; nothing to do`);
+    return;
+  }
+  if (approve) {
+    const eat = await db.collection('best_eats').doc(claim.eatId).get();
+    if (!eat.exists) throw new Error(`Claim ${claimId} points at missing eat ${claim.eatId}`);
+    await approveIconicClaim({db, claim, eatData: eat.data()});
+  }
+  await ref.update({
+    status: approve ? 'approved' : 'rejected',
+    decidedBy: args.reviewer,
+    decidedAt: admin.firestore.FieldValue.serverTimestamp(),
+    ...(approve ? {} : {reason: args.reason || 'rejected_in_review'}),
+  });
+  console.log(`[claims] ${claimId} ${approve ? 'approved (eat unlocked)' : 'rejected'} by ${args.reviewer}`);
+}
+
+async function stats() {
+  const snap = await db.collection('iconic_claims').where('status', 'in', ['approved', 'rejected']).get();
+  const bands = new Map(); // band floor → {auto, approved, rejected}
+  let unscored = 0;
+  snap.forEach((doc) => {
+    const claim = doc.data();
+    if (typeof claim.score !== 'number') {
+      unscored++;
+      return;
+    }
+    const floor = Math.min(0.9, Math.floor(claim.score * 10) / 10);
+    const band = bands.get(floor) || {auto: 0, approved: 0, rejected: 0};
+    if (claim.decidedBy === 'auto' && claim.status === 'approved') band.auto++;
+    else if (claim.status === 'approved') band.approved++;
+    else band.rejected++;
+    bands.set(floor, band);
+  });
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Auto-approve threshold: ${CLAIM_AUTO_APPROVE_SCORE}`);
+  console.log('Score band   auto  approved  rejected  reviewed approval rate');
+  [...bands.keys()].sort((a, b) => a - b).forEach((floor) => {
+    const b = bands.get(floor);
+    const reviewed = b.approved + b.rejected;
+    const rate = reviewed > 0 ? `${Math.round((b.approved / reviewed) * 100)}%` : '—';
+    console.log(`${floor.toFixed(1)}–${(floor + 0.1).toFixed(1)}     ${String(b.auto).padStart(4)}  ` +
+      `${String(b.approved).padStart(8)}  ${String(b.rejected).padStart(8)}  ${rate.padStart(22)}`);
+  });
+  if (unscored > 0) console.log(`Decided without a score (ownership, missing eat, ...): ${unscored}`);
+}
+
+async function main() {
+  const args = parseArgs();
+  if (args.approve) await decide(args.approve, true, args);
+  else if (args.reject) await decide(args.reject, false, args);
+  else if (args.stats) await stats();
+  else await listPending();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('[claims] fatal:', err);
+    process.exit(1);
+  });
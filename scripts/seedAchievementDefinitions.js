@@ -0,0 +1,75 @@
+/**
+ * Seed script — upload the bundled stamp definitions
+ * (constants/achievementDefinitions.json) to `achievements/{id}`, where the
+ * app loads them from. After that, stamps are edited in Firestore directly;
+ * this only fills in what's missing unless told to overwrite.
+ *
+ * Usage (from repo root):
+ *   node scripts/seedAchievementDefinitions.js                  # dry run
+ *   node scripts/seedAchievementDefinitions.js --apply          # create missing docs
+ *   node scripts/seedAchievementDefinitions.js --apply --force  # also overwrite existing ones
+ *
+ * Existing docs that aren't in the bundle are left alone (set `active:
+ * false` on a doc to retire a stamp).
+ */
+const admin = require('firebase-admin');
+const path = require('path');
+
+const serviceAccount = require(path.join(
+  __dirname,
+  '..',
+  'firebase-service-account.json',
+));
+admin.initializeApp({credential: admin.credential.cert(serviceAccount)});
+
+const db = admin.firestore();
+const definitions = require('../constants/achievementDefinitions.json');
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  return {apply: args.includes('--apply'), force: args.includes('--force')};
+}
+
+async function main() {
+  const args = parseArgs();
+  const existing = new Set((await db.collection('achievements').get()).docs.map((doc) => doc.id));
+
+  const created = [];
+  const overwritten = [];
+  const skipped = [];
+  const batch = db.batch();
+  definitions.forEach((definition, order) => {
+    const {id, ...data} = definition;
+    if (existing.has(id) && !args.force) {
+      skipped.push(id);
+      return;
+    }
+    (existing.has(id) ? overwritten : created).push(id);
+    batch.set(db.collection('achievements').doc(id), {
+      ...data,
+      active: true,
+      order,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  if (args.apply && created.length + overwritten.length > 0) {
+    await batch.commit();
+  }
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Mode:         ${args.apply ? 'APPLY' : 'DRY RUN'}`);
+  console.log(`Created:      ${created.join(', ') || '—'}`);
+  console.log(`Overwritten:  ${overwritten.join(', ') || '—'}`);
+  console.log(`Skipped:      ${skipped.join(', ') || '—'}${skipped.length && !args.force ? ' (use --force)' : ''}`);
+  if (!args.apply) {
+    console.log('\nRe-run with --apply to write.');
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('Seeding achievement definitions failed:', err);
+    process.exit(1);
+  });
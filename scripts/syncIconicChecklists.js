@@ -0,0 +1,179 @@
+/**
+ * Sync script — rebuild the iconic-eat checklists from `best_eats` after
+ * curation changes: one `iconic_checklists/{id}` doc per city (and per
+ * category with enough eats), plus each checklist's completion stamp in
+ * `achievements/iconic_<id>`.
+ *
+ * Usage (from repo root):
+ *   node scripts/syncIconicChecklists.js                      # dry run, logs only
+ *   node scripts/syncIconicChecklists.js --apply              # write checklists + stamps
+ *   node scripts/syncIconicChecklists.js --apply --progress   # also recount every user's progress
+ *   node scripts/syncIconicChecklists.js --apply --force      # write stamps into an unseeded project
+ *
+ * Grouping comes from utils/iconicChecklists.ts (loaded through
+ * @babel/register), the same code the app uses. Checklists that no longer
+ * exist are deleted; their stamps are retired (`active: false`), never
+ * deleted, since users may hold them. --progress only recounts
+ * users/{uid}/iconic_checklists — stamps for lists a re-curation completed
+ * come from scripts/backfillAchievements.js.
+ */
+const admin = require('firebase-admin');
+const path = require('path');
+
+require('@babel/register')({
+  extensions: ['.ts'],
+  only: [/[\\/](utils|types)[\\/]/],
+});
+
+const serviceAccount = require(path.join(
+  __dirname,
+  '..',
+  'firebase-service-account.json',
+));
+admin.initializeApp({credential: admin.credential.cert(serviceAccount)});
+
+const db = admin.firestore();
+
+const {
+  buildIconicChecklists,
+  checklistAchievementDefinition,
+  checklistAchievementId,
+  checklistProgress,
+} = require('../utils/iconicChecklists');
+const bundledDefinitions = require('../constants/achievementDefinitions.json');
+
+// Generated stamps sort after the bundled ones in the stamp book
+const FIRST_CHECKLIST_ORDER = 1000;
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  return {
+    apply: args.includes('--apply'),
+    progress: args.includes('--progress'),
+    force: args.includes('--force'),
+  };
+}
+
+async function loadEats() {
+  const snap = await db.collection('best_eats').where('active', '==', true).get();
+  return snap.docs.map((doc) => {
+    const data = doc.data();
+    const geo = data.location || {};
+    return {
+      id: doc.id,
+      dish_name: data.dish_name,
+      restaurant_name: data.restaurant_name,
+      category: data.category || null,
+      city: data.city || null,
+      active: data.active,
+      latitude: geo.latitude,
+      longitude: geo.longitude,
+      emoji_url: data.emoji_url || null,
+    };
+  });
+}
+
+// Batches cap at 500 writes
+async function commitInChunks(writes) {
+  for (let i = 0; i < writes.length; i += 400) {
+    const batch = db.batch();
+    writes.slice(i, i + 400).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
+
+async function recountProgress(checklists) {
+  const users = await db.collection('users').where('unlocked_iconic_eats', '!=', null).get();
+  let written = 0;
+  for (const userDoc of users.docs) {
+    const unlocked = userDoc.data().unlocked_iconic_eats || [];
+    const progressRef = userDoc.ref.collection('iconic_checklists');
+    const writes = checklists
+      .map((checklist) => ({checklist, progress: checklistProgress(checklist, unlocked)}))
+      .filter(({progress}) => progress.unlocked > 0)
+      .map(({checklist, progress}) => (batch) =>
+        batch.set(
+          progressRef.doc(checklist.id),
+          {
+            ...progress,
+            city: checklist.city,
+            category: checklist.category,
+            title: checklist.title,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+          {merge: true},
+        ));
+    await commitInChunks(writes);
+    written += writes.length;
+  }
+  return {users: users.size, written};
+}
+
+async function main() {
+  const args = parseArgs();
+  console.log('[checklists] mode:', args.apply ? 'APPLY' : 'DRY-RUN');
+
+  const eats = await loadEats();
+  const checklists = buildIconicChecklists(eats);
+  console.log(`[checklists] ${eats.length} active eats → ${checklists.length} checklists`);
+  checklists.forEach((c) => console.log(`[checklists]   ${c.id.padEnd(32)} ${c.items.length} eats  "${c.title}"`));
+
+  const [existingChecklists, existingStamps] = await Promise.all([
+    db.collection('iconic_checklists').get(),
+    db.collection('achievements').get(),
+  ]);
+  const wanted = new Set(checklists.map((c) => c.id));
+  const stale = existingChecklists.docs.map((doc) => doc.id).filter((id) => !wanted.has(id));
+  const retired = stale
+    .map(checklistAchievementId)
+    .filter((id) => existingStamps.docs.some((doc) => doc.id === id && doc.data().active !== false));
+
+  // The app only falls back to the bundled stamps when `achievements` is
+  // empty, so generated stamps alone would hide them
+  const bundledIds = new Set(bundledDefinitions.map((d) => d.id));
+  const seeded = existingStamps.docs.some((doc) => bundledIds.has(doc.id));
+  if (!seeded && !args.force) {
+    console.error('[checklists] `achievements` has no bundled stamps yet — run ' +
+      'scripts/seedAchievementDefinitions.js --apply first (or pass --force).');
+    process.exitCode = 1;
+    return;
+  }
+
+  let progress = null;
+  if (args.apply) {
+    const writes = [];
+    checklists.forEach((checklist, i) => {
+      writes.push((batch) => batch.set(db.collection('iconic_checklists').doc(checklist.id), {
+        city: checklist.city,
+        category: checklist.category,
+        title: checklist.title,
+        items: checklist.items,
+        eatIds: checklist.items.map((item) => item.id),
+        total: checklist.items.length,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }));
+      const {id, ...definition} = checklistAchievementDefinition(checklist, FIRST_CHECKLIST_ORDER + i);
+      writes.push((batch) => batch.set(db.collection('achievements').doc(id), definition, {merge: true}));
+    });
+    stale.forEach((id) => writes.push((batch) => batch.delete(db.collection('iconic_checklists').doc(id))));
+    retired.forEach((id) => writes.push((batch) =>
+      batch.update(db.collection('achievements').doc(id), {active: false})));
+    await commitInChunks(writes);
+    if (args.progress) progress = await recountProgress(checklists);
+  }
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Mode:              ${args.apply ? 'APPLY' : 'DRY RUN'}`);
+  console.log(`Checklists:        ${checklists.length} (${checklists.filter((c) => !c.category).length} cities)`);
+  console.log(`Removed:           ${stale.join(', ') || '—'}`);
+  console.log(`Stamps retired:    ${retired.join(', ') || '—'}`);
+  if (progress) console.log(`Progress recount:  ${progress.written} docs for ${progress.users} users`);
+  if (!args.apply) console.log('\nRe-run with --apply to write.');
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((err) => {
+    console.error('[checklists] fatal:', err);
+    process.exit(1);
+  });
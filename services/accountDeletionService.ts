@@ -0,0 +1,25 @@
+/**
+ * Account Deletion Service
+ * Asks the backend to delete the signed-in account. The client only flags
+ * the request on its user doc; functions/accountDeletion.js does the actual
+ * cascade (meals, comments, cheers, follows, notifications, Storage, Auth)
+ * because most of it touches other users' documents.
+ */
+
+import { firestore, auth } from '../firebaseConfig';
+
+/**
+ * Flag the signed-in account for deletion and sign out. The cascade runs
+ * server-side and deletes the Auth user when it finishes.
+ */
+export const requestAccountDeletion = async (): Promise<void> => {
+  const currentUser = auth().currentUser;
+  if (!currentUser) throw new Error('User not authenticated');
+
+  // An update (not a create) is what fires onAccountDeletionRequested
+  await firestore().collection('users').doc(currentUser.uid).update({
+    deletionRequestedAt: firestore.FieldValue.serverTimestamp(),
+  });
+  console.log(`AccountDeletionService: Deletion requested for ${currentUser.uid}`);
+  await auth().signOut();
+};
@@ -1,6 +1,27 @@
 import firestore from '@react-native-firebase/firestore';
 import auth from '@react-native-firebase/auth';
 import inAppNotificationService from './inAppNotificationService';
+import { CommentMention, resolveMentions } from '../utils/mentions';
+import { CommentReactionCounts, CommentReactionKey, CommentReactions, hasReacted } from '../utils/commentReactions';
+
+export type { CommentMention } from '../utils/mentions';
+export { COMMENT_REACTIONS } from '../utils/commentReactions';
+export type { CommentReactionKey } from '../utils/commentReactions';
+
+/**
+ * Comments live in `mealEntries/{mealId}/comments`. Threads are one level
+ * deep: a reply's `parentId` is always the top-level comment, even when
+ * replying to another reply (the composer prefills "@Name" instead).
+ *
+ * Commenters can only write their own comments (and their own key in a
+ * comment's `reactions`), so the counters on the meal doc, the per-comment
+ * reaction counts and reply cleanup are kept by the onCommentWritten Cloud
+ * Function (functions/comments.js):
+ *   commentCount          top-level comments + replies
+ *   commentReactionCount  emoji reactions across all comments
+ *
+ * Edits keep the previous text in `comments/{id}/edits`.
+ */
 
 export interface Comment {
   id: string;
@@ -10,14 +31,79 @@ export interface Comment {
   userPhoto: string;
   text: string;
   createdAt: any; // Firestore timestamp
+  parentId?: string | null; // top-level comment this replies to
+  mentions?: CommentMention[];
+  editedAt?: any;
+  editCount?: number;
+  reactions?: CommentReactions; // see utils/commentReactions
+  reactionCounts?: CommentReactionCounts; // server-maintained
+  reactorIds?: string[]; // server-maintained
+  deleted?: boolean; // author deleted their account; kept (anonymized) for its replies
+}
+
+export interface CommentEdit {
+  id: string;
+  text: string; // the text before this edit
+  replacedAt: any;
 }
 
+export interface CommentThread {
+  comment: Comment;
+  replies: Comment[]; // oldest first
+}
+
+const commentsRef = (mealId: string) =>
+  firestore().collection('mealEntries').doc(mealId).collection('comments');
+
+const getAuthorProfile = async (currentUser: { uid: string; displayName: string | null; photoURL: string | null }) => {
+  const userDoc = await firestore().collection('users').doc(currentUser.uid).get();
+  const userData = userDoc.data();
+  return {
+    name: userData?.displayName || currentUser.displayName || 'Anonymous',
+    photo: userData?.photoURL || currentUser.photoURL || '',
+  };
+};
+
+/**
+ * Send 'mention' notifications to everyone in `mentions` except the author
+ * and anyone in `skip` (already notified some other way).
+ */
+const notifyMentions = async (
+  mentions: CommentMention[],
+  skip: Set<string>,
+  fromUser: { id: string; name: string; photo: string },
+  mealId: string,
+  mealName: string,
+  commentId: string,
+  text: string,
+) => {
+  for (const mention of mentions) {
+    if (mention.userId === fromUser.id || skip.has(mention.userId)) continue;
+    await inAppNotificationService.createNotification(mention.userId, 'mention', {
+      fromUser,
+      mealId,
+      mealName,
+      commentId,
+      commentText: text,
+    });
+  }
+};
+
 /**
- * Add a comment to a meal
+ * Add a comment to a meal, or a reply when `options.parentId` is set.
+ *
+ * `options.mentions` are users picked from the @-suggestion list;
+ * `options.knownUsers` (thread participants) let hand-typed @names resolve
+ * too. Only mentions still present in the text are stored and notified.
  */
 export const addComment = async (
   mealId: string,
-  text: string
+  text: string,
+  options: {
+    parentId?: string | null;
+    mentions?: CommentMention[];
+    knownUsers?: CommentMention[];
+  } = {}
 ): Promise<{ success: boolean; message: string; comment?: Comment }> => {
   try {
     const currentUser = auth().currentUser;
@@ -25,74 +111,83 @@ export const addComment = async (
       return { success: false, message: 'Must be signed in to comment' };
     }
 
-    if (!text.trim()) {
+    const trimmed = text.trim();
+    if (!trimmed) {
       return { success: false, message: 'Comment cannot be empty' };
     }
 
-    // Get user data from Firestore for better profile info
-    const userDoc = await firestore()
-      .collection('users')
-      .doc(currentUser.uid)
-      .get();
-    
-    const userData = userDoc.data();
-    const displayName = userData?.displayName || currentUser.displayName || 'Anonymous';
-    const photoURL = userData?.photoURL || currentUser.photoURL || '';
+    const author = await getAuthorProfile(currentUser);
+    const mentions = resolveMentions(trimmed, options.mentions || [], options.knownUsers || []);
+
+    // Replies always hang off the top-level comment.
+    let parentId: string | null = null;
+    let parentAuthorId: string | null = null;
+    if (options.parentId) {
+      const parentDoc = await commentsRef(mealId).doc(options.parentId).get();
+      const parentData = parentDoc.data();
+      if (!parentDoc.exists || !parentData) {
+        return { success: false, message: 'The comment you replied to was deleted' };
+      }
+      parentId = parentData.parentId || parentDoc.id;
+      parentAuthorId = parentData.userId;
+    }
 
     const commentData = {
       mealId,
       userId: currentUser.uid,
-      userName: displayName,
-      userPhoto: photoURL,
-      text: text.trim(),
+      userName: author.name,
+      userPhoto: author.photo,
+      text: trimmed,
+      parentId,
+      mentions,
       createdAt: firestore.FieldValue.serverTimestamp(),
     };
 
-    // Add comment to the meal's comments subcollection
-    const commentRef = await firestore()
-      .collection('mealEntries')
-      .doc(mealId)
-      .collection('comments')
-      .add(commentData);
-
-    // Also update the comment count on the meal document
-    await firestore()
-      .collection('mealEntries')
-      .doc(mealId)
-      .update({
-        commentCount: firestore.FieldValue.increment(1),
-        lastCommentAt: firestore.FieldValue.serverTimestamp(),
-      });
+    const commentRef = commentsRef(mealId).doc();
+    const mealRef = firestore().collection('mealEntries').doc(mealId);
+    await commentRef.set(commentData);
 
-    // Get meal document to create notification for meal owner
-    const mealDoc = await firestore()
-      .collection('mealEntries')
-      .doc(mealId)
-      .get();
-    
+    // Notifications: a mention beats a plain comment/reply notification,
+    // and nobody is notified twice for the same comment.
+    const mealDoc = await mealRef.get();
     const mealData = mealDoc.data();
-    if (mealData && mealData.userId !== currentUser.uid) {
+    const mealName = mealData?.mealName || mealData?.restaurantName || 'meal';
+    const fromUser = { id: currentUser.uid, name: author.name, photo: author.photo };
+    const mentionedIds = new Set(mentions.map(m => m.userId));
+    const notified = new Set<string>();
+
+    await notifyMentions(mentions, notified, fromUser, mealId, mealName, commentRef.id, trimmed);
+    mentionedIds.forEach(id => notified.add(id));
+
+    if (parentAuthorId && parentAuthorId !== currentUser.uid && !notified.has(parentAuthorId)) {
+      await inAppNotificationService.createNotification(parentAuthorId, 'reply', {
+        fromUser,
+        mealId,
+        mealName,
+        commentId: commentRef.id,
+        commentText: trimmed,
+      });
+      notified.add(parentAuthorId);
+    }
+
+    if (mealData && mealData.userId !== currentUser.uid && !notified.has(mealData.userId)) {
       // Create notification for meal owner
       await inAppNotificationService.createNotification(
         mealData.userId,
         'comment',
         {
-          fromUser: {
-            id: currentUser.uid,
-            name: displayName,
-            photo: photoURL,
-          },
+          fromUser,
           mealId,
-          mealName: mealData.mealName || mealData.restaurantName || 'meal',
+          mealName,
           commentId: commentRef.id,
-          commentText: text.trim(),
+          commentText: trimmed,
         }
       );
     }
 
     return {
       success: true,
-      message: 'Comment added',
+      message: parentId ? 'Reply added' : 'Comment added',
       comment: {
         id: commentRef.id,
         ...commentData,
@@ -106,7 +201,108 @@ export const addComment = async (
 };
 
 /**
- * Delete a comment (only by the comment author)
+ * Edit a comment (only by the comment author). The previous text is kept
+ * in the `edits` subcollection; anyone newly @mentioned is notified.
+ */
+export const editComment = async (
+  mealId: string,
+  commentId: string,
+  text: string,
+  options: { mentions?: CommentMention[]; knownUsers?: CommentMention[] } = {}
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const currentUser = auth().currentUser;
+    if (!currentUser) {
+      return { success: false, message: 'Not authenticated' };
+    }
+
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return { success: false, message: 'Comment cannot be empty' };
+    }
+
+    const commentRef = commentsRef(mealId).doc(commentId);
+    const commentDoc = await commentRef.get();
+    const commentData = commentDoc.data() as Comment | undefined;
+    if (!commentDoc.exists || !commentData) {
+      return { success: false, message: 'Comment not found' };
+    }
+    if (commentData.userId !== currentUser.uid) {
+      return { success: false, message: 'Can only edit your own comments' };
+    }
+    if (commentData.text === trimmed) {
+      return { success: true, message: 'No changes' };
+    }
+
+    // Previously stored mentions still count as known, so unchanged
+    // @names keep resolving without being re-picked.
+    const mentions = resolveMentions(
+      trimmed,
+      options.mentions || [],
+      [...(commentData.mentions || []), ...(options.knownUsers || [])],
+    );
+
+    const batch = firestore().batch();
+    batch.set(commentRef.collection('edits').doc(), {
+      text: commentData.text,
+      replacedAt: firestore.FieldValue.serverTimestamp(),
+    });
+    batch.update(commentRef, {
+      text: trimmed,
+      mentions,
+      editedAt: firestore.FieldValue.serverTimestamp(),
+      editCount: firestore.FieldValue.increment(1),
+    });
+    await batch.commit();
+
+    const previouslyMentioned = new Set((commentData.mentions || []).map(m => m.userId));
+    const added = mentions.filter(m => !previouslyMentioned.has(m.userId));
+    if (added.length > 0) {
+      const author = await getAuthorProfile(currentUser);
+      const mealDoc = await firestore().collection('mealEntries').doc(mealId).get();
+      const mealData = mealDoc.data();
+      await notifyMentions(
+        added,
+        new Set(),
+        { id: currentUser.uid, name: author.name, photo: author.photo },
+        mealId,
+        mealData?.mealName || mealData?.restaurantName || 'meal',
+        commentId,
+        trimmed,
+      );
+    }
+
+    return { success: true, message: 'Comment updated' };
+  } catch (error) {
+    console.error('Error editing comment:', error);
+    return { success: false, message: 'Failed to edit comment' };
+  }
+};
+
+/**
+ * Previous versions of a comment, newest first.
+ */
+export const getCommentEditHistory = async (
+  mealId: string,
+  commentId: string
+): Promise<CommentEdit[]> => {
+  try {
+    const snapshot = await commentsRef(mealId)
+      .doc(commentId)
+      .collection('edits')
+      .orderBy('replacedAt', 'desc')
+      .get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as CommentEdit[];
+  } catch (error) {
+    console.error('Error fetching comment edit history:', error);
+    return [];
+  }
+};
+
+/**
+ * Delete a comment (only by the comment author). Deleting a top-level
+ * comment also deletes its replies — other people's replies can't be
+ * deleted from here, so onCommentWritten removes them.
  */
 export const deleteComment = async (
   mealId: string,
@@ -119,12 +315,7 @@ export const deleteComment = async (
     }
 
     // Get the comment to verify ownership
-    const commentDoc = await firestore()
-      .collection('mealEntries')
-      .doc(mealId)
-      .collection('comments')
-      .doc(commentId)
-      .get();
+    const commentDoc = await commentsRef(mealId).doc(commentId).get();
 
     if (!commentDoc.exists) {
       return { success: false, message: 'Comment not found' };
@@ -135,21 +326,7 @@ export const deleteComment = async (
       return { success: false, message: 'Can only delete your own comments' };
     }
 
-    // Delete the comment
-    await firestore()
-      .collection('mealEntries')
-      .doc(mealId)
-      .collection('comments')
-      .doc(commentId)
-      .delete();
-
-    // Update the comment count
-    await firestore()
-      .collection('mealEntries')
-      .doc(mealId)
-      .update({
-        commentCount: firestore.FieldValue.increment(-1),
-      });
+    await commentDoc.ref.delete();
 
     return { success: true, message: 'Comment deleted' };
   } catch (error) {
@@ -158,6 +335,95 @@ export const deleteComment = async (
   }
 };
 
+/**
+ * Add or remove the current user's `reaction` on a comment. Only the
+ * caller's own `reactions.{uid}` list is written (the rules allow nothing
+ * else); counts follow via onCommentWritten.
+ */
+export const toggleCommentReaction = async (
+  mealId: string,
+  commentId: string,
+  reaction: CommentReactionKey
+): Promise<{ success: boolean; reacted?: boolean; message?: string }> => {
+  try {
+    const currentUser = auth().currentUser;
+    if (!currentUser) {
+      return { success: false, message: 'Not authenticated' };
+    }
+
+    const commentRef = commentsRef(mealId).doc(commentId);
+    const commentDoc = await commentRef.get();
+    if (!commentDoc.exists) {
+      return { success: false, message: 'Comment not found' };
+    }
+
+    // arrayUnion / arrayRemove so a double tap can't leave a duplicate
+    const reacted = !hasReacted(commentDoc.data()?.reactions, currentUser.uid, reaction);
+    await commentRef.update({
+      [`reactions.${currentUser.uid}`]: reacted
+        ? firestore.FieldValue.arrayUnion(reaction)
+        : firestore.FieldValue.arrayRemove(reaction),
+    });
+
+    return { success: true, reacted };
+  } catch (error) {
+    console.error('Error toggling comment reaction:', error);
+    return { success: false, message: 'Failed to update reaction' };
+  }
+};
+
+/**
+ * Users whose display name starts with `prefix`, for @-mention suggestions.
+ * Case-sensitive like the other displayName prefix searches; callers
+ * should offer thread participants first.
+ */
+export const searchMentionableUsers = async (
+  prefix: string,
+  limit: number = 5
+): Promise<CommentMention[]> => {
+  const term = prefix.trim();
+  if (!term) return [];
+  try {
+    const snapshot = await firestore()
+      .collection('users')
+      .where('displayName', '>=', term)
+      .where('displayName', '<=', term + '\uf8ff')
+      .limit(limit)
+      .get();
+    return snapshot.docs
+      .map(doc => ({ userId: doc.id, name: doc.data().displayName as string }))
+      .filter(u => !!u.name);
+  } catch (error) {
+    console.error('Error searching users for mention:', error);
+    return [];
+  }
+};
+
+/**
+ * Group a flat comment list into threads: top-level comments in the given
+ * order, each with its replies oldest first. Replies whose parent is gone
+ * are dropped.
+ */
+export const buildCommentThreads = (comments: Comment[]): CommentThread[] => {
+  const replies = new Map<string, Comment[]>();
+  comments.forEach(comment => {
+    if (!comment.parentId) return;
+    const list = replies.get(comment.parentId) || [];
+    list.push(comment);
+    replies.set(comment.parentId, list);
+  });
+
+  const toMillis = (c: Comment) =>
+    c.createdAt?.toMillis ? c.createdAt.toMillis() : new Date(c.createdAt || Date.now()).getTime();
+
+  return comments
+    .filter(comment => !comment.parentId)
+    .map(comment => ({
+      comment,
+      replies: (replies.get(comment.id) || []).sort((a, b) => toMillis(a) - toMillis(b)),
+    }));
+};
+
 /**
  * Get comments for a meal
  */
@@ -166,10 +432,7 @@ export const getComments = async (
   limit: number = 50
 ): Promise<Comment[]> => {
   try {
-    const commentsSnapshot = await firestore()
-      .collection('mealEntries')
-      .doc(mealId)
-      .collection('comments')
+    const commentsSnapshot = await commentsRef(mealId)
       .orderBy('createdAt', 'desc')
       .limit(limit)
       .get();
@@ -192,10 +455,7 @@ export const subscribeToComments = (
   onUpdate: (comments: Comment[]) => void,
   onError?: (error: Error) => void
 ): (() => void) => {
-  const unsubscribe = firestore()
-    .collection('mealEntries')
-    .doc(mealId)
-    .collection('comments')
+  const unsubscribe = commentsRef(mealId)
     .orderBy('createdAt', 'desc')
     .onSnapshot(
       snapshot => {
@@ -212,4 +472,4 @@ export const subscribeToComments = (
     );
 
   return unsubscribe;
-};
\ No newline at end of file
+};
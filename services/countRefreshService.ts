@@ -1,10 +1,12 @@
 import { firebase, firestore, auth } from '../firebaseConfig';
+import type { MealEntry } from '../types/mealEntry';
+import { queryMealEntries } from './mealRepository';
 // DISABLED: Achievement service imports
 // import { extractCityFromMeal, extractCuisineFromMeal, isSushiMeal, isTakeoutMeal } from './achievementService';
 
 // Stub functions to replace achievement service functions
 // Returns all cities for a meal (supports multi-city via cities array)
-const extractCitiesFromMeal = (meal: any): string[] => {
+const extractCitiesFromMeal = (meal: MealEntry): string[] => {
   // Check cities array first (new multi-city model)
   if (meal.cities && Array.isArray(meal.cities) && meal.cities.length > 0) {
     return meal.cities;
@@ -16,7 +18,7 @@ const extractCitiesFromMeal = (meal: any): string[] => {
   return [];
 };
 
-const extractCuisineFromMeal = (meal: any) => {
+const extractCuisineFromMeal = (meal: MealEntry): string | null => {
   // Try metadata_enriched.cuisine_type first (primary source)
   if (meal.metadata_enriched?.cuisine_type) return meal.metadata_enriched.cuisine_type;
   // Try quick_criteria_result
@@ -25,7 +27,7 @@ const extractCuisineFromMeal = (meal: any) => {
   if (meal.aiMetadata?.cuisineType) return meal.aiMetadata.cuisineType;
   return null;
 };
-const extractRestaurantFromMeal = (meal: any) => {
+const extractRestaurantFromMeal = (meal: MealEntry): string | null => {
   if (!meal.restaurant) return null;
 
   let restaurantName = meal.restaurant.trim();
@@ -43,8 +45,8 @@ const extractRestaurantFromMeal = (meal: any) => {
 
   return restaurantName;
 };
-const isSushiMeal = (meal: any) => false;
-const isTakeoutMeal = (meal: any) => false;
+const isSushiMeal = (meal: MealEntry) => false;
+const isTakeoutMeal = (meal: MealEntry) => false;
 
 // Manual function to refresh all counts for the current user
 export const refreshUserCounts = async (userId?: string): Promise<{
@@ -67,15 +69,8 @@ export const refreshUserCounts = async (userId?: string): Promise<{
     console.log(`Refreshing counts for user: ${targetUserId}`);
 
     // Get all meals for this user
-    const mealsSnapshot = await firestore()
-      .collection('mealEntries')
-      .where('userId', '==', targetUserId)
-      .get();
-
-    const meals: any[] = [];
-    mealsSnapshot.forEach(doc => {
-      meals.push(doc.data());
-    });
+    // No orderBy: meals missing createdAt would otherwise drop out of the counts.
+    const { meals } = await queryMealEntries({ userId: targetUserId });
 
     console.log(`Found ${meals.length} meals to analyze`);
 
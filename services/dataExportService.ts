@@ -0,0 +1,320 @@
+/**
+ * Data Export Service
+ * Gets a user's data out of Forkful and back in again. Export gathers every
+ * meal, achievement, challenge, follow, saved meal, restaurant section,
+ * calendar note and the taste profile into a DataArchive
+ * (utils/dataArchive.ts) and writes a folder to the documents directory:
+ *
+ *   forkful-export-<date>/archive.json   the versioned archive
+ *   forkful-export-<date>/meals.csv      one row per meal
+ *   forkful-export-<date>/media/...      photos + pixel art (optional)
+ *
+ * Restore reads one of those folders into the signed-in account. It is
+ * meant for a fresh account (e.g. after deleting the old one), so it
+ * refuses to run when the account has meals of its own rather than
+ * merging. Meals it restored itself don't count, so an interrupted restore
+ * can simply be run again.
+ */
+
+import RNFS from 'react-native-fs';
+import { firestore, auth, storage } from '../firebaseConfig';
+import { createMealEntry } from './mealRepository';
+import { followUser, isFollowing } from './followService';
+import { refreshUserCounts } from './countRefreshService';
+import {
+  archiveDoc,
+  archiveFileUrls,
+  DataArchive,
+  DATA_ARCHIVE_FORMAT,
+  DATA_ARCHIVE_VERSION,
+  mealsToCsv,
+  parseDataArchive,
+  remapArchive,
+  restoredFilePath,
+  restoredMealId,
+  toArchiveValue,
+} from '../utils/dataArchive';
+
+const EXPORT_PREFIX = 'forkful-export-';
+const ARCHIVE_FILE = 'archive.json';
+const CSV_FILE = 'meals.csv';
+
+export interface DataExportResult {
+  folder: string;
+  jsonPath: string;
+  csvPath: string;
+  mealCount: number;
+  fileCount: number;
+}
+
+export interface SavedDataArchive {
+  folder: string;
+  jsonPath: string;
+  exportedAt: Date;
+}
+
+export interface DataRestoreResult {
+  meals: number;
+  achievements: number;
+  challenges: number;
+  following: number;
+  savedMeals: number;
+  filesUploaded: number;
+}
+
+type Progress = (message: string) => void;
+
+const userRef = (userId: string) => firestore().collection('users').doc(userId);
+
+const userMealsQuery = (userId: string) => firestore().collection('mealEntries').where('userId', '==', userId);
+
+const subcollectionDocs = async (userId: string, name: string) => {
+  const snapshot = await userRef(userId).collection(name).get();
+  return snapshot.docs.map(doc => archiveDoc(doc.id, doc.data()));
+};
+
+/**
+ * Read everything we store for a user into an archive (no files yet).
+ */
+export const buildDataArchive = async (userId: string): Promise<DataArchive> => {
+  const currentUser = auth().currentUser;
+  // Straight from the collection: no orderBy, so meals missing createdAt
+  // are exported too, and fields are kept exactly as stored
+  const meals = await userMealsQuery(userId).get();
+
+  const [achievements, challenges, following, followers, savedMeals] = await Promise.all([
+    subcollectionDocs(userId, 'achievements'),
+    subcollectionDocs(userId, 'challenges'),
+    subcollectionDocs(userId, 'following'),
+    subcollectionDocs(userId, 'followers'),
+    subcollectionDocs(userId, 'savedMeals'),
+  ]);
+  // Stamps earned before the subcollection existed
+  const legacyAchievements = await firestore().collection('userAchievements').where('userId', '==', userId).get();
+  const iconicClaims = await firestore().collection('iconic_claims').where('userId', '==', userId).get();
+
+  const userData = (await userRef(userId).get()).data() || {};
+  const tasteProfileDoc = await userRef(userId).collection('taste_profile').doc('summary').get();
+
+  return {
+    format: DATA_ARCHIVE_FORMAT,
+    version: DATA_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    account: {
+      userId,
+      displayName: currentUser?.uid === userId ? currentUser.displayName : userData.displayName || null,
+      email: currentUser?.uid === userId ? currentUser.email : null,
+      photoURL: currentUser?.uid === userId ? currentUser.photoURL : userData.photoURL || null,
+    },
+    meals: meals.docs.map(doc => archiveDoc(doc.id, doc.data())),
+    achievements: [...achievements, ...legacyAchievements.docs.map(doc => archiveDoc(doc.id, doc.data()))],
+    challenges,
+    following,
+    followers,
+    savedMeals,
+    iconicClaims: iconicClaims.docs.map(doc => archiveDoc(doc.id, doc.data())),
+    restaurantSections: {
+      sections: userData.restaurant_sections || [],
+      unsectionedOrder: userData.restaurant_unsectioned_order || [],
+    },
+    pixelArtLayout: userData.pixel_art_emoji_order?.length
+      ? {
+          order: userData.pixel_art_emoji_order,
+          tableSizes: userData.pixel_art_table_sizes || [],
+          tableConfigs: userData.pixel_art_table_configs || null,
+        }
+      : null,
+    calendarNotes: userData.calendar_notes || {},
+    tasteProfile: tasteProfileDoc.exists ? toArchiveValue(tasteProfileDoc.data()) : null,
+    files: {},
+  };
+};
+
+const fileExtension = (url: string): string => {
+  const match = decodeURIComponent(url.split('?')[0]).match(/\.(jpe?g|png|webp|heic)$/i);
+  return match ? match[1].toLowerCase() : 'jpg';
+};
+
+/**
+ * Export the signed-in user's data. With `includeFiles`, every photo and
+ * pixel-art image is downloaded into the folder too; a file that fails to
+ * download is skipped and keeps only its URL in the archive.
+ */
+export const exportUserData = async (
+  { includeFiles }: { includeFiles: boolean },
+  onProgress: Progress = () => {},
+): Promise<DataExportResult> => {
+  const currentUser = auth().currentUser;
+  if (!currentUser) throw new Error('User not authenticated');
+
+  onProgress('Reading your data…');
+  const archive = await buildDataArchive(currentUser.uid);
+
+  const day = archive.exportedAt.slice(0, 10);
+  const folder = `${RNFS.DocumentDirectoryPath}/${EXPORT_PREFIX}${day}`;
+  if (await RNFS.exists(folder)) await RNFS.unlink(folder);
+  await RNFS.mkdir(folder);
+
+  if (includeFiles) {
+    const urls = archiveFileUrls(archive);
+    await RNFS.mkdir(`${folder}/media`);
+    for (let i = 0; i < urls.length; i++) {
+      onProgress(`Downloading photos ${i + 1} of ${urls.length}…`);
+      const relativePath = `media/${String(i + 1).padStart(4, '0')}.${fileExtension(urls[i])}`;
+      try {
+        const { statusCode } = await RNFS.downloadFile({ fromUrl: urls[i], toFile: `${folder}/${relativePath}` }).promise;
+        if (statusCode >= 200 && statusCode < 300) {
+          archive.files[urls[i]] = relativePath;
+        } else {
+          console.warn(`DataExportService: Skipping ${urls[i]} (HTTP ${statusCode})`);
+        }
+      } catch (error) {
+        console.warn(`DataExportService: Skipping ${urls[i]}:`, error);
+      }
+    }
+  }
+
+  onProgress('Saving archive…');
+  const jsonPath = `${folder}/${ARCHIVE_FILE}`;
+  const csvPath = `${folder}/${CSV_FILE}`;
+  await RNFS.writeFile(jsonPath, JSON.stringify(archive, null, 2), 'utf8');
+  await RNFS.writeFile(csvPath, mealsToCsv(archive.meals, archive.files), 'utf8');
+  console.log(`DataExportService: Exported ${archive.meals.length} meals to ${folder}`);
+
+  return {
+    folder,
+    jsonPath,
+    csvPath,
+    mealCount: archive.meals.length,
+    fileCount: Object.keys(archive.files).length,
+  };
+};
+
+/**
+ * Archives previously exported on this device, newest first.
+ */
+export const listDataArchives = async (): Promise<SavedDataArchive[]> => {
+  try {
+    const entries = await RNFS.readDir(RNFS.DocumentDirectoryPath);
+    const archives: SavedDataArchive[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory() || !entry.name.startsWith(EXPORT_PREFIX)) continue;
+      const jsonPath = `${entry.path}/${ARCHIVE_FILE}`;
+      if (!(await RNFS.exists(jsonPath))) continue;
+      const exportedAt = new Date(entry.name.slice(EXPORT_PREFIX.length));
+      archives.push({ folder: entry.path, jsonPath, exportedAt: isNaN(exportedAt.getTime()) ? new Date(0) : exportedAt });
+    }
+    return archives.sort((a, b) => b.exportedAt.getTime() - a.exportedAt.getTime());
+  } catch (error) {
+    console.error('DataExportService: Error listing archives:', error);
+    return [];
+  }
+};
+
+const uploadRestoredFile = async (localPath: string, relativePath: string, userId: string): Promise<string> => {
+  const ref = storage().ref(restoredFilePath(relativePath, userId));
+  await ref.putFile(localPath);
+  return ref.getDownloadURL();
+};
+
+/**
+ * Restore an exported archive into the signed-in account. Meals get new
+ * ids, downloaded files are re-uploaded, and every reference to the old
+ * account, meal ids and file URLs is rewritten (see remapArchive).
+ * Follows are re-created through followUser so the other side's follower
+ * list and counts stay right. Every write lands on an id derived from the
+ * archive, so running it again after a failure picks up where it stopped.
+ */
+export const restoreUserData = async (jsonPath: string, onProgress: Progress = () => {}): Promise<DataRestoreResult> => {
+  const currentUser = auth().currentUser;
+  if (!currentUser) throw new Error('User not authenticated');
+  const userId = currentUser.uid;
+
+  const archive = parseDataArchive(await RNFS.readFile(jsonPath, 'utf8'));
+  if (archive.account.userId === userId) {
+    throw new Error('This archive belongs to the account you are signed in to');
+  }
+  const restoredIds = new Set(archive.meals.map(meal => restoredMealId(meal.id, userId)));
+  const existing = await userMealsQuery(userId).get();
+  if (existing.docs.some(doc => !restoredIds.has(doc.id))) {
+    throw new Error('This account already has meals. Restore into a fresh account.');
+  }
+
+  // Re-upload the files that came with the archive
+  const folder = jsonPath.slice(0, jsonPath.lastIndexOf('/'));
+  const urls: Record<string, string> = {};
+  const files = Object.entries(archive.files);
+  for (let i = 0; i < files.length; i++) {
+    const [url, relativePath] = files[i];
+    onProgress(`Uploading photos ${i + 1} of ${files.length}…`);
+    const localPath = `${folder}/${relativePath}`;
+    if (!(await RNFS.exists(localPath))) continue;
+    try {
+      urls[url] = await uploadRestoredFile(localPath, relativePath, userId);
+    } catch (error) {
+      console.warn(`DataExportService: Keeping original URL for ${relativePath}:`, error);
+    }
+  }
+
+  const mealIds: Record<string, string> = {};
+  archive.meals.forEach(meal => {
+    mealIds[meal.id] = restoredMealId(meal.id, userId);
+  });
+  const plan = remapArchive(
+    archive,
+    { userId, userName: currentUser.displayName || 'User', userPhoto: currentUser.photoURL },
+    { meals: mealIds, urls },
+  );
+
+  for (let i = 0; i < plan.meals.length; i++) {
+    onProgress(`Restoring meals ${i + 1} of ${plan.meals.length}…`);
+    await createMealEntry(plan.meals[i].data, plan.meals[i].id);
+  }
+
+  onProgress('Restoring stamps, challenges and saved meals…');
+  const writes = [
+    ...plan.achievements.map(doc => ({ collection: 'achievements', doc })),
+    ...plan.challenges.map(doc => ({ collection: 'challenges', doc })),
+    ...plan.savedMeals.map(doc => ({ collection: 'savedMeals', doc })),
+  ];
+  // Firestore batches cap at 500 writes
+  for (let i = 0; i < writes.length; i += 400) {
+    const batch = firestore().batch();
+    writes.slice(i, i + 400).forEach(({ collection, doc }) => {
+      batch.set(userRef(userId).collection(collection).doc(doc.id), doc.data);
+    });
+    await batch.commit();
+  }
+
+  onProgress('Restoring follows…');
+  let following = 0;
+  for (const doc of plan.following) {
+    // Already re-followed by an earlier, interrupted run
+    if (await isFollowing(doc.id)) {
+      following++;
+      continue;
+    }
+    const result = await followUser(doc.id, doc.data.followingName || 'User', doc.data.followingPhoto || '');
+    if (result.success) following++;
+  }
+
+  onProgress('Restoring your passport layout…');
+  await userRef(userId).set(plan.userFields, { merge: true });
+  if (plan.tasteProfile) {
+    // meal_count is recounted by onMealWrite, so merging over it is safe
+    await userRef(userId).collection('taste_profile').doc('summary').set(plan.tasteProfile, { merge: true });
+  }
+
+  onProgress('Recounting cities and restaurants…');
+  await refreshUserCounts(userId);
+
+  console.log(`DataExportService: Restored ${plan.meals.length} meals from ${archive.account.userId} into ${userId}`);
+  return {
+    meals: plan.meals.length,
+    achievements: plan.achievements.length,
+    challenges: plan.challenges.length,
+    following,
+    savedMeals: plan.savedMeals.length,
+    filesUploaded: Object.keys(urls).length,
+  };
+};
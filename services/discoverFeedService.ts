@@ -0,0 +1,385 @@
+/**
+ * Discover Feed Service
+ * Pages rated meals around a location out of `mealEntries` by geohash, and
+ * merges in posts from the users the viewer follows.
+ *
+ * Three kinds of area:
+ *   - 'nearby': the Home feed. Starts with the geohash cells around the
+ *     user and widens ring by ring (city → region → country) as pages run
+ *     out, so users in smaller cities still see their local meals first
+ *     instead of the global top-rated list. A wider ring's cells skip the
+ *     inner rings' cells, which were already read in full.
+ *   - 'region': a fixed map viewport (FullMapScreen). No widening, and no
+ *     follow merge — followed posts outside the viewport wouldn't be shown.
+ *   - 'global': the Home feed when the user's location is unavailable.
+ *     Pages the top-rated meals everywhere, newest first within a rating,
+ *     with the follow merge.
+ *
+ * Each page is ranked by a pluggable FeedRanker (utils/feedRanking) and
+ * returned with an opaque cursor; pass it back to get the next page.
+ *
+ * Meals need the `geohash` field (written by onMealWriteSetGeohash, backfill
+ * with scripts/backfillMealGeohash.js) to appear in the nearby cells.
+ */
+
+import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { firestore } from '../firebaseConfig';
+import type { MealEntry } from '../types/mealEntry';
+import {
+  GeoBounds,
+  MapRegion,
+  boundingBoxForRadius,
+  boundsForRegion,
+  geohashCellsForBounds,
+  haversineKm,
+  isInBounds,
+} from '../utils/geohash';
+import { FeedRanker, FeedScore, rankFeed, tieredRanker } from '../utils/feedRanking';
+import type { TasteProfile } from '../utils/tasteMatch';
+
+// Feed meals carry tier-scoring fields on top of the stored doc, and
+// createdAt is converted to a Date when the page is built.
+export interface FeedMeal extends Omit<MealEntry, 'createdAt'> {
+  createdAt: Date;
+  distance?: number; // km from the user, unset when unknown
+  score?: number;
+  tier?: string;
+  breakdown?: FeedScore['breakdown']; // per-feature scores from a weighted ranker
+}
+
+export type DiscoverArea =
+  | { kind: 'nearby'; center: { latitude: number; longitude: number } }
+  | { kind: 'region'; region: MapRegion }
+  | { kind: 'global' };
+
+type Snapshot = FirebaseFirestoreTypes.QueryDocumentSnapshot;
+
+// A geohash key range to page through: one cell of the current ring,
+// or the part of it between inner-ring cells that were already read.
+interface CellRange {
+  key: string;
+  lower: { op: '>=' | '>'; value: string };
+  upper: { op: '<' | '<='; value: string };
+}
+
+// Opaque to callers — hand it back to fetchDiscoverPage for the next page.
+export interface DiscoverCursor {
+  ring: number;
+  cells: CellRange[]; // empty for 'global', which reads TOP_RATED_KEY instead
+  // Cells of earlier rings, all read to the end.
+  readCells: string[];
+  // Last doc read per cell range / per follow chunk; 'done' once exhausted.
+  cellCursors: Record<string, Snapshot | 'done'>;
+  followCursors: Record<number, Snapshot | 'done'>;
+  seenIds: Set<string>;
+}
+
+export interface DiscoverPage {
+  meals: FeedMeal[];
+  cursor: DiscoverCursor;
+  hasMore: boolean;
+}
+
+export interface DiscoverOptions {
+  followingIds?: string[];
+  userLocation?: { latitude: number; longitude: number } | null;
+  cursor?: DiscoverCursor | null;
+  pageSize?: number;
+  ranker?: FeedRanker;
+  tasteProfile?: TasteProfile | null; // read by the taste-match scorer
+}
+
+const MEALS_COLLECTION = 'mealEntries';
+const DEFAULT_PAGE_SIZE = 25;
+// Nearby rings, in km. The first matches the ranker's "close" band.
+const NEARBY_RING_KM = [8, 40, 200, 1000];
+const MIN_PER_CELL = 5;
+// cellCursors key of the 'global' area's top-rated query
+const TOP_RATED_KEY = 'top_rated';
+// Firestore 'in' queries take at most 10 values.
+const IN_QUERY_LIMIT = 10;
+// Follow lists beyond this many users only merge their first 100 follows;
+// the rest still show up through the geo cells.
+const MAX_FOLLOW_CHUNKS = 10;
+
+const mealsRef = () => firestore().collection(MEALS_COLLECTION);
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+};
+
+const boundsForArea = (area: Exclude<DiscoverArea, { kind: 'global' }>, ring: number): GeoBounds =>
+  area.kind === 'region'
+    ? boundsForRegion(area.region)
+    : boundingBoxForRadius(area.center.latitude, area.center.longitude, NEARBY_RING_KM[ring]);
+
+/**
+ * Key ranges covering `cell` minus the already-read cells nested inside
+ * it. None when the cell itself lies inside one that was read.
+ */
+const cellRanges = (cell: string, readCells: string[]): CellRange[] => {
+  if (readCells.some(read => cell.startsWith(read))) return [];
+  const inner = readCells.filter(read => read.startsWith(cell)).sort();
+  // Sorted, so a cell nested in another inner cell follows it
+  const holes = inner.filter((read, i) => !inner.slice(0, i).some(outer => read.startsWith(outer)));
+  const ranges: CellRange[] = [];
+  let lower: CellRange['lower'] = { op: '>=', value: cell };
+  holes.forEach(hole => {
+    ranges.push({ key: `${cell}<${hole}`, lower, upper: { op: '<', value: hole } });
+    lower = { op: '>', value: `${hole}\uf8ff` };
+  });
+  ranges.push({
+    key: holes.length ? `${cell}>${holes[holes.length - 1]}` : cell,
+    lower,
+    upper: { op: '<=', value: `${cell}\uf8ff` },
+  });
+  return ranges;
+};
+
+const ringRanges = (area: DiscoverArea, ring: number, readCells: string[]): CellRange[] =>
+  area.kind === 'global'
+    ? []
+    : geohashCellsForBounds(boundsForArea(area, ring)).flatMap(cell => cellRanges(cell, readCells));
+
+const newCursor = (area: DiscoverArea): DiscoverCursor => ({
+  ring: 0,
+  cells: ringRanges(area, 0, []),
+  readCells: [],
+  cellCursors: {},
+  followCursors: {},
+  seenIds: new Set(),
+});
+
+/**
+ * Read the next slice of every unfinished cell. Returns the raw docs and
+ * marks cells 'done' when they come back short.
+ */
+const readCells = async (cursor: DiscoverCursor, pageSize: number): Promise<Snapshot[]> => {
+  const open = cursor.cells.filter(range => cursor.cellCursors[range.key] !== 'done');
+  if (open.length === 0) return [];
+  const perCell = Math.max(MIN_PER_CELL, Math.ceil(pageSize / open.length));
+
+  const snapshots = await Promise.all(
+    open.map(range => {
+      let query = mealsRef()
+        .where('geohash', range.lower.op, range.lower.value)
+        .where('geohash', range.upper.op, range.upper.value)
+        .orderBy('geohash');
+      const last = cursor.cellCursors[range.key];
+      if (last && last !== 'done') query = query.startAfter(last);
+      return query.limit(perCell).get();
+    }),
+  );
+
+  const docs: Snapshot[] = [];
+  snapshots.forEach((snapshot, i) => {
+    const { key } = open[i];
+    docs.push(...snapshot.docs);
+    cursor.cellCursors[key] = snapshot.docs.length < perCell
+      ? 'done'
+      : snapshot.docs[snapshot.docs.length - 1];
+  });
+  return docs;
+};
+
+/**
+ * Next slice of the top-rated meals everywhere, for the 'global' area.
+ */
+const readTopRated = async (cursor: DiscoverCursor, pageSize: number): Promise<Snapshot[]> => {
+  const last = cursor.cellCursors[TOP_RATED_KEY];
+  if (last === 'done') return [];
+  let query = mealsRef().where('rating', '>', 0).orderBy('rating', 'desc').orderBy('createdAt', 'desc');
+  if (last) query = query.startAfter(last);
+  const snapshot = await query.limit(pageSize).get();
+  cursor.cellCursors[TOP_RATED_KEY] = snapshot.docs.length < pageSize
+    ? 'done'
+    : snapshot.docs[snapshot.docs.length - 1];
+  return snapshot.docs;
+};
+
+/**
+ * Newest posts from followed users, one 'in' query per 10 users.
+ */
+const readFollowed = async (
+  cursor: DiscoverCursor,
+  followingIds: string[],
+  pageSize: number,
+): Promise<Snapshot[]> => {
+  const chunks = chunk(followingIds, IN_QUERY_LIMIT).slice(0, MAX_FOLLOW_CHUNKS);
+  const open = chunks
+    .map((ids, index) => ({ ids, index }))
+    .filter(({ index }) => cursor.followCursors[index] !== 'done');
+  if (open.length === 0) return [];
+  const perChunk = Math.max(MIN_PER_CELL, Math.ceil(pageSize / 2 / open.length));
+
+  const snapshots = await Promise.all(
+    open.map(({ ids, index }) => {
+      let query = mealsRef().where('userId', 'in', ids).orderBy('createdAt', 'desc');
+      const last = cursor.followCursors[index];
+      if (last && last !== 'done') query = query.startAfter(last);
+      return query.limit(perChunk).get();
+    }),
+  );
+
+  const docs: Snapshot[] = [];
+  snapshots.forEach((snapshot, i) => {
+    const { index } = open[i];
+    docs.push(...snapshot.docs);
+    cursor.followCursors[index] = snapshot.docs.length < perChunk
+      ? 'done'
+      : snapshot.docs[snapshot.docs.length - 1];
+  });
+  return docs;
+};
+
+/**
+ * Display names/photos for the meals' authors, batched 10 ids at a time.
+ */
+const fetchAuthors = async (userIds: string[]): Promise<Map<string, any>> => {
+  const authors = new Map<string, any>();
+  for (const ids of chunk(userIds, IN_QUERY_LIMIT)) {
+    try {
+      const snapshot = await firestore()
+        .collection('users')
+        .where(firestore.FieldPath.documentId(), 'in', ids)
+        .get();
+      snapshot.docs.forEach(doc => authors.set(doc.id, doc.data()));
+    } catch (error) {
+      console.log('DiscoverFeedService: Error batch fetching user data:', error);
+    }
+  }
+  return authors;
+};
+
+const toFeedMeal = (
+  doc: Snapshot,
+  author: any,
+  userLocation: { latitude: number; longitude: number } | null,
+): FeedMeal => {
+  const data = doc.data();
+  const aiMetadata = data.aiMetadata || {};
+  const distance = userLocation && data.location
+    ? haversineKm(userLocation.latitude, userLocation.longitude, data.location.latitude, data.location.longitude)
+    : undefined;
+
+  return {
+    id: doc.id,
+    photoUrl: data.photoUrl,
+    photos: data.photos || undefined, // Include photos array for multi-photo support
+    rating: data.rating,
+    restaurant: data.restaurant || '',
+    meal: data.meal || '',
+    userId: data.userId,
+    userName: author?.displayName || data.userName || '',
+    userPhoto: author?.photoURL || data.userPhoto || '',
+    city: data.city || '',
+    mealType: data.mealType || 'Restaurant', // defaults to Restaurant for older entries
+    location: data.location,
+    distance,
+    createdAt: data.createdAt?.toDate?.() || new Date(),
+    aiMetadata: {
+      cuisineType: aiMetadata.cuisineType || 'Unknown',
+      foodType: aiMetadata.foodType || ['Unknown'],
+      mealType: aiMetadata.mealType || 'Unknown',
+      primaryProtein: aiMetadata.primaryProtein || 'Unknown',
+      dietType: aiMetadata.dietType || 'Unknown',
+      eatingMethod: aiMetadata.eatingMethod || 'Unknown',
+      setting: aiMetadata.setting || 'Unknown',
+      platingStyle: aiMetadata.platingStyle || 'Unknown',
+      beverageType: aiMetadata.beverageType || 'Unknown',
+    },
+    metadata_enriched: data.metadata_enriched || null,
+    enhanced_facts: data.enhanced_facts || null,
+    quick_criteria_result: data.quick_criteria_result || null,
+    pixel_art_url: data.pixel_art_url || undefined,
+    iconic_eat_id: data.iconic_eat_id || null,
+    cheersCount: data.cheersCount || 0,
+    commentCount: data.commentCount || 0,
+  };
+};
+
+const hasMoreIn = (cursor: DiscoverCursor, area: DiscoverArea, followChunks: number): boolean => {
+  if (area.kind === 'global' && cursor.cellCursors[TOP_RATED_KEY] !== 'done') return true;
+  if (cursor.cells.some(range => cursor.cellCursors[range.key] !== 'done')) return true;
+  if (area.kind === 'nearby' && cursor.ring < NEARBY_RING_KM.length - 1) return true;
+  for (let i = 0; i < followChunks; i++) {
+    if (cursor.followCursors[i] !== 'done') return true;
+  }
+  return false;
+};
+
+/**
+ * Fetch one ranked page of the Discover feed. Omit `cursor` for the first
+ * page; pass the returned cursor to continue. Meals already returned on an
+ * earlier page are never repeated.
+ */
+export const fetchDiscoverPage = async (
+  area: DiscoverArea,
+  opts: DiscoverOptions = {},
+): Promise<DiscoverPage> => {
+  const pageSize = opts.pageSize || DEFAULT_PAGE_SIZE;
+  const ranker = opts.ranker || tieredRanker;
+  const followingIds = area.kind !== 'region' ? opts.followingIds || [] : [];
+  const followChunks = Math.min(Math.ceil(followingIds.length / IN_QUERY_LIMIT), MAX_FOLLOW_CHUNKS);
+  const userLocation = opts.userLocation
+    ?? (area.kind === 'nearby' ? area.center : null);
+  const cursor = opts.cursor || newCursor(area);
+  const bounds = area.kind === 'region' ? boundsForRegion(area.region) : null;
+
+  const picked: Snapshot[] = [];
+  const accept = (docs: Snapshot[]) => {
+    docs.forEach(doc => {
+      if (cursor.seenIds.has(doc.id)) return;
+      const data = doc.data();
+      // Only rated meals with a location make the feed.
+      if (!(data.rating > 0) || !data.location) return;
+      if (bounds && !isInBounds(data.location.latitude, data.location.longitude, bounds)) return;
+      cursor.seenIds.add(doc.id);
+      picked.push(doc);
+    });
+  };
+
+  try {
+    accept(await readFollowed(cursor, followingIds, pageSize));
+
+    // Keep reading cells — widening the ring for 'nearby' — until the page
+    // is full or the area is exhausted.
+    while (picked.length < pageSize) {
+      if (area.kind === 'global') {
+        accept(await readTopRated(cursor, pageSize - picked.length));
+        if (cursor.cellCursors[TOP_RATED_KEY] === 'done') break;
+        continue;
+      }
+      accept(await readCells(cursor, pageSize - picked.length));
+      if (cursor.cells.some(range => cursor.cellCursors[range.key] !== 'done')) continue;
+      if (area.kind !== 'nearby' || cursor.ring >= NEARBY_RING_KM.length - 1) break;
+      cursor.readCells = [
+        ...cursor.readCells,
+        ...geohashCellsForBounds(boundsForArea(area, cursor.ring)),
+      ];
+      cursor.ring += 1;
+      cursor.cells = ringRanges(area, cursor.ring, cursor.readCells);
+      cursor.cellCursors = {};
+      console.log(`DiscoverFeedService: widening to ${NEARBY_RING_KM[cursor.ring]} km`);
+    }
+
+    const authors = await fetchAuthors([...new Set(picked.map(doc => doc.data().userId).filter(Boolean))]);
+    const meals = picked.map(doc => toFeedMeal(doc, authors.get(doc.data().userId), userLocation));
+    const ranked = rankFeed(meals, ranker, {
+      userLocation,
+      followingIds: new Set(followingIds),
+      now: new Date(),
+      tasteProfile: opts.tasteProfile,
+    });
+
+    console.log(
+      `DiscoverFeedService: page of ${ranked.length} (ring ${cursor.ring}, ${cursor.seenIds.size} seen)`,
+    );
+    return { meals: ranked, cursor, hasMore: hasMoreIn(cursor, area, followChunks) };
+  } catch (error) {
+    console.error('DiscoverFeedService: Error fetching page:', error);
+    throw error;
+  }
+};
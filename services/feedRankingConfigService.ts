@@ -0,0 +1,148 @@
+/**
+ * Feed Ranking Config Service
+ * Picks the Discover feed's ranker for the current user from the A/B config
+ * doc at `app_config/feed_ranking`, so weight sets can be tuned and compared
+ * without an app release.
+ *
+ * Doc shape:
+ *   {
+ *     experiment: 'feed_weights_v1',   // salt for bucketing; change to reshuffle
+ *     variants: {
+ *       control: { ranker: 'tiered', traffic: 50 },
+ *       taste:   { weights: { tasteMatch: 6 }, traffic: 50 },
+ *     },
+ *   }
+ *
+ * `traffic` values are relative shares. `weights` are merged over
+ * DEFAULT_FEED_WEIGHTS, so a variant only lists what it changes. A user
+ * always lands in the same variant for a given experiment name. Missing or
+ * malformed config falls back to the default weighted ranker.
+ */
+
+import { firestore } from '../firebaseConfig';
+import {
+  DEFAULT_FEED_WEIGHTS,
+  FeedFeature,
+  FeedRanker,
+  FeedWeights,
+  createWeightedRanker,
+  tieredRanker,
+} from '../utils/feedRanking';
+
+export interface FeedRankingVariant {
+  ranker?: 'weighted' | 'tiered';
+  weights?: Partial<FeedWeights>;
+  traffic?: number;
+}
+
+export interface FeedRankingConfig {
+  experiment: string;
+  variants: Record<string, FeedRankingVariant>;
+}
+
+export interface FeedRankingAssignment {
+  experiment: string;
+  variant: string;
+  weights: FeedWeights | null; // null for the tiered ranker
+  ranker: FeedRanker;
+}
+
+const CONFIG_DOC = 'feed_ranking';
+const CONFIG_TTL_MS = 30 * 60 * 1000;
+
+const DEFAULT_ASSIGNMENT: FeedRankingAssignment = {
+  experiment: 'none',
+  variant: 'default',
+  weights: DEFAULT_FEED_WEIGHTS,
+  ranker: createWeightedRanker(DEFAULT_FEED_WEIGHTS, 'default'),
+};
+
+let cachedConfig: { config: FeedRankingConfig | null; fetchedAt: number } | null = null;
+
+// 32-bit FNV-1a — stable across sessions and platforms, good enough spread
+// for bucketing.
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministically bucket a user into one of the config's variants by
+ * traffic share. Returns null if no variant has positive traffic.
+ */
+export const assignFeedVariant = (userId: string, config: FeedRankingConfig): string | null => {
+  const entries = Object.entries(config.variants)
+    .filter(([, v]) => (v.traffic ?? 0) > 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+  const total = entries.reduce((sum, [, v]) => sum + (v.traffic ?? 0), 0);
+  if (total <= 0) return null;
+
+  let point = (hashString(`${config.experiment}:${userId}`) % 10000) / 10000 * total;
+  for (const [name, v] of entries) {
+    point -= v.traffic ?? 0;
+    if (point < 0) return name;
+  }
+  return entries[entries.length - 1][0];
+};
+
+const sanitizeWeights = (weights: unknown): Partial<FeedWeights> => {
+  const out: Partial<FeedWeights> = {};
+  if (!weights || typeof weights !== 'object') return out;
+  (Object.keys(DEFAULT_FEED_WEIGHTS) as FeedFeature[]).forEach(feature => {
+    const w = (weights as Record<string, unknown>)[feature];
+    if (typeof w === 'number' && Number.isFinite(w)) out[feature] = w;
+  });
+  return out;
+};
+
+const loadConfig = async (): Promise<FeedRankingConfig | null> => {
+  if (cachedConfig && Date.now() - cachedConfig.fetchedAt < CONFIG_TTL_MS) {
+    return cachedConfig.config;
+  }
+  let config: FeedRankingConfig | null = null;
+  try {
+    const doc = await firestore().collection('app_config').doc(CONFIG_DOC).get();
+    const data = doc.data();
+    if (data && data.variants && typeof data.variants === 'object') {
+      config = {
+        experiment: typeof data.experiment === 'string' ? data.experiment : CONFIG_DOC,
+        variants: data.variants,
+      };
+    }
+  } catch (error) {
+    console.warn('FeedRankingConfigService: Error loading config, using defaults:', error);
+  }
+  cachedConfig = { config, fetchedAt: Date.now() };
+  return config;
+};
+
+/**
+ * The ranker (and the variant it came from) for this user.
+ */
+export const getFeedRankingAssignment = async (
+  userId: string | null | undefined,
+): Promise<FeedRankingAssignment> => {
+  if (!userId) return DEFAULT_ASSIGNMENT;
+  const config = await loadConfig();
+  if (!config) return DEFAULT_ASSIGNMENT;
+
+  const variant = assignFeedVariant(userId, config);
+  if (!variant) return DEFAULT_ASSIGNMENT;
+
+  const spec = config.variants[variant];
+  if (spec.ranker === 'tiered') {
+    return { experiment: config.experiment, variant, weights: null, ranker: tieredRanker };
+  }
+  const weights: FeedWeights = { ...DEFAULT_FEED_WEIGHTS, ...sanitizeWeights(spec.weights) };
+  console.log(`FeedRankingConfigService: ${config.experiment} → ${variant}`);
+  return {
+    experiment: config.experiment,
+    variant,
+    weights,
+    ranker: createWeightedRanker(weights, variant),
+  };
+};
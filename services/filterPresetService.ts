@@ -0,0 +1,291 @@
+/**
+ * Filter Preset Service
+ * Named filter combinations (chips, ratings, search text, map region) saved
+ * to the owner-only `users/{uid}/settings/filter_presets` doc, plus the
+ * share-link format that carries one to another device. Presets saved
+ * before that doc existed sat in the public user doc's `filter_presets`
+ * field; they're moved over the first time the presets are read.
+ *
+ * A preset's `filters` / `ratings` are exactly what applyHomeFilters takes,
+ * so applying one is just setting HomeScreen / FullMap filter state.
+ */
+
+import { Share } from 'react-native';
+import { firestore } from '../firebaseConfig';
+import type { FilterItem } from '../components/SimpleFilterComponent';
+import { parsePassportQuery } from '../utils/passportQuery';
+
+export interface FilterPresetRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+// The part of a preset that travels in a share link.
+export interface FilterPresetState {
+  name: string;
+  filters: FilterItem[];
+  ratings: number[] | null;
+  searchText?: string; // free text / query syntax, re-parsed on apply
+  region?: FilterPresetRegion | null;
+}
+
+export interface FilterPreset extends FilterPresetState {
+  id: string;
+  pinned: boolean; // shown as a chip in FullMapQuickChips
+  createdAt: number;
+}
+
+// Legacy field on users/{uid}
+const LEGACY_PRESETS_FIELD = 'filter_presets';
+const MAX_PRESETS = 20;
+
+// Share links: https://forkful.app/filters?p=<uri-encoded compact JSON>
+// (forkful://filters?p=... works too — handleDeepLink accepts both).
+const SHARE_LINK_BASE = 'https://forkful.app/filters';
+
+// Types a shared link never carries. 'following' / 'critic' / 'user' depend
+// on the sender's social graph, so they're dropped rather than reinterpreted.
+const SHAREABLE_EXCLUDED_TYPES = new Set(['following', 'critic', 'user']);
+
+const userRef = (userId: string) => firestore().collection('users').doc(userId);
+const presetsRef = (userId: string) => userRef(userId).collection('settings').doc('filter_presets');
+
+const newestFirst = (presets: FilterPreset[]) => [...presets].sort((a, b) => b.createdAt - a.createdAt);
+
+// Firestore rejects undefined; FilterItems built in the UI often carry it.
+const cleanFilter = (filter: FilterItem): FilterItem => {
+  const out: FilterItem = { type: filter.type, value: filter.value };
+  if (filter.negate) out.negate = true;
+  if (filter.anyOf) out.anyOf = filter.anyOf.map(cleanFilter);
+  if (filter.userId) out.userId = filter.userId;
+  if (filter.userPhoto) out.userPhoto = filter.userPhoto;
+  return out;
+};
+
+/**
+ * Flatten a preset into the filters + ratings applyHomeFilters expects,
+ * folding searchText back in through the query parser.
+ */
+export const resolveFilterPreset = (
+  state: FilterPresetState,
+): { filters: FilterItem[] | null; ratings: number[] | null } => {
+  let filters = [...state.filters];
+  let ratings = state.ratings && state.ratings.length > 0 ? state.ratings : null;
+  if (state.searchText && state.searchText.trim()) {
+    const parsed = parsePassportQuery(state.searchText);
+    filters = [...filters, ...parsed.filters];
+    if (parsed.ratingFilters) {
+      ratings = ratings ? ratings.filter(r => parsed.ratingFilters!.includes(r)) : parsed.ratingFilters;
+    }
+  }
+  return { filters: filters.length > 0 ? filters : null, ratings };
+};
+
+/**
+ * Build preset state from live filter state. Free-text filters are lifted
+ * into `searchText` so the preset stays readable and editable.
+ */
+export const filterPresetStateFrom = (
+  name: string,
+  filters: FilterItem[] | null,
+  ratings: number[] | null,
+  region?: FilterPresetRegion | null,
+): FilterPresetState => {
+  const all = filters || [];
+  const text = all.filter(f => f.type === 'text' && !f.negate).map(f => f.value);
+  return {
+    name,
+    filters: all.filter(f => !(f.type === 'text' && !f.negate)).map(cleanFilter),
+    ratings: ratings && ratings.length > 0 ? [...ratings] : null,
+    searchText: text.length > 0 ? text.join(' ') : undefined,
+    region: region || null,
+  };
+};
+
+// --- Firestore ---
+
+const writePresets = async (userId: string, presets: FilterPreset[]): Promise<void> => {
+  await presetsRef(userId).set({ presets });
+};
+
+/**
+ * Move presets from the public user doc into the settings doc and clear
+ * the old field. Returns what was moved.
+ */
+const migrateLegacyPresets = async (userId: string): Promise<FilterPreset[]> => {
+  const legacy: FilterPreset[] = (await userRef(userId).get()).data()?.[LEGACY_PRESETS_FIELD] || [];
+  if (legacy.length === 0) return [];
+  await writePresets(userId, legacy);
+  await userRef(userId).update({ [LEGACY_PRESETS_FIELD]: firestore.FieldValue.delete() });
+  console.log(`FilterPresetService: Moved ${legacy.length} preset(s) into settings`);
+  return legacy;
+};
+
+/**
+ * Load a user's saved presets, newest first
+ */
+export const loadFilterPresets = async (userId: string): Promise<FilterPreset[]> => {
+  try {
+    const doc = await presetsRef(userId).get();
+    if (!doc.exists) return newestFirst(await migrateLegacyPresets(userId));
+    return newestFirst(doc.data()?.presets || []);
+  } catch (error) {
+    console.error('FilterPresetService: Error loading presets:', error);
+    return [];
+  }
+};
+
+/**
+ * Live presets for a user. Returns the unsubscribe function.
+ */
+export const subscribeToFilterPresets = (
+  userId: string,
+  onUpdate: (presets: FilterPreset[]) => void,
+): (() => void) =>
+  presetsRef(userId).onSnapshot(
+    doc => {
+      if (!doc.exists) {
+        // The migration's write comes back through this listener
+        migrateLegacyPresets(userId).catch(error =>
+          console.error('FilterPresetService: Error moving legacy presets:', error),
+        );
+        onUpdate([]);
+        return;
+      }
+      onUpdate(newestFirst(doc.data()?.presets || []));
+    },
+    error => console.error('FilterPresetService: Subscription error:', error),
+  );
+
+/**
+ * Save a new preset. Saving under an existing name replaces that preset
+ * (keeping its pin), so "save again" updates rather than duplicates.
+ */
+export const saveFilterPreset = async (
+  userId: string,
+  state: FilterPresetState,
+  pinned = true,
+): Promise<FilterPreset> => {
+  const existing = await loadFilterPresets(userId);
+  const sameName = existing.find(p => p.name.toLowerCase() === state.name.toLowerCase());
+  if (!sameName && existing.length >= MAX_PRESETS) {
+    throw new Error(`You can save up to ${MAX_PRESETS} filter presets`);
+  }
+
+  const preset: FilterPreset = {
+    id: sameName?.id || `preset_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    name: state.name,
+    filters: state.filters.map(cleanFilter),
+    ratings: state.ratings,
+    pinned: sameName ? sameName.pinned : pinned,
+    createdAt: sameName?.createdAt || Date.now(),
+  };
+  if (state.searchText) preset.searchText = state.searchText;
+  if (state.region) preset.region = state.region;
+
+  try {
+    await writePresets(userId, [preset, ...existing.filter(p => p.id !== preset.id)]);
+    console.log('✅ FilterPresetService: Preset saved:', preset.name);
+    return preset;
+  } catch (error) {
+    console.error('❌ FilterPresetService: Error saving preset:', error);
+    throw error;
+  }
+};
+
+export const setFilterPresetPinned = async (
+  userId: string,
+  presetId: string,
+  pinned: boolean,
+): Promise<void> => {
+  const existing = await loadFilterPresets(userId);
+  await writePresets(userId, existing.map(p => (p.id === presetId ? { ...p, pinned } : p)));
+};
+
+export const deleteFilterPreset = async (userId: string, presetId: string): Promise<void> => {
+  try {
+    const existing = await loadFilterPresets(userId);
+    await writePresets(userId, existing.filter(p => p.id !== presetId));
+    console.log('✅ FilterPresetService: Preset deleted:', presetId);
+  } catch (error) {
+    console.error('❌ FilterPresetService: Error deleting preset:', error);
+    throw error;
+  }
+};
+
+// --- Share links ---
+
+/**
+ * Link that reconstructs this preset's filter state on another device.
+ * Keys are shortened to keep the URL small enough for SMS.
+ */
+export const buildFilterPresetLink = (state: FilterPresetState): string => {
+  const payload: Record<string, unknown> = {
+    n: state.name,
+    f: state.filters.filter(f => !SHAREABLE_EXCLUDED_TYPES.has(f.type)).map(cleanFilter),
+  };
+  if (state.ratings && state.ratings.length > 0) payload.r = state.ratings;
+  if (state.searchText) payload.q = state.searchText;
+  if (state.region) {
+    const { latitude, longitude, latitudeDelta, longitudeDelta } = state.region;
+    // 5 decimals ≈ 1 m — plenty for a map viewport.
+    payload.m = [latitude, longitude, latitudeDelta, longitudeDelta].map(v => Number(v.toFixed(5)));
+  }
+  return `${SHARE_LINK_BASE}?p=${encodeURIComponent(JSON.stringify(payload))}`;
+};
+
+const isFilterItem = (x: any): x is FilterItem =>
+  !!x && typeof x.type === 'string' && typeof x.value === 'string' &&
+  (x.anyOf === undefined || (Array.isArray(x.anyOf) && x.anyOf.every(isFilterItem)));
+
+/**
+ * Parse a filters share link. Returns null if the URL isn't one or the
+ * payload is malformed; anything unexpected inside is dropped, not trusted.
+ */
+export const parseFilterPresetLink = (url: string): FilterPresetState | null => {
+  const match = url.match(/filters\?(?:.*&)?p=([^&#]+)/);
+  if (!match) return null;
+  try {
+    const payload = JSON.parse(decodeURIComponent(match[1]));
+    if (!payload || typeof payload !== 'object') return null;
+
+    const filters: FilterItem[] = (Array.isArray(payload.f) ? payload.f : [])
+      .filter(isFilterItem)
+      .filter((f: FilterItem) => !SHAREABLE_EXCLUDED_TYPES.has(f.type))
+      .map(cleanFilter);
+    const ratings: number[] = (Array.isArray(payload.r) ? payload.r : [])
+      .filter((r: unknown) => typeof r === 'number' && Number.isInteger(r) && r >= 1 && r <= 6);
+    const m = Array.isArray(payload.m) && payload.m.length === 4 && payload.m.every((v: unknown) => typeof v === 'number')
+      ? payload.m
+      : null;
+
+    return {
+      name: typeof payload.n === 'string' ? payload.n.slice(0, 40) : 'Shared filters',
+      filters,
+      ratings: ratings.length > 0 ? ratings : null,
+      searchText: typeof payload.q === 'string' ? payload.q.slice(0, 200) : undefined,
+      region: m ? { latitude: m[0], longitude: m[1], latitudeDelta: m[2], longitudeDelta: m[3] } : null,
+    };
+  } catch (error) {
+    console.warn('FilterPresetService: Malformed filter link:', error);
+    return null;
+  }
+};
+
+/**
+ * Open the system share sheet with a preset's link
+ */
+export const shareFilterPreset = async (state: FilterPresetState): Promise<void> => {
+  const link = buildFilterPresetLink(state);
+  try {
+    await Share.share({
+      message: `My "${state.name}" filters on Forkful\n${link}`,
+      title: 'Filters from Forkful',
+      url: link,
+    });
+  } catch (error) {
+    console.error('FilterPresetService: Error sharing preset:', error);
+  }
+};
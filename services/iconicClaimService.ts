@@ -0,0 +1,162 @@
+/**
+ * Iconic Claim Service
+ * "Claim this iconic eat": link one of the user's existing meals to an
+ * iconic eat the automatic matcher missed.
+ *
+ * The app only proposes. It ranks the user's meals with the shared scorer
+ * (utils/iconicClaims) and creates an `iconic_claims/{id}` doc with status
+ * 'submitted'; functions/iconicClaims.js re-scores it server-side,
+ * unlocks confident claims straight away and queues the rest for review.
+ * Callers watch the claim doc to learn the outcome.
+ *
+ * The server only auto-approves on the GPS and capture time in the photo's
+ * EXIF. Cropping and filters re-encode the meal photo without them, so the
+ * capture flows also upload an untouched copy as `evidencePhotoUrl`
+ * (uploadClaimEvidencePhoto).
+ */
+
+import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import ImageResizer from 'react-native-image-resizer';
+import { firestore } from '../firebaseConfig';
+import { getUserMealEntries } from './mealRepository';
+import { OutboxSource, uploadMealPhoto } from './mealOutboxService';
+import type { IconicEat } from './iconicEatsService';
+import type { MealEntry } from '../types/mealEntry';
+import {
+  IconicClaimScore,
+  IconicClaimSignals,
+  IconicClaimStatus,
+  rankClaimCandidates,
+  scoreIconicClaim,
+} from '../utils/iconicClaims';
+
+export interface IconicClaim {
+  id: string;
+  userId: string;
+  eatId: string;
+  mealId: string;
+  status: IconicClaimStatus;
+  score: number | null; // server score, once decided
+  signals: IconicClaimSignals | null;
+  reason: string | null;
+  createdAt: Date | null;
+  decidedAt: Date | null;
+}
+
+const CANDIDATE_LIMIT = 10;
+// Longest side of the evidence copy; only its EXIF is ever read
+const EVIDENCE_PHOTO_SIZE = 640;
+// At most one claim per user and eat in these (functions/iconicClaims.js)
+const ACTIVE_STATUSES: IconicClaimStatus[] = ['submitted', 'pending_review', 'approved'];
+
+const claimsRef = () => firestore().collection('iconic_claims');
+
+const toDate = (value: any): Date | null => (value?.toDate ? value.toDate() : null);
+
+const docToClaim = (doc: FirebaseFirestoreTypes.DocumentSnapshot): IconicClaim | null => {
+  const data = doc.data();
+  if (!doc.exists || !data) return null;
+  return {
+    id: doc.id,
+    userId: data.userId,
+    eatId: data.eatId,
+    mealId: data.mealId,
+    status: data.status,
+    score: typeof data.score === 'number' ? data.score : null,
+    signals: data.signals || null,
+    reason: data.reason || null,
+    createdAt: toDate(data.createdAt),
+    decidedAt: toDate(data.decidedAt),
+  };
+};
+
+/**
+ * Upload a small copy of the photo as it was taken, EXIF kept, and write
+ * its URL to the meal's `evidencePhotoUrl`. Goes through the outbox like
+ * the meal photo itself.
+ */
+export const uploadClaimEvidencePhoto = async (
+  source: OutboxSource,
+  mealId: string,
+  userId: string,
+  originalUri: string,
+): Promise<string | null> => {
+  const copy = await ImageResizer.createResizedImage(
+    originalUri,
+    EVIDENCE_PHOTO_SIZE,
+    EVIDENCE_PHOTO_SIZE,
+    'JPEG',
+    70,
+    0,
+    undefined,
+    true, // Keep metadata
+    { mode: 'contain', onlyScaleDown: true },
+  );
+  return uploadMealPhoto(source, mealId, userId, copy.uri, ['evidencePhotoUrl']);
+};
+
+/** The user's meals that could be this eat, most likely first. */
+export const getIconicClaimCandidates = async (
+  userId: string,
+  eat: IconicEat,
+): Promise<{ meal: MealEntry; claim: IconicClaimScore }[]> => {
+  try {
+    const meals = await getUserMealEntries(userId);
+    return rankClaimCandidates(meals, eat, CANDIDATE_LIMIT);
+  } catch (error) {
+    console.error('IconicClaimService: Error ranking claim candidates:', error);
+    return [];
+  }
+};
+
+const activeClaimQuery = (userId: string, eatId: string) =>
+  claimsRef()
+    .where('userId', '==', userId)
+    .where('eatId', '==', eatId)
+    .where('status', 'in', ACTIVE_STATUSES)
+    .limit(1);
+
+/** A claim for this eat that's waiting on a decision or was approved, if any. */
+export const getActiveIconicClaim = async (userId: string, eatId: string): Promise<IconicClaim | null> => {
+  try {
+    const snapshot = await activeClaimQuery(userId, eatId).get();
+    return snapshot.empty ? null : docToClaim(snapshot.docs[0]);
+  } catch (error) {
+    console.error('IconicClaimService: Error fetching active claim:', error);
+    return null;
+  }
+};
+
+/**
+ * Submit a claim that `meal` is `eat`, or return the user's active claim
+ * for it. The client score is kept on the doc for comparison only; the
+ * server's decides, and closes a claim racing another as a duplicate.
+ */
+export const submitIconicClaim = async (userId: string, eat: IconicEat, meal: MealEntry): Promise<string> => {
+  const active = await activeClaimQuery(userId, eat.id).get();
+  if (!active.empty) {
+    console.log(`IconicClaimService: ${eat.id} already has claim ${active.docs[0].id}`);
+    return active.docs[0].id;
+  }
+  const docRef = await claimsRef().add({
+    userId,
+    eatId: eat.id,
+    mealId: meal.id,
+    status: 'submitted',
+    clientScore: scoreIconicClaim(meal, eat).score,
+    createdAt: firestore.FieldValue.serverTimestamp(),
+  });
+  console.log(`IconicClaimService: Claim ${docRef.id} submitted for ${eat.id} with meal ${meal.id}`);
+  return docRef.id;
+};
+
+export const subscribeToIconicClaim = (
+  claimId: string,
+  onUpdate: (claim: IconicClaim | null) => void,
+): (() => void) =>
+  claimsRef()
+    .doc(claimId)
+    .onSnapshot(
+      doc => onUpdate(docToClaim(doc)),
+      error => console.error('IconicClaimService: claim subscription error:', error),
+    );
@@ -1,6 +1,14 @@
 import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
 import { GOOGLE_MAPS_API_KEY } from '../config/googleMapsConfig';
 import { dishNamesMatch } from '../utils/iconicMatching';
+import type { IconicChecklist } from '../utils/iconicChecklists';
+import {
+  GeoBounds,
+  boundingBoxForRadius,
+  geohashCellsForBounds,
+  haversineKm,
+  isInBounds,
+} from '../utils/geohash';
 
 export interface IconicEat {
   id: string;
@@ -22,33 +30,92 @@ export interface IconicEat {
   active: boolean;
   latitude: number;
   longitude: number;
-  distance?: number; // km from user, injected after Haversine
+  distance?: number; // km from user / map center, injected after Haversine
   unlocked: boolean; // injected from user's unlocked_iconic_eats
 }
 
-function haversineKm(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number,
-): number {
-  const R = 6371;
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) ** 2;
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+/**
+ * Fetch every iconic eat whose geohash falls inside each of `cells` (geohash
+ * prefixes, see utils/geohash). One range query per cell; results are keyed
+ * by cell so callers can cache them and only fetch cells they haven't seen.
+ *
+ * `active` is filtered here rather than in the query so the range on
+ * `geohash` needs no composite index. Docs without a geohash (not yet
+ * backfilled — scripts/backfillIconicGeohash.js) are invisible to this path.
+ */
+export async function fetchIconicEatsInCells(
+  cells: string[],
+): Promise<Map<string, IconicEat[]>> {
+  const snapshots = await Promise.all(
+    cells.map(cell =>
+      firestore()
+        .collection('best_eats')
+        .orderBy('geohash')
+        .startAt(cell)
+        .endAt(`${cell}\uf8ff`)
+        .get(),
+    ),
+  );
+
+  const byCell = new Map<string, IconicEat[]>();
+  snapshots.forEach((snapshot, i) => {
+    const eats: IconicEat[] = [];
+    snapshot.forEach(doc => {
+      const data = doc.data();
+      if (data.active !== true) return;
+      const eat = docToIconicEat(doc.id, data);
+      if (eat) eats.push(eat);
+    });
+    byCell.set(cells[i], eats);
+  });
+  return byCell;
+}
+
+/**
+ * Sort iconic eats inside `bounds` by distance from `center`, nearest
+ * first. Eats may come from overlapping cells, so duplicates are dropped.
+ */
+export function rankIconicEatsInBounds(
+  eats: IconicEat[],
+  bounds: GeoBounds,
+  center: { latitude: number; longitude: number },
+  limit: number,
+): IconicEat[] {
+  const seen = new Set<string>();
+  const results: IconicEat[] = [];
+  eats.forEach(eat => {
+    if (seen.has(eat.id) || !isInBounds(eat.latitude, eat.longitude, bounds)) return;
+    seen.add(eat.id);
+    results.push({
+      ...eat,
+      distance: haversineKm(center.latitude, center.longitude, eat.latitude, eat.longitude),
+    });
+  });
+  results.sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0));
+  return results.slice(0, limit);
+}
+
+/**
+ * Fetch active iconic eats inside a bounding box (e.g. the visible map
+ * region), sorted by distance from `center`. Only the geohash cells that
+ * cover the box are queried.
+ */
+export async function fetchIconicEatsInBounds(
+  bounds: GeoBounds,
+  center: { latitude: number; longitude: number },
+  limit: number,
+): Promise<IconicEat[]> {
+  const byCell = await fetchIconicEatsInCells(geohashCellsForBounds(bounds));
+  const all: IconicEat[] = [];
+  byCell.forEach(eats => all.push(...eats));
+  return rankIconicEatsInBounds(all, bounds, center, limit);
 }
 
 /**
  * Fetch all active iconic eats within radiusKm of the given coords,
  * sorted by distance ascending. Returns up to `limit` items.
- * Note: Firestore doesn't support geo-queries natively, so we fetch all
- * `active == true` docs and filter client-side. Acceptable while the
- * collection is small (hundreds). Revisit with geo-hashing if it grows.
+ * Queries the geohash cells covering the radius's bounding box, then trims
+ * the box's corners with a true distance check.
  */
 export async function fetchNearbyIconicEats(
   lat: number,
@@ -56,50 +123,12 @@ export async function fetchNearbyIconicEats(
   radiusKm: number,
   limit: number,
 ): Promise<IconicEat[]> {
-  const snapshot = await firestore()
-    .collection('best_eats')
-    .where('active', '==', true)
-    .get();
-
-  const results: IconicEat[] = [];
-  snapshot.forEach(doc => {
-    const data = doc.data();
-    const geo = data.location as
-      | FirebaseFirestoreTypes.GeoPoint
-      | { latitude: number; longitude: number }
-      | undefined;
-    if (!geo) return;
-    const eatLat = (geo as any).latitude;
-    const eatLon = (geo as any).longitude;
-    if (typeof eatLat !== 'number' || typeof eatLon !== 'number') return;
-
-    const distance = haversineKm(lat, lon, eatLat, eatLon);
-    if (distance > radiusKm) return;
-
-    results.push({
-      id: doc.id,
-      dish_name: data.dish_name,
-      restaurant_name: data.restaurant_name,
-      why_selected: data.why_selected,
-      place_id: data.place_id,
-      formatted_address: data.formatted_address,
-      photo_references: data.photo_references || [],
-      google_rating: data.google_rating,
-      website: data.website,
-      emoji_url: data.emoji_url,
-      shadow_emoji_url: data.shadow_emoji_url,
-      category: data.category,
-      city: data.city,
-      active: data.active,
-      latitude: eatLat,
-      longitude: eatLon,
-      distance,
-      unlocked: false,
-    });
-  });
-
-  results.sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0));
-  return results.slice(0, limit);
+  const inBox = await fetchIconicEatsInBounds(
+    boundingBoxForRadius(lat, lon, radiusKm),
+    { latitude: lat, longitude: lon },
+    Number.MAX_SAFE_INTEGER,
+  );
+  return inBox.filter(eat => (eat.distance ?? 0) <= radiusKm).slice(0, limit);
 }
 
 /**
@@ -161,6 +190,31 @@ export function subscribeToUnlockedIconicEats(
     );
 }
 
+/**
+ * Fetch the checklists for a city from `iconic_checklists` (built from
+ * best_eats by scripts/syncIconicChecklists.js): the whole-city list first,
+ * then one per category. Progress is worked out by the caller from the
+ * user's unlocked set (utils/iconicChecklists.checklistProgress).
+ */
+export async function fetchIconicChecklists(city: string): Promise<IconicChecklist[]> {
+  const snap = await firestore()
+    .collection('iconic_checklists')
+    .where('city', '==', city.toLowerCase().trim())
+    .get();
+  return snap.docs
+    .map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        city: data.city,
+        category: data.category || null,
+        title: data.title,
+        items: data.items || [],
+      };
+    })
+    .sort((a, b) => Number(a.category !== null) - Number(b.category !== null) || a.title.localeCompare(b.title));
+}
+
 /**
  * Map a Firestore best_eats doc to an IconicEat. Shared between query paths.
  */
@@ -187,6 +241,7 @@ function docToIconicEat(
     website: data.website,
     emoji_url: data.emoji_url,
     shadow_emoji_url: data.shadow_emoji_url,
+    category: data.category,
     city: data.city,
     active: data.active,
     latitude: eatLat,
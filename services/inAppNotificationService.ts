@@ -1,10 +1,20 @@
 import { firebase, firestore, auth } from '../firebaseConfig';
 import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { getNotificationPreferences, isChannelEnabled } from './notificationPreferencesService';
 
 export interface InAppNotification {
   id: string;
   userId: string;
-  type: 'comment' | 'cheers' | 'follow' | 'challenge_completed';
+  type:
+    | 'comment'
+    | 'reply'
+    | 'mention'
+    | 'cheers'
+    | 'follow'
+    | 'challenge_completed'
+    | 'critic_awarded'
+    | 'critic_revoked'
+    | 'weekly_recap';
   fromUser: {
     id: string;
     name: string;
@@ -14,8 +24,11 @@ export interface InAppNotification {
   mealName?: string;
   commentId?: string;
   commentText?: string;
+  weekKey?: string; // weekly_recap: the recap to open
   message: string;
   read: boolean;
+  // false when the recipient only wants this type as a push or in the digest
+  inApp?: boolean;
   createdAt: FirebaseFirestoreTypes.Timestamp | Date;
 }
 
@@ -40,6 +53,15 @@ class InAppNotificationService {
         return;
       }
 
+      // Respect the recipient's per-type channels; with every channel off
+      // there's nothing to deliver
+      const prefs = await getNotificationPreferences(toUserId);
+      const inApp = isChannelEnabled(prefs, type, 'inApp');
+      if (!inApp && !isChannelEnabled(prefs, type, 'push') && !isChannelEnabled(prefs, type, 'digest')) {
+        console.log(`Skipping ${type} notification: disabled by recipient`);
+        return;
+      }
+
       // Generate message based on type
       let message = data.customMessage || '';
       if (!message) {
@@ -47,6 +69,12 @@ class InAppNotificationService {
           case 'comment':
             message = `${data.fromUser.name} commented on your ${data.mealName || 'meal'}`;
             break;
+          case 'reply':
+            message = `${data.fromUser.name} replied to your comment on ${data.mealName || 'a meal'}`;
+            break;
+          case 'mention':
+            message = `${data.fromUser.name} mentioned you in a comment on ${data.mealName || 'a meal'}`;
+            break;
           case 'cheers':
             message = `${data.fromUser.name} cheered your ${data.mealName || 'meal'}`;
             break;
@@ -69,6 +97,7 @@ class InAppNotificationService {
         commentText: data.commentText,
         message,
         read: false,
+        inApp,
         createdAt: firestore.FieldValue.serverTimestamp() as FirebaseFirestoreTypes.Timestamp,
       };
 
@@ -92,7 +121,7 @@ class InAppNotificationService {
       .where('read', '==', false)
       .onSnapshot(
         snapshot => {
-          callback(snapshot.size);
+          callback(snapshot.docs.filter(doc => doc.data().inApp !== false).length);
         },
         error => {
           console.error('Error getting unread notifications:', error);
@@ -207,6 +236,21 @@ class InAppNotificationService {
     }
   }
 
+  // Mark a group of notifications as read in one batch
+  async markManyAsRead(notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) return;
+    try {
+      const batch = firestore().batch();
+      notificationIds.forEach(id => {
+        batch.update(firestore().collection('notifications').doc(id), { read: true });
+      });
+      await batch.commit();
+      console.log(`✅ Marked ${notificationIds.length} notifications as read`);
+    } catch (error) {
+      console.error('❌ Error marking notifications as read:', error);
+    }
+  }
+
   // Mark all notifications as read for a user
   async markAllAsRead(userId: string): Promise<void> {
     try {
@@ -0,0 +1,195 @@
+/**
+ * Leaderboard Service
+ * Reads the city / cuisine / global leaderboards that the nightly rebuild
+ * (functions/leaderboards.js) writes to `leaderboards/{boardId}` and its
+ * `entries` subcollection, and manages the user's leaderboard opt-out.
+ *
+ * Board ids are `${scope}__${slug(key)}__${periodKey}` — built here with the
+ * same slug and period rules as the Cloud Function, so the client can open
+ * "this week in Portland" without a lookup.
+ */
+
+import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { firestore } from '../firebaseConfig';
+
+export type LeaderboardScope = 'global' | 'city' | 'cuisine';
+export type LeaderboardPeriod = 'weekly' | 'monthly' | 'all';
+export type GlobalLeaderboardMetric = 'cuisines' | 'restaurants';
+
+export interface Leaderboard {
+  id: string;
+  scope: LeaderboardScope;
+  key: string;
+  label: string;
+  period: LeaderboardPeriod;
+  periodKey: string;
+  entryCount: number;
+  participantCount: number;
+  computedAt: Date | null;
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  displayName: string;
+  photoURL: string | null;
+  score: number;
+  rank: number; // shared on ties (1, 2, 2, 4)
+  position: number; // unique list order, used for paging
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  cursor: number | null; // last position on this page
+  hasMore: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export const slugifyLeaderboardKey = (value: string): string =>
+  value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// ISO-8601 week in UTC, e.g. "2026-W42" — matches isoWeekKey server-side.
+const isoWeekKey = (date: Date): string => {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((d.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+export const leaderboardPeriodKey = (period: LeaderboardPeriod, date: Date = new Date()): string => {
+  if (period === 'weekly') return isoWeekKey(date);
+  if (period === 'monthly') {
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+  return 'all';
+};
+
+/**
+ * Id of the board for `key` (a city, a cuisine, or a global metric) in the
+ * period containing `date`.
+ */
+export const leaderboardId = (
+  scope: LeaderboardScope,
+  key: string,
+  period: LeaderboardPeriod,
+  date: Date = new Date(),
+): string => `${scope}__${slugifyLeaderboardKey(key)}__${leaderboardPeriodKey(period, date)}`;
+
+const docToEntry = (doc: FirebaseFirestoreTypes.DocumentSnapshot): LeaderboardEntry => {
+  const data = doc.data() || {};
+  return {
+    userId: data.userId || doc.id,
+    displayName: data.displayName || 'Foodie',
+    photoURL: data.photoURL || null,
+    score: data.score || 0,
+    rank: data.rank || 0,
+    position: data.position || 0,
+  };
+};
+
+/**
+ * Board metadata, or null if the board hasn't been built (nobody has
+ * logged anything for it this period).
+ */
+export const getLeaderboard = async (id: string): Promise<Leaderboard | null> => {
+  try {
+    const doc = await firestore().collection('leaderboards').doc(id).get();
+    const data = doc.data();
+    if (!doc.exists || !data) return null;
+    return {
+      id,
+      scope: data.scope,
+      key: data.key,
+      label: data.label || data.key,
+      period: data.period,
+      periodKey: data.periodKey,
+      entryCount: data.entryCount || 0,
+      participantCount: data.participantCount || 0,
+      computedAt: data.computed_at?.toDate ? data.computed_at.toDate() : null,
+    };
+  } catch (error) {
+    console.error('LeaderboardService: Error fetching leaderboard:', error);
+    return null;
+  }
+};
+
+/**
+ * One page of a board in rank order. Pass the previous page's cursor to
+ * continue.
+ */
+export const getLeaderboardPage = async (
+  id: string,
+  { pageSize = DEFAULT_PAGE_SIZE, cursor = null }: { pageSize?: number; cursor?: number | null } = {},
+): Promise<LeaderboardPage> => {
+  try {
+    let query = firestore()
+      .collection('leaderboards')
+      .doc(id)
+      .collection('entries')
+      .orderBy('position')
+      .limit(pageSize + 1);
+    if (cursor !== null) {
+      query = query.startAfter(cursor);
+    }
+    const snapshot = await query.get();
+    const entries = snapshot.docs.slice(0, pageSize).map(docToEntry);
+    return {
+      entries,
+      cursor: entries.length > 0 ? entries[entries.length - 1].position : cursor,
+      hasMore: snapshot.docs.length > pageSize,
+    };
+  } catch (error) {
+    console.error('LeaderboardService: Error fetching leaderboard page:', error);
+    return { entries: [], cursor, hasMore: false };
+  }
+};
+
+/**
+ * A single user's standing on a board, or null if unranked / opted out.
+ */
+export const getLeaderboardEntry = async (id: string, userId: string): Promise<LeaderboardEntry | null> => {
+  try {
+    const doc = await firestore()
+      .collection('leaderboards')
+      .doc(id)
+      .collection('entries')
+      .doc(userId)
+      .get();
+    return doc.exists ? docToEntry(doc) : null;
+  } catch (error) {
+    console.error('LeaderboardService: Error fetching leaderboard entry:', error);
+    return null;
+  }
+};
+
+export const getLeaderboardOptOut = async (userId: string): Promise<boolean> => {
+  try {
+    const doc = await firestore().collection('users').doc(userId).get();
+    return doc.data()?.leaderboardOptOut === true;
+  } catch (error) {
+    console.error('LeaderboardService: Error reading opt-out:', error);
+    return false;
+  }
+};
+
+/**
+ * Opting out removes the user from every board right away (a Cloud Function
+ * cleans up their entries); opting back in takes effect at the next nightly
+ * rebuild.
+ */
+export const setLeaderboardOptOut = async (userId: string, optOut: boolean): Promise<boolean> => {
+  try {
+    await firestore().collection('users').doc(userId).set({ leaderboardOptOut: optOut }, { merge: true });
+    console.log(`LeaderboardService: leaderboardOptOut=${optOut} for ${userId}`);
+    return true;
+  } catch (error) {
+    console.error('LeaderboardService: Error updating opt-out:', error);
+    return false;
+  }
+};
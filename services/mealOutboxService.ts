@@ -0,0 +1,405 @@
+/**
+ * mealOutboxService — persistent local outbox for meal writes.
+ *
+ * The three meal write paths (CameraScreen's Path 1 unrated save,
+ * RatingScreen2.saveRating and EditMealScreen.saveMeal) used to assume a
+ * live connection: an offline `add()` or `update()` threw, and the captured
+ * photo (sitting in a temp dir that ResourceManager sweeps) was lost.
+ *
+ * Every write now goes through this module:
+ *   - Meal ids are generated client-side (`newMealId`) so a create is a
+ *     `set()` and replaying it is idempotent — no id remapping needed.
+ *   - A write is attempted live with a short timeout. If it fails, or if
+ *     anything is already waiting in the outbox, it's appended to a FIFO
+ *     persisted in AsyncStorage so ordering is preserved across restarts.
+ *   - Photos waiting to upload are copied into the documents dir first.
+ *   - `flushOutbox` replays entries in order. A failure holds back the rest
+ *     of that meal's entries but not other meals'; `startOutboxSync`
+ *     re-flushes on app foreground and on an interval.
+ *   - Replays never clobber newer data: a queued create only lands if the
+ *     doc doesn't exist yet, and a queued update is dropped if the doc was
+ *     updated after it was queued (its `updatedAt` is stamped with the
+ *     time the user made the change, not the time it synced).
+ *   - Every change to the persisted queue goes through `mutateEntries`, so
+ *     an enqueue during a flush can't be overwritten by the flush.
+ *
+ * Only serverTimestamp(), delete(), Dates, Timestamps and GeoPoints are
+ * supported inside queued data (utils/outboxCodec). Increments and array
+ * unions aren't idempotent on replay, so encoding them throws rather than
+ * silently double-counting.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import RNFS from 'react-native-fs';
+import { firestore } from '../firebaseConfig';
+import { uploadImageToFirebase } from './imageUploadService';
+import { createOutboxCodec, EncodedData } from '../utils/outboxCodec';
+
+export type OutboxSource = 'camera' | 'rating' | 'edit';
+
+export type OutboxOp =
+  | { kind: 'set'; mealId: string; data: EncodedData }
+  | { kind: 'update'; mealId: string; data: EncodedData }
+  | {
+      kind: 'uploadPhoto';
+      mealId: string;
+      userId: string;
+      localPath: string;
+      // Meal fields that receive the download URL once the upload succeeds.
+      fields: string[];
+    };
+
+export interface OutboxEntry {
+  id: string;
+  source: OutboxSource;
+  op: OutboxOp;
+  enqueuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+/**
+ * 'pending' — waiting for connectivity.
+ * 'error'   — has failed repeatedly; still retried, but worth surfacing.
+ */
+export type MealSyncStatus = 'pending' | 'error';
+
+const STORAGE_KEY = '@meal_outbox_v1';
+const OUTBOX_DIR = `${RNFS.DocumentDirectoryPath}/meal_outbox`;
+const LIVE_WRITE_TIMEOUT_MS = 8000;
+const REPLAY_TIMEOUT_MS = LIVE_WRITE_TIMEOUT_MS * 4;
+const UPLOAD_TIMEOUT_MS = 60000;
+const ERROR_AFTER_ATTEMPTS = 3;
+const SYNC_INTERVAL_MS = 30000;
+
+// Queued data must survive JSON.stringify (utils/outboxCodec)
+const { encodeData, decodeValue } = createOutboxCodec(firestore);
+
+// =============================================================================
+// Persistence + listeners
+// =============================================================================
+
+let entriesCache: OutboxEntry[] | null = null;
+let flushing: Promise<void> | null = null;
+let entriesLock: Promise<unknown> = Promise.resolve();
+const listeners = new Set<(entries: OutboxEntry[]) => void>();
+
+async function loadEntries(): Promise<OutboxEntry[]> {
+  if (entriesCache) return entriesCache;
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    entriesCache = raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+  } catch (err) {
+    console.warn('[mealOutbox] load error:', err);
+    entriesCache = [];
+  }
+  return entriesCache;
+}
+
+async function saveEntries(entries: OutboxEntry[]): Promise<void> {
+  entriesCache = entries;
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (err) {
+    console.warn('[mealOutbox] save error:', err);
+  }
+  listeners.forEach(cb => cb(entries));
+}
+
+/**
+ * Read-modify-write the queue. Calls are serialized, and each sees the
+ * result of the previous one, so concurrent enqueues and replay
+ * bookkeeping never overwrite each other.
+ */
+function mutateEntries(fn: (entries: OutboxEntry[]) => OutboxEntry[]): Promise<OutboxEntry[]> {
+  const run = entriesLock.then(async () => {
+    const next = fn(await loadEntries());
+    await saveEntries(next);
+    return next;
+  });
+  entriesLock = run.catch(() => {});
+  return run;
+}
+
+async function appendEntry(source: OutboxSource, op: OutboxOp): Promise<void> {
+  const entry: OutboxEntry = {
+    id: `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+    source,
+    op,
+    enqueuedAt: Date.now(),
+    attempts: 0,
+  };
+  console.log(`📥 [mealOutbox] Queued ${op.kind} for meal ${op.mealId} (${source})`);
+  await mutateEntries(entries => [...entries, entry]);
+}
+
+/**
+ * Copy a photo out of temp storage so it outlives ResourceManager's sweep
+ * and app restarts. Returns the persistent path.
+ */
+async function persistPhoto(mealId: string, localUri: string): Promise<string> {
+  const source = localUri.replace('file://', '');
+  if (source.startsWith(OUTBOX_DIR)) return source;
+  if (!(await RNFS.exists(OUTBOX_DIR))) {
+    await RNFS.mkdir(OUTBOX_DIR);
+  }
+  const target = `${OUTBOX_DIR}/${mealId}_${Date.now()}.jpg`;
+  await RNFS.copyFile(source, target);
+  return target;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+      v => {
+        clearTimeout(timer);
+        resolve(v);
+      },
+      e => {
+        clearTimeout(timer);
+        reject(e);
+      },
+    );
+  });
+}
+
+async function runOp(op: OutboxOp): Promise<string | null> {
+  const ref = firestore().collection('mealEntries').doc(op.mealId);
+  switch (op.kind) {
+    case 'set':
+      await ref.set(decodeValue(op.data) as Record<string, unknown>);
+      return null;
+    case 'update':
+      await ref.update(decodeValue(op.data) as Record<string, unknown>);
+      return null;
+    case 'uploadPhoto': {
+      const url = await withTimeout(uploadImageToFirebase(op.localPath, op.userId), UPLOAD_TIMEOUT_MS);
+      const fields: Record<string, string> = {};
+      op.fields.forEach(f => {
+        fields[f] = url;
+      });
+      await ref.update(fields);
+      if (op.localPath.startsWith(OUTBOX_DIR)) {
+        RNFS.unlink(op.localPath).catch(() => {});
+      }
+      return url;
+    }
+  }
+}
+
+const toMillis = (value: any): number | null =>
+  value?.toMillis ? value.toMillis() : value instanceof Date ? value.getTime() : null;
+
+/**
+ * Replay a queued entry without overwriting anything newer than it: a set
+ * becomes create-if-missing (a live attempt that timed out may have landed)
+ * and an update is skipped when the doc changed after it was queued.
+ * Returns false when the entry was superseded and dropped.
+ */
+async function replayEntry(entry: OutboxEntry): Promise<boolean> {
+  const { op } = entry;
+  if (op.kind === 'uploadPhoto') {
+    await runOp(op);
+    return true;
+  }
+  const ref = firestore().collection('mealEntries').doc(op.mealId);
+  const data = decodeValue(op.data) as Record<string, unknown>;
+  if ('updatedAt' in data) {
+    data.updatedAt = new Date(entry.enqueuedAt);
+  }
+  return firestore().runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (op.kind === 'set') {
+      if (snapshot.exists) return false;
+      transaction.set(ref, data);
+      return true;
+    }
+    const updatedAt = toMillis(snapshot.data()?.updatedAt);
+    if (!snapshot.exists || (updatedAt !== null && updatedAt > entry.enqueuedAt)) return false;
+    transaction.update(ref, data);
+    return true;
+  });
+}
+
+/**
+ * Try an op live unless the outbox already holds work (ordering wins over
+ * latency). On failure the op is queued. Returns the op result when it ran
+ * live, or undefined when it was queued.
+ */
+async function writeOrQueue(
+  source: OutboxSource,
+  op: OutboxOp,
+): Promise<{ queued: boolean; result?: string | null }> {
+  const entries = await loadEntries();
+  if (entries.length === 0) {
+    try {
+      const result = await withTimeout(runOp(op), LIVE_WRITE_TIMEOUT_MS);
+      return { queued: false, result };
+    } catch (err) {
+      console.warn(`⚠️ [mealOutbox] Live ${op.kind} failed, queueing:`, err);
+    }
+  }
+  await appendEntry(source, op);
+  flushOutbox();
+  return { queued: true };
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/** Generate a meal document id locally — works with no connectivity. */
+export const newMealId = (): string => firestore().collection('mealEntries').doc().id;
+
+/** Create a meal doc at `mealId`. Resolves true if queued for later sync. */
+export const createMeal = async (
+  source: OutboxSource,
+  mealId: string,
+  data: Record<string, unknown>,
+): Promise<boolean> => {
+  const { queued } = await writeOrQueue(source, {
+    kind: 'set',
+    mealId,
+    data: encodeData(data),
+  });
+  return queued;
+};
+
+/** Update a meal doc. Resolves true if queued for later sync. */
+export const updateMeal = async (
+  source: OutboxSource,
+  mealId: string,
+  data: Record<string, unknown>,
+): Promise<boolean> => {
+  const { queued } = await writeOrQueue(source, {
+    kind: 'update',
+    mealId,
+    data: encodeData(data),
+  });
+  return queued;
+};
+
+/**
+ * Upload a meal photo and write its URL onto `fields` of the meal doc.
+ * Resolves the download URL when it ran live, or null when the photo was
+ * copied into the outbox to be uploaded once the network is back.
+ */
+export const uploadMealPhoto = async (
+  source: OutboxSource,
+  mealId: string,
+  userId: string,
+  localUri: string,
+  fields: string[] = ['photoUrl', 'imageUrl'],
+): Promise<string | null> => {
+  const entries = await loadEntries();
+  if (entries.length === 0) {
+    try {
+      return await withTimeout(
+        runOp({ kind: 'uploadPhoto', mealId, userId, localPath: localUri, fields }),
+        UPLOAD_TIMEOUT_MS,
+      );
+    } catch (err) {
+      console.warn('⚠️ [mealOutbox] Live photo upload failed, queueing:', err);
+    }
+  }
+  const localPath = await persistPhoto(mealId, localUri);
+  await appendEntry(source, { kind: 'uploadPhoto', mealId, userId, localPath, fields });
+  flushOutbox();
+  return null;
+};
+
+/**
+ * Replay queued entries in order. A failed entry holds back the later
+ * entries for the same meal (so they never land before it) but not other
+ * meals'. Entries are removed by id as they succeed, so anything enqueued
+ * mid-flush is kept. Concurrent calls share one run.
+ */
+export const flushOutbox = (): Promise<void> => {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    try {
+      const blocked = new Set<string>();
+      const tried = new Set<string>();
+      for (;;) {
+        const entries = await loadEntries();
+        const head = entries.find(e => !tried.has(e.id) && !blocked.has(e.op.mealId));
+        if (!head) break;
+        tried.add(head.id);
+        try {
+          const applied = await withTimeout(
+            replayEntry(head),
+            head.op.kind === 'uploadPhoto' ? UPLOAD_TIMEOUT_MS + REPLAY_TIMEOUT_MS : REPLAY_TIMEOUT_MS,
+          );
+          console.log(
+            applied
+              ? `✅ [mealOutbox] Synced ${head.op.kind} for meal ${head.op.mealId}`
+              : `⏭️ [mealOutbox] Dropped ${head.op.kind} for meal ${head.op.mealId}: superseded by a newer write`,
+          );
+          await mutateEntries(current => current.filter(e => e.id !== head.id));
+        } catch (err: any) {
+          console.warn(`⚠️ [mealOutbox] Replay of ${head.op.kind} failed:`, err);
+          blocked.add(head.op.mealId);
+          await mutateEntries(current =>
+            current.map(e =>
+              e.id === head.id ? { ...e, attempts: e.attempts + 1, lastError: err?.message || String(err) } : e,
+            ),
+          );
+        }
+      }
+    } finally {
+      flushing = null;
+    }
+  })();
+  return flushing;
+};
+
+/**
+ * Flush on app foreground and every SYNC_INTERVAL_MS while something is
+ * queued. Call once at app start; returns a cleanup fn.
+ */
+export const startOutboxSync = (): (() => void) => {
+  flushOutbox();
+  const onAppState = (state: AppStateStatus) => {
+    if (state === 'active') flushOutbox();
+  };
+  const subscription = AppState.addEventListener('change', onAppState);
+  const interval = setInterval(() => {
+    if (entriesCache && entriesCache.length > 0) flushOutbox();
+  }, SYNC_INTERVAL_MS);
+  return () => {
+    subscription.remove();
+    clearInterval(interval);
+  };
+};
+
+/** Sync status per meal id, derived from the queued entries. */
+export const getMealSyncStatuses = (
+  entries: OutboxEntry[],
+): Record<string, MealSyncStatus> => {
+  const statuses: Record<string, MealSyncStatus> = {};
+  entries.forEach(entry => {
+    const { mealId } = entry.op;
+    if (entry.attempts >= ERROR_AFTER_ATTEMPTS) {
+      statuses[mealId] = 'error';
+    } else if (!statuses[mealId]) {
+      statuses[mealId] = 'pending';
+    }
+  });
+  return statuses;
+};
+
+/**
+ * Subscribe to outbox changes. Emits the current per-meal statuses
+ * immediately, then on every enqueue/replay. Returns an unsubscribe fn.
+ */
+export const subscribeToMealSyncStatus = (
+  callback: (statuses: Record<string, MealSyncStatus>) => void,
+): (() => void) => {
+  const listener = (entries: OutboxEntry[]) => callback(getMealSyncStatuses(entries));
+  listeners.add(listener);
+  loadEntries().then(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,185 @@
+/**
+ * Meal Repository
+ * Typed access to the `mealEntries` collection. Screens and services should
+ * go through these functions instead of calling
+ * firestore().collection('mealEntries') directly, so every read is shaped
+ * into a MealEntry in one place and writes are checked against the model.
+ *
+ * RN Firebase has no withConverter(), so mealFromSnapshot / mealToFirestore
+ * play that role.
+ */
+
+import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { firestore } from '../firebaseConfig';
+import type { MealEntry, NewMealEntry } from '../types/mealEntry';
+
+const MEALS_COLLECTION = 'mealEntries';
+
+// Any field may be written as a FieldValue (serverTimestamp, increment, ...).
+export type MealEntryWrite = {
+  [K in keyof NewMealEntry]?: NewMealEntry[K] | FirebaseFirestoreTypes.FieldValue;
+};
+
+export interface MealQuery {
+  userId?: string;
+  // Only meals with rating > 0 (i.e. hide unrated camera captures).
+  ratedOnly?: boolean;
+  // Firestore leaves out docs missing the ordered field, so ordering by
+  // createdAt skips meals that never got one. Don't use it where every
+  // meal must come back (getUserMealEntries sorts client-side instead).
+  orderBy?: 'createdAt' | 'rating';
+  direction?: 'asc' | 'desc';
+  limit?: number;
+  startAfter?: FirebaseFirestoreTypes.DocumentSnapshot;
+}
+
+const mealsRef = () => firestore().collection(MEALS_COLLECTION);
+
+// --- Converters ---
+
+/**
+ * Shape a Firestore doc into a MealEntry. Fills the handful of fields every
+ * reader assumes are present; everything else passes through as stored.
+ */
+export const mealFromSnapshot = (
+  doc: FirebaseFirestoreTypes.DocumentSnapshot,
+): MealEntry | null => {
+  const data = doc.data();
+  if (!data) return null;
+  return {
+    ...data,
+    id: doc.id,
+    userId: data.userId || '',
+    meal: data.meal || '',
+    restaurant: data.restaurant || '',
+    rating: typeof data.rating === 'number' ? data.rating : 0,
+    location: data.location || null,
+    photoUrl: data.photoUrl || null,
+    createdAt: data.createdAt || null,
+  } as MealEntry;
+};
+
+/** Drop the id and any undefined fields (Firestore rejects undefined). */
+export const mealToFirestore = (meal: MealEntryWrite & { id?: string }): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  (Object.keys(meal) as (keyof typeof meal)[]).forEach(key => {
+    if (key === 'id') return;
+    const value = meal[key];
+    if (value !== undefined) out[key] = value;
+  });
+  return out;
+};
+
+// --- Writes ---
+
+/**
+ * Create a meal. Pass `mealId` to write at a pre-generated id (see
+ * mealOutboxService.newMealId); otherwise Firestore assigns one.
+ */
+export const createMealEntry = async (
+  meal: MealEntryWrite,
+  mealId?: string,
+): Promise<string> => {
+  const ref = mealId ? mealsRef().doc(mealId) : mealsRef().doc();
+  await ref.set(mealToFirestore(meal));
+  return ref.id;
+};
+
+export const updateMealEntry = async (mealId: string, patch: MealEntryWrite): Promise<void> => {
+  await mealsRef().doc(mealId).update(mealToFirestore(patch));
+};
+
+export const deleteMealEntry = async (mealId: string): Promise<void> => {
+  await mealsRef().doc(mealId).delete();
+};
+
+// --- Reads ---
+
+export const getMealEntry = async (mealId: string): Promise<MealEntry | null> => {
+  try {
+    const doc = await mealsRef().doc(mealId).get();
+    return mealFromSnapshot(doc);
+  } catch (error) {
+    console.error('MealRepository: Error loading meal:', error);
+    return null;
+  }
+};
+
+const buildQuery = (opts: MealQuery): FirebaseFirestoreTypes.Query => {
+  let query: FirebaseFirestoreTypes.Query = mealsRef();
+  if (opts.userId) query = query.where('userId', '==', opts.userId);
+  if (opts.ratedOnly) query = query.where('rating', '>', 0);
+  if (opts.orderBy) {
+    // Firestore requires the inequality field to lead the ordering.
+    if (opts.ratedOnly && opts.orderBy !== 'rating') {
+      query = query.orderBy('rating', 'desc');
+    }
+    query = query.orderBy(opts.orderBy, opts.direction || 'desc');
+  }
+  if (opts.startAfter) query = query.startAfter(opts.startAfter);
+  if (opts.limit) query = query.limit(opts.limit);
+  return query;
+};
+
+const snapshotToMeals = (snapshot: FirebaseFirestoreTypes.QuerySnapshot): MealEntry[] =>
+  snapshot.docs
+    .map(doc => mealFromSnapshot(doc))
+    .filter((m): m is MealEntry => m !== null);
+
+/**
+ * Run a typed meal query. Also returns the last doc so callers can page
+ * with `startAfter`.
+ */
+export const queryMealEntries = async (
+  opts: MealQuery,
+): Promise<{ meals: MealEntry[]; lastDoc: FirebaseFirestoreTypes.DocumentSnapshot | null }> => {
+  const snapshot = await buildQuery(opts).get();
+  const lastDoc = snapshot.docs.length ? snapshot.docs[snapshot.docs.length - 1] : null;
+  return { meals: snapshotToMeals(snapshot), lastDoc };
+};
+
+const createdMillis = (meal: MealEntry): number => {
+  const value = meal.createdAt || meal.photoTakenAt;
+  if (!value) return 0;
+  return value instanceof Date ? value.getTime() : value.toMillis();
+};
+
+/**
+ * All meals for a user, newest first. Sorted here rather than with
+ * orderBy('createdAt') so meals without a createdAt are still returned
+ * (dated by photoTakenAt, else last).
+ */
+export const getUserMealEntries = async (userId: string): Promise<MealEntry[]> => {
+  const { meals } = await queryMealEntries({ userId });
+  return meals.sort((a, b) => createdMillis(b) - createdMillis(a));
+};
+
+// --- Subscriptions ---
+
+export const subscribeToMealEntry = (
+  mealId: string,
+  onUpdate: (meal: MealEntry | null) => void,
+  onError?: (error: Error) => void,
+): (() => void) =>
+  mealsRef()
+    .doc(mealId)
+    .onSnapshot(
+      doc => onUpdate(mealFromSnapshot(doc)),
+      error => {
+        console.error('MealRepository: meal subscription error:', error);
+        if (onError) onError(error);
+      },
+    );
+
+export const subscribeToMealEntries = (
+  opts: MealQuery,
+  onUpdate: (meals: MealEntry[]) => void,
+  onError?: (error: Error) => void,
+): (() => void) =>
+  buildQuery(opts).onSnapshot(
+    snapshot => onUpdate(snapshotToMeals(snapshot)),
+    error => {
+      console.error('MealRepository: query subscription error:', error);
+      if (onError) onError(error);
+    },
+  );
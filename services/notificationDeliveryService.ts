@@ -0,0 +1,171 @@
+/**
+ * Notification Delivery Service
+ * Turns the signed-in user's `notifications` documents into local notifee
+ * notifications according to their NotificationPreferences:
+ *   - push: a notification per group, shown as soon as a new item arrives
+ *     (or at the end of quiet hours). Each group reuses one notifee id, so a
+ *     burst of cheers updates a single "Alex and 4 others cheered your
+ *     Tonkotsu" instead of stacking.
+ *   - digest: one scheduled notification at the user's digest time
+ *     summarising everything unread that's routed to the digest. It's
+ *     rescheduled whenever the unread set or the preferences change, so it
+ *     always reflects the latest state and disappears when nothing is left.
+ *   - items the user only gets out of the app (`inApp: false`) are marked
+ *     read once their push or digest is done, so they don't pile up unread.
+ *
+ * There's no server push for social activity, so this runs while the app
+ * is alive (started from App.tsx once a user signs in).
+ */
+
+import notifee, { AuthorizationStatus, TimestampTrigger, TriggerType } from '@notifee/react-native';
+import inAppNotificationService, { InAppNotification } from './inAppNotificationService';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences,
+  isChannelEnabled,
+  subscribeToNotificationPreferences,
+} from './notificationPreferencesService';
+import {
+  buildDigest,
+  deliveredOutOfAppIds,
+  groupNotifications,
+  nextDeliveryTime,
+  nextDigestTime,
+  pushData,
+} from '../utils/notificationGrouping';
+
+const CHANNEL_ID = 'social-activity';
+export const DIGEST_NOTIFICATION_ID = 'notification-digest';
+
+const iosOptions = {
+  sound: 'default',
+  foregroundPresentationOptions: {
+    alert: true,
+    banner: true,
+    sound: true,
+    badge: true,
+    list: true,
+  },
+};
+
+const canNotify = async (): Promise<boolean> => {
+  const settings = await notifee.getNotificationSettings();
+  return [AuthorizationStatus.AUTHORIZED, AuthorizationStatus.PROVISIONAL].includes(settings.authorizationStatus);
+};
+
+const ensureChannel = () =>
+  notifee.createChannel({
+    id: CHANNEL_ID,
+    name: 'Cheers, comments & followers',
+    sound: 'default',
+    importance: 4, // High importance
+  });
+
+/**
+ * Show (or schedule past quiet hours) a push for every group that contains
+ * one of `newIds`.
+ */
+const deliverPushes = async (
+  notifications: InAppNotification[],
+  newIds: Set<string>,
+  prefs: NotificationPreferences,
+): Promise<void> => {
+  const pushable = notifications.filter(n => !n.read && isChannelEnabled(prefs, n.type, 'push'));
+  const groups = groupNotifications(pushable).filter(g => g.notifications.some(n => newIds.has(n.id)));
+  if (groups.length === 0 || !(await canNotify())) return;
+  await ensureChannel();
+
+  const now = new Date();
+  const deliverAt = nextDeliveryTime(now, prefs.quietHours);
+  for (const group of groups) {
+    const notification = {
+      id: `social-${group.key}`,
+      title: 'Dish It Out',
+      body: group.message,
+      ios: iosOptions,
+      android: { channelId: CHANNEL_ID, pressAction: { id: 'default' } },
+      data: pushData(group),
+    };
+    if (deliverAt.getTime() === now.getTime()) {
+      await notifee.displayNotification(notification);
+    } else {
+      const trigger: TimestampTrigger = { type: TriggerType.TIMESTAMP, timestamp: deliverAt.getTime() };
+      await notifee.createTriggerNotification(notification, trigger);
+    }
+  }
+  console.log(`NotificationDeliveryService: Delivered ${groups.length} push group(s)`);
+};
+
+/**
+ * Replace the pending digest with one built from the current unread set,
+ * or cancel it when there's nothing to summarise.
+ */
+export const scheduleNotificationDigest = async (
+  notifications: InAppNotification[],
+  prefs: NotificationPreferences,
+  now: Date = new Date(),
+): Promise<void> => {
+  try {
+    const digest = buildDigest(notifications, prefs);
+    if (!digest) {
+      await notifee.cancelTriggerNotification(DIGEST_NOTIFICATION_ID);
+      return;
+    }
+    if (!(await canNotify())) return;
+    await ensureChannel();
+
+    const at = nextDigestTime(now, prefs);
+    const trigger: TimestampTrigger = { type: TriggerType.TIMESTAMP, timestamp: at.getTime() };
+    await notifee.createTriggerNotification(
+      {
+        id: DIGEST_NOTIFICATION_ID,
+        title: digest.title,
+        body: digest.body,
+        ios: iosOptions,
+        android: { channelId: CHANNEL_ID, pressAction: { id: 'default' } },
+        data: { type: 'notification-digest' },
+      },
+      trigger,
+    );
+    console.log(`NotificationDeliveryService: Digest of ${digest.count} scheduled for ${at.toLocaleString()}`);
+  } catch (error) {
+    console.error('NotificationDeliveryService: Error scheduling digest:', error);
+  }
+};
+
+/**
+ * Listen to the user's notifications and preferences and keep pushes and
+ * the digest in sync. Items already present on the first snapshot are
+ * history and never pushed. Returns an unsubscribe function.
+ */
+export const startNotificationDelivery = (userId: string): (() => void) => {
+  let prefs = DEFAULT_NOTIFICATION_PREFERENCES;
+  let latest: InAppNotification[] | null = null;
+  const seen = new Set<string>();
+
+  const unsubscribePrefs = subscribeToNotificationPreferences(userId, next => {
+    prefs = next;
+    if (latest) scheduleNotificationDigest(latest, prefs);
+  });
+
+  const unsubscribeNotifications = inAppNotificationService.listenToNotifications(userId, notifications => {
+    const isFirstSnapshot = latest === null;
+    latest = notifications;
+    const newIds = new Set(notifications.filter(n => !seen.has(n.id)).map(n => n.id));
+    newIds.forEach(id => seen.add(id));
+
+    if (!isFirstSnapshot && newIds.size > 0) {
+      deliverPushes(notifications, newIds, prefs).catch(error =>
+        console.error('NotificationDeliveryService: Error delivering push:', error),
+      );
+    }
+    scheduleNotificationDigest(notifications, prefs);
+
+    inAppNotificationService.markManyAsRead(deliveredOutOfAppIds(notifications, prefs, new Date()));
+  });
+
+  return () => {
+    unsubscribePrefs();
+    unsubscribeNotifications();
+  };
+};
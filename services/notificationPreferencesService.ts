@@ -0,0 +1,131 @@
+/**
+ * Notification Preferences Service
+ * Per-user settings at `users/{uid}/settings/notifications` deciding, for
+ * each InAppNotification type, whether it shows in the in-app list, as an
+ * immediate push, and/or in the daily digest — plus quiet hours and the
+ * digest time. Missing fields fall back to DEFAULT_NOTIFICATION_PREFERENCES,
+ * so users who never open the settings keep today's behaviour (everything
+ * in-app) with cheers moved from push to the digest.
+ *
+ * The document is readable by any signed-in user because the sender's
+ * client checks the recipient's in-app setting in createNotification.
+ */
+
+import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { firestore } from '../firebaseConfig';
+import type { InAppNotification } from './inAppNotificationService';
+
+export type NotificationType = InAppNotification['type'];
+export type NotificationChannel = 'inApp' | 'push' | 'digest';
+export type NotificationChannels = Record<NotificationChannel, boolean>;
+
+export interface QuietHours {
+  enabled: boolean;
+  start: number; // minutes after local midnight
+  end: number;
+}
+
+export interface NotificationPreferences {
+  channels: Record<NotificationType, NotificationChannels>;
+  quietHours: QuietHours;
+  digestTime: number; // minutes after local midnight
+}
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  cheers: 'Cheers',
+  comment: 'Comments',
+  reply: 'Replies to you',
+  mention: 'Mentions',
+  follow: 'New followers',
+  challenge_completed: 'Challenges',
+  critic_awarded: 'Critic status',
+  critic_revoked: 'Critic status changes',
+  weekly_recap: 'Weekly recap',
+};
+
+const channels = (inApp: boolean, push: boolean, digest: boolean): NotificationChannels => ({
+  inApp,
+  push,
+  digest,
+});
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: {
+    cheers: channels(true, false, true),
+    comment: channels(true, true, true),
+    reply: channels(true, true, false),
+    mention: channels(true, true, false),
+    follow: channels(true, true, true),
+    challenge_completed: channels(true, true, false),
+    critic_awarded: channels(true, true, false),
+    critic_revoked: channels(true, true, false),
+    weekly_recap: channels(true, true, false),
+  },
+  quietHours: { enabled: true, start: 22 * 60, end: 8 * 60 },
+  digestTime: 19 * 60,
+};
+
+const preferencesRef = (userId: string) =>
+  firestore().collection('users').doc(userId).collection('settings').doc('notifications');
+
+/**
+ * Stored values over the defaults, one channel at a time, so a type added
+ * after the user saved their settings still gets its defaults.
+ */
+export const mergeNotificationPreferences = (data: any): NotificationPreferences => {
+  const stored = data || {};
+  const merged: NotificationPreferences = {
+    channels: { ...DEFAULT_NOTIFICATION_PREFERENCES.channels },
+    quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...(stored.quietHours || {}) },
+    digestTime: typeof stored.digestTime === 'number' ? stored.digestTime : DEFAULT_NOTIFICATION_PREFERENCES.digestTime,
+  };
+  (Object.keys(merged.channels) as NotificationType[]).forEach(type => {
+    merged.channels[type] = { ...merged.channels[type], ...(stored.channels?.[type] || {}) };
+  });
+  return merged;
+};
+
+export const getNotificationPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  try {
+    const doc = await preferencesRef(userId).get();
+    return mergeNotificationPreferences(doc.data());
+  } catch (error) {
+    console.error('NotificationPreferencesService: Error fetching preferences:', error);
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+};
+
+export const subscribeToNotificationPreferences = (
+  userId: string,
+  callback: (prefs: NotificationPreferences) => void,
+): (() => void) =>
+  preferencesRef(userId).onSnapshot(
+    (doc: FirebaseFirestoreTypes.DocumentSnapshot) => callback(mergeNotificationPreferences(doc.data())),
+    error => {
+      console.error('NotificationPreferencesService: Error listening to preferences:', error);
+      callback(DEFAULT_NOTIFICATION_PREFERENCES);
+    },
+  );
+
+export const saveNotificationPreferences = async (
+  userId: string,
+  prefs: NotificationPreferences,
+): Promise<boolean> => {
+  try {
+    await preferencesRef(userId).set({
+      ...prefs,
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+    console.log('NotificationPreferencesService: Saved preferences for', userId);
+    return true;
+  } catch (error) {
+    console.error('NotificationPreferencesService: Error saving preferences:', error);
+    return false;
+  }
+};
+
+export const isChannelEnabled = (
+  prefs: NotificationPreferences,
+  type: NotificationType,
+  channel: NotificationChannel,
+): boolean => prefs.channels[type]?.[channel] ?? DEFAULT_NOTIFICATION_PREFERENCES.channels[type]?.[channel] ?? true;
@@ -0,0 +1,106 @@
+/**
+ * Passport Export Service
+ * Gathers everything the printable passport needs and saves the finished
+ * PDF. Layout lives in utils/passportPdfLayout.ts and the PDF bytes in
+ * utils/pdfWriter.ts; PassportExportScreen renders and captures the pages.
+ *
+ * The pixel-art tables and restaurant sections go through the same
+ * reconcile passes the Food Passport uses, so the export matches what the
+ * user sees on their profile.
+ */
+
+import RNFS from 'react-native-fs';
+import { getUserMealEntries } from './mealRepository';
+import {
+  DEFAULT_CONFIG,
+  loadPixelArtLayout,
+  reconcilePixelArtLayout,
+} from './pixelArtOrderService';
+import { loadRestaurantSections, reconcileRestaurants } from './restaurantSectionsService';
+import { batchGetMonuments } from './monumentPixelArtService';
+import { PassportPdfInput } from '../utils/passportPdfLayout';
+
+const cityNamesOf = (meals: PassportPdfInput['meals']): string[] => {
+  const names = new Map<string, string>();
+  meals.forEach(meal => {
+    const cities = meal.cities && meal.cities.length > 0 ? meal.cities : [meal.location?.city || meal.city];
+    cities.forEach(city => {
+      if (typeof city !== 'string' || !city.trim()) return;
+      const key = city.trim().toLowerCase();
+      if (!names.has(key)) names.set(key, city.trim());
+    });
+  });
+  return [...names.values()];
+};
+
+/**
+ * Load and reconcile a user's passport data for the PDF layout.
+ * Monuments missing from the cache are generated on the way, so this can
+ * take a while for a well-travelled user.
+ */
+export const loadPassportPdfInput = async (
+  userId: string,
+  user: { userName: string; userPhoto: string | null },
+): Promise<PassportPdfInput> => {
+  const meals = await getUserMealEntries(userId);
+
+  // Pixel art in the user's saved table order
+  const emojiUrls = meals
+    .map(m => m.pixel_art_url || (m.pixel_art_data ? `data:image/png;base64,${m.pixel_art_data}` : null))
+    .filter((url): url is string => Boolean(url));
+  const savedLayout = await loadPixelArtLayout(userId);
+  let tables: PassportPdfInput['tables'];
+  if (savedLayout) {
+    const reconciled = reconcilePixelArtLayout(emojiUrls, savedLayout);
+    tables = reconciled.tables.map((urls, i) => ({ urls, config: reconciled.configs[i] }));
+  } else {
+    const capacity = DEFAULT_CONFIG.columns * DEFAULT_CONFIG.maxRows;
+    tables = [];
+    for (let i = 0; i < emojiUrls.length; i += capacity) {
+      tables.push({ urls: emojiUrls.slice(i, i + capacity), config: { ...DEFAULT_CONFIG } });
+    }
+  }
+
+  // Restaurant sections, reconciled against what's actually been logged
+  const restaurantNames = [
+    ...new Set(
+      meals
+        .map(m => (m.restaurant || '').split(',')[0].trim())
+        .filter(name => name && !['unknown', 'n/a'].includes(name.toLowerCase())),
+    ),
+  ];
+  const savedSections = await loadRestaurantSections(userId);
+  const { sections, unsectionedOrder } = reconcileRestaurants(
+    restaurantNames,
+    savedSections?.sections || [],
+    savedSections?.unsectionedOrder || [],
+  );
+
+  const monuments: Record<string, string> = {};
+  (await batchGetMonuments(cityNamesOf(meals))).forEach(monument => {
+    monuments[monument.city_name.trim().toLowerCase()] = monument.monument_url;
+  });
+
+  return {
+    userName: user.userName,
+    userPhoto: user.userPhoto,
+    meals,
+    tables,
+    sections,
+    unsectionedOrder,
+    monuments,
+    generatedAt: new Date(),
+  };
+};
+
+/**
+ * Write a finished PDF (base64) to the app's documents folder and return
+ * its path. Re-exporting on the same day overwrites that day's file.
+ */
+export const savePassportPdf = async (pdfBase64: string, generatedAt: Date): Promise<string> => {
+  const day = generatedAt.toISOString().slice(0, 10);
+  const path = `${RNFS.DocumentDirectoryPath}/forkful-passport-${day}.pdf`;
+  await RNFS.writeFile(path, pdfBase64, 'base64');
+  console.log(`PassportExportService: Saved ${path}`);
+  return path;
+};
@@ -0,0 +1,93 @@
+/**
+ * Recommendation Service
+ * Client side of the "people like you also loved" layer. The heavy lifting —
+ * user-user similarity from taste_profile tag_scores plus co-rated
+ * restaurants/dishes — runs in Cloud Functions (functions/recommendations.js),
+ * which precompute `users/{uid}/recommendations/summary` nightly. This
+ * module just reads and normalizes that doc.
+ *
+ * Unlike getUserRecommendations (userRecommendationService), which suggests
+ * people to follow, these are places and dishes the user hasn't logged yet.
+ */
+
+import { firestore } from '../firebaseConfig';
+
+export interface RecommendedRestaurant {
+  key: string;
+  name: string;
+  place_id: string | null;
+  city: string | null;
+  score: number;
+  supporters: number; // similar users who rated it 5+
+  meal_id: string | null; // best-rated neighbour meal, for a preview / deep link
+  photo_url: string | null;
+}
+
+export interface RecommendedDish extends Omit<RecommendedRestaurant, 'name'> {
+  dish: string;
+  restaurant: string;
+}
+
+export interface RecommendationNeighbor {
+  userId: string;
+  similarity: number;
+  overlap: number; // restaurants + dishes both users rated
+}
+
+export interface Recommendations {
+  restaurants: RecommendedRestaurant[];
+  dishes: RecommendedDish[];
+  neighbors: RecommendationNeighbor[];
+  computedAt: Date | null;
+}
+
+export const EMPTY_RECOMMENDATIONS: Recommendations = {
+  restaurants: [],
+  dishes: [],
+  neighbors: [],
+  computedAt: null,
+};
+
+const docToRecommendations = (data: any): Recommendations => ({
+  restaurants: Array.isArray(data?.restaurants) ? data.restaurants : [],
+  dishes: Array.isArray(data?.dishes) ? data.dishes : [],
+  neighbors: Array.isArray(data?.neighbors) ? data.neighbors : [],
+  computedAt: data?.computed_at?.toDate ? data.computed_at.toDate() : null,
+});
+
+const recommendationsDoc = (userId: string) =>
+  firestore()
+    .collection('users')
+    .doc(userId)
+    .collection('recommendations')
+    .doc('summary');
+
+/**
+ * One-shot read. Resolves to empty recommendations if none have been
+ * computed yet (new user, or before the first nightly run).
+ */
+export const getRecommendations = async (userId: string): Promise<Recommendations> => {
+  try {
+    const doc = await recommendationsDoc(userId).get();
+    return doc.exists ? docToRecommendations(doc.data()) : EMPTY_RECOMMENDATIONS;
+  } catch (error) {
+    console.error('RecommendationService: Error fetching recommendations:', error);
+    return EMPTY_RECOMMENDATIONS;
+  }
+};
+
+/**
+ * Live subscription; returns the unsubscribe function.
+ */
+export const subscribeToRecommendations = (
+  userId: string,
+  onChange: (recommendations: Recommendations) => void,
+  onError?: (error: Error) => void,
+): (() => void) =>
+  recommendationsDoc(userId).onSnapshot(
+    doc => onChange(doc.exists ? docToRecommendations(doc.data()) : EMPTY_RECOMMENDATIONS),
+    error => {
+      console.error('RecommendationService: snapshot error:', error);
+      onError?.(error);
+    },
+  );
@@ -0,0 +1,146 @@
+/**
+ * Streak Service
+ * Daily and weekly dining streaks (utils/streaks) for a user, and the local
+ * reminder that fires when a weekly streak is about to lapse.
+ *
+ * The reminder is gentle on purpose: one notification, Sunday evening local
+ * time (later if that's inside quiet hours, never after the week ends), and
+ * only for streaks of MIN_REMINDER_WEEKS or more. It targets this week while
+ * nothing is logged yet, next week once something is. Reschedule it on
+ * launch and after each new meal; the fixed id replaces any pending one.
+ *
+ * The streak state (utils/streaks StreakState) is kept on the device. A new
+ * meal advances it without reading the user's meals; launch, a first run and
+ * a back-dated meal rebuild it from mealEntries, which also picks up meals
+ * logged or deleted on other devices. Milestone stamps are awarded by the
+ * stamp evaluator on save (achievementService.checkMealAchievements), not
+ * here.
+ */
+
+import notifee, { AuthorizationStatus, TimestampTrigger, TriggerType } from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getUserMealEntries } from './mealRepository';
+import { getNotificationPreferences } from './notificationPreferencesService';
+import { nextDeliveryTime } from '../utils/notificationGrouping';
+import { mealCalendarDate } from '../utils/wrappedStats';
+import {
+  advanceStreakState,
+  computeStreaks,
+  endOfWeek,
+  StreakState,
+  streakStateFromDates,
+  StreakSummary,
+  summarizeStreakState,
+} from '../utils/streaks';
+
+export const STREAK_REMINDER_NOTIFICATION_ID = 'streak-reminder';
+const STREAK_CHANNEL_ID = 'streak-reminder';
+const REMINDER_HOUR = 17;
+const MIN_REMINDER_WEEKS = 2;
+const STATE_KEY_PREFIX = '@streak_state_v1:';
+
+export const getUserStreaks = async (userId: string): Promise<StreakSummary | null> => {
+  try {
+    return computeStreaks(await getUserMealEntries(userId));
+  } catch (error) {
+    console.error('StreakService: Error computing streaks:', error);
+    return null;
+  }
+};
+
+const loadStreakState = async (userId: string): Promise<StreakState | null> => {
+  try {
+    const json = await AsyncStorage.getItem(STATE_KEY_PREFIX + userId);
+    return json ? (JSON.parse(json) as StreakState) : null;
+  } catch (error) {
+    console.warn('StreakService: Ignoring unreadable streak state:', error);
+    return null;
+  }
+};
+
+const rebuildStreakState = async (userId: string, justLogged?: Date): Promise<StreakState | null> => {
+  const now = new Date();
+  const dates = (await getUserMealEntries(userId))
+    .map(mealCalendarDate)
+    .filter((d): d is Date => d !== null && d <= now);
+  return streakStateFromDates(justLogged ? [...dates, justLogged] : dates);
+};
+
+/**
+ * The user's streak state with `justLogged` counted in: advanced from the
+ * stored state when it can be, rebuilt from their meals otherwise.
+ */
+const currentStreakState = async (userId: string, justLogged?: Date): Promise<StreakState | null> => {
+  const stored = justLogged ? await loadStreakState(userId) : null;
+  const advanced = stored && justLogged ? advanceStreakState(stored, justLogged) : null;
+  const state = advanced || (await rebuildStreakState(userId, justLogged));
+  if (state) await AsyncStorage.setItem(STATE_KEY_PREFIX + userId, JSON.stringify(state));
+  return state;
+};
+
+/** Sunday at REMINDER_HOUR in the week ending at `weekEndsAt`. */
+const reminderTime = (weekEndsAt: Date): Date => {
+  const at = new Date(weekEndsAt);
+  at.setHours(REMINDER_HOUR, 0, 0, 0);
+  return at;
+};
+
+/**
+ * (Re)schedule the "keep your weekly streak going" reminder, or cancel it
+ * when there's no streak worth protecting. `justLogged` counts a meal the
+ * caller just saved (its photo or capture time), in case it's still waiting
+ * in the offline queue.
+ */
+export const scheduleStreakReminder = async (
+  userId: string,
+  options: { justLogged?: Date } = {},
+): Promise<void> => {
+  try {
+    const settings = await notifee.getNotificationSettings();
+    if (![AuthorizationStatus.AUTHORIZED, AuthorizationStatus.PROVISIONAL].includes(settings.authorizationStatus)) {
+      return;
+    }
+
+    const now = new Date();
+    const { weekly } = summarizeStreakState(await currentStreakState(userId, options.justLogged), now);
+    if (weekly.current < MIN_REMINDER_WEEKS) {
+      await notifee.cancelTriggerNotification(STREAK_REMINDER_NOTIFICATION_ID);
+      return;
+    }
+
+    // Logged this week already: the next week at risk is the following one
+    const weekEndsAt = weekly.loggedThisWeek ? endOfWeek(new Date(weekly.weekEndsAt.getTime() + 1)) : weekly.weekEndsAt;
+    const prefs = await getNotificationPreferences(userId);
+    const at = nextDeliveryTime(reminderTime(weekEndsAt), prefs.quietHours);
+    if (at.getTime() <= now.getTime() || at.getTime() > weekEndsAt.getTime()) {
+      await notifee.cancelTriggerNotification(STREAK_REMINDER_NOTIFICATION_ID);
+      return;
+    }
+
+    await notifee.createChannel({
+      id: STREAK_CHANNEL_ID,
+      name: 'Streak Reminders',
+      sound: 'default',
+      importance: 3, // Default importance
+    });
+
+    const trigger: TimestampTrigger = { type: TriggerType.TIMESTAMP, timestamp: at.getTime() };
+    await notifee.createTriggerNotification(
+      {
+        id: STREAK_REMINDER_NOTIFICATION_ID,
+        title: `🔥 ${weekly.current}-week streak`,
+        body: 'No meals logged this week yet — share one before Sunday ends to keep your streak going.',
+        ios: {
+          sound: 'default',
+          foregroundPresentationOptions: { alert: true, banner: true, sound: true, list: true },
+        },
+        android: { channelId: STREAK_CHANNEL_ID, pressAction: { id: 'default' } },
+        data: { type: 'streak-reminder', weeks: String(weekly.current) },
+      },
+      trigger,
+    );
+    console.log(`StreakService: Reminder for a ${weekly.current}-week streak scheduled for ${at.toLocaleString()}`);
+  } catch (error) {
+    console.error('StreakService: Error scheduling streak reminder:', error);
+  }
+};
@@ -0,0 +1,96 @@
+/**
+ * Weekly Recap Service
+ * Reads the recaps the Monday job (functions/weeklyRecap.js) writes to
+ * `users/{uid}/weekly_recaps/{weekKey}`.
+ *
+ * Weeks are ISO weeks in UTC ("2026-W42"), the same keys the leaderboards
+ * use. The job also writes a 'weekly_recap' notification once a user's
+ * recap exists; notificationDeliveryService pushes it like any other
+ * notification and a tap opens WeeklyRecapScreen on its weekKey.
+ */
+
+import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { firestore } from '../firebaseConfig';
+
+export interface WeeklyRecapDish {
+  mealId: string | null;
+  mealName: string;
+  restaurant: string | null;
+  rating: number;
+  photoUrl: string | null;
+  pixelArtUrl: string | null;
+}
+
+export interface WeeklyRecapIconicUnlock {
+  eatId: string;
+  dishName: string | null;
+  restaurantName: string | null;
+  emojiUrl: string | null;
+}
+
+export interface WeeklyRecap {
+  weekKey: string;
+  weekStart: Date | null;
+  weekEnd: Date | null;
+  mealsLogged: number;
+  ratedMeals: number;
+  newRestaurants: string[];
+  newCuisines: string[];
+  newCities: string[];
+  bestDish: WeeklyRecapDish | null;
+  newTags: Record<string, string[]>; // taste-profile bucket → new canonical tags
+  newTagCount: number;
+  collection: { added: number; total: number };
+  iconicUnlocks: WeeklyRecapIconicUnlock[];
+  headline: string;
+}
+
+const toDate = (value: any): Date | null => (value?.toDate ? value.toDate() : null);
+
+const docToRecap = (doc: FirebaseFirestoreTypes.DocumentSnapshot): WeeklyRecap | null => {
+  const data = doc.data();
+  if (!doc.exists || !data) return null;
+  return {
+    weekKey: data.weekKey || doc.id,
+    weekStart: toDate(data.weekStart),
+    weekEnd: toDate(data.weekEnd),
+    mealsLogged: data.mealsLogged || 0,
+    ratedMeals: data.ratedMeals || 0,
+    newRestaurants: data.newRestaurants || [],
+    newCuisines: data.newCuisines || [],
+    newCities: data.newCities || [],
+    bestDish: data.bestDish || null,
+    newTags: data.newTags || {},
+    newTagCount: data.newTagCount || 0,
+    collection: data.collection || { added: 0, total: 0 },
+    iconicUnlocks: data.iconicUnlocks || [],
+    headline: data.headline || '',
+  };
+};
+
+const recapsRef = (userId: string) =>
+  firestore().collection('users').doc(userId).collection('weekly_recaps');
+
+/**
+ * The recap for `weekKey`, or null if the user logged nothing that week
+ * (or the job hasn't run yet).
+ */
+export const getWeeklyRecap = async (userId: string, weekKey: string): Promise<WeeklyRecap | null> => {
+  try {
+    return docToRecap(await recapsRef(userId).doc(weekKey).get());
+  } catch (error) {
+    console.error('WeeklyRecapService: Error fetching recap:', error);
+    return null;
+  }
+};
+
+/** Most recent recap on file. Week keys sort chronologically as strings. */
+export const getLatestWeeklyRecap = async (userId: string): Promise<WeeklyRecap | null> => {
+  try {
+    const snapshot = await recapsRef(userId).orderBy('weekKey', 'desc').limit(1).get();
+    return snapshot.empty ? null : docToRecap(snapshot.docs[0]);
+  } catch (error) {
+    console.error('WeeklyRecapService: Error fetching latest recap:', error);
+    return null;
+  }
+};
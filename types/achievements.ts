@@ -6,6 +6,7 @@ export interface Achievement {
   name: string;
   description: string;
   image: string;
+  imageUrl?: string; // remote artwork for stamps shipped without a bundled image
   criteria: AchievementCriteria;
   createdAt?: firebase.firestore.Timestamp;
 }
@@ -19,20 +20,45 @@ export interface UserAchievement {
   mealEntryId?: string; // The meal that triggered this achievement
 }
 
-// Different types of achievement criteria
-export type AchievementCriteriaType = 
+// Different types of achievement criteria. The evaluator lives in
+// utils/achievementRules.ts; definitions are JSON docs in `achievements`
+// (bundled defaults: constants/achievementDefinitions.json).
+//
+// Per-meal types test the meal being posted; counting types (meal_count,
+// distinct_count, streak, rating_based with a count) look back over the
+// user's history up to and including it, filtered by `where`.
+export type AchievementCriteriaType =
   | 'first_post'
   | 'location_based'
   | 'food_type'
   | 'day_of_week'
   | 'meal_count'
-  | 'rating_based';
+  | 'rating_based'
+  | 'tag_match'
+  | 'time_window'
+  | 'distinct_count'
+  | 'streak'
+  | 'iconic_checklist'
+  | 'all'
+  | 'any'
+  | 'not';
+
+// A value test on one meal field. A bare `field` is a metadata_enriched key
+// ('cuisine_type', 'key_ingredients', ...) falling back to the meal root
+// ('meal', 'restaurant'); a dotted one is a path from the meal root
+// ('aiMetadata.foodType'). Arrays match if any element does.
+export interface AchievementTagMatch {
+  field: string;
+  values: string[];
+  match?: 'exact' | 'contains'; // case-insensitive; default 'exact'
+}
 
 // The criteria for earning an achievement 
 export interface AchievementCriteria {
   type: AchievementCriteriaType;
   
-  // For location-based achievements
+  // For location-based achievements: a meal in `city` or within `radius`
+  // km of `coordinates`
   location?: {
     city?: string;
     coordinates?: {
@@ -42,11 +68,14 @@ export interface AchievementCriteria {
     };
   };
   
-  // For food type achievements
+  // For food type achievements: keyword in the dish, food type or cuisine
   foodType?: {
     type: string;
     dayOfWeek?: number; // 0 = Sunday, 1 = Monday, etc.
   };
+
+  // For day_of_week achievements (0 = Sunday)
+  daysOfWeek?: number[];
   
   // For meal count achievements
   mealCount?: {
@@ -60,9 +89,47 @@ export interface AchievementCriteria {
     comparison: 'equal' | 'greater_than' | 'less_than';
     count?: number; // How many ratings are required
   };
+
+  // For tag_match: any of these tests passing matches the meal
+  tags?: AchievementTagMatch[];
+
+  // For time_window: every part that is set must hold (local time)
+  window?: {
+    hours?: [number, number]; // [from, to) 0–24; from > to wraps midnight
+    months?: number[]; // 1–12
+    from?: string; // ISO date, inclusive
+    to?: string; // ISO date, inclusive
+  };
+
+  // For distinct_count: how many different cities / cuisines / ... so far
+  distinct?: {
+    of: 'city' | 'cuisine' | 'restaurant' | 'dish';
+    count: number;
+  };
+
+  // For streak: consecutive days or weeks with a matching meal, live as of
+  // the meal being posted (counted by utils/streaks.ts)
+  streak?: {
+    unit: 'day' | 'week';
+    length: number;
+    freezes?: boolean; // day streaks only: let earned freeze days bridge gaps
+  };
+
+  // For iconic_checklist: every one of these best_eats unlocked so far (a
+  // meal in the history carries its iconic_eat_id). Generated per checklist
+  // by scripts/syncIconicChecklists.js, see utils/iconicChecklists.ts
+  iconicEatIds?: string[];
+
+  // For all / any / not (not uses the first entry)
+  criteria?: AchievementCriteria[];
+
+  // Counting types only consider history meals matching this
+  where?: AchievementCriteria;
 }
 
-// Achievement data that we'll store in our app (in-memory or in Firestore)
+// A definition as stored in `achievements/{id}`. Inactive ones are kept for
+// users who already hold them but are never awarded again.
 export interface AchievementDefinition extends Achievement {
-  evaluate: (mealEntry: any, userAchievements: UserAchievement[]) => boolean;
-}
\ No newline at end of file
+  active?: boolean;
+  order?: number; // display order in the stamp book
+}
@@ -0,0 +1,139 @@
+import type { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import type { QuickCriteriaData } from '../services/quickCriteriaService';
+import type { RatingStatementsData } from '../services/ratingStatementsService';
+import type { DishRatingCriteriaData } from '../services/dishRatingCriteriaService';
+import type { DishInsightsData } from '../services/dishInsightsService';
+
+// Firestore hands back Timestamps; freshly written docs and client-built
+// objects carry Dates; serverTimestamp() reads as null until it resolves.
+export type FirestoreDate = FirebaseFirestoreTypes.Timestamp | Date | null;
+
+// One entry in the multi-photo gallery. `photoUrl` on the meal mirrors the
+// flagship photo for older readers.
+export interface MealPhoto {
+  url: string;
+  isFlagship: boolean;
+  order: number;
+  uploadedAt?: FirestoreDate;
+}
+
+export interface MealLocation {
+  latitude: number;
+  longitude: number;
+  source?: string; // 'device', 'exif', 'restaurant', ...
+  city?: string;
+}
+
+// Current format is { thoughts }; liked/disliked predates the single field.
+export interface MealComments {
+  thoughts?: string;
+  liked?: string;
+  disliked?: string;
+}
+
+// Canonical v2.0 metadata written by the backend normalizer. Closed-vocab
+// values come from constants/canonicalVocab.ts.
+export interface MealMetadataEnriched {
+  dish_specific?: string;
+  dish_general?: string;
+  cuisine_type?: string;
+  cooking_method?: string;
+  meal_type?: string;
+  heat_level?: string;
+  richness?: string;
+  primary_protein?: string;
+  primary_carb?: string;
+  presentation_style?: string;
+  dietary_info?: string[];
+  flavor_profile?: string[];
+  texture?: string[];
+  key_ingredients?: string[];
+  interesting_ingredient?: string;
+  city?: string;
+  confidence_score?: number;
+  extraction_timestamp?: string;
+  extraction_version?: string;
+}
+
+// Legacy mirror of the canonical fields plus the three history blurbs.
+// Filters still fall back to these for meals enriched before v2.0.
+export interface MealEnhancedFacts {
+  food_facts?: MealMetadataEnriched & {
+    ingredient_history?: string;
+    dish_city_history?: string;
+    restaurant_history?: string;
+  };
+  metadata?: Partial<MealMetadataEnriched>;
+  extraction_info?: Record<string, unknown>;
+}
+
+// Pre-v2.0 AI metadata. foodType was a string before it became an array.
+export interface LegacyAiMetadata {
+  cuisineType?: string;
+  foodType?: string | string[];
+  mealType?: string;
+  primaryProtein?: string;
+  dietType?: string;
+  eatingMethod?: string;
+  setting?: string;
+  platingStyle?: string;
+  beverageType?: string;
+}
+
+/**
+ * A document in `mealEntries`, as read from Firestore. Everything past the
+ * core identity/rating block is optional because it's filled in by
+ * background API calls, the Cloud Functions, or not at all on older meals.
+ */
+export interface MealEntry {
+  id: string;
+  userId: string;
+  userName?: string;
+  userPhoto?: string | null;
+
+  meal: string;
+  restaurant: string;
+  rating: number;
+  mealType?: string; // 'Restaurant' | 'Homemade'
+  isUnrated?: boolean;
+  comments?: MealComments;
+  quick_ratings?: Record<string, number>;
+
+  city?: string;
+  cities?: string[]; // multi-city model; takes precedence over `city`
+  place_id?: string | null;
+  location: MealLocation | null;
+  geohash?: string; // derived from location server-side (onMealWriteSetGeohash)
+
+  photoUrl: string | null;
+  imageUrl?: string | null;
+  evidencePhotoUrl?: string | null; // as-taken copy with EXIF, for iconic claims
+  photos?: MealPhoto[];
+  photoSource?: string; // 'camera' | 'gallery'
+
+  createdAt: FirestoreDate;
+  updatedAt?: FirestoreDate;
+  photoTakenAt?: FirestoreDate;
+
+  metadata_enriched?: MealMetadataEnriched | null;
+  enhanced_facts?: MealEnhancedFacts | null;
+  quick_criteria_result?: Partial<QuickCriteriaData> | null;
+  rating_statements_result?: RatingStatementsData | null;
+  dish_rating_criteria?: DishRatingCriteriaData | null;
+  dish_insights?: DishInsightsData | null;
+  aiMetadata?: LegacyAiMetadata | null;
+
+  pixel_art_url?: string | null;
+  pixel_art_options?: string[];
+  pixel_art_data?: string; // base64 fallback for older meals
+  pixel_art_user_selected?: boolean;
+
+  iconic_eat_id?: string | null;
+
+  cheersCount?: number;
+  commentCount?: number; // top-level comments + replies
+  commentReactionCount?: number; // emoji reactions across all its comments
+}
+
+// Shape of the document body (no id) used when creating a meal.
+export type NewMealEntry = Omit<MealEntry, 'id'>;
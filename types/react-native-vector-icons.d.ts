@@ -0,0 +1,24 @@
+// react-native-vector-icons ships Flow types only. Just the icon sets the
+// app imports; add a module here when importing another set.
+declare module 'react-native-vector-icons/Icon' {
+  import type { Component } from 'react';
+  import type { TextProps } from 'react-native';
+
+  export interface IconProps extends TextProps {
+    name: string;
+    size?: number;
+    color?: string;
+  }
+
+  export default class Icon extends Component<IconProps> {}
+}
+
+declare module 'react-native-vector-icons/MaterialIcons' {
+  import Icon from 'react-native-vector-icons/Icon';
+  export default Icon;
+}
+
+declare module 'react-native-vector-icons/FontAwesome' {
+  import Icon from 'react-native-vector-icons/Icon';
+  export default Icon;
+}
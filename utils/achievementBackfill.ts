@@ -0,0 +1,177 @@
+/**
+ * achievementBackfill — reconcile the stamps a user holds with what their
+ * meal history earns under the current definitions.
+ *
+ * Pure: takes definitions, meals and held records and returns a plan plus
+ * the audit entry describing it. The writers are achievementService's
+ * backfillUserAchievements (one user, from the app) and
+ * scripts/backfillAchievements.js (everyone, admin SDK); both apply the same
+ * plan so a stamp can't be judged differently by the two.
+ *
+ * Rules:
+ *   - The history is replayed oldest first (replayAchievements); a missing
+ *     stamp is awarded against the meal that earned it, dated that meal's
+ *     calendar date, not the day the backfill ran.
+ *   - A held stamp whose record points at a different meal than the replay
+ *     is re-attributed (counts used to be credited to the latest meal, or
+ *     to 'unknown').
+ *   - Awarded in error: a second record for the same stamp ('duplicate'),
+ *     a stamp the history doesn't earn ('not_earned'), or one with no
+ *     definition at all ('unknown_achievement'). Duplicates are always
+ *     removed on apply; the other two only when revoking.
+ *   - Stamps whose definition is inactive are retired, not wrong: they're
+ *     left alone.
+ *   - Legacy records (flat `userAchievements`) count as held but are never
+ *     rewritten; the user-subcollection record wins when both exist.
+ *   - Revoking needs the whole picture. When the history has meals with no
+ *     date (they can't be replayed) or the definitions are the bundled
+ *     fallback rather than the live set, the plan lists why in `incomplete`
+ *     and nothing but duplicates is removed, revoke or not.
+ */
+import type { AchievementDefinition } from '../types/achievements';
+import { AchievementMeal, replayAchievements, ReplayAward } from './achievementRules';
+import { mealCalendarDate } from './wrappedStats';
+
+export interface HeldAchievement {
+  id: string; // record doc id
+  achievementId: string;
+  mealEntryId?: string | null;
+  earnedAt?: Date | null;
+  legacy?: boolean; // from the flat userAchievements collection
+}
+
+export type AwardedInErrorReason = 'duplicate' | 'not_earned' | 'unknown_achievement';
+
+export interface AchievementBackfillPlan {
+  mealsReplayed: number;
+  award: ReplayAward[];
+  reattribute: { record: HeldAchievement; award: ReplayAward }[];
+  awardedInError: { record: HeldAchievement; reason: AwardedInErrorReason }[];
+  incomplete: string[]; // why revoking is unsafe; empty when it isn't
+}
+
+export interface AchievementAuditEntry {
+  userId: string;
+  source: 'client' | 'script';
+  applied: boolean;
+  revoke: boolean;
+  definitions: number;
+  mealsReplayed: number;
+  awarded: { achievementId: string; mealEntryId: string; earnedAt: Date }[];
+  reattributed: { recordId: string; achievementId: string; fromMealEntryId: string | null; toMealEntryId: string }[];
+  awardedInError: {
+    recordId: string;
+    achievementId: string;
+    mealEntryId: string | null;
+    reason: AwardedInErrorReason;
+  }[];
+  incomplete: string[];
+  removed: string[]; // record ids actually deleted
+  errors: string[];
+}
+
+const time = (date?: Date | null) => (date ? date.getTime() : Number.MAX_SAFE_INTEGER);
+
+// Subcollection records before legacy ones, then earliest first
+const keepFirst = (a: HeldAchievement, b: HeldAchievement) =>
+  Number(!!a.legacy) - Number(!!b.legacy) || time(a.earnedAt) - time(b.earnedAt);
+
+export function planAchievementBackfill(
+  definitions: AchievementDefinition[],
+  meals: AchievementMeal[],
+  held: HeldAchievement[],
+  options: { bundledDefinitions?: boolean } = {},
+): AchievementBackfillPlan {
+  const replayed = replayAchievements(definitions, meals);
+  const awardById = new Map(replayed.map(award => [award.achievementId, award]));
+  const definitionById = new Map(definitions.map(def => [def.id, def]));
+
+  const heldById = new Map<string, HeldAchievement[]>();
+  held.forEach(record => {
+    heldById.set(record.achievementId, [...(heldById.get(record.achievementId) || []), record]);
+  });
+
+  const plan: AchievementBackfillPlan = {
+    mealsReplayed: meals.length,
+    award: replayed.filter(award => !heldById.has(award.achievementId)),
+    reattribute: [],
+    awardedInError: [],
+    incomplete: [],
+  };
+  const undated = meals.filter(m => !mealCalendarDate(m)).length;
+  if (undated > 0) plan.incomplete.push(`${undated} meal${undated === 1 ? '' : 's'} without a date`);
+  if (options.bundledDefinitions) plan.incomplete.push('definitions are the bundled fallback');
+
+  heldById.forEach((records, achievementId) => {
+    const [kept, ...extra] = [...records].sort(keepFirst);
+    extra
+      .filter(record => !record.legacy)
+      .forEach(record => plan.awardedInError.push({ record, reason: 'duplicate' }));
+    if (kept.legacy) return;
+
+    const definition = definitionById.get(achievementId);
+    const award = awardById.get(achievementId);
+    if (!definition) {
+      plan.awardedInError.push({ record: kept, reason: 'unknown_achievement' });
+    } else if (definition.active === false) {
+      return;
+    } else if (!award) {
+      plan.awardedInError.push({ record: kept, reason: 'not_earned' });
+    } else if (kept.mealEntryId !== award.mealId) {
+      plan.reattribute.push({ record: kept, award });
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Records to delete when applying: duplicates always, the rest only when
+ * revoking on a complete history.
+ */
+export const recordsToRemove = (plan: AchievementBackfillPlan, revoke: boolean): HeldAchievement[] => {
+  const canRevoke = revoke && plan.incomplete.length === 0;
+  return plan.awardedInError.filter(e => canRevoke || e.reason === 'duplicate').map(e => e.record);
+};
+
+export const hasBackfillChanges = (plan: AchievementBackfillPlan) =>
+  plan.award.length + plan.reattribute.length + plan.awardedInError.length > 0;
+
+/** The `users/{uid}/achievement_audits` entry for one run. */
+export function buildAchievementAudit(
+  plan: AchievementBackfillPlan,
+  options: {
+    userId: string;
+    source: 'client' | 'script';
+    applied: boolean;
+    revoke: boolean;
+    definitions: number;
+    removed?: string[];
+    errors?: string[];
+  },
+): AchievementAuditEntry {
+  return {
+    userId: options.userId,
+    source: options.source,
+    applied: options.applied,
+    revoke: options.revoke,
+    definitions: options.definitions,
+    mealsReplayed: plan.mealsReplayed,
+    awarded: plan.award.map(a => ({ achievementId: a.achievementId, mealEntryId: a.mealId, earnedAt: a.earnedAt })),
+    reattributed: plan.reattribute.map(({ record, award }) => ({
+      recordId: record.id,
+      achievementId: record.achievementId,
+      fromMealEntryId: record.mealEntryId || null,
+      toMealEntryId: award.mealId,
+    })),
+    awardedInError: plan.awardedInError.map(({ record, reason }) => ({
+      recordId: record.id,
+      achievementId: record.achievementId,
+      mealEntryId: record.mealEntryId || null,
+      reason,
+    })),
+    incomplete: plan.incomplete,
+    removed: options.removed || [],
+    errors: options.errors || [],
+  };
+}
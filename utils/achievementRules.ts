@@ -0,0 +1,406 @@
+/**
+ * achievementRules — the one evaluator behind every stamp.
+ *
+ * Stamps are data: `achievements/{id}` docs (bundled defaults in
+ * constants/achievementDefinitions.json) whose `criteria` this module
+ * interprets against a meal and the user's history. Pure — no Firestore —
+ * so the replay harness in __tests__/achievementRules.test.ts can run whole
+ * meal histories through it.
+ *
+ * Rules:
+ *   - Meals are dated the way the calendar dates them (mealCalendarDate:
+ *     photoTakenAt, else createdAt) in local time; undated meals can't earn
+ *     anything. History is everything dated up to and including the meal.
+ *   - Cities, cuisines and restaurants use the wrappedStats extraction and
+ *     are compared case-insensitively; a dish is metadata_enriched's
+ *     dish_specific, else the meal name.
+ *   - location_based uses the coordinates radius when both sides have
+ *     coordinates and falls back to the city name otherwise.
+ *   - A tag_match field without a dot is a metadata_enriched key, falling
+ *     back to the meal root ('meal', 'restaurant'); with a dot it's a path
+ *     from the meal root ('aiMetadata.foodType').
+ *   - Streaks count the way utils/streaks.ts does (the meal's own day or
+ *     week is still in progress); freeze days only when the criteria ask.
+ *   - An iconic checklist is complete once every listed eat has been
+ *     unlocked by a meal in the history (iconic_eat_id, stamped by the
+ *     unlock trigger), so the stamp lands on the meal that finished it.
+ *   - Each stamp is earned once; inactive definitions never award.
+ *   - Anything that fails validateAchievementDefinition is skipped by the
+ *     loader rather than evaluated, so a bad doc can't block other stamps.
+ */
+import type { AchievementCriteria, AchievementDefinition, AchievementTagMatch } from '../types/achievements';
+import { citiesOf, cuisineOf, mealCalendarDate, restaurantOf, WrappedMeal } from './wrappedStats';
+import { dailyStreakAt, startOfDay, startOfWeek, weeklyStreakAt } from './streaks';
+
+export type AchievementMeal = WrappedMeal;
+
+export interface RuleContext {
+  meal: AchievementMeal;
+  date: Date;
+  history: AchievementMeal[]; // oldest first, ends with `meal`
+}
+
+export interface ReplayAward {
+  achievementId: string;
+  mealId: string;
+  earnedAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const COUNTING_TYPES = ['meal_count', 'distinct_count', 'streak', 'rating_based'];
+
+// --- Meal fields ---
+
+const lower = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.flatMap(lower);
+  if (typeof value === 'string' || typeof value === 'number') return [String(value).toLowerCase().trim()];
+  return [];
+};
+
+const readPath = (root: any, path: string): unknown =>
+  path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), root);
+
+const fieldValues = (meal: AchievementMeal, field: string): string[] => {
+  if (field.includes('.')) return lower(readPath(meal, field));
+  const enriched = (meal.metadata_enriched as any)?.[field];
+  return lower(enriched !== undefined && enriched !== null ? enriched : (meal as any)[field]);
+};
+
+const tagMatches = (meal: AchievementMeal, tag: AchievementTagMatch): boolean => {
+  const values = fieldValues(meal, tag.field);
+  const wanted = tag.values.map(v => v.toLowerCase());
+  return tag.match === 'contains'
+    ? values.some(value => wanted.some(w => value.includes(w)))
+    : values.some(value => wanted.includes(value));
+};
+
+const distinctKey = (meal: AchievementMeal, of: 'city' | 'cuisine' | 'restaurant' | 'dish'): string[] => {
+  switch (of) {
+    case 'city':
+      return citiesOf(meal).map(c => c.toLowerCase());
+    case 'cuisine':
+      return lower(cuisineOf(meal));
+    case 'restaurant':
+      return lower(restaurantOf(meal));
+    case 'dish':
+      return lower(meal.metadata_enriched?.dish_specific || meal.meal).filter(Boolean);
+  }
+};
+
+const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(lat2 - lat1);
+  const dLon = rad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// --- Calendar ---
+
+const parseDay = (iso: string) => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const inWindow = (date: Date, window: NonNullable<AchievementCriteria['window']>): boolean => {
+  if (window.hours) {
+    const [from, to] = window.hours;
+    const hour = date.getHours() + date.getMinutes() / 60;
+    const inHours = from <= to ? hour >= from && hour < to : hour >= from || hour < to;
+    if (!inHours) return false;
+  }
+  if (window.months && !window.months.includes(date.getMonth() + 1)) return false;
+  if (window.from && date < parseDay(window.from)) return false;
+  if (window.to && date.getTime() >= parseDay(window.to).getTime() + DAY_MS) return false;
+  return true;
+};
+
+const sameTimeFrame = (a: Date, b: Date, timeFrame: 'day' | 'week' | 'month' | 'all_time' = 'all_time') => {
+  switch (timeFrame) {
+    case 'day':
+      return startOfDay(a).getTime() === startOfDay(b).getTime();
+    case 'week':
+      return startOfWeek(a).getTime() === startOfWeek(b).getTime();
+    case 'month':
+      return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+    default:
+      return true;
+  }
+};
+
+// --- Evaluation ---
+
+const compareRating = (rating: number, { value, comparison }: NonNullable<AchievementCriteria['rating']>) =>
+  comparison === 'equal' ? rating === value : comparison === 'greater_than' ? rating > value : rating < value;
+
+/** History meals the `where` filter lets through, each with its date. */
+const matchingHistory = (criteria: AchievementCriteria, ctx: RuleContext) =>
+  ctx.history
+    .map(meal => ({ meal, date: mealCalendarDate(meal) as Date }))
+    .filter(({ meal, date }) => !criteria.where || evaluateCriteria(criteria.where, { ...ctx, meal, date }));
+
+/** Does `ctx.meal`, given everything before it, satisfy `criteria`? */
+export function evaluateCriteria(criteria: AchievementCriteria, ctx: RuleContext): boolean {
+  const { meal, date } = ctx;
+  switch (criteria.type) {
+    case 'first_post':
+      return ctx.history.length <= 1;
+
+    case 'location_based': {
+      const target = criteria.location;
+      if (!target) return false;
+      const { coordinates } = target;
+      const loc = meal.location;
+      if (coordinates && loc && typeof loc.latitude === 'number' && typeof loc.longitude === 'number') {
+        return (
+          distanceKm(loc.latitude, loc.longitude, coordinates.latitude, coordinates.longitude) <= coordinates.radius
+        );
+      }
+      return !!target.city && citiesOf(meal).some(c => c.toLowerCase() === target.city!.toLowerCase());
+    }
+
+    case 'food_type': {
+      if (!criteria.foodType) return false;
+      const { type, dayOfWeek } = criteria.foodType;
+      if (dayOfWeek !== undefined && date.getDay() !== dayOfWeek) return false;
+      const keyword = type.toLowerCase();
+      return [
+        meal.meal,
+        meal.aiMetadata?.foodType,
+        meal.aiMetadata?.cuisineType,
+        meal.metadata_enriched?.dish_general,
+        meal.metadata_enriched?.dish_specific,
+        meal.metadata_enriched?.cuisine_type,
+      ]
+        .flatMap(lower)
+        .some(value => value.includes(keyword));
+    }
+
+    case 'day_of_week':
+      return (criteria.daysOfWeek || []).includes(date.getDay());
+
+    case 'tag_match':
+      return (criteria.tags || []).some(tag => tagMatches(meal, tag));
+
+    case 'time_window':
+      return !!criteria.window && inWindow(date, criteria.window);
+
+    case 'meal_count': {
+      if (!criteria.mealCount) return false;
+      const { count, timeFrame } = criteria.mealCount;
+      return matchingHistory(criteria, ctx).filter(m => sameTimeFrame(m.date, date, timeFrame)).length >= count;
+    }
+
+    case 'rating_based': {
+      const rating = criteria.rating;
+      if (!rating) return false;
+      if (!rating.count) {
+        return compareRating(meal.rating, rating) && (!criteria.where || evaluateCriteria(criteria.where, ctx));
+      }
+      return matchingHistory(criteria, ctx).filter(m => compareRating(m.meal.rating, rating)).length >= rating.count;
+    }
+
+    case 'distinct_count': {
+      if (!criteria.distinct) return false;
+      const { of, count } = criteria.distinct;
+      const keys = new Set(matchingHistory(criteria, ctx).flatMap(m => distinctKey(m.meal, of)));
+      return keys.size >= count;
+    }
+
+    case 'streak': {
+      if (!criteria.streak) return false;
+      const { unit, length, freezes } = criteria.streak;
+      const dates = matchingHistory(criteria, ctx).map(m => m.date);
+      const current =
+        unit === 'day' ? dailyStreakAt(dates, date, !!freezes).current : weeklyStreakAt(dates, date).current;
+      return current >= length;
+    }
+
+    case 'iconic_checklist': {
+      const unlocked = new Set(ctx.history.map(m => m.iconic_eat_id).filter(Boolean));
+      return !!criteria.iconicEatIds?.length && criteria.iconicEatIds.every(id => unlocked.has(id));
+    }
+
+    case 'all':
+      return (criteria.criteria || []).every(c => evaluateCriteria(c, ctx));
+
+    case 'any':
+      return (criteria.criteria || []).some(c => evaluateCriteria(c, ctx));
+
+    case 'not':
+      return !!criteria.criteria?.[0] && !evaluateCriteria(criteria.criteria[0], ctx);
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * The context for judging `meal` against the user's meals: every dated meal
+ * up to and including it, oldest first. Null when the meal has no date.
+ */
+export function buildRuleContext(meal: AchievementMeal, meals: AchievementMeal[]): RuleContext | null {
+  const date = mealCalendarDate(meal);
+  if (!date) return null;
+  const history = meals
+    .filter(m => m.id !== meal.id)
+    .map(m => ({ m, d: mealCalendarDate(m) }))
+    .filter((e): e is { m: AchievementMeal; d: Date } => e.d !== null && e.d.getTime() <= date.getTime())
+    .sort((a, b) => a.d.getTime() - b.d.getTime())
+    .map(e => e.m);
+  return { meal, date, history: [...history, meal] };
+}
+
+/** Active definitions not in `earnedIds` that `meal` earns. */
+export function evaluateAchievements(
+  definitions: AchievementDefinition[],
+  meal: AchievementMeal,
+  meals: AchievementMeal[],
+  earnedIds: Iterable<string> = [],
+): AchievementDefinition[] {
+  const ctx = buildRuleContext(meal, meals);
+  if (!ctx) return [];
+  const earned = new Set(earnedIds);
+  return definitions.filter(
+    def => def.active !== false && !earned.has(def.id) && evaluateCriteria(def.criteria, ctx),
+  );
+}
+
+/**
+ * Replay a whole meal history through the engine, oldest first, and report
+ * which stamps it earns and on which meal — what the user would hold had
+ * every definition existed from their first post.
+ */
+export function replayAchievements(definitions: AchievementDefinition[], meals: AchievementMeal[]): ReplayAward[] {
+  const dated = meals
+    .map(meal => ({ meal, date: mealCalendarDate(meal) }))
+    .filter((m): m is { meal: AchievementMeal; date: Date } => m.date !== null)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const awards: ReplayAward[] = [];
+  const earned = new Set<string>();
+  dated.forEach(({ meal, date }, index) => {
+    const ctx: RuleContext = { meal, date, history: dated.slice(0, index + 1).map(m => m.meal) };
+    definitions.forEach(def => {
+      if (def.active === false || earned.has(def.id) || !evaluateCriteria(def.criteria, ctx)) return;
+      earned.add(def.id);
+      awards.push({ achievementId: def.id, mealId: meal.id, earnedAt: date });
+    });
+  });
+  return awards;
+}
+
+// --- Validation ---
+
+const isPositive = (n: unknown): n is number => typeof n === 'number' && n > 0;
+
+/** Problems with a criteria tree, as `path: message` strings; empty when valid. */
+export function validateAchievementCriteria(criteria: any, path = 'criteria'): string[] {
+  if (!criteria || typeof criteria !== 'object') return [`${path}: missing`];
+  const problems: string[] = [];
+  const problem = (message: string) => problems.push(`${path}: ${message}`);
+
+  switch (criteria.type) {
+    case 'first_post':
+      break;
+    case 'location_based': {
+      const { city, coordinates } = criteria.location || {};
+      const hasCoords =
+        coordinates &&
+        typeof coordinates.latitude === 'number' &&
+        typeof coordinates.longitude === 'number' &&
+        isPositive(coordinates.radius);
+      if (!city && !hasCoords) problem('location needs a city or coordinates with a radius');
+      break;
+    }
+    case 'food_type':
+      if (typeof criteria.foodType?.type !== 'string' || !criteria.foodType.type) problem('foodType.type is required');
+      break;
+    case 'day_of_week':
+      if (!Array.isArray(criteria.daysOfWeek) || criteria.daysOfWeek.some((d: any) => !(d >= 0 && d <= 6))) {
+        problem('daysOfWeek must be numbers 0–6');
+      }
+      break;
+    case 'tag_match':
+      if (
+        !Array.isArray(criteria.tags) ||
+        criteria.tags.length === 0 ||
+        criteria.tags.some(
+          (t: any) => typeof t?.field !== 'string' || !Array.isArray(t.values) || t.values.length === 0,
+        )
+      ) {
+        problem('tags need a field and at least one value each');
+      }
+      break;
+    case 'time_window': {
+      const w = criteria.window;
+      if (!w || (!w.hours && !w.months && !w.from && !w.to)) problem('window needs hours, months, from or to');
+      else {
+        if (w.hours && (w.hours.length !== 2 || w.hours.some((h: any) => !(h >= 0 && h <= 24)))) {
+          problem('window.hours must be [from, to] within 0–24');
+        }
+        if (w.months && w.months.some((m: any) => !(m >= 1 && m <= 12))) problem('window.months must be 1–12');
+        if ((w.from && !ISO_DATE.test(w.from)) || (w.to && !ISO_DATE.test(w.to))) {
+          problem('window.from/to must be YYYY-MM-DD');
+        }
+      }
+      break;
+    }
+    case 'meal_count':
+      if (!isPositive(criteria.mealCount?.count)) problem('mealCount.count must be positive');
+      break;
+    case 'rating_based':
+      if (typeof criteria.rating?.value !== 'number') problem('rating.value is required');
+      else if (!['equal', 'greater_than', 'less_than'].includes(criteria.rating.comparison)) {
+        problem('rating.comparison must be equal, greater_than or less_than');
+      }
+      break;
+    case 'distinct_count':
+      if (!['city', 'cuisine', 'restaurant', 'dish'].includes(criteria.distinct?.of)) {
+        problem('distinct.of must be city, cuisine, restaurant or dish');
+      } else if (!isPositive(criteria.distinct.count)) problem('distinct.count must be positive');
+      break;
+    case 'streak':
+      if (!['day', 'week'].includes(criteria.streak?.unit)) problem('streak.unit must be day or week');
+      else if (!isPositive(criteria.streak.length)) problem('streak.length must be positive');
+      else if (criteria.streak.freezes && criteria.streak.unit !== 'day') problem('streak.freezes is for day streaks');
+      break;
+    case 'iconic_checklist':
+      if (
+        !Array.isArray(criteria.iconicEatIds) ||
+        criteria.iconicEatIds.length === 0 ||
+        criteria.iconicEatIds.some((id: any) => typeof id !== 'string' || !id)
+      ) {
+        problem('iconicEatIds needs at least one best_eats id');
+      }
+      break;
+    case 'all':
+    case 'any':
+    case 'not':
+      if (!Array.isArray(criteria.criteria) || criteria.criteria.length === 0) {
+        problem(`${criteria.type} needs nested criteria`);
+      } else {
+        criteria.criteria.forEach((c: any, i: number) => {
+          problems.push(...validateAchievementCriteria(c, `${path}.criteria[${i}]`));
+        });
+      }
+      break;
+    default:
+      problem(`unknown type "${criteria.type}"`);
+  }
+
+  if (criteria.where !== undefined) {
+    if (!COUNTING_TYPES.includes(criteria.type)) problem('where only applies to counting types');
+    else problems.push(...validateAchievementCriteria(criteria.where, `${path}.where`));
+  }
+  return problems;
+}
+
+/** Problems with an `achievements/{id}` doc; empty when it can be evaluated. */
+export function validateAchievementDefinition(definition: any): string[] {
+  const problems: string[] = [];
+  if (typeof definition?.id !== 'string' || !definition.id) problems.push('id is required');
+  if (typeof definition?.name !== 'string' || !definition.name) problems.push('name is required');
+  return [...problems, ...validateAchievementCriteria(definition?.criteria)];
+}
@@ -21,24 +21,40 @@
  *   'heat', 'richness', 'protein', 'carb'. These read from the same
  *   metadata_enriched / enhanced_facts ladders SimpleFilterComponent
  *   uses to *extract* the options, so round-trip is consistent.
+ *
+ * Structured-query additions (utils/passportQuery):
+ * - Any filter may carry `negate` to exclude its matches instead.
+ * - 'or' holds alternatives in `anyOf`; a meal matching any of them passes.
+ * - 'restaurant', 'text', 'after', 'before' and 'date' (createdAt ranges).
  */
 import type { FilterItem } from '../components/SimpleFilterComponent';
+import type { MealEntry, MealMetadataEnriched, LegacyAiMetadata } from '../types/mealEntry';
+import { mealMatchesQuery } from './mealSearch';
 
-interface FilterableMeal {
-  id: string;
-  userId?: string;
-  meal?: string;
-  restaurant?: string;
-  city?: string;
-  mealType?: string;
-  rating?: number;
-  iconic_eat_id?: string | null;
-  location?: { city?: string } | null;
-  aiMetadata?: any;
-  metadata_enriched?: any;
-  enhanced_facts?: any;
-  quick_criteria_result?: any;
-}
+// The fields the filter ladders read. Typed against the canonical model so
+// each legacy-vs-canonical fallback is checked by the compiler.
+type FilterableMeal = Pick<MealEntry, 'id'> &
+  Partial<
+    Pick<
+      MealEntry,
+      | 'userId'
+      | 'meal'
+      | 'restaurant'
+      | 'city'
+      | 'mealType'
+      | 'rating'
+      | 'iconic_eat_id'
+      | 'aiMetadata'
+      | 'metadata_enriched'
+      | 'enhanced_facts'
+      | 'quick_criteria_result'
+      | 'comments'
+    >
+  > & {
+    location?: { city?: string } | null;
+    // Screens normalize this differently (Timestamp, Date, millis).
+    createdAt?: unknown;
+  };
 
 export interface ApplyHomeFiltersOpts {
   followingIds?: Set<string> | null;
@@ -54,9 +70,9 @@ function matchesCanonicalTag(
   filterType: string,
   filterValue: string
 ): boolean {
-  const me = meal.metadata_enriched || {};
-  const ef = meal.enhanced_facts?.food_facts || {};
-  const am = meal.aiMetadata || {};
+  const me: MealMetadataEnriched = meal.metadata_enriched || {};
+  const ef: MealMetadataEnriched = meal.enhanced_facts?.food_facts || {};
+  const am: LegacyAiMetadata = meal.aiMetadata || {};
 
   const includesCI = (arr: unknown, v: string) =>
     Array.isArray(arr) && arr.some((x: unknown) => typeof x === 'string' && x.toLowerCase() === v.toLowerCase());
@@ -107,6 +123,141 @@ const CANONICAL_FILTER_TYPES = new Set([
   'carb',
 ]);
 
+/** createdAt → epoch ms. Handles Timestamps, Dates, millis and `{seconds}`. */
+function createdAtMillis(value: unknown): number | null {
+  if (!value) return null;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  const v = value as { toDate?: () => Date; seconds?: number };
+  if (typeof v.toDate === 'function') return v.toDate().getTime();
+  if (typeof v.seconds === 'number') return v.seconds * 1000;
+  return null;
+}
+
+// 'YYYY-MM-DD' → local midnight, matching how passportQuery builds ranges.
+const localDayMillis = (iso: string): number => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1).getTime();
+};
+
+/**
+ * Does a single meal match a single filter? Honors `negate` and recurses
+ * into `anyOf` for 'or' groups produced by utils/passportQuery.
+ */
+export function mealMatchesFilter(
+  meal: FilterableMeal,
+  filter: FilterItem,
+  opts?: ApplyHomeFiltersOpts
+): boolean {
+  return matchesFilterPositive(meal, filter, opts) !== !!filter.negate;
+}
+
+function matchesFilterPositive(
+  meal: FilterableMeal,
+  filter: FilterItem,
+  opts?: ApplyHomeFiltersOpts
+): boolean {
+  const target = filter.value.toLowerCase();
+  const eqCI = (x: unknown) => typeof x === 'string' && x.toLowerCase() === target;
+  const includesCI = (arr: unknown) =>
+    Array.isArray(arr) && arr.some((x: unknown) => typeof x === 'string' && x.toLowerCase() === target);
+
+  if (filter.type === 'or') {
+    return (filter.anyOf || []).some(alt => mealMatchesFilter(meal, alt, opts));
+  }
+  if (filter.type === 'iconicEats') {
+    return !!meal.iconic_eat_id;
+  }
+
+  if (filter.type === 'cuisineType') {
+    // Case-insensitive: search-bar chips come in Title Case (extracted
+    // from meal docs), but personalized taste-profile chips come in
+    // lowercase canonical form (e.g. "peruvian" vs stored "Peruvian").
+    if (eqCI(meal.aiMetadata?.cuisineType)) return true;
+    if (eqCI(meal.metadata_enriched?.cuisine_type)) return true;
+    if (eqCI(meal.enhanced_facts?.food_facts?.cuisine_type)) return true;
+    if (eqCI(meal.quick_criteria_result?.cuisine_type)) return true;
+    return false;
+  }
+  if (filter.type === 'foodType') {
+    if (meal.aiMetadata?.foodType) {
+      if (Array.isArray(meal.aiMetadata.foodType)) {
+        if (includesCI(meal.aiMetadata.foodType)) return true;
+      } else if (eqCI(meal.aiMetadata.foodType)) {
+        return true;
+      }
+    }
+    if (eqCI(meal.metadata_enriched?.dish_general)) return true;
+    if (eqCI(meal.enhanced_facts?.food_facts?.dish_general)) return true;
+    if (eqCI(meal.quick_criteria_result?.dish_general)) return true;
+    return false;
+  }
+  if (filter.type === 'city') {
+    if (meal.city) return meal.city.toLowerCase() === target;
+    if (meal.location?.city) return meal.location.city.toLowerCase() === target;
+    if (meal.restaurant && meal.restaurant.includes(',')) {
+      const parts = meal.restaurant.split(',');
+      if (parts.length > 1) {
+        const second = parts[1].trim();
+        const cityPart = second.includes(' ') ? second.split(' ')[0] : second;
+        return cityPart.toLowerCase() === target;
+      }
+    }
+    return false;
+  }
+  if (filter.type === 'dishName') {
+    if (meal.meal?.toLowerCase().includes(target)) return true;
+    if (meal.metadata_enriched?.dish_specific?.toLowerCase().includes(target)) return true;
+    if (meal.enhanced_facts?.food_facts?.dish_specific?.toLowerCase().includes(target)) return true;
+    if (meal.quick_criteria_result?.dish_specific?.toLowerCase().includes(target)) return true;
+    return false;
+  }
+  if (filter.type === 'ingredient') {
+    const enrichedIngs = meal.metadata_enriched?.key_ingredients;
+    if (Array.isArray(enrichedIngs) && enrichedIngs.some((i: string) => i.toLowerCase().includes(target))) {
+      return true;
+    }
+    if (meal.metadata_enriched?.interesting_ingredient?.toLowerCase().includes(target)) return true;
+    const efIngs = meal.enhanced_facts?.food_facts?.key_ingredients;
+    if (Array.isArray(efIngs) && efIngs.some((i: string) => i.toLowerCase().includes(target))) {
+      return true;
+    }
+    return false;
+  }
+  if (filter.type === 'restaurant') {
+    // Restaurant name without the ", City ST" suffix some entries carry.
+    if (!meal.restaurant) return false;
+    return meal.restaurant.split(',')[0].trim().toLowerCase() === target;
+  }
+  if (filter.type === 'text') {
+    return mealMatchesQuery(meal, filter.value);
+  }
+  if (filter.type === 'after' || filter.type === 'before' || filter.type === 'date') {
+    const millis = createdAtMillis(meal.createdAt);
+    if (millis === null) return false;
+    if (filter.type === 'after') return millis >= localDayMillis(filter.value);
+    if (filter.type === 'before') return millis < localDayMillis(filter.value);
+    const [from, to] = filter.value.split('..');
+    return millis >= localDayMillis(from) && millis < localDayMillis(to);
+  }
+  if (filter.type === 'following') {
+    // FullMap-only. `opts.followingIds` must be supplied by the caller;
+    // if it's missing we treat the filter as matching nothing so stale
+    // chips never masquerade as "everyone".
+    const ids = opts?.followingIds;
+    return !!ids && ids.size > 0 && !!meal.userId && ids.has(meal.userId);
+  }
+  if (filter.type === 'critic') {
+    const ids = opts?.criticIds;
+    return !!ids && ids.size > 0 && !!meal.userId && ids.has(meal.userId);
+  }
+  if (CANONICAL_FILTER_TYPES.has(filter.type)) {
+    return matchesCanonicalTag(meal, filter.type, filter.value);
+  }
+  // Unknown types don't constrain the result.
+  return true;
+}
+
 export function applyHomeFilters<T extends FilterableMeal>(
   meals: T[],
   activeFilters: FilterItem[] | null,
@@ -118,101 +269,12 @@ export function applyHomeFilters<T extends FilterableMeal>(
   // Strip homemade up front
   let result = meals.filter(m => m.mealType !== 'Homemade');
 
-  const iconicChipActive = !!activeFilters?.some(f => f.type === 'iconicEats');
+  const iconicChipActive = !!activeFilters?.some(f => f.type === 'iconicEats' && !f.negate);
 
   if (activeFilters && activeFilters.length > 0) {
     activeFilters.forEach(filter => {
-      if (filter.type === 'iconicEats') return; // post-filter
-
-      if (filter.type === 'cuisineType') {
-        // Case-insensitive: search-bar chips come in Title Case (extracted
-        // from meal docs), but personalized taste-profile chips come in
-        // lowercase canonical form (e.g. "peruvian" vs stored "Peruvian").
-        const target = filter.value.toLowerCase();
-        const eqCI = (x: unknown) => typeof x === 'string' && x.toLowerCase() === target;
-        result = result.filter(meal => {
-          if (eqCI(meal.aiMetadata?.cuisineType)) return true;
-          if (eqCI(meal.metadata_enriched?.cuisine_type)) return true;
-          if (eqCI(meal.enhanced_facts?.food_facts?.cuisine_type)) return true;
-          if (eqCI(meal.quick_criteria_result?.cuisine_type)) return true;
-          return false;
-        });
-      } else if (filter.type === 'foodType') {
-        const target = filter.value.toLowerCase();
-        const eqCI = (x: unknown) => typeof x === 'string' && x.toLowerCase() === target;
-        const includesCI = (arr: unknown) =>
-          Array.isArray(arr) && arr.some((x: unknown) => typeof x === 'string' && x.toLowerCase() === target);
-        result = result.filter(meal => {
-          if (meal.aiMetadata?.foodType) {
-            if (Array.isArray(meal.aiMetadata.foodType)) {
-              if (includesCI(meal.aiMetadata.foodType)) return true;
-            } else if (eqCI(meal.aiMetadata.foodType)) {
-              return true;
-            }
-          }
-          if (eqCI(meal.metadata_enriched?.dish_general)) return true;
-          if (eqCI(meal.enhanced_facts?.food_facts?.dish_general)) return true;
-          if (eqCI(meal.quick_criteria_result?.dish_general)) return true;
-          return false;
-        });
-      } else if (filter.type === 'city') {
-        const target = filter.value.toLowerCase();
-        result = result.filter(meal => {
-          if (meal.city) return meal.city.toLowerCase() === target;
-          if (meal.location?.city) return meal.location.city.toLowerCase() === target;
-          if (meal.restaurant && meal.restaurant.includes(',')) {
-            const parts = meal.restaurant.split(',');
-            if (parts.length > 1) {
-              const second = parts[1].trim();
-              const cityPart = second.includes(' ') ? second.split(' ')[0] : second;
-              return cityPart.toLowerCase() === target;
-            }
-          }
-          return false;
-        });
-      } else if (filter.type === 'dishName') {
-        const target = filter.value.toLowerCase();
-        result = result.filter(meal => {
-          if (meal.meal?.toLowerCase().includes(target)) return true;
-          if (meal.metadata_enriched?.dish_specific?.toLowerCase().includes(target)) return true;
-          if (meal.enhanced_facts?.food_facts?.dish_specific?.toLowerCase().includes(target)) return true;
-          if (meal.quick_criteria_result?.dish_specific?.toLowerCase().includes(target)) return true;
-          return false;
-        });
-      } else if (filter.type === 'ingredient') {
-        const target = filter.value.toLowerCase();
-        result = result.filter(meal => {
-          const enrichedIngs = meal.metadata_enriched?.key_ingredients;
-          if (Array.isArray(enrichedIngs) && enrichedIngs.some((i: string) => i.toLowerCase().includes(target))) {
-            return true;
-          }
-          if (meal.metadata_enriched?.interesting_ingredient?.toLowerCase().includes(target)) return true;
-          const efIngs = meal.enhanced_facts?.food_facts?.key_ingredients;
-          if (Array.isArray(efIngs) && efIngs.some((i: string) => i.toLowerCase().includes(target))) {
-            return true;
-          }
-          return false;
-        });
-      } else if (filter.type === 'following') {
-        // FullMap-only. `opts.followingIds` must be supplied by the caller;
-        // if it's missing we treat the filter as matching nothing so stale
-        // chips never masquerade as "everyone".
-        const ids = opts?.followingIds;
-        if (!ids || ids.size === 0) {
-          result = [];
-        } else {
-          result = result.filter(meal => !!meal.userId && ids.has(meal.userId));
-        }
-      } else if (filter.type === 'critic') {
-        const ids = opts?.criticIds;
-        if (!ids || ids.size === 0) {
-          result = [];
-        } else {
-          result = result.filter(meal => !!meal.userId && ids.has(meal.userId));
-        }
-      } else if (CANONICAL_FILTER_TYPES.has(filter.type)) {
-        result = result.filter(meal => matchesCanonicalTag(meal, filter.type, filter.value));
-      }
+      if (filter.type === 'iconicEats' && !filter.negate) return; // post-filter
+      result = result.filter(meal => mealMatchesFilter(meal, filter, opts));
     });
   }
 
@@ -0,0 +1,47 @@
+/**
+ * Comment reactions are stored per reactor: `reactions.{uid}` on a comment
+ * is the list of reaction keys that user picked. That lets the security
+ * rules limit a reaction update to the caller's own key, so nobody can add
+ * or remove someone else's reaction.
+ *
+ * Counts are never written by the client. functions/comments.js derives
+ * `reactionCounts` / `reactorIds` on the comment and `commentCount` /
+ * `commentReactionCount` on the meal from these maps with the same counting
+ * as below — keep the two in sync.
+ */
+
+export const COMMENT_REACTIONS = {
+  heart: '❤️',
+  yum: '😋',
+  fire: '🔥',
+  laugh: '😂',
+  clap: '👏',
+} as const;
+
+export type CommentReactionKey = keyof typeof COMMENT_REACTIONS;
+
+/** uid → reaction keys that user picked */
+export type CommentReactions = Partial<Record<string, CommentReactionKey[]>>;
+
+export type CommentReactionCounts = Partial<Record<CommentReactionKey, number>>;
+
+/**
+ * Per-reaction counts. Each reactor counts once per key; unknown keys
+ * (e.g. a reaction retired from COMMENT_REACTIONS) are ignored.
+ */
+export const countReactions = (reactions?: CommentReactions | null): CommentReactionCounts => {
+  const counts: CommentReactionCounts = {};
+  Object.values(reactions || {}).forEach(keys => {
+    new Set(keys || []).forEach(key => {
+      if (!(key in COMMENT_REACTIONS)) return;
+      counts[key] = (counts[key] || 0) + 1;
+    });
+  });
+  return counts;
+};
+
+export const totalReactions = (reactions?: CommentReactions | null): number =>
+  Object.values(countReactions(reactions)).reduce((sum, n) => sum + (n || 0), 0);
+
+export const hasReacted = (reactions: CommentReactions | null | undefined, uid: string, key: CommentReactionKey) =>
+  !!reactions?.[uid]?.includes(key);
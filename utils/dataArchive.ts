@@ -0,0 +1,311 @@
+/**
+ * dataArchive — the versioned personal data archive (export / restore).
+ *
+ * services/dataExportService.ts gathers a user's data into a DataArchive,
+ * writes it as JSON next to a flattened CSV of their meals, and restores an
+ * archive into a fresh account. Everything here is pure so the format,
+ * CSV and id remapping are covered by __tests__/dataArchive.test.ts.
+ *
+ * Rules:
+ *   - Documents are kept as stored, keyed by their original id. Firestore
+ *     Timestamps / Dates become { __timestamp: ISO string } so they survive
+ *     JSON and come back as Dates on restore.
+ *   - `files` maps a remote photo / pixel-art URL to the downloaded copy,
+ *     relative to the archive folder. Empty when files weren't included.
+ *   - Restoring remaps by exact string match: the old user id, old meal ids
+ *     and re-uploaded file URLs are swapped wherever they appear (meal
+ *     fields, achievement mealEntryId, challenge completedWithMealId, saved
+ *     meal doc ids, pixel-art order, taste profile, ...). Followers are
+ *     exported but never restored — those belong to the other users — and
+ *     neither are iconic-eat claims, which were judged against the old
+ *     account's meals.
+ *   - Restored meal ids and upload paths are derived from the archive and
+ *     the new account, so a restore that stopped half way can be run again
+ *     and overwrites what it already wrote instead of duplicating it.
+ *   - Comments and cheers stay with the old account, so the counters a meal
+ *     keeps for them are dropped on restore.
+ *   - Bump DATA_ARCHIVE_VERSION when the shape changes; parseDataArchive
+ *     refuses archives newer than this build understands.
+ */
+import type { TableConfig } from '../services/pixelArtOrderService';
+import type { RestaurantSection } from '../services/restaurantSectionsService';
+
+export const DATA_ARCHIVE_FORMAT = 'forkful-data-archive';
+export const DATA_ARCHIVE_VERSION = 1;
+
+export interface ArchiveDoc {
+  id: string;
+  data: Record<string, any>;
+}
+
+export interface DataArchive {
+  format: typeof DATA_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO
+  account: {
+    userId: string;
+    displayName: string | null;
+    email: string | null;
+    photoURL: string | null;
+  };
+  meals: ArchiveDoc[];
+  achievements: ArchiveDoc[]; // users/{uid}/achievements plus legacy userAchievements
+  challenges: ArchiveDoc[];
+  following: ArchiveDoc[];
+  followers: ArchiveDoc[];
+  savedMeals: ArchiveDoc[];
+  iconicClaims: ArchiveDoc[]; // iconic_claims, with how each was decided
+  restaurantSections: { sections: RestaurantSection[]; unsectionedOrder: string[] };
+  pixelArtLayout: { order: string[]; tableSizes: number[]; tableConfigs: TableConfig[] | null } | null;
+  calendarNotes: Record<string, string>; // YYYY-MM-DD → note
+  tasteProfile: Record<string, any> | null;
+  files: Record<string, string>;
+}
+
+// --- Values ---
+
+const isTimestampLike = (value: any): value is { toDate: () => Date } =>
+  !!value && typeof value === 'object' && typeof value.toDate === 'function';
+
+/** Make a Firestore value JSON-safe (Timestamps and Dates → { __timestamp }). */
+export const toArchiveValue = (value: any): any => {
+  if (value instanceof Date) return { __timestamp: value.toISOString() };
+  if (isTimestampLike(value)) return { __timestamp: value.toDate().toISOString() };
+  if (Array.isArray(value)) return value.map(toArchiveValue);
+  if (value && typeof value === 'object') {
+    const out: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      if (value[key] !== undefined) out[key] = toArchiveValue(value[key]);
+    });
+    return out;
+  }
+  return value;
+};
+
+/** Inverse of toArchiveValue: { __timestamp } markers come back as Dates. */
+export const fromArchiveValue = (value: any): any => {
+  if (Array.isArray(value)) return value.map(fromArchiveValue);
+  if (value && typeof value === 'object') {
+    if (typeof value.__timestamp === 'string' && Object.keys(value).length === 1) {
+      return new Date(value.__timestamp);
+    }
+    const out: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      out[key] = fromArchiveValue(value[key]);
+    });
+    return out;
+  }
+  return value;
+};
+
+export const archiveDoc = (id: string, data: Record<string, any> | undefined): ArchiveDoc => ({
+  id,
+  data: toArchiveValue(data || {}),
+});
+
+/** Every photo and pixel-art URL in the archive, in first-seen order. */
+export const archiveFileUrls = (archive: Pick<DataArchive, 'meals'>): string[] => {
+  const urls = new Set<string>();
+  const add = (url: unknown) => {
+    if (typeof url === 'string' && url.startsWith('http')) urls.add(url);
+  };
+  archive.meals.forEach(({ data }) => {
+    add(data.photoUrl);
+    (data.photos || []).forEach((photo: any) => add(photo?.url));
+    add(data.pixel_art_url);
+  });
+  return [...urls];
+};
+
+// --- Parsing ---
+
+export const parseDataArchive = (json: string): DataArchive => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Archive is not valid JSON');
+  }
+  if (!parsed || parsed.format !== DATA_ARCHIVE_FORMAT) {
+    throw new Error('Not a Forkful data archive');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > DATA_ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${parsed.version} is newer than this app supports`);
+  }
+  if (!parsed.account?.userId || !Array.isArray(parsed.meals)) {
+    throw new Error('Archive is missing its account or meals');
+  }
+  // Fill anything a trimmed-down archive left out
+  return {
+    achievements: [],
+    challenges: [],
+    following: [],
+    followers: [],
+    savedMeals: [],
+    iconicClaims: [],
+    restaurantSections: { sections: [], unsectionedOrder: [] },
+    pixelArtLayout: null,
+    calendarNotes: {},
+    tasteProfile: null,
+    files: {},
+    ...parsed,
+  };
+};
+
+// --- CSV ---
+
+export const MEAL_CSV_COLUMNS = [
+  'id',
+  'date',
+  'meal',
+  'restaurant',
+  'rating',
+  'meal_type',
+  'cities',
+  'latitude',
+  'longitude',
+  'cuisine',
+  'dish',
+  'thoughts',
+  'photo_url',
+  'photo_count',
+  'pixel_art_url',
+  'photo_file',
+] as const;
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isoOf = (value: any): string => (typeof value?.__timestamp === 'string' ? value.__timestamp : '');
+
+const flagshipUrl = (data: Record<string, any>): string | null => {
+  const photos: any[] = data.photos || [];
+  const flagship = photos.find(p => p?.isFlagship) || photos[0];
+  return flagship?.url || data.photoUrl || null;
+};
+
+/**
+ * One row per meal, dated by photoTakenAt falling back to createdAt (the
+ * MealCalendar rule). Takes archived docs, so dates are already ISO.
+ */
+export const mealsToCsv = (meals: ArchiveDoc[], files: Record<string, string> = {}): string => {
+  const rows = meals.map(({ id, data }) => {
+    const cities: string[] =
+      data.cities && data.cities.length > 0 ? data.cities : [data.location?.city || data.city].filter(Boolean);
+    const photoUrl = flagshipUrl(data);
+    const cells: Record<(typeof MEAL_CSV_COLUMNS)[number], unknown> = {
+      id,
+      date: isoOf(data.photoTakenAt) || isoOf(data.createdAt),
+      meal: data.meal,
+      restaurant: data.restaurant,
+      rating: data.rating,
+      meal_type: data.mealType,
+      cities: cities.join('; '),
+      latitude: data.location?.latitude,
+      longitude: data.location?.longitude,
+      cuisine: data.metadata_enriched?.cuisine_type || data.quick_criteria_result?.cuisine_type,
+      dish: data.metadata_enriched?.dish_specific,
+      thoughts: data.comments?.thoughts,
+      photo_url: photoUrl,
+      photo_count: (data.photos || []).length || (photoUrl ? 1 : 0),
+      pixel_art_url: data.pixel_art_url,
+      photo_file: photoUrl ? files[photoUrl] : null,
+    };
+    return MEAL_CSV_COLUMNS.map(column => csvCell(cells[column])).join(',');
+  });
+  return [MEAL_CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// --- Restore ---
+
+export interface RestoreTarget {
+  userId: string;
+  userName: string;
+  userPhoto: string | null;
+}
+
+export interface RestoreIds {
+  meals: Record<string, string>; // old meal id → new meal id
+  urls: Record<string, string>; // old file URL → re-uploaded URL
+}
+
+export interface RestorePlan {
+  meals: ArchiveDoc[];
+  achievements: ArchiveDoc[];
+  challenges: ArchiveDoc[];
+  following: ArchiveDoc[];
+  savedMeals: ArchiveDoc[];
+  userFields: Record<string, any>; // merged into users/{uid}
+  tasteProfile: Record<string, any> | null;
+}
+
+/** Counters kept on a meal for things that aren't restored. */
+export const RESTORE_DROPPED_MEAL_FIELDS = ['cheersCount', 'commentCount', 'commentReactionCount', 'lastCommentAt'];
+
+/** Id of the restored copy of `oldMealId` in `userId`'s account. */
+export const restoredMealId = (oldMealId: string, userId: string): string => `restored_${userId}_${oldMealId}`;
+
+/** Storage path for a file re-uploaded from the archive folder. */
+export const restoredFilePath = (relativePath: string, userId: string): string =>
+  `meal_photos/${userId}/restored_${relativePath.split('/').pop()}`;
+
+const replaceStrings = (value: any, map: Map<string, string>): any => {
+  if (typeof value === 'string') return map.get(value) ?? value;
+  if (Array.isArray(value)) return value.map(v => replaceStrings(v, map));
+  if (value && typeof value === 'object') {
+    const out: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      out[key] = replaceStrings(value[key], map);
+    });
+    return out;
+  }
+  return value;
+};
+
+/**
+ * Rewrite an archive for a new account. Meals missing from `ids.meals`
+ * keep their old id; URLs missing from `ids.urls` are left pointing at the
+ * original files. Dates come back as Dates, ready to write.
+ */
+export const remapArchive = (archive: DataArchive, target: RestoreTarget, ids: RestoreIds): RestorePlan => {
+  const map = new Map<string, string>([
+    [archive.account.userId, target.userId],
+    ...Object.entries(ids.meals),
+    ...Object.entries(ids.urls),
+  ]);
+  const remap = (docs: ArchiveDoc[]): ArchiveDoc[] =>
+    docs.map(doc => ({
+      id: map.get(doc.id) ?? doc.id,
+      data: fromArchiveValue(replaceStrings(doc.data, map)),
+    }));
+
+  const userFields: Record<string, any> = {
+    restaurant_sections: archive.restaurantSections.sections,
+    restaurant_unsectioned_order: archive.restaurantSections.unsectionedOrder,
+    calendar_notes: archive.calendarNotes,
+  };
+  if (archive.pixelArtLayout) {
+    userFields.pixel_art_emoji_order = archive.pixelArtLayout.order;
+    userFields.pixel_art_table_sizes = archive.pixelArtLayout.tableSizes;
+    if (archive.pixelArtLayout.tableConfigs) {
+      userFields.pixel_art_table_configs = archive.pixelArtLayout.tableConfigs;
+    }
+  }
+
+  return {
+    meals: remap(archive.meals).map(doc => {
+      const data: Record<string, any> = { ...doc.data, userName: target.userName, userPhoto: target.userPhoto };
+      RESTORE_DROPPED_MEAL_FIELDS.forEach(field => delete data[field]);
+      return { id: doc.id, data };
+    }),
+    achievements: remap(archive.achievements),
+    challenges: remap(archive.challenges),
+    following: remap(archive.following).filter(doc => doc.id !== target.userId),
+    savedMeals: remap(archive.savedMeals),
+    userFields: replaceStrings(userFields, map),
+    tasteProfile: archive.tasteProfile ? fromArchiveValue(replaceStrings(archive.tasteProfile, map)) : null,
+  };
+};
@@ -0,0 +1,206 @@
+/**
+ * feedRanking — pluggable scoring for the Discover feed.
+ *
+ * discoverFeedService fetches candidate meals (nearby geohash cells plus
+ * followed users' posts) and hands each page to a FeedRanker, which returns
+ * a score and a human-readable tier. Swap the ranker to change ordering
+ * without touching the fetch/pagination code.
+ *
+ * Two rankers:
+ *   - weighted (createWeightedRanker): each scorer below turns one signal
+ *     into a 0..1 feature; the score is the weighted sum. The per-feature
+ *     breakdown rides along on the result for debugging, and weight sets
+ *     are A/B tested via feedRankingConfigService.
+ *   - tieredRanker: the original HomeScreen scoring — followed users first,
+ *     then by distance band (5 mi / 10 mi / beyond), with a recency bonus
+ *     for posts from the last 7 days. Kept so a config variant can run it
+ *     as the control arm.
+ */
+
+import type { SearchableMeal } from './mealSearch';
+import { computeTasteMatch, TasteProfile } from './tasteMatch';
+
+export interface FeedRankingContext {
+  userLocation: { latitude: number; longitude: number } | null;
+  followingIds: Set<string>;
+  now: Date;
+  tasteProfile?: TasteProfile | null;
+}
+
+/** The slice of a feed meal a ranker reads. */
+export interface RankableMeal extends SearchableMeal {
+  userId: string;
+  createdAt: Date;
+  distance?: number | null; // km from the user, null when unknown
+  cheersCount?: number;
+  commentCount?: number;
+  iconic_eat_id?: string | null;
+}
+
+export type FeedFeature =
+  | 'recency'
+  | 'distance'
+  | 'following'
+  | 'tasteMatch'
+  | 'engagement'
+  | 'iconic';
+
+export type FeedWeights = Record<FeedFeature, number>;
+
+export interface FeatureContribution {
+  value: number; // 0..1 from the scorer
+  weight: number;
+  contribution: number; // value * weight
+}
+
+export interface FeedScore {
+  score: number;
+  tier: string; // for debugging / logging only
+  breakdown?: Partial<Record<FeedFeature, FeatureContribution>>;
+}
+
+export type FeedRanker = (meal: RankableMeal, ctx: FeedRankingContext) => FeedScore;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NEW_POST_WINDOW_MS = 7 * DAY_MS;
+const CLOSE_KM = 8; // 5 miles
+const MEDIUM_KM = 16; // 10 miles
+
+// =============================================================================
+// Weighted ranker
+// =============================================================================
+
+const RECENCY_HALF_LIFE_DAYS = 7;
+// Engagement saturates around this many interactions (comments count double).
+const ENGAGEMENT_SATURATION = 50;
+
+/**
+ * One scorer per feature. Each maps a meal to 0..1; unknown inputs score 0
+ * (or neutral, for taste match) rather than throwing.
+ */
+export const FEED_SCORERS: Record<FeedFeature, (meal: RankableMeal, ctx: FeedRankingContext) => number> = {
+  // Halves every week.
+  recency: (meal, ctx) => {
+    const ageDays = Math.max(0, ctx.now.getTime() - meal.createdAt.getTime()) / DAY_MS;
+    return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+  },
+  // 1 at the user's location, 0.5 at 5 miles, falling off smoothly after.
+  distance: meal => {
+    if (meal.distance === null || meal.distance === undefined) return 0;
+    return 1 / (1 + meal.distance / CLOSE_KM);
+  },
+  following: (meal, ctx) => (ctx.followingIds.has(meal.userId) ? 1 : 0),
+  // 0.5 (neutral) when there's no usable profile, so it neither helps nor
+  // hurts until the user has rated enough meals.
+  tasteMatch: (meal, ctx) => {
+    const match = computeTasteMatch(meal, ctx.tasteProfile);
+    return match === null ? 0.5 : match / 100;
+  },
+  engagement: meal => {
+    const interactions = (meal.cheersCount || 0) + 2 * (meal.commentCount || 0);
+    return Math.min(1, Math.log1p(interactions) / Math.log1p(ENGAGEMENT_SATURATION));
+  },
+  iconic: meal => (meal.iconic_eat_id ? 1 : 0),
+};
+
+/**
+ * Default weight set. Following and proximity still dominate — a followed
+ * friend's post or something down the street should lead — but a fresh,
+ * well-matched meal can now outrank a stale nearby one.
+ */
+export const DEFAULT_FEED_WEIGHTS: FeedWeights = {
+  following: 10,
+  distance: 6,
+  recency: 4,
+  tasteMatch: 3,
+  engagement: 2,
+  iconic: 1.5,
+};
+
+/**
+ * Weighted-sum ranker. `label` names the weight set (e.g. the A/B variant)
+ * and is folded into `tier` so logs show which arm ranked a meal.
+ */
+export function createWeightedRanker(
+  weights: FeedWeights = DEFAULT_FEED_WEIGHTS,
+  label = 'default',
+): FeedRanker {
+  const features = Object.keys(FEED_SCORERS) as FeedFeature[];
+  return (meal, ctx) => {
+    const breakdown: Partial<Record<FeedFeature, FeatureContribution>> = {};
+    let score = 0;
+    let top: FeedFeature | null = null;
+    features.forEach(feature => {
+      const weight = weights[feature] ?? 0;
+      if (weight === 0) return;
+      const value = FEED_SCORERS[feature](meal, ctx);
+      const contribution = value * weight;
+      breakdown[feature] = { value, weight, contribution };
+      score += contribution;
+      if (!top || contribution > (breakdown[top]?.contribution ?? 0)) top = feature;
+    });
+    return {
+      score,
+      tier: `weighted:${label}${top ? ` (${top})` : ''}`,
+      breakdown,
+    };
+  };
+}
+
+/**
+ * Render a breakdown as one log-friendly line, biggest contributor first:
+ *   "following 10.00 (1.00×10) · distance 3.12 (0.52×6) · ..."
+ */
+export function formatScoreBreakdown(breakdown: FeedScore['breakdown']): string {
+  if (!breakdown) return '';
+  return (Object.entries(breakdown) as [FeedFeature, FeatureContribution][])
+    .sort((a, b) => b[1].contribution - a[1].contribution)
+    .map(([feature, c]) => `${feature} ${c.contribution.toFixed(2)} (${c.value.toFixed(2)}×${c.weight})`)
+    .join(' · ');
+}
+
+// =============================================================================
+// Tiered ranker (legacy)
+// =============================================================================
+
+export const tieredRanker: FeedRanker = (meal, ctx) => {
+  const isNewPost = meal.createdAt.getTime() > ctx.now.getTime() - NEW_POST_WINDOW_MS;
+  const distance = meal.distance ?? null;
+
+  if (ctx.followingIds.has(meal.userId)) {
+    // Tier 1: Posts from followed users (regardless of location)
+    return { score: isNewPost ? 1200 : 1000, tier: 'Tier 1 (Following)' };
+  }
+  if (distance === null) {
+    // No location data, low priority
+    return { score: 50, tier: 'Tier 3 (No Location)' };
+  }
+  if (distance <= CLOSE_KM) {
+    return isNewPost
+      ? { score: 1000 + (100 - distance * 10), tier: 'Tier 1 (New + Close)' }
+      : { score: 500 + (100 - distance * 10), tier: 'Tier 2 (Old + Close)' };
+  }
+  if (distance <= MEDIUM_KM) {
+    return isNewPost
+      ? { score: 500 + (50 - distance * 3), tier: 'Tier 2 (New + Medium)' }
+      : { score: 100 + (50 - distance * 3), tier: 'Tier 3 (Old + Medium)' };
+  }
+  // Tier 4: beyond 10 miles (very low priority but still included)
+  return isNewPost
+    ? { score: 25 + Math.max(0, 50 - distance), tier: 'Tier 4 (New + Distant)' }
+    : { score: 10 + Math.max(0, 25 - distance * 0.5), tier: 'Tier 4 (Old + Distant)' };
+};
+
+/**
+ * Score every meal with `ranker` and sort best first; ties go to the newer
+ * post.
+ */
+export function rankFeed<T extends RankableMeal>(
+  meals: T[],
+  ranker: FeedRanker,
+  ctx: FeedRankingContext,
+): (T & FeedScore)[] {
+  return meals
+    .map(meal => ({ ...meal, ...ranker(meal, ctx) }))
+    .sort((a, b) => b.score - a.score || b.createdAt.getTime() - a.createdAt.getTime());
+}
@@ -0,0 +1,213 @@
+/**
+ * geohash — encode coordinates as geohash strings and work out which cells
+ * cover a map viewport or search radius.
+ *
+ * best_eats docs carry a `geohash` field (precision 9, ~5 m cells) written by
+ * the onBestEatWriteSetGeohash trigger. A geohash prefix is the cell that
+ * contains it, so "every doc in cell `9q8yy`" is a single range query:
+ *   where('geohash', '>=', '9q8yy').where('geohash', '<=', '9q8yy\uf8ff')
+ *
+ * geohashCellsForBounds() picks the finest precision at which a bounding box
+ * is covered by at most a handful of cells, so a viewport or radius costs a
+ * few small queries instead of a full collection scan.
+ *
+ * encodeGeohash is mirrored in functions/iconicEatsGeohash.js for the
+ * trigger + backfill script. Keep the two in sync.
+ */
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const KM_PER_DEGREE_LAT = 110.574;
+const KM_PER_DEGREE_LON_AT_EQUATOR = 111.32;
+
+export const GEOHASH_PRECISION = 9;
+// 3×3 — the classic "cell plus its eight neighbors" query budget.
+export const DEFAULT_MAX_CELLS = 9;
+
+export interface GeoBounds {
+  minLat: number;
+  maxLat: number;
+  // When minLon > maxLon the box wraps across the antimeridian.
+  minLon: number;
+  maxLon: number;
+}
+
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+/**
+ * Encode a coordinate as a geohash of the given length.
+ */
+export function encodeGeohash(lat: number, lon: number, precision: number = GEOHASH_PRECISION): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lonMin = -180;
+  let lonMax = 180;
+  let hash = '';
+  let bits = 0;
+  let ch = 0;
+  let evenBit = true; // geohash interleaves bits starting with longitude
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lonMin + lonMax) / 2;
+      if (lon >= mid) {
+        ch = ch * 2 + 1;
+        lonMin = mid;
+      } else {
+        ch = ch * 2;
+        lonMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        ch = ch * 2 + 1;
+        latMin = mid;
+      } else {
+        ch = ch * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += BASE32[ch];
+      bits = 0;
+      ch = 0;
+    }
+  }
+  return hash;
+}
+
+/**
+ * Size of one cell, in degrees, at a given precision.
+ */
+export function geohashCellSize(precision: number): { latDegrees: number; lonDegrees: number } {
+  const totalBits = precision * 5;
+  const lonBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return {
+    latDegrees: 180 / 2 ** latBits,
+    lonDegrees: 360 / 2 ** lonBits,
+  };
+}
+
+/**
+ * Bounding box that contains a circle of `radiusKm` around a point.
+ * Longitude span widens with latitude; near the poles it covers every
+ * longitude.
+ */
+export function boundingBoxForRadius(lat: number, lon: number, radiusKm: number): GeoBounds {
+  const dLat = radiusKm / KM_PER_DEGREE_LAT;
+  const minLat = Math.max(-90, lat - dLat);
+  const maxLat = Math.min(90, lat + dLat);
+
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  const dLon = cosLat > 1e-6 ? radiusKm / (KM_PER_DEGREE_LON_AT_EQUATOR * cosLat) : 180;
+  if (dLon >= 180 || minLat === -90 || maxLat === 90) {
+    return { minLat, maxLat, minLon: -180, maxLon: 180 };
+  }
+  return {
+    minLat,
+    maxLat,
+    minLon: wrapLongitude(lon - dLon),
+    maxLon: wrapLongitude(lon + dLon),
+  };
+}
+
+/**
+ * Bounds of a react-native-maps Region.
+ */
+export function boundsForRegion(region: MapRegion): GeoBounds {
+  const halfLat = region.latitudeDelta / 2;
+  const halfLon = region.longitudeDelta / 2;
+  if (halfLon >= 180) {
+    return {
+      minLat: Math.max(-90, region.latitude - halfLat),
+      maxLat: Math.min(90, region.latitude + halfLat),
+      minLon: -180,
+      maxLon: 180,
+    };
+  }
+  return {
+    minLat: Math.max(-90, region.latitude - halfLat),
+    maxLat: Math.min(90, region.latitude + halfLat),
+    minLon: wrapLongitude(region.longitude - halfLon),
+    maxLon: wrapLongitude(region.longitude + halfLon),
+  };
+}
+
+export function isInBounds(lat: number, lon: number, bounds: GeoBounds): boolean {
+  if (lat < bounds.minLat || lat > bounds.maxLat) return false;
+  if (bounds.minLon <= bounds.maxLon) {
+    return lon >= bounds.minLon && lon <= bounds.maxLon;
+  }
+  return lon >= bounds.minLon || lon <= bounds.maxLon;
+}
+
+/**
+ * The geohash cells that together cover `bounds`, at the finest precision
+ * where that takes no more than `maxCells` cells. Returns [''] (the whole
+ * world — an empty prefix matches every hash) when even one-character cells
+ * would exceed the budget.
+ */
+export function geohashCellsForBounds(
+  bounds: GeoBounds,
+  maxCells: number = DEFAULT_MAX_CELLS,
+): string[] {
+  const lonSpan = bounds.minLon <= bounds.maxLon
+    ? bounds.maxLon - bounds.minLon
+    : bounds.maxLon + 360 - bounds.minLon;
+
+  for (let precision = GEOHASH_PRECISION; precision >= 1; precision--) {
+    const { latDegrees, lonDegrees } = geohashCellSize(precision);
+    const rowStart = Math.floor((bounds.minLat + 90) / latDegrees);
+    const rowEnd = Math.min(
+      Math.floor((bounds.maxLat + 90) / latDegrees),
+      Math.round(180 / latDegrees) - 1,
+    );
+    const columns = Math.round(360 / lonDegrees);
+    const colStart = Math.floor((bounds.minLon + 180) / lonDegrees);
+    const colEnd = Math.floor((bounds.minLon + lonSpan + 180) / lonDegrees);
+    const colCount = Math.min(colEnd - colStart + 1, columns);
+
+    if ((rowEnd - rowStart + 1) * colCount > maxCells) continue;
+
+    const cells = new Set<string>();
+    for (let row = rowStart; row <= rowEnd; row++) {
+      for (let i = 0; i < colCount; i++) {
+        const col = (colStart + i) % columns;
+        // Encode the cell's center so floating-point edges can't spill
+        // into a neighbor.
+        const lat = -90 + (row + 0.5) * latDegrees;
+        const lon = -180 + (col + 0.5) * lonDegrees;
+        cells.add(encodeGeohash(lat, lon, precision));
+      }
+    }
+    return Array.from(cells);
+  }
+  return [''];
+}
+
+/**
+ * Great-circle distance in km.
+ */
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function wrapLongitude(lon: number): number {
+  if (lon > 180) return lon - 360;
+  if (lon < -180) return lon + 360;
+  return lon;
+}
@@ -0,0 +1,183 @@
+/**
+ * iconicChecklists — group curated best_eats into per-city checklists
+ * ("Portland's iconic eats: 7/25") and work out a user's progress on them.
+ *
+ * Pure, so the sync script (scripts/syncIconicChecklists.js, through
+ * @babel/register), the app and __tests__/iconicChecklists.test.ts build the
+ * same lists. functions/iconicChecklists.js mirrors checklistProgress for
+ * the unlock trigger — keep the two in sync.
+ *
+ * Rules:
+ *   - Only active eats with a city are listed. Cities compare
+ *     case-insensitively (best_eats has both "portland" and "Portland").
+ *   - Every city gets one checklist of all its eats; each category in it
+ *     with at least MIN_CATEGORY_ITEMS eats gets its own as well.
+ *   - Ids are stable slugs: `portland`, `portland--hidden-gem`. Completing a
+ *     checklist earns the `iconic_<id>` stamp (an iconic_checklist criteria
+ *     over the checklist's eat ids).
+ *   - Remaining items sort nearest first when there's an origin, otherwise
+ *     by dish name.
+ */
+import type { AchievementDefinition } from '../types/achievements';
+import { haversineKm } from './geohash';
+
+export const MIN_CATEGORY_ITEMS = 3;
+
+export interface IconicChecklistItem {
+  id: string; // best_eats doc id
+  dish_name: string;
+  restaurant_name: string;
+  category: string | null;
+  latitude: number;
+  longitude: number;
+  emoji_url: string | null;
+}
+
+export interface IconicChecklist {
+  id: string;
+  city: string; // lowercased
+  category: string | null; // null for the whole-city list
+  title: string;
+  items: IconicChecklistItem[];
+}
+
+export interface IconicChecklistProgress {
+  checklistId: string;
+  total: number;
+  unlocked: number;
+  unlockedEatIds: string[];
+  complete: boolean;
+}
+
+export interface IconicChecklistSource {
+  id: string;
+  dish_name?: string;
+  restaurant_name?: string;
+  category?: string | null;
+  city?: string | null;
+  active?: boolean;
+  latitude?: number;
+  longitude?: number;
+  emoji_url?: string | null;
+}
+
+const slug = (value: string) =>
+  value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const titleCase = (value: string) => value.replace(/\b\w/g, c => c.toUpperCase());
+
+export const iconicChecklistId = (city: string, category?: string | null): string =>
+  category ? `${slug(city)}--${slug(category)}` : slug(city);
+
+export const iconicChecklistTitle = (city: string, category?: string | null): string =>
+  category ? `${titleCase(city)} · ${category}` : `${titleCase(city)}'s iconic eats`;
+
+const byDishName = (a: IconicChecklistItem, b: IconicChecklistItem) => a.dish_name.localeCompare(b.dish_name);
+
+export function buildIconicChecklists(eats: IconicChecklistSource[]): IconicChecklist[] {
+  const byCity = new Map<string, IconicChecklistItem[]>();
+  eats.forEach(eat => {
+    const city = (eat.city || '').toLowerCase().trim();
+    if (eat.active === false || !city) return;
+    byCity.set(city, [
+      ...(byCity.get(city) || []),
+      {
+        id: eat.id,
+        dish_name: eat.dish_name || '',
+        restaurant_name: eat.restaurant_name || '',
+        category: eat.category?.trim() || null,
+        latitude: eat.latitude ?? 0,
+        longitude: eat.longitude ?? 0,
+        emoji_url: eat.emoji_url || null,
+      },
+    ]);
+  });
+
+  const checklists: IconicChecklist[] = [];
+  [...byCity.keys()].sort().forEach(city => {
+    const items = byCity.get(city)!.sort(byDishName);
+    checklists.push({ id: iconicChecklistId(city), city, category: null, title: iconicChecklistTitle(city), items });
+
+    const byCategory = new Map<string, IconicChecklistItem[]>();
+    items.forEach(item => {
+      if (!item.category) return;
+      const key = item.category.toLowerCase();
+      byCategory.set(key, [...(byCategory.get(key) || []), item]);
+    });
+    [...byCategory.values()]
+      .filter(group => group.length >= MIN_CATEGORY_ITEMS)
+      .sort((a, b) => a[0].category!.localeCompare(b[0].category!))
+      .forEach(group => {
+        const category = group[0].category!;
+        checklists.push({
+          id: iconicChecklistId(city, category),
+          city,
+          category,
+          title: iconicChecklistTitle(city, category),
+          items: group,
+        });
+      });
+  });
+  return checklists;
+}
+
+export function checklistProgress(checklist: IconicChecklist, unlocked: Iterable<string>): IconicChecklistProgress {
+  const held = new Set(unlocked);
+  const unlockedEatIds = checklist.items.filter(item => held.has(item.id)).map(item => item.id);
+  return {
+    checklistId: checklist.id,
+    total: checklist.items.length,
+    unlocked: unlockedEatIds.length,
+    unlockedEatIds,
+    complete: checklist.items.length > 0 && unlockedEatIds.length === checklist.items.length,
+  };
+}
+
+/** Items still to unlock, nearest `origin` first, each with its distance in km. */
+export function remainingChecklistItems(
+  checklist: IconicChecklist,
+  unlocked: Iterable<string>,
+  origin: { latitude: number; longitude: number } | null,
+): (IconicChecklistItem & { distance?: number })[] {
+  const held = new Set(unlocked);
+  const remaining = checklist.items.filter(item => !held.has(item.id));
+  if (!origin) return remaining;
+  return remaining
+    .map(item => ({
+      ...item,
+      distance: haversineKm(origin.latitude, origin.longitude, item.latitude, item.longitude),
+    }))
+    .sort((a, b) => a.distance - b.distance);
+}
+
+/** Checklists an eat belongs to, whole-city list first. */
+export const checklistsForEat = (checklists: IconicChecklist[], eatId: string): IconicChecklist[] =>
+  checklists
+    .filter(checklist => checklist.items.some(item => item.id === eatId))
+    .sort((a, b) => Number(a.category !== null) - Number(b.category !== null));
+
+export const checklistAchievementId = (checklistId: string) => `iconic_${checklistId}`;
+
+/**
+ * The completion stamp for a checklist, ordered after the bundled ones.
+ * Artwork falls back to the first dish's pixel emoji.
+ */
+export function checklistAchievementDefinition(checklist: IconicChecklist, order: number): AchievementDefinition {
+  const id = checklistAchievementId(checklist.id);
+  const city = titleCase(checklist.city);
+  const emoji = checklist.items.find(item => item.emoji_url)?.emoji_url;
+  return {
+    id,
+    name: checklist.category ? `${city} ${checklist.category} Set` : `Taste of ${city}`,
+    description: `Unlocked all ${checklist.items.length} of ${checklist.title}!`,
+    image: `${id}.png`,
+    ...(emoji ? { imageUrl: emoji } : {}),
+    criteria: { type: 'iconic_checklist', iconicEatIds: checklist.items.map(item => item.id) },
+    active: true,
+    order,
+  };
+}
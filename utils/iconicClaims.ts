@@ -0,0 +1,182 @@
+/**
+ * iconicClaims — score a user's claim that one of their meals is a given
+ * iconic eat, for the cases the automatic matcher misses (the dish logged
+ * under another name, GPS off by a block, no place_id).
+ *
+ * Pure. The app uses it to rank which meals to offer in the claim picker;
+ * functions/iconicClaims.js mirrors it and is the one that decides — keep
+ * the two in sync and bump CLAIM_SCORING_VERSION when weights change, so
+ * reviewed claims can be compared across versions when tuning.
+ *
+ * Rules:
+ *   - Three signals, each 0..1: place (same place_id, else distance bands
+ *     out to 5 km, else a same-city floor), restaurant name (trigram
+ *     similarity, or CLAIM_LOOSE_NAME_SCORE when the names loosely match)
+ *     and dish name (trigram similarity, 1 when one contains the other).
+ *   - score = 0.35 place + 0.25 restaurant + 0.4 dish, rounded to 3 places.
+ *     Every input is a field the user can edit on their own meal, so the
+ *     score only ranks claims and sorts the review queue.
+ *   - Auto-approval also needs evidence the server read itself: GPS in the
+ *     meal photo's EXIF within CLAIM_VERIFIED_MAX_KM of the eat, and the
+ *     photo taken within CLAIM_PHOTO_MAX_AGE_HOURS of the meal doc's server
+ *     create time. Claims scoring CLAIM_AUTO_APPROVE_SCORE or more with that
+ *     evidence are approved on the spot; everything else waits for review —
+ *     nothing is auto-rejected on score alone. The app has no evidence, so
+ *     it never predicts an auto-approval.
+ *   - A meal already linked to a different iconic eat can't be claimed.
+ */
+import { haversineKm, normalizeName, restaurantsLooselyMatch, trigramSimilarity } from './iconicMatching';
+
+export const CLAIM_SCORING_VERSION = 2;
+export const CLAIM_AUTO_APPROVE_SCORE = 0.8;
+export const CLAIM_VERIFIED_MAX_KM = 0.25;
+// EXIF times carry no zone, so this leaves room for the offset
+export const CLAIM_PHOTO_MAX_AGE_HOURS = 48;
+// Below this a meal isn't worth offering in the picker
+export const CLAIM_CANDIDATE_MIN_SCORE = 0.2;
+const CLAIM_LOOSE_NAME_SCORE = 0.8;
+const WEIGHTS = { place: 0.35, restaurant: 0.25, dish: 0.4 };
+// [max km, place score], nearest first
+const DISTANCE_BANDS: [number, number][] = [
+  [0.05, 1],
+  [0.25, 0.75],
+  [1, 0.4],
+  [5, 0.1],
+];
+const SAME_CITY_PLACE_SCORE = 0.2;
+
+export type IconicClaimStatus = 'submitted' | 'approved' | 'pending_review' | 'rejected' | 'duplicate';
+
+export interface IconicClaimMeal {
+  meal?: string | null;
+  restaurant?: string | null;
+  place_id?: string | null;
+  city?: string | null;
+  location?: { latitude?: number; longitude?: number; city?: string } | null;
+  iconic_eat_id?: string | null;
+}
+
+export interface IconicClaimEat {
+  id: string;
+  dish_name: string;
+  restaurant_name: string;
+  place_id?: string | null;
+  city?: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+// What the server read for itself: the photo's EXIF and the meal doc's
+// create time, never fields of the meal
+export interface IconicClaimEvidence {
+  photoLocation: { latitude: number; longitude: number } | null;
+  photoTakenAt: Date | null;
+  mealCreatedAt: Date | null;
+}
+
+export interface IconicClaimSignals {
+  placeIdMatch: boolean;
+  distanceKm: number | null;
+  sameCity: boolean;
+  placeScore: number;
+  restaurantScore: number;
+  dishScore: number;
+  photoDistanceKm: number | null;
+  photoAgeHours: number | null;
+  verified: boolean;
+}
+
+export interface IconicClaimScore {
+  score: number;
+  autoApprove: boolean;
+  signals: IconicClaimSignals;
+  version: number;
+}
+
+const round = (n: number, places = 3) => Math.round(n * 10 ** places) / 10 ** places;
+
+const mealCity = (meal: IconicClaimMeal) => (meal.city || meal.location?.city || '').toLowerCase().trim();
+
+const dishScore = (a?: string | null, b?: string | null): number => {
+  const na = normalizeName(a);
+  const nb = normalizeName(b);
+  if (!na || !nb) return 0;
+  if (na.includes(nb) || nb.includes(na)) return 1;
+  return trigramSimilarity(na, nb);
+};
+
+const verifyEvidence = (evidence: IconicClaimEvidence | null | undefined, eat: IconicClaimEat) => {
+  const { photoLocation, photoTakenAt, mealCreatedAt } = evidence || {};
+  const photoDistanceKm = photoLocation
+    ? round(haversineKm(photoLocation.latitude, photoLocation.longitude, eat.latitude, eat.longitude))
+    : null;
+  const photoAgeHours =
+    photoTakenAt && mealCreatedAt
+      ? round(Math.abs(mealCreatedAt.getTime() - photoTakenAt.getTime()) / 3600000, 1)
+      : null;
+  const verified =
+    photoDistanceKm !== null &&
+    photoDistanceKm <= CLAIM_VERIFIED_MAX_KM &&
+    photoAgeHours !== null &&
+    photoAgeHours <= CLAIM_PHOTO_MAX_AGE_HOURS;
+  return { photoDistanceKm, photoAgeHours, verified };
+};
+
+export function scoreIconicClaim(
+  meal: IconicClaimMeal,
+  eat: IconicClaimEat,
+  evidence?: IconicClaimEvidence | null,
+): IconicClaimScore {
+  const placeIdMatch = !!meal.place_id && !!eat.place_id && meal.place_id === eat.place_id;
+  const { latitude, longitude } = meal.location || {};
+  const distanceKm =
+    typeof latitude === 'number' && typeof longitude === 'number'
+      ? haversineKm(latitude, longitude, eat.latitude, eat.longitude)
+      : null;
+  const sameCity = !!eat.city && mealCity(meal) === eat.city.toLowerCase().trim();
+
+  const band = distanceKm === null ? undefined : DISTANCE_BANDS.find(([km]) => distanceKm <= km);
+  const placeScore = placeIdMatch ? 1 : Math.max(band ? band[1] : 0, sameCity ? SAME_CITY_PLACE_SCORE : 0);
+  const restaurantScore = placeIdMatch
+    ? 1
+    : Math.max(
+        trigramSimilarity(meal.restaurant || '', eat.restaurant_name),
+        restaurantsLooselyMatch(meal.restaurant, eat.restaurant_name) ? CLAIM_LOOSE_NAME_SCORE : 0,
+      );
+  const dish = dishScore(meal.meal, eat.dish_name);
+
+  const score = round(WEIGHTS.place * placeScore + WEIGHTS.restaurant * restaurantScore + WEIGHTS.dish * dish);
+  const verification = verifyEvidence(evidence, eat);
+  return {
+    score,
+    autoApprove: score >= CLAIM_AUTO_APPROVE_SCORE && verification.verified,
+    signals: {
+      placeIdMatch,
+      distanceKm: distanceKm === null ? null : round(distanceKm),
+      sameCity,
+      placeScore: round(placeScore),
+      restaurantScore: round(restaurantScore),
+      dishScore: round(dish),
+      ...verification,
+    },
+    version: CLAIM_SCORING_VERSION,
+  };
+}
+
+/** Why a meal can't back a claim for `eatId`, or null when it can. */
+export const claimIneligibility = (meal: IconicClaimMeal, eatId: string): 'linked_elsewhere' | null =>
+  meal.iconic_eat_id && meal.iconic_eat_id !== eatId ? 'linked_elsewhere' : null;
+
+/** The user's meals worth offering for a claim, best match first. */
+export function rankClaimCandidates<M extends IconicClaimMeal>(
+  meals: M[],
+  eat: IconicClaimEat,
+  limit: number,
+): { meal: M; claim: IconicClaimScore }[] {
+  return meals
+    .filter(meal => !claimIneligibility(meal, eat.id))
+    .map(meal => ({ meal, claim: scoreIconicClaim(meal, eat) }))
+    .filter(({ claim }) => claim.score >= CLAIM_CANDIDATE_MIN_SCORE)
+    .sort((a, b) => b.claim.score - a.claim.score)
+    .slice(0, limit);
+}
@@ -1,139 +1,333 @@
 /**
- * mealSearch — in-memory text search across meal entries.
+ * mealSearch — in-memory ranked text search across meal entries.
  *
  * Searches across canonical v2.0 metadata fields so a user can type
  * "vegetarian spicy" and get all meals that are both vegetarian AND spicy,
  * regardless of how the data was originally tagged.
  *
- * Multi-word queries are AND-ed: every token in the query must match somewhere
- * in the meal's searchable surface. Matching is lowercase substring.
+ * How it works:
+ *   - buildMealSearchIndex() builds an inverted index (term → postings) once
+ *     per meal set. Each posting remembers the field group and the character
+ *     span it came from so results can be highlighted.
+ *   - Multi-word queries are AND-ed: every query token must match somewhere.
+ *   - A token matches a term exactly, as a prefix ("ram" → "ramen"), by
+ *     trigram similarity ("raman" → "ramen", reusing iconicMatching), or via
+ *     a canonical synonym ("veggie" → "vegetarian", see VOCAB_SYNONYMS).
+ *   - Each hit is weighted by its field boost (dish > restaurant >
+ *     ingredients > tags > notes) times how exact the match was. Results are
+ *     sorted by total score; ties keep the input order.
  *
  * Designed to be called from FoodPassportScreen after faceted filters have
  * been applied, so search composes cleanly with quick-filter chips.
  */
 
-export interface SearchableMeal {
-  id?: string;
-  meal?: string;
-  restaurant?: string;
+import type { MealEntry } from '../types/mealEntry';
+import { VOCAB_SYNONYMS } from '../constants/canonicalVocab';
+import { trigramSimilarity } from './iconicMatching';
+
+/**
+ * The slice of a MealEntry that search reads. Legacy `aiMetadata` is still
+ * searched as a fallback for un-migrated meals.
+ */
+export type SearchableMeal = Partial<
+  Pick<MealEntry, 'id' | 'meal' | 'restaurant' | 'comments' | 'metadata_enriched' | 'aiMetadata'>
+> & {
   notes?: string;
-  comments?: string;
   thoughts?: string;
-  metadata_enriched?: {
-    dish_specific?: string;
-    dish_general?: string;
-    cuisine_type?: string;
-    cooking_method?: string;
-    meal_type?: string;
-    heat_level?: string;
-    richness?: string;
-    primary_protein?: string;
-    primary_carb?: string;
-    presentation_style?: string;
-    dietary_info?: string[];
-    flavor_profile?: string[];
-    texture?: string[];
-    key_ingredients?: string[];
-    interesting_ingredient?: string;
+};
+
+export type SearchField = 'dish' | 'restaurant' | 'ingredients' | 'tags' | 'notes';
+
+export const SEARCH_FIELD_BOOSTS: Record<SearchField, number> = {
+  dish: 5,
+  restaurant: 3,
+  ingredients: 2,
+  tags: 1.5,
+  notes: 1,
+};
+
+// Match-quality multipliers applied on top of the field boost.
+const PREFIX_FACTOR = 0.85;
+const SYNONYM_FACTOR = 0.8;
+// Fuzzy hits score their similarity (0.4–1) times this.
+const FUZZY_FACTOR = 0.7;
+// Trigram Jaccard floor for typo tolerance. "raman" vs "ramen" is exactly 0.4.
+const FUZZY_THRESHOLD = 0.4;
+const MIN_PREFIX_LENGTH = 3;
+const MIN_FUZZY_LENGTH = 4;
+
+/** A highlighted region inside one of the meal's source strings. */
+export interface MatchSpan {
+  field: SearchField;
+  text: string; // the source string the span indexes into
+  start: number;
+  end: number;
+}
+
+export interface MealSearchResult<T> {
+  meal: T;
+  score: number;
+  matches: MatchSpan[];
+}
+
+export interface MealSearchIndex<T> {
+  size: number;
+  search: (query: string) => MealSearchResult<T>[];
+}
+
+interface Posting {
+  doc: number;
+  field: SearchField;
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Hyphenated canonical values ("gluten-free") are kept whole as one term and
+// also split into their parts, so both "gluten-free" and "gluten" hit.
+const TERM_PATTERN = /[a-z0-9]+(?:-[a-z0-9]+)*/g;
+
+/**
+ * Every searchable string on a meal, tagged with its field group.
+ */
+function collectFieldTexts(meal: SearchableMeal): { field: SearchField; text: string }[] {
+  const out: { field: SearchField; text: string }[] = [];
+  const push = (field: SearchField, v: unknown) => {
+    if (typeof v === 'string' && v.length > 0) out.push({ field, text: v });
   };
-  // Legacy fields — still searched as a fallback for un-migrated meals.
-  aiMetadata?: {
-    cuisineType?: string;
-    foodType?: string | string[];
+  const pushArray = (field: SearchField, v: unknown) => {
+    if (Array.isArray(v)) v.forEach(x => push(field, x));
   };
+
+  const enriched = meal.metadata_enriched;
+  const legacy = meal.aiMetadata;
+
+  push('dish', meal.meal);
+  push('dish', enriched?.dish_specific);
+  push('dish', enriched?.dish_general);
+  if (Array.isArray(legacy?.foodType)) {
+    pushArray('dish', legacy?.foodType);
+  } else {
+    push('dish', legacy?.foodType);
+  }
+
+  push('restaurant', meal.restaurant);
+
+  pushArray('ingredients', enriched?.key_ingredients);
+  push('ingredients', enriched?.interesting_ingredient);
+  push('ingredients', enriched?.primary_protein);
+  push('ingredients', enriched?.primary_carb);
+
+  push('tags', enriched?.cuisine_type);
+  push('tags', enriched?.cooking_method);
+  push('tags', enriched?.meal_type);
+  push('tags', enriched?.heat_level);
+  push('tags', enriched?.richness);
+  push('tags', enriched?.presentation_style);
+  pushArray('tags', enriched?.dietary_info);
+  pushArray('tags', enriched?.flavor_profile);
+  pushArray('tags', enriched?.texture);
+  push('tags', legacy?.cuisineType);
+
+  push('notes', meal.notes);
+  push('notes', meal.thoughts);
+  push('notes', meal.comments?.thoughts);
+  push('notes', meal.comments?.liked);
+  push('notes', meal.comments?.disliked);
+
+  return out;
 }
 
 /**
- * Flatten every searchable field of a meal into one lowercase string.
- * The returned haystack is what tokens are matched against.
+ * Tokenize a query into lowercase terms. Quotes and punctuation are treated
+ * as whitespace.
  */
-function buildHaystack(meal: SearchableMeal): string {
-  const parts: string[] = [];
+function tokenize(query: string): string[] {
+  return query.toLowerCase().match(TERM_PATTERN) || [];
+}
 
-  const pushIfString = (v: unknown) => {
-    if (typeof v === 'string' && v.length > 0) parts.push(v);
+/**
+ * Build an inverted index over a meal set. Build once per set (e.g. in a
+ * useMemo keyed on the meals array) and call `search` per keystroke.
+ */
+export function buildMealSearchIndex<T extends SearchableMeal>(meals: T[]): MealSearchIndex<T> {
+  const postings = new Map<string, Posting[]>();
+
+  const add = (term: string, posting: Posting) => {
+    const list = postings.get(term);
+    if (list) list.push(posting);
+    else postings.set(term, [posting]);
   };
-  const pushArray = (v: unknown) => {
-    if (Array.isArray(v)) {
-      v.forEach(pushIfString);
+
+  meals.forEach((meal, doc) => {
+    collectFieldTexts(meal).forEach(({ field, text }) => {
+      const lower = text.toLowerCase();
+      TERM_PATTERN.lastIndex = 0;
+      let m: RegExpExecArray | null;
+      while ((m = TERM_PATTERN.exec(lower)) !== null) {
+        const start = m.index;
+        const end = start + m[0].length;
+        add(m[0], { doc, field, text, start, end });
+        if (m[0].includes('-')) {
+          let offset = start;
+          m[0].split('-').forEach(part => {
+            add(part, { doc, field, text, start: offset, end: offset + part.length });
+            offset += part.length + 1;
+          });
+        }
+      }
+    });
+
+    // "spicy" matches any non-"none" heat level, so legacy mental models
+    // still work ("spicy" typed, heat_level: "medium" meal). No span — the
+    // word doesn't appear in the meal's text.
+    const heat = meal.metadata_enriched?.heat_level;
+    if (heat && heat !== 'none') {
+      add('spicy', { doc, field: 'tags', text: '', start: 0, end: 0 });
+    }
+  });
+
+  const vocabulary = Array.from(postings.keys());
+
+  // term → best factor it can contribute for a query token
+  const expandToken = (token: string): Map<string, number> => {
+    const terms = new Map<string, number>();
+    const offer = (term: string, factor: number) => {
+      if (postings.has(term) && factor > (terms.get(term) ?? 0)) terms.set(term, factor);
+    };
+
+    offer(token, 1);
+    (VOCAB_SYNONYMS[token] || []).forEach(syn => offer(syn, SYNONYM_FACTOR));
+
+    if (token.length >= MIN_PREFIX_LENGTH) {
+      vocabulary.forEach(term => {
+        if (term === token) return;
+        if (token.length >= MIN_PREFIX_LENGTH && term.startsWith(token)) {
+          offer(term, PREFIX_FACTOR);
+        } else if (token.length >= MIN_FUZZY_LENGTH && Math.abs(term.length - token.length) <= 3) {
+          const sim = trigramSimilarity(token, term);
+          if (sim >= FUZZY_THRESHOLD) offer(term, sim * FUZZY_FACTOR);
+        }
+      });
     }
+    return terms;
   };
 
-  // Top-level fields users think about.
-  pushIfString(meal.meal);
-  pushIfString(meal.restaurant);
-  pushIfString(meal.notes);
-  pushIfString(meal.comments);
-  pushIfString(meal.thoughts);
+  const search = (query: string): MealSearchResult<T>[] => {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) {
+      return meals.map(meal => ({ meal, score: 0, matches: [] }));
+    }
 
-  const enriched = meal.metadata_enriched;
-  if (enriched) {
-    pushIfString(enriched.dish_specific);
-    pushIfString(enriched.dish_general);
-    pushIfString(enriched.cuisine_type);
-    pushIfString(enriched.cooking_method);
-    pushIfString(enriched.meal_type);
-    pushIfString(enriched.heat_level);
-    pushIfString(enriched.richness);
-    pushIfString(enriched.primary_protein);
-    pushIfString(enriched.primary_carb);
-    pushIfString(enriched.presentation_style);
-    pushIfString(enriched.interesting_ingredient);
-    pushArray(enriched.dietary_info);
-    pushArray(enriched.flavor_profile);
-    pushArray(enriched.texture);
-    pushArray(enriched.key_ingredients);
-  }
+    const scores = new Map<number, number>();
+    const spans = new Map<number, MatchSpan[]>();
+    let candidates: Set<number> | null = null;
 
-  // Legacy metadata fallback for un-migrated meals.
-  if (meal.aiMetadata) {
-    pushIfString(meal.aiMetadata.cuisineType);
-    if (Array.isArray(meal.aiMetadata.foodType)) {
-      pushArray(meal.aiMetadata.foodType);
-    } else {
-      pushIfString(meal.aiMetadata.foodType);
+    for (const token of tokens) {
+      // doc → field → best factor for this token
+      const best = new Map<number, Map<SearchField, number>>();
+      expandToken(token).forEach((factor, term) => {
+        (postings.get(term) || []).forEach(p => {
+          if (candidates && !candidates.has(p.doc)) return;
+          let fields = best.get(p.doc);
+          if (!fields) {
+            fields = new Map();
+            best.set(p.doc, fields);
+          }
+          if (factor > (fields.get(p.field) ?? 0)) fields.set(p.field, factor);
+          if (p.end > p.start) {
+            const list = spans.get(p.doc) || [];
+            list.push({ field: p.field, text: p.text, start: p.start, end: p.end });
+            spans.set(p.doc, list);
+          }
+        });
+      });
+
+      // AND semantics: only docs that matched every token so far survive.
+      candidates = new Set(best.keys());
+      best.forEach((fields, doc) => {
+        let tokenScore = 0;
+        fields.forEach((factor, field) => {
+          tokenScore += factor * SEARCH_FIELD_BOOSTS[field];
+        });
+        scores.set(doc, (scores.get(doc) ?? 0) + tokenScore);
+      });
+      if (candidates.size === 0) return [];
     }
-  }
 
-  // Also treat the word "spicy" as matching any non-"none" heat level, so
-  // legacy mental models still work. ("spicy" typed, heat_level: "medium" meal)
-  if (enriched?.heat_level && enriched.heat_level !== 'none') {
-    parts.push('spicy');
-  }
+    const results: MealSearchResult<T>[] = [];
+    (candidates || new Set<number>()).forEach(doc => {
+      results.push({
+        meal: meals[doc],
+        score: scores.get(doc) ?? 0,
+        matches: dedupeSpans(spans.get(doc) || []),
+      });
+    });
+    const order = new Map(meals.map((m, i) => [m, i]));
+    results.sort((a, b) => b.score - a.score || (order.get(a.meal) ?? 0) - (order.get(b.meal) ?? 0));
+    return results;
+  };
 
-  return parts.join(' ').toLowerCase();
+  return { size: meals.length, search };
+}
+
+function dedupeSpans(spans: MatchSpan[]): MatchSpan[] {
+  const seen = new Set<string>();
+  return spans.filter(s => {
+    const key = `${s.field}|${s.text}|${s.start}|${s.end}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
 }
 
 /**
- * Tokenize a query into lowercase words. Handles multiple spaces, quotes
- * are ignored (treated as whitespace).
+ * Split `text` into plain/highlighted segments using the spans that point
+ * into it. Overlapping spans are merged. Render each segment as a nested
+ * <Text>, bolding the highlighted ones.
  */
-function tokenize(query: string): string[] {
-  return query
-    .toLowerCase()
-    .replace(/["']/g, ' ')
-    .split(/\s+/)
-    .filter(t => t.length > 0);
+export function highlightSegments(
+  text: string,
+  matches: MatchSpan[],
+): { text: string; highlighted: boolean }[] {
+  const ranges = matches
+    .filter(m => m.text === text && m.end > m.start)
+    .map(m => [m.start, m.end] as [number, number])
+    .sort((a, b) => a[0] - b[0]);
+  if (ranges.length === 0) return [{ text, highlighted: false }];
+
+  const merged: [number, number][] = [];
+  ranges.forEach(([s, e]) => {
+    const last = merged[merged.length - 1];
+    if (last && s <= last[1]) last[1] = Math.max(last[1], e);
+    else merged.push([s, e]);
+  });
+
+  const out: { text: string; highlighted: boolean }[] = [];
+  let cursor = 0;
+  merged.forEach(([s, e]) => {
+    if (s > cursor) out.push({ text: text.slice(cursor, s), highlighted: false });
+    out.push({ text: text.slice(s, e), highlighted: true });
+    cursor = e;
+  });
+  if (cursor < text.length) out.push({ text: text.slice(cursor), highlighted: false });
+  return out;
 }
 
 /**
- * Search a list of meals against a free-text query.
+ * Search a list of meals against a free-text query, best match first.
  *
  * - Empty/whitespace queries return the input unchanged.
  * - All tokens must match (AND semantics).
- * - Matching is lowercase substring on a flattened haystack.
+ * Builds a throwaway index; prefer buildMealSearchIndex when searching the
+ * same set repeatedly.
  */
 export function searchMeals<T extends SearchableMeal>(
   query: string,
   meals: T[]
 ): T[] {
-  const tokens = tokenize(query);
-  if (tokens.length === 0) return meals;
-
-  return meals.filter(meal => {
-    const haystack = buildHaystack(meal);
-    return tokens.every(token => haystack.includes(token));
-  });
+  if (tokenize(query).length === 0) return meals;
+  return buildMealSearchIndex(meals).search(query).map(r => r.meal);
 }
 
 /**
@@ -141,8 +335,6 @@ export function searchMeals<T extends SearchableMeal>(
  * Useful inside existing filter pipelines that already loop over meals.
  */
 export function mealMatchesQuery(meal: SearchableMeal, query: string): boolean {
-  const tokens = tokenize(query);
-  if (tokens.length === 0) return true;
-  const haystack = buildHaystack(meal);
-  return tokens.every(token => haystack.includes(token));
+  if (tokenize(query).length === 0) return true;
+  return buildMealSearchIndex([meal]).search(query).length > 0;
 }
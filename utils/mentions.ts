@@ -0,0 +1,124 @@
+/**
+ * mentions — @mention parsing for comments.
+ *
+ * Users don't have unique handles, so a mention is `@` + display name
+ * (which may contain spaces). The composer records who was picked from the
+ * suggestion list; on submit, resolveMentions keeps the picks whose
+ * `@Name` is still in the text and also resolves names typed by hand
+ * against the users already in the thread. Resolved mentions are stored on
+ * the comment as {userId, name} so renderers can highlight them and the
+ * service can notify exactly those user ids.
+ */
+
+export interface CommentMention {
+  userId: string;
+  name: string;
+}
+
+export interface MentionQuery {
+  query: string; // text typed after '@'
+  start: number; // index of the '@'
+}
+
+export interface MentionSegment {
+  text: string;
+  mention?: CommentMention;
+}
+
+// Stop looking back for an '@' after this many characters (names are short).
+const MAX_QUERY_LENGTH = 30;
+
+const isBoundary = (ch: string | undefined) => ch === undefined || /[\s(]/.test(ch);
+
+/**
+ * The in-progress `@query` ending at `cursor`, or null. Allows spaces so
+ * "@Manu La" still matches "Manu Lakkur", but stops at a newline or a
+ * second '@'.
+ */
+export function findMentionQuery(text: string, cursor: number = text.length): MentionQuery | null {
+  const from = Math.max(0, cursor - MAX_QUERY_LENGTH - 1);
+  for (let i = cursor - 1; i >= from; i--) {
+    const ch = text[i];
+    if (ch === '\n') return null;
+    if (ch === '@') {
+      if (!isBoundary(text[i - 1])) return null;
+      return { query: text.slice(i + 1, cursor), start: i };
+    }
+  }
+  return null;
+}
+
+/**
+ * Replace the in-progress query with `@Name ` and return the new text and
+ * cursor position.
+ */
+export function insertMention(
+  text: string,
+  query: MentionQuery,
+  cursor: number,
+  user: CommentMention,
+): { text: string; cursor: number } {
+  const inserted = `@${user.name} `;
+  return {
+    text: text.slice(0, query.start) + inserted + text.slice(cursor),
+    cursor: query.start + inserted.length,
+  };
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentionPattern = (name: string) =>
+  new RegExp(`(^|[\\s(])@${escapeRegExp(name)}(?=$|[\\s.,!?:;)'"])`, 'gi');
+
+/**
+ * Mentions actually present in `text`. `picked` (from the suggestion list)
+ * win over `known` (thread participants), which resolve
+ * hand-typed names. Longer names are matched first and their text masked,
+ * so "@Ana Maria" isn't also read as "@Ana". Deduped by user id.
+ */
+export function resolveMentions(
+  text: string,
+  picked: CommentMention[],
+  known: CommentMention[] = [],
+): CommentMention[] {
+  const seen = new Set<string>();
+  const out: CommentMention[] = [];
+  // Stable sort keeps picked ahead of known at equal length.
+  const candidates = [...picked, ...known].sort((a, b) => b.name.length - a.name.length);
+  let remaining = text;
+  for (const candidate of candidates) {
+    if (!candidate.name || seen.has(candidate.userId)) continue;
+    const pattern = mentionPattern(candidate.name);
+    if (!pattern.test(remaining)) continue;
+    seen.add(candidate.userId);
+    out.push(candidate);
+    remaining = remaining.replace(mentionPattern(candidate.name), (match, lead) =>
+      lead + ' '.repeat(match.length - lead.length),
+    );
+  }
+  return out;
+}
+
+/**
+ * Split text into plain and mention segments for rendering.
+ */
+export function splitMentions(text: string, mentions: CommentMention[] = []): MentionSegment[] {
+  if (mentions.length === 0) return [{ text }];
+  const byName = new Map(mentions.map(m => [m.name.toLowerCase(), m]));
+  const names = [...mentions]
+    .sort((a, b) => b.name.length - a.name.length)
+    .map(m => escapeRegExp(m.name));
+  const pattern = new RegExp(`@(${names.join('|')})`, 'gi');
+
+  const segments: MentionSegment[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (!isBoundary(text[match.index - 1])) continue;
+    if (match.index > last) segments.push({ text: text.slice(last, match.index) });
+    segments.push({ text: match[0], mention: byName.get(match[1].toLowerCase()) });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+}
@@ -0,0 +1,233 @@
+/**
+ * notificationGrouping — collapse, schedule and summarise in-app notifications.
+ *
+ * inAppNotificationService still writes one document per cheer / comment /
+ * follow; grouping happens when they're read. Notifications of the same
+ * type on the same meal (or all follows) that land within GROUP_WINDOW_MS of
+ * each other become one row: "Alex and 4 others cheered your Tonkotsu".
+ *
+ * Quiet hours and the daily digest are computed here too, in local time,
+ * from a user's NotificationPreferences (services/notificationPreferencesService.ts).
+ * Everything in this module is pure so the delivery service and the screen
+ * share the same rules.
+ */
+import type { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import type { InAppNotification } from '../services/inAppNotificationService';
+import type { NotificationPreferences, QuietHours } from '../services/notificationPreferencesService';
+
+export interface NotificationGroup {
+  key: string; // type, target and the oldest item's id; stable as items arrive
+  type: InAppNotification['type'];
+  mealId?: string;
+  mealName?: string;
+  actors: InAppNotification['fromUser'][]; // distinct, newest first
+  notifications: InAppNotification[]; // newest first
+  latest: InAppNotification;
+  message: string;
+  read: boolean; // false while any item is unread
+  createdAt: Date; // newest item
+}
+
+export interface NotificationDigest {
+  title: string;
+  body: string;
+  count: number; // unread notifications summarised
+  notificationIds: string[];
+}
+
+// Follows within a day read as one burst; older ones get their own row.
+export const GROUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DIGEST_BODY_LINES = 3;
+const MINUTES_PER_DAY = 24 * 60;
+
+// Mentions and system notices are personal — always one row each.
+const GROUPABLE_TYPES: InAppNotification['type'][] = ['cheers', 'comment', 'reply', 'follow'];
+
+export const notificationDate = (value: FirebaseFirestoreTypes.Timestamp | Date | null | undefined): Date => {
+  if (!value) return new Date(0);
+  if (value instanceof Date) return value;
+  return typeof value.toDate === 'function' ? value.toDate() : new Date(0);
+};
+
+const targetKey = (n: InAppNotification): string | null => {
+  if (!GROUPABLE_TYPES.includes(n.type)) return null;
+  if (n.type === 'follow') return 'follow';
+  return n.mealId ? `${n.type}:${n.mealId}` : null;
+};
+
+/**
+ * "Alex cheered your Tonkotsu", "Alex and Sam …", "Alex and 4 others …".
+ */
+export function groupMessage(
+  type: InAppNotification['type'],
+  actors: { name: string }[],
+  mealName?: string,
+): string {
+  const [first, second] = actors;
+  const who =
+    actors.length === 1 ? first.name
+      : actors.length === 2 ? `${first.name} and ${second.name}`
+        : `${first.name} and ${actors.length - 1} others`;
+  const meal = mealName || 'meal';
+  switch (type) {
+    case 'cheers':
+      return `${who} cheered your ${meal}`;
+    case 'comment':
+      return `${who} commented on your ${meal}`;
+    case 'reply':
+      return `${who} replied to your comment on ${mealName || 'a meal'}`;
+    case 'follow':
+      return `${who} started following you`;
+    default:
+      return who;
+  }
+}
+
+/**
+ * Group a newest-first (or unsorted) list. Groups come back newest first.
+ * A group with a single item keeps that item's own message, so custom text
+ * (critic notices) is untouched.
+ */
+export function groupNotifications(
+  notifications: InAppNotification[],
+  windowMs: number = GROUP_WINDOW_MS,
+): NotificationGroup[] {
+  const sorted = [...notifications].sort(
+    (a, b) => notificationDate(b.createdAt).getTime() - notificationDate(a.createdAt).getTime(),
+  );
+  const groups: NotificationGroup[] = [];
+  const open = new Map<string, NotificationGroup>();
+
+  for (const n of sorted) {
+    const target = targetKey(n);
+    const at = notificationDate(n.createdAt);
+    const current = target ? open.get(target) : undefined;
+    const oldest = current ? current.notifications[current.notifications.length - 1] : undefined;
+
+    if (current && oldest && notificationDate(oldest.createdAt).getTime() - at.getTime() <= windowMs) {
+      current.notifications.push(n);
+      if (!current.actors.some(a => a.id === n.fromUser.id)) current.actors.push(n.fromUser);
+      if (!n.read) current.read = false;
+      continue;
+    }
+
+    const group: NotificationGroup = {
+      key: n.id,
+      type: n.type,
+      mealId: n.mealId,
+      mealName: n.mealName,
+      actors: [n.fromUser],
+      notifications: [n],
+      latest: n,
+      message: n.message,
+      read: n.read,
+      createdAt: at,
+    };
+    groups.push(group);
+    if (target) open.set(target, group);
+  }
+
+  groups.forEach(group => {
+    // Keyed by the oldest item so the key survives newer arrivals
+    const target = targetKey(group.latest);
+    if (target) group.key = `${target}:${group.notifications[group.notifications.length - 1].id}`;
+    if (group.notifications.length > 1) {
+      group.message = groupMessage(group.type, group.actors, group.mealName);
+    }
+  });
+  return groups;
+}
+
+/**
+ * The `data` of a group's push, read by App.tsx's notifee press handler: a
+ * weekly recap opens that week's recap, everything else its meal (or the
+ * notification list).
+ */
+export function pushData(group: NotificationGroup): Record<string, string> {
+  if (group.type === 'weekly_recap') {
+    return { type: 'weekly-recap', weekKey: group.latest.weekKey || '' };
+  }
+  return {
+    type: 'social-activity',
+    mealId: group.mealId || '',
+    notificationIds: group.notifications.map(n => n.id).join(','),
+  };
+}
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+/** True when `date` (local time) falls inside the quiet window. */
+export function isInQuietHours(date: Date, quietHours: QuietHours): boolean {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) return false;
+  const m = minutesOfDay(date);
+  return quietHours.start < quietHours.end
+    ? m >= quietHours.start && m < quietHours.end
+    : m >= quietHours.start || m < quietHours.end; // wraps past midnight
+}
+
+/** `date`, or the end of the quiet window if `date` is inside it. */
+export function nextDeliveryTime(date: Date, quietHours: QuietHours): Date {
+  if (!isInQuietHours(date, quietHours)) return date;
+  const end = new Date(date);
+  end.setHours(Math.floor(quietHours.end / 60), quietHours.end % 60, 0, 0);
+  if (end.getTime() <= date.getTime()) end.setDate(end.getDate() + 1);
+  return end;
+}
+
+/**
+ * The next daily digest slot strictly after `now`, pushed out of quiet hours.
+ */
+export function nextDigestTime(now: Date, prefs: NotificationPreferences): Date {
+  const minute = ((prefs.digestTime % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const slot = new Date(now);
+  slot.setHours(Math.floor(minute / 60), minute % 60, 0, 0);
+  if (slot.getTime() <= now.getTime()) slot.setDate(slot.getDate() + 1);
+  return nextDeliveryTime(slot, prefs.quietHours);
+}
+
+/**
+ * Unread notifications that never show in the in-app list (`inApp: false`)
+ * and whose delivery is over: push-only ones once their grouping window has
+ * passed, digest ones once a digest slot has come since they arrived.
+ * Nothing in the app would ever mark these read, so the delivery service
+ * does, instead of counting and summarising them again forever.
+ */
+export function deliveredOutOfAppIds(
+  notifications: InAppNotification[],
+  prefs: NotificationPreferences,
+  now: Date,
+  windowMs: number = GROUP_WINDOW_MS,
+): string[] {
+  return notifications
+    .filter(n => !n.read && n.inApp === false)
+    .filter(n => {
+      const at = notificationDate(n.createdAt);
+      const doneAt = prefs.channels[n.type]?.digest ? nextDigestTime(at, prefs) : new Date(at.getTime() + windowMs);
+      return doneAt.getTime() <= now.getTime();
+    })
+    .map(n => n.id);
+}
+
+/**
+ * Summarise unread notifications whose type is routed to the digest into a
+ * single local notification, or null when there's nothing to send.
+ */
+export function buildDigest(
+  notifications: InAppNotification[],
+  prefs: NotificationPreferences,
+): NotificationDigest | null {
+  const pending = notifications.filter(n => !n.read && prefs.channels[n.type]?.digest);
+  if (pending.length === 0) return null;
+
+  const groups = groupNotifications(pending);
+  const lines = groups.slice(0, DIGEST_BODY_LINES).map(g => g.message);
+  const rest = groups.length - lines.length;
+  if (rest > 0) lines.push(`…and ${rest} more`);
+
+  return {
+    title: pending.length === 1 ? 'You have 1 new notification' : `You have ${pending.length} new notifications`,
+    body: lines.join('\n'),
+    count: pending.length,
+    notificationIds: pending.map(n => n.id),
+  };
+}
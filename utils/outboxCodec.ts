@@ -0,0 +1,107 @@
+/**
+ * outboxCodec — turn meal write data into JSON the outbox can persist, and
+ * back (services/mealOutboxService.ts).
+ *
+ * Firestore values that aren't plain JSON are written as sentinel maps
+ * ({ __outbox: kind, ... }) and rebuilt on decode:
+ *   - Date            → { __outbox: 'date', iso }
+ *   - Timestamp       → { __outbox: 'timestamp', seconds, nanoseconds }
+ *   - GeoPoint        → { __outbox: 'geopoint', latitude, longitude }
+ *   - serverTimestamp() and delete() FieldValues
+ * Increments and array unions aren't idempotent on replay, so encoding them
+ * throws rather than silently double-counting.
+ *
+ * The Firestore classes are passed in, so the codec stays pure and
+ * __tests__/outboxCodec.test.ts can run it with stand-ins.
+ */
+
+export type EncodedValue =
+  | null
+  | boolean
+  | number
+  | string
+  | EncodedValue[]
+  | { [key: string]: EncodedValue };
+
+export type EncodedData = { [key: string]: EncodedValue };
+
+interface FieldValueLike {
+  isEqual(other: any): boolean;
+}
+
+export interface OutboxCodecFirestore {
+  FieldValue: (abstract new (...args: any[]) => FieldValueLike) & {
+    serverTimestamp(): any;
+    delete(): any;
+  };
+  Timestamp: new (seconds: number, nanoseconds: number) => { seconds: number; nanoseconds: number };
+  GeoPoint: new (latitude: number, longitude: number) => { latitude: number; longitude: number };
+}
+
+export interface OutboxCodec {
+  encodeData: (data: Record<string, unknown>) => EncodedData;
+  decodeValue: (value: EncodedValue) => unknown;
+}
+
+const SENTINEL_KEY = '__outbox';
+
+export const createOutboxCodec = ({ FieldValue, Timestamp, GeoPoint }: OutboxCodecFirestore): OutboxCodec => {
+  const encodeValue = (value: unknown): EncodedValue => {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) {
+      return { [SENTINEL_KEY]: 'date', iso: value.toISOString() };
+    }
+    if (value instanceof Timestamp) {
+      return { [SENTINEL_KEY]: 'timestamp', seconds: value.seconds, nanoseconds: value.nanoseconds };
+    }
+    if (value instanceof GeoPoint) {
+      return { [SENTINEL_KEY]: 'geopoint', latitude: value.latitude, longitude: value.longitude };
+    }
+    if (value instanceof FieldValue) {
+      if (value.isEqual(FieldValue.serverTimestamp())) {
+        return { [SENTINEL_KEY]: 'serverTimestamp' };
+      }
+      if (value.isEqual(FieldValue.delete())) {
+        return { [SENTINEL_KEY]: 'delete' };
+      }
+      throw new Error('Outbox cannot queue non-idempotent FieldValue writes');
+    }
+    if (Array.isArray(value)) return value.map(encodeValue);
+    if (typeof value === 'object') return encodeData(value as Record<string, unknown>);
+    return value as EncodedValue;
+  };
+
+  const encodeData = (data: Record<string, unknown>): EncodedData => {
+    const out: EncodedData = {};
+    Object.keys(data).forEach(key => {
+      if (data[key] !== undefined) out[key] = encodeValue(data[key]);
+    });
+    return out;
+  };
+
+  const decodeValue = (value: EncodedValue): unknown => {
+    if (Array.isArray(value)) return value.map(decodeValue);
+    if (value && typeof value === 'object') {
+      switch (value[SENTINEL_KEY]) {
+        case 'date':
+          return new Date(value.iso as string);
+        case 'timestamp':
+          return new Timestamp(value.seconds as number, value.nanoseconds as number);
+        case 'geopoint':
+          return new GeoPoint(value.latitude as number, value.longitude as number);
+        case 'serverTimestamp':
+          return FieldValue.serverTimestamp();
+        case 'delete':
+          return FieldValue.delete();
+      }
+      const out: Record<string, unknown> = {};
+      Object.keys(value).forEach(key => {
+        out[key] = decodeValue(value[key]);
+      });
+      return out;
+    }
+    return value;
+  };
+
+  return { encodeData, decodeValue };
+};
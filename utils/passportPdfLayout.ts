@@ -0,0 +1,352 @@
+/**
+ * passportPdfLayout — page layout for the printable Food Passport ("stamp
+ * book") export.
+ *
+ * Pure: takes the user's meals plus their already-reconciled pixel-art
+ * tables (pixelArtOrderService) and restaurant sections
+ * (restaurantSectionsService) and returns a list of pages with every block
+ * positioned in PDF points. components/PassportPdfPage only draws what's
+ * here, so pagination is decided once and covered by
+ * __tests__/passportPdf.test.ts.
+ *
+ * Page order: cover, pixel-art collection (one shelf per table, in the
+ * user's order), one page per city with its monument, the restaurant index
+ * (unsectioned first, then sections, as on the passport), stats.
+ */
+import type { MealEntry } from '../types/mealEntry';
+import type { TableConfig } from '../services/pixelArtOrderService';
+import type { RestaurantSection } from '../services/restaurantSectionsService';
+import { mealCalendarDate } from './wrappedStats';
+
+// US Letter in points
+export const PDF_PAGE_SIZE = { width: 612, height: 792 };
+export const PDF_MARGIN = 48;
+export const PDF_HEADER_HEIGHT = 56;
+export const PDF_FOOTER_HEIGHT = 28;
+export const PDF_CONTENT_WIDTH = PDF_PAGE_SIZE.width - PDF_MARGIN * 2;
+/** Top of the content area, below the page header. */
+export const PDF_CONTENT_TOP = PDF_MARGIN + PDF_HEADER_HEIGHT;
+export const PDF_CONTENT_HEIGHT = PDF_PAGE_SIZE.height - PDF_MARGIN * 2 - PDF_HEADER_HEIGHT - PDF_FOOTER_HEIGHT;
+
+const MAX_CELL = 64;
+const SHELF_LABEL_HEIGHT = 20;
+const SHELF_PLANK_HEIGHT = 10;
+const SHELF_GAP = 20;
+const INDEX_ROW_HEIGHT = 20;
+const INDEX_SECTION_HEIGHT = 32;
+const CITY_EMOJI_LIMIT = 30;
+const CITY_RESTAURANT_LIMIT = 8;
+const TOP_LIMIT = 5;
+const JUNK = new Set(['', 'unknown', 'n/a', 'null']);
+
+export type PassportPdfMeal = Pick<
+  MealEntry,
+  | 'id'
+  | 'meal'
+  | 'restaurant'
+  | 'rating'
+  | 'city'
+  | 'cities'
+  | 'location'
+  | 'pixel_art_url'
+  | 'pixel_art_data'
+  | 'metadata_enriched'
+  | 'quick_criteria_result'
+  | 'enhanced_facts'
+  | 'aiMetadata'
+> & {
+  createdAt?: any;
+  photoTakenAt?: any;
+};
+
+export interface PassportPdfInput {
+  userName: string;
+  userPhoto: string | null;
+  meals: PassportPdfMeal[];
+  /** Reconciled pixel-art tables, in display order. */
+  tables: { urls: string[]; config: TableConfig }[];
+  /** Reconciled restaurant sections (reconcileRestaurants). */
+  sections: RestaurantSection[];
+  unsectionedOrder: string[];
+  /** Monument art keyed by lowercase city name. */
+  monuments: Record<string, string>;
+  generatedAt: Date;
+}
+
+export interface PdfShelf {
+  table: number; // 1-based, as labelled on the page
+  top: number;
+  cellSize: number;
+  columns: number;
+  rows: string[][];
+  height: number;
+}
+
+export interface PdfIndexEntry {
+  type: 'section' | 'restaurant';
+  top: number;
+  name: string;
+  mealCount?: number;
+  city?: string | null;
+}
+
+export interface PdfCount {
+  name: string;
+  count: number;
+}
+
+export type PassportPdfPage =
+  | {
+      kind: 'cover';
+      number: number;
+      title: string;
+      subtitle: string;
+      photoUrl: string | null;
+      highlights: { value: number; label: string }[];
+    }
+  | { kind: 'collection'; number: number; title: string; shelves: PdfShelf[] }
+  | {
+      kind: 'city';
+      number: number;
+      city: string;
+      monumentUrl: string | null;
+      mealCount: number;
+      restaurants: PdfCount[];
+      emojiUrls: string[];
+    }
+  | { kind: 'restaurants'; number: number; title: string; entries: PdfIndexEntry[] }
+  | {
+      kind: 'stats';
+      number: number;
+      totals: { value: number; label: string }[];
+      ratings: number[]; // index 0 = rating 1
+      topCuisines: PdfCount[];
+      topCities: PdfCount[];
+      firstMeal: Date | null;
+      latestMeal: Date | null;
+    };
+
+type PageWithoutNumber = PassportPdfPage extends infer P ? (P extends any ? Omit<P, 'number'> : never) : never;
+
+const clean = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return JUNK.has(trimmed.toLowerCase()) ? null : trimmed;
+};
+
+const titleCase = (value: string) =>
+  value
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+
+// Same extraction as the passport screen's accolade scan
+const restaurantOf = (meal: PassportPdfMeal) => clean((meal.restaurant || '').split(',')[0]);
+
+const citiesOf = (meal: PassportPdfMeal): string[] => {
+  if (Array.isArray(meal.cities) && meal.cities.length > 0) {
+    return meal.cities.map(clean).filter((c): c is string => Boolean(c));
+  }
+  const city = clean(meal.location?.city) || clean(meal.city);
+  return city ? [city] : [];
+};
+
+const cuisineOf = (meal: PassportPdfMeal) =>
+  clean(meal.metadata_enriched?.cuisine_type) ||
+  clean(meal.quick_criteria_result?.cuisine_type) ||
+  clean(meal.enhanced_facts?.food_facts?.cuisine_type) ||
+  clean(meal.aiMetadata?.cuisineType);
+
+const emojiOf = (meal: PassportPdfMeal): string | null =>
+  meal.pixel_art_url || (meal.pixel_art_data ? `data:image/png;base64,${meal.pixel_art_data}` : null);
+
+/** Count case-insensitively; display name is the first spelling seen. */
+const tally = (values: string[], display: (v: string) => string = v => v): PdfCount[] => {
+  const counts = new Map<string, PdfCount>();
+  values.forEach(value => {
+    const key = value.toLowerCase();
+    const entry = counts.get(key);
+    if (entry) entry.count += 1;
+    else counts.set(key, { name: display(value), count: 1 });
+  });
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+export const shelfCellSize = (columns: number) => Math.min(MAX_CELL, Math.floor(PDF_CONTENT_WIDTH / columns));
+
+export const shelfHeight = (rows: number, cellSize: number) =>
+  SHELF_LABEL_HEIGHT + rows * cellSize + SHELF_PLANK_HEIGHT;
+
+function collectionPages(tables: PassportPdfInput['tables']): PageWithoutNumber[] {
+  const pages: PageWithoutNumber[] = [];
+  let shelves: PdfShelf[] = [];
+  let y = 0;
+
+  tables.forEach((table, index) => {
+    if (table.urls.length === 0) return;
+    const columns = Math.max(1, table.config.columns);
+    const cellSize = shelfCellSize(columns);
+    const rows: string[][] = [];
+    for (let i = 0; i < table.urls.length; i += columns) rows.push(table.urls.slice(i, i + columns));
+    const height = shelfHeight(rows.length, cellSize);
+
+    if (shelves.length > 0 && y + height > PDF_CONTENT_HEIGHT) {
+      pages.push({ kind: 'collection', title: 'Pixel Art Collection', shelves });
+      shelves = [];
+      y = 0;
+    }
+    shelves.push({ table: index + 1, top: PDF_CONTENT_TOP + y, cellSize, columns, rows, height });
+    y += height + SHELF_GAP;
+  });
+
+  if (shelves.length > 0) pages.push({ kind: 'collection', title: 'Pixel Art Collection', shelves });
+  return pages;
+}
+
+function cityPages(meals: PassportPdfMeal[], monuments: Record<string, string>): PageWithoutNumber[] {
+  const byCity = new Map<string, { name: string; meals: PassportPdfMeal[] }>();
+  meals.forEach(meal => {
+    citiesOf(meal).forEach(city => {
+      const key = city.toLowerCase();
+      const entry = byCity.get(key) || { name: titleCase(city), meals: [] };
+      entry.meals.push(meal);
+      byCity.set(key, entry);
+    });
+  });
+
+  return [...byCity.entries()]
+    .sort(([, a], [, b]) => b.meals.length - a.meals.length || a.name.localeCompare(b.name))
+    .map(([key, { name, meals: cityMeals }]) => ({
+      kind: 'city' as const,
+      city: name,
+      monumentUrl: monuments[key] || null,
+      mealCount: cityMeals.length,
+      restaurants: tally(cityMeals.map(restaurantOf).filter((r): r is string => Boolean(r))).slice(
+        0,
+        CITY_RESTAURANT_LIMIT,
+      ),
+      emojiUrls: cityMeals
+        .map(emojiOf)
+        .filter((u): u is string => Boolean(u))
+        .slice(0, CITY_EMOJI_LIMIT),
+    }));
+}
+
+function restaurantIndexPages(
+  meals: PassportPdfMeal[],
+  sections: RestaurantSection[],
+  unsectionedOrder: string[],
+): PageWithoutNumber[] {
+  const stats = new Map<string, { mealCount: number; city: string | null }>();
+  meals.forEach(meal => {
+    const name = restaurantOf(meal);
+    if (!name) return;
+    const entry = stats.get(name) || { mealCount: 0, city: null };
+    entry.mealCount += 1;
+    entry.city = entry.city || citiesOf(meal)[0] || null;
+    stats.set(name, entry);
+  });
+  if (stats.size === 0) return [];
+
+  // Anything the saved order doesn't know about goes at the end of the
+  // unsectioned list, busiest first, like reconcileRestaurants does.
+  const placed = new Set([...unsectionedOrder, ...sections.flatMap(s => s.restaurants)]);
+  const leftovers = [...stats.entries()]
+    .filter(([name]) => !placed.has(name))
+    .sort(([, a], [, b]) => b.mealCount - a.mealCount)
+    .map(([name]) => name);
+
+  const groups: { name: string | null; restaurants: string[] }[] = [
+    { name: null, restaurants: [...unsectionedOrder, ...leftovers] },
+    ...sections.map(s => ({ name: s.name, restaurants: s.restaurants })),
+  ];
+
+  const pages: PageWithoutNumber[] = [];
+  let entries: PdfIndexEntry[] = [];
+  let y = 0;
+  const flush = () => {
+    if (entries.length === 0) return;
+    pages.push({ kind: 'restaurants', title: pages.length === 0 ? 'Restaurant Index' : 'Restaurant Index (cont.)', entries });
+    entries = [];
+    y = 0;
+  };
+
+  groups.forEach(group => {
+    const rows = group.restaurants.filter(name => stats.has(name));
+    if (rows.length === 0) return;
+    if (group.name) {
+      // Keep a heading together with at least its first restaurant
+      if (y + INDEX_SECTION_HEIGHT + INDEX_ROW_HEIGHT > PDF_CONTENT_HEIGHT) flush();
+      entries.push({ type: 'section', top: PDF_CONTENT_TOP + y, name: group.name });
+      y += INDEX_SECTION_HEIGHT;
+    }
+    rows.forEach(name => {
+      if (y + INDEX_ROW_HEIGHT > PDF_CONTENT_HEIGHT) flush();
+      const { mealCount, city } = stats.get(name)!;
+      entries.push({ type: 'restaurant', top: PDF_CONTENT_TOP + y, name, mealCount, city });
+      y += INDEX_ROW_HEIGHT;
+    });
+  });
+  flush();
+  return pages;
+}
+
+export function buildPassportPdfLayout(input: PassportPdfInput): PassportPdfPage[] {
+  const { meals } = input;
+  const rated = meals.filter(m => typeof m.rating === 'number' && m.rating > 0);
+  const restaurants = tally(meals.map(restaurantOf).filter((r): r is string => Boolean(r)));
+  const cities = tally(meals.flatMap(citiesOf), titleCase);
+  const cuisines = tally(meals.map(cuisineOf).filter((c): c is string => Boolean(c)), titleCase);
+  const pixelArtCount = input.tables.reduce((sum, t) => sum + t.urls.length, 0);
+
+  const ratings = [0, 0, 0, 0, 0, 0];
+  rated.forEach(m => {
+    const bucket = Math.min(6, Math.max(1, Math.round(m.rating))) - 1;
+    ratings[bucket] += 1;
+  });
+
+  const dates = meals
+    .map(mealCalendarDate)
+    .filter((d): d is Date => d !== null)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  const pages: PageWithoutNumber[] = [
+    {
+      kind: 'cover',
+      title: input.userName ? `${input.userName}'s Food Passport` : 'My Food Passport',
+      subtitle: `Exported ${input.generatedAt.toLocaleDateString(undefined, {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      })}`,
+      photoUrl: input.userPhoto,
+      highlights: [
+        { value: meals.length, label: meals.length === 1 ? 'meal' : 'meals' },
+        { value: restaurants.length, label: restaurants.length === 1 ? 'restaurant' : 'restaurants' },
+        { value: cities.length, label: cities.length === 1 ? 'city' : 'cities' },
+        { value: pixelArtCount, label: 'pixel art' },
+      ],
+    },
+    ...collectionPages(input.tables),
+    ...cityPages(meals, input.monuments),
+    ...restaurantIndexPages(meals, input.sections, input.unsectionedOrder),
+    {
+      kind: 'stats',
+      totals: [
+        { value: meals.length, label: 'meals logged' },
+        { value: rated.length, label: 'meals rated' },
+        { value: restaurants.length, label: 'restaurants' },
+        { value: cities.length, label: 'cities' },
+        { value: cuisines.length, label: 'cuisines' },
+        { value: pixelArtCount, label: 'pixel art pieces' },
+      ],
+      ratings,
+      topCuisines: cuisines.slice(0, TOP_LIMIT),
+      topCities: cities.slice(0, TOP_LIMIT),
+      firstMeal: dates[0] || null,
+      latestMeal: dates[dates.length - 1] || null,
+    },
+  ];
+
+  return pages.map((page, index) => ({ ...page, number: index + 1 }) as PassportPdfPage);
+}
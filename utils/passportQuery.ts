@@ -0,0 +1,551 @@
+/**
+ * passportQuery — parse the structured search syntax typed into the
+ * passport search bar into the FilterItem[] + rating filters the existing
+ * filter pipelines (applyHomeFilters, FoodPassportScreen.applyFilter)
+ * already understand.
+ *
+ *   cuisine:thai rating>=5 city:portland after:2025-01 -spicy
+ *
+ * Syntax:
+ *   - field:value           facet filter (fields listed in QUERY_FIELDS)
+ *   - field:"two words"     quoted values
+ *   - field:a,b             OR within one field
+ *   - a OR b, (a OR b OR c) OR across terms; OR binds tighter than AND
+ *   - -term                 negation (works on fields and bare words)
+ *   - rating>=5, rating:3..5, rating<3, rating:4,5
+ *                           numeric comparisons, expanded to the 1–6 scale
+ *   - after:2025-01, before:2025-03-15, date:2025, date:2025-01..2025-03
+ *                           date ranges on createdAt. YYYY, YYYY-MM or
+ *                           YYYY-MM-DD; `date:` covers the whole period(s)
+ *   - is:iconic             the Iconic Eats post-filter
+ *   - anything else         bare words, AND-ed into one free-text 'text'
+ *                           filter routed through utils/mealSearch
+ *
+ * Parsing never throws. Problems come back in `errors` with character
+ * offsets so the search bar can point at them; the offending term is
+ * dropped and the rest of the query still applies. That includes rating
+ * terms that contradict each other (rating>=5 rating<3) or a backwards
+ * range (rating:5..3): an empty rating set would read as "no rating
+ * filter" downstream, so `ratingFilters` is never [].
+ */
+import type { FilterItem } from '../components/SimpleFilterComponent';
+import { CANONICAL_VOCAB, VOCAB_SYNONYMS } from '../constants/canonicalVocab';
+import { trigramSimilarity } from './iconicMatching';
+
+// Ratings are 1–6 (see RatingFilterComponent).
+export const RATING_SCALE = [1, 2, 3, 4, 5, 6];
+
+interface QueryField {
+  type: string; // FilterItem.type this field produces
+  description: string;
+  vocab?: readonly string[]; // closed vocabulary, validated + autocompleted
+}
+
+// Query field name → filter type. Aliases point at the same filter type.
+export const QUERY_FIELDS: Record<string, QueryField> = {
+  cuisine: { type: 'cuisineType', description: 'Cuisine' },
+  food: { type: 'foodType', description: 'Food type' },
+  dish: { type: 'dishName', description: 'Dish name' },
+  ingredient: { type: 'ingredient', description: 'Ingredient' },
+  city: { type: 'city', description: 'City' },
+  restaurant: { type: 'restaurant', description: 'Restaurant' },
+  diet: { type: 'dietary', description: 'Dietary', vocab: CANONICAL_VOCAB.dietary_info },
+  flavor: { type: 'flavor', description: 'Flavor', vocab: CANONICAL_VOCAB.flavor_profile },
+  method: { type: 'cookingMethod', description: 'Cooking method', vocab: CANONICAL_VOCAB.cooking_method },
+  meal: { type: 'mealType', description: 'Meal type', vocab: CANONICAL_VOCAB.meal_type },
+  texture: { type: 'texture', description: 'Texture', vocab: CANONICAL_VOCAB.texture },
+  heat: { type: 'heat', description: 'Heat level', vocab: CANONICAL_VOCAB.heat_level },
+  richness: { type: 'richness', description: 'Richness', vocab: CANONICAL_VOCAB.richness },
+  protein: { type: 'protein', description: 'Protein', vocab: CANONICAL_VOCAB.primary_protein },
+  carb: { type: 'carb', description: 'Carb', vocab: CANONICAL_VOCAB.primary_carb },
+  rating: { type: 'rating', description: 'Rating (1–6)' },
+  after: { type: 'after', description: 'On or after a date' },
+  before: { type: 'before', description: 'Before a date' },
+  date: { type: 'date', description: 'Within a date range' },
+  is: { type: 'is', description: 'is:iconic', vocab: ['iconic'] },
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  cuisinetype: 'cuisine',
+  foodtype: 'food',
+  dishname: 'dish',
+  ing: 'ingredient',
+  at: 'restaurant',
+  dietary: 'diet',
+  cooking: 'method',
+  cookingmethod: 'method',
+  mealtype: 'meal',
+  spice: 'heat',
+  stars: 'rating',
+  since: 'after',
+  until: 'before',
+};
+
+export interface QueryParseError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedPassportQuery {
+  filters: FilterItem[];
+  // null when the query doesn't constrain rating
+  ratingFilters: number[] | null;
+  errors: QueryParseError[];
+}
+
+// --- Lexer ---
+
+type TokenKind = 'term' | 'or' | 'lparen' | 'rparen';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split on whitespace, keeping quoted runs and parentheses intact.
+ * `cuisine:"new american"` stays one term.
+ */
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'lparen' : 'rparen', text: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    const start = i;
+    let inQuote = false;
+    while (i < input.length) {
+      const c = input[i];
+      if (c === '"') inQuote = !inQuote;
+      else if (!inQuote && (/\s/.test(c) || c === '(' || c === ')')) break;
+      i++;
+    }
+    const text = input.slice(start, i);
+    tokens.push({ kind: text === 'OR' || text === '|' ? 'or' : 'term', text, start, end: i });
+  }
+  return tokens;
+}
+
+// --- Term parsing ---
+
+const unquote = (s: string) => s.replace(/^"(.*)"$/, '$1').trim();
+
+const resolveField = (name: string): string | null => {
+  const key = name.toLowerCase();
+  if (QUERY_FIELDS[key]) return key;
+  return FIELD_ALIASES[key] || null;
+};
+
+const closestFieldName = (name: string): string | null => {
+  let best: string | null = null;
+  let bestScore = 0.3;
+  Object.keys(QUERY_FIELDS).forEach(field => {
+    const score = trigramSimilarity(name.toLowerCase(), field);
+    if (score > bestScore) {
+      best = field;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Parse YYYY / YYYY-MM / YYYY-MM-DD into the [start, end) local-time range
+ * the period covers. Returns null on malformed input.
+ */
+export function parseQueryDate(value: string): { start: Date; end: Date } | null {
+  const m = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!m) return null;
+  const year = Number(m[1]);
+  const month = m[2] ? Number(m[2]) - 1 : null;
+  const day = m[3] ? Number(m[3]) : null;
+  if (month !== null && (month < 0 || month > 11)) return null;
+  if (month === null) return { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1) };
+  if (day === null) return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+  const start = new Date(year, month, day);
+  if (start.getMonth() !== month) return null; // e.g. 2025-02-31
+  return { start, end: new Date(year, month, day + 1) };
+}
+
+const toIsoDate = (d: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+/**
+ * Expand a rating expression to the set of matching scale values.
+ * Accepts `5`, `4,5`, `3..5`, or a comparison operator with a number.
+ */
+function expandRating(op: string, value: string): number[] | null {
+  const num = (s: string) => (/^\d+$/.test(s) ? Number(s) : NaN);
+  if (op === ':' || op === '=') {
+    const range = /^(\d+)\.\.(\d+)$/.exec(value);
+    if (range) {
+      const lo = num(range[1]);
+      const hi = num(range[2]);
+      if (lo > hi) return null;
+      return RATING_SCALE.filter(r => r >= lo && r <= hi);
+    }
+    const parts = value.split(',').map(num);
+    if (parts.some(isNaN)) return null;
+    return RATING_SCALE.filter(r => parts.includes(r));
+  }
+  const n = num(value);
+  if (isNaN(n)) return null;
+  switch (op) {
+    case '>=': return RATING_SCALE.filter(r => r >= n);
+    case '>': return RATING_SCALE.filter(r => r > n);
+    case '<=': return RATING_SCALE.filter(r => r <= n);
+    case '<': return RATING_SCALE.filter(r => r < n);
+    default: return null;
+  }
+}
+
+// One parsed term: either filters to AND in, a rating set, or an error.
+interface TermResult {
+  filters?: FilterItem[];
+  ratings?: number[];
+  text?: string;
+  error?: string;
+}
+
+const TERM_PATTERN = /^([a-zA-Z]+)(>=|<=|:|=|>|<)(.*)$/;
+
+// Only mark negated filters, so plain ones compare equal to chip-made ones.
+const withNegate = (item: FilterItem, negate: boolean): FilterItem =>
+  negate ? { ...item, negate: true } : item;
+
+// Map a closed-vocab value typed loosely ("veggie", "Vegan") onto the
+// vocabulary, via VOCAB_SYNONYMS when it has a single in-vocab target.
+const resolveVocabValue = (vocab: readonly string[], value: string): string | null => {
+  const lower = value.toLowerCase();
+  if (vocab.includes(lower)) return lower;
+  const synonyms = (VOCAB_SYNONYMS[lower] || []).filter(v => vocab.includes(v));
+  return synonyms.length === 1 ? synonyms[0] : null;
+};
+
+function parseTerm(raw: string, negate: boolean): TermResult {
+  const m = TERM_PATTERN.exec(raw);
+  // "http://..." or "12:30" style words — treat as free text.
+  if (!m || (m[2] === ':' && m[3].startsWith('/'))) {
+    const text = unquote(raw);
+    return text ? { text } : {};
+  }
+
+  const [, rawField, op, rawValue] = m;
+  const fieldName = resolveField(rawField);
+  if (!fieldName) {
+    const guess = closestFieldName(rawField);
+    return { error: `Unknown field "${rawField}"${guess ? ` — did you mean "${guess}:"?` : ''}` };
+  }
+  const field = QUERY_FIELDS[fieldName];
+  const value = unquote(rawValue);
+  if (!value) return { error: `"${fieldName}${op}" needs a value` };
+
+  if (field.type === 'rating') {
+    const ratings = expandRating(op, value);
+    if (!ratings) {
+      const backwards = /^(\d+)\.\.(\d+)$/.exec(value);
+      if (backwards && Number(backwards[1]) > Number(backwards[2])) {
+        return { error: `Rating range "${value}" is backwards — try rating:${backwards[2]}..${backwards[1]}` };
+      }
+      return { error: `Can't read rating "${op}${value}" — try rating>=4 or rating:3..5` };
+    }
+    if (ratings.length === 0) return { error: `No ratings match "${op}${value}" (ratings are 1–6)` };
+    return { ratings: negate ? RATING_SCALE.filter(r => !ratings.includes(r)) : ratings };
+  }
+
+  if (op !== ':' && op !== '=') {
+    return { error: `"${fieldName}" doesn't support "${op}" — use ${fieldName}:value` };
+  }
+
+  if (field.type === 'after' || field.type === 'before' || field.type === 'date') {
+    const [from, to] = field.type === 'date' && value.includes('..') ? value.split('..') : [value, value];
+    const fromRange = parseQueryDate(from);
+    const toRange = parseQueryDate(to);
+    if (!fromRange || !toRange) return { error: `Can't read date "${value}" — use YYYY, YYYY-MM or YYYY-MM-DD` };
+    if (field.type === 'after') return { filters: [withNegate({ type: 'after', value: toIsoDate(fromRange.start) }, negate)] };
+    if (field.type === 'before') return { filters: [withNegate({ type: 'before', value: toIsoDate(fromRange.start) }, negate)] };
+    if (toRange.end <= fromRange.start) return { error: `Date range "${value}" ends before it starts` };
+    // Half-open [start, end) so date:2025-01 stops at midnight Feb 1.
+    return {
+      filters: [withNegate({ type: 'date', value: `${toIsoDate(fromRange.start)}..${toIsoDate(toRange.end)}` }, negate)],
+    };
+  }
+
+  if (field.type === 'is') {
+    if (value.toLowerCase() !== 'iconic') return { error: `Unknown "is:${value}" — only is:iconic is supported` };
+    if (negate) return { error: '"-is:iconic" isn\'t supported' };
+    return { filters: [{ type: 'iconicEats', value: 'Iconic Eats' }] };
+  }
+
+  let values = value.split(',').map(v => v.trim()).filter(Boolean);
+  if (field.vocab) {
+    const vocab = field.vocab;
+    const unknown = values.find(v => !resolveVocabValue(vocab, v));
+    if (unknown) {
+      const suggestion = vocab.find(v => v.startsWith(unknown.toLowerCase()));
+      return {
+        error: `"${unknown}" isn't a known ${field.description.toLowerCase()}` +
+          (suggestion ? ` — did you mean "${suggestion}"?` : ''),
+      };
+    }
+    values = values.map(v => resolveVocabValue(vocab, v)!);
+  }
+  const items: FilterItem[] = values.map(v => ({ type: field.type, value: v }));
+  if (items.length === 1) return { filters: [withNegate(items[0], negate)] };
+  return { filters: [withNegate({ type: 'or', value: values.join(' or '), anyOf: items }, negate)] };
+}
+
+// --- Parser ---
+
+/**
+ * Parse a structured passport query. See the file header for syntax.
+ */
+export function parsePassportQuery(input: string): ParsedPassportQuery {
+  const tokens = lex(input);
+  const filters: FilterItem[] = [];
+  const errors: QueryParseError[] = [];
+  const textWords: string[] = [];
+  const negatedWords: string[] = [];
+  let ratingFilters: number[] | null = null;
+
+  // A group is a run of terms joined by OR (explicit parens or bare `a OR b`).
+  type Group = { token: Token; negate: boolean; result: TermResult }[];
+
+  const readTerm = (token: Token) => {
+    let text = token.text;
+    let negate = false;
+    if (text.length > 1 && text.startsWith('-')) {
+      negate = true;
+      text = text.slice(1);
+    }
+    return { token, negate, result: parseTerm(text, negate) };
+  };
+
+  // Narrow ratingFilters to `ratings`, unless that would leave nothing —
+  // then the term is reported and dropped instead.
+  const intersectRatings = (ratings: number[], token: Token, end = token.end) => {
+    const next = ratingFilters ? ratingFilters.filter(r => ratings.includes(r)) : ratings;
+    if (next.length === 0) {
+      errors.push({ message: "This rating can't match together with the other rating terms", start: token.start, end });
+      return;
+    }
+    ratingFilters = next;
+  };
+
+  const commitGroup = (group: Group) => {
+    group.forEach(({ token, result }) => {
+      if (result.error) errors.push({ message: result.error, start: token.start, end: token.end });
+    });
+    const ok = group.filter(g => !g.result.error && (g.result.filters || g.result.ratings || g.result.text));
+    if (ok.length === 0) return;
+
+    if (ok.length === 1) {
+      const { token, negate, result } = ok[0];
+      if (result.filters) filters.push(...result.filters);
+      if (result.ratings) intersectRatings(result.ratings, token);
+      if (result.text) (negate ? negatedWords : textWords).push(result.text);
+      return;
+    }
+
+    // Multi-term OR group. Ratings OR by union; everything else becomes
+    // one 'or' filter whose alternatives are single FilterItems. (is:iconic
+    // is a post-filter and ends up as an ordinary alternative here.)
+    const ratings = ok.filter(g => g.result.ratings);
+    if (ratings.length === ok.length) {
+      const union = new Set<number>();
+      ratings.forEach(g => g.result.ratings!.forEach(r => union.add(r)));
+      intersectRatings(
+        RATING_SCALE.filter(r => union.has(r)),
+        ok[0].token,
+        ok[ok.length - 1].token.end,
+      );
+      return;
+    }
+    const alternatives: FilterItem[] = [];
+    for (const g of ok) {
+      if (g.result.ratings) {
+        errors.push({
+          message: "Ratings can't be OR-ed with other fields",
+          start: g.token.start,
+          end: g.token.end,
+        });
+        return;
+      }
+      if (g.result.text) {
+        alternatives.push(withNegate({ type: 'text', value: g.result.text }, g.negate));
+      } else {
+        alternatives.push(...g.result.filters!);
+      }
+    }
+    filters.push({
+      type: 'or',
+      value: ok.map(g => g.token.text).join(' or '),
+      anyOf: alternatives,
+    });
+  };
+
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+
+    if (token.kind === 'rparen') {
+      errors.push({ message: 'Unmatched ")"', start: token.start, end: token.end });
+      i++;
+      continue;
+    }
+    if (token.kind === 'or') {
+      errors.push({ message: '"OR" needs a term on both sides', start: token.start, end: token.end });
+      i++;
+      continue;
+    }
+
+    const group: Group = [];
+    if (token.kind === 'lparen') {
+      i++;
+      let expectTerm = true;
+      while (i < tokens.length && tokens[i].kind !== 'rparen') {
+        const t = tokens[i];
+        if (t.kind === 'term') {
+          if (!expectTerm) {
+            errors.push({ message: 'Use OR between terms inside ( )', start: t.start, end: t.end });
+          }
+          group.push(readTerm(t));
+          expectTerm = false;
+        } else if (t.kind === 'or') {
+          if (expectTerm) errors.push({ message: '"OR" needs a term on both sides', start: t.start, end: t.end });
+          expectTerm = true;
+        } else {
+          errors.push({ message: 'Nested ( ) aren\'t supported', start: t.start, end: t.end });
+        }
+        i++;
+      }
+      if (i >= tokens.length) {
+        errors.push({ message: 'Missing ")"', start: token.start, end: input.length });
+      }
+      i++; // skip ')'
+    } else {
+      group.push(readTerm(token));
+      i++;
+      while (i + 1 < tokens.length && tokens[i].kind === 'or' && tokens[i + 1].kind === 'term') {
+        group.push(readTerm(tokens[i + 1]));
+        i += 2;
+      }
+    }
+    commitGroup(group);
+  }
+
+  if (textWords.length > 0) filters.push({ type: 'text', value: textWords.join(' ') });
+  negatedWords.forEach(word => filters.push(withNegate({ type: 'text', value: word }, true)));
+
+  return { filters, ratingFilters, errors };
+}
+
+/**
+ * True when the input uses any structured syntax. Plain words keep the
+ * search bar's existing behavior (faceted suggestions + free-text option).
+ */
+export function isStructuredQuery(input: string): boolean {
+  return lex(input).some(t => {
+    if (t.kind !== 'term') return true;
+    const m = TERM_PATTERN.exec(t.text.replace(/^-/, ''));
+    return t.text.startsWith('-') || (!!m && !!resolveField(m[1]));
+  });
+}
+
+// --- Autocomplete ---
+
+export interface QuerySuggestion {
+  label: string; // what to show in the dropdown
+  detail?: string;
+  query: string; // the full input after accepting the suggestion
+}
+
+/**
+ * Suggestions for the term being typed at the end of `input`: field names
+ * ("cui" → "cuisine:"), then values for that field. Closed-vocab fields
+ * complete from CANONICAL_VOCAB; open ones (cuisine, city, ...) from
+ * `openValues`, keyed by filter type — pass what the search bar already
+ * extracted from the user's meals.
+ */
+export function getQuerySuggestions(
+  input: string,
+  openValues: Record<string, string[]> = {},
+  limit = 8,
+): QuerySuggestion[] {
+  if (!input || /\s$/.test(input)) return [];
+  const lastSpace = Math.max(input.lastIndexOf(' '), input.lastIndexOf('('));
+  const head = input.slice(0, lastSpace + 1);
+  let partial = input.slice(lastSpace + 1);
+  let prefix = '';
+  if (partial.startsWith('-')) {
+    prefix = '-';
+    partial = partial.slice(1);
+  }
+
+  const colon = partial.indexOf(':');
+  if (colon === -1) {
+    const lower = partial.toLowerCase();
+    if (!lower) return [];
+    return Object.keys(QUERY_FIELDS)
+      .filter(name => name.startsWith(lower) && name !== lower)
+      .slice(0, limit)
+      .map(name => ({
+        label: `${name}:`,
+        detail: QUERY_FIELDS[name].description,
+        query: `${head}${prefix}${name}:`,
+      }));
+  }
+
+  const fieldName = resolveField(partial.slice(0, colon));
+  if (!fieldName) return [];
+  const field = QUERY_FIELDS[fieldName];
+  const valueSoFar = partial.slice(colon + 1);
+  // Complete only the last item of a comma list.
+  const lastComma = valueSoFar.lastIndexOf(',');
+  const done = valueSoFar.slice(0, lastComma + 1);
+  const current = unquote(valueSoFar.slice(lastComma + 1)).replace(/^"/, '').toLowerCase();
+
+  const candidates = field.vocab ? [...field.vocab] : openValues[field.type] || [];
+  const seen = new Set<string>();
+  return candidates
+    .filter(v => {
+      const key = v.toLowerCase();
+      if (seen.has(key) || !key.startsWith(current) || key === current) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit)
+    .map(v => {
+      const quoted = /\s/.test(v) ? `"${v}"` : v;
+      return {
+        label: `${fieldName}:${done}${quoted}`,
+        detail: field.description,
+        query: `${head}${prefix}${partial.slice(0, colon + 1)}${done}${quoted} `,
+      };
+    });
+}
+
+/**
+ * Short label for a parsed filter pill, e.g. "not spicy", "after 2025-01-01".
+ */
+export function describeQueryFilter(filter: FilterItem): string {
+  const base =
+    filter.type === 'after' ? `after ${filter.value}` :
+    filter.type === 'before' ? `before ${filter.value}` :
+    filter.type === 'date' ? filter.value.replace('..', ' to ') :
+    filter.value;
+  return filter.negate ? `not ${base}` : base;
+}
@@ -0,0 +1,111 @@
+/**
+ * pdfWriter — minimal PDF assembler for image pages.
+ *
+ * Each page is one full-bleed JPEG (a ViewShot capture), embedded as-is with
+ * /DCTDecode, so no image decoding or compression happens on the device.
+ * Works on "binary strings" (one char per byte) and returns base64 ready for
+ * RNFS.writeFile(path, data, 'base64'). Pure — covered by
+ * __tests__/passportPdf.test.ts.
+ */
+
+export interface PdfImagePage {
+  jpegBase64: string;
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const B64_LOOKUP: Record<string, number> = {};
+for (let i = 0; i < B64.length; i++) B64_LOOKUP[B64[i]] = i;
+
+export function base64ToBinary(base64: string): string {
+  const clean = base64.replace(/^data:[^,]*,/, '').replace(/[^A-Za-z0-9+/]/g, '');
+  const out: string[] = [];
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = B64_LOOKUP[clean[i]];
+    const b = B64_LOOKUP[clean[i + 1]];
+    const c = B64_LOOKUP[clean[i + 2]];
+    const d = B64_LOOKUP[clean[i + 3]];
+    out.push(String.fromCharCode((a << 2) | (b >> 4)));
+    if (c !== undefined) out.push(String.fromCharCode(((b & 15) << 4) | (c >> 2)));
+    if (d !== undefined) out.push(String.fromCharCode(((c & 3) << 6) | d));
+  }
+  return out.join('');
+}
+
+export function binaryToBase64(binary: string): string {
+  const out: string[] = [];
+  for (let i = 0; i < binary.length; i += 3) {
+    const a = binary.charCodeAt(i);
+    const b = i + 1 < binary.length ? binary.charCodeAt(i + 1) : NaN;
+    const c = i + 2 < binary.length ? binary.charCodeAt(i + 2) : NaN;
+    out.push(B64[a >> 2]);
+    out.push(B64[((a & 3) << 4) | (isNaN(b) ? 0 : b >> 4)]);
+    out.push(isNaN(b) ? '=' : B64[((b & 15) << 2) | (isNaN(c) ? 0 : c >> 6)]);
+    out.push(isNaN(c) ? '=' : B64[c & 63]);
+  }
+  return out.join('');
+}
+
+// PDF strings are Latin-1; drop anything else rather than corrupt the file.
+const pdfText = (value: string) => value.replace(/[^\x20-\x7e]/g, '').replace(/([\\()])/g, '\\$1');
+
+/**
+ * Build a PDF with one image per page, each page `pageSize` points
+ * (72 per inch) with the image stretched to fill it.
+ */
+export function buildImagePdf(
+  pages: PdfImagePage[],
+  pageSize: { width: number; height: number },
+  title: string = '',
+): string {
+  const chunks: string[] = [];
+  const offsets: number[] = []; // byte offset of object n at index n - 1
+  let length = 0;
+  const write = (chunk: string) => {
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+  const object = (id: number, body: string) => {
+    offsets[id - 1] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  // 1 catalog, 2 page tree, 3 info, then page / content / image per page
+  const pageIds = pages.map((_, i) => 4 + i * 3);
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, `<< /Title (${pdfText(title)}) /Producer (Forkful) >>`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+    const { width, height } = pageSize;
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+    const jpeg = base64ToBinary(page.jpegBase64);
+
+    object(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`,
+    );
+    object(contentId, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    object(
+      imageId,
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\n` +
+        `stream\n${jpeg}\nendstream`,
+    );
+  });
+
+  const xrefOffset = length;
+  const count = offsets.length + 1;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${count} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return binaryToBase64(chunks.join(''));
+}
@@ -0,0 +1,48 @@
+/**
+ * shareLocalFile — hand a file the app wrote (captured card, PDF, export) to
+ * the system share sheet on both platforms, with its message.
+ *
+ * React Native's Share only attaches `url` on iOS; Android sends `message`
+ * alone, so the file would never leave the app. On Android the file and
+ * message go out together as an ACTION_SEND through react-native-share.
+ * Its FileProvider only covers the cache dir, so files kept elsewhere (the
+ * passport PDF, data exports) are shared from a copy there. If the share
+ * can't start, the file is opened through rn-fetch-blob's view intent
+ * instead and the viewer's own share button takes it from there.
+ */
+import { Platform, Share } from 'react-native';
+import RNFS from 'react-native-fs';
+import RNShare from 'react-native-share';
+import RNFetchBlob from 'rn-fetch-blob';
+
+const inShareableDir = async (filePath: string): Promise<string> => {
+  if (filePath.startsWith(RNFS.CachesDirectoryPath)) return filePath;
+  const copy = `${RNFS.CachesDirectoryPath}/${filePath.split('/').pop()}`;
+  if (await RNFS.exists(copy)) await RNFS.unlink(copy);
+  await RNFS.copyFile(filePath, copy);
+  return copy;
+};
+
+export const shareLocalFile = async (
+  path: string,
+  mime: string,
+  content: { message?: string; title?: string } = {},
+): Promise<void> => {
+  const filePath = path.replace(/^file:\/\//, '');
+  if (Platform.OS === 'ios') {
+    await Share.share({ url: `file://${filePath}`, message: content.message, title: content.title });
+    return;
+  }
+  try {
+    await RNShare.open({
+      url: `file://${await inShareableDir(filePath)}`,
+      type: mime,
+      message: content.message,
+      title: content.title,
+      failOnCancel: false,
+    });
+  } catch (error) {
+    console.warn('shareLocalFile: Share failed, opening the file instead:', error);
+    await RNFetchBlob.android.actionViewIntent(filePath, mime);
+  }
+};
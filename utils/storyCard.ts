@@ -0,0 +1,165 @@
+/**
+ * storyCard — data and links for the shareable story cards (StoryCardModal).
+ *
+ * A card is built from a meal, a restaurant row (DraggableRestaurantList),
+ * an iconic eat or a whole passport, then rendered by components/StoryCardModal
+ * at Instagram-story size (9:16) in one of STORY_CARD_TEMPLATES.
+ *
+ * Every card carries a link back into the app. Meal and passport links open
+ * directly (App.tsx handleDeepLink → parseStoryCardLink); restaurants and
+ * iconic eats have no screen of their own, so their cards link to the
+ * sharer's passport.
+ */
+import type { MealEntry } from '../types/mealEntry';
+import type { IconicEat } from '../services/iconicEatsService';
+
+export type StoryCardKind = 'meal' | 'restaurant' | 'iconic' | 'passport';
+
+export type StoryCardTemplate = 'photo' | 'pixel' | 'minimal';
+
+export const STORY_CARD_TEMPLATES: { id: StoryCardTemplate; label: string }[] = [
+  { id: 'photo', label: 'Photo' },
+  { id: 'pixel', label: 'Pixel' },
+  { id: 'minimal', label: 'Minimal' },
+];
+
+export interface StoryCardData {
+  kind: StoryCardKind;
+  title: string;
+  subtitle: string | null; // restaurant for meals, "3 meals" for restaurants, ...
+  city: string | null;
+  label: string; // small caps line above the title
+  photoUrl: string | null;
+  pixelArtUrls: string[]; // first one is the hero on the pixel template
+  rating: number | null; // 1–6, meals only
+  link: string;
+}
+
+// Same host as filter preset links (services/filterPresetService.ts)
+const LINK_BASE = 'https://forkful.app';
+
+export const mealLink = (mealId: string) => `${LINK_BASE}/meal/${encodeURIComponent(mealId)}`;
+export const passportLink = (userId: string) => `${LINK_BASE}/passport/${encodeURIComponent(userId)}`;
+
+/** Link without the scheme, for printing on the card. */
+export const displayLink = (link: string) => link.replace(/^https?:\/\//, '');
+
+/**
+ * Recognise a story-card link (https://forkful.app/meal/<id>,
+ * forkful://passport/<uid>, ...). Returns null for anything else so
+ * handleDeepLink can fall through to challenge links.
+ */
+export function parseStoryCardLink(url: string): { kind: 'meal' | 'passport'; id: string } | null {
+  const match = url.match(/^(?:https?:\/\/forkful\.app|forkful:\/)\/(meal|passport)\/([^/?#]+)/);
+  if (!match) return null;
+  return { kind: match[1] as 'meal' | 'passport', id: decodeURIComponent(match[2]) };
+}
+
+type StoryCardMeal = Pick<
+  MealEntry,
+  'id' | 'meal' | 'restaurant' | 'rating' | 'mealType' | 'city' | 'cities' | 'location' | 'photoUrl' | 'photos' | 'pixel_art_url'
+>;
+
+/** Flagship gallery photo, falling back to the legacy single photo. */
+export const flagshipPhoto = (meal: Pick<MealEntry, 'photoUrl' | 'photos'>): string | null => {
+  if (meal.photos && meal.photos.length > 0) {
+    return (meal.photos.find(p => p.isFlagship) || meal.photos[0]).url;
+  }
+  return meal.photoUrl || null;
+};
+
+const mealCity = (meal: StoryCardMeal): string | null =>
+  (meal.cities && meal.cities[0]) || meal.location?.city || meal.city || null;
+
+export function mealStoryCard(meal: StoryCardMeal): StoryCardData {
+  const restaurant = meal.mealType === 'Homemade' ? 'Homemade' : (meal.restaurant || '').split(',')[0].trim();
+  return {
+    kind: 'meal',
+    title: meal.meal || 'Untitled meal',
+    subtitle: restaurant || null,
+    city: mealCity(meal),
+    label: 'Just ate',
+    photoUrl: flagshipPhoto(meal),
+    pixelArtUrls: meal.pixel_art_url ? [meal.pixel_art_url] : [],
+    rating: meal.rating > 0 ? meal.rating : null,
+    link: mealLink(meal.id),
+  };
+}
+
+/** `restaurant` is a DraggableRestaurantList row. */
+export function restaurantStoryCard(
+  restaurant: {
+    name: string;
+    mealCount: number;
+    city?: string;
+    emojiUrls?: string[];
+    meals?: { photoUrl: string; rating: number }[];
+  },
+  userId: string,
+): StoryCardData {
+  const best = [...(restaurant.meals || [])].filter(m => m.photoUrl).sort((a, b) => b.rating - a.rating)[0];
+  return {
+    kind: 'restaurant',
+    title: restaurant.name,
+    subtitle: `${restaurant.mealCount} ${restaurant.mealCount === 1 ? 'dish' : 'dishes'} tried`,
+    city: restaurant.city || null,
+    label: 'A favourite spot',
+    photoUrl: best?.photoUrl || null,
+    pixelArtUrls: (restaurant.emojiUrls || []).slice(0, 6),
+    rating: null,
+    link: passportLink(userId),
+  };
+}
+
+export function iconicEatStoryCard(
+  eat: Pick<IconicEat, 'dish_name' | 'restaurant_name' | 'city' | 'emoji_url' | 'category'>,
+  photoUrl: string | null,
+  userId: string,
+): StoryCardData {
+  return {
+    kind: 'iconic',
+    title: eat.dish_name,
+    subtitle: eat.restaurant_name || null,
+    city: eat.city || null,
+    label: eat.category || 'Iconic Eat',
+    photoUrl,
+    pixelArtUrls: eat.emoji_url ? [eat.emoji_url] : [],
+    rating: null,
+    link: passportLink(userId),
+  };
+}
+
+export function passportStoryCard(
+  user: { userId: string; userName?: string | null; userPhoto?: string | null },
+  stats: { meals: number; cities: number; restaurants: number },
+  pixelArtUrls: string[],
+): StoryCardData {
+  const parts = [
+    `${stats.meals} ${stats.meals === 1 ? 'meal' : 'meals'}`,
+    stats.restaurants > 0 ? `${stats.restaurants} ${stats.restaurants === 1 ? 'restaurant' : 'restaurants'}` : null,
+    stats.cities > 0 ? `${stats.cities} ${stats.cities === 1 ? 'city' : 'cities'}` : null,
+  ].filter(Boolean);
+  return {
+    kind: 'passport',
+    title: user.userName ? `${user.userName}'s Food Passport` : 'My Food Passport',
+    subtitle: parts.join(' · '),
+    city: null,
+    label: 'Food Passport',
+    photoUrl: user.userPhoto || null,
+    pixelArtUrls: pixelArtUrls.slice(0, 12),
+    rating: null,
+    link: passportLink(user.userId),
+  };
+}
+
+/** Text that goes alongside the image in the share sheet. */
+export function storyCardMessage(card: StoryCardData): string {
+  switch (card.kind) {
+    case 'meal':
+      return `${card.title}${card.subtitle ? ` at ${card.subtitle}` : ''} on Forkful: ${card.link}`;
+    case 'passport':
+      return `Check out my food passport on Forkful: ${card.link}`;
+    default:
+      return `${card.title}${card.subtitle && card.kind === 'iconic' ? ` at ${card.subtitle}` : ''} — more on Forkful: ${card.link}`;
+  }
+}
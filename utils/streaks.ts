@@ -0,0 +1,224 @@
+/**
+ * streaks — daily and weekly dining streaks from a user's meals.
+ *
+ * Pure, so ProfileCard's widget, the lapse reminder (streakService) and the
+ * streak-milestone stamps (achievementRules' `streak` criteria) all count
+ * the same way, and __tests__/streaks.test.ts can pin it down.
+ *
+ * Rules:
+ *   - A meal counts on its calendar day (mealCalendarDate: photoTakenAt,
+ *     else createdAt) in the device's local timezone. Weeks are Monday to
+ *     Sunday, local.
+ *   - Today and this week aren't over yet: not having logged them doesn't
+ *     break anything, it just doesn't add to the count.
+ *   - Every FREEZE_EVERY_DAYS logged days in a row earns a freeze day, up
+ *     to MAX_FREEZES banked. A missed day inside a live daily streak spends
+ *     one instead of breaking it; frozen days keep the streak, they don't
+ *     lengthen it. Banked freezes survive a broken streak.
+ *   - Weekly streaks have no freezes: a week with at least one meal counts.
+ *   - Days and weeks are stepped on the calendar, never by adding 24h / 7d
+ *     of milliseconds, so a DST change doesn't shift a week's end.
+ *   - StreakState is the walk up to the latest logged day. It can be stored
+ *     and advanced one meal at a time (advanceStreakState) instead of
+ *     re-reading every meal; a meal dated before that day needs a rebuild.
+ */
+import { mealCalendarDate } from './wrappedStats';
+
+export type StreakUnit = 'day' | 'week';
+
+export interface DailyStreak {
+  current: number; // logged days in the live streak
+  longest: number;
+  freezesAvailable: number;
+  frozenDays: Date[]; // days bridged by a freeze in the live streak
+  loggedToday: boolean;
+}
+
+export interface WeeklyStreak {
+  current: number; // weeks in the live streak
+  longest: number;
+  loggedThisWeek: boolean;
+  atRisk: boolean; // live streak, nothing logged yet this week
+  weekEndsAt: Date; // Sunday 23:59:59.999 local
+}
+
+export interface StreakSummary {
+  daily: DailyStreak;
+  weekly: WeeklyStreak;
+}
+
+export const FREEZE_EVERY_DAYS = 7;
+export const MAX_FREEZES = 2;
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/** Monday 00:00 of `date`'s week, local time. */
+export const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - ((day.getDay() + 6) % 7));
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Sunday 23:59:59.999 local of `date`'s week. */
+export const endOfWeek = (date: Date) => new Date(addDays(startOfWeek(date), 7).getTime() - 1);
+
+/** Distinct period starts for `unit`, oldest first. */
+const periods = (dates: Date[], unit: StreakUnit): Date[] => {
+  const start = unit === 'day' ? startOfDay : startOfWeek;
+  const keys = new Set(dates.map(date => start(date).getTime()));
+  return [...keys].sort((a, b) => a - b).map(time => new Date(time));
+};
+
+type DailyWalk = Omit<DailyStreak, 'loggedToday'> & { sinceFreeze: number };
+
+const emptyWalk = (): DailyWalk => ({ current: 0, longest: 0, freezesAvailable: 0, frozenDays: [], sinceFreeze: 0 });
+
+/** One day of the daily walk: a logged day extends it, a missed one spends a freeze or breaks it. */
+const walkDay = (walk: DailyWalk, day: Date, logged: boolean, freezes: boolean) => {
+  if (logged) {
+    walk.current += 1;
+    walk.longest = Math.max(walk.longest, walk.current);
+    walk.sinceFreeze += 1;
+    if (freezes && walk.sinceFreeze === FREEZE_EVERY_DAYS) {
+      walk.freezesAvailable = Math.min(MAX_FREEZES, walk.freezesAvailable + 1);
+      walk.sinceFreeze = 0;
+    }
+  } else if (freezes && walk.current > 0 && walk.freezesAvailable > 0) {
+    walk.freezesAvailable -= 1;
+    walk.frozenDays.push(day);
+  } else {
+    walk.current = 0;
+    walk.frozenDays = [];
+    walk.sinceFreeze = 0;
+  }
+};
+
+/** Walk the missed days after `from` up to (not including) `until`'s day. */
+const walkMissedDays = (walk: DailyWalk, from: Date, until: Date, freezes: boolean) => {
+  const stop = startOfDay(until).getTime();
+  for (let day = addDays(from, 1); day.getTime() < stop; day = addDays(day, 1)) {
+    walkDay(walk, day, false, freezes);
+  }
+};
+
+const publicWalk = (walk: DailyWalk): Omit<DailyStreak, 'loggedToday'> => ({
+  current: walk.current,
+  longest: walk.longest,
+  freezesAvailable: walk.freezesAvailable,
+  frozenDays: walk.frozenDays,
+});
+
+/**
+ * Walk every day from the first logged one to `until` (the day still in
+ * progress), spending freezes on missed days when `freezes` is on.
+ */
+export function dailyStreakAt(dates: Date[], until: Date, freezes = true): Omit<DailyStreak, 'loggedToday'> {
+  const today = startOfDay(until).getTime();
+  const walk = emptyWalk();
+  let last: Date | null = null;
+  for (const day of periods(dates, 'day').filter(d => d.getTime() <= today)) {
+    if (last) walkMissedDays(walk, last, day, freezes);
+    walkDay(walk, day, true, freezes);
+    last = day;
+  }
+  // Missed days since, but today isn't over yet
+  if (last) walkMissedDays(walk, last, until, freezes);
+  return publicWalk(walk);
+}
+
+/** Consecutive logged weeks ending with `until`'s week (still in progress). */
+export function weeklyStreakAt(dates: Date[], until: Date): { current: number; longest: number } {
+  const thisWeek = startOfWeek(until).getTime();
+  const weeks = periods(dates, 'week').filter(week => week.getTime() <= thisWeek);
+  let current = 0;
+  let longest = 0;
+  for (let i = 0; i < weeks.length; i++) {
+    const continues = i > 0 && addDays(weeks[i - 1], 7).getTime() === weeks[i].getTime();
+    current = continues ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  }
+  // The run is live if it reaches this week or last week
+  const lastWeek = addDays(new Date(thisWeek), -7).getTime();
+  if (weeks.length === 0 || weeks[weeks.length - 1].getTime() < lastWeek) current = 0;
+  return { current, longest };
+}
+
+/**
+ * Where the streaks stand as of the latest logged day. Plain numbers so it
+ * can be stored as JSON.
+ */
+export interface StreakState {
+  lastDay: number; // start of the latest logged day, ms
+  daily: Omit<DailyWalk, 'frozenDays'> & { frozenDays: number[] };
+  weekly: { current: number; longest: number }; // the run ending with lastDay's week
+}
+
+/**
+ * Count a meal dated `date` into `state`. Null when the meal is older than
+ * the latest logged day, which the walk can't take back: rebuild with
+ * streakStateFromDates instead.
+ */
+export function advanceStreakState(state: StreakState | null, date: Date): StreakState | null {
+  const day = startOfDay(date);
+  if (!state) {
+    const walk = emptyWalk();
+    walkDay(walk, day, true, true);
+    return { lastDay: day.getTime(), daily: { ...walk, frozenDays: [] }, weekly: { current: 1, longest: 1 } };
+  }
+  if (day.getTime() < state.lastDay) return null;
+  if (day.getTime() === state.lastDay) return state;
+
+  const lastDay = new Date(state.lastDay);
+  const walk: DailyWalk = { ...state.daily, frozenDays: state.daily.frozenDays.map(t => new Date(t)) };
+  walkMissedDays(walk, lastDay, day, true);
+  walkDay(walk, day, true, true);
+
+  const lastWeek = startOfWeek(lastDay).getTime();
+  const week = startOfWeek(day).getTime();
+  let weekly = state.weekly;
+  if (week !== lastWeek) {
+    const current = addDays(new Date(lastWeek), 7).getTime() === week ? weekly.current + 1 : 1;
+    weekly = { current, longest: Math.max(weekly.longest, current) };
+  }
+  return { lastDay: day.getTime(), daily: { ...walk, frozenDays: walk.frozenDays.map(d => d.getTime()) }, weekly };
+}
+
+/** The state after every meal in `dates`, oldest first. Null with no meals. */
+export function streakStateFromDates(dates: Date[]): StreakState | null {
+  return periods(dates, 'day').reduce<StreakState | null>((state, day) => advanceStreakState(state, day), null);
+}
+
+/** The streaks as of `now`, walking the days missed since the state's latest one. */
+export function summarizeStreakState(state: StreakState | null, now: Date = new Date()): StreakSummary {
+  const today = startOfDay(now).getTime();
+  const thisWeek = startOfWeek(now).getTime();
+  const walk = state
+    ? { ...state.daily, frozenDays: state.daily.frozenDays.map(t => new Date(t)) }
+    : emptyWalk();
+  if (state) walkMissedDays(walk, new Date(state.lastDay), now, true);
+
+  const lastWeek = state ? startOfWeek(new Date(state.lastDay)).getTime() : null;
+  const loggedThisWeek = lastWeek === thisWeek;
+  // The run is live if it reaches this week or last week
+  const live = lastWeek !== null && lastWeek >= addDays(new Date(thisWeek), -7).getTime();
+  const current = state && live ? state.weekly.current : 0;
+  return {
+    daily: { ...publicWalk(walk), loggedToday: state?.lastDay === today },
+    weekly: {
+      current,
+      longest: state ? state.weekly.longest : 0,
+      loggedThisWeek,
+      atRisk: current > 0 && !loggedThisWeek,
+      weekEndsAt: endOfWeek(now),
+    },
+  };
+}
+
+export function computeStreaks(
+  meals: { photoTakenAt?: any; createdAt?: any }[],
+  now: Date = new Date(),
+): StreakSummary {
+  const dates = meals.map(mealCalendarDate).filter((d): d is Date => d !== null && d <= now);
+  return summarizeStreakState(streakStateFromDates(dates), now);
+}
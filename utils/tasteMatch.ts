@@ -12,6 +12,7 @@
  * "protein::chicken"). Must match the key format used in tasteProfile.js.
  */
 import type { SearchableMeal } from './mealSearch';
+import { humanizeVocab } from '../constants/canonicalVocab';
 
 /**
  * Shape of the taste profile doc at users/{uid}/taste_profile/summary.
@@ -33,6 +34,8 @@ export interface TasteProfile {
   taste_story_archetype?: string;
   taste_story_insights?: string[];
   taste_story_updated_at?: unknown;
+  /** Appended by tasteStory.js each time the archetype changes. */
+  taste_story_archetype_history?: { archetype: string; at: unknown }[];
   discovered?: {
     flavors?: string[];
     cuisines?: string[];
@@ -116,20 +119,29 @@ export function extractMealTags(meal: SearchableMeal): Tag[] {
 // Scoring
 // =============================================================================
 
+/** One meal tag's signed contribution from the profile's tag_scores. */
+export interface TasteMatchContribution {
+  field: string;
+  value: string;
+  contribution: number;
+}
+
+export interface TasteMatchExplanation {
+  score: number; // 0..100, same as computeTasteMatch
+  // Tags with a non-zero tag_score, strongest pull (either way) first.
+  contributions: TasteMatchContribution[];
+  // Meal tag values that are on the profile's avoid_tags list.
+  avoided: string[];
+}
+
 /**
- * Compute a 0..100 taste match score for a meal against a taste profile.
- *
- * Returns null when:
- *   - profile is missing or null
- *   - profile.tier is 'locked' (not enough data to judge)
- *   - profile.tag_scores is empty
- *
- * Returns 0..100 otherwise. Higher = better match.
+ * computeTasteMatch, plus the tags that produced the score. Same null
+ * cases as computeTasteMatch.
  */
-export function computeTasteMatch(
+export function explainTasteMatch(
   meal: SearchableMeal,
   profile: TasteProfile | null | undefined
-): number | null {
+): TasteMatchExplanation | null {
   if (!profile) return null;
   if (profile.tier === 'locked') return null;
 
@@ -138,15 +150,24 @@ export function computeTasteMatch(
   if (keys.length === 0) return null;
 
   const tags = extractMealTags(meal);
-  if (tags.length === 0) return 0;
+  if (tags.length === 0) return { score: 0, contributions: [], avoided: [] };
 
   // Sum the user's scores for each tag present on the meal.
   let raw = 0;
+  const contributions: TasteMatchContribution[] = [];
   for (const { field, value } of tags) {
     const key = `${field}::${value}`;
     const s = scores[key];
-    if (typeof s === 'number') raw += s;
+    if (typeof s === 'number') {
+      raw += s;
+      if (s !== 0) contributions.push({ field, value, contribution: s });
+    }
   }
+  contributions.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  // avoid_tags holds bare values (no field), as written by computeAvoidTags.
+  const avoidSet = new Set((profile.avoid_tags || []).map(v => v.toLowerCase()));
+  const avoided = Array.from(new Set(tags.map(t => t.value).filter(v => avoidSet.has(v))));
 
   // Normalization denominator: sum of the top-5 POSITIVE scores in the profile.
   // This represents the "best possible meal for this user" score.
@@ -155,7 +176,7 @@ export function computeTasteMatch(
     .sort((a, b) => b - a);
   const denom = positiveScores.slice(0, 5).reduce((acc, s) => acc + s, 0);
 
-  if (denom <= 0) return 0;
+  if (denom <= 0) return { score: 0, contributions, avoided };
 
   // Map raw score into 0..100. A meal that hits the top-5 exactly → 100.
   // Meals with negative contributions pull below 50 baseline.
@@ -164,7 +185,61 @@ export function computeTasteMatch(
   // tag overlap sits at 50, and strongly disliked meals drop toward 0.
   const halfDenom = denom / 2;
   const score = 50 + (raw / halfDenom) * 50;
-  return Math.max(0, Math.min(100, Math.round(score)));
+  return {
+    score: Math.max(0, Math.min(100, Math.round(score))),
+    contributions,
+    avoided,
+  };
+}
+
+/**
+ * Compute a 0..100 taste match score for a meal against a taste profile.
+ *
+ * Returns null when:
+ *   - profile is missing or null
+ *   - profile.tier is 'locked' (not enough data to judge)
+ *   - profile.tag_scores is empty
+ *
+ * Returns 0..100 otherwise. Higher = better match.
+ */
+export function computeTasteMatch(
+  meal: SearchableMeal,
+  profile: TasteProfile | null | undefined
+): number | null {
+  return explainTasteMatch(meal, profile)?.score ?? null;
+}
+
+const joinLabels = (labels: string[]): string =>
+  labels.map(v => humanizeVocab(v).toLowerCase()).join(', ');
+
+/**
+ * Turn an explanation into display copy:
+ *   headline: "Matches your love of garlicky, crispy, chicken"
+ *   caution:  "Usually not your thing: very hot"
+ * Either is null when there's nothing worth saying. Only positive
+ * contributions make the headline — the caution line carries the rest.
+ */
+export function describeTasteMatch(
+  explanation: TasteMatchExplanation | null,
+  maxTags = 3
+): { headline: string | null; caution: string | null } {
+  if (!explanation) return { headline: null, caution: null };
+
+  const loved = explanation.contributions
+    .filter(c => c.contribution > 0)
+    .slice(0, maxTags)
+    .map(c => c.value);
+
+  // Avoid-listed tags first, then any other tag that pulled the score down.
+  const disliked = Array.from(new Set([
+    ...explanation.avoided,
+    ...explanation.contributions.filter(c => c.contribution < 0).map(c => c.value),
+  ])).slice(0, maxTags);
+
+  return {
+    headline: loved.length > 0 ? `Matches your love of ${joinLabels(loved)}` : null,
+    caution: disliked.length > 0 ? `Usually not your thing: ${joinLabels(disliked)}` : null,
+  };
 }
 
 /**
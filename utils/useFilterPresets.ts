@@ -0,0 +1,29 @@
+/**
+ * useFilterPresets — React hook for a user's saved filter presets.
+ *
+ * Subscribes to `users/{uid}/settings/filter_presets` and returns
+ * { presets, pinned }. `pinned` is what FullMapQuickChips renders as chips.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { subscribeToFilterPresets, FilterPreset } from '../services/filterPresetService';
+
+interface Result {
+  presets: FilterPreset[];
+  pinned: FilterPreset[];
+}
+
+export function useFilterPresets(userId: string | null | undefined): Result {
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setPresets([]);
+      return;
+    }
+    return subscribeToFilterPresets(userId, setPresets);
+  }, [userId]);
+
+  const pinned = useMemo(() => presets.filter(p => p.pinned), [presets]);
+
+  return { presets, pinned };
+}
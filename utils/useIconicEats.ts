@@ -1,38 +1,92 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import auth from '@react-native-firebase/auth';
 import {
   IconicEat,
+  fetchIconicChecklists,
+  fetchIconicEatsInCells,
   fetchNearbyIconicEats,
+  rankIconicEatsInBounds,
   subscribeToUnlockedIconicEats,
 } from '../services/iconicEatsService';
+import { MapRegion, boundsForRegion, geohashCellsForBounds } from './geohash';
+import type { IconicChecklist } from './iconicChecklists';
 
 interface Options {
   expanded?: boolean;
+  /**
+   * Visible map region. When set, iconic eats are paged by viewport instead
+   * of by radius around the user: each pan only queries geohash cells that
+   * haven't been fetched yet, and results are the eats on screen, nearest
+   * the map center first.
+   */
+  region?: MapRegion | null;
 }
 
 const DEFAULT_LIMIT = 8;
 const EXPANDED_LIMIT = 20;
+const VIEWPORT_LIMIT = 50;
 // TEMP: radius bumped for dev/testing so Portland eats surface from California.
 // Revert to 25 / 50 before launch.
 const DEFAULT_RADIUS_KM = 2000;
 const EXPANDED_RADIUS_KM = 2000;
+// onRegionChangeComplete fires in bursts during fling/zoom gestures.
+const REGION_DEBOUNCE_MS = 300;
+// Cached cells are refetched after this long so curation edits show up.
+const CELL_CACHE_TTL_MS = 10 * 60 * 1000;
 
 /**
  * Combined hook: fetches nearby iconic eats + subscribes to the user's
  * unlocked list, merges them so each item carries `unlocked: boolean`.
+ * Also loads the checklists of every city in the results (once per city)
+ * and returns the unlocked set so callers can show progress on them.
  *
  * When `expanded` is true (filter chip active), fetches a larger set with
- * bigger radius for the map's "all nearby" mode.
+ * bigger radius for the map's "all nearby" mode. When `region` is passed,
+ * follows the map viewport instead (see Options.region).
  */
 export function useIconicEats(
   userLocation: { latitude: number; longitude: number } | null,
   options: Options = {},
 ) {
-  const { expanded = false } = options;
+  const { expanded = false, region = null } = options;
   const [baseIconicEats, setBaseIconicEats] = useState<IconicEat[]>([]);
   const [unlockedSet, setUnlockedSet] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
   const fetchKey = useRef<string>('');
+  const cellCache = useRef<Map<string, { eats: IconicEat[]; fetchedAt: number }>>(new Map());
+  const [checklistsByCity, setChecklistsByCity] = useState<Map<string, IconicChecklist[]>>(new Map());
+  const requestedCities = useRef<Set<string>>(new Set());
+
+  const fetchViewport = useCallback(async (viewport: MapRegion) => {
+    const bounds = boundsForRegion(viewport);
+    const cells = geohashCellsForBounds(bounds);
+    const key = `viewport:${cells.join(',')}:${viewport.latitude.toFixed(3)},${viewport.longitude.toFixed(3)}`;
+    if (key === fetchKey.current) return;
+    fetchKey.current = key;
+
+    const now = Date.now();
+    const missing = cells.filter(cell => {
+      const cached = cellCache.current.get(cell);
+      return !cached || now - cached.fetchedAt > CELL_CACHE_TTL_MS;
+    });
+
+    if (missing.length > 0) setLoading(true);
+    try {
+      if (missing.length > 0) {
+        const fetched = await fetchIconicEatsInCells(missing);
+        fetched.forEach((eats, cell) => cellCache.current.set(cell, { eats, fetchedAt: now }));
+      }
+      // A newer viewport may have started while we were fetching.
+      if (fetchKey.current !== key) return;
+      const inCells: IconicEat[] = [];
+      cells.forEach(cell => inCells.push(...(cellCache.current.get(cell)?.eats || [])));
+      setBaseIconicEats(rankIconicEatsInBounds(inCells, bounds, viewport, VIEWPORT_LIMIT));
+    } catch (e) {
+      console.error('[useIconicEats] viewport fetch failed:', e);
+    } finally {
+      if (fetchKey.current === key) setLoading(false);
+    }
+  }, []);
 
   const doFetch = useCallback(async () => {
     if (!userLocation) return;
@@ -58,8 +112,25 @@ export function useIconicEats(
   }, [userLocation, expanded]);
 
   useEffect(() => {
+    if (region) return;
     doFetch();
-  }, [doFetch]);
+  }, [doFetch, region]);
+
+  useEffect(() => {
+    if (!region) return;
+    const timer = setTimeout(() => fetchViewport(region), REGION_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [region, fetchViewport]);
+
+  const refresh = useCallback(async () => {
+    fetchKey.current = '';
+    if (region) {
+      cellCache.current.clear();
+      await fetchViewport(region);
+    } else {
+      await doFetch();
+    }
+  }, [region, fetchViewport, doFetch]);
 
   useEffect(() => {
     const uid = auth().currentUser?.uid;
@@ -68,6 +139,22 @@ export function useIconicEats(
     return unsub;
   }, []);
 
+  useEffect(() => {
+    const cities = new Set(baseIconicEats.map(e => (e.city || '').toLowerCase().trim()).filter(Boolean));
+    cities.forEach(city => {
+      if (requestedCities.current.has(city)) return;
+      requestedCities.current.add(city);
+      fetchIconicChecklists(city)
+        .then(lists => setChecklistsByCity(prev => new Map(prev).set(city, lists)))
+        .catch(e => {
+          requestedCities.current.delete(city);
+          console.error('[useIconicEats] checklist fetch failed:', e);
+        });
+    });
+  }, [baseIconicEats]);
+
+  const checklists = useMemo(() => [...checklistsByCity.values()].flat(), [checklistsByCity]);
+
   const iconicEats: IconicEat[] = baseIconicEats.map(e => ({
     ...e,
     unlocked: unlockedSet.has(e.id),
@@ -75,7 +162,9 @@ export function useIconicEats(
 
   return {
     iconicEats,
+    checklists,
+    unlocked: unlockedSet,
     loading,
-    refresh: doFetch,
+    refresh,
   };
 }
@@ -0,0 +1,54 @@
+/**
+ * useRecommendations — React hook for a user's precomputed "people like you
+ * also loved" restaurants and dishes.
+ *
+ * Subscribes to `users/{uid}/recommendations/summary` via
+ * recommendationService and returns { recommendations, loading, error }.
+ * Same shape and one-subscription-per-screen guidance as useTasteProfile.
+ */
+import { useEffect, useState } from 'react';
+import {
+  EMPTY_RECOMMENDATIONS,
+  Recommendations,
+  subscribeToRecommendations,
+} from '../services/recommendationService';
+
+interface Result {
+  recommendations: Recommendations;
+  loading: boolean;
+  error: boolean;
+}
+
+export function useRecommendations(userId: string | null | undefined): Result {
+  const [recommendations, setRecommendations] = useState<Recommendations>(EMPTY_RECOMMENDATIONS);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!userId) {
+      setRecommendations(EMPTY_RECOMMENDATIONS);
+      setLoading(false);
+      setError(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(false);
+
+    const unsub = subscribeToRecommendations(
+      userId,
+      (next) => {
+        setRecommendations(next);
+        setLoading(false);
+      },
+      () => {
+        setError(true);
+        setLoading(false);
+      }
+    );
+
+    return () => unsub();
+  }, [userId]);
+
+  return { recommendations, loading, error };
+}
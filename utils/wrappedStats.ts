@@ -0,0 +1,237 @@
+/**
+ * wrappedStats — year-in-review ("Wrapped") numbers from a user's meals.
+ *
+ * Pure: takes the user's mealEntries and taste profile, returns everything
+ * the WrappedScreen slides show. No Firestore, no React, so it's covered by
+ * __tests__/wrappedStats.test.ts.
+ *
+ * Rules:
+ *   - Only rated meals count (unrated ones are captures still waiting for a
+ *     rating), dated the way MealCalendar dates them: photoTakenAt, falling
+ *     back to createdAt, in local time. MealCalendar uses mealCalendarDate
+ *     from here so the heatmap and the calendar always agree.
+ *   - Restaurants, cuisines and cities use the same extraction as
+ *     countRefreshService (first comma segment of `restaurant`; cuisine from
+ *     metadata_enriched → quick_criteria_result → aiMetadata; `cities`
+ *     before the legacy single-city fields), compared case-insensitively.
+ *   - The signature dish is the taste profile's `signature_dish`, not
+ *     recomputed here.
+ *   - Archetype evolution comes from `taste_story_archetype_history`
+ *     (appended by functions/tasteStory.js whenever the archetype changes).
+ */
+import type { MealEntry } from '../types/mealEntry';
+import type { TasteProfile } from './tasteMatch';
+
+export type WrappedMeal = Pick<
+  MealEntry,
+  | 'id'
+  | 'meal'
+  | 'restaurant'
+  | 'rating'
+  | 'mealType'
+  | 'city'
+  | 'cities'
+  | 'location'
+  | 'photoUrl'
+  | 'pixel_art_url'
+  | 'metadata_enriched'
+  | 'quick_criteria_result'
+  | 'aiMetadata'
+  | 'iconic_eat_id'
+> & {
+  createdAt?: any;
+  photoTakenAt?: any;
+};
+
+export interface WrappedCount {
+  name: string;
+  count: number;
+}
+
+export interface WrappedMonth {
+  month: number; // 0–11
+  meals: number;
+  days: number[]; // meals per day of month, index 0 = the 1st
+  activeDays: number;
+}
+
+export interface WrappedArchetype {
+  archetype: string;
+  at: Date | null; // null for the current archetype when no history exists
+}
+
+export interface WrappedIconicEat {
+  eatId: string;
+  mealId: string;
+  mealName: string;
+  restaurant: string | null;
+  rating: number;
+  date: Date;
+}
+
+export interface WrappedStats {
+  year: number;
+  totalMeals: number;
+  restaurantCount: number;
+  cuisineCount: number;
+  cityCount: number;
+  topRestaurant: WrappedCount | null;
+  topCuisines: WrappedCount[];
+  signatureDish: TasteProfile['signature_dish'] | null;
+  months: WrappedMonth[];
+  busiestMonth: number | null;
+  busiestDay: { date: Date; meals: number } | null;
+  archetypes: WrappedArchetype[];
+  topIconicEats: WrappedIconicEat[];
+}
+
+const TOP_CUISINES = 3;
+const TOP_ICONIC_EATS = 5;
+const JUNK = new Set(['', 'unknown', 'n/a', 'null']);
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value.toDate === 'function') return value.toDate();
+  if (typeof value.seconds === 'number') return new Date(value.seconds * 1000);
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/** The day a meal belongs to on the calendar: photo taken, else logged. */
+export const mealCalendarDate = (meal: { photoTakenAt?: any; createdAt?: any }): Date | null =>
+  toDate(meal.photoTakenAt) || toDate(meal.createdAt);
+
+const clean = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return JUNK.has(trimmed.toLowerCase()) ? null : trimmed;
+};
+
+export const restaurantOf = (meal: WrappedMeal): string | null => {
+  if (meal.mealType === 'Homemade') return null;
+  return clean((meal.restaurant || '').split(',')[0]);
+};
+
+export const cuisineOf = (meal: WrappedMeal): string | null =>
+  clean(meal.metadata_enriched?.cuisine_type) ||
+  clean(meal.quick_criteria_result?.cuisine_type) ||
+  clean(meal.aiMetadata?.cuisineType);
+
+export const citiesOf = (meal: WrappedMeal): string[] => {
+  if (Array.isArray(meal.cities) && meal.cities.length > 0) {
+    return meal.cities.map(clean).filter((c): c is string => Boolean(c));
+  }
+  const city = clean(meal.location?.city) || clean(meal.city) || clean(meal.metadata_enriched?.city);
+  return city ? [city] : [];
+};
+
+/**
+ * Tally by lowercase key, keeping the first spelling seen for display.
+ * Ties go to whichever reached the count first.
+ */
+const rank = (values: string[]): WrappedCount[] => {
+  const counts = new Map<string, WrappedCount & { order: number }>();
+  values.forEach((value, order) => {
+    const key = value.toLowerCase();
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count += 1;
+      entry.order = order;
+    } else {
+      counts.set(key, { name: value, count: 1, order });
+    }
+  });
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.order - b.order)
+    .map(({ name, count }) => ({ name, count }));
+};
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+export function computeWrappedStats(
+  meals: WrappedMeal[],
+  year: number,
+  profile: TasteProfile | null = null,
+): WrappedStats {
+  // Oldest first so ties in the rankings favour the earlier favourite.
+  const dated = meals
+    .filter(meal => typeof meal.rating === 'number' && meal.rating > 0)
+    .map(meal => ({ meal, date: mealCalendarDate(meal) }))
+    .filter((m): m is { meal: WrappedMeal; date: Date } => m.date !== null && m.date.getFullYear() === year)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const restaurants = rank(dated.map(m => restaurantOf(m.meal)).filter((r): r is string => Boolean(r)));
+  const cuisines = rank(dated.map(m => cuisineOf(m.meal)).filter((c): c is string => Boolean(c)));
+  const cities = rank(dated.flatMap(m => citiesOf(m.meal)));
+
+  const months: WrappedMonth[] = Array.from({ length: 12 }, (_, month) => ({
+    month,
+    meals: 0,
+    days: new Array(daysInMonth(year, month)).fill(0),
+    activeDays: 0,
+  }));
+  let busiestDay: WrappedStats['busiestDay'] = null;
+  dated.forEach(({ date }) => {
+    const month = months[date.getMonth()];
+    const day = date.getDate() - 1;
+    month.meals += 1;
+    if (month.days[day] === 0) month.activeDays += 1;
+    month.days[day] += 1;
+    if (!busiestDay || month.days[day] > busiestDay.meals) {
+      busiestDay = {
+        date: new Date(year, date.getMonth(), date.getDate()),
+        meals: month.days[day],
+      };
+    }
+  });
+  const busiestMonth = dated.length === 0
+    ? null
+    : months.reduce((best, m) => (m.meals > months[best].meals ? m.month : best), 0);
+
+  const history = (profile?.taste_story_archetype_history || [])
+    .map(entry => ({ archetype: entry.archetype, at: toDate(entry.at) }))
+    .filter(entry => entry.archetype && entry.at && entry.at.getFullYear() === year)
+    .sort((a, b) => a.at!.getTime() - b.at!.getTime());
+  const archetypes: WrappedArchetype[] =
+    history.length > 0
+      ? history
+      : profile?.taste_story_archetype
+        ? [{ archetype: profile.taste_story_archetype, at: null }]
+        : [];
+
+  // Best-rated meal per iconic eat; highest first, earliest wins a tie.
+  const bestByEat = new Map<string, WrappedIconicEat>();
+  dated.forEach(({ meal, date }) => {
+    if (!meal.iconic_eat_id) return;
+    const current = bestByEat.get(meal.iconic_eat_id);
+    if (current && current.rating >= meal.rating) return;
+    bestByEat.set(meal.iconic_eat_id, {
+      eatId: meal.iconic_eat_id,
+      mealId: meal.id,
+      mealName: meal.meal || 'Untitled meal',
+      restaurant: restaurantOf(meal),
+      rating: meal.rating,
+      date,
+    });
+  });
+  const topIconicEats = [...bestByEat.values()]
+    .sort((a, b) => b.rating - a.rating || a.date.getTime() - b.date.getTime())
+    .slice(0, TOP_ICONIC_EATS);
+
+  return {
+    year,
+    totalMeals: dated.length,
+    restaurantCount: restaurants.length,
+    cuisineCount: cuisines.length,
+    cityCount: cities.length,
+    topRestaurant: restaurants[0] || null,
+    topCuisines: cuisines.slice(0, TOP_CUISINES),
+    signatureDish: profile?.signature_dish || null,
+    months,
+    busiestMonth,
+    busiestDay,
+    archetypes,
+    topIconicEats,
+  };
+}